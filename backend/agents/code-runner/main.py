@@ -0,0 +1,161 @@
+from fastapi import FastAPI, HTTPException
+from fastapi.middleware.cors import CORSMiddleware
+from pydantic import BaseModel, Field
+from typing import Optional, Dict, List
+import asyncio
+import os
+import resource
+import shutil
+import sys
+import tempfile
+import time
+
+# Limits applied to every run
+MAX_TIMEOUT_MS = int(os.getenv("CODE_RUNNER_MAX_TIMEOUT_MS", "15000"))
+MEMORY_LIMIT_BYTES = int(os.getenv("CODE_RUNNER_MEMORY_LIMIT_BYTES", str(512 * 1024 * 1024)))
+MAX_OUTPUT_CHARS = 64 * 1024
+
+# Per-language build and run commands; {dir} is the scratch directory
+LANGUAGES: Dict[str, Dict[str, Optional[List[str]]]] = {
+    "python": {
+        "file": "main.py",
+        "compile": None,
+        "run": [sys.executable, "-I", "main.py"],
+    },
+    "java": {
+        "file": "Main.java",
+        "compile": ["javac", "Main.java"],
+        "run": ["java", "-Xmx256m", "-cp", ".", "Main"],
+    },
+    "cpp": {
+        "file": "main.cpp",
+        "compile": ["g++", "-O2", "-std=c++17", "-o", "main", "main.cpp"],
+        "run": ["./main"],
+    },
+}
+
+# Pydantic models
+class ExecuteRequest(BaseModel):
+    language: str
+    code: str
+    stdin: str = ""
+    timeout_ms: int = Field(default=5000, ge=100)
+
+class ExecuteResponse(BaseModel):
+    stdout: str
+    stderr: str
+    exit_code: Optional[int]
+    timed_out: bool
+    execution_time: Optional[int]  # in milliseconds
+    memory_used: Optional[int]  # in bytes
+
+app = FastAPI(
+    title="Code Runner Service",
+    description="Local execution service for Python, Java and C++ code from the playground",
+    version="1.0.0"
+)
+
+app.add_middleware(
+    CORSMiddleware,
+    allow_origins=["*"],
+    allow_credentials=True,
+    allow_methods=["*"],
+    allow_headers=["*"],
+)
+
+def limit_resources():
+    """Applied in the child process before exec"""
+    os.setsid()
+    if MEMORY_LIMIT_BYTES > 0:
+        resource.setrlimit(resource.RLIMIT_AS, (MEMORY_LIMIT_BYTES, MEMORY_LIMIT_BYTES))
+    resource.setrlimit(resource.RLIMIT_NPROC, (64, 64))
+
+async def run_process(command: List[str], cwd: str, stdin: str, timeout_s: float, limited: bool):
+    """Run a command and return (stdout, stderr, exit_code, timed_out, elapsed_ms, max_rss_bytes)"""
+    usage_before = resource.getrusage(resource.RUSAGE_CHILDREN).ru_maxrss
+    started = time.perf_counter()
+
+    process = await asyncio.create_subprocess_exec(
+        *command,
+        cwd=cwd,
+        stdin=asyncio.subprocess.PIPE,
+        stdout=asyncio.subprocess.PIPE,
+        stderr=asyncio.subprocess.PIPE,
+        preexec_fn=limit_resources if limited else None,
+    )
+
+    timed_out = False
+    try:
+        stdout, stderr = await asyncio.wait_for(process.communicate(stdin.encode()), timeout=timeout_s)
+    except asyncio.TimeoutError:
+        timed_out = True
+        process.kill()
+        stdout, stderr = await process.communicate()
+
+    elapsed_ms = int((time.perf_counter() - started) * 1000)
+    usage_after = resource.getrusage(resource.RUSAGE_CHILDREN).ru_maxrss
+    # ru_maxrss is in kilobytes on Linux; it only grows, so report it when this run raised it
+    max_rss = usage_after * 1024 if usage_after > usage_before else None
+
+    return (
+        stdout.decode(errors="replace")[:MAX_OUTPUT_CHARS],
+        stderr.decode(errors="replace")[:MAX_OUTPUT_CHARS],
+        process.returncode,
+        timed_out,
+        elapsed_ms,
+        max_rss,
+    )
+
+@app.get("/health")
+async def health_check():
+    available = {
+        language: shutil.which(config["run"][0]) is not None or config["run"][0].startswith("./")
+        for language, config in LANGUAGES.items()
+    }
+    return {"status": "healthy", "service": "code-runner", "languages": available}
+
+@app.post("/execute", response_model=ExecuteResponse)
+async def execute(request: ExecuteRequest):
+    config = LANGUAGES.get(request.language)
+    if not config:
+        raise HTTPException(status_code=400, detail=f"Unsupported language: {request.language}")
+
+    timeout_s = min(request.timeout_ms, MAX_TIMEOUT_MS) / 1000
+
+    with tempfile.TemporaryDirectory(prefix="code-runner-") as workdir:
+        with open(os.path.join(workdir, config["file"]), "w") as source:
+            source.write(request.code)
+
+        if config["compile"]:
+            if not shutil.which(config["compile"][0]):
+                raise HTTPException(status_code=503, detail=f"{config['compile'][0]} is not installed")
+
+            stdout, stderr, exit_code, timed_out, _, _ = await run_process(
+                config["compile"], workdir, "", 30, limited=False
+            )
+            if exit_code != 0 or timed_out:
+                return ExecuteResponse(
+                    stdout=stdout,
+                    stderr=f"Compilation failed:\n{stderr}",
+                    exit_code=exit_code,
+                    timed_out=timed_out,
+                    execution_time=None,
+                    memory_used=None,
+                )
+
+        stdout, stderr, exit_code, timed_out, elapsed_ms, max_rss = await run_process(
+            config["run"], workdir, request.stdin, timeout_s, limited=True
+        )
+
+    return ExecuteResponse(
+        stdout=stdout,
+        stderr=stderr,
+        exit_code=None if timed_out else exit_code,
+        timed_out=timed_out,
+        execution_time=elapsed_ms,
+        memory_used=max_rss,
+    )
+
+if __name__ == "__main__":
+    import uvicorn
+    uvicorn.run(app, host="127.0.0.1", port=8008)
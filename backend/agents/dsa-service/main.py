@@ -1,4 +1,4 @@
-from fastapi import FastAPI, HTTPException, Depends, UploadFile, File, Form
+from fastapi import FastAPI, HTTPException, Depends, UploadFile, File, Form, Header
 from fastapi.responses import StreamingResponse
 from fastapi.middleware.cors import CORSMiddleware
 from pydantic import BaseModel, Field
@@ -6,13 +6,20 @@ from typing import List, Optional, Dict, Any
 from datetime import datetime, timedelta
 import json
 import csv
+import httpx
 import io
 import os
+import sys
+import time
 from pymongo import MongoClient
 from bson import ObjectId
 import motor.motor_asyncio
 from contextlib import asynccontextmanager
 
+# Add the backend directory to the path for shared module imports
+sys.path.append(os.path.join(os.path.dirname(__file__), '..', '..'))
+from shared.ai import AIProviderError, check_quota, owns_row, record_usage, require_user_id, streamed_completion
+
 # Database connection
 MONGODB_URL = os.getenv("MONGODB_URL", "mongodb://localhost:27017")
 DATABASE_NAME = os.getenv("DATABASE_NAME", "coding_interview_prep")
@@ -24,6 +31,14 @@ db = client[DATABASE_NAME]
 progress_collection = db.dsa_progress
 preferences_collection = db.dsa_preferences
 analytics_collection = db.dsa_analytics
+tutor_hints_collection = db.dsa_tutor_hints
+
+# Tutor chat settings; any OpenAI-compatible chat completions endpoint works
+TUTOR_API_URL = os.getenv("DSA_TUTOR_API_URL", "https://api.groq.com/openai/v1/chat/completions")
+TUTOR_API_KEY = os.getenv("DSA_TUTOR_API_KEY", os.getenv("GROQ_API_KEY", ""))
+TUTOR_MODEL = os.getenv("DSA_TUTOR_MODEL", "llama-3.1-70b-versatile")
+TUTOR_PROVIDER = "groq" if "api.groq.com" in TUTOR_API_URL else "openai_compatible"
+TUTOR_HISTORY_LIMIT = 12
 
 # Pydantic models
 class DSAProgress(BaseModel):
@@ -59,6 +74,46 @@ class DSAAnalytics(BaseModel):
     created_at: datetime = Field(default_factory=datetime.utcnow)
     updated_at: datetime = Field(default_factory=datetime.utcnow)
 
+class TutorMessage(BaseModel):
+    role: str
+    content: str
+
+class TutorProblem(BaseModel):
+    name: str
+    url: Optional[str] = None
+    difficulty: Optional[str] = None
+
+class TutorTopic(BaseModel):
+    id: str
+    title: str
+
+class TutorSolvedHistory(BaseModel):
+    count: int = 0
+    recent: List[str] = []
+
+class TutorContext(BaseModel):
+    topic: Optional[TutorTopic] = None
+    problem: Optional[TutorProblem] = None
+    solved: Optional[TutorSolvedHistory] = None
+
+# What each rung of the hint ladder may reveal; full solutions are never given
+HINT_LADDER = {
+    1: "Give a single nudge: one observation or question that points toward the right idea. Do not name the algorithm.",
+    2: "Name the pattern or data structure that fits and explain in two or three sentences why it applies.",
+    3: "Outline the approach as a short list of steps, including the key invariant, without code.",
+    4: "Give language-neutral pseudocode for the core loop or recursion only, and state the time and space complexity. Do not write a full solution in any programming language.",
+}
+
+class TutorChatRequest(BaseModel):
+    message: str
+    # Hint levels are tracked per conversation; required in hint mode, where
+    # it must be a dsa_tutor_conversations row owned by the caller
+    conversation_id: Optional[str] = Field(None, pattern=r"^[0-9a-fA-F]{8}(-[0-9a-fA-F]{4}){3}-[0-9a-fA-F]{12}$")
+    history: List[TutorMessage] = []
+    context: TutorContext = Field(default_factory=TutorContext)
+    mode: str = "chat"
+    hint_level: int = Field(0, ge=0, le=max(HINT_LADDER))
+
 # FastAPI app
 @asynccontextmanager
 async def lifespan(app: FastAPI):
@@ -69,6 +124,7 @@ async def lifespan(app: FastAPI):
     await progress_collection.create_index([("user_id", 1), ("topic_id", 1), ("problem_name", 1)], unique=True)
     await preferences_collection.create_index("user_id", unique=True)
     await analytics_collection.create_index("user_id", unique=True)
+    await tutor_hints_collection.create_index([("user_id", 1), ("conversation_id", 1)], unique=True)
     
     yield
     
@@ -385,6 +441,124 @@ async def get_analytics(user_id: str):
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
+# Tutor chat
+async def allowed_hint_level(user_id: str, request: TutorChatRequest) -> int:
+    """The requested hint, but never more than one rung above the highest given so far in the conversation"""
+    record = await tutor_hints_collection.find_one(
+        {"user_id": user_id, "conversation_id": request.conversation_id}
+    )
+    given = record["hint_level"] if record else 0
+    return min(max(request.hint_level, 1), given + 1, max(HINT_LADDER))
+
+async def record_hint_level(user_id: str, request: TutorChatRequest, level: int):
+    await tutor_hints_collection.update_one(
+        {"user_id": user_id, "conversation_id": request.conversation_id},
+        {"$max": {"hint_level": level}, "$set": {"updated_at": datetime.utcnow()}},
+        upsert=True,
+    )
+
+def build_tutor_prompt(request: TutorChatRequest, hint_level: int = 0) -> str:
+    """System prompt with the learner's current topic, problem and solved history"""
+    lines = [
+        "You are a patient DSA tutor for a learner preparing for coding interviews.",
+        "Answer concisely, use markdown lists where they help, and prefer explaining ideas over dumping code.",
+    ]
+    context = request.context
+    if context.topic:
+        lines.append(f"The learner is studying the topic: {context.topic.title}.")
+    if context.problem:
+        difficulty = f" ({context.problem.difficulty})" if context.problem.difficulty else ""
+        lines.append(f"They are working on the problem: {context.problem.name}{difficulty}.")
+    if context.solved and context.solved.count:
+        recent = ", ".join(context.solved.recent[:10])
+        lines.append(
+            f"They have solved {context.solved.count} problems so far"
+            + (f", most recently: {recent}." if recent else ".")
+            + " Relate explanations to problems they already know when it helps."
+        )
+    if hint_level:
+        lines.append(
+            f"Hint mode, hint {hint_level} of {max(HINT_LADDER)}. {HINT_LADDER[hint_level]} "
+            "Build on earlier hints in the conversation instead of repeating them."
+        )
+    return "\n".join(lines)
+
+async def stream_tutor_reply(request: TutorChatRequest, user_id: str, hint_level: int = 0):
+    """Relay the model's token stream as server-sent events"""
+    messages = [{"role": "system", "content": build_tutor_prompt(request, hint_level)}]
+    messages += [
+        {"role": "assistant" if item.role == "assistant" else "user", "content": item.content}
+        for item in request.history[-TUTOR_HISTORY_LIMIT:]
+    ]
+    messages.append({"role": "user", "content": request.message})
+
+    started = time.monotonic()
+    reply = ""
+    try:
+        async with httpx.AsyncClient(timeout=60) as http:
+            async with http.stream(
+                "POST",
+                TUTOR_API_URL,
+                headers={"Authorization": f"Bearer {TUTOR_API_KEY}"},
+                json={"model": TUTOR_MODEL, "messages": messages, "temperature": 0.4, "stream": True},
+            ) as response:
+                if response.status_code != 200:
+                    body = await response.aread()
+                    yield f"data: {json.dumps({'error': f'Model request failed: {body.decode()[:200]}'})}\n\n"
+                    yield "data: [DONE]\n\n"
+                    return
+                async for line in response.aiter_lines():
+                    if not line.startswith("data:"):
+                        continue
+                    payload = line[5:].strip()
+                    if payload == "[DONE]":
+                        break
+                    try:
+                        delta = json.loads(payload)["choices"][0].get("delta", {}).get("content")
+                    except (ValueError, KeyError, IndexError, TypeError, AttributeError):
+                        yield f"data: {json.dumps({'error': f'Unexpected model response: {payload[:200]}'})}\n\n"
+                        yield "data: [DONE]\n\n"
+                        return
+                    if delta:
+                        reply += delta
+                        yield f"data: {json.dumps({'token': delta})}\n\n"
+    except httpx.HTTPError as e:
+        yield f"data: {json.dumps({'error': str(e)})}\n\n"
+
+    if reply:
+        # Streams carry no usage block, so tokens are estimated from the text
+        latency_ms = int((time.monotonic() - started) * 1000)
+        await record_usage(user_id, "dsa-tutor", streamed_completion(TUTOR_PROVIDER, TUTOR_MODEL, messages, reply, latency_ms))
+        if hint_level:
+            await record_hint_level(user_id, request, hint_level)
+    yield "data: [DONE]\n\n"
+
+@app.post("/chat/stream")
+async def chat_stream(request: TutorChatRequest, authorization: Optional[str] = Header(None)):
+    """Stream a tutor reply for the DSA chatbot; the caller is the user in the Supabase access token"""
+    if not TUTOR_API_KEY:
+        raise HTTPException(status_code=503, detail="DSA_TUTOR_API_KEY is not configured")
+    if not request.message.strip():
+        raise HTTPException(status_code=400, detail="Message is required")
+    if request.mode == "hints" and not request.conversation_id:
+        raise HTTPException(status_code=400, detail="conversation_id is required in hint mode")
+    try:
+        user_id = await require_user_id(authorization)
+        # The hint ladder is keyed on the conversation, so only its owner may
+        # read or raise it
+        if request.mode == "hints" and not await owns_row("dsa_tutor_conversations", request.conversation_id, user_id):
+            raise HTTPException(status_code=404, detail="Conversation not found")
+        await check_quota(user_id)
+    except AIProviderError as e:
+        raise HTTPException(status_code=e.status or 500, detail=str(e))
+
+    hint_level = await allowed_hint_level(user_id, request) if request.mode == "hints" else 0
+    return StreamingResponse(
+        stream_tutor_reply(request, user_id, hint_level),
+        media_type="text/event-stream",
+        headers={"Cache-Control": "no-cache", "X-Accel-Buffering": "no"},
+    )
+
 # Export/Import
 @app.get("/export/{user_id}")
 async def export_progress(user_id: str):
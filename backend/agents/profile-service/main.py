@@ -1,5 +1,4 @@
 import io
-import json
 import logging
 import os
 import sys
@@ -9,11 +8,14 @@ from typing import Any, Dict, Optional
 
 import docx
 import PyPDF2
-from fastapi import FastAPI, File, Form, HTTPException, UploadFile
+from fastapi import FastAPI, File, Header, HTTPException, UploadFile
 from fastapi.middleware.cors import CORSMiddleware
 
 # Add the backend directory to the path for shared module imports
 sys.path.append(os.path.join(os.path.dirname(__file__), '..', '..'))
+from shared.ai import (AIProviderError, QuotaExceededError,
+                       QuotaUnavailableError, create_provider,
+                       metered_complete, require_user_id)
 from shared.database.supabase_connection import (SupabaseManager,
                                                  close_database,
                                                  create_user_profile,
@@ -65,18 +67,14 @@ app.add_middleware(
     allow_headers=["*"],
 )
 
-# AI Configuration
-GROQ_API_KEY = os.getenv("PROFILE_SERVICE_GROQ_KEY", os.getenv("GROQ_API_KEY", ""))
+# AI Configuration: PROFILE_SERVICE_AI_* overrides the shared AI_* variables.
+# PROFILE_SERVICE_GROQ_KEY is still honoured for existing deployments.
+if os.getenv("PROFILE_SERVICE_GROQ_KEY") and not os.getenv("PROFILE_SERVICE_AI_API_KEY"):
+    os.environ["PROFILE_SERVICE_AI_API_KEY"] = os.environ["PROFILE_SERVICE_GROQ_KEY"]
 
-# Initialize Groq client
-groq_client = None
-if GROQ_API_KEY:
-    try:
-        from groq import Groq
-        groq_client = Groq(api_key=GROQ_API_KEY)
-        logger.info("✅ Groq client initialized successfully")
-    except ImportError:
-        logger.warning("⚠️ Groq library not installed")
+ai_provider = create_provider(prefix="PROFILE_SERVICE_")
+if ai_provider:
+    logger.info(f"✅ AI provider ready: {ai_provider.id} ({ai_provider.model})")
 
 def extract_text_from_pdf(file_content: bytes) -> str:
     """Extract text from PDF file"""
@@ -102,10 +100,10 @@ def extract_text_from_docx(file_content: bytes) -> str:
         logger.error(f"Error extracting DOCX text: {e}")
         return ""
 
-async def extract_profile_with_groq(resume_text: str) -> dict:
-    """Extract profile data using Groq AI"""
-    if not groq_client:
-        raise Exception("Groq client not available")
+async def extract_profile_with_ai(resume_text: str, user_id: Optional[str] = None) -> dict:
+    """Extract profile data using the configured AI provider"""
+    if not ai_provider:
+        raise Exception("AI provider not available")
     
     try:
         prompt = f"""
@@ -183,29 +181,37 @@ async def extract_profile_with_groq(resume_text: str) -> dict:
         Only return valid JSON, no additional text. If information is not found, use empty strings or empty arrays.
         """
         
-        response = groq_client.chat.completions.create(
-            messages=[
+        completion = await metered_complete(
+            ai_provider,
+            [
                 {"role": "system", "content": "You are an expert at extracting structured data from resumes. Always return valid JSON only."},
                 {"role": "user", "content": prompt}
             ],
-            model="llama-3.1-70b-versatile",
             temperature=0.1,
-            max_tokens=3000
+            max_tokens=3000,
+            json_mode=True,
+            user_id=user_id,
+            feature="profile-service:resume-extraction"
         )
+        logger.info(f"🧮 Extraction used {completion.usage.total_tokens} tokens ({completion.provider}/{completion.model})")
         
-        extracted_data = json.loads(response.choices[0].message.content.strip())
-        return extracted_data
+        return completion.json()
         
     except Exception as e:
-        logger.error(f"Groq extraction failed: {e}")
+        logger.error(f"AI extraction failed: {e}")
         raise e
 
 @app.post("/extract-profile")
 async def extract_profile_data(
     resume: UploadFile = File(...),
-    user_id: str = Form(...)
+    authorization: Optional[str] = Header(None)
 ):
-    """Extract profile data from resume and store in Supabase"""
+    """Extract profile data from resume and store in Supabase for the signed-in user"""
+    try:
+        user_id = await require_user_id(authorization)
+    except AIProviderError as e:
+        raise HTTPException(status_code=e.status, detail=str(e))
+
     try:
         logger.info(f"🔍 Starting profile extraction for user: {user_id}")
         
@@ -258,12 +264,15 @@ async def extract_profile_data(
         except Exception as db_error:
             logger.warning(f"⚠️ Failed to save resume metadata: {db_error}")
         
-        # Extract structured data using Groq
-        if not groq_client:
+        # Extract structured data with the configured AI provider
+        if not ai_provider:
             raise HTTPException(status_code=503, detail="AI extraction service not available")
         
-        logger.info("🧠 Extracting profile data with Groq AI...")
-        extracted_data = await extract_profile_with_groq(resume_text)
+        logger.info(f"🧠 Extracting profile data with {ai_provider.id}...")
+        try:
+            extracted_data = await extract_profile_with_ai(resume_text, user_id)
+        except (QuotaExceededError, QuotaUnavailableError) as e:
+            raise HTTPException(status_code=e.status, detail=str(e))
         
         # Transform extracted data to match frontend format
         formatted_data = {
@@ -331,7 +340,7 @@ async def extract_profile_data(
                 "filename": resume.filename,
                 "file_size": len(file_content),
                 "extraction_date": datetime.now().isoformat(),
-                "ai_provider": "groq",
+                "ai_provider": ai_provider.id,
                 "storage_path": storage_filename
             }
         }
@@ -578,7 +587,8 @@ async def health_check():
         db_status = await db_health_check()
         
         ai_status = {
-            "groq_available": groq_client is not None
+            "provider": ai_provider.id if ai_provider else None,
+            "model": ai_provider.model if ai_provider else None
         }
         
         return {
@@ -603,7 +613,7 @@ async def root():
         "service": "StudyMate Profile Service",
         "version": "2.0.0",
         "database": "supabase_postgresql",
-        "ai_providers": ["groq"],
+        "ai_providers": [ai_provider.id] if ai_provider else [],
         "status": "running"
     }
 
@@ -1,5 +1,4 @@
 import io
-import json
 import logging
 import os
 import sys
@@ -8,10 +7,15 @@ from typing import Optional
 
 import docx
 import PyPDF2
-from fastapi import FastAPI, File, Form, HTTPException, UploadFile
+from fastapi import FastAPI, File, Form, Header, HTTPException, UploadFile
 from fastapi.middleware.cors import CORSMiddleware
 
 sys.path.append('/app/shared')
+# Add the backend directory to the path for shared module imports
+sys.path.append(os.path.join(os.path.dirname(__file__), '..', '..'))
+from shared.ai import (AIConfig, AIProviderError, QuotaExceededError,
+                       QuotaUnavailableError, create_provider,
+                       metered_complete, require_user_id)
 from database.supabase_connection import close_database
 from database.supabase_connection import health_check as db_health_check
 from database.supabase_connection import init_database, save_resume_analysis
@@ -31,30 +35,22 @@ app.add_middleware(
     allow_headers=["*"],
 )
 
-# AI Configuration - Using both Groq and Gemini
-GROQ_API_KEY = os.getenv("RESUME_ANALYZER_GROQ_KEY", os.getenv("GROQ_API_KEY", ""))
+# AI Configuration: RESUME_ANALYZER_AI_* overrides the shared AI_* variables,
+# with Gemini as a fallback whenever a Gemini key is available.
+# RESUME_ANALYZER_GROQ_KEY is still honoured for existing deployments.
+if os.getenv("RESUME_ANALYZER_GROQ_KEY") and not os.getenv("RESUME_ANALYZER_AI_API_KEY"):
+    os.environ["RESUME_ANALYZER_AI_API_KEY"] = os.environ["RESUME_ANALYZER_GROQ_KEY"]
 GEMINI_API_KEY = os.getenv("RESUME_ANALYZER_GEMINI_KEY", os.getenv("GEMINI_API_KEY", ""))
 
-# Initialize AI clients
-groq_client = None
-gemini_model = None
+ai_providers = []
+primary_provider = create_provider(prefix="RESUME_ANALYZER_")
+if primary_provider:
+    ai_providers.append(primary_provider)
+if GEMINI_API_KEY and not (primary_provider and primary_provider.id == "gemini"):
+    ai_providers.append(create_provider(AIConfig(provider="gemini", api_key=GEMINI_API_KEY)))
 
-if GROQ_API_KEY:
-    try:
-        from groq import Groq
-        groq_client = Groq(api_key=GROQ_API_KEY)
-        logger.info("✅ Groq client initialized successfully")
-    except ImportError:
-        logger.warning("⚠️ Groq library not installed, falling back to Gemini")
-
-if GEMINI_API_KEY:
-    try:
-        import google.generativeai as genai
-        genai.configure(api_key=GEMINI_API_KEY)
-        gemini_model = genai.GenerativeModel('gemini-pro')
-        logger.info("✅ Gemini client initialized successfully")
-    except ImportError:
-        logger.warning("⚠️ Gemini library not installed")
+for provider in ai_providers:
+    logger.info(f"✅ AI provider ready: {provider.id} ({provider.model})")
 
 @app.on_event("startup")
 async def startup_event():
@@ -96,11 +92,8 @@ def extract_text_from_docx(file_content: bytes) -> str:
         logger.error(f"Error extracting DOCX text: {e}")
         return ""
 
-async def analyze_with_groq(resume_text: str, job_role: str, job_description: str = "") -> dict:
-    """Analyze resume using Groq AI"""
-    if not groq_client:
-        raise Exception("Groq client not available")
-    
+async def analyze_with_ai(provider, resume_text: str, job_role: str, job_description: str = "", user_id: Optional[str] = None) -> dict:
+    """Analyze resume using the given AI provider"""
     try:
         prompt = f"""
         Analyze this resume for the job role: {job_role}
@@ -135,70 +128,25 @@ async def analyze_with_groq(resume_text: str, job_role: str, job_description: st
         Only return valid JSON, no additional text.
         """
         
-        response = groq_client.chat.completions.create(
-            messages=[
+        completion = await metered_complete(
+            provider,
+            [
                 {"role": "system", "content": "You are an expert resume analyzer. Always respond with valid JSON only."},
                 {"role": "user", "content": prompt}
             ],
-            model="llama-3.1-70b-versatile",
             temperature=0.1,
-            max_tokens=2000
+            max_tokens=2000,
+            json_mode=True,
+            user_id=user_id,
+            feature="resume-analyzer:analysis"
         )
         
-        analysis = json.loads(response.choices[0].message.content.strip())
-        analysis["ai_provider"] = "groq"
-        return analysis
-        
-    except Exception as e:
-        logger.error(f"Groq analysis failed: {e}")
-        raise e
-
-async def analyze_with_gemini(resume_text: str, job_role: str, job_description: str = "") -> dict:
-    """Analyze resume using Gemini AI (fallback)"""
-    if not gemini_model:
-        raise Exception("Gemini model not available")
-    
-    try:
-        prompt = f"""
-        Analyze this resume for the job role: {job_role}
-        
-        Job Description: {job_description}
-        
-        Resume Content:
-        {resume_text}
-        
-        Provide a comprehensive analysis in JSON format:
-        {{
-            "overall_score": "Score out of 100",
-            "job_match_score": "How well resume matches the job role (0-100)",
-            "ats_score": "ATS compatibility score (0-100)",
-            "strengths": ["List of resume strengths relevant to the job"],
-            "weaknesses": ["Areas that need improvement"],
-            "skill_gaps": ["Missing skills for the job role"],
-            "recommendations": ["Specific recommendations to improve the resume"],
-            "keywords_found": ["Important keywords found in resume"],
-            "missing_keywords": ["Important keywords missing from resume"],
-            "sections_analysis": {{
-                "summary": "Analysis of professional summary",
-                "experience": "Analysis of work experience",
-                "skills": "Analysis of skills section",
-                "education": "Analysis of education",
-                "overall_structure": "Analysis of resume structure and formatting"
-            }},
-            "improvement_priority": ["Top 3 areas to focus on for improvement"],
-            "role_specific_advice": ["Advice specific to the {job_role} role"]
-        }}
-        
-        Only return valid JSON, no additional text.
-        """
-        
-        response = gemini_model.generate_content(prompt)
-        analysis = json.loads(response.text.strip())
-        analysis["ai_provider"] = "gemini"
+        analysis = completion.json()
+        analysis["ai_provider"] = provider.id
         return analysis
         
     except Exception as e:
-        logger.error(f"Gemini analysis failed: {e}")
+        logger.error(f"{provider.id} analysis failed: {e}")
         raise e
 
 @app.post("/analyze-resume")
@@ -206,9 +154,14 @@ async def analyze_resume(
     resume: UploadFile = File(...),
     job_role: str = Form(...),
     job_description: str = Form(""),
-    user_id: Optional[str] = Form(None)
+    authorization: Optional[str] = Header(None)
 ):
-    """Analyze uploaded resume for specific job role using Groq/Gemini AI"""
+    """Analyze uploaded resume for specific job role using the configured AI providers"""
+    try:
+        user_id = await require_user_id(authorization)
+    except AIProviderError as e:
+        raise HTTPException(status_code=e.status, detail=str(e))
+
     try:
         logger.info(f"🔍 Starting resume analysis for job role: {job_role}")
         
@@ -228,46 +181,44 @@ async def analyze_resume(
         
         logger.info(f"📄 Extracted {len(resume_text)} characters from resume")
         
-        # Try Groq first, fallback to Gemini
+        # Try each configured provider in turn
         analysis = None
-        try:
-            if groq_client:
-                logger.info("🧠 Analyzing with Groq AI...")
-                analysis = await analyze_with_groq(resume_text, job_role, job_description)
-            else:
-                raise Exception("Groq client not available")
-        except Exception as groq_error:
-            logger.warning(f"⚠️ Groq analysis failed: {groq_error}")
+        errors = []
+        for provider in ai_providers:
             try:
-                if gemini_model:
-                    logger.info("🔄 Falling back to Gemini AI...")
-                    analysis = await analyze_with_gemini(resume_text, job_role, job_description)
-                else:
-                    raise Exception("Gemini model not available")
-            except Exception as gemini_error:
-                logger.error(f"❌ Both AI providers failed. Groq: {groq_error}, Gemini: {gemini_error}")
-                # Return basic fallback analysis
-                analysis = {
-                    "overall_score": 50,
-                    "job_match_score": 50,
-                    "ats_score": 50,
-                    "strengths": ["Resume uploaded successfully"],
-                    "weaknesses": ["AI analysis temporarily unavailable"],
-                    "skill_gaps": ["Unable to analyze at this time"],
-                    "recommendations": ["Please try again later"],
-                    "keywords_found": [],
-                    "missing_keywords": [],
-                    "sections_analysis": {
-                        "summary": "Analysis unavailable",
-                        "experience": "Analysis unavailable",
-                        "skills": "Analysis unavailable",
-                        "education": "Analysis unavailable",
-                        "overall_structure": "Analysis unavailable"
-                    },
-                    "improvement_priority": ["Try uploading again"],
-                    "role_specific_advice": ["AI service temporarily unavailable"],
-                    "ai_provider": "fallback"
-                }
+                logger.info(f"🧠 Analyzing with {provider.id}...")
+                analysis = await analyze_with_ai(provider, resume_text, job_role, job_description, user_id)
+                break
+            except (QuotaExceededError, QuotaUnavailableError) as e:
+                raise HTTPException(status_code=e.status, detail=str(e))
+            except Exception as e:
+                logger.warning(f"⚠️ {provider.id} analysis failed: {e}")
+                errors.append(f"{provider.id}: {e}")
+
+        if analysis is None:
+            logger.error(f"❌ All AI providers failed: {'; '.join(errors) or 'none configured'}")
+            # Return basic fallback analysis
+            analysis = {
+                "overall_score": 50,
+                "job_match_score": 50,
+                "ats_score": 50,
+                "strengths": ["Resume uploaded successfully"],
+                "weaknesses": ["AI analysis temporarily unavailable"],
+                "skill_gaps": ["Unable to analyze at this time"],
+                "recommendations": ["Please try again later"],
+                "keywords_found": [],
+                "missing_keywords": [],
+                "sections_analysis": {
+                    "summary": "Analysis unavailable",
+                    "experience": "Analysis unavailable",
+                    "skills": "Analysis unavailable",
+                    "education": "Analysis unavailable",
+                    "overall_structure": "Analysis unavailable"
+                },
+                "improvement_priority": ["Try uploading again"],
+                "role_specific_advice": ["AI service temporarily unavailable"],
+                "ai_provider": "fallback"
+            }
         
         # Prepare response
         result = {
@@ -282,27 +233,26 @@ async def analyze_resume(
             "processing_status": "completed"
         }
         
-        # Save to Supabase if user_id provided
-        if user_id:
-            try:
-                logger.info(f"💾 Saving analysis to Supabase for user: {user_id}")
-                resume_data = {
-                    "filename": resume.filename,
-                    "file_size": len(file_content),
-                    "extracted_text": resume_text,
-                    "ai_analysis": analysis,
-                    "skill_gaps": analysis.get("skill_gaps", []),
-                    "recommendations": analysis.get("recommendations", [])
-                }
-                
-                resume_id = await save_resume_analysis(user_id, resume_data)
-                result["resume_id"] = resume_id
-                logger.info(f"✅ Analysis saved with ID: {resume_id}")
-                
-            except Exception as db_error:
-                logger.error(f"💥 Database save failed: {db_error}")
-                # Don't fail the request if DB save fails
-                result["db_warning"] = "Analysis completed but failed to save to database"
+        # Save to Supabase for the signed-in user
+        try:
+            logger.info(f"💾 Saving analysis to Supabase for user: {user_id}")
+            resume_data = {
+                "filename": resume.filename,
+                "file_size": len(file_content),
+                "extracted_text": resume_text,
+                "ai_analysis": analysis,
+                "skill_gaps": analysis.get("skill_gaps", []),
+                "recommendations": analysis.get("recommendations", [])
+            }
+            
+            resume_id = await save_resume_analysis(user_id, resume_data)
+            result["resume_id"] = resume_id
+            logger.info(f"✅ Analysis saved with ID: {resume_id}")
+            
+        except Exception as db_error:
+            logger.error(f"💥 Database save failed: {db_error}")
+            # Don't fail the request if DB save fails
+            result["db_warning"] = "Analysis completed but failed to save to database"
         
         logger.info(f"✅ Resume analysis completed successfully for {job_role}")
         return result
@@ -320,8 +270,7 @@ async def health_check():
         db_status = await db_health_check()
         
         ai_status = {
-            "groq_available": groq_client is not None,
-            "gemini_available": gemini_model is not None
+            "providers": [{"id": provider.id, "model": provider.model} for provider in ai_providers]
         }
         
         return {
@@ -346,7 +295,7 @@ async def root():
         "service": "StudyMate Resume Analyzer",
         "version": "2.0.0",
         "database": "supabase_postgresql",
-        "ai_providers": ["groq", "gemini"],
+        "ai_providers": [provider.id for provider in ai_providers],
         "status": "running"
     }
 
@@ -0,0 +1,131 @@
+from fastapi import FastAPI, File, Form, HTTPException, UploadFile
+from fastapi.middleware.cors import CORSMiddleware
+from pydantic import BaseModel
+from typing import Optional, List
+import asyncio
+import os
+import tempfile
+
+# Model settings; "base" runs comfortably on CPU, larger models trade speed for accuracy
+WHISPER_MODEL = os.getenv("WHISPER_MODEL", "base")
+WHISPER_DEVICE = os.getenv("WHISPER_DEVICE", "cpu")
+WHISPER_COMPUTE_TYPE = os.getenv("WHISPER_COMPUTE_TYPE", "int8")
+MAX_UPLOAD_BYTES = int(os.getenv("TRANSCRIPTION_MAX_UPLOAD_BYTES", str(200 * 1024 * 1024)))
+
+# Pydantic models, following the OpenAI verbose_json transcription shape so any
+# Whisper-compatible server can stand in for this one
+class TranscriptionWord(BaseModel):
+    word: str
+    start: float
+    end: float
+
+class TranscriptionSegment(BaseModel):
+    id: int
+    start: float
+    end: float
+    text: str
+
+class TranscriptionResponse(BaseModel):
+    text: str
+    language: Optional[str]
+    duration: float
+    segments: List[TranscriptionSegment]
+    words: List[TranscriptionWord]
+
+app = FastAPI(
+    title="Transcription Service",
+    description="Local Whisper speech-to-text for recorded interview answers",
+    version="1.0.0"
+)
+
+app.add_middleware(
+    CORSMiddleware,
+    allow_origins=["*"],
+    allow_credentials=True,
+    allow_methods=["*"],
+    allow_headers=["*"],
+)
+
+_model = None
+
+def get_model():
+    """Load the Whisper model on first use so the service starts quickly"""
+    global _model
+    if _model is None:
+        from faster_whisper import WhisperModel
+        _model = WhisperModel(WHISPER_MODEL, device=WHISPER_DEVICE, compute_type=WHISPER_COMPUTE_TYPE)
+    return _model
+
+def transcribe_file(path: str, language: Optional[str]) -> TranscriptionResponse:
+    segments, info = get_model().transcribe(
+        path,
+        language=language,
+        word_timestamps=True,
+        vad_filter=True,
+    )
+
+    result_segments: List[TranscriptionSegment] = []
+    result_words: List[TranscriptionWord] = []
+    for segment in segments:
+        result_segments.append(TranscriptionSegment(
+            id=segment.id,
+            start=round(segment.start, 2),
+            end=round(segment.end, 2),
+            text=segment.text.strip(),
+        ))
+        for word in segment.words or []:
+            result_words.append(TranscriptionWord(
+                word=word.word.strip(),
+                start=round(word.start, 2),
+                end=round(word.end, 2),
+            ))
+
+    return TranscriptionResponse(
+        text=" ".join(segment.text for segment in result_segments).strip(),
+        language=info.language,
+        duration=round(info.duration, 2),
+        segments=result_segments,
+        words=result_words,
+    )
+
+@app.get("/health")
+async def health_check():
+    return {
+        "status": "healthy",
+        "service": "transcription-service",
+        "model": WHISPER_MODEL,
+        "loaded": _model is not None,
+    }
+
+@app.post("/v1/audio/transcriptions", response_model=TranscriptionResponse)
+async def transcribe(
+    file: UploadFile = File(...),
+    model: str = Form(default="whisper-1"),
+    language: Optional[str] = Form(default=None),
+    response_format: str = Form(default="verbose_json"),
+):
+    # "model" is accepted for API compatibility; the loaded model is set by WHISPER_MODEL
+    if response_format != "verbose_json":
+        raise HTTPException(status_code=400, detail="Only verbose_json responses are supported")
+
+    data = await file.read()
+    if not data:
+        raise HTTPException(status_code=400, detail="Uploaded file is empty")
+    if len(data) > MAX_UPLOAD_BYTES:
+        raise HTTPException(status_code=413, detail="Uploaded file is too large")
+
+    suffix = os.path.splitext(file.filename or "")[1] or ".webm"
+    with tempfile.NamedTemporaryFile(prefix="transcribe-", suffix=suffix) as media:
+        media.write(data)
+        media.flush()
+        try:
+            # faster-whisper decodes with ffmpeg bindings and is CPU bound, keep it off the event loop
+            return await asyncio.get_running_loop().run_in_executor(
+                None, transcribe_file, media.name, language
+            )
+        except Exception as error:
+            raise HTTPException(status_code=422, detail=f"Could not transcribe audio: {error}")
+
+if __name__ == "__main__":
+    import uvicorn
+    uvicorn.run(app, host="127.0.0.1", port=8009)
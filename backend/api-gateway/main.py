@@ -1,4 +1,4 @@
-from fastapi import FastAPI, HTTPException, Depends, UploadFile, File, Form
+from fastapi import FastAPI, HTTPException, Depends, UploadFile, File, Form, Header
 from fastapi.middleware.cors import CORSMiddleware
 from fastapi.security import HTTPBearer, HTTPAuthorizationCredentials
 import httpx
@@ -219,31 +219,34 @@ async def analyze_resume(
     resume: UploadFile = File(...),
     job_role: str = Form(...),
     job_description: str = Form(""),
-    user_id: Optional[str] = Form(None)
+    authorization: Optional[str] = Header(None)
 ):
-    """Analyze resume for specific job role"""
+    """Analyze resume for specific job role; the analyzer takes the user from the forwarded access token"""
     async with httpx.AsyncClient(timeout=60.0) as client:
         files = {"resume": (resume.filename, await resume.read(), resume.content_type)}
         data = {
             "job_role": job_role,
-            "job_description": job_description,
-            "user_id": user_id or "demo"
+            "job_description": job_description
         }
-        response = await client.post(f"{AGENT_SERVICES['resume-analyzer']}/analyze-resume", files=files, data=data)
+        headers = {"Authorization": authorization} if authorization else None
+        response = await client.post(f"{AGENT_SERVICES['resume-analyzer']}/analyze-resume", files=files, data=data, headers=headers)
         return response.json()
 
 # Profile Service Routes
 @app.post("/api/profile/extract-profile")
 async def extract_profile(
     resume: UploadFile = File(...),
-    user_id: str = Form(...),
-    user_id_verified: str = Depends(verify_token)
+    user_id_verified: str = Depends(verify_token),
+    authorization: Optional[str] = Header(None)
 ):
     """Extract profile data from resume using Groq AI"""
     async with httpx.AsyncClient(timeout=60.0) as client:
         files = {"resume": (resume.filename, await resume.read(), resume.content_type)}
-        data = {"user_id": user_id}
-        response = await client.post(f"{AGENT_SERVICES['profile-service']}/extract-profile", files=files, data=data)
+        response = await client.post(
+            f"{AGENT_SERVICES['profile-service']}/extract-profile",
+            files=files,
+            headers={"Authorization": authorization}
+        )
         return response.json()
 
 @app.get("/api/profile/{user_id}")
@@ -278,17 +281,17 @@ async def analyze_resume_groq(
     resume: UploadFile = File(...),
     job_role: str = Form(...),
     job_description: str = Form(""),
-    user_id: Optional[str] = Form(None)
+    authorization: Optional[str] = Header(None)
 ):
     """Analyze resume using Groq AI"""
     async with httpx.AsyncClient(timeout=120.0) as client:
         files = {"resume": (resume.filename, await resume.read(), resume.content_type)}
         data = {
             "job_role": job_role,
-            "job_description": job_description,
-            "user_id": user_id or "demo"
+            "job_description": job_description
         }
-        response = await client.post(f"{AGENT_SERVICES['resume-analyzer-groq']}/analyze-resume", files=files, data=data)
+        headers = {"Authorization": authorization} if authorization else None
+        response = await client.post(f"{AGENT_SERVICES['resume-analyzer-groq']}/analyze-resume", files=files, data=data, headers=headers)
         return response.json()
 
 @app.post("/api/resume-groq/quick-suggestions")
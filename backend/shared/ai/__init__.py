@@ -0,0 +1,7 @@
+from .auth import get_request_user_id, owns_row, require_user_id
+from .metering import (AuthRequiredError, QuotaExceededError,
+                       QuotaUnavailableError, check_quota, metered_complete,
+                       record_usage, streamed_completion)
+from .providers import (AIConfig, AIProvider, AIProviderError, Completion,
+                        TokenUsage, config_from_env, create_provider,
+                        estimate_tokens)
@@ -0,0 +1,70 @@
+"""
+Resolves the calling user from a Supabase access token, the same way the
+edge functions do with getRequestUserId. User ids sent in request bodies are
+never trusted for metering, quotas or per-user state.
+"""
+
+import logging
+import re
+from typing import Optional
+
+import httpx
+
+from .metering import (REQUEST_TIMEOUT_SECONDS, SUPABASE_SERVICE_ROLE_KEY,
+                       SUPABASE_URL, AuthRequiredError, _headers)
+from .providers import AIProviderError
+
+logger = logging.getLogger(__name__)
+
+
+async def get_request_user_id(authorization: Optional[str]) -> Optional[str]:
+    """User id for the token in an Authorization header, or None if it is missing or invalid"""
+    token = re.sub(r"^Bearer\s+", "", authorization or "", flags=re.IGNORECASE).strip()
+    if not token or not SUPABASE_SERVICE_ROLE_KEY:
+        return None
+
+    try:
+        async with httpx.AsyncClient(timeout=REQUEST_TIMEOUT_SECONDS) as client:
+            response = await client.get(
+                f"{SUPABASE_URL}/auth/v1/user",
+                headers={"apikey": SUPABASE_SERVICE_ROLE_KEY, "Authorization": f"Bearer {token}"},
+            )
+    except httpx.HTTPError as e:
+        logger.warning(f"⚠️ Could not verify access token: {e}")
+        return None
+
+    if response.status_code != 200:
+        return None
+    return response.json().get("id")
+
+
+async def require_user_id(authorization: Optional[str]) -> str:
+    """Like get_request_user_id, but raises AuthRequiredError for anonymous callers"""
+    user_id = await get_request_user_id(authorization)
+    if not user_id:
+        raise AuthRequiredError()
+    return user_id
+
+
+async def owns_row(table: str, row_id: str, user_id: str) -> bool:
+    """
+    Whether a row of a user-owned Supabase table belongs to the user. Fails
+    closed: raises AIProviderError (503) when the lookup can't be made.
+    """
+    if not SUPABASE_SERVICE_ROLE_KEY:
+        logger.error(f"❌ SUPABASE_SERVICE_ROLE_KEY is not set; can't check {table} ownership")
+        raise AIProviderError("Ownership could not be checked; try again shortly", status=503)
+
+    try:
+        async with httpx.AsyncClient(timeout=REQUEST_TIMEOUT_SECONDS) as client:
+            response = await client.get(
+                f"{SUPABASE_URL}/rest/v1/{table}",
+                params={"id": f"eq.{row_id}", "user_id": f"eq.{user_id}", "select": "id"},
+                headers=_headers(),
+            )
+            response.raise_for_status()
+    except httpx.HTTPError as e:
+        logger.error(f"❌ Could not check {table} ownership: {e}")
+        raise AIProviderError("Ownership could not be checked; try again shortly", status=503)
+
+    return len(response.json()) > 0
@@ -0,0 +1,139 @@
+"""
+Usage records and daily quotas for the Python agents, stored in the same
+ai_usage / ai_quotas tables the edge functions use. Talks to Supabase's REST
+API with the service role key so it works in services without a Postgres
+pool (the DSA service runs on MongoDB).
+"""
+
+import logging
+import os
+from typing import Optional
+
+import httpx
+
+from .providers import AIProvider, AIProviderError, Completion, build_usage
+
+logger = logging.getLogger(__name__)
+
+SUPABASE_URL = os.getenv("SUPABASE_URL", "https://jwmsgrodliegekbrhvgt.supabase.co")
+SUPABASE_SERVICE_ROLE_KEY = os.getenv("SUPABASE_SERVICE_ROLE_KEY", os.getenv("SUPABASE_SERVICE_KEY", ""))
+REQUEST_TIMEOUT_SECONDS = 10
+
+
+class QuotaExceededError(AIProviderError):
+    def __init__(self, message: str):
+        super().__init__(message, status=429)
+
+
+class AuthRequiredError(AIProviderError):
+    def __init__(self, message: str = "Sign in to use AI features"):
+        super().__init__(message, status=401)
+
+
+class QuotaUnavailableError(AIProviderError):
+    def __init__(self, message: str = "AI usage limits could not be checked; try again shortly"):
+        super().__init__(message, status=503)
+
+
+def _headers() -> dict:
+    return {
+        "apikey": SUPABASE_SERVICE_ROLE_KEY,
+        "Authorization": f"Bearer {SUPABASE_SERVICE_ROLE_KEY}",
+        "Content-Type": "application/json",
+    }
+
+
+def _env_limit(name: str) -> Optional[int]:
+    try:
+        return int(os.getenv(name, ""))
+    except ValueError:
+        return None
+
+
+async def check_quota(user_id: Optional[str]) -> None:
+    """
+    Raise QuotaExceededError if the user has used up today's tokens or
+    requests. Fails closed: anonymous calls are refused, and a missing
+    service key or failed lookup raises QuotaUnavailableError. Pass a user id
+    from auth.require_user_id, never one taken from the request body.
+    """
+    if not user_id:
+        raise AuthRequiredError()
+    if not SUPABASE_SERVICE_ROLE_KEY:
+        logger.error("❌ SUPABASE_SERVICE_ROLE_KEY is not set; refusing AI calls that can't be metered")
+        raise QuotaUnavailableError()
+
+    try:
+        async with httpx.AsyncClient(base_url=f"{SUPABASE_URL}/rest/v1", headers=_headers(), timeout=REQUEST_TIMEOUT_SECONDS) as client:
+            quota_response = await client.get(
+                "/ai_quotas",
+                params={"user_id": f"eq.{user_id}", "select": "daily_token_limit,daily_request_limit"},
+            )
+            quota_response.raise_for_status()
+            rows = quota_response.json()
+            quota = rows[0] if rows else {}
+
+            token_limit = quota.get("daily_token_limit")
+            request_limit = quota.get("daily_request_limit")
+            token_limit = token_limit if token_limit is not None else _env_limit("AI_DAILY_TOKEN_LIMIT")
+            request_limit = request_limit if request_limit is not None else _env_limit("AI_DAILY_REQUEST_LIMIT")
+            if token_limit is None and request_limit is None:
+                return
+
+            usage_response = await client.post("/rpc/get_ai_usage_today", json={"p_user_id": user_id})
+            usage_response.raise_for_status()
+            used = (usage_response.json() or [{}])[0]
+    except httpx.HTTPError as e:
+        logger.error(f"❌ Could not check AI quota for {user_id}: {e}")
+        raise QuotaUnavailableError()
+
+    if token_limit is not None and used.get("total_tokens", 0) >= token_limit:
+        raise QuotaExceededError(f"Daily AI token limit reached ({token_limit} tokens). It resets at midnight UTC.")
+    if request_limit is not None and used.get("request_count", 0) >= request_limit:
+        raise QuotaExceededError(f"Daily AI request limit reached ({request_limit} requests). It resets at midnight UTC.")
+
+
+async def record_usage(user_id: Optional[str], feature: str, completion: Completion, course_id: Optional[str] = None) -> None:
+    """Store one ai_usage row; accounting failures are logged, never raised"""
+    if not SUPABASE_SERVICE_ROLE_KEY:
+        return
+
+    row = {
+        "user_id": user_id,
+        "course_id": course_id,
+        "feature": feature,
+        "provider": completion.provider,
+        "model": completion.model,
+        "prompt_tokens": completion.usage.prompt_tokens,
+        "completion_tokens": completion.usage.completion_tokens,
+        "total_tokens": completion.usage.total_tokens,
+        "latency_ms": completion.latency_ms,
+    }
+    try:
+        async with httpx.AsyncClient(timeout=REQUEST_TIMEOUT_SECONDS) as client:
+            response = await client.post(f"{SUPABASE_URL}/rest/v1/ai_usage", json=row, headers=_headers())
+            response.raise_for_status()
+    except httpx.HTTPError as e:
+        logger.warning(f"⚠️ Failed to record AI usage: {e}")
+
+
+async def metered_complete(
+    provider: AIProvider,
+    messages: list,
+    *,
+    user_id: Optional[str],
+    feature: str,
+    course_id: Optional[str] = None,
+    **options,
+) -> Completion:
+    """provider.complete() with the quota check before and the usage row after"""
+    await check_quota(user_id)
+    completion = await provider.complete(messages, **options)
+    await record_usage(user_id, feature, completion, course_id)
+    return completion
+
+
+def streamed_completion(provider_id: str, model: str, messages: list, reply: str, latency_ms: int) -> Completion:
+    """Completion for a reply that was streamed token by token, with estimated usage"""
+    prompt = "\n".join(message["content"] for message in messages)
+    return Completion(reply, provider_id, model, build_usage(None, None, prompt, reply), latency_ms)
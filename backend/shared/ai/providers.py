@@ -0,0 +1,256 @@
+"""
+Provider-agnostic chat completions for the Python agents.
+
+Mirrors supabase/functions/_shared/ai: the same provider ids (groq, gemini,
+openai_compatible, mock), the same retry rules and the same token accounting,
+so a service can switch model through environment variables alone.
+"""
+
+import asyncio
+import hashlib
+import json
+import logging
+import os
+import re
+import time
+from dataclasses import dataclass
+from typing import Callable, List, Optional
+
+import httpx
+
+logger = logging.getLogger(__name__)
+
+GROQ_BASE_URL = "https://api.groq.com/openai/v1"
+GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta"
+
+DEFAULT_MODELS = {
+    "groq": "llama-3.1-70b-versatile",
+    "gemini": "gemini-1.5-flash",
+    "openai_compatible": "llama3.1",
+    "mock": "mock-1",
+}
+
+SERVER_API_KEYS = {
+    "groq": "GROQ_API_KEY",
+    "gemini": "GEMINI_API_KEY",
+    "openai_compatible": "AI_API_KEY",
+}
+
+REQUEST_TIMEOUT_SECONDS = 120
+CHARS_PER_TOKEN = 4
+
+
+class AIProviderError(Exception):
+    def __init__(self, message: str, status: Optional[int] = None, retryable: bool = False):
+        super().__init__(message)
+        self.status = status
+        self.retryable = retryable
+
+
+@dataclass
+class TokenUsage:
+    prompt_tokens: int
+    completion_tokens: int
+    total_tokens: int
+    # True when the provider did not report usage and it was estimated
+    estimated: bool = False
+
+
+@dataclass
+class Completion:
+    text: str
+    provider: str
+    model: str
+    usage: TokenUsage
+    latency_ms: int
+
+    def json(self) -> dict:
+        """Parse the reply as JSON, tolerating a markdown code fence around it"""
+        unfenced = re.sub(r"^```(?:json)?\s*|\s*```$", "", self.text.strip())
+        try:
+            return json.loads(unfenced)
+        except json.JSONDecodeError:
+            logger.error(f"Failed to parse AI response: {self.text[:500]}")
+            raise AIProviderError("Invalid AI response format")
+
+
+@dataclass
+class AIConfig:
+    provider: str = "groq"
+    model: Optional[str] = None
+    api_key: Optional[str] = None
+    base_url: Optional[str] = None
+    retries: int = 2
+
+
+def estimate_tokens(text: str) -> int:
+    return -(-len(text) // CHARS_PER_TOKEN)
+
+
+def build_usage(prompt_tokens: Optional[int], completion_tokens: Optional[int], prompt_text: str, completion_text: str) -> TokenUsage:
+    estimated = prompt_tokens is None or completion_tokens is None
+    prompt = prompt_tokens if prompt_tokens is not None else estimate_tokens(prompt_text)
+    completion = completion_tokens if completion_tokens is not None else estimate_tokens(completion_text)
+    return TokenUsage(prompt, completion, prompt + completion, estimated)
+
+
+def config_from_env(prefix: str = "") -> AIConfig:
+    """
+    Read <prefix>AI_PROVIDER, <prefix>AI_MODEL, <prefix>AI_BASE_URL and
+    <prefix>AI_API_KEY, falling back to the unprefixed variables and then to
+    the provider's usual key (GROQ_API_KEY, GEMINI_API_KEY).
+    """
+    def env(name: str) -> Optional[str]:
+        return os.getenv(f"{prefix}{name}") or os.getenv(name) or None
+
+    provider = env("AI_PROVIDER") or "groq"
+    if provider not in DEFAULT_MODELS:
+        logger.warning(f"⚠️ Unknown AI provider '{provider}', using groq")
+        provider = "groq"
+
+    key_name = SERVER_API_KEYS.get(provider)
+    return AIConfig(
+        provider=provider,
+        model=env("AI_MODEL"),
+        base_url=env("AI_BASE_URL"),
+        api_key=env("AI_API_KEY") or (os.getenv(key_name) if key_name else None),
+    )
+
+
+def _prompt_text(messages: List[dict]) -> str:
+    return "\n".join(message["content"] for message in messages)
+
+
+def _is_retryable_status(status: int) -> bool:
+    return status in (408, 429) or status >= 500
+
+
+class AIProvider:
+    """One configured model. complete() retries transient failures with backoff."""
+
+    def __init__(self, config: AIConfig, responder: Optional[Callable[[List[dict], bool], str]] = None):
+        if config.provider not in DEFAULT_MODELS:
+            raise AIProviderError(f"Unknown AI provider: {config.provider}")
+        if config.provider in ("groq", "gemini") and not config.api_key:
+            raise AIProviderError(f"{config.provider} API key not configured")
+
+        self.config = config
+        self.id = config.provider
+        self.model = config.model or DEFAULT_MODELS[config.provider]
+        self._responder = responder
+
+    async def complete(
+        self,
+        messages: List[dict],
+        temperature: float = 0.7,
+        max_tokens: int = 2000,
+        json_mode: bool = False,
+    ) -> Completion:
+        for attempt in range(self.config.retries + 1):
+            try:
+                return await self._complete_once(messages, temperature, max_tokens, json_mode)
+            except (AIProviderError, httpx.TransportError) as e:
+                retryable = e.retryable if isinstance(e, AIProviderError) else True
+                if attempt >= self.config.retries or not retryable:
+                    raise
+                delay = min(0.5 * 2 ** attempt, 8)
+                logger.warning(f"⚠️ {self.id} request failed (attempt {attempt + 1}), retrying in {delay}s: {e}")
+                await asyncio.sleep(delay)
+
+    async def _complete_once(self, messages, temperature, max_tokens, json_mode) -> Completion:
+        started = time.monotonic()
+
+        if self.id == "mock":
+            text = self._mock_reply(messages, json_mode)
+            usage = build_usage(None, None, _prompt_text(messages), text)
+        elif self.id == "gemini":
+            text, usage = await self._gemini(messages, temperature, max_tokens, json_mode)
+        else:
+            text, usage = await self._openai_compatible(messages, temperature, max_tokens, json_mode)
+
+        return Completion(text, self.id, self.model, usage, int((time.monotonic() - started) * 1000))
+
+    async def _post(self, url: str, body: dict, headers: dict) -> dict:
+        label = "Gemini" if self.id == "gemini" else "Groq" if self.id == "groq" else "OpenAI-compatible server"
+        async with httpx.AsyncClient(timeout=REQUEST_TIMEOUT_SECONDS) as client:
+            response = await client.post(url, json=body, headers=headers)
+
+        if response.status_code >= 400:
+            try:
+                detail = response.json().get("error", {})
+                message = detail.get("message") if isinstance(detail, dict) else str(detail)
+            except ValueError:
+                message = response.text[:200]
+            raise AIProviderError(
+                f"{label} API error: {message or response.status_code}",
+                status=response.status_code,
+                retryable=_is_retryable_status(response.status_code),
+            )
+        return response.json()
+
+    async def _openai_compatible(self, messages, temperature, max_tokens, json_mode):
+        base_url = GROQ_BASE_URL if self.id == "groq" else (self.config.base_url or "http://localhost:11434/v1")
+        body = {
+            "model": self.model,
+            "messages": messages,
+            "temperature": temperature,
+            "max_tokens": max_tokens,
+        }
+        if json_mode:
+            body["response_format"] = {"type": "json_object"}
+        headers = {"Authorization": f"Bearer {self.config.api_key}"} if self.config.api_key else {}
+
+        data = await self._post(f"{base_url.rstrip('/')}/chat/completions", body, headers)
+        try:
+            text = data["choices"][0]["message"]["content"]
+        except (KeyError, IndexError, TypeError):
+            raise AIProviderError(f"{self.id} returned no message")
+
+        usage = data.get("usage") or {}
+        return text, build_usage(usage.get("prompt_tokens"), usage.get("completion_tokens"), _prompt_text(messages), text)
+
+    async def _gemini(self, messages, temperature, max_tokens, json_mode):
+        system = "\n\n".join(m["content"] for m in messages if m["role"] == "system")
+        body = {
+            "contents": [
+                {"role": "model" if m["role"] == "assistant" else "user", "parts": [{"text": m["content"]}]}
+                for m in messages if m["role"] != "system"
+            ],
+            "generationConfig": {"temperature": temperature, "maxOutputTokens": max_tokens},
+        }
+        if system:
+            body["systemInstruction"] = {"parts": [{"text": system}]}
+        if json_mode:
+            body["generationConfig"]["responseMimeType"] = "application/json"
+
+        base_url = (self.config.base_url or GEMINI_BASE_URL).rstrip("/")
+        data = await self._post(f"{base_url}/models/{self.model}:generateContent", body, {"x-goog-api-key": self.config.api_key})
+
+        candidates = data.get("candidates") or [{}]
+        text = "".join(part.get("text", "") for part in (candidates[0].get("content") or {}).get("parts", []))
+        if not text:
+            raise AIProviderError(f"Gemini returned no text ({candidates[0].get('finishReason', 'empty response')})")
+
+        usage = data.get("usageMetadata") or {}
+        return text, build_usage(usage.get("promptTokenCount"), usage.get("candidatesTokenCount"), _prompt_text(messages), text)
+
+    def _mock_reply(self, messages: List[dict], json_mode: bool) -> str:
+        if self._responder:
+            return self._responder(messages, json_mode)
+
+        fingerprint = hashlib.sha1(
+            "\n".join(f"{m['role']}:{m['content']}" for m in messages).encode("utf-8")
+        ).hexdigest()[:8]
+        if json_mode:
+            return json.dumps({"mock": True, "fingerprint": fingerprint})
+        prompt = next((m["content"] for m in reversed(messages) if m["role"] == "user"), "")
+        return f"Mock response {fingerprint} to: {prompt[:80]}"
+
+
+def create_provider(config: Optional[AIConfig] = None, prefix: str = "") -> Optional[AIProvider]:
+    """Provider from the given config or the environment, or None if it is not configured"""
+    try:
+        return AIProvider(config or config_from_env(prefix))
+    except AIProviderError as e:
+        logger.warning(f"⚠️ AI provider not available: {e}")
+        return None
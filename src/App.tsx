@@ -19,6 +19,7 @@ import FutureIntegrations from "@/pages/FutureIntegrations";
 import Courses from "@/pages/Courses";
 import CourseGenerator from "@/pages/CourseGenerator";
 import CourseDetail from "@/pages/CourseDetail";
+import FlashcardReview from "@/pages/FlashcardReview";
 import Settings from "@/pages/Settings";
 import { InterviewProvider } from "@/context/InterviewContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
@@ -63,6 +64,13 @@ const App = () => (
                 </ProtectedRoute>
               </Layout>
             } />
+            <Route path="/review" element={
+              <Layout>
+                <ProtectedRoute>
+                  <FlashcardReview />
+                </ProtectedRoute>
+              </Layout>
+            } />
             <Route path="/settings" element={
               <Layout>
                 <ProtectedRoute>
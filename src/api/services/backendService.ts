@@ -1,4 +1,7 @@
 // Backend Service Integration for StudyMate AI Agents
+import { supabase } from '@/integrations/supabase/client';
+import { readEventStream } from '@/lib/sse';
+import { SolvedHistory, TutorChatMessage, TutorContext, TutorMode } from '@/lib/dsaTutor';
 
 export interface ServiceHealthStatus {
   service: string;
@@ -7,6 +10,25 @@ export interface ServiceHealthStatus {
   lastChecked: string;
 }
 
+export interface DSAChatStreamRequest {
+  message: string;
+  // Earlier turns of the conversation, oldest first
+  history: TutorChatMessage[];
+  context: TutorContext & { solved?: SolvedHistory };
+  mode: TutorMode;
+  // Hint being asked for in hint mode; the service caps it at one above the
+  // highest hint already given in the conversation
+  hint_level?: number;
+  conversation_id?: string;
+}
+
+// The agents identify the caller, for metering and quotas, from the Supabase
+// access token rather than from anything in the request body
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
 class BackendServiceManager {
   private services = {
     'api-gateway': { port: 8000, path: '/health' },
@@ -65,6 +87,7 @@ class BackendServiceManager {
         ...options,
         headers: {
           'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
           ...options.headers,
         },
       });
@@ -81,10 +104,9 @@ class BackendServiceManager {
   }
 
   // Specific service methods
-  async extractProfileData(file: File, userId: string) {
+  async extractProfileData(file: File) {
     const formData = new FormData();
     formData.append('resume', file);
-    formData.append('user_id', userId);
 
     return this.callService('profile-service', '/extract-profile', {
       method: 'POST',
@@ -113,6 +135,42 @@ class BackendServiceManager {
     });
   }
 
+  // Streams the tutor's reply token by token and resolves with the full text.
+  // Rejects when the service is unreachable or reports an error mid-stream.
+  async streamDSAChat(
+    request: DSAChatStreamRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const response = await this.callService('dsa-service', '/chat/stream', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { Accept: 'text/event-stream' },
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.detail || `DSA tutor returned ${response.status}`);
+    }
+
+    let reply = '';
+    await readEventStream(response, data => {
+      if (data === '[DONE]') return;
+
+      const event = JSON.parse(data) as { token?: string; error?: string };
+      if (event.error) {
+        throw new Error(`DSA tutor failed: ${event.error}`);
+      }
+      if (event.token) {
+        reply += event.token;
+        onToken(event.token);
+      }
+    });
+
+    return reply;
+  }
+
   async generateCourse(courseData: any) {
     return this.callService('course-service', '/generate', {
       method: 'POST',  
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
 import { CourseType, ChapterType, FlashcardType, McqType, QnaType } from '../../types';
 
 export interface CourseGenerationRequest {
@@ -15,6 +16,40 @@ export interface CourseGenerationResponse {
   estimated_completion_time?: number;
 }
 
+export type CourseGenerationJob = Tables<'course_generation_jobs'>;
+
+export type CourseGenerationStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export type CourseGenerationStepKey = 'layout' | 'chapters' | 'flashcards' | 'mcqs' | 'qnas' | 'notebook' | 'resources';
+
+export type CourseGenerationStepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface CourseGenerationStepState {
+  status: CourseGenerationStepStatus;
+  attempts: number;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// Steps run by course-generator-agent, in execution order. The keys index
+// course_generation_jobs.steps and the labels are written to current_step.
+// Steps that always produce the same content can't be regenerated alone.
+export const COURSE_GENERATION_STEPS: Array<{ key: CourseGenerationStepKey; label: string; regenerable: boolean }> = [
+  { key: 'layout', label: 'Planning course layout', regenerable: true },
+  { key: 'chapters', label: 'Generating course chapters', regenerable: true },
+  { key: 'flashcards', label: 'Generating flashcards', regenerable: true },
+  { key: 'mcqs', label: 'Generating multiple choice questions', regenerable: true },
+  { key: 'qnas', label: 'Generating Q&A pairs', regenerable: true },
+  { key: 'notebook', label: 'Generating study notebook', regenerable: true },
+  { key: 'resources', label: 'Finding learning resources', regenerable: false },
+];
+
+export const getJobStepStates = (job: CourseGenerationJob | null): Partial<Record<CourseGenerationStepKey, CourseGenerationStepState>> =>
+  job?.steps && typeof job.steps === 'object' && !Array.isArray(job.steps)
+    ? (job.steps as unknown as Partial<Record<CourseGenerationStepKey, CourseGenerationStepState>>)
+    : {};
+
 export interface CourseResource {
   id: string;
   course_id: string;
@@ -91,6 +126,7 @@ export const courseService = {
       .from('course_chapters')
       .select('*')
       .eq('course_id', courseId)
+      .is('archived_at', null)
       .order('order_number', { ascending: true });
 
     if (error) {
@@ -105,6 +141,7 @@ export const courseService = {
       .from('course_flashcards')
       .select('*')
       .eq('course_id', courseId)
+      .is('archived_at', null)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -119,6 +156,7 @@ export const courseService = {
       .from('course_mcqs')
       .select('*')
       .eq('course_id', courseId)
+      .is('archived_at', null)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -236,17 +274,13 @@ export const courseService = {
   async generateCourse(
     courseName: string, 
     purpose: CourseType['purpose'], 
-    difficulty: CourseType['difficulty'],
-    userId: string,
-    geminiApiKey?: string
-  ): Promise<string> {
+    difficulty: CourseType['difficulty']
+  ): Promise<{ courseId: string; jobId: string }> {
     const { data, error } = await supabase.functions.invoke('course-generator-agent', {
       body: {
         courseName,
         purpose,
-        difficulty,
-        userId,
-        geminiApiKey
+        difficulty
       }
     });
 
@@ -254,7 +288,89 @@ export const courseService = {
       throw new Error(`Failed to start course generation: ${error.message}`);
     }
 
-    return data.courseId;
+    return { courseId: data.courseId, jobId: data.jobId };
+  },
+
+  async getGenerationJob(jobId: string): Promise<CourseGenerationJob> {
+    const { data, error } = await supabase
+      .from('course_generation_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch generation job: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  // Most recent job that is still running, used to resume tracking after a reload
+  async getActiveGenerationJob(userId: string): Promise<CourseGenerationJob | null> {
+    const { data, error } = await supabase
+      .from('course_generation_jobs')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('job_type', 'course_creation')
+      .in('status', ['pending', 'processing'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch generation job: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  async cancelCourseGeneration(jobId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('course-generator-agent', {
+      body: { action: 'cancel', jobId }
+    });
+
+    if (error) {
+      throw new Error(`Failed to cancel course generation: ${error.message}`);
+    }
+  },
+
+  async retryCourseGeneration(jobId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('course-generator-agent', {
+      body: { action: 'retry', jobId }
+    });
+
+    if (error) {
+      throw new Error(`Failed to retry course generation: ${error.message}`);
+    }
+  },
+
+  // Latest job for a course; null for courses generated before jobs existed
+  async getCourseGenerationJob(courseId: string): Promise<CourseGenerationJob | null> {
+    const { data, error } = await supabase
+      .from('course_generation_jobs')
+      .select('*')
+      .eq('course_id', courseId)
+      .eq('job_type', 'course_creation')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch generation job: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  // Reruns one step, replacing the content it generated before
+  async regenerateCourseStep(courseId: string, step: CourseGenerationStepKey): Promise<void> {
+    const { error } = await supabase.functions.invoke('course-generator-agent', {
+      body: { action: 'regenerate', courseId, step }
+    });
+
+    if (error) {
+      throw new Error(`Failed to regenerate course step: ${error.message}`);
+    }
   },
 
   async getCourseContent(courseId: string): Promise<CourseType> {
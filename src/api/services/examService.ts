@@ -0,0 +1,189 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { ExamType, ExamQuestionType, ExamAttemptType, ExamAnswerType } from '../../types';
+
+export interface ExamGenerationRequest {
+  topic: string;
+  chapterId?: string;
+  chapterContent?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  questionCount?: number;
+  durationMinutes?: number;
+}
+
+// Everything but the answer key, which the client can't read until the exam
+// has been submitted (see getAnswerKey)
+const QUESTION_COLUMNS = 'id, exam_id, course_id, question_text, question_type, options, code_template, marks, difficulty, tags, created_at';
+
+const toAttempt = (row: Tables<'exam_attempts'>): ExamAttemptType => ({
+  ...row,
+  score: Number(row.score) || 0,
+  max_score: Number(row.max_score) || 0,
+  time_spent: row.time_spent || 0,
+  answers: (row.answers || {}) as unknown as Record<string, ExamAnswerType>,
+  is_completed: !!row.is_completed
+});
+
+export const examService = {
+  async getCourseExams(courseId: string): Promise<ExamType[]> {
+    const { data, error } = await supabase
+      .from('course_exams')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch exams: ${error.message}`);
+    }
+
+    return (data || []) as ExamType[];
+  },
+
+  async getExamQuestions(examId: string): Promise<ExamQuestionType[]> {
+    const { data, error } = await supabase
+      .from('exam_questions')
+      .select(QUESTION_COLUMNS)
+      .eq('exam_id', examId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch exam questions: ${error.message}`);
+    }
+
+    return (data || []).map(question => ({
+      ...question,
+      options: Array.isArray(question.options) ? question.options as string[] : [],
+      tags: question.tags || []
+    })) as ExamQuestionType[];
+  },
+
+  async generateExam(courseId: string, request: ExamGenerationRequest): Promise<ExamType> {
+    const { data, error } = await supabase.functions.invoke('generate-course-content', {
+      body: {
+        courseId,
+        contentType: 'exam',
+        topic: request.topic,
+        difficulty: request.difficulty || 'medium',
+        count: request.questionCount || 10,
+        chapterContent: request.chapterContent,
+        chapterId: request.chapterId,
+        durationMinutes: request.durationMinutes
+      }
+    });
+
+    if (error) {
+      throw new Error(`Failed to generate exam: ${error.message}`);
+    }
+
+    return data.data as ExamType;
+  },
+
+  async startAttempt(exam: ExamType, userId: string): Promise<ExamAttemptType> {
+    const { data, error } = await supabase
+      .from('exam_attempts')
+      .insert({
+        user_id: userId,
+        exam_id: exam.id,
+        course_id: exam.course_id,
+        answers: {},
+        is_completed: false
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to start exam attempt: ${error.message}`);
+    }
+
+    return toAttempt(data);
+  },
+
+  // Persist in-progress answers so a reload does not lose them. A submitted
+  // attempt is never touched, so a late save cannot overwrite graded answers.
+  async saveAnswers(attemptId: string, answers: Record<string, ExamAnswerType>): Promise<void> {
+    const { data, error } = await supabase
+      .from('exam_attempts')
+      .update({ answers })
+      .eq('id', attemptId)
+      .eq('is_completed', false)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to save answers: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error('Failed to save answers: the attempt has already been submitted');
+    }
+  },
+
+  // The exam's questions with their correct answers and explanations, for
+  // reviewing it once the user has submitted it at least once
+  async getReviewQuestions(examId: string): Promise<ExamQuestionType[]> {
+    const [questions, { data: key, error }] = await Promise.all([
+      this.getExamQuestions(examId),
+      supabase.rpc('get_exam_answer_key', { p_exam_id: examId })
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to fetch the answer key: ${error.message}`);
+    }
+
+    const answers = new Map((key || []).map(row => [row.question_id, row]));
+    return questions.map(question => ({
+      ...question,
+      correct_answer: answers.get(question.id)?.correct_answer,
+      explanation: answers.get(question.id)?.explanation
+    }));
+  },
+
+  // Grading happens in the database against the answer key; an attempt that
+  // was already submitted is refused rather than regraded
+  async submitAttempt(
+    attemptId: string,
+    answers: Record<string, ExamAnswerType>,
+    timeSpent: number
+  ): Promise<ExamAttemptType> {
+    const { data, error } = await supabase.rpc('submit_exam_attempt', {
+      p_attempt_id: attemptId,
+      p_answers: answers as unknown as Json,
+      p_time_spent: timeSpent
+    });
+
+    if (error) {
+      throw new Error(`Failed to submit exam: ${error.message}`);
+    }
+
+    return toAttempt(data);
+  },
+
+  async getAttempts(examId: string, userId: string): Promise<ExamAttemptType[]> {
+    const { data, error } = await supabase
+      .from('exam_attempts')
+      .select('*')
+      .eq('exam_id', examId)
+      .eq('user_id', userId)
+      .order('started_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch exam attempts: ${error.message}`);
+    }
+
+    return (data || []).map(toAttempt);
+  },
+
+  async getCourseAttempts(courseId: string, userId: string): Promise<ExamAttemptType[]> {
+    const { data, error } = await supabase
+      .from('exam_attempts')
+      .select('*')
+      .eq('course_id', courseId)
+      .eq('user_id', userId)
+      .order('started_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch exam attempts: ${error.message}`);
+    }
+
+    return (data || []).map(toAttempt);
+  }
+};
@@ -0,0 +1,153 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { FlashcardType } from '../../types';
+import {
+  CardSchedule,
+  ReviewGrade,
+  endOfToday,
+  forecastReviews,
+  newCardSchedule,
+  scheduleReview
+} from '@/lib/spacedRepetition';
+
+export type FlashcardReview = Tables<'flashcard_reviews'>;
+
+export interface ReviewCard extends FlashcardType {
+  course_title: string;
+  review: FlashcardReview | null;
+}
+
+export interface ReviewForecast {
+  dueToday: number;
+  newCards: number;
+  totalCards: number;
+  days: Array<{ date: Date; count: number }>;
+}
+
+// New cards introduced per session so a freshly generated course does not
+// flood the queue
+export const DEFAULT_NEW_CARD_LIMIT = 20;
+
+export const getCardSchedule = (card: ReviewCard): CardSchedule =>
+  card.review
+    ? {
+        ease_factor: Number(card.review.ease_factor),
+        interval_days: card.review.interval_days,
+        repetitions: card.review.repetitions,
+        lapses: card.review.lapses,
+        due_at: card.review.due_at
+      }
+    : newCardSchedule();
+
+const loadCards = async (userId: string, courseId?: string) => {
+  let coursesQuery = supabase
+    .from('courses')
+    .select('id, title')
+    .eq('user_id', userId);
+
+  if (courseId) {
+    coursesQuery = coursesQuery.eq('id', courseId);
+  }
+
+  const { data: courses, error: coursesError } = await coursesQuery;
+  if (coursesError) {
+    throw new Error(`Failed to fetch courses: ${coursesError.message}`);
+  }
+
+  const courseIds = (courses || []).map(course => course.id);
+  if (courseIds.length === 0) {
+    return { flashcards: [], reviews: [], courseTitles: new Map<string, string>() };
+  }
+
+  const [{ data: flashcards, error: flashcardsError }, { data: reviews, error: reviewsError }] = await Promise.all([
+    supabase
+      .from('course_flashcards')
+      .select('*')
+      .in('course_id', courseIds)
+      .is('archived_at', null)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('flashcard_reviews')
+      .select('*')
+      .eq('user_id', userId)
+      .in('course_id', courseIds)
+  ]);
+
+  if (flashcardsError) {
+    throw new Error(`Failed to fetch flashcards: ${flashcardsError.message}`);
+  }
+  if (reviewsError) {
+    throw new Error(`Failed to fetch flashcard reviews: ${reviewsError.message}`);
+  }
+
+  return {
+    flashcards: flashcards || [],
+    reviews: reviews || [],
+    courseTitles: new Map((courses || []).map(course => [course.id, course.title]))
+  };
+};
+
+export const flashcardReviewService = {
+  // Cards due by the end of today, followed by up to `newLimit` unseen cards
+  async getReviewQueue(
+    userId: string,
+    options: { courseId?: string; newLimit?: number } = {}
+  ): Promise<ReviewCard[]> {
+    const { flashcards, reviews, courseTitles } = await loadCards(userId, options.courseId);
+    const reviewsByCard = new Map(reviews.map(review => [review.flashcard_id, review]));
+    const cutoff = endOfToday().getTime();
+
+    const cards: ReviewCard[] = flashcards.map(flashcard => ({
+      ...flashcard,
+      course_title: courseTitles.get(flashcard.course_id) || '',
+      review: reviewsByCard.get(flashcard.id) || null
+    }));
+
+    const due = cards
+      .filter(card => card.review && new Date(card.review.due_at).getTime() <= cutoff)
+      .sort((a, b) => (a.review?.due_at || '').localeCompare(b.review?.due_at || ''));
+    const unseen = cards
+      .filter(card => !card.review)
+      .slice(0, options.newLimit ?? DEFAULT_NEW_CARD_LIMIT);
+
+    return [...due, ...unseen];
+  },
+
+  async recordReview(userId: string, card: ReviewCard, grade: ReviewGrade): Promise<FlashcardReview> {
+    const now = new Date();
+    const next = scheduleReview(getCardSchedule(card), grade, now);
+
+    const { data, error } = await supabase
+      .from('flashcard_reviews')
+      .upsert({
+        user_id: userId,
+        flashcard_id: card.id,
+        course_id: card.course_id,
+        ...next,
+        last_grade: grade,
+        last_reviewed_at: now.toISOString(),
+        total_reviews: (card.review?.total_reviews || 0) + 1
+      }, { onConflict: 'user_id,flashcard_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save review: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  async getForecast(userId: string, days = 7): Promise<ReviewForecast> {
+    const { flashcards, reviews } = await loadCards(userId);
+    const cutoff = endOfToday().getTime();
+    const newCards = Math.max(0, flashcards.length - reviews.length);
+
+    return {
+      dueToday: reviews.filter(review => new Date(review.due_at).getTime() <= cutoff).length,
+      newCards,
+      totalCards: flashcards.length,
+      days: forecastReviews(reviews.map(review => review.due_at), days)
+    };
+  }
+};
@@ -0,0 +1,182 @@
+import { supabase } from '@/integrations/supabase/client';
+import { InterviewPlanQuestion, InterviewSession } from './interviewService';
+import {
+  AnswerAssessment,
+  CandidateBackground,
+  DEFAULT_PLAN_LENGTH,
+  baseDifficulty,
+  buildOfflineFollowUp,
+  buildOfflinePlan,
+  splitTechStack
+} from '@/lib/interviewPlanner';
+
+export interface ResumeBackground {
+  resume: { filename: string; created_at: string } | null;
+  suggestedRole: string | null;
+  experienceLevel: string | null;
+  skills: string[];
+  skillGaps: string[];
+  projects: CandidateBackground['projects'];
+}
+
+export interface GeneratedPlan {
+  questions: InterviewPlanQuestion[];
+  generatedBy: 'ai' | 'offline';
+}
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(item => String(item).trim()).filter(Boolean) : [];
+
+const isValidQuestion = (item: unknown): item is InterviewPlanQuestion =>
+  !!item && typeof item === 'object' && typeof (item as InterviewPlanQuestion).question === 'string' &&
+  (item as InterviewPlanQuestion).question.trim().length > 0;
+
+export const interviewQuestionService = {
+  // Latest resume analysis plus profile projects and skills
+  async getResumeBackground(userId: string): Promise<ResumeBackground> {
+    const [resumeResult, projectsResult, skillsResult] = await Promise.all([
+      supabase
+        .from('user_resumes')
+        .select('filename, created_at, ai_analysis, skill_gaps')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase.from('user_projects').select('title, description, technologies').eq('user_id', userId),
+      supabase.from('user_skills').select('name, category').eq('user_id', userId)
+    ]);
+
+    if (resumeResult.error) {
+      throw new Error(`Failed to fetch resume: ${resumeResult.error.message}`);
+    }
+
+    const resume = resumeResult.data;
+    const analysis = (resume?.ai_analysis && typeof resume.ai_analysis === 'object' && !Array.isArray(resume.ai_analysis)
+      ? resume.ai_analysis
+      : {}) as Record<string, unknown>;
+
+    // Resume extraction stores projects as loosely shaped objects; profile projects win when both exist
+    const resumeProjects = Array.isArray(analysis.projects)
+      ? (analysis.projects as Array<Record<string, unknown>>)
+          .filter(project => project && (project.title || project.name))
+          .map(project => ({
+            title: String(project.title || project.name),
+            description: String(project.description || ''),
+            technologies: toStringArray(project.technologies)
+          }))
+      : [];
+    const profileProjects = (projectsResult.data || []).map(project => ({
+      title: project.title,
+      description: project.description || '',
+      technologies: project.technologies || []
+    }));
+
+    const profileSkills = (skillsResult.data || [])
+      .filter(skill => skill.category !== 'Soft' && skill.category !== 'Language')
+      .map(skill => skill.name);
+
+    return {
+      resume: resume ? { filename: resume.filename, created_at: resume.created_at } : null,
+      suggestedRole: toStringArray(analysis.suggested_roles)[0] || null,
+      experienceLevel: typeof analysis.experience_level === 'string' ? analysis.experience_level : null,
+      skills: Array.from(new Set([...toStringArray(analysis.technical_skills), ...profileSkills])),
+      skillGaps: Array.from(new Set([...(resume?.skill_gaps || []), ...toStringArray(analysis.skill_gaps)])),
+      projects: profileProjects.length > 0 ? profileProjects : resumeProjects
+    };
+  },
+
+  async getCandidateBackground(
+    userId: string,
+    setup: { role: string; techStack: string; experience: string }
+  ): Promise<CandidateBackground> {
+    const background = await this.getResumeBackground(userId).catch(error => {
+      console.warn('Interview plan will not use the resume:', error);
+      return null;
+    });
+
+    return {
+      role: setup.role,
+      techStack: splitTechStack(setup.techStack),
+      experience: setup.experience,
+      skills: background?.skills || [],
+      skillGaps: background?.skillGaps || [],
+      projects: background?.projects || []
+    };
+  },
+
+  // Asks the generator function for a tailored plan and falls back to the
+  // offline templates when it is unavailable or returns nothing usable
+  async generatePlan(
+    background: CandidateBackground,
+    roleBank: InterviewPlanQuestion[],
+    count = DEFAULT_PLAN_LENGTH
+  ): Promise<GeneratedPlan> {
+    try {
+      const { data, error } = await supabase.functions.invoke('interview-question-generator', {
+        body: {
+          action: 'plan',
+          count,
+          difficulty: baseDifficulty(background.experience),
+          ...background,
+          projects: background.projects.slice(0, 3)
+        }
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const questions = (data?.questions || []).filter(isValidQuestion).slice(0, count);
+      if (questions.length > 0) {
+        return { questions, generatedBy: 'ai' };
+      }
+    } catch (error) {
+      console.warn('Falling back to offline interview questions:', error);
+    }
+
+    return { questions: buildOfflinePlan(background, roleBank, count), generatedBy: 'offline' };
+  },
+
+  async generateFollowUp(
+    session: InterviewSession,
+    question: InterviewPlanQuestion,
+    questionIndex: number,
+    transcript: string,
+    assessment: AnswerAssessment
+  ): Promise<InterviewPlanQuestion> {
+    const fallback = buildOfflineFollowUp(question, questionIndex, assessment);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('interview-question-generator', {
+        body: {
+          action: 'follow_up',
+          role: session.job_role,
+          techStack: splitTechStack(session.tech_stack || ''),
+          question: question.question,
+          suggested_answer: question.suggested_answer,
+          transcript: transcript.slice(0, 4000),
+          strength: assessment.strength,
+          difficulty: fallback.difficulty
+        }
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      if (isValidQuestion(data?.question)) {
+        return {
+          ...data.question,
+          topic: question.topic,
+          difficulty: fallback.difficulty,
+          source: 'follow_up',
+          follow_up_of: questionIndex
+        };
+      }
+    } catch (error) {
+      console.warn('Falling back to a template follow-up:', error);
+    }
+
+    return fallback;
+  }
+};
@@ -1,72 +1,361 @@
-import { apiClient } from '../client';
-import { MockInterviewType, InterviewQuestionType, InterviewAnalysisType } from '../../types';
-
-export interface InterviewStartRequest {
-  job_role: string;
-  tech_stack: string;
-  experience: string;
-  interview_type?: 'technical' | 'behavioral' | 'mixed';
-  question_count?: number;
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { FacialAnalysisSample, MockInterviewType, ResponseFacialAnalysis } from '../../types';
+import { aggregateFacialSamples } from '@/lib/interviewAnalysis';
+import { transcribeRecording } from '@/lib/transcription';
+import { buildRubric, scoreAnswer } from '@/lib/answerScoring';
+import { CodingSession } from '@/lib/codingSession';
+import { DesignDiagram } from '@/lib/systemDesign';
+
+export type InterviewSession = Tables<'interview_sessions'>;
+export type InterviewResponse = Tables<'interview_responses'>;
+export type InterviewSessionType = 'technical' | 'aptitude' | 'hr' | 'mixed' | 'behavioral' | 'system_design';
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+export type QuestionSource = 'project' | 'skill' | 'skill_gap' | 'role' | 'behavioral' | 'follow_up';
+export type QuestionKind = 'verbal' | 'coding' | 'design';
+
+// Shape of each entry in interview_sessions.questions_data
+export interface InterviewPlanQuestion {
+  question: string;
+  suggested_answer?: string;
+  topic?: string;
+  difficulty?: QuestionDifficulty;
+  source?: QuestionSource;
+  // Index of the question a follow-up was asked about
+  follow_up_of?: number;
+  // Coding questions are solved in the editor against a problem spec; design
+  // questions are drawn on the whiteboard, with problem_key naming the prompt
+  kind?: QuestionKind;
+  problem_key?: string;
+  time_limit_seconds?: number;
+}
+
+export interface CreateInterviewSessionInput {
+  sessionType: InterviewSessionType;
+  jobRole: string;
+  techStack: string;
+  experienceLevel: string;
+  questions: InterviewPlanQuestion[];
 }
 
-export interface InterviewStartResponse {
-  interview_id: string;
-  questions: InterviewQuestionType[];
-  estimated_duration: number;
+export interface SaveResponseInput {
+  questionIndex: number;
+  questionText: string;
+  recording: Blob;
+  responseTimeSeconds: number;
+  facialSamples?: FacialAnalysisSample[];
+  // Row being replaced when an answer is re-recorded; its clip is removed
+  previous?: InterviewResponse | null;
+  codingSession?: CodingSession | null;
+  designDiagram?: DesignDiagram | null;
 }
 
+export const RECORDINGS_BUCKET = 'interview-recordings';
+
+export const getSessionQuestions = (session: InterviewSession): InterviewPlanQuestion[] =>
+  Array.isArray(session.questions_data)
+    ? (session.questions_data as unknown as InterviewPlanQuestion[])
+    : [];
+
+export const toMockInterview = (session: InterviewSession): MockInterviewType => ({
+  id: session.id,
+  user_id: session.user_id,
+  job_role: session.job_role || 'General Interview',
+  tech_stack: session.tech_stack || '',
+  experience: session.experience_level || '',
+  created_at: session.started_at,
+  completed: session.status === 'completed',
+  session_type: session.session_type,
+  status: session.status,
+  total_score: session.total_score,
+  question_count: getSessionQuestions(session).length,
+  current_question_index: session.current_question_index || 0
+});
+
+const recordingExtension = (blob: Blob) => (blob.type.includes('mp4') ? 'mp4' : 'webm');
+
 export const interviewService = {
-  async startInterview(request: InterviewStartRequest): Promise<InterviewStartResponse> {
-    const response = await apiClient.post('/interviews/start', request);
-    return response;
+  async createSession(userId: string, input: CreateInterviewSessionInput): Promise<InterviewSession> {
+    const { data, error } = await supabase
+      .from('interview_sessions')
+      .insert({
+        user_id: userId,
+        session_type: input.sessionType,
+        job_role: input.jobRole,
+        tech_stack: input.techStack,
+        experience_level: input.experienceLevel,
+        questions_data: input.questions as unknown as Json,
+        current_question_index: 0,
+        status: 'active'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create interview session: ${error.message}`);
+    }
+
+    return data;
   },
 
-  async getInterviews(): Promise<MockInterviewType[]> {
-    const response = await apiClient.get('/interviews');
-    return response.data || [];
+  async getSession(sessionId: string): Promise<InterviewSession> {
+    const { data, error } = await supabase
+      .from('interview_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch interview session: ${error.message}`);
+    }
+
+    return data;
   },
 
-  async getInterview(interviewId: string): Promise<MockInterviewType & { questions: InterviewQuestionType[] }> {
-    const response = await apiClient.get(`/interviews/${interviewId}`);
-    return response.data;
+  async getUserSessions(userId: string, limit = 20): Promise<InterviewSession[]> {
+    const { data, error } = await supabase
+      .from('interview_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch interview sessions: ${error.message}`);
+    }
+
+    return data || [];
   },
 
-  async analyzeInterview(interviewId: string, analysisData: any): Promise<InterviewAnalysisType> {
-    const response = await apiClient.post(`/interviews/${interviewId}/analyze`, analysisData);
-    return response.data;
+  async getSessionResponses(sessionId: string): Promise<InterviewResponse[]> {
+    const { data, error } = await supabase
+      .from('interview_responses')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('question_index', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch interview responses: ${error.message}`);
+    }
+
+    return data || [];
   },
 
-  // Legacy methods for compatibility
-  async createMockInterview(interviewData: Partial<MockInterviewType>): Promise<MockInterviewType> {
-    const request: InterviewStartRequest = {
-      job_role: interviewData.job_role || 'Software Developer',
-      tech_stack: interviewData.tech_stack || 'JavaScript',
-      experience: interviewData.experience || 'intermediate',
-      interview_type: 'mixed',
-      question_count: 5
-    };
-    
-    const response = await this.startInterview(request);
-    
-    // Return mock interview object for compatibility
-    return {
-      id: response.interview_id,
-      user_id: 'current_user',
-      job_role: request.job_role,
-      tech_stack: request.tech_stack,
-      experience: request.experience,
-      created_at: new Date().toISOString(),
-      completed: false
+  // Uploads the recorded answer and stores (or replaces) the response row for
+  // that question. Recordings live under `<userId>/<sessionId>/` so the storage
+  // policies on the bucket scope them to their owner.
+  async saveResponse(session: InterviewSession, input: SaveResponseInput): Promise<InterviewResponse> {
+    const { questionIndex, questionText, recording, responseTimeSeconds, facialSamples = [], previous, codingSession = null, designDiagram = null } = input;
+    const facialAnalysis: ResponseFacialAnalysis = {
+      samples: facialSamples,
+      aggregate: aggregateFacialSamples(facialSamples)
     };
+    const path = `${session.user_id}/${session.id}/${questionIndex}_${Date.now()}.${recordingExtension(recording)}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(RECORDINGS_BUCKET)
+      .upload(path, recording, { contentType: recording.type || 'video/webm' });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload recording: ${uploadError.message}`);
+    }
+
+    const { data, error } = await supabase
+      .from('interview_responses')
+      .upsert({
+        session_id: session.id,
+        user_id: session.user_id,
+        question_index: questionIndex,
+        question_text: questionText,
+        video_recording_path: path,
+        response_time_seconds: Math.round(responseTimeSeconds),
+        facial_analysis: facialAnalysis as unknown as Json,
+        coding_session: codingSession as unknown as Json,
+        design_diagram: designDiagram as unknown as Json,
+        // A re-recorded answer needs a fresh transcript
+        response_text: null,
+        transcript: null,
+        transcription_status: 'pending'
+      }, { onConflict: 'session_id,question_index' })
+      .select()
+      .single();
+
+    if (error) {
+      await supabase.storage.from(RECORDINGS_BUCKET).remove([path]);
+      throw new Error(`Failed to save interview response: ${error.message}`);
+    }
+
+    if (previous?.video_recording_path && previous.video_recording_path !== path) {
+      const { error: removeError } = await supabase.storage
+        .from(RECORDINGS_BUCKET)
+        .remove([previous.video_recording_path]);
+
+      if (removeError) {
+        console.warn('Failed to remove replaced recording:', removeError.message);
+      }
+    }
+
+    return data;
+  },
+
+  // Transcribes an answer and stores the timestamped transcript on its row. The
+  // recording is downloaded from storage when the caller no longer has the blob.
+  async transcribeResponse(response: InterviewResponse, recording?: Blob): Promise<InterviewResponse> {
+    if (!response.video_recording_path) {
+      throw new Error('Response has no recording to transcribe');
+    }
+
+    // Filtering on the clip path skips the write when the answer was re-recorded meanwhile
+    const setStatus = (status: 'processing' | 'failed') =>
+      supabase
+        .from('interview_responses')
+        .update({ transcription_status: status })
+        .eq('id', response.id)
+        .eq('video_recording_path', response.video_recording_path);
+
+    await setStatus('processing');
+
+    try {
+      let audio = recording;
+      if (!audio) {
+        const { data, error } = await supabase.storage
+          .from(RECORDINGS_BUCKET)
+          .download(response.video_recording_path);
+
+        if (error || !data) {
+          throw new Error(`Failed to download recording: ${error?.message || 'empty file'}`);
+        }
+        audio = data;
+      }
+
+      const transcript = await transcribeRecording(audio);
+
+      const { data, error } = await supabase
+        .from('interview_responses')
+        .update({
+          response_text: transcript.text,
+          transcript: transcript as unknown as Json,
+          transcription_status: 'completed'
+        })
+        .eq('id', response.id)
+        .eq('video_recording_path', response.video_recording_path)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to save transcript: ${error.message}`);
+      }
+
+      return data || response;
+    } catch (error) {
+      await setStatus('failed');
+      throw error;
+    }
+  },
+
+  // Grades a transcribed answer against the rubric built from its planned
+  // question and stores the result in ai_analysis
+  async scoreResponse(session: InterviewSession, response: InterviewResponse): Promise<InterviewResponse> {
+    const transcript = response.response_text?.trim();
+    if (!transcript) {
+      throw new Error('Response has no transcript to score');
+    }
+
+    const planned = getSessionQuestions(session)[response.question_index];
+    const rubric = buildRubric(response.question_text, planned?.suggested_answer, {
+      // Every answer in a behavioral interview is graded as a STAR story
+      behavioral: session.session_type === 'behavioral' ? true : undefined
+    });
+    const result = await scoreAnswer({ rubric, transcript, role: session.job_role });
+
+    const { data, error } = await supabase
+      .from('interview_responses')
+      .update({ ai_analysis: result as unknown as Json })
+      .eq('id', response.id)
+      .eq('video_recording_path', response.video_recording_path)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to save answer score: ${error.message}`);
+    }
+
+    return data || response;
+  },
+
+  // The session total is the mean score of its graded answers
+  async updateTotalScore(sessionId: string): Promise<number | null> {
+    const responses = await this.getSessionResponses(sessionId);
+    const scores = responses
+      .map(response => (response.ai_analysis as { score?: unknown } | null)?.score)
+      .filter((score): score is number => typeof score === 'number');
+    const total = scores.length > 0
+      ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+      : null;
+
+    const { error } = await supabase
+      .from('interview_sessions')
+      .update({ total_score: total })
+      .eq('id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to update interview score: ${error.message}`);
+    }
+
+    return total;
+  },
+
+  async updateQuestions(sessionId: string, questions: InterviewPlanQuestion[]): Promise<InterviewSession> {
+    const { data, error } = await supabase
+      .from('interview_sessions')
+      .update({ questions_data: questions as unknown as Json })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update interview questions: ${error.message}`);
+    }
+
+    return data;
   },
 
-  async getInterviewQuestions(interviewId: string): Promise<InterviewQuestionType[]> {
-    const interview = await this.getInterview(interviewId);
-    return interview.questions || [];
+  async updateProgress(sessionId: string, currentQuestionIndex: number): Promise<void> {
+    const { error } = await supabase
+      .from('interview_sessions')
+      .update({ current_question_index: currentQuestionIndex, status: 'active' })
+      .eq('id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to update interview progress: ${error.message}`);
+    }
   },
 
-  async submitInterviewResponses(interviewId: string, responses: any[]): Promise<void> {
-    // This would update the interview with user responses
-    console.log('Submit interview responses:', interviewId, responses);
+  async completeSession(sessionId: string): Promise<InterviewSession> {
+    const { data, error } = await supabase
+      .from('interview_sessions')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to complete interview session: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  async getRecordingUrl(path: string, expiresInSeconds = 3600): Promise<string | null> {
+    const { data, error } = await supabase.storage
+      .from(RECORDINGS_BUCKET)
+      .createSignedUrl(path, expiresInSeconds);
+
+    if (error) {
+      console.error('Failed to create recording URL:', error.message);
+      return null;
+    }
+
+    return data?.signedUrl || null;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,117 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { ProfileFormData } from '@/types/profile';
+import { profileService } from '@/api/services/profileService';
+import { revertMerge, type MergeChange, type MergeResult } from '@/lib/profileMerge';
+
+export interface MergeLogChange {
+  section: MergeChange['section'];
+  label: string;
+  action: 'added' | 'updated';
+  value: string;
+}
+
+export type ProfileMergeRecord = Omit<Tables<'profile_merges'>, 'changes' | 'previous' | 'applied'> & {
+  changes: MergeLogChange[];
+  previous: Partial<ProfileFormData>;
+  applied: Partial<ProfileFormData>;
+};
+
+export interface ApplyMergeInput extends MergeResult {
+  changes: MergeChange[];
+  source?: string;
+  confidenceScore?: number;
+}
+
+const toRecord = (row: Tables<'profile_merges'>): ProfileMergeRecord => ({
+  ...row,
+  changes: row.changes as unknown as MergeLogChange[],
+  previous: row.previous as unknown as Partial<ProfileFormData>,
+  applied: row.applied as unknown as Partial<ProfileFormData>
+});
+
+const toLogChange = (change: MergeChange): MergeLogChange => ({
+  section: change.section,
+  label: change.entry ? `${change.entry}: ${change.label}` : change.label,
+  action: change.kind === 'entry' ? 'added' : 'updated',
+  value: change.extracted
+});
+
+export const profileMergeService = {
+  // The undo entry is written before the profile changes so a merge never
+  // lands without a way back; it is removed again if the update fails
+  async applyMerge(userId: string, input: ApplyMergeInput): Promise<ProfileMergeRecord> {
+    const { data, error } = await supabase
+      .from('profile_merges')
+      .insert({
+        user_id: userId,
+        source: input.source || null,
+        confidence_score: input.confidenceScore ?? null,
+        changes: input.changes.map(toLogChange) as unknown as Json,
+        previous: input.previous as unknown as Json,
+        applied: input.updates as unknown as Json
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record profile merge: ${error.message}`);
+    }
+
+    try {
+      await profileService.updateProfile(userId, input.updates);
+    } catch (updateError) {
+      await supabase.from('profile_merges').delete().eq('id', data.id);
+      throw updateError;
+    }
+
+    return toRecord(data);
+  },
+
+  async getMergeLog(userId: string): Promise<ProfileMergeRecord[]> {
+    const { data, error } = await supabase
+      .from('profile_merges')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      throw new Error(`Failed to fetch profile merges: ${error.message}`);
+    }
+
+    return (data || []).map(toRecord);
+  },
+
+  // Reverts what the merge changed, leaving anything edited since alone.
+  // Returns the labels of the changes that were kept for that reason.
+  async undoMerge(userId: string, merge: ProfileMergeRecord): Promise<string[]> {
+    // Marked first and only while not yet undone, so a second undo (another
+    // tab, a double click) stops here instead of reverting again
+    const { data, error } = await supabase
+      .from('profile_merges')
+      .update({ undone_at: new Date().toISOString() })
+      .eq('id', merge.id)
+      .is('undone_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to mark profile merge as undone: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new Error('This merge has already been undone');
+    }
+
+    try {
+      const profile = await profileService.getProfile(userId);
+      const { updates, kept } = revertMerge(profile, merge.previous, merge.applied);
+      if (Object.keys(updates).length > 0) {
+        await profileService.updateProfile(userId, updates);
+      }
+      return kept;
+    } catch (revertError) {
+      await supabase.from('profile_merges').update({ undone_at: null }).eq('id', merge.id);
+      throw revertError;
+    }
+  }
+};
@@ -1,5 +1,7 @@
 import { UserProfile, ProfileFormData } from '@/types/profile';
 import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { getAuthHeaders } from './backendService';
 
 export interface ResumeUploadResponse {
   success: boolean;
@@ -16,6 +18,55 @@ export interface ResumeUploadResponse {
   };
 }
 
+type EntryTable = 'user_experience' | 'user_projects';
+
+// Writes a section's entries over the saved ones. Entries that already exist
+// are updated in place, so their ids (and the interview stories linked to
+// them) survive the save; new entries are inserted and only the entries the
+// user removed are deleted.
+async function saveEntries(
+  table: EntryTable,
+  userId: string,
+  entries: Array<{ id: string; row: TablesInsert<EntryTable> }>,
+  what: string
+) {
+  const { data: existing, error: existingError } = await supabase
+    .from(table)
+    .select('id')
+    .eq('user_id', userId);
+
+  if (existingError) {
+    throw new Error(`Failed to load ${what}: ${existingError.message}`);
+  }
+
+  const savedIds = new Set((existing || []).map(entry => entry.id));
+  const updates = entries.filter(entry => savedIds.has(entry.id)).map(entry => ({ ...entry.row, id: entry.id }));
+  const inserts = entries.filter(entry => !savedIds.has(entry.id)).map(entry => entry.row);
+
+  if (updates.length > 0) {
+    const { error } = await supabase.from(table).upsert(updates);
+    if (error) {
+      throw new Error(`Failed to update ${what}: ${error.message}`);
+    }
+  }
+
+  if (inserts.length > 0) {
+    const { error } = await supabase.from(table).insert(inserts);
+    if (error) {
+      throw new Error(`Failed to add ${what}: ${error.message}`);
+    }
+  }
+
+  const kept = new Set(updates.map(entry => entry.id));
+  const removed = [...savedIds].filter(id => !kept.has(id));
+  if (removed.length > 0) {
+    const { error } = await supabase.from(table).delete().in('id', removed);
+    if (error) {
+      throw new Error(`Failed to remove ${what}: ${error.message}`);
+    }
+  }
+}
+
 export const profileService = {
   async getProfile(userId: string): Promise<UserProfile> {
     try {
@@ -171,54 +222,40 @@ export const profileService = {
         }
       }
 
-      // Update experience
+      // Update experience; stories link to these rows, so keep their ids
       if (updates.experience) {
-        await supabase.from('user_experience').delete().eq('user_id', userId);
-        
-        if (updates.experience.length > 0) {
-          const { error: expError } = await supabase
-            .from('user_experience')
-            .insert(updates.experience.map(exp => ({
-              user_id: userId,
-              company: exp.company,
-              position: exp.position,
-              start_date: exp.startDate,
-              end_date: exp.endDate,
-              is_current: exp.current,
-              description: exp.description,
-              technologies: exp.technologies,
-              location: exp.location,
-            })));
-
-          if (expError) {
-            console.error('Experience update error:', expError);
-          }
-        }
+        await saveEntries('user_experience', userId, updates.experience.map(exp => ({
+          id: exp.id,
+          row: {
+            user_id: userId,
+            company: exp.company,
+            position: exp.position,
+            start_date: exp.startDate,
+            end_date: exp.endDate,
+            is_current: exp.current,
+            description: exp.description,
+            technologies: exp.technologies,
+            location: exp.location,
+          },
+        })), 'experience');
       }
 
-      // Update projects
+      // Update projects; stories link to these rows as well
       if (updates.projects) {
-        await supabase.from('user_projects').delete().eq('user_id', userId);
-        
-        if (updates.projects.length > 0) {
-          const { error: projError } = await supabase
-            .from('user_projects')
-            .insert(updates.projects.map(proj => ({
-              user_id: userId,
-              title: proj.title,
-              description: proj.description,
-              technologies: proj.technologies,
-              start_date: proj.startDate,
-              end_date: proj.endDate,
-              github_url: proj.githubUrl,
-              live_url: proj.liveUrl,
-              highlights: proj.highlights,
-            })));
-
-          if (projError) {
-            console.error('Projects update error:', projError);
-          }
-        }
+        await saveEntries('user_projects', userId, updates.projects.map(proj => ({
+          id: proj.id,
+          row: {
+            user_id: userId,
+            title: proj.title,
+            description: proj.description,
+            technologies: proj.technologies,
+            start_date: proj.startDate,
+            end_date: proj.endDate,
+            github_url: proj.githubUrl,
+            live_url: proj.liveUrl,
+            highlights: proj.highlights,
+          },
+        })), 'projects');
       }
 
       // Update skills
@@ -294,11 +331,11 @@ export const profileService = {
       // Call AI extraction service (Profile Service Backend)
       const formData = new FormData();
       formData.append('resume', file);
-      formData.append('user_id', userId);
 
       console.log('🤖 Calling AI extraction service...');
       const extractionResponse = await fetch('http://localhost:8006/extract-profile', {
         method: 'POST',
+        headers: await getAuthHeaders(),
         body: formData,
       });
 
@@ -379,18 +416,6 @@ export const profileService = {
     }
   },
 
-  async applyExtractedData(userId: string, extractedData: any): Promise<boolean> {
-    try {
-      if (extractedData.personalInfo) {
-        await this.updateProfile(userId, { personalInfo: extractedData.personalInfo });
-      }
-      return true;
-    } catch (error) {
-      console.error('Failed to apply extracted data:', error);
-      return false;
-    }
-  },
-
   async getUserResume(userId: string): Promise<any> {
     try {
       const { data, error } = await supabase
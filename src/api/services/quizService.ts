@@ -0,0 +1,218 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { courseService } from './courseService';
+import { ChapterType, McqType, QuizAnswerType, QuizMode, QuizSessionType } from '../../types';
+
+export interface QuizScoreBreakdown {
+  key: string;
+  label: string;
+  attempted: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface QuizStats {
+  attempted: number;
+  correct: number;
+  accuracy: number;
+  byChapter: QuizScoreBreakdown[];
+  byDifficulty: QuizScoreBreakdown[];
+  weakestChapters: QuizScoreBreakdown[];
+  wrongMcqIds: string[];
+}
+
+const UNASSIGNED_CHAPTER = 'general';
+
+const toSession = (row: Tables<'quiz_sessions'>): QuizSessionType => ({
+  ...row,
+  mode: row.mode as QuizMode,
+  mcq_ids: row.mcq_ids || []
+});
+
+const accuracyOf = (correct: number, attempted: number) =>
+  attempted > 0 ? Math.round((correct / attempted) * 100) : 0;
+
+const groupAnswers = (
+  answers: QuizAnswerType[],
+  keyOf: (answer: QuizAnswerType) => string,
+  labelOf: (key: string) => string
+): QuizScoreBreakdown[] => {
+  const groups = new Map<string, { attempted: number; correct: number }>();
+
+  answers.forEach(answer => {
+    const key = keyOf(answer);
+    const group = groups.get(key) || { attempted: 0, correct: 0 };
+    group.attempted += 1;
+    group.correct += answer.is_correct ? 1 : 0;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    label: labelOf(key),
+    ...group,
+    accuracy: accuracyOf(group.correct, group.attempted)
+  }));
+};
+
+export const quizService = {
+  async startSession(
+    userId: string,
+    courseId: string,
+    mcqIds: string[],
+    mode: QuizMode,
+    chapterId?: string
+  ): Promise<QuizSessionType> {
+    const { data, error } = await supabase
+      .from('quiz_sessions')
+      .insert({
+        user_id: userId,
+        course_id: courseId,
+        chapter_id: chapterId || null,
+        mode,
+        mcq_ids: mcqIds,
+        total_questions: mcqIds.length
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to start quiz: ${error.message}`);
+    }
+
+    return toSession(data);
+  },
+
+  async recordAnswer(
+    session: QuizSessionType,
+    mcq: McqType,
+    selectedAnswer: string,
+    timeTakenMs: number
+  ): Promise<QuizAnswerType> {
+    const isCorrect = selectedAnswer === mcq.correct_answer;
+
+    const { data, error } = await supabase
+      .from('quiz_answers')
+      .upsert({
+        session_id: session.id,
+        user_id: session.user_id,
+        course_id: session.course_id,
+        mcq_id: mcq.id,
+        chapter_id: mcq.chapter_id || null,
+        difficulty: mcq.difficulty || null,
+        selected_answer: selectedAnswer,
+        is_correct: isCorrect,
+        time_taken_ms: Math.round(timeTakenMs),
+        answered_at: new Date().toISOString()
+      }, { onConflict: 'session_id,mcq_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save answer: ${error.message}`);
+    }
+
+    // Keep the course-wide progress log in step with the quiz
+    courseService.trackProgress({
+      user_id: session.user_id,
+      course_id: session.course_id,
+      chapter_id: mcq.chapter_id || undefined,
+      mcq_id: mcq.id,
+      progress_type: 'mcq_answered',
+      score: isCorrect ? 100 : 0,
+      time_spent: Math.round(timeTakenMs / 1000)
+    }).catch(err => console.error('Failed to track quiz progress:', err));
+
+    return data;
+  },
+
+  async completeSession(session: QuizSessionType, answers: QuizAnswerType[]): Promise<QuizSessionType> {
+    const sessionAnswers = answers.filter(answer => answer.session_id === session.id);
+    const timeSpentMs = sessionAnswers.reduce((total, answer) => total + (answer.time_taken_ms || 0), 0);
+
+    const { data, error } = await supabase
+      .from('quiz_sessions')
+      .update({
+        score: sessionAnswers.filter(answer => answer.is_correct).length,
+        total_questions: session.mcq_ids.length,
+        time_spent: Math.round(timeSpentMs / 1000),
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', session.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to complete quiz: ${error.message}`);
+    }
+
+    return toSession(data);
+  },
+
+  async getCourseSessions(courseId: string, userId: string): Promise<QuizSessionType[]> {
+    const { data, error } = await supabase
+      .from('quiz_sessions')
+      .select('*')
+      .eq('course_id', courseId)
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch quiz sessions: ${error.message}`);
+    }
+
+    return (data || []).map(toSession);
+  },
+
+  async getCourseAnswers(courseId: string, userId: string): Promise<QuizAnswerType[]> {
+    const { data, error } = await supabase
+      .from('quiz_answers')
+      .select('*')
+      .eq('course_id', courseId)
+      .eq('user_id', userId)
+      .order('answered_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch quiz answers: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  computeStats(mcqs: McqType[], answers: QuizAnswerType[], chapters: ChapterType[]): QuizStats {
+    const mcqIds = new Set(mcqs.map(mcq => mcq.id));
+    const relevant = answers.filter(answer => mcqIds.has(answer.mcq_id));
+    const chapterTitles = new Map(chapters.map(chapter => [chapter.id, `Chapter ${chapter.order_number}: ${chapter.title}`]));
+
+    // The latest answer to each question decides whether it is still "wrong"
+    const latest = new Map<string, QuizAnswerType>();
+    relevant.forEach(answer => latest.set(answer.mcq_id, answer));
+
+    const byChapter = groupAnswers(
+      relevant,
+      answer => answer.chapter_id || UNASSIGNED_CHAPTER,
+      key => chapterTitles.get(key) || 'General'
+    );
+    const byDifficulty = groupAnswers(
+      relevant,
+      answer => answer.difficulty || 'unrated',
+      key => key.charAt(0).toUpperCase() + key.slice(1)
+    );
+    const correct = relevant.filter(answer => answer.is_correct).length;
+
+    return {
+      attempted: relevant.length,
+      correct,
+      accuracy: accuracyOf(correct, relevant.length),
+      byChapter,
+      byDifficulty,
+      weakestChapters: byChapter
+        .filter(group => group.accuracy < 100)
+        .sort((a, b) => a.accuracy - b.accuracy || b.attempted - a.attempted)
+        .slice(0, 3),
+      wrongMcqIds: Array.from(latest.values())
+        .filter(answer => !answer.is_correct)
+        .map(answer => answer.mcq_id)
+    };
+  }
+};
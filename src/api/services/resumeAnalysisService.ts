@@ -0,0 +1,109 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import type { ResumeAnalysis } from '@/api/services/resumeService';
+
+export type ResumeAnalysisRecord = Omit<Tables<'resume_analyses'>, 'analysis'> & { analysis: ResumeAnalysis };
+
+// History rows without the resume text, which is only needed for diffs
+export type ResumeAnalysisSummary = Omit<ResumeAnalysisRecord, 'extracted_text' | 'analysis' | 'job_description'>;
+
+export interface SaveAnalysisInput {
+  file: File;
+  jobRole: string;
+  jobDescription?: string;
+  extractedText: string | null;
+  analysis: ResumeAnalysis;
+  source: 'ai' | 'offline';
+}
+
+const SUMMARY_COLUMNS =
+  'id, user_id, filename, file_size, storage_path, job_role, overall_score, ats_score, job_match_score, skill_gaps, recommendations, source, created_at';
+
+const toRecord = (row: Tables<'resume_analyses'>): ResumeAnalysisRecord => ({
+  ...row,
+  analysis: row.analysis as unknown as ResumeAnalysis
+});
+
+export const resumeAnalysisService = {
+  // Keeps the file next to the analysis; the analysis is still saved if the
+  // upload fails, since the text is what history and diffs need
+  async saveAnalysis(userId: string, input: SaveAnalysisInput): Promise<ResumeAnalysisRecord> {
+    const path = `${userId}/analyses/${Date.now()}_${input.file.name}`;
+    const { error: uploadError } = await supabase.storage
+      .from('resume-files')
+      .upload(path, input.file);
+
+    if (uploadError) {
+      console.warn('Failed to store analyzed resume file:', uploadError.message);
+    }
+
+    const { data, error } = await supabase
+      .from('resume_analyses')
+      .insert({
+        user_id: userId,
+        filename: input.file.name,
+        file_size: input.file.size,
+        storage_path: uploadError ? null : path,
+        job_role: input.jobRole.trim(),
+        job_description: input.jobDescription || null,
+        extracted_text: input.extractedText,
+        analysis: input.analysis as unknown as Json,
+        overall_score: Math.round(input.analysis.overall_score) || 0,
+        ats_score: Math.round(input.analysis.ats_score) || 0,
+        job_match_score: Math.round(input.analysis.job_match_score) || 0,
+        skill_gaps: input.analysis.skill_gaps || [],
+        recommendations: input.analysis.recommendations || [],
+        source: input.source
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save resume analysis: ${error.message}`);
+    }
+
+    return toRecord(data);
+  },
+
+  async getAnalyses(userId: string): Promise<ResumeAnalysisSummary[]> {
+    const { data, error } = await supabase
+      .from('resume_analyses')
+      .select(SUMMARY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch resume analyses: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  async getAnalysesByIds(ids: string[]): Promise<ResumeAnalysisRecord[]> {
+    const { data, error } = await supabase
+      .from('resume_analyses')
+      .select('*')
+      .in('id', ids);
+
+    if (error) {
+      throw new Error(`Failed to fetch resume analyses: ${error.message}`);
+    }
+
+    return (data || []).map(toRecord);
+  },
+
+  async deleteAnalysis(analysis: ResumeAnalysisSummary): Promise<void> {
+    const { error } = await supabase
+      .from('resume_analyses')
+      .delete()
+      .eq('id', analysis.id);
+
+    if (error) {
+      throw new Error(`Failed to delete resume analysis: ${error.message}`);
+    }
+
+    if (analysis.storage_path) {
+      await supabase.storage.from('resume-files').remove([analysis.storage_path]);
+    }
+  }
+};
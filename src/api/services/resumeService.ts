@@ -1,7 +1,26 @@
+import { getAuthHeaders } from './backendService';
+
 export interface ResumeAnalysisRequest {
   jobRole: string;
   jobDescription?: string;
-  userId?: string;
+}
+
+export interface ResumeAnalysis {
+  overall_score: number;
+  job_match_score: number;
+  ats_score: number;
+  strengths: string[];
+  weaknesses: string[];
+  skill_gaps: string[];
+  recommendations: string[];
+  keywords_found: string[];
+  missing_keywords: string[];
+  sections_analysis: any;
+  improvement_priority: string[];
+  role_specific_advice: string[];
+  deep_analysis?: Record<string, unknown>;
+  // Provider that produced the analysis; 'offline' for the in-browser scorer
+  ai_provider?: string;
 }
 
 export interface ResumeAnalysisResponse {
@@ -12,20 +31,9 @@ export interface ResumeAnalysisResponse {
   job_description: string;
   extracted_text: string;
   extracted_data: any;
-  analysis: {
-    overall_score: number;
-    job_match_score: number;
-    ats_score: number;
-    strengths: string[];
-    weaknesses: string[];
-    skill_gaps: string[];
-    recommendations: string[];
-    keywords_found: string[];
-    missing_keywords: string[];
-    sections_analysis: any;
-    improvement_priority: string[];
-    role_specific_advice: string[];
-  };
+  // Present when the analyzer also extracted profile data, 0-100
+  confidence_score?: number;
+  analysis: ResumeAnalysis;
   processing_status: string;
 }
 
@@ -46,12 +54,10 @@ export const resumeService = {
     if (data.jobDescription) {
       formData.append('job_description', data.jobDescription);
     }
-    if (data.userId) {
-      formData.append('user_id', data.userId);
-    }
 
     const response = await fetch('http://localhost:8000/resume/analyze', {
       method: 'POST',
+      headers: await getAuthHeaders(),
       body: formData,
     });
 
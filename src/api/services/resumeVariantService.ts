@@ -0,0 +1,252 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import {
+  BulletSuggestion,
+  DEFAULT_RESUME_LAYOUT,
+  ResumeLayout,
+  ResumeSource,
+  VariantBullets,
+  initialVariantBullets,
+} from '@/lib/resume';
+
+export type ResumeVariantRow = Tables<'resume_variants'>;
+export type VariantApplication = Tables<'resume_variant_applications'>;
+
+export type ApplicationStatus = 'sent' | 'interviewing' | 'offer' | 'rejected' | 'withdrawn';
+
+export const APPLICATION_STATUSES: Array<{ value: ApplicationStatus; label: string }> = [
+  { value: 'sent', label: 'Sent' },
+  { value: 'interviewing', label: 'Interviewing' },
+  { value: 'offer', label: 'Offer' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'withdrawn', label: 'Withdrawn' },
+];
+
+// A variant row with its JSON columns parsed
+export interface ResumeVariant extends Omit<ResumeVariantRow, 'content' | 'layout' | 'bullets'> {
+  content: ResumeSource;
+  layout: ResumeLayout;
+  bullets: VariantBullets;
+}
+
+export interface VariantInput {
+  name: string;
+  job_role?: string | null;
+  company?: string | null;
+  job_description?: string | null;
+  target_keywords?: string[];
+  skill_gaps?: string[];
+  advice?: string[];
+}
+
+export interface ApplicationInput {
+  company: string;
+  position?: string | null;
+  status?: ApplicationStatus;
+  notes?: string | null;
+  sent_at?: string;
+}
+
+const asObject = <T>(value: Json, fallback: T): T =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as unknown as T) : fallback;
+
+const toVariant = (row: ResumeVariantRow): ResumeVariant => ({
+  ...row,
+  content: asObject<ResumeSource>(row.content, {
+    personalInfo: { fullName: '', email: '', phone: '', location: '' },
+    education: [],
+    experience: [],
+    projects: [],
+    skills: [],
+    certifications: []
+  }),
+  layout: { ...DEFAULT_RESUME_LAYOUT, ...asObject<Partial<ResumeLayout>>(row.layout, {}) },
+  bullets: asObject<VariantBullets>(row.bullets, {})
+});
+
+// The parts of the profile a variant keeps its own copy of
+const snapshot = (profile: ResumeSource): ResumeSource => ({
+  personalInfo: profile.personalInfo,
+  summary: profile.summary,
+  education: profile.education,
+  experience: profile.experience,
+  projects: profile.projects,
+  skills: profile.skills,
+  certifications: profile.certifications
+});
+
+export const resumeVariantService = {
+  async getVariants(userId: string): Promise<ResumeVariant[]> {
+    const { data, error } = await supabase
+      .from('resume_variants')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch resume variants: ${error.message}`);
+    }
+
+    return (data || []).map(toVariant);
+  },
+
+  async createVariant(userId: string, profile: ResumeSource, input: VariantInput): Promise<ResumeVariant> {
+    const content = snapshot(profile);
+    const { data, error } = await supabase
+      .from('resume_variants')
+      .insert({
+        user_id: userId,
+        ...input,
+        content: content as unknown as Json,
+        layout: DEFAULT_RESUME_LAYOUT as unknown as Json,
+        bullets: initialVariantBullets(content) as unknown as Json
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create resume variant: ${error.message}`);
+    }
+
+    return toVariant(data);
+  },
+
+  async duplicateVariant(variant: ResumeVariant, name: string): Promise<ResumeVariant> {
+    const { data, error } = await supabase
+      .from('resume_variants')
+      .insert({
+        user_id: variant.user_id,
+        name,
+        job_role: variant.job_role,
+        company: variant.company,
+        job_description: variant.job_description,
+        target_keywords: variant.target_keywords,
+        skill_gaps: variant.skill_gaps,
+        advice: variant.advice,
+        content: variant.content as unknown as Json,
+        layout: variant.layout as unknown as Json,
+        bullets: variant.bullets as unknown as Json
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to duplicate resume variant: ${error.message}`);
+    }
+
+    return toVariant(data);
+  },
+
+  async updateVariant(
+    variantId: string,
+    changes: Partial<VariantInput> & { layout?: ResumeLayout; bullets?: VariantBullets; content?: ResumeSource }
+  ): Promise<ResumeVariant> {
+    const { layout, bullets, content, ...fields } = changes;
+    const { data, error } = await supabase
+      .from('resume_variants')
+      .update({
+        ...fields,
+        ...(layout && { layout: layout as unknown as Json }),
+        ...(bullets && { bullets: bullets as unknown as Json }),
+        ...(content && { content: content as unknown as Json })
+      })
+      .eq('id', variantId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update resume variant: ${error.message}`);
+    }
+
+    return toVariant(data);
+  },
+
+  async deleteVariant(variantId: string): Promise<void> {
+    const { error } = await supabase
+      .from('resume_variants')
+      .delete()
+      .eq('id', variantId);
+
+    if (error) {
+      throw new Error(`Failed to delete resume variant: ${error.message}`);
+    }
+  },
+
+  // Rewrites that work the variant's missing keywords into an entry's bullets
+  async suggestBullets(
+    variant: ResumeVariant,
+    bullets: string[],
+    keywords: string[],
+    supported: string[]
+  ): Promise<BulletSuggestion[]> {
+    const { data, error } = await supabase.functions.invoke('resume-bullet-rewriter', {
+      body: {
+        bullets,
+        keywords,
+        supported,
+        job_role: variant.job_role,
+        job_description: variant.job_description
+      }
+    });
+
+    if (error) {
+      throw new Error(`Failed to suggest bullets: ${error.message}`);
+    }
+
+    return data?.suggestions || [];
+  },
+
+  async getApplications(variantId: string): Promise<VariantApplication[]> {
+    const { data, error } = await supabase
+      .from('resume_variant_applications')
+      .select('*')
+      .eq('variant_id', variantId)
+      .order('sent_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch applications: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  async addApplication(variant: ResumeVariant, input: ApplicationInput): Promise<VariantApplication> {
+    const { data, error } = await supabase
+      .from('resume_variant_applications')
+      .insert({
+        variant_id: variant.id,
+        user_id: variant.user_id,
+        ...input
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record application: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  async updateApplicationStatus(applicationId: string, status: ApplicationStatus): Promise<void> {
+    const { error } = await supabase
+      .from('resume_variant_applications')
+      .update({ status })
+      .eq('id', applicationId);
+
+    if (error) {
+      throw new Error(`Failed to update application: ${error.message}`);
+    }
+  },
+
+  async deleteApplication(applicationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('resume_variant_applications')
+      .delete()
+      .eq('id', applicationId);
+
+    if (error) {
+      throw new Error(`Failed to delete application: ${error.message}`);
+    }
+  }
+};
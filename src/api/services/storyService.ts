@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { BehavioralCompetency } from '@/data/behavioralQuestions';
+
+export type InterviewStory = Tables<'interview_stories'>;
+
+export interface StoryInput {
+  title: string;
+  competencies: BehavioralCompetency[];
+  situation: string;
+  task: string;
+  action: string;
+  result: string;
+  experience_id: string | null;
+  project_id: string | null;
+}
+
+// Experience and project entries a story can be linked to
+export interface StorySource {
+  id: string;
+  kind: 'experience' | 'project';
+  label: string;
+}
+
+export const storyService = {
+  async getStories(userId: string): Promise<InterviewStory[]> {
+    const { data, error } = await supabase
+      .from('interview_stories')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch stories: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  async getStorySources(userId: string): Promise<StorySource[]> {
+    const [{ data: experience, error: experienceError }, { data: projects, error: projectsError }] = await Promise.all([
+      supabase
+        .from('user_experience')
+        .select('id, company, position')
+        .eq('user_id', userId)
+        .order('start_date', { ascending: false }),
+      supabase
+        .from('user_projects')
+        .select('id, title')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+    ]);
+
+    if (experienceError) {
+      throw new Error(`Failed to fetch experience: ${experienceError.message}`);
+    }
+    if (projectsError) {
+      throw new Error(`Failed to fetch projects: ${projectsError.message}`);
+    }
+
+    return [
+      ...(experience || []).map(item => ({ id: item.id, kind: 'experience' as const, label: `${item.position} at ${item.company}` })),
+      ...(projects || []).map(item => ({ id: item.id, kind: 'project' as const, label: item.title }))
+    ];
+  },
+
+  async createStory(userId: string, input: StoryInput): Promise<InterviewStory> {
+    const { data, error } = await supabase
+      .from('interview_stories')
+      .insert({ ...input, user_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save story: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  async updateStory(storyId: string, input: StoryInput): Promise<InterviewStory> {
+    const { data, error } = await supabase
+      .from('interview_stories')
+      .update(input)
+      .eq('id', storyId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update story: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  async deleteStory(storyId: string): Promise<void> {
+    const { error } = await supabase
+      .from('interview_stories')
+      .delete()
+      .eq('id', storyId);
+
+    if (error) {
+      throw new Error(`Failed to delete story: ${error.message}`);
+    }
+  },
+
+  // Counts a reuse when the candidate picks the story for a question
+  async markUsed(story: InterviewStory): Promise<InterviewStory> {
+    const { data, error } = await supabase
+      .from('interview_stories')
+      .update({ times_used: story.times_used + 1, last_used_at: new Date().toISOString() })
+      .eq('id', story.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update story: ${error.message}`);
+    }
+
+    return data;
+  }
+};
@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { ExecutionResult, toCodeSubmission } from '@/lib/codeRunner';
+
+export type CodeSubmission = Tables<'code_submissions'>;
+
+export const submissionService = {
+  async saveProblemSubmission(userId: string, problemKey: string, result: ExecutionResult): Promise<CodeSubmission> {
+    const { data, error } = await supabase
+      .from('code_submissions')
+      .insert(toCodeSubmission(result, { user_id: userId, problem_key: problemKey }))
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save submission: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  async getProblemSubmissions(userId: string, problemKey: string, limit = 20): Promise<CodeSubmission[]> {
+    const { data, error } = await supabase
+      .from('code_submissions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('problem_key', problemKey)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch submissions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+};
@@ -0,0 +1,138 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { SolvedHistory, TutorContext, TutorMode, TutorRole } from '@/lib/dsaTutor';
+
+export type TutorConversation = Tables<'dsa_tutor_conversations'>;
+export type TutorMessage = Tables<'dsa_tutor_messages'>;
+
+export interface ConversationInput {
+  // Generated by the chat so it can be sent to the tutor before the first save
+  id?: string;
+  title: string;
+  mode: TutorMode;
+  context: TutorContext;
+}
+
+const RECENT_SOLVED_LIMIT = 10;
+
+export const getConversationContext = (conversation: TutorConversation): TutorContext =>
+  conversation.context && typeof conversation.context === 'object' && !Array.isArray(conversation.context)
+    ? (conversation.context as unknown as TutorContext)
+    : {};
+
+export const tutorService = {
+  async getConversations(userId: string, limit = 30): Promise<TutorConversation[]> {
+    const { data, error } = await supabase
+      .from('dsa_tutor_conversations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch conversations: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  async getMessages(conversationId: string): Promise<TutorMessage[]> {
+    const { data, error } = await supabase
+      .from('dsa_tutor_messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch messages: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  async createConversation(userId: string, input: ConversationInput): Promise<TutorConversation> {
+    const { data, error } = await supabase
+      .from('dsa_tutor_conversations')
+      .insert({
+        id: input.id,
+        user_id: userId,
+        title: input.title,
+        mode: input.mode,
+        context: input.context as unknown as Json
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create conversation: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  // Adding a message also bumps the conversation so it sorts to the top of the
+  // history, and records how far up the hint ladder it has gone
+  async addMessage(
+    conversation: TutorConversation,
+    role: TutorRole,
+    content: string,
+    hintLevel: number | null = null
+  ): Promise<TutorMessage> {
+    const { data, error } = await supabase
+      .from('dsa_tutor_messages')
+      .insert({
+        conversation_id: conversation.id,
+        user_id: conversation.user_id,
+        role,
+        content,
+        hint_level: hintLevel
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save message: ${error.message}`);
+    }
+
+    const { error: updateError } = await supabase
+      .from('dsa_tutor_conversations')
+      .update({ hint_level: Math.max(conversation.hint_level, hintLevel || 0) })
+      .eq('id', conversation.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update conversation: ${updateError.message}`);
+    }
+
+    return data;
+  },
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('dsa_tutor_conversations')
+      .delete()
+      .eq('id', conversationId);
+
+    if (error) {
+      throw new Error(`Failed to delete conversation: ${error.message}`);
+    }
+  },
+
+  // Problems the learner has solved, passed to the tutor as context
+  async getSolvedHistory(userId: string): Promise<SolvedHistory> {
+    const { data, count, error } = await supabase
+      .from('dsa_progress')
+      .select('problem_name', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('completed_at', { ascending: false })
+      .limit(RECENT_SOLVED_LIMIT);
+
+    if (error) {
+      throw new Error(`Failed to fetch solved problems: ${error.message}`);
+    }
+
+    return {
+      count: count ?? (data || []).length,
+      recent: (data || []).map(row => row.problem_name)
+    };
+  }
+};
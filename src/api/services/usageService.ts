@@ -0,0 +1,54 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type AIUsageRecord = Tables<'ai_usage'>;
+export type AIQuota = Tables<'ai_quotas'>;
+
+export interface TodayUsage {
+  totalTokens: number;
+  requestCount: number;
+}
+
+export const usageService = {
+  async getUsage(userId: string, since: Date): Promise<AIUsageRecord[]> {
+    const { data, error } = await supabase
+      .from('ai_usage')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch AI usage: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  // Same numbers the edge functions check quotas against
+  async getTodayUsage(userId: string): Promise<TodayUsage> {
+    const { data, error } = await supabase.rpc('get_ai_usage_today', { p_user_id: userId });
+
+    if (error) {
+      throw new Error(`Failed to fetch today's AI usage: ${error.message}`);
+    }
+
+    const row = data?.[0];
+    return { totalTokens: Number(row?.total_tokens || 0), requestCount: Number(row?.request_count || 0) };
+  },
+
+  // Null when the server default limits apply
+  async getQuota(userId: string): Promise<AIQuota | null> {
+    const { data, error } = await supabase
+      .from('ai_quotas')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch AI quota: ${error.message}`);
+    }
+
+    return data;
+  }
+};
@@ -4,14 +4,16 @@ import { Button } from "@/components/ui/button";
 import { Star, ExternalLink, BookOpen, Building2, FileText } from "lucide-react";
 import { Link } from "react-router-dom";
 import { useFavorites } from "@/hooks/useFavorites";
+import { useDSAProgress } from "@/hooks/useDSAProgress";
 import { dsaTopics } from "@/data/dsaProblems";
 import { companies } from "@/data/companyProblems";
 
 const FavoritesTable = () => {
   const { favorites, loading, removeFromFavorites } = useFavorites();
+  const { withProgress } = useDSAProgress();
 
-  const favoriteTopics = dsaTopics.filter(topic => favorites.topics.includes(topic.id));
-  const favoriteCompanies = companies.filter(company => favorites.companies.includes(company.id));
+  const favoriteTopics = withProgress(dsaTopics.filter(topic => favorites.topics.includes(topic.id)));
+  const favoriteCompanies = withProgress(companies.filter(company => favorites.companies.includes(company.id)));
 
   if (loading) {
     return (
@@ -3,43 +3,57 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { Play, Code2, Terminal, ExternalLink } from 'lucide-react';
+import { Play, Code2, Terminal, ExternalLink, Clock, Cpu } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  runCode as executeCode,
+  getSupportedLanguages,
+  ExecutionResult,
+  RunnerLanguage,
+  LANGUAGE_LABELS,
+} from '@/lib/codeRunner';
 
 interface CodePlaygroundProps {
   initialCode?: string;
-  language?: string;
+  language?: RunnerLanguage;
   title?: string;
+  timeoutMs?: number;
+  onRun?: (result: ExecutionResult) => void;
 }
 
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
 const CodePlayground: React.FC<CodePlaygroundProps> = ({ 
   initialCode = '',
-  language = 'javascript',
-  title = 'Code Playground'
+  language: initialLanguage = 'javascript',
+  title = 'Code Playground',
+  timeoutMs,
+  onRun
 }) => {
   const [code, setCode] = useState(initialCode);
-  const [output, setOutput] = useState('');
+  const [language, setLanguage] = useState<RunnerLanguage>(initialLanguage);
+  const [result, setResult] = useState<ExecutionResult | null>(null);
   const [isRunning, setIsRunning] = useState(false);
 
   const runCode = async () => {
     setIsRunning(true);
-    setOutput('Running code...');
-
-    // Simulate code execution
-    setTimeout(() => {
-      try {
-        if (language === 'javascript') {
-          // Simple JavaScript evaluation (in production, this would use a secure sandbox)
-          const result = eval(code);
-          setOutput(`Output: ${result}`);
-        } else {
-          setOutput('Code execution simulation - this would run in a secure sandbox environment.');
-        }
-      } catch (error) {
-        setOutput(`Error: ${error.message}`);
-      }
+    setResult(null);
+
+    try {
+      const executionResult = await executeCode({ code, language, timeoutMs });
+      setResult(executionResult);
+      onRun?.(executionResult);
+    } finally {
       setIsRunning(false);
-    }, 1000);
+    }
   };
 
   const sampleCodes = {
@@ -140,7 +154,16 @@ console.log(userService.getUser(1));`
           <TabsContent value="playground" className="px-4 pb-4">
             <div className="space-y-4">
               <div className="flex items-center gap-2 mb-2">
-                <Badge variant="outline">{language}</Badge>
+                <Select value={language} onValueChange={(value) => setLanguage(value as RunnerLanguage)}>
+                  <SelectTrigger className="w-[140px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getSupportedLanguages().map(lang => (
+                      <SelectItem key={lang} value={lang}>{LANGUAGE_LABELS[lang]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button
                   onClick={runCode}
                   disabled={isRunning}
@@ -159,13 +182,42 @@ console.log(userService.getUser(1));`
                 className="min-h-[200px] font-mono text-sm"
               />
               
-              {output && (
+              {(isRunning || result) && (
                 <div className="bg-muted p-3 rounded-md">
                   <div className="flex items-center gap-2 mb-2">
                     <Terminal className="h-4 w-4" />
                     <span className="text-sm font-medium">Output</span>
+                    {result && (
+                      <div className="ml-auto flex items-center gap-2">
+                        <Badge variant={result.status === 'passed' ? 'default' : 'destructive'} className="text-xs">
+                          {result.timed_out ? 'Timed out' : `Exit ${result.exit_code ?? '-'}`}
+                        </Badge>
+                        {result.execution_time !== null && (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Clock className="h-3 w-3" />
+                            {result.execution_time} ms
+                          </span>
+                        )}
+                        {result.memory_used !== null && (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Cpu className="h-3 w-3" />
+                            {formatBytes(result.memory_used)}
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </div>
-                  <pre className="text-sm">{output}</pre>
+                  {isRunning ? (
+                    <pre className="text-sm text-muted-foreground">Running code...</pre>
+                  ) : result && (
+                    <>
+                      {result.stdout && <pre className="text-sm whitespace-pre-wrap">{result.stdout}</pre>}
+                      {result.stderr && <pre className="text-sm whitespace-pre-wrap text-destructive">{result.stderr}</pre>}
+                      {!result.stdout && !result.stderr && (
+                        <pre className="text-sm text-muted-foreground">(no output)</pre>
+                      )}
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -185,6 +237,7 @@ console.log(userService.getUser(1));`
                       size="sm"
                       onClick={() => {
                         setCode(code);
+                        setLanguage(lang === 'typescript' ? 'typescript' : 'javascript');
                         // Switch to playground tab
                         const playgroundTab = document.querySelector('[value="playground"]') as HTMLElement;
                         playgroundTab?.click();
@@ -232,6 +285,7 @@ console.log(userService.getUser(1));`
                       size="sm"
                       onClick={() => {
                         setCode(problem.startingCode);
+                        setLanguage('javascript');
                         const playgroundTab = document.querySelector('[value="playground"]') as HTMLElement;
                         playgroundTab?.click();
                       }}
@@ -1,77 +1,152 @@
-
 import { useEffect, useState } from 'react';
 import { Progress } from "@/components/ui/progress";
-import { Loader2, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Clock, CheckCircle2, Circle, XCircle, RotateCcw, Ban, X, ArrowRight } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { GenerationStep } from "@/hooks/useCourseGeneration";
 
 interface ContentGenerationStatusProps {
   isGenerating: boolean;
   title: string;
   startTime?: Date | null;
   progress: number;
-  estimatedTime?: number; // in seconds
+  status?: string | null;
+  currentStep?: string | null;
+  steps?: GenerationStep[];
+  error?: string | null;
+  onRetry?: () => void;
+  onCancel?: () => void;
+  onDismiss?: () => void;
+  onView?: () => void;
 }
 
-const ContentGenerationStatus = ({ 
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+};
+
+const StepIcon = ({ state }: { state: GenerationStep['state'] }) => {
+  switch (state) {
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case 'active':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-destructive" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground" />;
+  }
+};
+
+const ContentGenerationStatus = ({
   isGenerating,
-  title, 
+  title,
   startTime,
   progress,
-  estimatedTime = 180 // 3 minutes = 180 seconds
+  status,
+  currentStep,
+  steps,
+  error,
+  onRetry,
+  onCancel,
+  onDismiss,
+  onView
 }: ContentGenerationStatusProps) => {
   const [elapsedTime, setElapsedTime] = useState<number>(0);
-  
+
   useEffect(() => {
     if (isGenerating && startTime) {
-      const interval = setInterval(() => {
-        const seconds = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
-        setElapsedTime(seconds);
-      }, 1000);
-      
+      const tick = () => setElapsedTime(Math.floor((Date.now() - startTime.getTime()) / 1000));
+      tick();
+      const interval = setInterval(tick, 1000);
+
       return () => clearInterval(interval);
     }
   }, [isGenerating, startTime]);
-  
-  const getRemainingTime = () => {
-    if (!startTime) return estimatedTime;
-    const elapsed = Math.floor((Date.now() - startTime.getTime()) / 1000);
-    const remaining = Math.max(0, estimatedTime - elapsed);
-    return remaining;
-  };
-  
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
-  };
-  
-  const remainingTime = getRemainingTime();
-  
-  if (!isGenerating) return null;
-  
+
+  const isFailed = status === 'failed';
+  const isCancelled = status === 'cancelled';
+  const isCompleted = status === 'completed';
+
+  if (!isGenerating && !isFailed && !isCancelled && !isCompleted) return null;
+
   return (
-    <Card className="mb-6">
+    <Card className={`mb-6 ${isFailed ? 'border-destructive/50' : ''}`}>
       <CardHeader>
         <CardTitle className="flex items-center">
-          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-          {title}
+          {isGenerating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {isFailed && <XCircle className="h-4 w-4 mr-2 text-destructive" />}
+          {isCancelled && <Ban className="h-4 w-4 mr-2 text-muted-foreground" />}
+          {isCompleted && <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />}
+          {isFailed ? 'Course generation failed' :
+            isCancelled ? 'Course generation cancelled' :
+            isCompleted ? 'Course generation complete' :
+            title}
+          {!isGenerating && onDismiss && (
+            <Button variant="ghost" size="sm" className="ml-auto h-7 w-7 p-0" onClick={onDismiss}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
         </CardTitle>
-        <CardDescription>
-          This process takes approximately {formatTime(estimatedTime)} to complete.
-        </CardDescription>
+        {currentStep && (
+          <CardDescription>
+            {isFailed ? `Failed during: ${currentStep}` : currentStep}
+          </CardDescription>
+        )}
       </CardHeader>
       <CardContent>
-        <div className="space-y-2">
-          <Progress value={progress} className="h-2" />
-          <div className="flex items-center justify-between text-sm">
-            <span>{progress}% complete</span>
-            {remainingTime > 0 && (
-              <div className="flex items-center text-muted-foreground">
-                <Clock className="h-3.5 w-3.5 mr-1" />
-                <span>Estimated {formatTime(remainingTime)} remaining</span>
-              </div>
-            )}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Progress value={progress} className="h-2" />
+            <div className="flex items-center justify-between text-sm">
+              <span>{progress}% complete</span>
+              {isGenerating && startTime && (
+                <div className="flex items-center text-muted-foreground">
+                  <Clock className="h-3.5 w-3.5 mr-1" />
+                  <span>{formatTime(elapsedTime)} elapsed</span>
+                </div>
+              )}
+            </div>
           </div>
+
+          {steps && steps.length > 0 && (
+            <ul className="space-y-1.5">
+              {steps.map(step => (
+                <li key={step.label} className="flex items-center gap-2 text-sm">
+                  <StepIcon state={step.state} />
+                  <span className={step.state === 'pending' ? 'text-muted-foreground' : ''}>{step.label}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isFailed && error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+
+          {(isGenerating && onCancel) || ((isFailed || isCancelled) && onRetry) || (isCompleted && onView) ? (
+            <div className="flex gap-2">
+              {isGenerating && onCancel && (
+                <Button variant="outline" size="sm" onClick={onCancel} className="flex items-center gap-2">
+                  <Ban className="h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
+              {(isFailed || isCancelled) && onRetry && (
+                <Button size="sm" onClick={onRetry} className="flex items-center gap-2">
+                  <RotateCcw className="h-4 w-4" />
+                  Retry
+                </Button>
+              )}
+              {isCompleted && onView && (
+                <Button size="sm" onClick={onView} className="flex items-center gap-2">
+                  View Course
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ) : null}
         </div>
       </CardContent>
     </Card>
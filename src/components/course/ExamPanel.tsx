@@ -0,0 +1,347 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ClipboardCheck, Clock, Loader2, Play, RefreshCw, History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { examService } from '@/api/services/examService';
+import ExamRunner from './ExamRunner';
+import ExamReview from './ExamReview';
+import { ChapterType, CourseType, ExamType, ExamQuestionType, ExamAttemptType, ExamAnswerType } from '@/types';
+
+interface ExamPanelProps {
+  course: CourseType;
+  chapters: ChapterType[];
+}
+
+type ExamMode = 'list' | 'running' | 'review';
+
+const COURSE_SCOPE = 'course';
+
+// An unfinished attempt can be resumed only while its timer would still be running
+const isResumable = (attempt: ExamAttemptType, exam: ExamType) =>
+  !attempt.is_completed &&
+  new Date(attempt.started_at).getTime() + exam.duration_minutes * 60 * 1000 > Date.now();
+
+const ExamPanel: React.FC<ExamPanelProps> = ({ course, chapters }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [exams, setExams] = useState<ExamType[]>([]);
+  const [attempts, setAttempts] = useState<ExamAttemptType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [scope, setScope] = useState(COURSE_SCOPE);
+  const [questionCount, setQuestionCount] = useState(10);
+  const [durationMinutes, setDurationMinutes] = useState(20);
+  const [mode, setMode] = useState<ExamMode>('list');
+  const [activeExam, setActiveExam] = useState<ExamType | null>(null);
+  const [questions, setQuestions] = useState<ExamQuestionType[]>([]);
+  const [activeAttempt, setActiveAttempt] = useState<ExamAttemptType | null>(null);
+
+  const loadExams = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      const [examsData, attemptsData] = await Promise.all([
+        examService.getCourseExams(course.id),
+        examService.getCourseAttempts(course.id, user.id)
+      ]);
+      setExams(examsData);
+      setAttempts(attemptsData);
+    } catch (error) {
+      console.error('Error loading exams:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load exams. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [course.id, user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      loadExams();
+    }
+  }, [user, loadExams]);
+
+  const handleGenerate = async () => {
+    const chapter = chapters.find(ch => ch.id === scope);
+
+    try {
+      setIsGenerating(true);
+      await examService.generateExam(course.id, {
+        topic: chapter ? chapter.title : course.title,
+        chapterId: chapter?.id,
+        chapterContent: chapter ? chapter.content : chapters.map(ch => ch.content).join('\n\n'),
+        difficulty: course.difficulty === 'beginner' ? 'easy' : course.difficulty === 'intermediate' ? 'medium' : 'hard',
+        questionCount,
+        durationMinutes
+      });
+      await loadExams();
+
+      toast({
+        title: "Exam Generated",
+        description: `A ${questionCount}-question exam is ready.`
+      });
+    } catch (error) {
+      console.error('Error generating exam:', error);
+      toast({
+        title: "Generation Failed",
+        description: "Failed to generate the exam. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const getExamAttempts = (examId: string) => attempts.filter(a => a.exam_id === examId);
+
+  const startExam = async (exam: ExamType) => {
+    if (!user) return;
+
+    try {
+      const examQuestions = await examService.getExamQuestions(exam.id);
+      if (examQuestions.length === 0) {
+        toast({
+          title: "No questions",
+          description: "This exam has no questions yet.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      let attempt = getExamAttempts(exam.id).find(a => isResumable(a, exam));
+      if (!attempt) {
+        attempt = await examService.startAttempt(exam, user.id);
+        setAttempts(prev => [...prev, attempt]);
+      }
+
+      setActiveExam(exam);
+      setQuestions(examQuestions);
+      setActiveAttempt(attempt);
+      setMode('running');
+    } catch (error) {
+      console.error('Error starting exam:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start the exam. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const reviewExam = async (exam: ExamType, attempt: ExamAttemptType) => {
+    try {
+      const examQuestions = await examService.getReviewQuestions(exam.id);
+      setActiveExam(exam);
+      setQuestions(examQuestions);
+      setActiveAttempt(attempt);
+      setMode('review');
+    } catch (error) {
+      console.error('Error loading exam review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the exam review.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSubmit = async (answers: Record<string, ExamAnswerType>, timeSpent: number) => {
+    if (!activeAttempt) return;
+
+    try {
+      const graded = await examService.submitAttempt(activeAttempt.id, answers, timeSpent);
+      setAttempts(prev => prev.map(a => (a.id === graded.id ? graded : a)));
+      setActiveAttempt(graded);
+      if (activeExam) {
+        setQuestions(await examService.getReviewQuestions(activeExam.id).catch(() => questions));
+      }
+      setMode('review');
+    } catch (error) {
+      console.error('Error submitting exam:', error);
+      toast({
+        title: "Submission Failed",
+        description: "Your answers are saved. Please try submitting again.",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+
+  const backToList = () => {
+    setMode('list');
+    setActiveExam(null);
+    setActiveAttempt(null);
+    setQuestions([]);
+  };
+
+  if (mode === 'running' && activeExam && activeAttempt) {
+    return (
+      <ExamRunner
+        exam={activeExam}
+        questions={questions}
+        attempt={activeAttempt}
+        onSubmit={handleSubmit}
+      />
+    );
+  }
+
+  if (mode === 'review' && activeExam && activeAttempt) {
+    return (
+      <ExamReview
+        exam={activeExam}
+        questions={questions}
+        attempt={activeAttempt}
+        history={getExamAttempts(activeExam.id)}
+        onRetake={() => startExam(activeExam)}
+        onBack={backToList}
+        onSelectAttempt={setActiveAttempt}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Generate an Exam</CardTitle>
+          <CardDescription>Create a timed exam for the whole course or a single chapter</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Scope</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select scope" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={COURSE_SCOPE}>Entire course</SelectItem>
+                  {chapters.map(chapter => (
+                    <SelectItem key={chapter.id} value={chapter.id}>
+                      Chapter {chapter.order_number}: {chapter.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exam-questions">Questions</Label>
+              <Input
+                id="exam-questions"
+                type="number"
+                min={3}
+                max={30}
+                value={questionCount}
+                onChange={(e) => setQuestionCount(Math.min(30, Math.max(3, Number(e.target.value) || 3)))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exam-duration">Duration (min)</Label>
+              <Input
+                id="exam-duration"
+                type="number"
+                min={5}
+                max={180}
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(Math.min(180, Math.max(5, Number(e.target.value) || 5)))}
+              />
+            </div>
+          </div>
+          <Button onClick={handleGenerate} disabled={isGenerating} className="mt-4 flex items-center gap-2">
+            {isGenerating ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            Generate Exam
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : exams.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <ClipboardCheck className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No exams yet</h3>
+            <p className="text-muted-foreground">Generate an exam to test yourself under time pressure.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {exams.map(exam => {
+            const examAttempts = getExamAttempts(exam.id);
+            const completed = examAttempts.filter(a => a.is_completed);
+            const lastAttempt = completed[completed.length - 1];
+            const unfinished = examAttempts.find(a => isResumable(a, exam));
+            const chapter = chapters.find(ch => ch.id === exam.chapter_id);
+
+            return (
+              <Card key={exam.id}>
+                <CardHeader>
+                  <CardTitle className="text-base">{exam.title}</CardTitle>
+                  <CardDescription>
+                    {chapter ? `Chapter ${chapter.order_number}: ${chapter.title}` : 'Entire course'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <Badge variant="secondary">{exam.total_questions} questions</Badge>
+                    <Badge variant="outline" className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {exam.duration_minutes} min
+                    </Badge>
+                    <Badge variant="outline">{exam.difficulty}</Badge>
+                    {lastAttempt && (
+                      <Badge>
+                        Last: {lastAttempt.max_score > 0 ? Math.round((lastAttempt.score / lastAttempt.max_score) * 100) : 0}%
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => startExam(exam)} className="flex items-center gap-2">
+                      <Play className="w-4 h-4" />
+                      {unfinished ? 'Resume' : completed.length > 0 ? 'Retake' : 'Start'}
+                    </Button>
+                    {lastAttempt && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => reviewExam(exam, lastAttempt)}
+                        className="flex items-center gap-2"
+                      >
+                        <History className="w-4 h-4" />
+                        Review ({completed.length})
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExamPanel;
@@ -0,0 +1,208 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from '@/components/ui/chart';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { CheckCircle2, XCircle, ChevronLeft, RefreshCw, Clock } from 'lucide-react';
+import { ExamType, ExamQuestionType, ExamAttemptType } from '@/types';
+
+interface ExamReviewProps {
+  exam: ExamType;
+  questions: ExamQuestionType[];
+  attempt: ExamAttemptType;
+  history: ExamAttemptType[];
+  onRetake: () => void;
+  onBack: () => void;
+  onSelectAttempt?: (attempt: ExamAttemptType) => void;
+}
+
+const chartConfig: ChartConfig = {
+  percentage: {
+    label: 'Score %',
+    color: 'hsl(var(--primary))',
+  },
+};
+
+const getPercentage = (attempt: ExamAttemptType) =>
+  attempt.max_score > 0 ? Math.round((attempt.score / attempt.max_score) * 100) : 0;
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
+const ExamReview: React.FC<ExamReviewProps> = ({
+  exam,
+  questions,
+  attempt,
+  history,
+  onRetake,
+  onBack,
+  onSelectAttempt
+}) => {
+  const percentage = getPercentage(attempt);
+  const completedHistory = history.filter(a => a.is_completed);
+  const trendData = completedHistory.map((a, index) => ({
+    attempt: `#${index + 1}`,
+    percentage: getPercentage(a)
+  }));
+  const bestPercentage = completedHistory.reduce((best, a) => Math.max(best, getPercentage(a)), 0);
+  const correctCount = questions.filter(q => attempt.answers[q.id]?.is_correct).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={onBack} className="flex items-center gap-2">
+          <ChevronLeft className="w-4 h-4" />
+          Back to Exams
+        </Button>
+        <Button onClick={onRetake} className="flex items-center gap-2">
+          <RefreshCw className="w-4 h-4" />
+          Retake Exam
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Score</CardDescription>
+            <CardTitle className="text-3xl">{percentage}%</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Progress value={percentage} className="h-2 mb-2" />
+            <p className="text-sm text-muted-foreground">
+              {attempt.score}/{attempt.max_score} marks • {correctCount}/{questions.length} correct
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Time Spent</CardDescription>
+            <CardTitle className="text-3xl flex items-center gap-2">
+              <Clock className="w-6 h-6 text-muted-foreground" />
+              {formatDuration(attempt.time_spent)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">of {exam.duration_minutes} minutes allowed</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Best Score</CardDescription>
+            <CardTitle className="text-3xl">{bestPercentage}%</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              across {completedHistory.length} {completedHistory.length === 1 ? 'attempt' : 'attempts'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {trendData.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Score Trend</CardTitle>
+            <CardDescription>Your score on each attempt of this exam</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto">
+              <LineChart data={trendData} margin={{ left: 0, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="attempt" tickLine={false} axisLine={false} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  type="monotone"
+                  dataKey="percentage"
+                  stroke="var(--color-percentage)"
+                  strokeWidth={2}
+                  dot={{ r: 4 }}
+                />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {completedHistory.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Attempt History</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {[...completedHistory].reverse().map((a) => (
+              <button
+                key={a.id}
+                onClick={() => onSelectAttempt?.(a)}
+                className={`w-full flex items-center justify-between p-3 rounded-lg border text-left transition-colors hover:bg-muted ${
+                  a.id === attempt.id ? 'border-primary bg-primary/5' : ''
+                }`}
+              >
+                <span className="text-sm">
+                  {new Date(a.completed_at || a.started_at).toLocaleString()}
+                </span>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">{formatDuration(a.time_spent)}</span>
+                  <Badge variant={getPercentage(a) >= 60 ? 'default' : 'secondary'}>
+                    {getPercentage(a)}%
+                  </Badge>
+                </div>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">Question Review</h3>
+        {questions.map((question, index) => {
+          const response = attempt.answers[question.id];
+          const isCorrect = !!response?.is_correct;
+
+          return (
+            <Card key={question.id} className={isCorrect ? 'border-green-500/40' : 'border-destructive/40'}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <CardTitle className="text-base flex items-start gap-2">
+                    {isCorrect ? (
+                      <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <XCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                    )}
+                    {index + 1}. {question.question_text}
+                  </CardTitle>
+                  <Badge variant="outline" className="flex-shrink-0">
+                    {response?.marks_awarded || 0}/{question.marks}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p>
+                  <span className="font-medium">Your answer: </span>
+                  <span className={isCorrect ? 'text-green-600' : 'text-destructive'}>
+                    {response?.answer || 'Not answered'}
+                  </span>
+                </p>
+                {!isCorrect && question.correct_answer && (
+                  <p>
+                    <span className="font-medium">Correct answer: </span>
+                    {question.correct_answer}
+                  </p>
+                )}
+                {question.explanation && (
+                  <div className="mt-2 p-3 bg-muted rounded-lg">
+                    <p className="font-medium mb-1">Explanation:</p>
+                    <p className="text-muted-foreground">{question.explanation}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ExamReview;
@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, Clock, ChevronLeft, ChevronRight, Send, Loader2 } from 'lucide-react';
+import { examService } from '@/api/services/examService';
+import { ExamType, ExamQuestionType, ExamAttemptType, ExamAnswerType } from '@/types';
+
+interface ExamRunnerProps {
+  exam: ExamType;
+  questions: ExamQuestionType[];
+  attempt: ExamAttemptType;
+  onSubmit: (answers: Record<string, ExamAnswerType>, timeSpent: number) => Promise<void>;
+}
+
+const formatTime = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+const ExamRunner: React.FC<ExamRunnerProps> = ({ exam, questions, attempt, onSubmit }) => {
+  const [answers, setAnswers] = useState<Record<string, ExamAnswerType>>(attempt.answers || {});
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitFailed, setSubmitFailed] = useState(false);
+
+  // The deadline is derived from the stored start time so a resumed attempt keeps its clock
+  const deadline = new Date(attempt.started_at).getTime() + exam.duration_minutes * 60 * 1000;
+  const [remainingSeconds, setRemainingSeconds] = useState(
+    Math.max(0, Math.round((deadline - Date.now()) / 1000))
+  );
+  const submittedRef = useRef(false);
+  const autosaveRef = useRef<ReturnType<typeof setTimeout>>();
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+
+  const handleSubmit = useCallback(async () => {
+    if (submittedRef.current) return;
+    submittedRef.current = true;
+    clearTimeout(autosaveRef.current);
+    setIsSubmitting(true);
+    setSubmitFailed(false);
+
+    const elapsed = Math.round((Date.now() - new Date(attempt.started_at).getTime()) / 1000);
+    const timeSpent = Math.min(elapsed, exam.duration_minutes * 60);
+
+    try {
+      await onSubmit(answersRef.current, timeSpent);
+    } catch (error) {
+      submittedRef.current = false;
+      setIsSubmitting(false);
+      setSubmitFailed(true);
+    }
+  }, [attempt.started_at, exam.duration_minutes, onSubmit]);
+
+  // Countdown; submit automatically once time is up
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, Math.round((deadline - Date.now()) / 1000));
+      setRemainingSeconds(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+        handleSubmit();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [deadline, handleSubmit]);
+
+  // Autosave answers shortly after they change; a save still pending when
+  // the exam is submitted is dropped so it cannot overwrite the graded answers
+  useEffect(() => {
+    if (submittedRef.current) return;
+
+    autosaveRef.current = setTimeout(() => {
+      if (submittedRef.current) return;
+      examService.saveAnswers(attempt.id, answers).catch(error => {
+        console.error('Failed to autosave exam answers:', error);
+      });
+    }, 800);
+
+    return () => clearTimeout(autosaveRef.current);
+  }, [answers, attempt.id]);
+
+  const setAnswer = (questionId: string, answer: string) => {
+    setAnswers(prev => ({
+      ...prev,
+      [questionId]: { answer, answered_at: new Date().toISOString() }
+    }));
+  };
+
+  const question = questions[currentIndex];
+  const answeredCount = questions.filter(q => answers[q.id]?.answer).length;
+  const isLowOnTime = remainingSeconds <= 60;
+  // Answers are locked once time is up, even if the automatic submit failed
+  const isTimeUp = remainingSeconds === 0;
+
+  if (!question) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>{exam.title}</CardTitle>
+              <CardDescription>
+                {answeredCount}/{questions.length} answered
+              </CardDescription>
+            </div>
+            <Badge
+              variant={isLowOnTime ? 'destructive' : 'secondary'}
+              className="text-base font-mono flex items-center gap-2 px-3 py-1"
+            >
+              <Clock className="w-4 h-4" />
+              {formatTime(remainingSeconds)}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Progress value={(answeredCount / questions.length) * 100} className="h-2" />
+          <div className="flex flex-wrap gap-2 mt-4">
+            {questions.map((q, index) => (
+              <Button
+                key={q.id}
+                size="sm"
+                variant={index === currentIndex ? 'default' : answers[q.id]?.answer ? 'secondary' : 'outline'}
+                className="w-9 h-9 p-0"
+                onClick={() => setCurrentIndex(index)}
+              >
+                {index + 1}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isTimeUp && submitFailed && (
+        <Card className="border-destructive">
+          <CardContent className="flex items-center justify-between gap-4 py-4">
+            <div className="flex items-center gap-2 text-sm">
+              <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+              Time's up. Your answers are saved, but the exam could not be submitted.
+            </div>
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Submit again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <CardTitle className="text-lg">Question {currentIndex + 1}</CardTitle>
+            <Badge variant="outline">{question.marks} {question.marks === 1 ? 'mark' : 'marks'}</Badge>
+            <Badge variant="outline">{question.difficulty}</Badge>
+          </div>
+          <CardDescription className="text-base text-foreground">{question.question_text}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {question.options.length > 0 ? (
+            <div className="space-y-2">
+              {question.options.map((option, optIndex) => (
+                <Button
+                  key={optIndex}
+                  variant={answers[question.id]?.answer === option ? 'secondary' : 'outline'}
+                  className="w-full justify-start h-auto p-3 whitespace-normal text-left"
+                  onClick={() => setAnswer(question.id, option)}
+                  disabled={isSubmitting || isTimeUp}
+                >
+                  <span className="font-medium mr-2">
+                    {String.fromCharCode(65 + optIndex)}.
+                  </span>
+                  {option}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <Input
+              placeholder="Type your answer..."
+              value={answers[question.id]?.answer || ''}
+              onChange={(e) => setAnswer(question.id, e.target.value)}
+              disabled={isSubmitting || isTimeUp}
+            />
+          )}
+
+          <div className="flex items-center justify-between mt-6">
+            <Button
+              variant="outline"
+              onClick={() => setCurrentIndex(i => i - 1)}
+              disabled={currentIndex === 0}
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Button>
+            {currentIndex < questions.length - 1 ? (
+              <Button variant="outline" onClick={() => setCurrentIndex(i => i + 1)}>
+                Next
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            ) : (
+              <Button onClick={handleSubmit} disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4 mr-2" />
+                )}
+                Submit Exam
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ExamRunner;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, Eye, Loader2 } from 'lucide-react';
+import { ReviewCard, getCardSchedule } from '@/api/services/flashcardReviewService';
+import { GRADE_LABELS, REVIEW_GRADES, ReviewGrade, formatInterval } from '@/lib/spacedRepetition';
+
+interface FlashcardReviewSessionProps {
+  cards: ReviewCard[];
+  onGrade: (card: ReviewCard, grade: ReviewGrade) => Promise<ReviewCard>;
+  onFinish?: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'border-red-300 text-red-600 hover:bg-red-50 dark:hover:bg-red-950/30',
+  hard: 'border-amber-300 text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-950/30',
+  good: 'border-green-300 text-green-600 hover:bg-green-50 dark:hover:bg-green-950/30',
+  easy: 'border-blue-300 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-950/30',
+};
+
+const FlashcardReviewSession: React.FC<FlashcardReviewSessionProps> = ({ cards, onGrade, onFinish }) => {
+  // Cards answered "Again" go back to the end of the queue for this session
+  const [queue, setQueue] = useState<ReviewCard[]>(cards);
+  const [revealed, setRevealed] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [gradeCounts, setGradeCounts] = useState<Record<ReviewGrade, number>>({ again: 0, hard: 0, good: 0, easy: 0 });
+  const [finishedIds, setFinishedIds] = useState<Set<string>>(new Set());
+
+  const current = queue[0];
+  const total = new Set(cards.map(card => card.id)).size;
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current) return;
+
+    try {
+      setIsSaving(true);
+      const updated = await onGrade(current, grade);
+      setGradeCounts(prev => ({ ...prev, [grade]: prev[grade] + 1 }));
+
+      if (grade === 'again') {
+        setQueue(prev => [...prev.slice(1), updated]);
+      } else {
+        setQueue(prev => prev.slice(1));
+        setFinishedIds(prev => new Set(prev).add(current.id));
+      }
+      setRevealed(false);
+    } catch {
+      // The caller reports the failure; keep the card up so it can be graded again
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!current) {
+    const reviewed = Object.values(gradeCounts).reduce((sum, count) => sum + count, 0);
+
+    return (
+      <Card>
+        <CardContent className="text-center py-10">
+          <CheckCircle2 className="w-12 h-12 mx-auto mb-4 text-green-600" />
+          <h3 className="text-lg font-semibold mb-2">Session complete</h3>
+          <p className="text-muted-foreground mb-4">
+            {reviewed} reviews across {total} cards
+          </p>
+          <div className="flex justify-center gap-2 mb-6">
+            {REVIEW_GRADES.map(grade => (
+              <Badge key={grade} variant="outline">
+                {GRADE_LABELS[grade]}: {gradeCounts[grade]}
+              </Badge>
+            ))}
+          </div>
+          {onFinish && <Button onClick={onFinish}>Done</Button>}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const schedule = getCardSchedule(current);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{finishedIds.size}/{total} cards done</span>
+          <span>{queue.length} remaining</span>
+        </div>
+        <Progress value={total > 0 ? (finishedIds.size / total) * 100 : 0} className="h-2" />
+      </div>
+
+      <Card>
+        <CardContent className="p-8 min-h-[260px] flex flex-col">
+          <div className="flex items-center gap-2 mb-6">
+            <Badge variant="secondary">{current.course_title}</Badge>
+            {!current.review ? (
+              <Badge variant="outline">New</Badge>
+            ) : current.review.last_grade === 'again' ? (
+              <Badge variant="outline">Relearning</Badge>
+            ) : null}
+          </div>
+
+          <p className="text-lg font-medium text-center mb-6">{current.question}</p>
+
+          {revealed && (
+            <div className="border-t pt-6 text-center text-muted-foreground whitespace-pre-wrap">
+              {current.answer}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {!revealed ? (
+        <Button className="w-full flex items-center gap-2" onClick={() => setRevealed(true)}>
+          <Eye className="w-4 h-4" />
+          Show Answer
+        </Button>
+      ) : (
+        <div className="grid grid-cols-4 gap-2">
+          {REVIEW_GRADES.map(grade => (
+            <Button
+              key={grade}
+              variant="outline"
+              disabled={isSaving}
+              onClick={() => handleGrade(grade)}
+              className={`flex flex-col h-auto py-2 ${GRADE_STYLES[grade]}`}
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <span className="font-medium">{GRADE_LABELS[grade]}</span>}
+              <span className="text-xs opacity-80">{formatInterval(schedule, grade)}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardReviewSession;
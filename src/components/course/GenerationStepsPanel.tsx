@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, Circle, Loader2, RefreshCw, Workflow, XCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  courseService,
+  COURSE_GENERATION_STEPS,
+  CourseGenerationJob,
+  CourseGenerationStepKey,
+  CourseGenerationStepStatus,
+  getJobStepStates,
+} from "@/api/services/courseService";
+
+interface GenerationStepsPanelProps {
+  courseId: string;
+  // Called when a run started from here (or still running on load) finishes
+  onFinished: () => void;
+}
+
+const isActive = (job: CourseGenerationJob | null) => job?.status === 'pending' || job?.status === 'processing';
+
+const StepIcon = ({ status }: { status?: CourseGenerationStepStatus }) => {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />;
+    case 'running':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-destructive shrink-0" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground shrink-0" />;
+  }
+};
+
+// Per-step state of the course's generation job, with a button to rerun
+// any single step
+const GenerationStepsPanel = ({ courseId, onFinished }: GenerationStepsPanelProps) => {
+  const { toast } = useToast();
+  const [job, setJob] = useState<CourseGenerationJob | null>(null);
+  const [starting, setStarting] = useState<CourseGenerationStepKey | null>(null);
+  const wasActive = useRef(false);
+  const jobId = job?.id;
+  const active = isActive(job);
+
+  useEffect(() => {
+    courseService.getCourseGenerationJob(courseId)
+      .then(setJob)
+      .catch(err => console.error('Error loading generation job:', err));
+  }, [courseId]);
+
+  // Follow the job while a step is running
+  useEffect(() => {
+    if (!jobId || !active) return;
+
+    const channel = supabase
+      .channel(`course-steps-${jobId}-${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'course_generation_jobs', filter: `id=eq.${jobId}` },
+        (payload) => setJob(payload.new as CourseGenerationJob)
+      )
+      .subscribe();
+
+    courseService.getGenerationJob(jobId)
+      .then(setJob)
+      .catch(err => console.error('Error refreshing generation job:', err));
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [jobId, active]);
+
+  useEffect(() => {
+    if (active) {
+      wasActive.current = true;
+      return;
+    }
+    if (!wasActive.current || !job) return;
+
+    wasActive.current = false;
+    onFinished();
+    if (job.status === 'failed') {
+      toast({
+        title: "Generation Failed",
+        description: job.error_message || `Failed while ${job.current_step?.toLowerCase() || 'generating'}.`,
+        variant: "destructive"
+      });
+    } else if (job.status === 'completed') {
+      toast({
+        title: "Content Regenerated",
+        description: "The course has been updated."
+      });
+    }
+  }, [active, job, onFinished, toast]);
+
+  const regenerate = async (step: CourseGenerationStepKey, label: string) => {
+    if (!confirm(`${label} again? This replaces the content the step generated before.`)) {
+      return;
+    }
+
+    try {
+      setStarting(step);
+      await courseService.regenerateCourseStep(courseId, step);
+      const updated = await courseService.getCourseGenerationJob(courseId);
+      wasActive.current = true;
+      setJob(updated);
+    } catch (error) {
+      console.error(`Error regenerating ${step}:`, error);
+      toast({
+        title: "Regeneration Failed",
+        description: "Could not start regenerating this step. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setStarting(null);
+    }
+  };
+
+  const states = getJobStepStates(job);
+  // Courses from before steps were tracked have content for every step
+  const untracked = Object.keys(states).length === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Workflow className="w-5 h-5" />
+          Course Generation
+        </CardTitle>
+        <CardDescription>
+          {active ? job?.current_step || 'Starting…' : 'Regenerate parts of this course on their own.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {COURSE_GENERATION_STEPS.map(({ key, label, regenerable }) => {
+            const state = states[key];
+            return (
+              <li key={key} className="flex items-center gap-2 text-sm">
+                <StepIcon status={untracked ? 'completed' : state?.status} />
+                <div className="flex-1 min-w-0">
+                  <div className={state?.status === 'pending' ? 'text-muted-foreground' : ''}>{label}</div>
+                  {state?.status === 'failed' && state.error && (
+                    <div className="text-xs text-destructive truncate" title={state.error}>{state.error}</div>
+                  )}
+                </div>
+                {regenerable && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title={`Regenerate: ${label}`}
+                    disabled={active || starting !== null}
+                    onClick={() => regenerate(key, label)}
+                  >
+                    {starting === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GenerationStepsPanel;
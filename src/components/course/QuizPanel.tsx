@@ -0,0 +1,429 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, CheckCircle2, History, Loader2, Play, RotateCcw, Target } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { quizService, QuizScoreBreakdown } from '@/api/services/quizService';
+import QuizRunner from './QuizRunner';
+import { ChapterType, CourseType, McqType, QuizAnswerType, QuizMode, QuizSessionType } from '@/types';
+
+interface QuizPanelProps {
+  course: CourseType;
+  chapters: ChapterType[];
+  mcqs: McqType[];
+}
+
+type PanelMode = 'overview' | 'running' | 'results';
+
+const COURSE_SCOPE = 'course';
+
+const MODE_LABELS: Record<QuizMode, string> = {
+  all: 'All questions',
+  chapter: 'Chapter',
+  wrong_only: 'Wrong answers',
+};
+
+const formatDuration = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+
+const BreakdownList: React.FC<{ items: QuizScoreBreakdown[] }> = ({ items }) => (
+  <div className="space-y-3">
+    {items.map(item => (
+      <div key={item.key} className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="truncate mr-2">{item.label}</span>
+          <span className="text-muted-foreground shrink-0">
+            {item.correct}/{item.attempted} · {item.accuracy}%
+          </span>
+        </div>
+        <Progress value={item.accuracy} className="h-2" />
+      </div>
+    ))}
+  </div>
+);
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ course, chapters, mcqs }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<QuizSessionType[]>([]);
+  const [answers, setAnswers] = useState<QuizAnswerType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [scope, setScope] = useState(COURSE_SCOPE);
+  const [mode, setMode] = useState<PanelMode>('overview');
+  const [activeSession, setActiveSession] = useState<QuizSessionType | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      const [sessionsData, answersData] = await Promise.all([
+        quizService.getCourseSessions(course.id, user.id),
+        quizService.getCourseAnswers(course.id, user.id)
+      ]);
+      setSessions(sessionsData);
+      setAnswers(answersData);
+    } catch (error) {
+      console.error('Error loading quiz history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your quiz history.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [course.id, user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      loadHistory();
+    }
+  }, [user, loadHistory]);
+
+  const stats = quizService.computeStats(mcqs, answers, chapters);
+  const mcqsById = new Map(mcqs.map(mcq => [mcq.id, mcq]));
+  const chaptersWithQuestions = chapters.filter(chapter => mcqs.some(mcq => mcq.chapter_id === chapter.id));
+  const unfinished = sessions.find(session => !session.completed_at && session.mcq_ids.some(id => mcqsById.has(id)));
+  const completedSessions = sessions.filter(session => session.completed_at);
+
+  const getSessionMcqs = (session: QuizSessionType) =>
+    session.mcq_ids.map(id => mcqsById.get(id)).filter((mcq): mcq is McqType => !!mcq);
+
+  const getSessionAnswers = (session: QuizSessionType) =>
+    answers.filter(answer => answer.session_id === session.id);
+
+  const startQuiz = async (quizMode: QuizMode) => {
+    if (!user) return;
+
+    const chapterId = quizMode === 'chapter' ? scope : undefined;
+    const selected = quizMode === 'wrong_only'
+      ? mcqs.filter(mcq => stats.wrongMcqIds.includes(mcq.id))
+      : chapterId
+        ? mcqs.filter(mcq => mcq.chapter_id === chapterId)
+        : mcqs;
+
+    if (selected.length === 0) {
+      toast({
+        title: "No questions",
+        description: "There are no questions to practice in this selection.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsStarting(true);
+      const session = await quizService.startSession(user.id, course.id, selected.map(mcq => mcq.id), quizMode, chapterId);
+      setSessions(prev => [session, ...prev]);
+      setActiveSession(session);
+      setMode('running');
+    } catch (error) {
+      console.error('Error starting quiz:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start the quiz. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const resumeQuiz = (session: QuizSessionType) => {
+    setActiveSession(session);
+    setMode('running');
+  };
+
+  const handleAnswer = async (mcq: McqType, selectedAnswer: string, timeTakenMs: number) => {
+    if (!activeSession) throw new Error('No active quiz session');
+
+    try {
+      const saved = await quizService.recordAnswer(activeSession, mcq, selectedAnswer, timeTakenMs);
+      setAnswers(prev => [...prev.filter(answer => answer.id !== saved.id), saved]);
+      return saved;
+    } catch (error) {
+      console.error('Error saving answer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your answer. Please try again.",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+
+  const handleFinish = async (sessionAnswers: QuizAnswerType[]) => {
+    if (!activeSession) return;
+
+    try {
+      const completed = await quizService.completeSession(activeSession, sessionAnswers);
+      setSessions(prev => prev.map(session => (session.id === completed.id ? completed : session)));
+      setActiveSession(completed);
+      setMode('results');
+    } catch (error) {
+      console.error('Error completing quiz:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your quiz result.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const backToOverview = () => {
+    setMode('overview');
+    setActiveSession(null);
+  };
+
+  if (mode === 'running' && activeSession) {
+    return (
+      <QuizRunner
+        key={activeSession.id}
+        session={activeSession}
+        mcqs={getSessionMcqs(activeSession)}
+        initialAnswers={getSessionAnswers(activeSession)}
+        onAnswer={handleAnswer}
+        onFinish={handleFinish}
+        onExit={backToOverview}
+      />
+    );
+  }
+
+  if (mode === 'results' && activeSession) {
+    const sessionWrong = getSessionAnswers(activeSession).filter(answer => !answer.is_correct);
+    const percentage = activeSession.total_questions > 0
+      ? Math.round((activeSession.score / activeSession.total_questions) * 100)
+      : 0;
+
+    return (
+      <Card>
+        <CardContent className="py-8 space-y-6">
+          <div className="text-center">
+            <CheckCircle2 className="w-12 h-12 mx-auto mb-4 text-green-600" />
+            <h3 className="text-lg font-semibold mb-1">Quiz complete</h3>
+            <p className="text-3xl font-bold mb-1">{percentage}%</p>
+            <p className="text-muted-foreground">
+              {activeSession.score}/{activeSession.total_questions} correct in {formatDuration(activeSession.time_spent)}
+            </p>
+          </div>
+
+          {sessionWrong.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Review these questions</h4>
+              {sessionWrong.map(answer => {
+                const mcq = mcqsById.get(answer.mcq_id);
+                if (!mcq) return null;
+
+                return (
+                  <div key={answer.id} className="p-3 border rounded-lg text-sm space-y-1">
+                    <p className="font-medium">{mcq.question}</p>
+                    <p className="text-red-600">Your answer: {answer.selected_answer}</p>
+                    <p className="text-green-600">Correct answer: {mcq.correct_answer}</p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex justify-center gap-2">
+            {stats.wrongMcqIds.length > 0 && (
+              <Button onClick={() => startQuiz('wrong_only')} disabled={isStarting} className="flex items-center gap-2">
+                {isStarting ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                Retry Wrong ({stats.wrongMcqIds.length})
+              </Button>
+            )}
+            <Button variant="outline" onClick={backToOverview}>Done</Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {unfinished && (
+        <Card className="border-primary/40">
+          <CardContent className="flex items-center justify-between py-4">
+            <div>
+              <p className="font-medium">Unfinished quiz</p>
+              <p className="text-sm text-muted-foreground">
+                {getSessionAnswers(unfinished).length}/{unfinished.total_questions} answered · {MODE_LABELS[unfinished.mode]}
+              </p>
+            </div>
+            <Button size="sm" onClick={() => resumeQuiz(unfinished)} className="flex items-center gap-2">
+              <Play className="w-4 h-4" />
+              Resume
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Practice</CardTitle>
+          <CardDescription>{mcqs.length} questions available in this course</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4">
+            {chaptersWithQuestions.length > 0 && (
+              <div className="space-y-2 min-w-[220px] flex-1">
+                <Label>Scope</Label>
+                <Select value={scope} onValueChange={setScope}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select scope" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={COURSE_SCOPE}>Entire course</SelectItem>
+                    {chaptersWithQuestions.map(chapter => (
+                      <SelectItem key={chapter.id} value={chapter.id}>
+                        Chapter {chapter.order_number}: {chapter.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Button
+              onClick={() => startQuiz(scope === COURSE_SCOPE ? 'all' : 'chapter')}
+              disabled={isStarting}
+              className="flex items-center gap-2"
+            >
+              {isStarting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Start Quiz
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => startQuiz('wrong_only')}
+              disabled={isStarting || stats.wrongMcqIds.length === 0}
+              className="flex items-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Retry Wrong ({stats.wrongMcqIds.length})
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {stats.attempted > 0 && (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="pt-6 text-center">
+                <div className="text-2xl font-bold">{stats.accuracy}%</div>
+                <div className="text-xs text-muted-foreground">Accuracy</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 text-center">
+                <div className="text-2xl font-bold">{stats.attempted}</div>
+                <div className="text-xs text-muted-foreground">Answers</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 text-center">
+                <div className="text-2xl font-bold">{completedSessions.length}</div>
+                <div className="text-xs text-muted-foreground">Quizzes completed</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By chapter</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BreakdownList items={stats.byChapter} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By difficulty</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BreakdownList items={stats.byDifficulty} />
+              </CardContent>
+            </Card>
+          </div>
+
+          {stats.weakestChapters.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-amber-500" />
+                  Weakest chapters
+                </CardTitle>
+                <CardDescription>Focus your next study session here</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {stats.weakestChapters.map(chapter => (
+                  <div key={chapter.key} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      <Target className="w-4 h-4 text-muted-foreground" />
+                      {chapter.label}
+                    </span>
+                    <Badge variant="outline">{chapter.accuracy}%</Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {completedSessions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Recent quizzes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {completedSessions.slice(0, 5).map(session => {
+              const chapter = chapters.find(ch => ch.id === session.chapter_id);
+
+              return (
+                <div key={session.id} className="flex items-center justify-between text-sm">
+                  <div>
+                    <span className="font-medium">{chapter ? chapter.title : MODE_LABELS[session.mode]}</span>
+                    <span className="text-muted-foreground ml-2">
+                      {new Date(session.started_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{formatDuration(session.time_spent)}</span>
+                    <Badge variant="secondary">{session.score}/{session.total_questions}</Badge>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default QuizPanel;
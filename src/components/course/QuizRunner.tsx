@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ArrowRight, CheckCircle2, Clock, Loader2, X, XCircle } from 'lucide-react';
+import { McqType, QuizAnswerType, QuizSessionType } from '@/types';
+
+interface QuizRunnerProps {
+  session: QuizSessionType;
+  mcqs: McqType[];
+  initialAnswers: QuizAnswerType[];
+  onAnswer: (mcq: McqType, selectedAnswer: string, timeTakenMs: number) => Promise<QuizAnswerType>;
+  onFinish: (answers: QuizAnswerType[]) => void;
+  onExit: () => void;
+}
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const QuizRunner: React.FC<QuizRunnerProps> = ({ session, mcqs, initialAnswers, onAnswer, onFinish, onExit }) => {
+  const [answers, setAnswers] = useState<Record<string, QuizAnswerType>>(() =>
+    Object.fromEntries(initialAnswers.map(answer => [answer.mcq_id, answer]))
+  );
+  // Resumed sessions pick up at the first question that has no saved answer
+  const [index, setIndex] = useState(() => {
+    const firstOpen = mcqs.findIndex(mcq => !initialAnswers.some(answer => answer.mcq_id === mcq.id));
+    return firstOpen === -1 ? Math.max(0, mcqs.length - 1) : firstOpen;
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const startedAt = useRef(Date.now());
+
+  const current = mcqs[index];
+  const currentAnswer = current ? answers[current.id] : undefined;
+  const answeredCount = Object.keys(answers).length;
+
+  useEffect(() => {
+    startedAt.current = Date.now();
+    setElapsed(0);
+  }, [index]);
+
+  useEffect(() => {
+    if (currentAnswer) return;
+
+    const timer = setInterval(() => {
+      setElapsed(Math.floor((Date.now() - startedAt.current) / 1000));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [index, currentAnswer]);
+
+  const handleSelect = async (option: string) => {
+    if (!current || currentAnswer || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      const saved = await onAnswer(current, option, Date.now() - startedAt.current);
+      setAnswers(prev => ({ ...prev, [current.id]: saved }));
+    } catch {
+      // The caller reports the failure; the question stays open so it can be answered again
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleNext = () => {
+    const nextOpen = mcqs.findIndex((mcq, i) => i > index && !answers[mcq.id]);
+    if (nextOpen !== -1) {
+      setIndex(nextOpen);
+      return;
+    }
+
+    const remaining = mcqs.findIndex(mcq => !answers[mcq.id]);
+    if (remaining !== -1) {
+      setIndex(remaining);
+    } else {
+      onFinish(Object.values(answers));
+    }
+  };
+
+  if (!current) {
+    return null;
+  }
+
+  const isLast = answeredCount === mcqs.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Question {index + 1} of {mcqs.length}
+            {session.mode === 'wrong_only' && ' · Retrying wrong answers'}
+          </span>
+          <div className="flex items-center gap-3">
+            <span className="flex items-center gap-1">
+              <Clock className="w-4 h-4" />
+              {formatSeconds(currentAnswer ? Math.round((currentAnswer.time_taken_ms || 0) / 1000) : elapsed)}
+            </span>
+            <Button variant="ghost" size="sm" onClick={onExit} className="h-7 px-2">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <Progress value={(answeredCount / mcqs.length) * 100} className="h-2" />
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          {current.difficulty && (
+            <Badge variant="outline" className="mb-4 capitalize">{current.difficulty}</Badge>
+          )}
+          <h3 className="font-semibold mb-4">{current.question}</h3>
+
+          <div className="space-y-2">
+            {current.options.map((option, optionIndex) => {
+              const isSelected = currentAnswer?.selected_answer === option;
+              const isCorrect = option === current.correct_answer;
+
+              return (
+                <Button
+                  key={optionIndex}
+                  variant={currentAnswer ? (isCorrect ? "default" : isSelected ? "destructive" : "outline") : "outline"}
+                  className="w-full justify-start h-auto p-3 whitespace-normal text-left"
+                  onClick={() => handleSelect(option)}
+                  disabled={!!currentAnswer || isSaving}
+                >
+                  <span className="font-medium mr-2">{String.fromCharCode(65 + optionIndex)}.</span>
+                  {option}
+                  {currentAnswer && isCorrect && <CheckCircle2 className="w-4 h-4 ml-auto shrink-0" />}
+                  {currentAnswer && isSelected && !isCorrect && <XCircle className="w-4 h-4 ml-auto shrink-0" />}
+                </Button>
+              );
+            })}
+          </div>
+
+          {currentAnswer && current.explanation && (
+            <div className="mt-4 p-3 bg-muted rounded-lg">
+              <p className="text-sm font-medium mb-1">Explanation:</p>
+              <p className="text-sm text-muted-foreground">{current.explanation}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleNext} disabled={!currentAnswer || isSaving} className="flex items-center gap-2">
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
+          {isLast ? 'See Results' : 'Next Question'}
+          <ArrowRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizRunner;
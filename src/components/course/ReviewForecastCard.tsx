@@ -0,0 +1,104 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ArrowRight, Brain, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { flashcardReviewService, ReviewForecast } from '@/api/services/flashcardReviewService';
+
+const chartConfig: ChartConfig = {
+  count: {
+    label: 'Reviews',
+    color: 'hsl(var(--primary))',
+  },
+};
+
+const ReviewForecastCard: React.FC = () => {
+  const { user } = useAuth();
+  const [forecast, setForecast] = useState<ReviewForecast | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadForecast = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      setForecast(await flashcardReviewService.getForecast(user.id));
+    } catch (error) {
+      console.error('Error loading review forecast:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      loadForecast();
+    }
+  }, [user, loadForecast]);
+
+  const chartData = (forecast?.days || []).map((day, index) => ({
+    day: index === 0 ? 'Today' : day.date.toLocaleDateString(undefined, { weekday: 'short' }),
+    count: day.count,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="h-5 w-5 text-primary" />
+          Flashcard Reviews
+        </CardTitle>
+        <CardDescription>Spaced repetition forecast for the next 7 days</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !forecast || forecast.totalCards === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">
+            Generate flashcards in a course to start reviewing.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold">{forecast.dueToday}</div>
+                <div className="text-xs text-muted-foreground">Due today</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{forecast.newCards}</div>
+                <div className="text-xs text-muted-foreground">New cards</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{forecast.totalCards}</div>
+                <div className="text-xs text-muted-foreground">Total cards</div>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-[160px] w-full aspect-auto">
+              <BarChart data={chartData} margin={{ left: 0, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+
+            <Button className="w-full" asChild disabled={forecast.dueToday + forecast.newCards === 0}>
+              <Link to="/review">
+                Start Review <ArrowRight className="ml-2 h-4 w-4" />
+              </Link>
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReviewForecastCard;
@@ -2,42 +2,79 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Bot, Send, User, MessageCircle, X, Minimize2, Maximize2 } from 'lucide-react';
+import { Bot, Send, User, MessageCircle, X, Minimize2, History, Lightbulb, Plus, Trash2, ChevronLeft } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { backendService } from '@/api/services/backendService';
+import { TutorConversation, getConversationContext, tutorService } from '@/api/services/tutorService';
+import {
+  HINT_LADDER,
+  MAX_HINT_LEVEL,
+  SolvedHistory,
+  TutorContext,
+  TutorMode,
+  conversationTitle,
+  getFallbackHint,
+  getFallbackResponse,
+  greeting,
+  hintLabel,
+  nextHintPrompt,
+} from '@/lib/dsaTutor';
 
 interface Message {
   id: string;
   content: string;
   isBot: boolean;
   timestamp: Date;
+  hintLevel?: number | null;
 }
 
 interface DSAChatbotProps {
   isMinimized?: boolean;
   onToggleMinimize?: () => void;
   onClose?: () => void;
+  // Topic and problem on screen, passed to the tutor with every message
+  context?: TutorContext;
+  initialMode?: TutorMode;
 }
 
-const DSAChatbot: React.FC<DSAChatbotProps> = ({ 
-  isMinimized = false, 
+const greetingMessage = (context: TutorContext, mode: TutorMode): Message => ({
+  id: 'greeting',
+  content: greeting(context, mode),
+  isBot: true,
+  timestamp: new Date(),
+});
+
+const DSAChatbot: React.FC<DSAChatbotProps> = ({
+  isMinimized = false,
   onToggleMinimize,
-  onClose 
+  onClose,
+  context = {},
+  initialMode = 'chat'
 }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      content: "Hi! I'm your DSA study assistant. I can help you with:\n\n• Algorithm explanations\n• Problem-solving strategies\n• Time & space complexity analysis\n• Code review and optimization\n• Study recommendations\n\nWhat would you like to learn today?",
-      isBot: true,
-      timestamp: new Date(),
-    }
-  ]);
+  const { user } = useAuth();
+  const [mode, setMode] = useState<TutorMode>(initialMode);
+  const [messages, setMessages] = useState<Message[]>([greetingMessage(context, initialMode)]);
+  const [conversation, setConversation] = useState<TutorConversation | null>(null);
+  const [hintLevel, setHintLevel] = useState(0);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [conversations, setConversations] = useState<TutorConversation[]>([]);
+  const [solved, setSolved] = useState<SolvedHistory | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Id the conversation is saved under; the tutor service tracks how far up
+  // the hint ladder it has gone by this id, for the conversation's owner only
+  const conversationIdRef = useRef<string>(crypto.randomUUID());
   const { toast } = useToast();
 
+  // A resumed conversation keeps the context it was started with
+  const activeContext = conversation ? getConversationContext(conversation) : context;
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -46,98 +83,185 @@ const DSAChatbot: React.FC<DSAChatbotProps> = ({
     scrollToBottom();
   }, [messages]);
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim() || isLoading) return;
+  useEffect(() => {
+    if (!user) return;
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      content: inputValue,
-      isBot: false,
-      timestamp: new Date(),
-    };
+    tutorService.getSolvedHistory(user.id)
+      .then(setSolved)
+      .catch(error => console.warn('Failed to load solved problems for the tutor:', error));
+  }, [user]);
 
-    setMessages(prev => [...prev, userMessage]);
-    setInputValue('');
-    setIsLoading(true);
+  // Stop streaming when the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const loadConversations = async () => {
+    if (!user) return;
 
     try {
-      // Call DSA chatbot service
-      const response = await fetch('http://localhost:8002/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: inputValue,
-          context: 'dsa_learning'
-        }),
+      setConversations(await tutorService.getConversations(user.id));
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    }
+  };
+
+  const startNewConversation = (nextMode: TutorMode = mode) => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    setConversation(null);
+    conversationIdRef.current = crypto.randomUUID();
+    setMode(nextMode);
+    setHintLevel(0);
+    setMessages([greetingMessage(context, nextMode)]);
+    setShowHistory(false);
+  };
+
+  const openConversation = async (item: TutorConversation) => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    try {
+      const stored = await tutorService.getMessages(item.id);
+      setConversation(item);
+      conversationIdRef.current = item.id;
+      setMode(item.mode as TutorMode);
+      setHintLevel(item.hint_level);
+      setMessages(stored.map(message => ({
+        id: message.id,
+        content: message.content,
+        isBot: message.role === 'assistant',
+        timestamp: new Date(message.created_at),
+        hintLevel: message.hint_level,
+      })));
+      setShowHistory(false);
+    } catch (error) {
+      console.error('Failed to open conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load that conversation.",
+        variant: "destructive",
       });
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error('Failed to get response from DSA assistant');
+  const deleteConversation = async (item: TutorConversation) => {
+    try {
+      await tutorService.deleteConversation(item.id);
+      setConversations(prev => prev.filter(c => c.id !== item.id));
+      if (conversation?.id === item.id) {
+        startNewConversation();
       }
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    }
+  };
+
+  // Saves the conversation on its first message. Chatting still works
+  // offline; it just isn't kept.
+  const startConversation = async (question: string): Promise<TutorConversation | null> => {
+    if (!user) return null;
+
+    try {
+      return conversation || await tutorService.createConversation(user.id, {
+        id: conversationIdRef.current,
+        title: conversationTitle(question, activeContext, mode),
+        mode,
+        context: activeContext,
+      });
+    } catch (error) {
+      console.warn('Failed to save tutor conversation:', error);
+      return null;
+    }
+  };
 
-      const result = await response.json();
-      
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: result.response || "I'm having trouble understanding that. Could you rephrase your question about DSA concepts?",
-        isBot: true,
-        timestamp: new Date(),
-      };
+  const persistExchange = async (current: TutorConversation | null, question: string, reply: string, level: number | null): Promise<TutorConversation | null> => {
+    if (!current) return null;
 
-      setMessages(prev => [...prev, botMessage]);
+    try {
+      await tutorService.addMessage(current, 'user', question);
+      await tutorService.addMessage(current, 'assistant', reply, level);
+      return { ...current, hint_level: Math.max(current.hint_level, level || 0) };
+    } catch (error) {
+      console.warn('Failed to save tutor conversation:', error);
+      return null;
+    }
+  };
+
+  const sendMessage = async (text: string, requestedLevel?: number) => {
+    if (!text.trim() || isLoading) return;
+
+    // In hint mode every reply sits on a rung; free-form questions stay on the current one
+    const level = mode === 'hints' ? requestedLevel ?? Math.max(hintLevel, 1) : null;
+    const history = messages
+      .filter(message => message.id !== 'greeting')
+      .map(message => ({ role: message.isBot ? 'assistant' as const : 'user' as const, content: message.content }));
+    const botId = `${Date.now()}-reply`;
+
+    setMessages(prev => [
+      ...prev,
+      { id: Date.now().toString(), content: text, isBot: false, timestamp: new Date() },
+      { id: botId, content: '', isBot: true, timestamp: new Date(), hintLevel: level },
+    ]);
+    setInputValue('');
+    setIsLoading(true);
+    if (level) setHintLevel(prev => Math.max(prev, level));
+
+    // The tutor only climbs the hint ladder of a saved conversation, so hint
+    // mode saves it before the first request
+    const started = mode === 'hints' ? await startConversation(text) : null;
+    if (started) setConversation(started);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const setReply = (update: (content: string) => string) =>
+      setMessages(prev => prev.map(message => (message.id === botId ? { ...message, content: update(message.content) } : message)));
+
+    let reply: string;
+    try {
+      reply = await backendService.streamDSAChat(
+        {
+          message: text,
+          history,
+          context: { ...activeContext, solved: solved || undefined },
+          mode,
+          hint_level: level || undefined,
+          conversation_id: conversationIdRef.current,
+        },
+        token => setReply(content => content + token),
+        controller.signal
+      );
+      if (!reply.trim()) {
+        reply = "I'm having trouble understanding that. Could you rephrase your question about DSA concepts?";
+        setReply(() => reply);
+      }
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error('DSA Chatbot error:', error);
-      
-      // Fallback responses for common DSA topics
-      const fallbackResponse = getFallbackResponse(inputValue);
-      
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: fallbackResponse,
-        isBot: true,
-        timestamp: new Date(),
-      };
-
-      setMessages(prev => [...prev, botMessage]);
-      
+
+      reply = level ? getFallbackHint(level, activeContext) : getFallbackResponse(text);
+      setReply(() => reply);
+
       toast({
         title: "Connection Issue",
         description: "Using offline responses. Backend service may be unavailable.",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
-  };
 
-  const getFallbackResponse = (query: string): string => {
-    const lowerQuery = query.toLowerCase();
-    
-    if (lowerQuery.includes('array') || lowerQuery.includes('sorting')) {
-      return "Arrays are fundamental data structures! For sorting:\n\n• **Bubble Sort**: O(n²) - Good for learning\n• **Quick Sort**: O(n log n) average - Very efficient\n• **Merge Sort**: O(n log n) - Stable, consistent\n\nKey tip: Practice with different array problems to master pointer techniques!";
-    }
-    
-    if (lowerQuery.includes('tree') || lowerQuery.includes('binary')) {
-      return "Binary Trees are crucial for DSA! Key concepts:\n\n• **Traversals**: Inorder, Preorder, Postorder\n• **BST Properties**: Left < Root < Right\n• **Common Problems**: Height, Diameter, LCA\n\nStart with basic traversals and build up to complex tree problems!";
-    }
-    
-    if (lowerQuery.includes('graph') || lowerQuery.includes('bfs') || lowerQuery.includes('dfs')) {
-      return "Graph algorithms are powerful! Essential ones:\n\n• **BFS**: Level-order, shortest path in unweighted graphs\n• **DFS**: Deep exploration, cycle detection\n• **Dijkstra**: Shortest path with weights\n• **Union-Find**: Connected components\n\nVisualize the graph first, then choose the right traversal method!";
-    }
-    
-    if (lowerQuery.includes('dynamic') || lowerQuery.includes('dp')) {
-      return "Dynamic Programming is all about optimization! Approach:\n\n1. **Identify**: Overlapping subproblems\n2. **Define**: State and recurrence relation\n3. **Implement**: Top-down (memoization) or bottom-up\n\nStart with Fibonacci, Climbing Stairs, then move to 2D DP problems!";
-    }
-    
-    if (lowerQuery.includes('time') || lowerQuery.includes('complexity')) {
-      return "Time Complexity Analysis:\n\n• **O(1)**: Constant - Hash operations\n• **O(log n)**: Logarithmic - Binary search\n• **O(n)**: Linear - Single loop\n• **O(n log n)**: Efficient sorting\n• **O(n²)**: Nested loops\n\nAlways analyze your solution and think about optimizations!";
+    // Keep the input locked until the exchange is saved so the next message
+    // lands in the same conversation
+    const saved = await persistExchange(started || await startConversation(text), text, reply, level);
+    if (abortRef.current === controller) {
+      abortRef.current = null;
+      if (saved) setConversation(saved);
+      setIsLoading(false);
     }
-    
-    return "Great question! DSA is all about practice and understanding patterns. Here are some general tips:\n\n• Start with easy problems and build confidence\n• Focus on understanding patterns rather than memorizing\n• Practice coding by hand sometimes\n• Explain your approach before coding\n\nWhat specific DSA topic would you like to explore?";
   };
 
+  const handleSendMessage = () => sendMessage(inputValue);
+
+  const handleNextHint = () => sendMessage(nextHintPrompt(hintLevel + 1), hintLevel + 1);
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -145,6 +269,11 @@ const DSAChatbot: React.FC<DSAChatbotProps> = ({
     }
   };
 
+  const toggleHistory = () => {
+    if (!showHistory) loadConversations();
+    setShowHistory(!showHistory);
+  };
+
   if (isMinimized) {
     return (
       <Button
@@ -158,7 +287,7 @@ const DSAChatbot: React.FC<DSAChatbotProps> = ({
   }
 
   return (
-    <Card className="fixed bottom-6 right-6 w-96 h-[32rem] shadow-2xl border-2 border-primary/20 bg-card/95 backdrop-blur-sm">
+    <Card className="fixed bottom-6 right-6 w-96 h-[36rem] shadow-2xl border-2 border-primary/20 bg-card/95 backdrop-blur-sm flex flex-col">
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <CardTitle className="flex items-center gap-2 text-lg">
@@ -168,6 +297,17 @@ const DSAChatbot: React.FC<DSAChatbotProps> = ({
             DSA Study Assistant
           </CardTitle>
           <div className="flex items-center gap-1">
+            {user && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={toggleHistory}
+                className="w-8 h-8 p-0"
+                title="Conversation history"
+              >
+                <History className="w-4 h-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -186,81 +326,188 @@ const DSAChatbot: React.FC<DSAChatbotProps> = ({
             </Button>
           </div>
         </div>
+        {!showHistory && (
+          <div className="flex items-center gap-2 pt-2">
+            <Button
+              variant={mode === 'chat' ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => mode !== 'chat' && startNewConversation('chat')}
+            >
+              <MessageCircle className="w-3 h-3 mr-1" />
+              Chat
+            </Button>
+            <Button
+              variant={mode === 'hints' ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => mode !== 'hints' && startNewConversation('hints')}
+            >
+              <Lightbulb className="w-3 h-3 mr-1" />
+              Hints
+            </Button>
+            {(activeContext.problem || activeContext.topic) && (
+              <Badge variant="secondary" className="ml-auto text-xs max-w-[9rem] truncate">
+                {activeContext.problem?.name || activeContext.topic?.title}
+              </Badge>
+            )}
+          </div>
+        )}
       </CardHeader>
-      
-      <CardContent className="p-0 flex flex-col h-[calc(100%-5rem)]">
-        <ScrollArea className="flex-1 px-4">
-          <div className="space-y-4 pb-4">
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex gap-3 ${message.isBot ? '' : 'flex-row-reverse'}`}
-              >
-                <Avatar className="w-8 h-8 flex-shrink-0">
-                  <AvatarFallback className={message.isBot ? 'bg-primary/10' : 'bg-secondary/10'}>
-                    {message.isBot ? <Bot className="w-4 h-4" /> : <User className="w-4 h-4" />}
-                  </AvatarFallback>
-                </Avatar>
-                <div
-                  className={`rounded-lg px-3 py-2 max-w-[80%] ${
-                    message.isBot
-                      ? 'bg-muted text-foreground'
-                      : 'bg-primary text-primary-foreground ml-auto'
-                  }`}
-                >
-                  <div className="text-sm whitespace-pre-wrap">{message.content}</div>
-                  <div className="text-xs opacity-70 mt-1">
-                    {message.timestamp.toLocaleTimeString([], { 
-                      hour: '2-digit', 
-                      minute: '2-digit' 
-                    })}
-                  </div>
+
+      <CardContent className="p-0 flex flex-col flex-1 min-h-0">
+        {showHistory ? (
+          <>
+            <div className="flex items-center justify-between px-4 pb-2">
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setShowHistory(false)}>
+                <ChevronLeft className="w-3 h-3 mr-1" />
+                Back
+              </Button>
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => startNewConversation()}>
+                <Plus className="w-3 h-3 mr-1" />
+                New chat
+              </Button>
+            </div>
+            <ScrollArea className="flex-1 px-4">
+              {conversations.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No saved conversations yet.</p>
+              ) : (
+                <div className="space-y-2 pb-4">
+                  {conversations.map(item => (
+                    <div
+                      key={item.id}
+                      className={`group flex items-start gap-2 rounded-md border p-2 cursor-pointer hover:bg-muted/50 ${
+                        conversation?.id === item.id ? 'border-primary/50' : ''
+                      }`}
+                      onClick={() => openConversation(item)}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium truncate">{item.title}</div>
+                        <div className="text-xs text-muted-foreground flex items-center gap-2">
+                          {new Date(item.updated_at).toLocaleDateString()}
+                          {item.mode === 'hints' && (
+                            <span className="flex items-center gap-1">
+                              <Lightbulb className="w-3 h-3" />
+                              {item.hint_level}/{MAX_HINT_LEVEL}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-7 h-7 p-0 opacity-0 group-hover:opacity-100"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteConversation(item);
+                        }}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ))}
                 </div>
-              </div>
-            ))}
-            {isLoading && (
-              <div className="flex gap-3">
-                <Avatar className="w-8 h-8">
-                  <AvatarFallback className="bg-primary/10">
-                    <Bot className="w-4 h-4" />
-                  </AvatarFallback>
-                </Avatar>
-                <div className="bg-muted rounded-lg px-3 py-2">
-                  <div className="flex space-x-1">
-                    <div className="w-2 h-2 bg-primary rounded-full animate-bounce"></div>
-                    <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                    <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+              )}
+            </ScrollArea>
+          </>
+        ) : (
+          <>
+            <ScrollArea className="flex-1 px-4">
+              <div className="space-y-4 pb-4">
+                {messages.map((message) => (
+                  <div
+                    key={message.id}
+                    className={`flex gap-3 ${message.isBot ? '' : 'flex-row-reverse'}`}
+                  >
+                    <Avatar className="w-8 h-8 flex-shrink-0">
+                      <AvatarFallback className={message.isBot ? 'bg-primary/10' : 'bg-secondary/10'}>
+                        {message.isBot ? <Bot className="w-4 h-4" /> : <User className="w-4 h-4" />}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div
+                      className={`rounded-lg px-3 py-2 max-w-[80%] ${
+                        message.isBot
+                          ? 'bg-muted text-foreground'
+                          : 'bg-primary text-primary-foreground ml-auto'
+                      }`}
+                    >
+                      {message.isBot && message.hintLevel && (
+                        <div className="text-xs font-medium text-primary mb-1 flex items-center gap-1">
+                          <Lightbulb className="w-3 h-3" />
+                          Hint {message.hintLevel}: {hintLabel(message.hintLevel)}
+                        </div>
+                      )}
+                      {message.content ? (
+                        <div className="text-sm whitespace-pre-wrap">{message.content}</div>
+                      ) : (
+                        <div className="flex space-x-1 py-1">
+                          <div className="w-2 h-2 bg-primary rounded-full animate-bounce"></div>
+                          <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                          <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                        </div>
+                      )}
+                      <div className="text-xs opacity-70 mt-1">
+                        {message.timestamp.toLocaleTimeString([], {
+                          hour: '2-digit',
+                          minute: '2-digit'
+                        })}
+                      </div>
+                    </div>
                   </div>
+                ))}
+                <div ref={messagesEndRef} />
+              </div>
+            </ScrollArea>
+
+            {mode === 'hints' && (
+              <div className="px-4 pt-3 border-t flex items-center gap-2">
+                <div className="flex gap-1 flex-1">
+                  {HINT_LADDER.map(rung => (
+                    <div
+                      key={rung.level}
+                      title={rung.label}
+                      className={`h-1.5 flex-1 rounded-full ${rung.level <= hintLevel ? 'bg-primary' : 'bg-muted'}`}
+                    />
+                  ))}
                 </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={handleNextHint}
+                  disabled={isLoading || hintLevel >= MAX_HINT_LEVEL}
+                >
+                  <Lightbulb className="w-3 h-3 mr-1" />
+                  {hintLevel >= MAX_HINT_LEVEL ? 'All hints shown' : `Next hint: ${hintLabel(hintLevel + 1)}`}
+                </Button>
               </div>
             )}
-            <div ref={messagesEndRef} />
-          </div>
-        </ScrollArea>
-        
-        <div className="p-4 border-t">
-          <div className="flex gap-2">
-            <Input
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="Ask about algorithms, data structures..."
-              disabled={isLoading}
-              className="flex-1"
-            />
-            <Button
-              onClick={handleSendMessage}
-              disabled={!inputValue.trim() || isLoading}
-              size="sm"
-              className="px-3"
-            >
-              <Send className="w-4 h-4" />
-            </Button>
-          </div>
-        </div>
+
+            <div className="p-4 border-t">
+              <div className="flex gap-2">
+                <Input
+                  value={inputValue}
+                  onChange={(e) => setInputValue(e.target.value)}
+                  onKeyPress={handleKeyPress}
+                  placeholder={mode === 'hints' ? "Tell me what you've tried..." : "Ask about algorithms, data structures..."}
+                  disabled={isLoading}
+                  className="flex-1"
+                />
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={!inputValue.trim() || isLoading}
+                  size="sm"
+                  className="px-3"
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
 };
 
-export default DSAChatbot;
\ No newline at end of file
+export default DSAChatbot;
@@ -0,0 +1,317 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CheckCircle2, XCircle, Play, Send, Loader2, Lock, History, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { ProblemSpec } from '@/data/problemSpecs';
+import {
+  JUDGE_LANGUAGES,
+  JudgeResult,
+  LANGUAGE_LABELS,
+  RunnerLanguage,
+  TestCaseResult,
+  getStarterCode,
+  getSupportedLanguages,
+  judgeSolution,
+} from '@/lib/codeRunner';
+import { CodeSubmission, submissionService } from '@/api/services/submissionService';
+
+interface ProblemSolverProps {
+  problem: { name: string; url: string; difficulty?: string };
+  spec: ProblemSpec;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSolved?: () => void;
+}
+
+const formatValue = (value: unknown) => JSON.stringify(value);
+
+const getSubmissionCases = (submission: CodeSubmission): TestCaseResult[] => {
+  const results = submission.test_results as { cases?: TestCaseResult[] } | null;
+  return Array.isArray(results?.cases) ? results.cases : [];
+};
+
+const ProblemSolver: React.FC<ProblemSolverProps> = ({ problem, spec, open, onOpenChange, onSolved }) => {
+  const { user } = useAuth();
+  const languages = JUDGE_LANGUAGES.filter(lang => getSupportedLanguages().includes(lang));
+  const [language, setLanguage] = useState<RunnerLanguage>('javascript');
+  const [code, setCode] = useState(() => getStarterCode(spec, 'javascript'));
+  const [result, setResult] = useState<JudgeResult | null>(null);
+  const [mode, setMode] = useState<'run' | 'submit' | null>(null);
+  const [submissions, setSubmissions] = useState<CodeSubmission[]>([]);
+  const resultRef = useRef(result);
+  resultRef.current = result;
+
+  const loadSubmissions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const data = await submissionService.getProblemSubmissions(user.id, spec.key);
+      setSubmissions(data);
+
+      // Pick up where the user left off
+      if (data.length > 0 && !resultRef.current) {
+        setLanguage(data[0].language as RunnerLanguage);
+        setCode(data[0].code);
+      }
+    } catch (error) {
+      console.error('Error loading submissions:', error);
+    }
+  }, [user, spec.key]);
+
+  useEffect(() => {
+    if (open && user) {
+      loadSubmissions();
+    }
+  }, [open, user, loadSubmissions]);
+
+  const changeLanguage = (value: RunnerLanguage) => {
+    setLanguage(value);
+    setCode(getStarterCode(spec, value));
+    setResult(null);
+  };
+
+  const handleRun = async (includeHidden: boolean) => {
+    setMode(includeHidden ? 'submit' : 'run');
+    setResult(null);
+
+    try {
+      const judged = await judgeSolution(spec, code, language, { includeHidden });
+      setResult(judged);
+
+      if (!includeHidden) return;
+
+      if (user) {
+        try {
+          const saved = await submissionService.saveProblemSubmission(user.id, spec.key, judged);
+          setSubmissions(prev => [saved, ...prev]);
+        } catch (error) {
+          console.error('Error saving submission:', error);
+          toast.error('Failed to save your submission');
+        }
+      }
+
+      if (judged.status === 'passed') {
+        toast.success(`All ${judged.total_count} tests passed!`);
+        onSolved?.();
+      } else {
+        toast.error(`${judged.passed_count}/${judged.total_count} tests passed`);
+      }
+    } catch (error) {
+      console.error('Error running solution:', error);
+      toast.error(includeHidden ? 'Failed to submit your solution' : 'Failed to run your code');
+    } finally {
+      setMode(null);
+    }
+  };
+
+  const visibleCases = spec.testCases.filter(c => !c.hidden);
+  const hiddenCount = spec.testCases.length - visibleCases.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {spec.title}
+            {problem.difficulty && (
+              <Badge
+                className={`text-xs ${
+                  problem.difficulty === 'Easy' ? 'badge-easy' :
+                  problem.difficulty === 'Medium' ? 'badge-medium' :
+                  'badge-hard'
+                }`}
+              >
+                {problem.difficulty}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {visibleCases.length} sample tests, {hiddenCount} hidden tests
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 min-h-0 flex-1">
+          <ScrollArea className="h-[65vh] pr-3">
+            <div className="space-y-4 text-sm">
+              <p className="leading-relaxed">{spec.statement}</p>
+
+              {spec.constraints && spec.constraints.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-1">Constraints</h4>
+                  <ul className="list-disc list-inside text-muted-foreground">
+                    {spec.constraints.map(constraint => (
+                      <li key={constraint} className="font-mono text-xs">{constraint}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="font-medium">Examples</h4>
+                {visibleCases.map((testCase, index) => (
+                  <div key={index} className="bg-muted rounded-md p-3 font-mono text-xs space-y-1">
+                    <div>
+                      <span className="text-muted-foreground">Input: </span>
+                      {spec.params.map((param, i) => `${param.name} = ${formatValue(testCase.input[i])}`).join(', ')}
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Output: </span>
+                      {formatValue(testCase.expected)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {submissions.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium flex items-center gap-2">
+                    <History className="w-4 h-4" />
+                    Submissions
+                  </h4>
+                  {submissions.map(submission => {
+                    const cases = getSubmissionCases(submission);
+                    return (
+                      <div key={submission.id} className="flex items-center gap-2 text-xs">
+                        <Badge variant={submission.status === 'passed' ? 'default' : 'destructive'} className="text-xs">
+                          {submission.status}
+                        </Badge>
+                        <span>{cases.filter(c => c.passed).length}/{cases.length} tests</span>
+                        <span className="text-muted-foreground">
+                          {LANGUAGE_LABELS[submission.language as RunnerLanguage] || submission.language}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {new Date(submission.created_at).toLocaleString()}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="ml-auto h-6 px-2"
+                          onClick={() => {
+                            setLanguage(submission.language as RunnerLanguage);
+                            setCode(submission.code);
+                          }}
+                        >
+                          Load
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+
+          <div className="flex flex-col gap-3 min-h-0">
+            <div className="flex items-center gap-2">
+              <Select value={language} onValueChange={(value) => changeLanguage(value as RunnerLanguage)}>
+                <SelectTrigger className="w-[140px] h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {languages.map(lang => (
+                    <SelectItem key={lang} value={lang}>{LANGUAGE_LABELS[lang]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setCode(getStarterCode(spec, language))}
+                title="Reset to starter code"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+              <div className="ml-auto flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleRun(false)} disabled={mode !== null}>
+                  {mode === 'run' ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Play className="mr-1 h-3 w-3" />}
+                  Run
+                </Button>
+                <Button size="sm" onClick={() => handleRun(true)} disabled={mode !== null}>
+                  {mode === 'submit' ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Send className="mr-1 h-3 w-3" />}
+                  Submit
+                </Button>
+              </div>
+            </div>
+
+            <Textarea
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              spellCheck={false}
+              className="min-h-[260px] flex-1 font-mono text-sm"
+            />
+
+            {result && (
+              <ScrollArea className="max-h-[220px] bg-muted rounded-md p-3">
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {result.status === 'passed' ? (
+                      <CheckCircle2 className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-destructive" />
+                    )}
+                    {result.passed_count}/{result.total_count} tests passed
+                    {result.execution_time !== null && (
+                      <span className="ml-auto text-xs text-muted-foreground">{result.execution_time} ms</span>
+                    )}
+                  </div>
+
+                  {result.cases.map(testCase => (
+                    <div key={testCase.index} className="text-xs font-mono border-t border-border pt-2">
+                      <div className="flex items-center gap-2">
+                        {testCase.passed ? (
+                          <CheckCircle2 className="w-3 h-3 text-green-600" />
+                        ) : (
+                          <XCircle className="w-3 h-3 text-destructive" />
+                        )}
+                        <span>Test {testCase.index + 1}</span>
+                        {testCase.hidden && <Lock className="w-3 h-3 text-muted-foreground" />}
+                        {testCase.time_ms !== undefined && (
+                          <span className="ml-auto text-muted-foreground">{testCase.time_ms} ms</span>
+                        )}
+                      </div>
+                      {!testCase.hidden && !testCase.passed && (
+                        <div className="pl-5 mt-1 space-y-0.5 text-muted-foreground">
+                          <div>Input: {formatValue(testCase.input)}</div>
+                          <div>Expected: {formatValue(testCase.expected)}</div>
+                          {testCase.output !== undefined && <div>Got: {formatValue(testCase.output)}</div>}
+                        </div>
+                      )}
+                      {testCase.error && <div className="pl-5 mt-1 text-destructive">{testCase.error}</div>}
+                    </div>
+                  ))}
+
+                  {result.stdout && (
+                    <pre className="text-xs whitespace-pre-wrap border-t border-border pt-2">{result.stdout}</pre>
+                  )}
+                  {result.stderr && (
+                    <pre className="text-xs whitespace-pre-wrap text-destructive border-t border-border pt-2">{result.stderr}</pre>
+                  )}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProblemSolver;
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronLeft, Loader2, MessageSquare, Users } from "lucide-react";
+import GlassMorphism from "@/components/ui/GlassMorphism";
+import { BehavioralCompetency, behavioralCompetencies } from "@/data/behavioralQuestions";
+import { InterviewSetupOptions } from "@/context/InterviewContext";
+import StoryBank from "./StoryBank";
+
+interface BehavioralInterviewSetupProps {
+  onSubmit: (role: string, techStack: string, experience: string, options: InterviewSetupOptions) => void;
+  onBack: () => void;
+  isLoading?: boolean;
+}
+
+const experienceOptions = [
+  { value: "0-1", label: "0-1 years" },
+  { value: "1-3", label: "1-3 years" },
+  { value: "3-5", label: "3-5 years" },
+  { value: "5+", label: "5+ years" }
+];
+
+const BehavioralInterviewSetup = ({ onSubmit, onBack, isLoading }: BehavioralInterviewSetupProps) => {
+  const [role, setRole] = useState("");
+  const [experience, setExperience] = useState("1-3");
+  const [competencies, setCompetencies] = useState<BehavioralCompetency[]>(
+    behavioralCompetencies.map(competency => competency.id)
+  );
+
+  const toggleCompetency = (competency: BehavioralCompetency) => {
+    setCompetencies(prev =>
+      prev.includes(competency) ? prev.filter(item => item !== competency) : [...prev, competency]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(role.trim() || "Software Engineer", "", experience, { competencies });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onBack}
+          className="text-muted-foreground"
+        >
+          <ChevronLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <div>
+          <h2 className="text-2xl font-bold">Behavioral Interview Setup</h2>
+          <p className="text-muted-foreground">
+            Practice telling stories about your experience using the STAR method
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <MessageSquare className="h-4 w-4" />
+                The STAR Method
+              </CardTitle>
+              <CardDescription>
+                Each answer is checked for all four parts
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2 text-sm">
+                <li><span className="font-medium">Situation</span> - where you were and what was going on</li>
+                <li><span className="font-medium">Task</span> - what you were responsible for</li>
+                <li><span className="font-medium">Action</span> - the specific steps you took</li>
+                <li><span className="font-medium">Result</span> - the outcome, ideally measured</li>
+              </ul>
+              <p className="text-xs text-muted-foreground mt-3">
+                If an answer skips a part, the interviewer will ask a follow-up about it.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2">
+          <GlassMorphism className="p-6">
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Interview Configuration
+                </h3>
+              </div>
+
+              <div className="space-y-3">
+                <Label htmlFor="behavioral-role" className="text-base font-medium">Target Job Role</Label>
+                <Input
+                  id="behavioral-role"
+                  placeholder="e.g. Software Engineer, Engineering Manager"
+                  value={role}
+                  onChange={(e) => setRole(e.target.value)}
+                  className="w-full"
+                />
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-base font-medium">Competencies</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {behavioralCompetencies.map((competency) => (
+                    <Button
+                      key={competency.id}
+                      type="button"
+                      variant={competencies.includes(competency.id) ? "default" : "outline"}
+                      className="h-auto p-4 flex flex-col items-start text-left whitespace-normal"
+                      onClick={() => toggleCompetency(competency.id)}
+                    >
+                      <span className="font-medium">{competency.label}</span>
+                      <span className="text-xs text-muted-foreground mt-1">{competency.description}</span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-base font-medium">Experience Level</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {experienceOptions.map((option) => (
+                    <Button
+                      key={option.value}
+                      type="button"
+                      variant={experience === option.value ? "default" : "outline"}
+                      onClick={() => setExperience(option.value)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isLoading || competencies.length === 0}
+                className="w-full h-12 text-lg"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    Preparing Questions...
+                  </>
+                ) : (
+                  "Start Behavioral Interview"
+                )}
+              </Button>
+            </form>
+          </GlassMorphism>
+        </div>
+      </div>
+
+      <StoryBank />
+    </div>
+  );
+};
+
+export default BehavioralInterviewSetup;
@@ -0,0 +1,268 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Loader2, Play, Timer, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import VideoRecorder from "./VideoRecorder";
+import { FacialAnalysisSample, InterviewQuestionType } from "@/types";
+import { getProblemSpecByKey } from "@/data/problemSpecs";
+import {
+  JUDGE_LANGUAGES,
+  JudgeResult,
+  LANGUAGE_LABELS,
+  RunnerLanguage,
+  getStarterCode,
+  getSupportedLanguages,
+  judgeSolution,
+} from "@/lib/codeRunner";
+import { CodingSession, createTimelineRecorder } from "@/lib/codingSession";
+
+interface CodingRoundProps {
+  question: InterviewQuestionType;
+  isRecording: boolean;
+  startRecording: () => void;
+  stopRecording: () => void;
+  onRecordingComplete: (blob: Blob, facialSamples: FacialAnalysisSample[], codingSession: CodingSession) => void;
+}
+
+const DEFAULT_TIME_LIMIT_SECONDS = 20 * 60;
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.max(0, seconds % 60)).padStart(2, "0")}`;
+
+const formatValue = (value: unknown) => JSON.stringify(value);
+
+// Live coding answer: the problem, a timed editor and the camera side by side.
+// Every edit is timestamped against the recording so the result page can
+// replay the session in step with the video.
+const CodingRound = ({ question, isRecording, startRecording, stopRecording, onRecordingComplete }: CodingRoundProps) => {
+  const { toast } = useToast();
+  const spec = question.problem_key ? getProblemSpecByKey(question.problem_key) : undefined;
+  const languages = JUDGE_LANGUAGES.filter(lang => getSupportedLanguages().includes(lang));
+  const timeLimit = question.time_limit_seconds || DEFAULT_TIME_LIMIT_SECONDS;
+
+  const [language, setLanguage] = useState<RunnerLanguage>("javascript");
+  const [code, setCode] = useState(() => (spec ? getStarterCode(spec, "javascript") : ""));
+  const [sampleResult, setSampleResult] = useState<JudgeResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isJudging, setIsJudging] = useState(false);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [remaining, setRemaining] = useState(timeLimit);
+
+  const recorderRef = useRef(createTimelineRecorder(language, code));
+  const codeRef = useRef(code);
+  const languageRef = useRef(language);
+  // The parent passes a new stopRecording on every render; the countdown
+  // reads the latest one without restarting
+  const stopRecordingRef = useRef(stopRecording);
+  codeRef.current = code;
+  languageRef.current = language;
+  stopRecordingRef.current = stopRecording;
+
+  useEffect(() => {
+    if (isRecording) {
+      recorderRef.current.start();
+      setStartedAt(Date.now());
+    }
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (!isRecording || startedAt === null) return;
+
+    const timer = setInterval(() => {
+      const left = timeLimit - Math.floor((Date.now() - startedAt) / 1000);
+      setRemaining(Math.max(0, left));
+      if (left <= 0) {
+        clearInterval(timer);
+        toast({ title: "Time's Up", description: "Your solution is being tested now." });
+        stopRecordingRef.current();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isRecording, startedAt, timeLimit, toast]);
+
+  if (!spec) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          This coding problem is no longer available. Skip to the next question.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const updateCode = (next: string) => {
+    setCode(next);
+    recorderRef.current.change(next);
+  };
+
+  const changeLanguage = (value: RunnerLanguage) => {
+    const starter = getStarterCode(spec, value);
+    setLanguage(value);
+    setCode(starter);
+    setSampleResult(null);
+    recorderRef.current.reset(value, starter);
+  };
+
+  // Tab indents instead of moving focus out of the editor
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== "Tab") return;
+
+    e.preventDefault();
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    updateCode(`${code.slice(0, selectionStart)}  ${code.slice(selectionEnd)}`);
+    requestAnimationFrame(() => {
+      target.selectionStart = target.selectionEnd = selectionStart + 2;
+    });
+  };
+
+  const runSamples = async () => {
+    setIsRunning(true);
+    try {
+      const judged = await judgeSolution(spec, code, language);
+      setSampleResult(judged);
+      recorderRef.current.run(judged.passed_count, judged.total_count, judged.status);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // The final run includes hidden tests; the answer is saved either way
+  const handleRecordingComplete = async (blob: Blob, facialSamples: FacialAnalysisSample[]) => {
+    setIsJudging(true);
+    let result: CodingSession["result"] = null;
+
+    try {
+      const judged = await judgeSolution(spec, codeRef.current, languageRef.current, { includeHidden: true });
+      recorderRef.current.run(judged.passed_count, judged.total_count, judged.status);
+      result = {
+        status: judged.status,
+        passed_count: judged.passed_count,
+        total_count: judged.total_count,
+        cases: judged.cases
+      };
+    } catch (error) {
+      console.error("Error running final tests:", error);
+    } finally {
+      setIsJudging(false);
+    }
+
+    onRecordingComplete(blob, facialSamples, recorderRef.current.finish(spec.key, timeLimit, result));
+  };
+
+  const visibleCases = spec.testCases.filter(testCase => !testCase.hidden);
+  const canEdit = isRecording && !isJudging;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+      <div className="lg:col-span-3 space-y-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-lg">{spec.title}</CardTitle>
+              <Badge variant={remaining <= 60 && isRecording ? "destructive" : "outline"} className="flex items-center gap-1">
+                <Timer className="h-3 w-3" />
+                {formatClock(remaining)}
+              </Badge>
+            </div>
+            <CardDescription>{spec.statement}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {spec.constraints && spec.constraints.length > 0 && (
+              <ul className="list-disc list-inside text-muted-foreground text-xs font-mono">
+                {spec.constraints.map(constraint => (
+                  <li key={constraint}>{constraint}</li>
+                ))}
+              </ul>
+            )}
+            {visibleCases.map((testCase, index) => (
+              <div key={index} className="bg-muted rounded-md p-2 font-mono text-xs">
+                <span className="text-muted-foreground">Input: </span>
+                {spec.params.map((param, i) => `${param.name} = ${formatValue(testCase.input[i])}`).join(", ")}
+                <span className="text-muted-foreground"> → </span>
+                {formatValue(testCase.expected)}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="flex items-center gap-2">
+          <Select value={language} onValueChange={(value) => changeLanguage(value as RunnerLanguage)} disabled={!canEdit}>
+            <SelectTrigger className="w-[140px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {languages.map(lang => (
+                <SelectItem key={lang} value={lang}>{LANGUAGE_LABELS[lang]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="ml-auto" onClick={runSamples} disabled={!canEdit || isRunning}>
+            {isRunning ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Play className="mr-1 h-3 w-3" />}
+            Run Samples
+          </Button>
+        </div>
+
+        <Textarea
+          value={code}
+          onChange={(e) => updateCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          readOnly={!canEdit}
+          spellCheck={false}
+          className="min-h-[320px] font-mono text-sm"
+        />
+        {!isRecording && !isJudging && (
+          <p className="text-xs text-muted-foreground">
+            Start recording to unlock the editor. The timer starts with the recording.
+          </p>
+        )}
+
+        {isJudging && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Running all tests...
+          </div>
+        )}
+
+        {sampleResult && !isJudging && (
+          <div className="bg-muted rounded-md p-3 space-y-1 text-xs font-mono">
+            <div className="flex items-center gap-2 text-sm font-sans font-medium">
+              {sampleResult.status === "passed" ? (
+                <CheckCircle2 className="w-4 h-4 text-green-600" />
+              ) : (
+                <XCircle className="w-4 h-4 text-destructive" />
+              )}
+              {sampleResult.passed_count}/{sampleResult.total_count} sample tests passed
+            </div>
+            {sampleResult.cases.filter(testCase => !testCase.passed).map(testCase => (
+              <div key={testCase.index} className="text-muted-foreground">
+                Test {testCase.index + 1}: {testCase.error || `expected ${formatValue(testCase.expected)}, got ${formatValue(testCase.output)}`}
+              </div>
+            ))}
+            {sampleResult.stderr && <pre className="whitespace-pre-wrap text-destructive">{sampleResult.stderr}</pre>}
+          </div>
+        )}
+      </div>
+
+      <div className="lg:col-span-2 space-y-4">
+        <VideoRecorder
+          onRecordingComplete={handleRecordingComplete}
+          isRecording={isRecording}
+          startRecording={startRecording}
+          stopRecording={stopRecording}
+        />
+        <p className="text-sm text-muted-foreground">
+          Explain your approach out loud while you code, as you would with an interviewer. Stop the recording when you are done;
+          your solution is then run against all tests, including hidden ones.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CodingRound;
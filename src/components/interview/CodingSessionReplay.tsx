@@ -0,0 +1,240 @@
+import { RefObject, useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { CheckCircle2, Lock, Pause, Play, XCircle } from "lucide-react";
+import { LANGUAGE_LABELS } from "@/lib/codeRunner";
+import { CodingSession, createReplayCursor, summarizeActivity } from "@/lib/codingSession";
+import { getProblemSpecByKey } from "@/data/problemSpecs";
+
+interface CodingSessionReplayProps {
+  session: CodingSession;
+  // The answer's clip; when present the replay follows its playback position
+  videoRef: RefObject<HTMLVideoElement>;
+  hasVideo: boolean;
+}
+
+const PLAYBACK_TICK_MS = 100;
+
+const formatMs = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const formatValue = (value: unknown) => JSON.stringify(value);
+
+const CodingSessionReplay = ({ session, videoRef, hasVideo }: CodingSessionReplayProps) => {
+  const [positionMs, setPositionMs] = useState(session.duration_ms);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const cursor = useMemo(() => createReplayCursor(session), [session]);
+  const activity = useMemo(() => summarizeActivity(session), [session]);
+  const spec = getProblemSpecByKey(session.problem_key);
+  const duration = Math.max(session.duration_ms, 1);
+  const maxBucket = Math.max(...activity.buckets, 1);
+
+  const view = cursor.seek(positionMs);
+  const caret = view.lastEvent?.type === "edit" ? view.lastEvent.from + view.lastEvent.text.length : null;
+  const result = session.result;
+
+  // Follow the clip: every frame while it plays, and on every seek
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !hasVideo) return;
+
+    let frame: number | null = null;
+    const sync = () => setPositionMs(video.currentTime * 1000);
+    const loop = () => {
+      sync();
+      frame = requestAnimationFrame(loop);
+    };
+    const onPlay = () => {
+      setIsPlaying(true);
+      if (frame === null) loop();
+    };
+    const onPause = () => {
+      setIsPlaying(false);
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      sync();
+    };
+
+    video.addEventListener("play", onPlay);
+    video.addEventListener("pause", onPause);
+    video.addEventListener("ended", onPause);
+    video.addEventListener("seeked", sync);
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      video.removeEventListener("play", onPlay);
+      video.removeEventListener("pause", onPause);
+      video.removeEventListener("ended", onPause);
+      video.removeEventListener("seeked", sync);
+    };
+  }, [videoRef, hasVideo]);
+
+  // Without a clip the replay runs on its own clock
+  useEffect(() => {
+    if (hasVideo || !isPlaying) return;
+
+    const timer = setInterval(() => {
+      setPositionMs(prev => {
+        const next = prev + PLAYBACK_TICK_MS;
+        if (next >= duration) {
+          setIsPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [hasVideo, isPlaying, duration]);
+
+  const seek = (ms: number) => {
+    const video = videoRef.current;
+    if (hasVideo && video) {
+      video.currentTime = ms / 1000;
+    }
+    setPositionMs(ms);
+  };
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (hasVideo && video) {
+      if (video.paused) {
+        video.play().catch(() => {
+          // Autoplay can be blocked; the user can press play on the clip
+        });
+      } else {
+        video.pause();
+      }
+      return;
+    }
+
+    if (!isPlaying && positionMs >= duration) {
+      setPositionMs(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-medium">Coding Session{spec ? `: ${spec.title}` : ""}</h3>
+        {result ? (
+          <Badge className={result.status === "passed" ? "bg-green-500" : "bg-red-500"}>
+            {result.passed_count}/{result.total_count} tests passed
+          </Badge>
+        ) : (
+          <Badge variant="outline">Not tested</Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+        <div className="rounded-md border p-2">
+          <div className="text-muted-foreground text-xs">Time used</div>
+          <div className="font-medium">{formatMs(session.duration_ms)} / {formatMs(session.time_limit_seconds * 1000)}</div>
+        </div>
+        <div className="rounded-md border p-2">
+          <div className="text-muted-foreground text-xs">First keystroke</div>
+          <div className="font-medium">{activity.firstEditMs !== null ? formatMs(activity.firstEditMs) : "—"}</div>
+        </div>
+        <div className="rounded-md border p-2">
+          <div className="text-muted-foreground text-xs">Test runs</div>
+          <div className="font-medium">{activity.runCount}</div>
+        </div>
+        <div className="rounded-md border p-2">
+          <div className="text-muted-foreground text-xs">Longest pause</div>
+          <div className="font-medium">{formatMs(activity.longestIdleMs)}</div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="relative flex items-end gap-px h-10">
+          {activity.buckets.map((count, i) => (
+            <button
+              key={i}
+              type="button"
+              title={formatMs(i * activity.bucketMs)}
+              onClick={() => seek(i * activity.bucketMs)}
+              className={`flex-1 rounded-sm ${i * activity.bucketMs <= positionMs ? "bg-primary/70" : "bg-primary/20"}`}
+              style={{ height: `${Math.max(6, (count / maxBucket) * 100)}%` }}
+            />
+          ))}
+          {session.events.map((event, i) => event.type === "run" && (
+            <button
+              key={`run-${i}`}
+              type="button"
+              title={`Run at ${formatMs(event.t)}: ${event.passed}/${event.total}`}
+              onClick={() => seek(event.t)}
+              className={`absolute top-0 h-full w-0.5 ${event.passed === event.total ? "bg-green-500" : "bg-red-500"}`}
+              style={{ left: `${Math.min(100, (event.t / duration) * 100)}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={togglePlayback}>
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Slider
+            value={[Math.min(positionMs, duration)]}
+            max={duration}
+            step={100}
+            onValueChange={([value]) => seek(value)}
+          />
+          <span className="font-mono text-xs text-muted-foreground shrink-0">
+            {formatMs(positionMs)} / {formatMs(duration)}
+          </span>
+        </div>
+      </div>
+
+      <div className="rounded-md border bg-muted/30">
+        <div className="flex justify-between px-3 py-1 border-b text-xs text-muted-foreground">
+          <span>{LANGUAGE_LABELS[view.language] || view.language}</span>
+          {view.lastEvent?.type === "run" && (
+            <span>
+              Ran tests: {view.lastEvent.passed}/{view.lastEvent.total} passed
+            </span>
+          )}
+        </div>
+        <pre className="p-3 text-sm font-mono overflow-x-auto max-h-[360px] whitespace-pre">
+          {caret !== null ? (
+            <>
+              {view.code.slice(0, caret)}
+              <span className="inline-block w-0.5 h-4 -mb-0.5 bg-primary animate-pulse" />
+              {view.code.slice(caret)}
+            </>
+          ) : (
+            view.code
+          )}
+        </pre>
+      </div>
+
+      {result && result.cases.some(testCase => !testCase.passed) && (
+        <div className="space-y-1 text-xs font-mono">
+          {result.cases.filter(testCase => !testCase.passed).map(testCase => (
+            <div key={testCase.index} className="flex items-start gap-2">
+              <XCircle className="w-3 h-3 text-destructive mt-0.5 shrink-0" />
+              <span>Test {testCase.index + 1}</span>
+              {testCase.hidden ? (
+                <Lock className="w-3 h-3 text-muted-foreground mt-0.5" />
+              ) : (
+                <span className="text-muted-foreground">
+                  {testCase.error || `input ${formatValue(testCase.input)}: expected ${formatValue(testCase.expected)}, got ${formatValue(testCase.output)}`}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {result?.status === "passed" && (
+        <div className="flex items-center gap-2 text-sm text-green-600">
+          <CheckCircle2 className="w-4 h-4" />
+          All tests passed, including hidden ones.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodingSessionReplay;
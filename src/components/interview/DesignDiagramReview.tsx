@@ -0,0 +1,79 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, Circle } from "lucide-react";
+import DesignWhiteboard from "./DesignWhiteboard";
+import { getSystemDesignPrompt } from "@/data/systemDesignPrompts";
+import { DesignDiagram, DesignEvaluation } from "@/lib/systemDesign";
+
+interface DesignDiagramReviewProps {
+  diagram: DesignDiagram;
+  evaluation: DesignEvaluation | null;
+}
+
+const scoreBadgeClass = (score: number) =>
+  score >= 80 ? "bg-green-500" : score >= 60 ? "bg-amber-500" : "bg-red-500";
+
+// Read-only whiteboard from a design answer next to the rubric checklist
+const DesignDiagramReview = ({ diagram, evaluation }: DesignDiagramReviewProps) => {
+  const prompt = getSystemDesignPrompt(diagram.prompt_key);
+  const componentLabel = (id: string) => prompt?.components.find(component => component.id === id)?.label || id;
+  const matchedIds = evaluation ? evaluation.components.flatMap(component => component.nodeIds) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-medium">Whiteboard{prompt ? `: ${prompt.title}` : ""}</h3>
+        {evaluation && (
+          <Badge className={scoreBadgeClass(evaluation.score)}>{evaluation.score}% rubric coverage</Badge>
+        )}
+      </div>
+
+      {diagram.nodes.length > 0 ? (
+        <DesignWhiteboard diagram={diagram} readOnly highlightedIds={matchedIds} height={360} />
+      ) : (
+        <p className="text-sm text-muted-foreground">Nothing was drawn on the whiteboard for this answer.</p>
+      )}
+
+      {evaluation && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div className="space-y-1">
+            <div className="font-medium">Components</div>
+            {evaluation.components.map(component => (
+              <div key={component.id} className="flex items-center gap-2">
+                {component.nodeIds.length > 0 ? (
+                  <CheckCircle className="h-4 w-4 text-green-600 shrink-0" />
+                ) : (
+                  <Circle className="h-4 w-4 text-muted-foreground shrink-0" />
+                )}
+                <span className={component.nodeIds.length > 0 ? "" : "text-muted-foreground"}>{component.label}</span>
+                {component.optional && <span className="text-xs text-muted-foreground">(bonus)</span>}
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <div className="font-medium">Connections</div>
+            {evaluation.connections.map(connection => (
+              <div key={`${connection.from}-${connection.to}`} className="flex items-center gap-2">
+                {connection.matched ? (
+                  <CheckCircle className="h-4 w-4 text-green-600 shrink-0" />
+                ) : (
+                  <Circle className="h-4 w-4 text-muted-foreground shrink-0" />
+                )}
+                <span className={connection.matched ? "" : "text-muted-foreground"}>
+                  {componentLabel(connection.from)} → {componentLabel(connection.to)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {evaluation && evaluation.missing.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">Missing: </span>
+          {evaluation.missing.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DesignDiagramReview;
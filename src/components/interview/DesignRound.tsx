@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Timer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import VideoRecorder from "./VideoRecorder";
+import DesignWhiteboard from "./DesignWhiteboard";
+import { FacialAnalysisSample, InterviewQuestionType } from "@/types";
+import { getSystemDesignPrompt } from "@/data/systemDesignPrompts";
+import { DesignDiagram, emptyDiagram } from "@/lib/systemDesign";
+
+interface DesignRoundProps {
+  question: InterviewQuestionType;
+  isRecording: boolean;
+  startRecording: () => void;
+  stopRecording: () => void;
+  onRecordingComplete: (blob: Blob, facialSamples: FacialAnalysisSample[], designDiagram: DesignDiagram) => void;
+}
+
+const DEFAULT_TIME_LIMIT_SECONDS = 35 * 60;
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.max(0, seconds % 60)).padStart(2, "0")}`;
+
+// Whiteboard answer for a system design prompt: the prompt and requirements,
+// a canvas to draw on and the camera. The diagram is saved with the answer.
+const DesignRound = ({ question, isRecording, startRecording, stopRecording, onRecordingComplete }: DesignRoundProps) => {
+  const { toast } = useToast();
+  const prompt = question.problem_key ? getSystemDesignPrompt(question.problem_key) : undefined;
+  const timeLimit = question.time_limit_seconds || DEFAULT_TIME_LIMIT_SECONDS;
+
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [remaining, setRemaining] = useState(timeLimit);
+  const diagramRef = useRef<DesignDiagram>(emptyDiagram(question.problem_key || ""));
+  // Latest stopRecording for the countdown, which shouldn't restart each render
+  const stopRecordingRef = useRef(stopRecording);
+  stopRecordingRef.current = stopRecording;
+
+  useEffect(() => {
+    if (isRecording) {
+      setStartedAt(Date.now());
+    }
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (!isRecording || startedAt === null) return;
+
+    const timer = setInterval(() => {
+      const left = timeLimit - Math.floor((Date.now() - startedAt) / 1000);
+      setRemaining(Math.max(0, left));
+      if (left <= 0) {
+        clearInterval(timer);
+        toast({ title: "Time's Up", description: "Your design is being saved now." });
+        stopRecordingRef.current();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isRecording, startedAt, timeLimit, toast]);
+
+  const handleDiagramChange = useCallback((diagram: DesignDiagram) => {
+    diagramRef.current = diagram;
+  }, []);
+
+  if (!prompt) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          This design prompt is no longer available. Skip to the next question.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const handleRecordingComplete = (blob: Blob, facialSamples: FacialAnalysisSample[]) =>
+    onRecordingComplete(blob, facialSamples, diagramRef.current);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+      <div className="lg:col-span-3 space-y-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-lg">{prompt.title}</CardTitle>
+              <Badge variant={remaining <= 60 && isRecording ? "destructive" : "outline"} className="flex items-center gap-1">
+                <Timer className="h-3 w-3" />
+                {formatClock(remaining)}
+              </Badge>
+            </div>
+            <CardDescription>{prompt.prompt}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+              {prompt.requirements.map(requirement => (
+                <li key={requirement}>{requirement}</li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+
+        <div className={isRecording ? "" : "pointer-events-none opacity-60"}>
+          <DesignWhiteboard diagram={diagramRef.current} onChange={handleDiagramChange} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {isRecording
+            ? "Add components from the palette, drag between their edges to connect them, and select a component or connection to name it."
+            : "Start recording to unlock the whiteboard. The timer starts with the recording."}
+        </p>
+      </div>
+
+      <div className="lg:col-span-2 space-y-4">
+        <VideoRecorder
+          onRecordingComplete={handleRecordingComplete}
+          isRecording={isRecording}
+          startRecording={startRecording}
+          stopRecording={stopRecording}
+        />
+        <p className="text-sm text-muted-foreground">
+          Talk through your design as you draw: clarify requirements, estimate scale, then explain how requests flow and
+          which trade-offs you are making. Stop the recording when you are done.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DesignRound;
@@ -0,0 +1,200 @@
+import { useCallback, useEffect } from "react";
+import {
+  ReactFlow,
+  Node,
+  Edge,
+  NodeProps,
+  Handle,
+  Position,
+  Panel,
+  addEdge,
+  Connection,
+  ConnectionMode,
+  MarkerType,
+  useNodesState,
+  useEdgesState,
+  Controls,
+  Background,
+} from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Database, Globe, HardDrive, ListOrdered, Monitor, Server, Split, Zap } from "lucide-react";
+import { DesignComponentKind, designComponentKinds } from "@/data/systemDesignPrompts";
+import { DesignDiagram } from "@/lib/systemDesign";
+
+type DesignNodeData = { kind: DesignComponentKind; label: string; highlighted?: boolean };
+type DesignFlowNode = Node<DesignNodeData, "design">;
+
+interface DesignWhiteboardProps {
+  diagram: DesignDiagram;
+  onChange?: (diagram: DesignDiagram) => void;
+  readOnly?: boolean;
+  // Nodes drawn with a ring, e.g. the ones that satisfied the rubric
+  highlightedIds?: string[];
+  height?: number;
+}
+
+const KIND_ICONS: Record<DesignComponentKind, React.ComponentType<{ className?: string }>> = {
+  client: Monitor,
+  load_balancer: Split,
+  service: Server,
+  database: Database,
+  cache: Zap,
+  queue: ListOrdered,
+  storage: HardDrive,
+  cdn: Globe,
+};
+
+const HANDLE_POSITIONS = [Position.Top, Position.Right, Position.Bottom, Position.Left];
+
+const DesignNodeView = ({ data, selected }: NodeProps<DesignFlowNode>) => {
+  const Icon = KIND_ICONS[data.kind] || Server;
+
+  return (
+    <div
+      className={`flex items-center gap-2 rounded-md border bg-background px-3 py-2 text-sm shadow-sm ${
+        selected ? "border-primary" : data.highlighted ? "border-green-500 ring-2 ring-green-500/30" : "border-border"
+      }`}
+    >
+      <Icon className="h-4 w-4 text-primary shrink-0" />
+      <span className="max-w-[160px] truncate">{data.label}</span>
+      {/* Loose connection mode lets any handle start or end an edge */}
+      {HANDLE_POSITIONS.map(position => (
+        <Handle key={position} id={position} type="source" position={position} />
+      ))}
+    </div>
+  );
+};
+
+const nodeTypes = { design: DesignNodeView };
+
+const toFlowNodes = (diagram: DesignDiagram, highlightedIds: string[]): DesignFlowNode[] =>
+  diagram.nodes.map(node => ({
+    id: node.id,
+    type: "design",
+    position: { x: node.x, y: node.y },
+    data: { kind: node.kind, label: node.label, highlighted: highlightedIds.includes(node.id) },
+  }));
+
+const toFlowEdges = (diagram: DesignDiagram): Edge[] =>
+  diagram.edges.map(edge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    label: edge.label || undefined,
+    markerEnd: { type: MarkerType.ArrowClosed },
+  }));
+
+const toDiagram = (promptKey: string, nodes: DesignFlowNode[], edges: Edge[]): DesignDiagram => ({
+  prompt_key: promptKey,
+  nodes: nodes.map(node => ({
+    id: node.id,
+    kind: node.data.kind,
+    label: node.data.label,
+    x: Math.round(node.position.x),
+    y: Math.round(node.position.y),
+  })),
+  edges: edges.map(edge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    label: typeof edge.label === "string" ? edge.label : "",
+  })),
+});
+
+// React Flow canvas for system design answers. Components come from a fixed
+// palette of kinds; selecting a component or connection lets you rename it.
+const DesignWhiteboard = ({ diagram, onChange, readOnly = false, highlightedIds = [], height = 460 }: DesignWhiteboardProps) => {
+  const [nodes, setNodes, onNodesChange] = useNodesState<DesignFlowNode>(toFlowNodes(diagram, highlightedIds));
+  const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>(toFlowEdges(diagram));
+
+  useEffect(() => {
+    if (!readOnly) {
+      onChange?.(toDiagram(diagram.prompt_key, nodes, edges));
+    }
+  }, [nodes, edges, readOnly, onChange, diagram.prompt_key]);
+
+  const onConnect = useCallback(
+    (params: Connection) =>
+      setEdges(eds => addEdge({ ...params, id: crypto.randomUUID(), markerEnd: { type: MarkerType.ArrowClosed } }, eds)),
+    [setEdges]
+  );
+
+  const addComponent = (kind: DesignComponentKind) => {
+    const label = designComponentKinds.find(item => item.id === kind)?.label || kind;
+    setNodes(prev => [
+      ...prev.map(node => ({ ...node, selected: false })),
+      {
+        id: crypto.randomUUID(),
+        type: "design",
+        // Stagger new components so they don't stack on top of each other
+        position: { x: 40 + (prev.length % 4) * 180, y: 40 + Math.floor(prev.length / 4) * 110 },
+        data: { kind, label },
+        selected: true,
+      },
+    ]);
+  };
+
+  const selectedNode = nodes.find(node => node.selected);
+  const selectedEdge = selectedNode ? undefined : edges.find(edge => edge.selected);
+
+  const renameNode = (id: string, label: string) =>
+    setNodes(prev => prev.map(node => (node.id === id ? { ...node, data: { ...node.data, label } } : node)));
+
+  const renameEdge = (id: string, label: string) =>
+    setEdges(prev => prev.map(edge => (edge.id === id ? { ...edge, label } : edge)));
+
+  return (
+    <div className="rounded-md border bg-muted/20" style={{ width: "100%", height }}>
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        onConnect={onConnect}
+        nodeTypes={nodeTypes}
+        connectionMode={ConnectionMode.Loose}
+        nodesDraggable={!readOnly}
+        nodesConnectable={!readOnly}
+        elementsSelectable={!readOnly}
+        deleteKeyCode={readOnly ? null : ["Backspace", "Delete"]}
+        fitView={diagram.nodes.length > 0}
+        attributionPosition="bottom-left"
+      >
+        {!readOnly && (
+          <Panel position="top-left" className="flex flex-wrap gap-1 max-w-[70%]">
+            {designComponentKinds.map(kind => {
+              const Icon = KIND_ICONS[kind.id];
+              return (
+                <Button key={kind.id} size="sm" variant="secondary" className="h-7 px-2 text-xs" onClick={() => addComponent(kind.id)}>
+                  <Icon className="mr-1 h-3 w-3" />
+                  {kind.label}
+                </Button>
+              );
+            })}
+          </Panel>
+        )}
+        {!readOnly && (selectedNode || selectedEdge) && (
+          <Panel position="top-right" className="w-56 space-y-1 rounded-md border bg-background p-2 shadow-sm">
+            <div className="text-xs text-muted-foreground">
+              {selectedNode ? "Component name" : "Connection label"}
+            </div>
+            <Input
+              className="h-8"
+              value={selectedNode ? selectedNode.data.label : String(selectedEdge?.label || "")}
+              placeholder={selectedNode ? "e.g. Redirect service" : "e.g. HTTP, async, reads"}
+              onChange={(e) =>
+                selectedNode ? renameNode(selectedNode.id, e.target.value) : renameEdge(selectedEdge!.id, e.target.value)
+              }
+            />
+          </Panel>
+        )}
+        <Controls showInteractive={false} />
+        <Background />
+      </ReactFlow>
+    </div>
+  );
+};
+
+export default DesignWhiteboard;
@@ -0,0 +1,316 @@
+import { useEffect, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { BookmarkPlus, CheckCircle, Circle, Clock, Loader2, RefreshCw, VideoOff } from "lucide-react";
+import { QuestionReport } from "@/lib/interviewAnalysis";
+import { detectStar, STAR_COMPONENTS, STAR_LABELS, StarComponent } from "@/lib/answerScoring";
+import CodingSessionReplay from "./CodingSessionReplay";
+import DesignDiagramReview from "./DesignDiagramReview";
+
+interface InterviewQuestionReviewProps {
+  report: QuestionReport;
+  recordingUrl: string | null;
+  // Clip position to jump to, set when a timeline event is selected
+  seekSeconds?: number | null;
+  isTranscribing?: boolean;
+  onTranscribe?: () => void;
+  // Behavioral answers get their transcript broken down by STAR component
+  expectsStar?: boolean;
+  onSaveStory?: () => void;
+}
+
+const STAR_HIGHLIGHTS: Record<StarComponent, string> = {
+  situation: "bg-sky-500/15 border-sky-500",
+  task: "bg-violet-500/15 border-violet-500",
+  action: "bg-amber-500/15 border-amber-500",
+  result: "bg-green-500/15 border-green-500",
+};
+
+const scoreBadgeClass = (score: number) =>
+  score >= 80 ? "bg-green-500" : score >= 60 ? "bg-amber-500" : "bg-red-500";
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, "0")}`;
+
+const InterviewQuestionReview = ({
+  report,
+  recordingUrl,
+  seekSeconds,
+  isTranscribing,
+  onTranscribe,
+  expectsStar,
+  onSaveStory
+}: InterviewQuestionReviewProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  const playFrom = (seconds: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = seconds;
+      videoRef.current.play().catch(() => {
+        // Autoplay can be blocked; the clip stays at the requested position
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (seekSeconds === null || seekSeconds === undefined) return;
+
+    cardRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+    playFrom(seekSeconds);
+  }, [seekSeconds]);
+
+  const answerScore = report.answerScore;
+  const starAnalysis = report.transcript && (expectsStar || answerScore?.star) ? detectStar(report.transcript) : null;
+  const transcribing = isTranscribing || report.transcriptionStatus === "pending" || report.transcriptionStatus === "processing";
+  const topFillers = report.speech
+    ? Object.entries(report.speech.fillerWords).sort(([, a], [, b]) => b - a).slice(0, 3)
+    : [];
+
+  const scores = [
+    { label: "Technical", value: report.technical },
+    { label: "Communication", value: report.communication },
+    { label: "Non-verbal", value: report.nonVerbal },
+  ];
+
+  return (
+    <Card ref={cardRef}>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardDescription>
+              Question {report.index + 1}{report.codingSession ? " · Live coding" : report.designDiagram ? " · System design" : ""}
+            </CardDescription>
+            <CardTitle className="text-lg">{report.question}</CardTitle>
+          </div>
+          {report.score !== null ? (
+            <Badge className={scoreBadgeClass(report.score)}>{report.score}%</Badge>
+          ) : (
+            <Badge variant="outline">{report.response ? "Not scored" : "Skipped"}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.response ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="rounded-md overflow-hidden bg-black/80 aspect-video flex items-center justify-center">
+                {recordingUrl ? (
+                  <video ref={videoRef} src={recordingUrl} controls className="w-full h-full" />
+                ) : (
+                  <div className="text-muted-foreground flex flex-col items-center gap-2 text-sm">
+                    <VideoOff className="h-6 w-6" />
+                    Recording unavailable
+                  </div>
+                )}
+              </div>
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Clock className="h-4 w-4" />
+                  {formatDuration(report.durationSeconds)} answer
+                </div>
+                {scores.map(score => (
+                  <div key={score.label} className="flex items-center justify-between text-sm">
+                    <span>{score.label}</span>
+                    {score.value !== null ? (
+                      <span className="font-medium">{score.value}%</span>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </div>
+                ))}
+                {report.speech && (
+                  <div className="border-t pt-3 space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span>Pace</span>
+                      <span className="font-medium">
+                        {report.speech.wordsPerMinute !== null ? `${report.speech.wordsPerMinute} wpm` : "—"}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Filler words</span>
+                      <span className="font-medium">{report.speech.fillerCount}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Long pauses</span>
+                      <span className="font-medium">{report.speech.longPauses.length}</span>
+                    </div>
+                    {topFillers.length > 0 && (
+                      <div className="text-muted-foreground">
+                        Most used: {topFillers.map(([word, count]) => `"${word}" ×${count}`).join(", ")}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {report.missingKeywords.length > 0 && (
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">Consider mentioning: </span>
+                    {report.missingKeywords.join(", ")}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {report.codingSession && (
+              <CodingSessionReplay session={report.codingSession} videoRef={videoRef} hasVideo={Boolean(recordingUrl)} />
+            )}
+            {report.designDiagram && (
+              <DesignDiagramReview diagram={report.designDiagram} evaluation={report.designEvaluation} />
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-medium">Your Answer</h3>
+                {onTranscribe && !isTranscribing && report.transcriptionStatus !== "completed" && (
+                  <Button variant="ghost" size="sm" onClick={onTranscribe}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    {report.transcriptionStatus === "failed" ? "Retry transcription" : "Transcribe"}
+                  </Button>
+                )}
+              </div>
+              <div className="bg-muted/30 p-4 rounded-md border text-foreground/90">
+                {report.transcriptSegments.length > 0 ? (
+                  <div className="space-y-1">
+                    {report.transcriptSegments.map((segment, i) => (
+                      <div key={i} className="flex gap-3">
+                        <button
+                          type="button"
+                          onClick={() => playFrom(segment.start)}
+                          disabled={!recordingUrl}
+                          className="font-mono text-xs text-muted-foreground hover:text-primary pt-0.5 shrink-0"
+                        >
+                          {formatDuration(segment.start)}
+                        </button>
+                        <span>{segment.text}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : report.transcript ? (
+                  <span className="whitespace-pre-wrap">{report.transcript}</span>
+                ) : transcribing ? (
+                  <span className="text-muted-foreground flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Transcribing your answer...
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">
+                    {report.transcriptionStatus === "failed"
+                      ? "Transcription failed for this answer."
+                      : "No transcript is available for this answer yet."}
+                  </span>
+                )}
+              </div>
+            </div>
+            {starAnalysis && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium">STAR Structure</h3>
+                  {onSaveStory && (
+                    <Button variant="ghost" size="sm" onClick={onSaveStory}>
+                      <BookmarkPlus className="h-4 w-4 mr-2" />
+                      Save to story bank
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {STAR_COMPONENTS.map(component => (
+                    <span
+                      key={component}
+                      className={`px-2 py-0.5 rounded border-l-2 capitalize ${
+                        starAnalysis.components[component] ? STAR_HIGHLIGHTS[component] : "border-muted-foreground/40 text-muted-foreground line-through"
+                      }`}
+                    >
+                      {component}
+                    </span>
+                  ))}
+                </div>
+                <div className="space-y-1 text-sm leading-relaxed">
+                  {starAnalysis.sentences.map((sentence, i) => (
+                    <p
+                      key={i}
+                      className={sentence.component ? `pl-2 border-l-2 ${STAR_HIGHLIGHTS[sentence.component]}` : "pl-2 text-muted-foreground"}
+                    >
+                      {sentence.text}
+                    </p>
+                  ))}
+                </div>
+                {starAnalysis.missing.length > 0 && (
+                  <div className="text-sm">
+                    <span className="font-medium">Missing: </span>
+                    {starAnalysis.missing.map(component => `Make sure to ${STAR_LABELS[component]}`).join("; ")}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-muted-foreground">This question was not answered.</p>
+        )}
+
+        {answerScore && (
+          <div className="space-y-3 border rounded-md p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="font-medium">Answer Feedback</h3>
+              <div className="flex gap-2 text-xs">
+                <Badge variant="outline">Key points {answerScore.breakdown.key_points}%</Badge>
+                <Badge variant="outline">Structure {answerScore.breakdown.structure}%</Badge>
+                <Badge variant="outline">Technical {answerScore.breakdown.technical}%</Badge>
+              </div>
+            </div>
+            {answerScore.feedback && <p className="text-sm">{answerScore.feedback}</p>}
+            {answerScore.star && (
+              <div className="flex flex-wrap gap-2">
+                {(["situation", "task", "action", "result"] as const).map(component => (
+                  <Badge
+                    key={component}
+                    variant={answerScore.star[component] ? "default" : "outline"}
+                    className="capitalize"
+                  >
+                    {component}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {answerScore.key_points.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {answerScore.key_points.map((point, i) => (
+                  <li key={i} className="flex gap-2">
+                    {point.covered ? (
+                      <CheckCircle className="h-4 w-4 text-green-500 shrink-0 mt-0.5" />
+                    ) : (
+                      <Circle className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+                    )}
+                    <span className={point.covered ? "" : "text-muted-foreground"}>{point.point}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {answerScore.improvements.length > 0 && (
+              <div className="text-sm">
+                <span className="font-medium">To improve: </span>
+                {answerScore.improvements.join("; ")}
+              </div>
+            )}
+          </div>
+        )}
+
+        {report.suggestedAnswer && (
+          <Accordion type="single" collapsible>
+            <AccordionItem value="suggested" className="border-b-0">
+              <AccordionTrigger className="py-2">Suggested answer</AccordionTrigger>
+              <AccordionContent>
+                <div className="bg-primary/5 p-4 rounded-md border border-primary/20 text-foreground/90">
+                  {report.suggestedAnswer}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InterviewQuestionReview;
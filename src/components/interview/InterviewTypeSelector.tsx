@@ -2,7 +2,7 @@ import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Brain, Code, Users, Calculator, Clock, Target } from "lucide-react";
+import { Brain, Code, Users, Calculator, Clock, Target, MessageSquare, Network } from "lucide-react";
 import GlassMorphism from "@/components/ui/GlassMorphism";
 
 interface InterviewType {
@@ -47,6 +47,26 @@ const interviewTypes: InterviewType[] = [
     difficulty: "Easy to Medium", 
     topics: ["Behavioral Questions", "Leadership", "Communication", "Career Goals"]
   },
+  {
+    id: "behavioral",
+    name: "Behavioral Interview",
+    description: "STAR-structured stories about leadership, conflict, failure and ownership",
+    icon: <MessageSquare className="h-6 w-6" />,
+    duration: "30-45 mins",
+    questionCount: 6,
+    difficulty: "Medium",
+    topics: ["Leadership", "Conflict", "Failure", "Ownership"]
+  },
+  {
+    id: "system_design",
+    name: "System Design Interview",
+    description: "Whiteboard the architecture of a real product and defend your trade-offs",
+    icon: <Network className="h-6 w-6" />,
+    duration: "45-60 mins",
+    questionCount: 3,
+    difficulty: "Medium to Hard",
+    topics: ["Architecture", "Scalability", "Caching", "Data Storage"]
+  },
   {
     id: "mixed",
     name: "Mixed Interview",
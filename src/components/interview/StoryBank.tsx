@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { BookOpen, Check, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { BehavioralCompetency, behavioralCompetencies } from "@/data/behavioralQuestions";
+import { InterviewStory, StoryInput, StorySource, storyService } from "@/api/services/storyService";
+import StoryEditorDialog from "./StoryEditorDialog";
+
+interface StoryBankProps {
+  // Stories tagged with this competency are listed first (or only, when compact)
+  competency?: BehavioralCompetency;
+  // Read-only reminder shown next to a question during the interview
+  compact?: boolean;
+}
+
+const competencyLabel = (id: string) => behavioralCompetencies.find(item => item.id === id)?.label || id;
+
+const toInput = (story: InterviewStory): StoryInput => ({
+  title: story.title,
+  competencies: story.competencies as BehavioralCompetency[],
+  situation: story.situation,
+  task: story.task,
+  action: story.action,
+  result: story.result,
+  experience_id: story.experience_id,
+  project_id: story.project_id
+});
+
+const StoryBank = ({ competency, compact = false }: StoryBankProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [stories, setStories] = useState<InterviewStory[]>([]);
+  const [sources, setSources] = useState<StorySource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<InterviewStory | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [usedIds, setUsedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all([storyService.getStories(user.id), compact ? Promise.resolve([]) : storyService.getStorySources(user.id)])
+      .then(([loadedStories, loadedSources]) => {
+        if (cancelled) return;
+        setStories(loadedStories);
+        setSources(loadedSources);
+      })
+      .catch(error => console.error("Error loading stories:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, compact]);
+
+  const visibleStories = competency
+    ? compact
+      ? stories.filter(story => story.competencies.includes(competency))
+      : [...stories].sort((a, b) => Number(b.competencies.includes(competency)) - Number(a.competencies.includes(competency)))
+    : stories;
+
+  const sourceLabel = (story: InterviewStory) =>
+    sources.find(source => source.id === story.experience_id || source.id === story.project_id)?.label;
+
+  const openEditor = (story: InterviewStory | null) => {
+    setEditing(story);
+    setIsEditorOpen(true);
+  };
+
+  const handleSave = async (input: StoryInput) => {
+    if (!user) return;
+
+    try {
+      const saved = editing
+        ? await storyService.updateStory(editing.id, input)
+        : await storyService.createStory(user.id, input);
+      setStories(prev => [saved, ...prev.filter(story => story.id !== saved.id)]);
+      toast({ title: "Story Saved", description: `"${saved.title}" is in your story bank.` });
+    } catch (error) {
+      console.error("Error saving story:", error);
+      toast({ title: "Error", description: "Failed to save the story. Please try again.", variant: "destructive" });
+      throw error;
+    }
+  };
+
+  const handleDelete = async (story: InterviewStory) => {
+    try {
+      await storyService.deleteStory(story.id);
+      setStories(prev => prev.filter(item => item.id !== story.id));
+    } catch (error) {
+      console.error("Error deleting story:", error);
+      toast({ title: "Error", description: "Failed to delete the story.", variant: "destructive" });
+    }
+  };
+
+  const handleUse = async (story: InterviewStory) => {
+    setUsedIds(prev => [...prev, story.id]);
+    try {
+      const updated = await storyService.markUsed(story);
+      setStories(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+    } catch (error) {
+      console.warn("Failed to record story use:", error);
+    }
+  };
+
+  if (compact) {
+    if (isLoading || visibleStories.length === 0) return null;
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Stories That Fit
+          </CardTitle>
+          <CardDescription>Stories from your bank tagged {competencyLabel(competency || "")}.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible>
+            {visibleStories.map(story => (
+              <AccordionItem key={story.id} value={story.id}>
+                <AccordionTrigger className="py-2 text-left">{story.title}</AccordionTrigger>
+                <AccordionContent className="space-y-2 text-sm">
+                  {(["situation", "task", "action", "result"] as const).map(component => story[component] && (
+                    <p key={component}>
+                      <span className="font-medium capitalize">{component}: </span>
+                      {story[component]}
+                    </p>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={usedIds.includes(story.id)}
+                    onClick={() => handleUse(story)}
+                  >
+                    <Check className="mr-2 h-4 w-4" />
+                    {usedIds.includes(story.id) ? "Using this story" : "Use this story"}
+                  </Button>
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Story Bank
+          </CardTitle>
+          <CardDescription>
+            Polished STAR stories from your experience and projects, ready to reuse across questions.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openEditor(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Story
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleStories.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No stories yet. Add one, or save a strong answer from your interview results.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {visibleStories.map(story => (
+              <div key={story.id} className="border rounded-md p-3">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <div className="font-medium">{story.title}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {sourceLabel(story) || "Not linked"}
+                      {story.times_used > 0 && ` · used ${story.times_used} time${story.times_used === 1 ? "" : "s"}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(story)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(story)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {story.competencies.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {story.competencies.map(item => (
+                      <Badge key={item} variant={item === competency ? "default" : "secondary"} className="text-xs">
+                        {competencyLabel(item)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <StoryEditorDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        initial={editing ? toInput(editing) : competency ? { competencies: [competency] } : undefined}
+        isEditing={Boolean(editing)}
+        sources={sources}
+        onSave={handleSave}
+      />
+    </Card>
+  );
+};
+
+export default StoryBank;
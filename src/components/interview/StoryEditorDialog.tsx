@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { BehavioralCompetency, behavioralCompetencies } from "@/data/behavioralQuestions";
+import { StoryInput, StorySource } from "@/api/services/storyService";
+
+interface StoryEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Values to start from: an existing story, or a draft built from an answer
+  initial?: Partial<StoryInput>;
+  isEditing?: boolean;
+  sources: StorySource[];
+  onSave: (input: StoryInput) => Promise<void>;
+}
+
+const NO_SOURCE = "none";
+
+const emptyStory: StoryInput = {
+  title: "",
+  competencies: [],
+  situation: "",
+  task: "",
+  action: "",
+  result: "",
+  experience_id: null,
+  project_id: null
+};
+
+const STAR_FIELDS: Array<{ key: "situation" | "task" | "action" | "result"; label: string; placeholder: string }> = [
+  { key: "situation", label: "Situation", placeholder: "Where were you and what was happening?" },
+  { key: "task", label: "Task", placeholder: "What were you responsible for?" },
+  { key: "action", label: "Action", placeholder: "What did you do, step by step?" },
+  { key: "result", label: "Result", placeholder: "What changed? Include numbers where you can." },
+];
+
+const StoryEditorDialog = ({ open, onOpenChange, initial, isEditing = false, sources, onSave }: StoryEditorDialogProps) => {
+  const [story, setStory] = useState<StoryInput>(emptyStory);
+  const [isSaving, setIsSaving] = useState(false);
+  const initialRef = useRef(initial);
+  initialRef.current = initial;
+
+  // Reset only when the dialog opens so edits survive parent re-renders
+  useEffect(() => {
+    if (open) {
+      setStory({ ...emptyStory, ...initialRef.current });
+    }
+  }, [open]);
+
+  const sourceValue = story.experience_id
+    ? `experience:${story.experience_id}`
+    : story.project_id
+      ? `project:${story.project_id}`
+      : NO_SOURCE;
+
+  const setSource = (value: string) => {
+    const [kind, id] = value.split(":");
+    setStory(prev => ({
+      ...prev,
+      experience_id: kind === "experience" ? id : null,
+      project_id: kind === "project" ? id : null
+    }));
+  };
+
+  const toggleCompetency = (competency: BehavioralCompetency) => {
+    setStory(prev => ({
+      ...prev,
+      competencies: prev.competencies.includes(competency)
+        ? prev.competencies.filter(item => item !== competency)
+        : [...prev.competencies, competency]
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ ...story, title: story.title.trim() });
+      onOpenChange(false);
+    } catch {
+      // onSave reports the error; the dialog stays open so nothing is lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Story" : "New Story"}</DialogTitle>
+          <DialogDescription>
+            Write the story once in STAR form and reuse it for any question it fits.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="story-title">Title</Label>
+            <Input
+              id="story-title"
+              value={story.title}
+              onChange={(e) => setStory(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="e.g., Rescuing the billing migration"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Competencies</Label>
+            <div className="flex flex-wrap gap-2">
+              {behavioralCompetencies.map(competency => (
+                <button
+                  key={competency.id}
+                  type="button"
+                  onClick={() => toggleCompetency(competency.id)}
+                  className={`px-3 py-1 text-xs rounded-full transition-colors ${
+                    story.competencies.includes(competency.id)
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-secondary text-foreground hover:bg-secondary/70"
+                  }`}
+                >
+                  {competency.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Select value={sourceValue} onValueChange={setSource}>
+              <SelectTrigger>
+                <SelectValue placeholder="Link to experience or a project" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SOURCE}>Not linked</SelectItem>
+                {sources.map(source => (
+                  <SelectItem key={`${source.kind}:${source.id}`} value={`${source.kind}:${source.id}`}>
+                    {source.kind === "project" ? "Project: " : ""}{source.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {STAR_FIELDS.map(field => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`story-${field.key}`}>{field.label}</Label>
+              <Textarea
+                id={`story-${field.key}`}
+                value={story[field.key]}
+                onChange={(e) => setStory(prev => ({ ...prev, [field.key]: e.target.value }))}
+                placeholder={field.placeholder}
+                rows={3}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !story.title.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Story
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StoryEditorDialog;
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronLeft, Loader2, Network, PenTool } from "lucide-react";
+import GlassMorphism from "@/components/ui/GlassMorphism";
+import { systemDesignPrompts } from "@/data/systemDesignPrompts";
+import { InterviewSetupOptions } from "@/context/InterviewContext";
+
+interface SystemDesignSetupProps {
+  onSubmit: (role: string, techStack: string, experience: string, options: InterviewSetupOptions) => void;
+  onBack: () => void;
+  isLoading?: boolean;
+}
+
+const experienceOptions = [
+  { value: "0-1", label: "0-1 years" },
+  { value: "1-3", label: "1-3 years" },
+  { value: "3-5", label: "3-5 years" },
+  { value: "5+", label: "5+ years" }
+];
+
+const SystemDesignSetup = ({ onSubmit, onBack, isLoading }: SystemDesignSetupProps) => {
+  const [role, setRole] = useState("");
+  const [experience, setExperience] = useState("3-5");
+  const [promptKey, setPromptKey] = useState(systemDesignPrompts[0].key);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const prompt = systemDesignPrompts.find(item => item.key === promptKey);
+    // The prompt title stands in for the tech stack in the interview list
+    onSubmit(role.trim() || "Software Engineer", prompt?.title || "", experience, { designPromptKey: promptKey });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onBack}
+          className="text-muted-foreground"
+        >
+          <ChevronLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <div>
+          <h2 className="text-2xl font-bold">System Design Interview Setup</h2>
+          <p className="text-muted-foreground">
+            Sketch an architecture on the whiteboard while you explain it out loud
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <PenTool className="h-4 w-4" />
+                How It Works
+              </CardTitle>
+              <CardDescription>
+                One design question, then follow-ups on your design
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2 text-sm">
+                <li>Add clients, services, databases, caches and queues to the whiteboard</li>
+                <li>Connect them and label each connection with what flows along it</li>
+                <li>Your diagram is checked for the components a strong answer includes</li>
+              </ul>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2">
+          <GlassMorphism className="p-6">
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <Network className="h-5 w-5" />
+                  Interview Configuration
+                </h3>
+              </div>
+
+              <div className="space-y-3">
+                <Label htmlFor="design-role" className="text-base font-medium">Target Job Role</Label>
+                <Input
+                  id="design-role"
+                  placeholder="e.g. Backend Engineer, Senior Software Engineer"
+                  value={role}
+                  onChange={(e) => setRole(e.target.value)}
+                  className="w-full"
+                />
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-base font-medium">Design Prompt</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {systemDesignPrompts.map((prompt) => (
+                    <Button
+                      key={prompt.key}
+                      type="button"
+                      variant={promptKey === prompt.key ? "default" : "outline"}
+                      className="h-auto p-4 flex flex-col items-start text-left whitespace-normal"
+                      onClick={() => setPromptKey(prompt.key)}
+                    >
+                      <span className="font-medium">{prompt.title}</span>
+                      <span className="text-xs text-muted-foreground mt-1">{prompt.prompt}</span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-base font-medium">Experience Level</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {experienceOptions.map((option) => (
+                    <Button
+                      key={option.value}
+                      type="button"
+                      variant={experience === option.value ? "default" : "outline"}
+                      onClick={() => setExperience(option.value)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  More experienced candidates get less time for the whiteboard question.
+                </p>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="w-full h-12 text-lg"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    Preparing Interview...
+                  </>
+                ) : (
+                  "Start System Design Interview"
+                )}
+              </Button>
+            </form>
+          </GlassMorphism>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SystemDesignSetup;
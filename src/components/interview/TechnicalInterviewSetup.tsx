@@ -9,9 +9,12 @@ import { ChevronLeft, User, FileText, Briefcase, Code, Loader2 } from "lucide-re
 import GlassMorphism from "@/components/ui/GlassMorphism";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { interviewQuestionService, ResumeBackground } from "@/api/services/interviewQuestionService";
+import { Switch } from "@/components/ui/switch";
+import { InterviewSetupOptions } from "@/context/InterviewContext";
 
 interface TechnicalInterviewSetupProps {
-  onSubmit: (role: string, techStack: string, experience: string) => void;
+  onSubmit: (role: string, techStack: string, experience: string, options: InterviewSetupOptions) => void;
   onBack: () => void;
   isLoading?: boolean;
 }
@@ -48,8 +51,9 @@ const TechnicalInterviewSetup = ({ onSubmit, onBack, isLoading }: TechnicalInter
   const [role, setRole] = useState<string>("");
   const [techStack, setTechStack] = useState<string>("");
   const [experience, setExperience] = useState<string>("");
+  const [includeCodingRound, setIncludeCodingRound] = useState(true);
   const [userProfile, setUserProfile] = useState<any>(null);
-  const [resumeData, setResumeData] = useState<any>(null);
+  const [background, setBackground] = useState<ResumeBackground | null>(null);
   const [loadingProfile, setLoadingProfile] = useState(false);
 
   useEffect(() => {
@@ -72,40 +76,19 @@ const TechnicalInterviewSetup = ({ onSubmit, onBack, isLoading }: TechnicalInter
         setUserProfile(profile);
       }
 
-      // Load latest resume
-      const { data: resume } = await supabase
-        .from('user_resumes')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
-      
-      if (resume && resume.extracted_text) {
-        setResumeData(resume);
-        // Auto-fill fields based on resume if available
-        if (resume.ai_analysis && typeof resume.ai_analysis === 'object') {
-          // Safely check the analysis structure without assuming specific properties exist
-          try {
-            const analysis = resume.ai_analysis as Record<string, any>;
-            
-            // Only set values if they exist and are of expected types
-            if (analysis.suggested_roles && Array.isArray(analysis.suggested_roles) && analysis.suggested_roles.length > 0) {
-              setRole(String(analysis.suggested_roles[0]));
-            }
-            
-            if (analysis.technical_skills && Array.isArray(analysis.technical_skills) && analysis.technical_skills.length > 0) {
-              const skills = analysis.technical_skills.slice(0, 3).map(skill => String(skill)).join(', ');
-              setTechStack(skills);
-            }
-            
-            if (analysis.experience_level && typeof analysis.experience_level === 'string') {
-              setExperience(analysis.experience_level);
-            }
-          } catch (error) {
-            console.log('Error parsing resume analysis:', error);
-          }
-        }
+      // Resume analysis and profile projects drive the generated questions
+      const resumeBackground = await interviewQuestionService.getResumeBackground(user.id);
+      setBackground(resumeBackground);
+
+      // Auto-fill fields based on resume if available
+      if (resumeBackground.suggestedRole) {
+        setRole(resumeBackground.suggestedRole);
+      }
+      if (resumeBackground.skills.length > 0) {
+        setTechStack(resumeBackground.skills.slice(0, 3).join(', '));
+      }
+      if (resumeBackground.experienceLevel) {
+        setExperience(resumeBackground.experienceLevel);
       }
     } catch (error) {
       console.error('Error loading profile:', error);
@@ -120,7 +103,7 @@ const TechnicalInterviewSetup = ({ onSubmit, onBack, isLoading }: TechnicalInter
     const defaultTechStack = techStack || "JavaScript";
     const defaultExperience = experience || "1-3";
     
-    onSubmit(defaultRole, defaultTechStack, defaultExperience);
+    onSubmit(defaultRole, defaultTechStack, defaultExperience, { includeCodingRound });
   };
 
   return (
@@ -184,7 +167,7 @@ const TechnicalInterviewSetup = ({ onSubmit, onBack, isLoading }: TechnicalInter
                 </Card>
               )}
 
-              {resumeData ? (
+              {background?.resume ? (
                 <Card>
                   <CardHeader className="pb-3">
                     <CardTitle className="text-lg flex items-center gap-2">
@@ -198,11 +181,27 @@ const TechnicalInterviewSetup = ({ onSubmit, onBack, isLoading }: TechnicalInter
                   <CardContent>
                     <div className="space-y-2 text-sm">
                       <div>
-                        <span className="font-medium">File:</span> {resumeData.filename}
+                        <span className="font-medium">File:</span> {background.resume.filename}
                       </div>
                       <div>
-                        <span className="font-medium">Uploaded:</span> {new Date(resumeData.created_at).toLocaleDateString()}
+                        <span className="font-medium">Uploaded:</span> {new Date(background.resume.created_at).toLocaleDateString()}
                       </div>
+                      {background.projects.length > 0 && (
+                        <div>
+                          <span className="font-medium">Projects:</span>{" "}
+                          {background.projects.slice(0, 3).map(project => project.title).join(", ")}
+                        </div>
+                      )}
+                      {background.skillGaps.length > 0 && (
+                        <div className="space-y-1">
+                          <span className="font-medium">Skill gaps to probe:</span>
+                          <div className="flex flex-wrap gap-1">
+                            {background.skillGaps.slice(0, 5).map(gap => (
+                              <Badge key={gap} variant="outline" className="text-xs">{gap}</Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                       <Badge variant="secondary" className="mt-2">
                         Questions will be personalized
                       </Badge>
@@ -305,6 +304,17 @@ const TechnicalInterviewSetup = ({ onSubmit, onBack, isLoading }: TechnicalInter
                 </div>
               </div>
 
+              {/* Coding Round */}
+              <div className="flex items-start justify-between gap-4 rounded-lg border p-4">
+                <div className="space-y-1">
+                  <Label htmlFor="codingRound" className="text-base font-medium">Include a live coding round</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Finish with a timed DSA problem solved in the editor while you are recorded. Your code is tested at the end.
+                  </p>
+                </div>
+                <Switch id="codingRound" checked={includeCodingRound} onCheckedChange={setIncludeCodingRound} />
+              </div>
+
               <Button 
                 type="submit" 
                 disabled={isLoading}
@@ -313,7 +323,7 @@ const TechnicalInterviewSetup = ({ onSubmit, onBack, isLoading }: TechnicalInter
                 {isLoading ? (
                   <>
                     <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                    Setting Up Interview...
+                    Generating Questions...
                   </>
                 ) : (
                   "Start Technical Interview"
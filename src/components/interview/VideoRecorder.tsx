@@ -3,9 +3,10 @@ import { useState, useRef, useEffect } from "react";
 import { Camera, Mic, MicOff, Video, VideoOff, RotateCw } from "lucide-react";
 import GlassMorphism from "../ui/GlassMorphism";
 import useFacialAnalysis from "@/hooks/useFacialAnalysis";
+import { FacialAnalysisSample } from "@/types";
 
 interface VideoRecorderProps {
-  onRecordingComplete: (blob: Blob) => void;
+  onRecordingComplete: (blob: Blob, facialSamples: FacialAnalysisSample[]) => void;
   isRecording: boolean;
   startRecording: () => void;
   stopRecording: () => void;
@@ -21,6 +22,9 @@ const VideoRecorder = ({
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<BlobPart[]>([]);
+  // Latest callback, so a new handler from the parent does not restart the camera
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+  onRecordingCompleteRef.current = onRecordingComplete;
   
   const [videoEnabled, setVideoEnabled] = useState(true);
   const [audioEnabled, setAudioEnabled] = useState(true);
@@ -28,7 +32,7 @@ const VideoRecorder = ({
   const [countdown, setCountdown] = useState<number | null>(null);
   
   // Use facial analysis hook when recording
-  const { facialData, isAnalyzing, startAnalysis, stopAnalysis } = useFacialAnalysis(isRecording, 1000);
+  const { facialData, signals, analysisError, isAnalyzing, startAnalysis, stopAnalysis, getSamples } = useFacialAnalysis(isRecording, 1000, videoRef);
   
   useEffect(() => {
     const initCamera = async () => {
@@ -61,7 +65,7 @@ const VideoRecorder = ({
         
         mediaRecorderRef.current.onstop = () => {
           const blob = new Blob(chunksRef.current, { type: "video/webm" });
-          onRecordingComplete(blob);
+          onRecordingCompleteRef.current(blob, getSamples());
           chunksRef.current = []; // Clear chunks after completion
         };
         
@@ -82,7 +86,7 @@ const VideoRecorder = ({
       // Stop facial analysis if it's running
       stopAnalysis();
     };
-  }, [videoEnabled, audioEnabled, onRecordingComplete, stopAnalysis]);
+  }, [videoEnabled, audioEnabled, stopAnalysis, getSamples]);
   
   // Watch for isRecording state changes
   useEffect(() => {
@@ -147,7 +151,17 @@ const VideoRecorder = ({
   
   // Display facial analysis data if available and recording
   const renderFacialAnalysis = () => {
-    if (!isRecording || !isAnalyzing) return null;
+    if (!isRecording) return null;
+
+    if (analysisError) {
+      return (
+        <div className="absolute bottom-4 left-4 bg-black/60 rounded-lg p-2 text-xs text-white">
+          {analysisError}
+        </div>
+      );
+    }
+
+    if (!isAnalyzing) return null;
     
     return (
       <div className="absolute bottom-4 left-4 bg-black/60 rounded-lg p-2 text-xs text-white">
@@ -158,6 +172,15 @@ const VideoRecorder = ({
           <div>Nervousness: {facialData.nervous.toFixed(1)}%</div>
           <div>Engagement: {facialData.excited.toFixed(1)}%</div>
         </div>
+        {signals && (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2 pt-2 border-t border-white/20 text-white/80">
+            <div>Eye contact: {signals.eyeContact.toFixed(0)}%</div>
+            <div>Head steady: {signals.headStability.toFixed(0)}%</div>
+            <div>Smile: {signals.smile.toFixed(0)}%</div>
+            <div>Blinks: {signals.blinkRate.toFixed(0)}/min</div>
+            {signals.faceVisible < 50 && <div className="col-span-2 text-amber-300">Face not in frame</div>}
+          </div>
+        )}
       </div>
     );
   };
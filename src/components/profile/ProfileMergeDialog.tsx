@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
+import { Loader2 } from "lucide-react";
+import { useProfile } from "@/hooks/useProfile";
+import { useToast } from "@/hooks/use-toast";
+import { ExtractedResumeData } from "@/types/resume";
+import { MergeChange, MergeResult } from "@/lib/profileMerge";
+import ResumeConfirmation from "./ResumeConfirmation";
+
+interface ProfileMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  extractedData: ExtractedResumeData | null;
+  confidenceScore?: number;
+  // Resume file name, shown in the undo log
+  source?: string;
+  // Called after changes are applied or undone
+  onMergeChange?: () => void;
+}
+
+// Reviews extracted resume data against the current profile and applies the
+// accepted changes, with an undo straight from the confirmation toast
+export default function ProfileMergeDialog({
+  open,
+  onOpenChange,
+  extractedData,
+  confidenceScore,
+  source,
+  onMergeChange
+}: ProfileMergeDialogProps) {
+  const { profile, applyExtractedData, undoMerge, loadProfile, isLoading } = useProfile();
+  const { toast } = useToast();
+  const [isReady, setIsReady] = useState(false);
+
+  // Compare against the profile as it is now, not as it was when the page
+  // loaded; it may have been edited or a merge undone since
+  useEffect(() => {
+    if (!open) return;
+    setIsReady(false);
+    loadProfile().finally(() => setIsReady(true));
+  }, [open, loadProfile]);
+
+  const handleConfirm = async (result: MergeResult, changes: MergeChange[]) => {
+    const merge = await applyExtractedData({ ...result, changes, source, confidenceScore });
+    if (!merge) return;
+
+    onOpenChange(false);
+    onMergeChange?.();
+    toast({
+      title: "✅ Profile Updated!",
+      description: `Applied ${changes.length} ${changes.length === 1 ? "change" : "changes"} from your resume.`,
+      action: (
+        <ToastAction
+          altText="Undo the changes"
+          onClick={async () => {
+            if (await undoMerge(merge)) onMergeChange?.();
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto p-0 border-0">
+        <DialogTitle className="sr-only">Review extracted resume data</DialogTitle>
+        <DialogDescription className="sr-only">
+          Accept or reject each change before it is applied to your profile.
+        </DialogDescription>
+        {!isReady && (
+          <div className="flex justify-center rounded-lg bg-background py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {isReady && profile && extractedData && (
+          <ResumeConfirmation
+            profile={profile}
+            extractedData={extractedData}
+            confidenceScore={confidenceScore}
+            onConfirm={handleConfirm}
+            onCancel={() => onOpenChange(false)}
+            isLoading={isLoading}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
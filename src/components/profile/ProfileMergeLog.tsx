@@ -0,0 +1,100 @@
+import { useEffect, useState, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, History, Loader2, Undo2 } from "lucide-react";
+import { ProfileMergeRecord, profileMergeService } from "@/api/services/profileMergeService";
+
+interface ProfileMergeLogProps {
+  userId: string;
+  // Bumped by the parent after it applies a merge
+  refreshKey?: number;
+  onUndo: (merge: ProfileMergeRecord) => Promise<boolean>;
+}
+
+// Resume data applied to the profile, newest first. Merges are undone in
+// reverse order, so only the latest one still in effect can be rolled back.
+export default function ProfileMergeLog({ userId, refreshKey, onUndo }: ProfileMergeLogProps) {
+  const [merges, setMerges] = useState<ProfileMergeRecord[]>([]);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const loadMerges = useCallback(async () => {
+    try {
+      setMerges(await profileMergeService.getMergeLog(userId));
+    } catch (error) {
+      console.error('Error loading profile merges:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadMerges();
+  }, [loadMerges, refreshKey]);
+
+  const undo = async (merge: ProfileMergeRecord) => {
+    if (!confirm("Undo these changes? Anything you have edited since they were applied is kept.")) return;
+
+    setUndoingId(merge.id);
+    const success = await onUndo(merge);
+    setUndoingId(null);
+    if (success) await loadMerges();
+  };
+
+  if (merges.length === 0) return null;
+
+  const latestId = merges.find(merge => !merge.undone_at)?.id;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Applied Resume Data
+        </CardTitle>
+        <CardDescription>Changes made to your profile from resumes, with the most recent one undoable.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y border rounded-lg">
+          {merges.map(merge => (
+            <Collapsible key={merge.id} className="p-3">
+              <div className="flex items-center gap-3">
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-7 px-1">
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </CollapsibleTrigger>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{merge.source || "Resume"}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(merge.created_at).toLocaleString()} · {merge.changes.length} changes
+                  </p>
+                </div>
+                {merge.undone_at ? (
+                  <Badge variant="outline">Undone</Badge>
+                ) : merge.id === latestId && (
+                  <Button size="sm" variant="outline" onClick={() => undo(merge)} disabled={!!undoingId}>
+                    {undoingId === merge.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Undo2 className="h-4 w-4 mr-2" />}
+                    Undo
+                  </Button>
+                )}
+              </div>
+              <CollapsibleContent>
+                <ul className="mt-2 ml-9 space-y-1 text-sm">
+                  {merge.changes.map((change, index) => (
+                    <li key={index} className="flex gap-2">
+                      <Badge variant="secondary" className="text-xs capitalize shrink-0">{change.action}</Badge>
+                      <span className="min-w-0">
+                        <span className="font-medium">{change.label}</span>
+                        {change.value && <span className="text-muted-foreground">: {change.value}</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CollapsibleContent>
+            </Collapsible>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
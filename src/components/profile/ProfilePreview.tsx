@@ -1,6 +1,5 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
 import { 
   User, Mail, Phone, MapPin, Github, Linkedin, Globe, 
   GraduationCap, Briefcase, Code, Award, FileText, ExternalLink 
@@ -20,10 +19,6 @@ export default function ProfilePreview() {
 
   const { personalInfo, education, experience, projects, skills, certifications, resumeData } = profile;
 
-  const handlePrint = () => {
-    window.print();
-  };
-
   const getLevelColor = (level: string) => {
     switch (level) {
       case "Beginner": return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300";
@@ -40,13 +35,9 @@ export default function ProfilePreview() {
         <div>
           <h2 className="text-2xl font-semibold mb-2">Profile Preview</h2>
           <p className="text-muted-foreground">
-            Preview how your profile will appear to others.
+            Preview how your profile will appear to others. Use the Resume Builder to export it as a PDF or Word resume.
           </p>
         </div>
-        <Button onClick={handlePrint} variant="outline">
-          <FileText className="h-4 w-4 mr-2" />
-          Print/Export
-        </Button>
       </div>
 
       {/* Header Section */}
@@ -0,0 +1,264 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Download, FileText, Loader2 } from "lucide-react";
+import { useProfile } from "@/hooks/useProfile";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_RESUME_LAYOUT,
+  RESUME_SECTIONS,
+  RESUME_TEMPLATES,
+  ResumeLayout,
+  ResumeSectionId,
+  ResumeSource,
+  ResumeTemplateId,
+  buildResumeDocument,
+  getResumeTemplate,
+  getSectionEntries,
+  renderResumeDocx,
+  renderResumePdf,
+  resumeFileName,
+} from "@/lib/resume";
+
+const PREVIEW_DELAY_MS = 300;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const toggle = <T,>(items: T[], item: T) =>
+  items.includes(item) ? items.filter(existing => existing !== item) : [...items, item];
+
+interface ResumeDesignerProps {
+  source: ResumeSource;
+  layout: ResumeLayout;
+  onLayoutChange: (layout: ResumeLayout) => void;
+  // Selected bullets per entry, e.g. from a tailored variant
+  entryBullets?: ResumeLayout["entryBullets"];
+  // Added to export file names so variants don't overwrite each other
+  fileLabel?: string;
+  title?: string;
+  description?: string;
+}
+
+// Template, section and entry controls next to a live PDF preview, with PDF
+// and DOCX export
+export function ResumeDesigner({
+  source,
+  layout,
+  onLayoutChange,
+  entryBullets,
+  fileLabel,
+  title = "Resume Builder",
+  description = "Pick a template, choose what to include and export your resume as PDF or Word."
+}: ResumeDesignerProps) {
+  const { toast } = useToast();
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [fit, setFit] = useState<{ pageCount: number; scale: number } | null>(null);
+  const [isExporting, setIsExporting] = useState<"pdf" | "docx" | null>(null);
+
+  const template = getResumeTemplate(layout.template);
+  const resume = useMemo(
+    () => buildResumeDocument(source, entryBullets ? { ...layout, entryBullets } : layout),
+    [source, layout, entryBullets]
+  );
+
+  // Re-render the PDF shortly after the last change so the preview matches the export
+  useEffect(() => {
+    let url: string | null = null;
+    const timeout = setTimeout(() => {
+      const rendered = renderResumePdf(resume, template, layout.onePage);
+      url = URL.createObjectURL(rendered.pdf.output("blob"));
+      setPreviewUrl(url);
+      setFit({ pageCount: rendered.pageCount, scale: rendered.scale });
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [resume, template, layout.onePage]);
+
+  const update = (changes: Partial<ResumeLayout>) => onLayoutChange({ ...layout, ...changes });
+
+  const moveSection = (id: ResumeSectionId, offset: number) => {
+    const order = [...layout.sectionOrder];
+    const index = order.indexOf(id);
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    update({ sectionOrder: order });
+  };
+
+  const exportResume = async (format: "pdf" | "docx") => {
+    try {
+      setIsExporting(format);
+      if (format === "pdf") {
+        renderResumePdf(resume, template, layout.onePage).pdf.save(resumeFileName(resume, "pdf", fileLabel));
+      } else {
+        const scale = layout.onePage ? renderResumePdf(resume, template, true).scale : 1;
+        downloadBlob(await renderResumeDocx(resume, template, scale), resumeFileName(resume, "docx", fileLabel));
+      }
+    } catch (error) {
+      console.error(`Error exporting resume as ${format}:`, error);
+      toast({
+        title: "Export Failed",
+        description: `Could not create the ${format.toUpperCase()} file. Please try again.`,
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold mb-2">{title}</h2>
+          <p className="text-muted-foreground">{description}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => exportResume("pdf")} disabled={isExporting !== null}>
+            {isExporting === "pdf" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            PDF
+          </Button>
+          <Button variant="outline" onClick={() => exportResume("docx")} disabled={isExporting !== null}>
+            {isExporting === "docx" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+            DOCX
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+        <div className="xl:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Template</CardTitle>
+              <CardDescription>{template.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Select value={layout.template} onValueChange={(value) => update({ template: value as ResumeTemplateId })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESUME_TEMPLATES.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="one-page">Fit to one page</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {layout.onePage && fit
+                      ? fit.pageCount === 1
+                        ? `Fits at ${Math.round(fit.scale * 100)}% size`
+                        : `Still ${fit.pageCount} pages at the smallest size; hide some entries`
+                      : "Shrinks text and spacing as needed"}
+                  </p>
+                </div>
+                <Switch id="one-page" checked={layout.onePage} onCheckedChange={(checked) => update({ onePage: checked })} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Sections</CardTitle>
+              <CardDescription>Reorder sections and choose which entries to include.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {layout.sectionOrder.map((id, index) => {
+                const section = RESUME_SECTIONS.find(item => item.id === id);
+                const entries = getSectionEntries(source, id);
+                const visible = !layout.hiddenSections.includes(id);
+
+                return (
+                  <div key={id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={visible}
+                        onCheckedChange={() => update({ hiddenSections: toggle(layout.hiddenSections, id) })}
+                        aria-label={`Show ${section?.title}`}
+                      />
+                      <span className={`flex-1 text-sm font-medium ${visible ? "" : "text-muted-foreground"}`}>
+                        {section?.title}
+                        {entries.length === 0 && <span className="ml-2 text-xs font-normal text-muted-foreground">(empty)</span>}
+                      </span>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === 0} onClick={() => moveSection(id, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        disabled={index === layout.sectionOrder.length - 1}
+                        onClick={() => moveSection(id, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    {visible && entries.length > 1 && (
+                      <div className="pl-12 space-y-1.5">
+                        {entries.map(entry => (
+                          <label key={entry.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={!layout.hiddenEntries.includes(entry.id)}
+                              onCheckedChange={() => update({ hiddenEntries: toggle(layout.hiddenEntries, entry.id) })}
+                            />
+                            <span className="truncate">
+                              {entry.title}
+                              {entry.subtitle && <span className="text-muted-foreground"> · {entry.subtitle}</span>}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="xl:col-span-3 overflow-hidden">
+          {previewUrl ? (
+            <iframe src={`${previewUrl}#toolbar=0&view=FitH`} title="Resume preview" className="w-full h-[800px] border-0" />
+          ) : (
+            <div className="h-[800px] flex items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function ResumeBuilder() {
+  const { profile } = useProfile();
+  const [layout, setLayout] = useState<ResumeLayout>(DEFAULT_RESUME_LAYOUT);
+
+  if (!profile) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">No profile data available</p>
+      </div>
+    );
+  }
+
+  return <ResumeDesigner source={profile} layout={layout} onLayoutChange={setLayout} />;
+}
@@ -1,198 +1,233 @@
+import { ReactNode, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, AlertTriangle, User, GraduationCap, Briefcase, Code, Award } from "lucide-react";
-
-interface ExtractedData {
-  personalInfo: any;
-  education: any[];
-  experience: any[];
-  projects: any[];
-  skills: any[];
-  certifications: any[];
-}
+import { CheckCircle, AlertTriangle, User, GraduationCap, Briefcase, Code, Award, Check, X, Copy } from "lucide-react";
+import { ProfileFormData } from "@/types/profile";
+import { ExtractedResumeData } from "@/types/resume";
+import {
+  MergeChange,
+  MergeResult,
+  MergeSection,
+  applyMergePlan,
+  buildMergePlan,
+  defaultDecisions
+} from "@/lib/profileMerge";
 
 interface ResumeConfirmationProps {
-  extractedData: ExtractedData;
-  onConfirm: () => void;
+  profile: ProfileFormData;
+  extractedData: ExtractedResumeData;
+  // As reported by the extraction service, 0-100 or 0-1
+  confidenceScore?: number;
+  onConfirm: (result: MergeResult, changes: MergeChange[]) => void;
   onCancel: () => void;
   isLoading?: boolean;
 }
 
-export default function ResumeConfirmation({ 
-  extractedData, 
-  onConfirm, 
-  onCancel, 
-  isLoading = false 
+const SECTIONS: Array<{ id: MergeSection; title: string; icon: ReactNode }> = [
+  { id: "personalInfo", title: "Personal Information", icon: <User className="h-4 w-4" /> },
+  { id: "experience", title: "Experience", icon: <Briefcase className="h-4 w-4" /> },
+  { id: "education", title: "Education", icon: <GraduationCap className="h-4 w-4" /> },
+  { id: "projects", title: "Projects", icon: <Code className="h-4 w-4" /> },
+  { id: "skills", title: "Skills", icon: <Code className="h-4 w-4" /> },
+  { id: "certifications", title: "Certifications", icon: <Award className="h-4 w-4" /> }
+];
+
+const ConfidenceBadge = ({ value }: { value: number }) => {
+  const percent = Math.round(value * 100);
+  const tone = value >= 0.75
+    ? "bg-green-100 text-green-800 hover:bg-green-100"
+    : value >= 0.5
+      ? "bg-yellow-100 text-yellow-800 hover:bg-yellow-100"
+      : "bg-red-100 text-red-800 hover:bg-red-100";
+  return <Badge className={`text-xs ${tone}`}>{percent}% confidence</Badge>;
+};
+
+const ChangeRow = ({ change, accepted, onToggle, disabled }: {
+  change: MergeChange;
+  accepted: boolean;
+  onToggle: (accept: boolean) => void;
+  disabled: boolean;
+}) => (
+  <div className={`rounded-lg border p-3 text-sm ${accepted ? "border-primary/40 bg-primary/5" : "bg-muted/30"}`}>
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="font-medium">{change.label}</span>
+      {change.kind === "entry" && <Badge variant="secondary" className="text-xs">New entry</Badge>}
+      {change.overwrites && <Badge variant="outline" className="text-xs">Replaces existing</Badge>}
+      <ConfidenceBadge value={change.confidence} />
+      <div className="ml-auto flex gap-1">
+        <Button
+          size="sm"
+          variant={accepted ? "default" : "outline"}
+          className="h-7 px-2"
+          onClick={() => onToggle(true)}
+          disabled={disabled}
+        >
+          <Check className="h-3 w-3 mr-1" />
+          Accept
+        </Button>
+        <Button
+          size="sm"
+          variant={accepted ? "outline" : "secondary"}
+          className="h-7 px-2"
+          onClick={() => onToggle(false)}
+          disabled={disabled}
+        >
+          <X className="h-3 w-3 mr-1" />
+          Reject
+        </Button>
+      </div>
+    </div>
+
+    {change.kind === "entry" ? (
+      change.extracted && <p className="mt-2 text-muted-foreground line-clamp-2">{change.extracted}</p>
+    ) : (
+      <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div>
+          <p className="text-xs text-muted-foreground">Current</p>
+          <p className={`line-clamp-3 ${accepted && change.overwrites ? "line-through text-muted-foreground" : ""}`}>
+            {change.current || <span className="italic text-muted-foreground">Empty</span>}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">From resume</p>
+          <p className="line-clamp-3">{change.extracted}</p>
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+// Field-by-field review of extracted resume data against the profile; only
+// the changes the user accepts are applied
+export default function ResumeConfirmation({
+  profile,
+  extractedData,
+  confidenceScore,
+  onConfirm,
+  onCancel,
+  isLoading = false
 }: ResumeConfirmationProps) {
+  const plan = useMemo(
+    () => buildMergePlan(profile, extractedData, confidenceScore),
+    [profile, extractedData, confidenceScore]
+  );
+  const [accepted, setAccepted] = useState<Set<string>>(() => defaultDecisions(plan));
+
+  const toggle = (id: string, accept: boolean) =>
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (accept) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const confirm = () =>
+    onConfirm(
+      applyMergePlan(profile, extractedData, plan, accepted),
+      plan.changes.filter(change => accepted.has(change.id))
+    );
+
   return (
     <Card className="w-full max-w-4xl mx-auto">
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
+        <CardTitle className="flex flex-wrap items-center gap-2">
           <CheckCircle className="h-5 w-5 text-green-600" />
-          Resume Data Extracted Successfully
+          Review Extracted Resume Data
+          <ConfidenceBadge value={plan.confidence} />
         </CardTitle>
         <p className="text-muted-foreground">
-          Review the extracted information below and confirm to auto-fill your profile.
+          Compare what was found in your resume with your profile and accept the changes you want to keep.
         </p>
       </CardHeader>
-      
-      <CardContent className="space-y-6">
-        {/* Personal Information */}
-        {extractedData.personalInfo && Object.keys(extractedData.personalInfo).length > 0 && (
-          <div>
-            <div className="flex items-center gap-2 mb-3">
-              <User className="h-4 w-4" />
-              <h3 className="font-medium">Personal Information</h3>
-              <Badge variant="outline">{Object.keys(extractedData.personalInfo).filter(k => extractedData.personalInfo[k]).length} fields</Badge>
-            </div>
-            <div className="grid grid-cols-2 gap-2 text-sm bg-muted/30 p-3 rounded-lg">
-              {extractedData.personalInfo.fullName && (
-                <div><span className="font-medium">Name:</span> {extractedData.personalInfo.fullName}</div>
-              )}
-              {extractedData.personalInfo.email && (
-                <div><span className="font-medium">Email:</span> {extractedData.personalInfo.email}</div>
-              )}
-              {extractedData.personalInfo.phone && (
-                <div><span className="font-medium">Phone:</span> {extractedData.personalInfo.phone}</div>
-              )}
-              {extractedData.personalInfo.location && (
-                <div><span className="font-medium">Location:</span> {extractedData.personalInfo.location}</div>
-              )}
-            </div>
-          </div>
-        )}
 
-        {/* Education */}
-        {extractedData.education && extractedData.education.length > 0 && (
-          <div>
-            <div className="flex items-center gap-2 mb-3">
-              <GraduationCap className="h-4 w-4" />
-              <h3 className="font-medium">Education</h3>
-              <Badge variant="outline">{extractedData.education.length} entries</Badge>
-            </div>
-            <div className="space-y-2">
-              {extractedData.education.slice(0, 2).map((edu, index) => (
-                <div key={index} className="text-sm bg-muted/30 p-3 rounded-lg">
-                  <div className="font-medium">{edu.degree} in {edu.field}</div>
-                  <div className="text-muted-foreground">{edu.institution} ({edu.startYear} - {edu.endYear})</div>
-                </div>
-              ))}
-              {extractedData.education.length > 2 && (
-                <div className="text-sm text-muted-foreground">
-                  +{extractedData.education.length - 2} more entries
-                </div>
-              )}
-            </div>
-          </div>
-        )}
-
-        {/* Experience */}
-        {extractedData.experience && extractedData.experience.length > 0 && (
-          <div>
-            <div className="flex items-center gap-2 mb-3">
-              <Briefcase className="h-4 w-4" />
-              <h3 className="font-medium">Experience</h3>
-              <Badge variant="outline">{extractedData.experience.length} entries</Badge>
-            </div>
-            <div className="space-y-2">
-              {extractedData.experience.slice(0, 2).map((exp, index) => (
-                <div key={index} className="text-sm bg-muted/30 p-3 rounded-lg">
-                  <div className="font-medium">{exp.position}</div>
-                  <div className="text-muted-foreground">{exp.company} ({exp.startDate} - {exp.endDate || 'Present'})</div>
-                </div>
-              ))}
-              {extractedData.experience.length > 2 && (
-                <div className="text-sm text-muted-foreground">
-                  +{extractedData.experience.length - 2} more entries
-                </div>
-              )}
+      <CardContent className="space-y-6">
+        {plan.changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Everything found in this resume is already in your profile.
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {accepted.size} of {plan.changes.length} changes selected
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setAccepted(new Set(plan.changes.map(change => change.id)))}
+                disabled={isLoading}
+              >
+                Accept all
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setAccepted(new Set())} disabled={isLoading}>
+                Reject all
+              </Button>
             </div>
           </div>
         )}
 
-        {/* Skills */}
-        {extractedData.skills && extractedData.skills.length > 0 && (
-          <div>
-            <div className="flex items-center gap-2 mb-3">
-              <Code className="h-4 w-4" />
-              <h3 className="font-medium">Skills</h3>
-              <Badge variant="outline">{extractedData.skills.length} skills</Badge>
-            </div>
-            <div className="flex flex-wrap gap-2">
-              {extractedData.skills.slice(0, 10).map((skill, index) => (
-                <Badge key={index} variant="secondary" className="text-xs">
-                  {skill.name} ({skill.level})
-                </Badge>
-              ))}
-              {extractedData.skills.length > 10 && (
-                <Badge variant="outline" className="text-xs">
-                  +{extractedData.skills.length - 10} more
-                </Badge>
-              )}
-            </div>
-          </div>
-        )}
+        {SECTIONS.map(section => {
+          const changes = plan.changes.filter(change => change.section === section.id);
+          const duplicates = plan.duplicates.filter(duplicate => duplicate.section === section.id);
+          if (changes.length === 0 && duplicates.length === 0) return null;
 
-        {/* Projects */}
-        {extractedData.projects && extractedData.projects.length > 0 && (
-          <div>
-            <div className="flex items-center gap-2 mb-3">
-              <Code className="h-4 w-4" />
-              <h3 className="font-medium">Projects</h3>
-              <Badge variant="outline">{extractedData.projects.length} projects</Badge>
-            </div>
-            <div className="space-y-2">
-              {extractedData.projects.slice(0, 2).map((proj, index) => (
-                <div key={index} className="text-sm bg-muted/30 p-3 rounded-lg">
-                  <div className="font-medium">{proj.title}</div>
-                  <div className="text-muted-foreground line-clamp-2">{proj.description}</div>
-                </div>
-              ))}
-              {extractedData.projects.length > 2 && (
-                <div className="text-sm text-muted-foreground">
-                  +{extractedData.projects.length - 2} more projects
-                </div>
-              )}
-            </div>
-          </div>
-        )}
+          // Field changes to the same existing entry are shown together
+          const groups = changes.reduce<Array<{ entry?: string; changes: MergeChange[] }>>((acc, change) => {
+            const group = change.entry ? acc.find(item => item.entry === change.entry) : undefined;
+            if (group) group.changes.push(change);
+            else acc.push({ entry: change.entry, changes: [change] });
+            return acc;
+          }, []);
 
-        {/* Certifications */}
-        {extractedData.certifications && extractedData.certifications.length > 0 && (
-          <div>
-            <div className="flex items-center gap-2 mb-3">
-              <Award className="h-4 w-4" />
-              <h3 className="font-medium">Certifications</h3>
-              <Badge variant="outline">{extractedData.certifications.length} certificates</Badge>
-            </div>
-            <div className="space-y-2">
-              {extractedData.certifications.slice(0, 3).map((cert, index) => (
-                <div key={index} className="text-sm bg-muted/30 p-3 rounded-lg">
-                  <div className="font-medium">{cert.name}</div>
-                  <div className="text-muted-foreground">{cert.issuer}</div>
-                </div>
-              ))}
-              {extractedData.certifications.length > 3 && (
-                <div className="text-sm text-muted-foreground">
-                  +{extractedData.certifications.length - 3} more certificates
-                </div>
-              )}
+          return (
+            <div key={section.id}>
+              <div className="flex items-center gap-2 mb-3">
+                {section.icon}
+                <h3 className="font-medium">{section.title}</h3>
+                {changes.length > 0 && <Badge variant="outline">{changes.length} changes</Badge>}
+              </div>
+              <div className="space-y-3">
+                {groups.map((group, index) => (
+                  <div key={group.entry || index} className="space-y-2">
+                    {group.entry && (
+                      <p className="text-xs font-medium text-muted-foreground">
+                        Matches your existing entry: {group.entry}
+                      </p>
+                    )}
+                    {group.changes.map(change => (
+                      <ChangeRow
+                        key={change.id}
+                        change={change}
+                        accepted={accepted.has(change.id)}
+                        onToggle={(accept) => toggle(change.id, accept)}
+                        disabled={isLoading}
+                      />
+                    ))}
+                  </div>
+                ))}
+                {duplicates.length > 0 && (
+                  <p className="flex items-start gap-2 text-xs text-muted-foreground">
+                    <Copy className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    Already in your profile: {duplicates.map(duplicate => duplicate.label).join(", ")}
+                  </p>
+                )}
+              </div>
             </div>
-          </div>
-        )}
+          );
+        })}
 
         {/* Action Buttons */}
         <div className="flex gap-3 pt-4 border-t">
-          <Button 
-            onClick={onConfirm} 
-            disabled={isLoading}
+          <Button
+            onClick={confirm}
+            disabled={isLoading || accepted.size === 0}
             className="flex-1"
           >
-            {isLoading ? "Applying..." : "Apply Data to Profile"}
+            {isLoading ? "Applying..." : `Apply ${accepted.size} ${accepted.size === 1 ? "Change" : "Changes"}`}
           </Button>
-          <Button 
-            variant="outline" 
+          <Button
+            variant="outline"
             onClick={onCancel}
             disabled={isLoading}
           >
@@ -206,8 +241,8 @@ export default function ResumeConfirmation({
             <div>
               <div className="font-medium text-yellow-800 dark:text-yellow-200">Note:</div>
               <div className="text-yellow-700 dark:text-yellow-300">
-                This will replace your current profile data with the extracted information. 
-                You can always edit individual sections later.
+                Changes that would replace something already in your profile start out rejected.
+                Every applied set of changes is logged and can be undone from the Resume section of your profile.
               </div>
             </div>
           </div>
@@ -215,4 +250,4 @@ export default function ResumeConfirmation({
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,558 @@
+import { useEffect, useMemo, useState, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Check,
+  Copy,
+  Loader2,
+  Plus,
+  Sparkles,
+  Target,
+  Trash2,
+  X
+} from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useToast } from "@/hooks/use-toast";
+import { ResumeDesigner } from "@/components/profile/ResumeBuilder";
+import VariantApplications from "@/components/profile/VariantApplications";
+import { ResumeVariant, VariantInput, resumeVariantService } from "@/api/services/resumeVariantService";
+import {
+  BulletSuggestion,
+  ResumeLayout,
+  VariantBullet,
+  VariantBullets,
+  buildResumeDocument,
+  keywordCoverage,
+  offlineBulletSuggestions,
+  variantLayout,
+} from "@/lib/resume";
+import { Experience } from "@/types/profile";
+
+type VariantChanges = Partial<VariantInput> & { layout?: ResumeLayout; bullets?: VariantBullets };
+
+interface VariantEditorProps {
+  variant: ResumeVariant;
+  onUpdate: (changes: VariantChanges) => void;
+}
+
+function VariantEditor({ variant, onUpdate }: VariantEditorProps) {
+  const { toast } = useToast();
+  const [newKeyword, setNewKeyword] = useState("");
+  const [suggestions, setSuggestions] = useState<Record<string, BulletSuggestion[]>>({});
+  const [suggestingFor, setSuggestingFor] = useState<string | null>(null);
+
+  const layout = useMemo(() => variantLayout(variant.layout, variant.bullets), [variant.layout, variant.bullets]);
+  const coverage = useMemo(
+    () => keywordCoverage(buildResumeDocument(variant.content, layout), variant.target_keywords),
+    [variant.content, layout, variant.target_keywords]
+  );
+
+  const saveField = (field: "name" | "company" | "job_role", value: string) => {
+    const trimmed = value.trim();
+    if (field === "name" && !trimmed) return;
+    if (trimmed !== (variant[field] || "")) {
+      onUpdate({ [field]: trimmed || null });
+    }
+  };
+
+  const addKeyword = () => {
+    const keyword = newKeyword.trim();
+    if (!keyword) return;
+    if (!variant.target_keywords.some(existing => existing.toLowerCase() === keyword.toLowerCase())) {
+      onUpdate({ target_keywords: [...variant.target_keywords, keyword] });
+    }
+    setNewKeyword("");
+  };
+
+  const updateBullets = (experienceId: string, items: VariantBullet[]) =>
+    onUpdate({ bullets: { ...variant.bullets, [experienceId]: items } });
+
+  const moveBullet = (experienceId: string, index: number, offset: number) => {
+    const items = [...(variant.bullets[experienceId] || [])];
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    [items[index], items[target]] = [items[target], items[index]];
+    updateBullets(experienceId, items);
+  };
+
+  const suggestRewrites = async (experience: Experience) => {
+    const bullets = (variant.bullets[experience.id] || []).filter(item => item.included).map(item => item.text);
+    if (coverage.missing.length === 0) {
+      toast({ title: "All Keywords Covered", description: "This version already mentions every target keyword." });
+      return;
+    }
+
+    // Only keywords the profile backs up may be worked into a bullet
+    const supported = [...experience.technologies, ...variant.content.skills.map(skill => skill.name)];
+
+    setSuggestingFor(experience.id);
+    let results: BulletSuggestion[];
+    try {
+      results = await resumeVariantService.suggestBullets(variant, bullets, coverage.missing, supported);
+    } catch (error) {
+      console.error('Error suggesting bullets, using offline suggestions:', error);
+      results = offlineBulletSuggestions(bullets, coverage.missing, supported);
+    } finally {
+      setSuggestingFor(null);
+    }
+
+    if (results.length === 0) {
+      toast({
+        title: "No Suggestions",
+        description: "None of the missing keywords are backed by this role's technologies or your skills."
+      });
+    }
+    setSuggestions(prev => ({ ...prev, [experience.id]: results }));
+  };
+
+  const dismissSuggestion = (experienceId: string, suggestion: BulletSuggestion) =>
+    setSuggestions(prev => ({
+      ...prev,
+      [experienceId]: (prev[experienceId] || []).filter(item => item !== suggestion)
+    }));
+
+  // The rewrite goes in right after the bullet it replaces, which is left out
+  const acceptSuggestion = (experienceId: string, suggestion: BulletSuggestion) => {
+    const items = variant.bullets[experienceId] || [];
+    const index = items.findIndex(item => item.text === suggestion.original);
+    const rewritten: VariantBullet = { text: suggestion.rewritten, included: true, rewritten: true };
+    const next = index === -1
+      ? [...items, rewritten]
+      : [
+          ...items.slice(0, index),
+          { ...items[index], included: false },
+          rewritten,
+          ...items.slice(index + 1)
+        ];
+
+    updateBullets(experienceId, next);
+    dismissSuggestion(experienceId, suggestion);
+  };
+
+  return (
+    <Tabs defaultValue="tailor">
+      <TabsList>
+        <TabsTrigger value="tailor">Tailor</TabsTrigger>
+        <TabsTrigger value="design">Design & Export</TabsTrigger>
+        <TabsTrigger value="applications">Applications</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="tailor" className="space-y-6 mt-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Target Job</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="variant-name">Name</Label>
+              <Input id="variant-name" defaultValue={variant.name} onBlur={(e) => saveField("name", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="variant-role">Role</Label>
+              <Input id="variant-role" defaultValue={variant.job_role || ""} onBlur={(e) => saveField("job_role", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="variant-company">Company</Label>
+              <Input id="variant-company" defaultValue={variant.company || ""} onBlur={(e) => saveField("company", e.target.value)} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Target className="h-4 w-4" />
+              Keyword Coverage
+              {variant.target_keywords.length > 0 && (
+                <span className="text-sm font-normal text-muted-foreground">
+                  {coverage.found.length}/{variant.target_keywords.length}
+                </span>
+              )}
+            </CardTitle>
+            <CardDescription>Keywords from the job description and whether this version mentions them.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {variant.target_keywords.map(keyword => (
+                <Badge
+                  key={keyword}
+                  variant={coverage.found.includes(keyword) ? "default" : "outline"}
+                  className="gap-1"
+                >
+                  {coverage.found.includes(keyword) && <Check className="h-3 w-3" />}
+                  {keyword}
+                  <button
+                    type="button"
+                    aria-label={`Remove ${keyword}`}
+                    onClick={() => onUpdate({ target_keywords: variant.target_keywords.filter(item => item !== keyword) })}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {variant.target_keywords.length === 0 && (
+                <p className="text-sm text-muted-foreground">No target keywords yet.</p>
+              )}
+            </div>
+            <div className="flex gap-2 max-w-sm">
+              <Input
+                placeholder="Add a keyword"
+                value={newKeyword}
+                onChange={(e) => setNewKeyword(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addKeyword()}
+              />
+              <Button variant="outline" onClick={addKeyword} disabled={!newKeyword.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {(variant.skill_gaps.length > 0 || variant.advice.length > 0) && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
+                {variant.skill_gaps.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium mb-2">Skill gaps</p>
+                    <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+                      {variant.skill_gaps.map((gap, index) => <li key={index}>{gap}</li>)}
+                    </ul>
+                  </div>
+                )}
+                {variant.advice.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium mb-2">Advice for this role</p>
+                    <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+                      {variant.advice.map((item, index) => <li key={index}>{item}</li>)}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Experience Bullets</CardTitle>
+            <CardDescription>Choose and order the bullets this version shows for each role.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {variant.content.experience.length === 0 && (
+              <p className="text-sm text-muted-foreground">This version has no work experience.</p>
+            )}
+            {variant.content.experience.map(experience => {
+              const items = variant.bullets[experience.id] || [];
+              const pending = suggestions[experience.id] || [];
+
+              return (
+                <div key={experience.id} className="space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium">{experience.position}</p>
+                      <p className="text-sm text-muted-foreground">{experience.company}</p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => suggestRewrites(experience)}
+                      disabled={suggestingFor !== null || items.length === 0}
+                    >
+                      {suggestingFor === experience.id
+                        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        : <Sparkles className="h-4 w-4 mr-2" />}
+                      Suggest rewrites
+                    </Button>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    {items.map((item, index) => (
+                      <div key={`${index}-${item.text}`} className="flex items-start gap-2 text-sm">
+                        <Checkbox
+                          className="mt-0.5"
+                          checked={item.included}
+                          onCheckedChange={(checked) => updateBullets(
+                            experience.id,
+                            items.map((existing, i) => i === index ? { ...existing, included: checked === true } : existing)
+                          )}
+                        />
+                        <span className={`flex-1 ${item.included ? "" : "text-muted-foreground line-through"}`}>
+                          {item.text}
+                          {item.rewritten && <Badge variant="secondary" className="ml-2 text-xs">Rewritten</Badge>}
+                        </span>
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === 0} onClick={() => moveBullet(experience.id, index, -1)}>
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          disabled={index === items.length - 1}
+                          onClick={() => moveBullet(experience.id, index, 1)}
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                        {item.rewritten && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() => updateBullets(experience.id, items.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {pending.length > 0 && (
+                    <div className="space-y-2 border-l-2 border-primary/40 pl-3">
+                      {pending.map((suggestion, index) => (
+                        <div key={index} className="text-sm space-y-1">
+                          <p>{suggestion.rewritten}</p>
+                          <div className="flex items-center gap-2">
+                            {suggestion.keywords.map(keyword => (
+                              <Badge key={keyword} variant="outline" className="text-xs">{keyword}</Badge>
+                            ))}
+                            <Button size="sm" variant="ghost" className="h-7" onClick={() => acceptSuggestion(experience.id, suggestion)}>
+                              <Check className="h-3 w-3 mr-1" />
+                              Use
+                            </Button>
+                            <Button size="sm" variant="ghost" className="h-7" onClick={() => dismissSuggestion(experience.id, suggestion)}>
+                              Dismiss
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="design" className="mt-6">
+        <ResumeDesigner
+          source={variant.content}
+          layout={variant.layout}
+          onLayoutChange={(next) => onUpdate({ layout: next })}
+          entryBullets={layout.entryBullets}
+          fileLabel={variant.company || variant.name}
+          title="Design & Export"
+          description="Export this version as PDF or Word without changing your main resume."
+        />
+      </TabsContent>
+
+      <TabsContent value="applications" className="mt-6">
+        <VariantApplications variant={variant} />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+export default function ResumeVariants() {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [variants, setVariants] = useState<ResumeVariant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState("");
+
+  const selected = variants.find(variant => variant.id === searchParams.get("variant")) || null;
+
+  const selectVariant = (variantId: string | null) =>
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (variantId) next.set("variant", variantId);
+      else next.delete("variant");
+      return next;
+    }, { replace: true });
+
+  const loadVariants = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      setVariants(await resumeVariantService.getVariants(user.id));
+    } catch (error) {
+      console.error('Error loading resume variants:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your tailored resumes.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    loadVariants();
+  }, [loadVariants]);
+
+  const createVariant = async () => {
+    if (!user || !profile || !newName.trim()) return;
+
+    try {
+      setIsCreating(true);
+      const variant = await resumeVariantService.createVariant(user.id, profile, { name: newName.trim() });
+      setVariants(prev => [variant, ...prev]);
+      setNewName("");
+      selectVariant(variant.id);
+    } catch (error) {
+      console.error('Error creating resume variant:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create the tailored resume.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const duplicateVariant = async (variant: ResumeVariant) => {
+    try {
+      const copy = await resumeVariantService.duplicateVariant(variant, `${variant.name} (copy)`);
+      setVariants(prev => [copy, ...prev]);
+    } catch (error) {
+      console.error('Error duplicating resume variant:', error);
+      toast({
+        title: "Error",
+        description: "Failed to duplicate the tailored resume.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteVariant = async (variant: ResumeVariant) => {
+    if (!confirm(`Delete "${variant.name}" and its application history?`)) return;
+
+    try {
+      await resumeVariantService.deleteVariant(variant.id);
+      setVariants(prev => prev.filter(item => item.id !== variant.id));
+      if (selected?.id === variant.id) selectVariant(null);
+    } catch (error) {
+      console.error('Error deleting resume variant:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the tailored resume.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Changes show straight away and are saved in the background
+  const updateVariant = async (variantId: string, changes: VariantChanges) => {
+    setVariants(prev => prev.map(variant => variant.id === variantId ? { ...variant, ...changes } as ResumeVariant : variant));
+
+    try {
+      await resumeVariantService.updateVariant(variantId, changes);
+    } catch (error) {
+      console.error('Error saving resume variant:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your changes.",
+        variant: "destructive"
+      });
+      loadVariants();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (selected) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={() => selectVariant(null)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All versions
+          </Button>
+          <h2 className="text-2xl font-semibold">{selected.name}</h2>
+        </div>
+        <VariantEditor
+          key={selected.id}
+          variant={selected}
+          onUpdate={(changes) => updateVariant(selected.id, changes)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2">Tailored Resumes</h2>
+        <p className="text-muted-foreground">
+          Copies of your profile tailored to one job. Changes here don't affect your main profile.
+        </p>
+      </div>
+
+      <div className="flex gap-2 max-w-md">
+        <Input
+          placeholder="e.g. Frontend Developer at Acme"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && createVariant()}
+        />
+        <Button onClick={createVariant} disabled={!profile || !newName.trim() || isCreating}>
+          {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          New version
+        </Button>
+      </div>
+
+      {variants.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No tailored resumes yet. Create one here or from the Resume Analyzer after analysing a job.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {variants.map(variant => (
+            <Card key={variant.id} className="cursor-pointer hover:border-primary/50 transition-colors" onClick={() => selectVariant(variant.id)}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">{variant.name}</CardTitle>
+                <CardDescription>
+                  {[variant.job_role, variant.company].filter(Boolean).join(" at ") || "No target job set"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  Updated {new Date(variant.updated_at).toLocaleDateString()}
+                </span>
+                <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                  <Button variant="ghost" size="sm" onClick={() => duplicateVariant(variant)} aria-label="Duplicate">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteVariant(variant)} aria-label="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
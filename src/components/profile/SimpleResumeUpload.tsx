@@ -8,16 +8,20 @@ import { Upload, FileText, Trash2, Bot, CheckCircle } from "lucide-react";
 import { useProfile } from "@/hooks/useProfile";
 import { useToast } from "@/hooks/use-toast";
 import ResumeFilePreview from "./ResumeFilePreview";
+import ProfileMergeDialog from "./ProfileMergeDialog";
+import ProfileMergeLog from "./ProfileMergeLog";
 import { ExtractedResumeData } from "@/types/resume";
 
 const SimpleResumeUpload = () => {
-  const { profile, uploadResume, applyExtractedData, deleteResume } = useProfile();
+  const { profile, uploadResume, undoMerge, deleteResume } = useProfile();
   const { toast } = useToast();
   
   const [uploadProgress, setUploadProgress] = useState(0);
   const [currentFile, setCurrentFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [aiStage, setAiStage] = useState<string>('');
+  const [extraction, setExtraction] = useState<{ data: ExtractedResumeData; confidence: number; source: string } | null>(null);
+  const [mergeLogKey, setMergeLogKey] = useState(0);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
@@ -100,33 +104,13 @@ const SimpleResumeUpload = () => {
       setAiStage("🎉 Analysis complete!");
       
       if (result?.success && result?.extracted_data) {
-        // Show AI agent toast for confirmation
-        setTimeout(() => {
-          toast({
-            title: "🤖 AI Agent Ready!",
-            description: "I've analyzed your resume and extracted your profile data.",
-            duration: 3000,
-          });
-          
-          // Follow up with decision toast
-          setTimeout(() => {
-            const shouldFill = window.confirm(
-              "🤖 AI Agent: I've extracted your profile data from the resume. Should I auto-fill your profile now?\n\nClick OK to fill your profile, or Cancel to skip."
-            );
-            
-            if (shouldFill) {
-              handleAutoFill(result.extracted_data);
-            } else {
-              setCurrentFile(null);
-              setUploadProgress(0);
-              setIsProcessing(false);
-              toast({
-                title: "No problem!",
-                description: "Your resume is saved. You can fill your profile manually or upload again later.",
-              });
-            }
-          }, 1000);
-        }, 1000);
+        setIsProcessing(false);
+        toast({
+          title: "🤖 AI Agent Ready!",
+          description: "I've extracted your profile data. Review what should go into your profile.",
+          duration: 3000,
+        });
+        setExtraction({ data: result.extracted_data, confidence: result.confidence_score, source: file.name });
       } else {
         throw new Error(result?.message || 'Failed to process resume');
       }
@@ -143,33 +127,11 @@ const SimpleResumeUpload = () => {
     }
   };
 
-  const handleAutoFill = async (extractedData: ExtractedResumeData) => {
-    toast({
-      title: "🤖 AI Agent Working...",
-      description: "I'm now filling your profile with the extracted data.",
-    });
-
-    try {
-      const success = await applyExtractedData(extractedData);
-      
-      if (success) {
-        setCurrentFile(null);
-        setUploadProgress(0);
-        setIsProcessing(false);
-        
-        toast({
-          title: "✨ Profile Updated!",
-          description: "I've successfully filled your profile with AI-extracted data. Check out your sections!",
-        });
-      }
-    } catch (error) {
-      console.error('Error applying extracted data:', error);
-      toast({
-        title: "Update Failed",
-        description: "I couldn't update your profile. Please try again.",
-        variant: "destructive",
-      });
-    }
+  const closeReview = (open: boolean) => {
+    if (open) return;
+    setExtraction(null);
+    setCurrentFile(null);
+    setUploadProgress(0);
   };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -335,6 +297,19 @@ const SimpleResumeUpload = () => {
           </Card>
         </div>
       )}
+
+      {profile?.userId && (
+        <ProfileMergeLog userId={profile.userId} refreshKey={mergeLogKey} onUndo={undoMerge} />
+      )}
+
+      <ProfileMergeDialog
+        open={!!extraction}
+        onOpenChange={closeReview}
+        extractedData={extraction?.data || null}
+        confidenceScore={extraction?.confidence}
+        source={extraction?.source}
+        onMergeChange={() => setMergeLogKey(key => key + 1)}
+      />
     </div>
   );
 };
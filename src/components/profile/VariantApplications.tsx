@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Send, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  APPLICATION_STATUSES,
+  ApplicationStatus,
+  ResumeVariant,
+  VariantApplication,
+  resumeVariantService
+} from "@/api/services/resumeVariantService";
+
+interface VariantApplicationsProps {
+  variant: ResumeVariant;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Where a variant was sent and how each application is going
+export default function VariantApplications({ variant }: VariantApplicationsProps) {
+  const { toast } = useToast();
+  const [applications, setApplications] = useState<VariantApplication[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [company, setCompany] = useState(variant.company || "");
+  const [position, setPosition] = useState(variant.job_role || "");
+  const [sentAt, setSentAt] = useState(today());
+
+  useEffect(() => {
+    const loadApplications = async () => {
+      try {
+        setIsLoading(true);
+        setApplications(await resumeVariantService.getApplications(variant.id));
+      } catch (error) {
+        console.error('Error loading applications:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadApplications();
+  }, [variant.id]);
+
+  const addApplication = async () => {
+    if (!company.trim()) return;
+
+    try {
+      setIsSaving(true);
+      const application = await resumeVariantService.addApplication(variant, {
+        company: company.trim(),
+        position: position.trim() || null,
+        sent_at: sentAt
+      });
+      setApplications(prev => [application, ...prev]);
+      setCompany("");
+      setPosition(variant.job_role || "");
+      setSentAt(today());
+    } catch (error) {
+      console.error('Error recording application:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record the application. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateStatus = async (application: VariantApplication, status: ApplicationStatus) => {
+    setApplications(prev => prev.map(item => item.id === application.id ? { ...item, status } : item));
+    try {
+      await resumeVariantService.updateApplicationStatus(application.id, status);
+    } catch (error) {
+      console.error('Error updating application:', error);
+      setApplications(prev => prev.map(item => item.id === application.id ? application : item));
+      toast({
+        title: "Error",
+        description: "Failed to update the application status.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteApplication = async (application: VariantApplication) => {
+    if (!confirm(`Remove the application to ${application.company}?`)) return;
+
+    try {
+      await resumeVariantService.deleteApplication(application.id);
+      setApplications(prev => prev.filter(item => item.id !== application.id));
+    } catch (error) {
+      console.error('Error deleting application:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the application.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Send className="h-4 w-4" />
+          Applications
+        </CardTitle>
+        <CardDescription>Keep track of which companies received this version of your resume.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1.5">
+            <Label htmlFor="application-company">Company *</Label>
+            <Input id="application-company" value={company} onChange={(e) => setCompany(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="application-position">Position</Label>
+            <Input id="application-position" value={position} onChange={(e) => setPosition(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="application-date">Sent on</Label>
+            <Input id="application-date" type="date" value={sentAt} onChange={(e) => setSentAt(e.target.value)} />
+          </div>
+          <Button onClick={addApplication} disabled={!company.trim() || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Record
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : applications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            You haven't sent this resume anywhere yet.
+          </p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {applications.map(application => (
+              <div key={application.id} className="flex flex-wrap items-center gap-3 p-3">
+                <div className="flex-1 min-w-[12rem]">
+                  <p className="font-medium">{application.company}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[application.position, new Date(`${application.sent_at}T00:00:00`).toLocaleDateString()].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+                <Select
+                  value={application.status}
+                  onValueChange={(value) => updateStatus(application, value as ApplicationStatus)}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {APPLICATION_STATUSES.map(status => (
+                      <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="sm" onClick={() => deleteApplication(application)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { GitCompare, History, Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ResumeAnalysisRecord,
+  ResumeAnalysisSummary,
+  resumeAnalysisService
+} from "@/api/services/resumeAnalysisService";
+import { scoreTimelines } from "@/lib/resumeHistory";
+import ResumeVersionDiff from "@/components/resume/ResumeVersionDiff";
+
+interface ResumeAnalysisHistoryProps {
+  userId: string;
+  // Bumped by the page after it saves a new analysis
+  refreshKey?: number;
+}
+
+const chartConfig: ChartConfig = {
+  overall: { label: "Overall", color: "hsl(221 83% 53%)" },
+  ats: { label: "ATS", color: "hsl(262 83% 58%)" },
+  jobMatch: { label: "Job Match", color: "hsl(142 71% 45%)" }
+};
+
+const shortDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+// Scores over time for each job role, with two versions of the same role
+// selectable for a side-by-side comparison
+export default function ResumeAnalysisHistory({ userId, refreshKey }: ResumeAnalysisHistoryProps) {
+  const { toast } = useToast();
+  const [analyses, setAnalyses] = useState<ResumeAnalysisSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [role, setRole] = useState<string>("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<[ResumeAnalysisRecord, ResumeAnalysisRecord] | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  useEffect(() => {
+    const loadAnalyses = async () => {
+      try {
+        setIsLoading(true);
+        setAnalyses(await resumeAnalysisService.getAnalyses(userId));
+      } catch (error) {
+        console.error('Error loading resume analyses:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadAnalyses();
+  }, [userId, refreshKey]);
+
+  const timelines = useMemo(() => scoreTimelines(analyses), [analyses]);
+  // Default to the role analyzed most recently
+  const timeline = timelines.find(item => item.role === role)
+    || timelines.find(item => item.points.some(point => point.id === analyses[0]?.id))
+    || null;
+
+  const versions = timeline
+    ? analyses.filter(analysis => timeline.points.some(point => point.id === analysis.id))
+    : [];
+
+  const selectRole = (next: string) => {
+    setRole(next);
+    setSelected([]);
+    setComparison(null);
+  };
+
+  // Keeps at most two versions selected, dropping the oldest pick
+  const toggleSelected = (id: string) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id].slice(-2));
+
+  const compare = async () => {
+    try {
+      setIsComparing(true);
+      const records = await resumeAnalysisService.getAnalysesByIds(selected);
+      if (records.length !== 2) return;
+      const [before, after] = [...records].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      setComparison([before, after]);
+    } catch (error) {
+      console.error('Error loading versions to compare:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the selected versions.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const deleteAnalysis = async (analysis: ResumeAnalysisSummary) => {
+    if (!confirm(`Delete the analysis of ${analysis.filename} from ${shortDate(analysis.created_at)}?`)) return;
+
+    try {
+      await resumeAnalysisService.deleteAnalysis(analysis);
+      setAnalyses(prev => prev.filter(item => item.id !== analysis.id));
+      setSelected(prev => prev.filter(id => id !== analysis.id));
+      if (comparison?.some(record => record.id === analysis.id)) setComparison(null);
+    } catch (error) {
+      console.error('Error deleting resume analysis:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the analysis.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (analyses.length === 0) return null;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Analysis History
+            </CardTitle>
+            <CardDescription>How your scores changed across resume versions for each role.</CardDescription>
+          </div>
+          {timelines.length > 1 && (
+            <Select value={timeline?.role} onValueChange={selectRole}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timelines.map(item => (
+                  <SelectItem key={item.role} value={item.role}>{item.role}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {timeline && timeline.points.length > 1 && (
+            <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto">
+              <LineChart
+                data={timeline.points.map(point => ({ ...point, label: shortDate(point.date) }))}
+                margin={{ left: 0, right: 12, top: 8 }}
+              >
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={12} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {Object.keys(chartConfig).map(key => (
+                  <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {versions.length > 1 ? "Select two versions to compare them." : "Analyze an updated resume for this role to compare versions."}
+              </p>
+              <Button size="sm" onClick={compare} disabled={selected.length !== 2 || isComparing}>
+                {isComparing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitCompare className="h-4 w-4 mr-2" />}
+                Compare
+              </Button>
+            </div>
+
+            <div className="divide-y border rounded-lg">
+              {versions.map(analysis => (
+                <label key={analysis.id} className="flex items-center gap-3 p-3 cursor-pointer">
+                  <Checkbox checked={selected.includes(analysis.id)} onCheckedChange={() => toggleSelected(analysis.id)} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{analysis.filename}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(analysis.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  {analysis.source === "offline" && <Badge variant="outline">Offline</Badge>}
+                  <div className="text-right text-sm">
+                    <p className="font-semibold">{analysis.overall_score}</p>
+                    <p className="text-xs text-muted-foreground">ATS {analysis.ats_score} · Match {analysis.job_match_score}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      deleteAnalysis(analysis);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </label>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {comparison && <ResumeVersionDiff before={comparison[0]} after={comparison[1]} />}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { ReactNode, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ArrowRight, CheckCircle2, CircleDot, GitCompare, PlusCircle } from "lucide-react";
+import { ResumeAnalysisRecord } from "@/api/services/resumeAnalysisService";
+import { compareRecommendations, diffLines, resolvedKeywords } from "@/lib/resumeHistory";
+
+interface ResumeVersionDiffProps {
+  // Ordered oldest first
+  before: ResumeAnalysisRecord;
+  after: ResumeAnalysisRecord;
+}
+
+const SCORES: Array<{ key: "overall_score" | "ats_score" | "job_match_score"; label: string }> = [
+  { key: "overall_score", label: "Overall" },
+  { key: "ats_score", label: "ATS" },
+  { key: "job_match_score", label: "Job Match" }
+];
+
+const versionLabel = (record: ResumeAnalysisRecord) =>
+  `${record.filename} · ${new Date(record.created_at).toLocaleDateString()}`;
+
+const RecommendationList = ({ title, icon, items, empty }: {
+  title: string;
+  icon: ReactNode;
+  items: string[];
+  empty: string;
+}) => (
+  <div className="space-y-2">
+    <p className="text-sm font-medium flex items-center gap-2">
+      {icon}
+      {title}
+      <span className="text-muted-foreground font-normal">({items.length})</span>
+    </p>
+    {items.length === 0 ? (
+      <p className="text-sm text-muted-foreground">{empty}</p>
+    ) : (
+      <ul className="space-y-1.5 text-sm">
+        {items.map((item, index) => (
+          <li key={index} className="border-l-2 pl-2">{item}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+// Score changes, resolved recommendations and a line diff of the extracted
+// text between two analyzed versions
+export default function ResumeVersionDiff({ before, after }: ResumeVersionDiffProps) {
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  const lines = useMemo(
+    () => diffLines(before.extracted_text || "", after.extracted_text || ""),
+    [before.extracted_text, after.extracted_text]
+  );
+  const recommendations = useMemo(
+    () => compareRecommendations(before.recommendations, after.recommendations),
+    [before.recommendations, after.recommendations]
+  );
+  const keywords = useMemo(
+    () => resolvedKeywords(before.analysis.missing_keywords || [], after.extracted_text || ""),
+    [before.analysis.missing_keywords, after.extracted_text]
+  );
+
+  const added = lines.filter(line => line.type === "added").length;
+  const removed = lines.filter(line => line.type === "removed").length;
+  const shown = changesOnly ? lines.filter(line => line.type !== "same") : lines;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Version Comparison
+        </CardTitle>
+        <CardDescription className="flex flex-wrap items-center gap-2">
+          <span>{versionLabel(before)}</span>
+          <ArrowRight className="h-3 w-3" />
+          <span>{versionLabel(after)}</span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          {SCORES.map(({ key, label }) => {
+            const delta = after[key] - before[key];
+            return (
+              <div key={key} className="space-y-1">
+                <p className="text-sm text-muted-foreground">{label}</p>
+                <p className="text-lg font-semibold">
+                  {before[key]} <ArrowRight className="inline h-4 w-4 text-muted-foreground" /> {after[key]}
+                </p>
+                <p className={`text-xs ${delta > 0 ? "text-green-600" : delta < 0 ? "text-red-600" : "text-muted-foreground"}`}>
+                  {delta > 0 ? `+${delta}` : delta}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        {before.source !== after.source && (
+          <p className="text-xs text-muted-foreground">
+            One version was scored by the AI analyzer and the other by the offline ATS check, so score changes are approximate.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <RecommendationList
+            title="Resolved"
+            icon={<CheckCircle2 className="h-4 w-4 text-green-600" />}
+            items={recommendations.resolved}
+            empty="None of the earlier recommendations were resolved."
+          />
+          <RecommendationList
+            title="Still open"
+            icon={<CircleDot className="h-4 w-4 text-amber-500" />}
+            items={recommendations.remaining}
+            empty="Every earlier recommendation was addressed."
+          />
+          <RecommendationList
+            title="New"
+            icon={<PlusCircle className="h-4 w-4 text-blue-500" />}
+            items={recommendations.introduced}
+            empty="No new recommendations."
+          />
+        </div>
+
+        {keywords.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Keywords added since the earlier version</p>
+            <div className="flex flex-wrap gap-2">
+              {keywords.map(keyword => (
+                <Badge key={keyword} className="bg-green-100 text-green-800 hover:bg-green-100">{keyword}</Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm font-medium">
+              Text changes
+              <span className="ml-2 text-green-600">+{added}</span>
+              <span className="ml-2 text-red-600">-{removed}</span>
+            </p>
+            <div className="flex items-center gap-2">
+              <Switch id="changes-only" checked={changesOnly} onCheckedChange={setChangesOnly} />
+              <Label htmlFor="changes-only" className="text-sm">Changes only</Label>
+            </div>
+          </div>
+
+          {!before.extracted_text || !after.extracted_text ? (
+            <p className="text-sm text-muted-foreground">
+              The text of one of these versions wasn't saved, so the two can't be compared line by line.
+            </p>
+          ) : shown.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The text of the two versions is identical.</p>
+          ) : (
+            <div className="max-h-[480px] overflow-y-auto rounded-lg border font-mono text-xs">
+              {shown.map((line, index) => (
+                <div
+                  key={index}
+                  className={`px-3 py-0.5 whitespace-pre-wrap ${
+                    line.type === "added"
+                      ? "bg-green-50 text-green-900"
+                      : line.type === "removed"
+                        ? "bg-red-50 text-red-900 line-through decoration-red-300"
+                        : "text-muted-foreground"
+                  }`}
+                >
+                  <span className="select-none mr-2">{line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}</span>
+                  {line.text}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, ChartConfig } from '@/components/ui/chart';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Activity, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { AIQuota, AIUsageRecord, TodayUsage, usageService } from '@/api/services/usageService';
+import { USAGE_FEATURES, formatTokens, summarizeUsage } from '@/lib/aiUsage';
+
+const RANGES = [7, 30];
+
+const chartConfig: ChartConfig = Object.fromEntries(
+  USAGE_FEATURES.map(feature => [feature.id, { label: feature.label, color: feature.color }])
+);
+
+const featureLabel = (id: string) => USAGE_FEATURES.find(feature => feature.id === id)?.label || id;
+
+const QuotaBar: React.FC<{ label: string; used: number; limit: number | null; format: (value: number) => string }> = ({
+  label,
+  used,
+  limit,
+  format,
+}) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-sm">
+      <span>{label}</span>
+      <span className="text-muted-foreground">
+        {format(used)}{limit !== null ? ` / ${format(limit)}` : ''}
+      </span>
+    </div>
+    {limit !== null && <Progress value={limit > 0 ? Math.min(100, (used / limit) * 100) : 100} className="h-2" />}
+  </div>
+);
+
+const AIUsageCard: React.FC = () => {
+  const { user } = useAuth();
+  const [days, setDays] = useState(7);
+  const [records, setRecords] = useState<AIUsageRecord[]>([]);
+  const [today, setToday] = useState<TodayUsage | null>(null);
+  const [quota, setQuota] = useState<AIQuota | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadUsage = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const [usage, todayUsage, userQuota] = await Promise.all([
+        usageService.getUsage(user.id, since),
+        usageService.getTodayUsage(user.id),
+        usageService.getQuota(user.id),
+      ]);
+      setRecords(usage);
+      setToday(todayUsage);
+      setQuota(userQuota);
+    } catch (error) {
+      console.error('Error loading AI usage:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, days]);
+
+  useEffect(() => {
+    if (user) {
+      loadUsage();
+    }
+  }, [user, loadUsage]);
+
+  const summary = summarizeUsage(records, days);
+  const usedFeatures = summary.byFeature.map(item => item.feature);
+  const chartData = summary.days.map(day => ({
+    ...day,
+    day: new Date(`${day.date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <Activity className="w-5 h-5 mr-2" />
+              AI Usage
+            </CardTitle>
+            <CardDescription>Tokens spent on AI features. Days and limits follow UTC.</CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map(range => (
+                <SelectItem key={range} value={String(range)}>Last {range} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {today && (
+              <div className="space-y-3">
+                <QuotaBar label="Tokens today" used={today.totalTokens} limit={quota?.daily_token_limit ?? null} format={formatTokens} />
+                <QuotaBar label="Requests today" used={today.requestCount} limit={quota?.daily_request_limit ?? null} format={String} />
+                {!quota && (
+                  <p className="text-xs text-muted-foreground">The server's default daily limits apply to your account.</p>
+                )}
+              </div>
+            )}
+
+            {summary.totalRequests === 0 ? (
+              <div className="text-center py-4 text-muted-foreground">
+                No AI usage in the last {days} days.
+              </div>
+            ) : (
+              <>
+                <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto">
+                  <BarChart data={chartData} margin={{ left: 0, right: 12, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={12} />
+                    <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={formatTokens} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {usedFeatures.map(feature => (
+                      <Bar key={feature} dataKey={feature} stackId="tokens" fill={`var(--color-${feature})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+
+                <div className="space-y-2">
+                  {summary.byFeature.map(item => (
+                    <div key={item.feature} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2">
+                        <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: chartConfig[item.feature].color }} />
+                        {featureLabel(item.feature)}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {formatTokens(item.tokens)} tokens · {item.requests} {item.requests === 1 ? 'request' : 'requests'}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between text-sm font-medium border-t pt-2">
+                    <span>Total</span>
+                    <span>
+                      {formatTokens(summary.totalTokens)} tokens · {summary.totalRequests} {summary.totalRequests === 1 ? 'request' : 'requests'}
+                    </span>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AIUsageCard;
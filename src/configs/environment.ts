@@ -2,6 +2,17 @@
 // Environment variables
 export const FLASK_API_URL = import.meta.env.VITE_FLASK_API_URL || "http://localhost:5000";
 export const ENABLE_ANALYTICS = import.meta.env.VITE_ENABLE_ANALYTICS === "true";
+export const CODE_RUNNER_URL = import.meta.env.VITE_CODE_RUNNER_URL || "http://localhost:8008";
+export const TRANSCRIPTION_URL = import.meta.env.VITE_TRANSCRIPTION_URL || "http://localhost:8009";
+// "llm" grades answers through the edge function with an offline fallback; "offline" never calls it
+export const ANSWER_SCORER = import.meta.env.VITE_ANSWER_SCORER || "llm";
+export const FACIAL_ANALYZER_URL = import.meta.env.VITE_FACIAL_ANALYZER_URL || FLASK_API_URL;
+// Face landmark model assets; point these at self-hosted copies to run fully offline
+export const FACE_LANDMARKER_WASM_URL =
+  import.meta.env.VITE_FACE_LANDMARKER_WASM_URL || "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@1.0.1/wasm";
+export const FACE_LANDMARKER_MODEL_URL =
+  import.meta.env.VITE_FACE_LANDMARKER_MODEL_URL ||
+  "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
 
 // Note: OPENAI_API_KEY is now securely managed through Supabase Edge Functions and secrets
 // Do not use or reference it directly in client-side code
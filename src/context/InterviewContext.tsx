@@ -1,11 +1,36 @@
-import React, { createContext, useContext, useState, useEffect, useRef } from "react";
-import { InterviewQuestionType, MockInterviewType, CourseType } from "@/types";
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from "react";
+import { FacialAnalysisSample, InterviewQuestionType, MockInterviewType, CourseType } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from '@/hooks/useAuth';
+import {
+  interviewService,
+  getSessionQuestions,
+  toMockInterview,
+  InterviewPlanQuestion,
+  InterviewResponse,
+  InterviewSession,
+  InterviewSessionType
+} from "@/api/services/interviewService";
+import { interviewQuestionService } from "@/api/services/interviewQuestionService";
+import {
+  assessAnswer,
+  buildBehavioralPlan,
+  buildCodingQuestion,
+  buildStarFollowUp,
+  buildSystemDesignPlan,
+  countFollowUps,
+  MAX_FOLLOW_UPS,
+  shouldFollowUp
+} from "@/lib/interviewPlanner";
+import { detectStar } from "@/lib/answerScoring";
+import { BehavioralCompetency } from "@/data/behavioralQuestions";
+import { CodingSession } from "@/lib/codingSession";
+import { DesignDiagram } from "@/lib/systemDesign";
 
 // Define types for the interview state
 export enum InterviewStage {
+  TypeSelection = "type_selection",
   Setup = "setup",
   Questions = "questions",
   Recording = "recording",
@@ -193,11 +218,68 @@ const staticInterviewQuestions = {
   ]
 };
 
+
+const FOLLOW_UP_TRANSCRIPT_WAIT_MS = 15000;
+
+// Picks the closest question bank for a free-form job role
+const getQuestionBank = (role: string): InterviewPlanQuestion[] => {
+  const bank = role.includes("Frontend") ? "Frontend Developer" :
+               role.includes("Backend") ? "Backend Developer" :
+               role.includes("Data") ? "Data Scientist" :
+               role.includes("DevOps") ? "DevOps Engineer" :
+               role.includes("ML") ? "ML Engineer" :
+               role.includes("Cloud") ? "Cloud Architect" :
+               role.includes("Software") || role.includes("Full") ? "Software Engineer" : "Default";
+
+  return staticInterviewQuestions[bank].map(item => ({
+    question: item.question,
+    suggested_answer: item.answer
+  }));
+};
+
+const buildQuestions = (session: InterviewSession, responses: InterviewResponse[]): InterviewQuestionType[] =>
+  getSessionQuestions(session).map((item, index) => {
+    const response = responses.find(r => r.question_index === index);
+
+    return {
+      id: response?.id || `${session.id}-${index}`,
+      interview_id: session.id,
+      question: item.question,
+      suggested_answer: item.suggested_answer,
+      topic: item.topic,
+      difficulty: item.difficulty,
+      kind: item.kind || "verbal",
+      problem_key: item.problem_key,
+      time_limit_seconds: item.time_limit_seconds,
+      is_follow_up: item.source === "follow_up",
+      user_answer: response ? response.response_text || "" : null,
+      recording_path: response?.video_recording_path || null,
+      order_number: index + 1,
+      created_at: response?.created_at || session.started_at
+    };
+  });
+
+export interface InterviewSetupOptions {
+  // Behavioral sessions: the competencies to ask about
+  competencies?: BehavioralCompetency[];
+  // Technical sessions: finish with a live coding question
+  includeCodingRound?: boolean;
+  // System design sessions: the prompt to design for
+  designPromptKey?: string;
+}
+
+// Work attached to an answer besides the recording
+export interface AnswerArtifacts {
+  codingSession?: CodingSession;
+  designDiagram?: DesignDiagram;
+}
+
 // Types for our context
 interface InterviewContextType {
   // State
   isLoading: boolean;
   stage: InterviewStage;
+  interviewType: InterviewSessionType | "";
   interviewData: MockInterviewType | null;
   questions: InterviewQuestionType[];
   currentQuestionIndex: number;
@@ -206,21 +288,25 @@ interface InterviewContextType {
   isRecording: boolean;
   recordingComplete: boolean;
   isProcessing: boolean;
+  isPreparingNext: boolean;
   recentInterviews: MockInterviewType[];
+  isLoadingInterviews: boolean;
   recentCourses: CourseType[];
 
   // Actions
   setStage: (stage: InterviewStage) => void;
+  selectInterviewType: (type: string) => void;
   setCourseTabActive: (active: boolean) => void;
-  handleInterviewSetup: (role: string, techStack: string, experience: string) => void;
-  handleAnswerSubmitted: (blob: Blob) => void;
-  handleNextQuestion: () => void;
+  handleInterviewSetup: (role: string, techStack: string, experience: string, options?: InterviewSetupOptions) => Promise<void>;
+  handleAnswerSubmitted: (blob: Blob, facialSamples?: FacialAnalysisSample[], artifacts?: AnswerArtifacts) => Promise<void>;
+  handleNextQuestion: () => Promise<void>;
   handleSubmitCourse: (courseName: string, purpose: CourseType['purpose'], difficulty: CourseType['difficulty']) => void;
   startRecording: () => void;
   stopRecording: () => void;
   handleCancel: () => void;
   handleDownloadInterview: () => void;
-  resumeInterview: (interview: MockInterviewType) => void;
+  resumeInterview: (interview: MockInterviewType) => Promise<void>;
+  refreshInterviews: () => Promise<void>;
 }
 
 // Create the context
@@ -232,42 +318,17 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
-  const [stage, setStage] = useState<InterviewStage>(InterviewStage.Setup);
-  const [interviewData, setInterviewData] = useState<MockInterviewType | null>(null);
+  const [stage, setStage] = useState<InterviewStage>(InterviewStage.TypeSelection);
+  const [interviewType, setInterviewType] = useState<InterviewSessionType | "">("");
+  const [session, setSession] = useState<InterviewSession | null>(null);
+  const [responses, setResponses] = useState<InterviewResponse[]>([]);
   const [questions, setQuestions] = useState<InterviewQuestionType[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [isCourseTabActive, setIsCourseTabActive] = useState(false);
   const [isGeneratingCourse, setIsGeneratingCourse] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
-  const [recentInterviews, setRecentInterviews] = useState<MockInterviewType[]>([
-    {
-      id: "mock-001",
-      job_role: "Software Engineer",
-      tech_stack: "React, Node.js",
-      experience: "3-5",
-      user_id: "user-123",
-      completed: true,
-      created_at: new Date().toISOString()
-    },
-    {
-      id: "mock-002",
-      job_role: "Full Stack Developer",
-      tech_stack: "React, Node.js, MongoDB, Express",
-      experience: "2-4",
-      user_id: "user-123",
-      completed: true,
-      created_at: new Date(Date.now() - 86400000).toISOString()
-    },
-    {
-      id: "mock-003",
-      job_role: "Data Engineer",
-      tech_stack: "Python, SQL, Spark, AWS",
-      experience: "3-5",
-      user_id: "user-123",
-      completed: true,
-      created_at: new Date(Date.now() - 172800000).toISOString()
-    }
-  ]);
+  const [recentInterviews, setRecentInterviews] = useState<MockInterviewType[]>([]);
+  const [isLoadingInterviews, setIsLoadingInterviews] = useState(true);
   const [recentCourses, setRecentCourses] = useState<CourseType[]>([
     {
       id: "course-dummy-1",
@@ -290,7 +351,13 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   ]);
   const [recordingComplete, setRecordingComplete] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isPreparingNext, setIsPreparingNext] = useState(false);
   const isMounted = useRef(true);
+  const recordingStartedAt = useRef<number | null>(null);
+  // In-flight transcriptions by question index, awaited when deciding on a follow-up
+  const pendingTranscripts = useRef(new Map<number, Promise<InterviewResponse | null>>());
+
+  const interviewData = session ? toMockInterview(session) : null;
 
   useEffect(() => {
     isMounted.current = true;
@@ -299,77 +366,99 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     };
   }, []);
 
-  const handleInterviewSetup = (role: string, techStack: string, experience: string) => {
+  const refreshInterviews = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoadingInterviews(true);
+      const sessions = await interviewService.getUserSessions(user.id);
+      if (isMounted.current) {
+        setRecentInterviews(sessions.map(toMockInterview));
+      }
+    } catch (error) {
+      console.error("Error loading interviews:", error);
+    } finally {
+      if (isMounted.current) {
+        setIsLoadingInterviews(false);
+      }
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      refreshInterviews();
+    }
+  }, [user, refreshInterviews]);
+
+  const replaceRecentInterview = (updated: InterviewSession) => {
+    const interview = toMockInterview(updated);
+    setRecentInterviews(prev => [interview, ...prev.filter(item => item.id !== interview.id)]);
+  };
+
+  const selectInterviewType = (type: string) => {
+    setInterviewType(type as InterviewSessionType);
+    setStage(InterviewStage.Setup);
+  };
+
+  const handleInterviewSetup = async (
+    role: string,
+    techStack: string,
+    experience: string,
+    { competencies = [], includeCodingRound = false, designPromptKey = "" }: InterviewSetupOptions = {}
+  ) => {
+    if (!user) return;
+
     setIsLoading(true);
-    
+
     try {
-      const newInterview = {
-        id: `mock-${crypto.randomUUID().split('-')[0]}`,
-        job_role: role || "Software Engineer",
-        tech_stack: techStack || "React, Node.js",
-        experience,
-        user_id: user?.id || "guest-user",
-        completed: false,
-        created_at: new Date().toISOString()
-      };
-      
-      setInterviewData(newInterview);
-      
-      const questionList = staticInterviewQuestions[role as keyof typeof staticInterviewQuestions] || 
-                        staticInterviewQuestions.Default;
-      
-      const generatedQuestions = questionList.map((item, index) => ({
-        id: crypto.randomUUID(),
-        interview_id: newInterview.id,
-        question: item.question,
-        suggested_answer: item.answer,
-        order_number: index + 1,
-        user_answer: null,
-        created_at: new Date().toISOString()
-      }));
-      
-      setQuestions(generatedQuestions);
+      const jobRole = role || "Software Engineer";
+      const isBehavioral = interviewType === "behavioral";
+      const isSystemDesign = interviewType === "system_design";
+      const background = isBehavioral || isSystemDesign
+        ? null
+        : await interviewQuestionService.getCandidateBackground(user.id, {
+            role: jobRole,
+            techStack,
+            experience
+          });
+      const questions = isBehavioral
+        ? buildBehavioralPlan(competencies, experience)
+        : isSystemDesign
+          ? buildSystemDesignPlan(designPromptKey, experience)
+          : (await interviewQuestionService.generatePlan(background, getQuestionBank(jobRole))).questions;
+      if (includeCodingRound && !isBehavioral && !isSystemDesign) {
+        questions.push(buildCodingQuestion(experience));
+      }
+      const created = await interviewService.createSession(user.id, {
+        sessionType: interviewType || 'mixed',
+        jobRole,
+        // Behavioral sessions list their competencies where the stack would go
+        techStack: isBehavioral ? competencies.join(", ") : techStack,
+        experienceLevel: experience,
+        questions
+      });
+      pendingTranscripts.current.clear();
+
+      setSession(created);
+      setResponses([]);
+      setQuestions(buildQuestions(created, []));
       setCurrentQuestionIndex(0);
-      
-      setRecentInterviews(prev => [newInterview as MockInterviewType, ...prev]);
-      
+      setRecordingComplete(false);
+      replaceRecentInterview(created);
       setStage(InterviewStage.Questions);
+
       toast({
         title: "Interview Created",
-        description: "Your mock interview has been set up successfully.",
+        description: background && (background.projects.length > 0 || background.skills.length > 0)
+          ? "Questions are tailored to your resume and target role."
+          : "Your mock interview has been set up successfully.",
       });
     } catch (error) {
       console.error("Error setting up interview:", error);
-      
-      const defaultInterview = {
-        id: `mock-${crypto.randomUUID().split('-')[0]}`,
-        job_role: "Software Engineer",
-        tech_stack: "JavaScript, React",
-        experience: "1-3",
-        user_id: user?.id || "guest-user",
-        completed: false,
-        created_at: new Date().toISOString()
-      };
-      
-      const defaultQuestions = staticInterviewQuestions.Default.map((item, index) => ({
-        id: crypto.randomUUID(),
-        interview_id: defaultInterview.id,
-        question: item.question,
-        suggested_answer: item.answer,
-        order_number: index + 1,
-        user_answer: null,
-        created_at: new Date().toISOString()
-      }));
-      
-      setInterviewData(defaultInterview);
-      setQuestions(defaultQuestions);
-      setCurrentQuestionIndex(0);
-      setRecentInterviews(prev => [defaultInterview as MockInterviewType, ...prev]);
-      setStage(InterviewStage.Questions);
-      
       toast({
-        title: "Interview Created",
-        description: "Your mock interview has been set up with default questions.",
+        title: "Error",
+        description: "Failed to create the interview. Please try again.",
+        variant: "destructive"
       });
     } finally {
       if (isMounted.current) {
@@ -378,117 +467,193 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   };
 
-  const fetchInterviewQuestions = (interviewId: string) => {
-    setIsLoading(true);
-    try {
-      const interview = recentInterviews.find(i => i.id === interviewId);
-      if (!interview) {
-        throw new Error("Interview not found");
-      }
-      
-      const questionList = staticInterviewQuestions[interview.job_role as keyof typeof staticInterviewQuestions] || 
-                         staticInterviewQuestions.Default;
-      
-      const generatedQuestions = questionList.map((item, index) => ({
-        id: crypto.randomUUID(),
-        interview_id: interviewId,
-        question: item.question,
-        suggested_answer: item.answer,
-        order_number: index + 1,
-        user_answer: null,
-        created_at: new Date().toISOString()
-      }));
-      
-      if (isMounted.current) {
-        setQuestions(generatedQuestions);
-        setCurrentQuestionIndex(0);
-      }
-    } catch (error) {
-      console.error("Error fetching questions:", error);
-      
-      const fallbackQuestions = staticInterviewQuestions.Default.map((item, index) => ({
-        id: crypto.randomUUID(),
-        interview_id: interviewId,
-        question: item.question,
-        suggested_answer: item.answer,
-        order_number: index + 1,
-        user_answer: null,
-        created_at: new Date().toISOString()
-      }));
-      
-      if (isMounted.current) {
-        setQuestions(fallbackQuestions);
-        setCurrentQuestionIndex(0);
-        toast({
-          title: "Using Default Questions",
-          description: "We've provided general interview questions for your practice session.",
-        });
-      }
-    } finally {
-      if (isMounted.current) {
-        setIsLoading(false);
+  // Transcription and scoring can take a while, so they run after the answer is
+  // saved and the candidate moves on; the results page picks the results up later
+  const scoreInBackground = (current: InterviewSession, response: InterviewResponse) => {
+    interviewService.scoreResponse(current, response)
+      .then(scored => {
+        if (isMounted.current) {
+          setResponses(prev => prev.map(r => (r.id === scored.id && r.video_recording_path === scored.video_recording_path ? scored : r)));
+        }
+        return interviewService.updateTotalScore(current.id);
+      })
+      .catch(error => console.warn("Scoring failed:", error));
+  };
+
+  const transcribeInBackground = (current: InterviewSession, response: InterviewResponse, recording: Blob) => {
+    const pending = interviewService.transcribeResponse(response, recording)
+      .then(updated => {
+        if (isMounted.current) {
+          setResponses(prev => prev.map(r => (r.id === updated.id && r.video_recording_path === updated.video_recording_path ? updated : r)));
+        }
+        return updated;
+      })
+      .catch(error => {
+        console.warn("Transcription failed:", error);
+        return null;
+      });
+
+    pendingTranscripts.current.set(response.question_index, pending);
+    pending.then(transcribed => {
+      if (transcribed?.response_text) {
+        scoreInBackground(current, transcribed);
       }
+    });
+  };
+
+  // Adds a follow-up after the current question when its answer was clearly
+  // weak or strong, or in behavioral interviews when it skipped part of STAR.
+  // Waits briefly for the transcript; without one the plan is left as it is.
+  // Returns the session with the (possibly) updated plan.
+  const addFollowUpIfNeeded = async (current: InterviewSession): Promise<InterviewSession> => {
+    const plan = getSessionQuestions(current);
+    const pending = pendingTranscripts.current.get(currentQuestionIndex);
+    if (!pending || plan[currentQuestionIndex]?.source === "follow_up" || (plan[currentQuestionIndex]?.kind || "verbal") !== "verbal") {
+      return current;
     }
+
+    const transcribed = await Promise.race([
+      pending,
+      new Promise<null>(resolve => setTimeout(() => resolve(null), FOLLOW_UP_TRANSCRIPT_WAIT_MS))
+    ]);
+    const transcript = transcribed?.response_text?.trim();
+    if (!transcript) return current;
+
+    let followUp: InterviewPlanQuestion;
+    if (current.session_type === "behavioral") {
+      // Behavioral answers are probed for the part of the STAR story they skipped
+      const { missing } = detectStar(transcript);
+      if (missing.length === 0 || countFollowUps(plan) >= MAX_FOLLOW_UPS) return current;
+
+      followUp = buildStarFollowUp(plan[currentQuestionIndex], currentQuestionIndex, missing);
+    } else {
+      const assessment = assessAnswer(plan[currentQuestionIndex], transcript);
+      if (!shouldFollowUp(plan, currentQuestionIndex, assessment)) return current;
+
+      followUp = await interviewQuestionService.generateFollowUp(
+        current,
+        plan[currentQuestionIndex],
+        currentQuestionIndex,
+        transcript,
+        assessment
+      );
+    }
+    const updatedPlan = [
+      ...plan.slice(0, currentQuestionIndex + 1),
+      followUp,
+      ...plan.slice(currentQuestionIndex + 1)
+    ];
+
+    return interviewService.updateQuestions(current.id, updatedPlan);
   };
 
-  const handleAnswerSubmitted = (blob: Blob) => {
-    if (!interviewData || !questions[currentQuestionIndex]) return;
-    
+  const handleAnswerSubmitted = async (
+    blob: Blob,
+    facialSamples: FacialAnalysisSample[] = [],
+    { codingSession, designDiagram }: AnswerArtifacts = {}
+  ) => {
+    const question = questions[currentQuestionIndex];
+    if (!session || !question) return;
+
+    const startedAt = recordingStartedAt.current;
+    recordingStartedAt.current = null;
+
     try {
-      const updatedQuestions = [...questions];
-      updatedQuestions[currentQuestionIndex] = {
-        ...updatedQuestions[currentQuestionIndex],
-        user_answer: "Recorded answer"
-      };
-      
-      setQuestions(updatedQuestions);
-      
+      setIsProcessing(true);
+      const saved = await interviewService.saveResponse(session, {
+        questionIndex: currentQuestionIndex,
+        questionText: question.question,
+        recording: blob,
+        responseTimeSeconds: startedAt ? (Date.now() - startedAt) / 1000 : 0,
+        facialSamples,
+        previous: responses.find(r => r.question_index === currentQuestionIndex),
+        codingSession,
+        designDiagram
+      });
+
+      if (!isMounted.current) return;
+
+      const updatedResponses = [...responses.filter(r => r.question_index !== currentQuestionIndex), saved];
+      setResponses(updatedResponses);
+      transcribeInBackground(session, saved, blob);
+      setQuestions(buildQuestions(session, updatedResponses));
+      setRecordingComplete(true);
+
       toast({
         title: "Answer Recorded",
-        description: "Your answer has been recorded successfully.",
+        description: "Your answer has been saved.",
       });
-      setRecordingComplete(true);
     } catch (error) {
       console.error("Error saving answer:", error);
-      
-      setRecordingComplete(true);
       toast({
-        title: "Answer Recorded",
-        description: "Your answer has been saved.",
+        title: "Upload Failed",
+        description: "Your answer could not be saved. Please record it again.",
+        variant: "destructive"
       });
+    } finally {
+      if (isMounted.current) {
+        setIsProcessing(false);
+      }
     }
   };
 
-  const handleNextQuestion = () => {
+  const handleNextQuestion = async () => {
+    if (!session) return;
+
+    let current = session;
+    try {
+      setIsPreparingNext(true);
+      current = await addFollowUpIfNeeded(session);
+    } catch (error) {
+      console.error("Error adding follow-up question:", error);
+    } finally {
+      if (isMounted.current) {
+        setIsPreparingNext(false);
+      }
+    }
+
+    if (!isMounted.current) return;
+
     setRecordingComplete(false);
-    
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(prev => prev + 1);
+    if (current !== session) {
+      setSession(current);
+      setQuestions(buildQuestions(current, responses));
+    }
+
+    if (currentQuestionIndex < getSessionQuestions(current).length - 1) {
+      const nextIndex = currentQuestionIndex + 1;
+      setCurrentQuestionIndex(nextIndex);
       setStage(InterviewStage.Questions);
-    } else {
+
+      interviewService.updateProgress(current.id, nextIndex)
+        .then(() => replaceRecentInterview({ ...current, current_question_index: nextIndex }))
+        .catch(error => console.error("Error saving interview progress:", error));
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      const completed = await interviewService.completeSession(session.id);
+      setSession(completed);
+      replaceRecentInterview(completed);
       setStage(InterviewStage.Complete);
-      
-      if (interviewData) {
-        try {
-          const updatedInterview = {
-            ...interviewData,
-            completed: true
-          };
-          
-          setRecentInterviews(prev => prev.map(item => 
-            item.id === interviewData.id ? updatedInterview : item
-          ));
-          
-          toast({
-            title: "Interview Completed",
-            description: "Your interview has been completed. Preparing your results...",
-          });
-          
-          navigate(`/interview-result/${interviewData.id}`);
-        } catch (error) {
-          console.error("Error updating interview status:", error);
-          navigate(`/interview-result/${interviewData.id}`);
-        }
+
+      toast({
+        title: "Interview Completed",
+        description: "Your interview has been completed. Preparing your results...",
+      });
+
+      navigate(`/interview-result/${completed.id}`);
+    } catch (error) {
+      console.error("Error completing interview:", error);
+      toast({
+        title: "Error",
+        description: "Failed to finish the interview. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      if (isMounted.current) {
+        setIsProcessing(false);
       }
     }
   };
@@ -552,6 +717,7 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   };
 
   const startRecording = () => {
+    recordingStartedAt.current = Date.now();
     setIsRecording(true);
     setRecordingComplete(false);
   };
@@ -572,10 +738,49 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     });
   };
   
-  const resumeInterview = (interview: MockInterviewType) => {
-    setInterviewData(interview);
-    fetchInterviewQuestions(interview.id);
-    setStage(InterviewStage.Questions);
+  // Reloads the stored plan and answers, then continues at the first
+  // question that has not been answered yet
+  const resumeInterview = async (interview: MockInterviewType) => {
+    setIsLoading(true);
+
+    try {
+      const [stored, storedResponses] = await Promise.all([
+        interviewService.getSession(interview.id),
+        interviewService.getSessionResponses(interview.id)
+      ]);
+      const resumedQuestions = buildQuestions(stored, storedResponses);
+
+      if (resumedQuestions.length === 0) {
+        throw new Error("Interview has no questions");
+      }
+
+      const firstOpen = resumedQuestions.findIndex(question => question.user_answer === null);
+      const resumeIndex = firstOpen === -1
+        ? Math.min(stored.current_question_index || 0, resumedQuestions.length - 1)
+        : firstOpen;
+
+      if (!isMounted.current) return;
+
+      pendingTranscripts.current.clear();
+      setInterviewType(stored.session_type as InterviewSessionType);
+      setSession(stored);
+      setResponses(storedResponses);
+      setQuestions(resumedQuestions);
+      setCurrentQuestionIndex(resumeIndex);
+      setRecordingComplete(false);
+      setStage(InterviewStage.Questions);
+    } catch (error) {
+      console.error("Error resuming interview:", error);
+      toast({
+        title: "Error",
+        description: "Failed to resume the interview. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      if (isMounted.current) {
+        setIsLoading(false);
+      }
+    }
   };
   
   const setCourseTabActive = (active: boolean) => {
@@ -586,6 +791,7 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     // State
     isLoading,
     stage,
+    interviewType,
     interviewData,
     questions,
     currentQuestionIndex,
@@ -594,11 +800,14 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     isRecording,
     recordingComplete,
     isProcessing,
+    isPreparingNext,
     recentInterviews,
+    isLoadingInterviews,
     recentCourses,
     
     // Actions
     setStage,
+    selectInterviewType,
     setCourseTabActive,
     handleInterviewSetup,
     handleAnswerSubmitted,
@@ -609,6 +818,7 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     handleCancel,
     handleDownloadInterview,
     resumeInterview,
+    refreshInterviews,
   };
 
   return <InterviewContext.Provider value={value}>{children}</InterviewContext.Provider>;
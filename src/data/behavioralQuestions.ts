@@ -0,0 +1,120 @@
+export type BehavioralCompetency = 'leadership' | 'conflict' | 'failure' | 'ownership';
+
+export interface BehavioralCompetencyInfo {
+  id: BehavioralCompetency;
+  label: string;
+  description: string;
+}
+
+export interface BehavioralQuestion {
+  competency: BehavioralCompetency;
+  question: string;
+  // Model answer in STAR order; [placeholders] are ignored when grading
+  answer: string;
+}
+
+export const behavioralCompetencies: BehavioralCompetencyInfo[] = [
+  {
+    id: "leadership",
+    label: "Leadership",
+    description: "Guiding a team, influencing without authority, mentoring others"
+  },
+  {
+    id: "conflict",
+    label: "Conflict",
+    description: "Disagreements with teammates, managers or stakeholders"
+  },
+  {
+    id: "failure",
+    label: "Failure",
+    description: "Mistakes, missed deadlines and what you learned from them"
+  },
+  {
+    id: "ownership",
+    label: "Ownership",
+    description: "Taking responsibility beyond your role and following through"
+  }
+];
+
+export const behavioralQuestions: BehavioralQuestion[] = [
+  {
+    competency: "leadership",
+    question: "Tell me about a time you led a team through a difficult project.",
+    answer: "At [company] our team had to deliver a critical release with a tight deadline and two engineers on leave. As the lead, my task was to keep the release on schedule without burning out the team. I broke the work into smaller milestones, reprioritized scope with the product manager, and held short daily check-ins to remove blockers quickly. We shipped on time with the core features, and the milestone planning became the team's standard process for later releases."
+  },
+  {
+    competency: "leadership",
+    question: "Describe a time you had to influence people who did not report to you.",
+    answer: "In my last role another team owned a shared service that was causing repeated outages for our product. I needed them to prioritize a fix even though I had no authority over their roadmap. I gathered incident data showing the customer impact, met with their lead to understand their constraints, and offered engineers from my team to help with the change. They scheduled the fix for the next sprint and outages from that service dropped to zero over the following quarter."
+  },
+  {
+    competency: "leadership",
+    question: "Give me an example of a time you mentored or developed someone on your team.",
+    answer: "A junior developer on my team was struggling with code reviews and losing confidence. I took on the responsibility of helping them grow during their first six months. I paired with them weekly, walked through review feedback together, and gave them ownership of a small feature with clear checkpoints. Within three months their pull requests needed far fewer revisions and they went on to mentor the next new hire."
+  },
+  {
+    competency: "leadership",
+    question: "Tell me about a time you had to make a decision without complete information.",
+    answer: "During a production incident at [company] we had to decide whether to roll back a release while the root cause was still unclear. As the on-call lead it was my call to make quickly. I weighed the customer impact against the risk of the rollback, consulted the engineer who wrote the change, and decided to roll back while we investigated. Service recovered within minutes, and the follow-up review confirmed the release was the cause."
+  },
+  {
+    competency: "conflict",
+    question: "Tell me about a time you disagreed with a teammate on a technical decision.",
+    answer: "On a project at [company] a teammate and I disagreed about whether to use a relational database or a document store for a new service. We needed to agree quickly because the decision blocked the rest of the design. I suggested we write down the requirements together, then I built a small prototype of the riskiest queries in both options and we reviewed the results side by side. We chose the relational database based on the data, the discussion stayed respectful, and we reused the comparison format for later design decisions."
+  },
+  {
+    competency: "conflict",
+    question: "Describe a situation where you had a conflict with a manager or stakeholder.",
+    answer: "A stakeholder at my previous company pushed to add several features late in a sprint that would have put the release date at risk. My responsibility was to protect the commitment we had made to customers while keeping the relationship healthy. I met with them to understand why the features mattered, showed the trade-offs in terms of dates and risk, and proposed shipping the most valuable feature first. They agreed to the phased plan, the release went out on time, and the remaining features shipped two weeks later."
+  },
+  {
+    competency: "conflict",
+    question: "How did you handle a situation where a team member was not pulling their weight?",
+    answer: "In my last team one engineer kept missing deadlines, which delayed work for the rest of us. As a peer rather than their manager, I needed to address it without making it personal. I talked with them privately, asked what was getting in the way, and learned they were overloaded with support requests. We raised it with our manager together and moved the support work to a rotation. Their delivery improved within a few weeks and the rotation reduced interruptions for the whole team."
+  },
+  {
+    competency: "conflict",
+    question: "Give me an example of a time you received critical feedback. How did you respond?",
+    answer: "After a project at [company] my manager told me my design documents were too long and stakeholders were not reading them. I wanted to fix this before the next major proposal. I asked for examples of documents that worked well, restructured mine with a one-page summary up front, and asked a colleague to review drafts for length. My next proposal was approved in a single review meeting and I now use that format by default."
+  },
+  {
+    competency: "failure",
+    question: "Tell me about a time you failed. What did you learn from it?",
+    answer: "At [company] I underestimated a data migration and we missed the launch date by two weeks. I was responsible for the estimate and the migration plan. I told stakeholders as soon as I knew, broke the remaining work into smaller verified steps, and added a dry run against production data. The migration completed without data loss, and I learned to run a small-scale trial before estimating risky work, which has made my estimates much more accurate since."
+  },
+  {
+    competency: "failure",
+    question: "Describe a time you made a mistake that affected your team or customers.",
+    answer: "In my previous role I deployed a configuration change that broke login for a portion of users. As the person who made the change, I owned the response. I rolled the change back immediately, posted updates in the incident channel, and wrote a blameless postmortem. I then added validation to the deployment pipeline so that class of misconfiguration is now caught before release, and we have not had a repeat of that incident."
+  },
+  {
+    competency: "failure",
+    question: "Tell me about a project that did not go as planned.",
+    answer: "We built a recommendation feature at [company] that users barely adopted after launch. I had led the implementation and needed to understand what went wrong. I analysed usage data, interviewed a handful of users, and found the recommendations appeared where nobody looked. We moved them into the main workflow and simplified the interface, which tripled engagement, and I learned to validate placement with users before building."
+  },
+  {
+    competency: "failure",
+    question: "Give me an example of a time you missed a deadline.",
+    answer: "During a busy quarter I committed to delivering an internal tool while also supporting a major release. My goal was to finish both, but the release took more time than expected. I told the requesting team early, agreed on a reduced first version, and blocked focused time to finish it. The first version shipped one week late and covered their most urgent needs, and I now track my commitments against capacity before agreeing to new work."
+  },
+  {
+    competency: "ownership",
+    question: "Tell me about a time you took ownership of a problem outside your responsibilities.",
+    answer: "At [company] our build times had grown to over thirty minutes and nobody owned the build system. I decided to take it on because it was slowing every engineer down. I profiled the pipeline, introduced caching and parallel test runs, and documented the changes so others could maintain them. Build times dropped to under ten minutes, which saved the team hours every week."
+  },
+  {
+    competency: "ownership",
+    question: "Describe a time you went beyond what was asked of you.",
+    answer: "I was asked to fix a single bug in a billing report at my previous company. While investigating I noticed the same calculation error affected three other reports. I fixed all four, added tests covering the calculation, and flagged the issue to finance with the affected dates. Finance corrected past invoices before customers noticed, and the tests have caught two regressions since."
+  },
+  {
+    competency: "ownership",
+    question: "Tell me about a time you had to deliver results with limited resources.",
+    answer: "Our team had to launch a new onboarding flow with half the usual engineering capacity because of a hiring freeze. I was responsible for delivery and needed to cut scope without hurting the outcome. I worked with design to focus on the steps where most users dropped off, reused existing components, and automated the testing of the new flow. We launched on schedule and onboarding completion increased by fifteen percent."
+  },
+  {
+    competency: "ownership",
+    question: "Walk me through a time you identified and fixed a long-standing issue.",
+    answer: "In my last role customers regularly complained about slow search, and it had been on the backlog for a year. I took the task of finding the root cause in my spare sprint capacity. I traced slow queries, found a missing index and an inefficient ranking step, and proposed a fix with measurements. After the change search latency fell by seventy percent and related support tickets almost disappeared."
+  }
+];
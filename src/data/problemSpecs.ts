@@ -0,0 +1,300 @@
+import { getProblemKey } from '@/hooks/useDSAProgress';
+
+export type SpecValueType =
+  | 'number'
+  | 'number[]'
+  | 'string'
+  | 'string[]'
+  | 'boolean'
+  | 'void';
+
+export interface SpecParam {
+  name: string;
+  type: SpecValueType;
+}
+
+export interface ProblemTestCase {
+  input: unknown[];
+  expected: unknown;
+  // Only judged on submit and reported as pass/fail. Specs ship in the client
+  // bundle, so this keeps answers out of the results, not out of reach.
+  hidden?: boolean;
+}
+
+export interface ProblemSpec {
+  key: string;
+  title: string;
+  statement: string;
+  constraints?: string[];
+  functionName: string;
+  params: SpecParam[];
+  returnType: SpecValueType;
+  // Index of the argument to judge instead of the return value, for problems
+  // that modify their input in place
+  inPlaceArg?: number;
+  // 'unordered' accepts any ordering of an array answer
+  compare?: 'exact' | 'unordered';
+  testCases: ProblemTestCase[];
+}
+
+export const problemSpecs: ProblemSpec[] = [
+  {
+    key: 'leetcode:two-sum',
+    title: 'Two Sum',
+    statement:
+      'Given an array of integers nums and an integer target, return the indices of the two numbers that add up to target. Each input has exactly one solution and you may not use the same element twice.',
+    constraints: ['2 <= nums.length <= 10^4', 'Exactly one valid answer exists'],
+    functionName: 'twoSum',
+    params: [
+      { name: 'nums', type: 'number[]' },
+      { name: 'target', type: 'number' },
+    ],
+    returnType: 'number[]',
+    compare: 'unordered',
+    testCases: [
+      { input: [[2, 7, 11, 15], 9], expected: [0, 1] },
+      { input: [[3, 2, 4], 6], expected: [1, 2] },
+      { input: [[3, 3], 6], expected: [0, 1] },
+      { input: [[-1, -2, -3, -4, -5], -8], expected: [2, 4], hidden: true },
+      { input: [[0, 4, 3, 0], 0], expected: [0, 3], hidden: true },
+      { input: [[1, 5, 9, 13, 21, 40], 61], expected: [4, 5], hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:valid-parentheses',
+    title: 'Valid Parentheses',
+    statement:
+      "Given a string s containing just the characters '(', ')', '{', '}', '[' and ']', determine if the input string is valid. Open brackets must be closed by the same type of bracket and in the correct order.",
+    constraints: ['1 <= s.length <= 10^4'],
+    functionName: 'isValid',
+    params: [{ name: 's', type: 'string' }],
+    returnType: 'boolean',
+    testCases: [
+      { input: ['()'], expected: true },
+      { input: ['()[]{}'], expected: true },
+      { input: ['(]'], expected: false },
+      { input: ['([)]'], expected: false, hidden: true },
+      { input: ['{[]}'], expected: true, hidden: true },
+      { input: ['(('], expected: false, hidden: true },
+      { input: [']'], expected: false, hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:reverse-string',
+    title: 'Reverse String',
+    statement:
+      'Write a function that reverses an array of characters s in place. Do not return anything; modify the input array with O(1) extra memory.',
+    constraints: ['1 <= s.length <= 10^5'],
+    functionName: 'reverseString',
+    params: [{ name: 's', type: 'string[]' }],
+    returnType: 'void',
+    inPlaceArg: 0,
+    testCases: [
+      { input: [['h', 'e', 'l', 'l', 'o']], expected: ['o', 'l', 'l', 'e', 'h'] },
+      { input: [['H', 'a', 'n', 'n', 'a', 'h']], expected: ['h', 'a', 'n', 'n', 'a', 'H'] },
+      { input: [['a']], expected: ['a'], hidden: true },
+      { input: [['a', 'b']], expected: ['b', 'a'], hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:valid-palindrome',
+    title: 'Valid Palindrome',
+    statement:
+      'A phrase is a palindrome if, after converting all uppercase letters to lowercase and removing all non-alphanumeric characters, it reads the same forward and backward. Given a string s, return true if it is a palindrome.',
+    constraints: ['1 <= s.length <= 2 * 10^5'],
+    functionName: 'isPalindrome',
+    params: [{ name: 's', type: 'string' }],
+    returnType: 'boolean',
+    testCases: [
+      { input: ['A man, a plan, a canal: Panama'], expected: true },
+      { input: ['race a car'], expected: false },
+      { input: [' '], expected: true },
+      { input: ['0P'], expected: false, hidden: true },
+      { input: ['No lemon, no melon'], expected: true, hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:length-of-last-word',
+    title: 'Length of Last Word',
+    statement:
+      'Given a string s consisting of words and spaces, return the length of the last word in the string. A word is a maximal substring of non-space characters.',
+    constraints: ['1 <= s.length <= 10^4', 'There is at least one word in s'],
+    functionName: 'lengthOfLastWord',
+    params: [{ name: 's', type: 'string' }],
+    returnType: 'number',
+    testCases: [
+      { input: ['Hello World'], expected: 5 },
+      { input: ['   fly me   to   the moon  '], expected: 4 },
+      { input: ['luffy is still joyboy'], expected: 6 },
+      { input: ['a'], expected: 1, hidden: true },
+      { input: ['day   '], expected: 3, hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:best-time-to-buy-and-sell-stock',
+    title: 'Best Time to Buy and Sell Stock',
+    statement:
+      'You are given an array prices where prices[i] is the price of a stock on day i. Choose one day to buy and a later day to sell, and return the maximum profit. If no profit is possible, return 0.',
+    constraints: ['1 <= prices.length <= 10^5'],
+    functionName: 'maxProfit',
+    params: [{ name: 'prices', type: 'number[]' }],
+    returnType: 'number',
+    testCases: [
+      { input: [[7, 1, 5, 3, 6, 4]], expected: 5 },
+      { input: [[7, 6, 4, 3, 1]], expected: 0 },
+      { input: [[1]], expected: 0, hidden: true },
+      { input: [[2, 4, 1]], expected: 2, hidden: true },
+      { input: [[3, 2, 6, 5, 0, 3]], expected: 4, hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:maximum-subarray',
+    title: 'Maximum Subarray',
+    statement:
+      'Given an integer array nums, find the contiguous subarray with the largest sum and return its sum.',
+    constraints: ['1 <= nums.length <= 10^5'],
+    functionName: 'maxSubArray',
+    params: [{ name: 'nums', type: 'number[]' }],
+    returnType: 'number',
+    testCases: [
+      { input: [[-2, 1, -3, 4, -1, 2, 1, -5, 4]], expected: 6 },
+      { input: [[1]], expected: 1 },
+      { input: [[5, 4, -1, 7, 8]], expected: 23 },
+      { input: [[-3, -1, -2]], expected: -1, hidden: true },
+      { input: [[-2, -1]], expected: -1, hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:climbing-stairs',
+    title: 'Climbing Stairs',
+    statement:
+      'You are climbing a staircase that takes n steps to reach the top. Each time you can climb 1 or 2 steps. In how many distinct ways can you climb to the top?',
+    constraints: ['1 <= n <= 45'],
+    functionName: 'climbStairs',
+    params: [{ name: 'n', type: 'number' }],
+    returnType: 'number',
+    testCases: [
+      { input: [2], expected: 2 },
+      { input: [3], expected: 3 },
+      { input: [1], expected: 1, hidden: true },
+      { input: [10], expected: 89, hidden: true },
+      { input: [45], expected: 1836311903, hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:contains-duplicate',
+    title: 'Contains Duplicate',
+    statement:
+      'Given an integer array nums, return true if any value appears at least twice in the array, and false if every element is distinct.',
+    constraints: ['1 <= nums.length <= 10^5'],
+    functionName: 'containsDuplicate',
+    params: [{ name: 'nums', type: 'number[]' }],
+    returnType: 'boolean',
+    testCases: [
+      { input: [[1, 2, 3, 1]], expected: true },
+      { input: [[1, 2, 3, 4]], expected: false },
+      { input: [[1, 1, 1, 3, 3, 4, 3, 2, 4, 2]], expected: true, hidden: true },
+      { input: [[0]], expected: false, hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:move-zeroes',
+    title: 'Move Zeroes',
+    statement:
+      'Given an integer array nums, move all 0s to the end while keeping the relative order of the non-zero elements. Modify the array in place without making a copy.',
+    constraints: ['1 <= nums.length <= 10^4'],
+    functionName: 'moveZeroes',
+    params: [{ name: 'nums', type: 'number[]' }],
+    returnType: 'void',
+    inPlaceArg: 0,
+    testCases: [
+      { input: [[0, 1, 0, 3, 12]], expected: [1, 3, 12, 0, 0] },
+      { input: [[0]], expected: [0] },
+      { input: [[1, 0, 0, 2, 0, 3]], expected: [1, 2, 3, 0, 0, 0], hidden: true },
+      { input: [[4, 2, 1]], expected: [4, 2, 1], hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:reverse-integer',
+    title: 'Reverse Integer',
+    statement:
+      'Given a signed 32-bit integer x, return x with its digits reversed. If reversing x causes the value to go outside the signed 32-bit range [-2^31, 2^31 - 1], return 0.',
+    constraints: ['-2^31 <= x <= 2^31 - 1'],
+    functionName: 'reverse',
+    params: [{ name: 'x', type: 'number' }],
+    returnType: 'number',
+    testCases: [
+      { input: [123], expected: 321 },
+      { input: [-123], expected: -321 },
+      { input: [120], expected: 21 },
+      { input: [0], expected: 0, hidden: true },
+      { input: [1534236469], expected: 0, hidden: true },
+      { input: [-2147483412], expected: -2143847412, hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:valid-anagram',
+    title: 'Valid Anagram',
+    statement:
+      'Given two strings s and t, return true if t is an anagram of s (uses exactly the same letters the same number of times), and false otherwise.',
+    constraints: ['1 <= s.length, t.length <= 5 * 10^4'],
+    functionName: 'isAnagram',
+    params: [
+      { name: 's', type: 'string' },
+      { name: 't', type: 'string' },
+    ],
+    returnType: 'boolean',
+    testCases: [
+      { input: ['anagram', 'nagaram'], expected: true },
+      { input: ['rat', 'car'], expected: false },
+      { input: ['a', 'ab'], expected: false, hidden: true },
+      { input: ['aacc', 'ccac'], expected: false, hidden: true },
+      { input: ['listen', 'silent'], expected: true, hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:fizz-buzz',
+    title: 'Fizz Buzz',
+    statement:
+      'Given an integer n, return a 1-indexed string array answer where answer[i] is "FizzBuzz" if i is divisible by 3 and 5, "Fizz" if divisible by 3, "Buzz" if divisible by 5, and i as a string otherwise.',
+    constraints: ['1 <= n <= 10^4'],
+    functionName: 'fizzBuzz',
+    params: [{ name: 'n', type: 'number' }],
+    returnType: 'string[]',
+    testCases: [
+      { input: [3], expected: ['1', '2', 'Fizz'] },
+      { input: [5], expected: ['1', '2', 'Fizz', '4', 'Buzz'] },
+      {
+        input: [15],
+        expected: ['1', '2', 'Fizz', '4', 'Buzz', 'Fizz', '7', '8', 'Fizz', 'Buzz', '11', 'Fizz', '13', '14', 'FizzBuzz'],
+        hidden: true,
+      },
+      { input: [1], expected: ['1'], hidden: true },
+    ],
+  },
+  {
+    key: 'leetcode:single-number',
+    title: 'Single Number',
+    statement:
+      'Given a non-empty array of integers nums, every element appears twice except for one. Find that single one using linear time and constant extra space.',
+    constraints: ['1 <= nums.length <= 3 * 10^4'],
+    functionName: 'singleNumber',
+    params: [{ name: 'nums', type: 'number[]' }],
+    returnType: 'number',
+    testCases: [
+      { input: [[2, 2, 1]], expected: 1 },
+      { input: [[4, 1, 2, 1, 2]], expected: 4 },
+      { input: [[1]], expected: 1, hidden: true },
+      { input: [[-1, 7, 7]], expected: -1, hidden: true },
+    ],
+  },
+];
+
+const specsByKey = new Map(problemSpecs.map(spec => [spec.key, spec]));
+
+export const getProblemSpec = (url: string): ProblemSpec | undefined =>
+  specsByKey.get(getProblemKey(url));
+
+export const hasProblemSpec = (url: string) => specsByKey.has(getProblemKey(url));
+
+export const getProblemSpecByKey = (key: string): ProblemSpec | undefined => specsByKey.get(key);
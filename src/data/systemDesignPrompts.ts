@@ -0,0 +1,236 @@
+export type DesignComponentKind =
+  | 'client'
+  | 'load_balancer'
+  | 'service'
+  | 'database'
+  | 'cache'
+  | 'queue'
+  | 'storage'
+  | 'cdn';
+
+export interface DesignComponentKindInfo {
+  id: DesignComponentKind;
+  label: string;
+}
+
+// A component the rubric expects on the diagram. A node satisfies it when it
+// has the given kind or its label mentions one of the keywords.
+export interface DesignRubricComponent {
+  id: string;
+  label: string;
+  kinds: DesignComponentKind[];
+  keywords: string[];
+  // Optional components add to the score but are not reported as missing
+  optional?: boolean;
+}
+
+export interface SystemDesignPrompt {
+  key: string;
+  title: string;
+  prompt: string;
+  // Scale and feature constraints read out with the prompt
+  requirements: string[];
+  components: DesignRubricComponent[];
+  // Pairs of rubric component ids that should be connected, in either direction
+  connections: Array<[string, string]>;
+  // Deep-dive questions asked after the whiteboard answer
+  followUps: Array<{ question: string; answer: string }>;
+  // What a strong verbal walkthrough of the design covers
+  answer: string;
+}
+
+export const designComponentKinds: DesignComponentKindInfo[] = [
+  { id: 'client', label: 'Client' },
+  { id: 'load_balancer', label: 'Load Balancer' },
+  { id: 'service', label: 'Service' },
+  { id: 'database', label: 'Database' },
+  { id: 'cache', label: 'Cache' },
+  { id: 'queue', label: 'Queue' },
+  { id: 'storage', label: 'Object Storage' },
+  { id: 'cdn', label: 'CDN' }
+];
+
+export const systemDesignPrompts: SystemDesignPrompt[] = [
+  {
+    key: 'url-shortener',
+    title: 'URL Shortener',
+    prompt: 'Design a URL shortener like bit.ly that turns long URLs into short links and redirects visitors.',
+    requirements: [
+      '100M new links per month, 10B redirects per month',
+      'Short codes of at most 7 characters',
+      'Redirects must be fast; click counts can lag by a few minutes'
+    ],
+    components: [
+      { id: 'client', label: 'Client', kinds: ['client'], keywords: ['client', 'browser', 'user', 'mobile'] },
+      { id: 'lb', label: 'Load balancer', kinds: ['load_balancer'], keywords: ['load balancer', 'lb', 'gateway'] },
+      { id: 'write', label: 'Shortening service', kinds: [], keywords: ['shorten', 'write', 'create', 'api'] },
+      { id: 'redirect', label: 'Redirect service', kinds: [], keywords: ['redirect', 'read', 'resolve'] },
+      { id: 'db', label: 'URL database', kinds: ['database'], keywords: ['db', 'database', 'store', 'cassandra', 'dynamo'] },
+      { id: 'cache', label: 'Cache for hot links', kinds: ['cache'], keywords: ['cache', 'redis', 'memcached'] },
+      { id: 'ids', label: 'ID generator', kinds: [], keywords: ['id generator', 'counter', 'key generation', 'kgs', 'snowflake'], optional: true },
+      { id: 'analytics', label: 'Click analytics pipeline', kinds: ['queue'], keywords: ['analytics', 'click', 'kafka', 'queue', 'stream'], optional: true }
+    ],
+    connections: [
+      ['client', 'lb'],
+      ['lb', 'redirect'],
+      ['lb', 'write'],
+      ['redirect', 'cache'],
+      ['redirect', 'db'],
+      ['write', 'db'],
+      ['write', 'ids'],
+      ['redirect', 'analytics']
+    ],
+    followUps: [
+      {
+        question: 'How do you generate short codes so that two servers never hand out the same one?',
+        answer: 'Compare hashing the URL with collision checks against a distributed counter or pre-generated key ranges per server, encode the ID in base62, and explain how ranges are allocated so servers never overlap.'
+      },
+      {
+        question: 'Redirect traffic is 100 times higher than writes. How does your design keep redirects fast?',
+        answer: 'Serve redirects from a read-through cache of hot codes with LRU eviction, use read replicas or a key-value store partitioned by code, keep the redirect path free of writes, and record clicks asynchronously through a queue.'
+      }
+    ],
+    answer: 'Clarify requirements and estimate scale: storage for billions of links and a read-heavy redirect path. ' +
+      'Clients reach a load balancer in front of a shortening service and a redirect service. ' +
+      'Short codes come from an ID generator or key ranges encoded in base62. ' +
+      'Links are stored in a key-value database partitioned by code, with a cache in front for hot links. ' +
+      'Clicks are published to a queue and aggregated by an analytics pipeline. ' +
+      'Discuss trade-offs of hashing versus counters, cache eviction, replication and expiry of old links.'
+  },
+  {
+    key: 'chat-app',
+    title: 'Chat Application',
+    prompt: 'Design a one-to-one and group chat service like WhatsApp or Slack.',
+    requirements: [
+      '50M daily active users, groups of up to 500 members',
+      'Messages delivered in real time and stored for history',
+      'Online/offline presence and delivery receipts'
+    ],
+    components: [
+      { id: 'client', label: 'Client', kinds: ['client'], keywords: ['client', 'app', 'mobile', 'user'] },
+      { id: 'lb', label: 'Load balancer', kinds: ['load_balancer'], keywords: ['load balancer', 'lb', 'gateway'] },
+      { id: 'gateway', label: 'WebSocket gateway', kinds: [], keywords: ['websocket', 'socket', 'connection', 'gateway', 'realtime'] },
+      { id: 'chat', label: 'Chat service', kinds: [], keywords: ['chat', 'message', 'messaging'] },
+      { id: 'db', label: 'Message store', kinds: ['database'], keywords: ['db', 'database', 'store', 'cassandra', 'history'] },
+      { id: 'queue', label: 'Message queue / pub-sub', kinds: ['queue'], keywords: ['queue', 'kafka', 'pub/sub', 'pubsub', 'fanout'] },
+      { id: 'presence', label: 'Presence service', kinds: ['cache'], keywords: ['presence', 'online', 'status', 'redis'], optional: true },
+      { id: 'push', label: 'Push notifications', kinds: [], keywords: ['push', 'notification', 'apns', 'fcm'], optional: true }
+    ],
+    connections: [
+      ['client', 'lb'],
+      ['lb', 'gateway'],
+      ['gateway', 'chat'],
+      ['chat', 'db'],
+      ['chat', 'queue'],
+      ['queue', 'gateway'],
+      ['gateway', 'presence'],
+      ['queue', 'push']
+    ],
+    followUps: [
+      {
+        question: 'How does a message reach a recipient who is connected to a different gateway server?',
+        answer: 'Keep a registry of which gateway holds each user connection, route messages through a pub/sub or queue keyed by user or channel, and fall back to push notifications and stored history when the user is offline.'
+      },
+      {
+        question: 'How do you keep message order correct in a busy group chat?',
+        answer: 'Assign per-conversation sequence numbers in the chat service, partition the queue and store by conversation ID, let clients reorder and de-duplicate by sequence, and discuss the cost of strict ordering.'
+      }
+    ],
+    answer: 'Clarify requirements and scale for connections and messages per second. ' +
+      'Clients hold persistent WebSocket connections to a gateway tier behind a load balancer. ' +
+      'The chat service assigns sequence numbers, stores messages in a write-optimised database partitioned by conversation, ' +
+      'and fans out through a queue or pub/sub to the gateways holding recipients. ' +
+      'A presence service tracks online users in a cache, and offline users get push notifications. ' +
+      'Discuss ordering, delivery receipts, group fanout and retention.'
+  },
+  {
+    key: 'news-feed',
+    title: 'News Feed',
+    prompt: 'Design the home feed for a social network like Twitter or Instagram.',
+    requirements: [
+      '200M daily active users, each following up to a few thousand accounts',
+      'Feed loads in under 200ms',
+      'Posts can include images and videos'
+    ],
+    components: [
+      { id: 'client', label: 'Client', kinds: ['client'], keywords: ['client', 'app', 'user', 'browser'] },
+      { id: 'lb', label: 'Load balancer', kinds: ['load_balancer'], keywords: ['load balancer', 'lb', 'gateway'] },
+      { id: 'post', label: 'Post service', kinds: [], keywords: ['post', 'publish', 'write', 'tweet'] },
+      { id: 'feed', label: 'Feed service', kinds: [], keywords: ['feed', 'timeline', 'read'] },
+      { id: 'fanout', label: 'Fanout workers', kinds: ['queue'], keywords: ['fanout', 'fan-out', 'queue', 'worker', 'kafka'] },
+      { id: 'feedcache', label: 'Feed cache', kinds: ['cache'], keywords: ['cache', 'redis', 'timeline cache'] },
+      { id: 'db', label: 'Post and graph database', kinds: ['database'], keywords: ['db', 'database', 'graph', 'follow'] },
+      { id: 'media', label: 'Media storage and CDN', kinds: ['storage', 'cdn'], keywords: ['media', 's3', 'blob', 'cdn', 'image'], optional: true }
+    ],
+    connections: [
+      ['client', 'lb'],
+      ['lb', 'post'],
+      ['lb', 'feed'],
+      ['post', 'db'],
+      ['post', 'fanout'],
+      ['fanout', 'feedcache'],
+      ['feed', 'feedcache'],
+      ['client', 'media']
+    ],
+    followUps: [
+      {
+        question: 'Would you build feeds on write or on read? What happens for an account with 50 million followers?',
+        answer: 'Compare fanout on write, which precomputes feeds in a cache, with fanout on read, use a hybrid where celebrity posts are merged in at read time, and explain the storage and latency trade-offs.'
+      },
+      {
+        question: 'How do you rank the feed instead of showing it in time order?',
+        answer: 'Fetch candidate posts from the feed cache, score them with features such as engagement, affinity and recency, cache ranked pages, and mention experimentation and fallbacks when the ranker is slow.'
+      }
+    ],
+    answer: 'Clarify requirements and estimate read and write volume. ' +
+      'Clients reach a post service and a feed service behind a load balancer. ' +
+      'New posts are stored in a database with the follow graph and sent to fanout workers through a queue, ' +
+      'which push post IDs into per-user feed caches. ' +
+      'The feed service reads from the cache and hydrates posts, with media served from object storage through a CDN. ' +
+      'Discuss fanout on write versus read, celebrity accounts, ranking and pagination.'
+  },
+  {
+    key: 'rate-limiter',
+    title: 'Distributed Rate Limiter',
+    prompt: 'Design a rate limiter that protects a public API running on many servers.',
+    requirements: [
+      'Limits per API key, for example 1000 requests per minute',
+      'Enforced consistently across 50 API servers',
+      'Adds no more than a few milliseconds to each request'
+    ],
+    components: [
+      { id: 'client', label: 'Client', kinds: ['client'], keywords: ['client', 'user', 'caller'] },
+      { id: 'lb', label: 'Load balancer / API gateway', kinds: ['load_balancer'], keywords: ['load balancer', 'lb', 'gateway'] },
+      { id: 'limiter', label: 'Rate limiter', kinds: [], keywords: ['limiter', 'rate', 'throttle', 'middleware'] },
+      { id: 'counters', label: 'Shared counter store', kinds: ['cache'], keywords: ['redis', 'counter', 'cache', 'token bucket'] },
+      { id: 'api', label: 'API servers', kinds: ['service'], keywords: ['api', 'server', 'backend'] },
+      { id: 'rules', label: 'Rules configuration', kinds: ['database'], keywords: ['rules', 'config', 'policy', 'db'], optional: true }
+    ],
+    connections: [
+      ['client', 'lb'],
+      ['lb', 'limiter'],
+      ['limiter', 'counters'],
+      ['limiter', 'api'],
+      ['limiter', 'rules']
+    ],
+    followUps: [
+      {
+        question: 'Which rate limiting algorithm would you use, and why?',
+        answer: 'Compare fixed window, sliding window log, sliding window counter and token bucket on accuracy, memory and burst handling, and pick one with a justification for this API.'
+      },
+      {
+        question: 'What happens if the shared counter store becomes slow or unavailable?',
+        answer: 'Use short timeouts, decide whether to fail open or fail closed and why, fall back to local in-memory limits per server, and replicate or shard the counter store to avoid a single point of failure.'
+      }
+    ],
+    answer: 'Clarify the limits, keys and accuracy needed. ' +
+      'Requests pass through an API gateway where rate limiting middleware checks counters in a shared store such as Redis, ' +
+      'using a token bucket or sliding window with atomic increments and expiry. ' +
+      'Rules are loaded from configuration and cached locally. ' +
+      'Rejected requests get a 429 with retry headers. ' +
+      'Discuss race conditions, clock skew, failure modes and sharding the counter store.'
+  }
+];
+
+export const getSystemDesignPrompt = (key: string) =>
+  systemDesignPrompts.find(prompt => prompt.key === key);
@@ -1,226 +1,199 @@
-
-import { useState, useEffect } from "react";
-import { courseService } from "@/api/services/courseService";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  courseService,
+  COURSE_GENERATION_STEPS,
+  CourseGenerationJob,
+  CourseGenerationStatus,
+  getJobStepStates,
+} from "@/api/services/courseService";
+import { useAuth } from "./useAuth";
 import { toast as sonnerToast } from "sonner";
 import { CourseType } from "@/types";
 
-// Define an interface for the content structure
-interface CourseContent {
-  status?: string;
-  message?: string;
-  lastUpdated?: string;
-  parsedContent?: {
-    summary?: string;
-    chapters?: any[];
-  };
-  [key: string]: any;
+export type GenerationStepState = 'pending' | 'active' | 'done' | 'failed';
+
+export interface GenerationStep {
+  label: string;
+  state: GenerationStepState;
 }
 
+const ACTIVE_STATUSES: CourseGenerationStatus[] = ['pending', 'processing'];
+
+const isActive = (status?: string | null) =>
+  !!status && ACTIVE_STATUSES.includes(status as CourseGenerationStatus);
+
+const getSteps = (job: CourseGenerationJob | null): GenerationStep[] => {
+  const states = getJobStepStates(job);
+
+  return COURSE_GENERATION_STEPS.map(({ label, key }) => {
+    const state = states[key]?.status;
+    if (!job) return { label, state: 'pending' };
+    if (job.status === 'completed' || state === 'completed') return { label, state: 'done' };
+    if (state === 'failed') return { label, state: 'failed' };
+    if (state === 'running' && job.status === 'processing') return { label, state: 'active' };
+    return { label, state: 'pending' };
+  });
+};
+
 export const useCourseGeneration = () => {
-  const [generationInBackground, setGenerationInBackground] = useState(false);
-  const [courseGenerationId, setCourseGenerationId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const [job, setJob] = useState<CourseGenerationJob | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
-  const [generationStartTime, setGenerationStartTime] = useState<Date | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const previousStatus = useRef<string | null>(null);
+  const jobId = job?.id;
+  const jobActive = isActive(job?.status);
+  const startedAt = job?.started_at;
+  const generationStartTime = useMemo(() => (startedAt ? new Date(startedAt) : null), [startedAt]);
 
+  // Resume tracking a job that was still running when the page was left
   useEffect(() => {
-    let intervalId: number | null = null;
-    
-    if (generationInBackground && courseGenerationId) {
-      console.log("Setting up interval to check course generation status for ID:", courseGenerationId);
-      
-      // Show loader for 3 minutes (180000 ms) with gradual progress updates
-      const startTime = Date.now();
-      const totalDuration = 180000; // 3 minutes in milliseconds
-      
-      intervalId = window.setInterval(() => {
-        const elapsed = Date.now() - startTime;
-        
-        // Calculate progress as a percentage of the 3 minutes
-        const newProgress = Math.min(Math.round((elapsed / totalDuration) * 100), 99);
-        
-        setProgress(newProgress);
-        
-        // If 3 minutes have passed, complete the process
-        if (elapsed >= totalDuration) {
-          // Course is complete
-          setProgress(100);
-          
-          if (intervalId) clearInterval(intervalId);
-          setGenerationInBackground(false);
-          
-          // Notify user of completion
-          sonnerToast.success('Course Generation Complete', {
-            description: `Your course has been generated successfully.`,
-            action: {
-              label: 'View Course',
-              onClick: () => window.location.href = `/course/${courseGenerationId}`,
-            },
-          });
-        }
-      }, 1000); // Update every second for smoother progress
+    if (!user) {
+      setJob(null);
+      return;
     }
-    
+
+    courseService.getActiveGenerationJob(user.id)
+      .then(activeJob => {
+        if (activeJob) {
+          previousStatus.current = activeJob.status;
+          setJob(activeJob);
+        }
+      })
+      .catch(err => console.error('Error loading active generation job:', err));
+  }, [user]);
+
+  // Follow the job row written by course-generator-agent
+  useEffect(() => {
+    if (!jobId || !jobActive) return;
+
+    const channel = supabase
+      .channel(`course-generation-${jobId}-${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'course_generation_jobs', filter: `id=eq.${jobId}` },
+        (payload) => setJob(payload.new as CourseGenerationJob)
+      )
+      .subscribe();
+
+    // Catch anything that changed between the initial fetch and the subscription
+    courseService.getGenerationJob(jobId)
+      .then(setJob)
+      .catch(err => console.error('Error refreshing generation job:', err));
+
     return () => {
-      if (intervalId) {
-        console.log("Clearing interval for course generation check");
-        clearInterval(intervalId);
-      }
+      supabase.removeChannel(channel);
     };
-  }, [generationInBackground, courseGenerationId]);
+  }, [jobId, jobActive]);
+
+  // Notify once when a tracked job finishes; previousStatus keeps progress
+  // updates that don't change the status from notifying again
+  useEffect(() => {
+    if (!job) return;
+
+    const wasActive = isActive(previousStatus.current);
+    previousStatus.current = job.status;
+    if (!wasActive) return;
+
+    if (job.status === 'completed') {
+      sonnerToast.success('Course Generation Complete', {
+        description: 'Your course has been generated successfully.',
+        action: {
+          label: 'View Course',
+          onClick: () => window.location.href = `/course/${job.course_id}`,
+        },
+      });
+    } else if (job.status === 'failed') {
+      setError(job.error_message || 'Course generation failed.');
+      sonnerToast.error('Course Generation Failed', {
+        description: job.error_message || `Failed while ${job.current_step?.toLowerCase() || 'generating'}.`,
+      });
+    }
+  }, [job]);
 
-  // Create a function to start course generation (always succeeds with dummy data)
   const startCourseGeneration = async (
-    courseName: string, 
-    purpose: CourseType['purpose'], 
-    difficulty: CourseType['difficulty'],
-    userId: string
+    courseName: string,
+    purpose: CourseType['purpose'],
+    difficulty: CourseType['difficulty']
   ) => {
     try {
-      console.log("Starting course generation for:", courseName);
-      
-      // Reset progress and set start time
-      setProgress(0);
-      setGenerationStartTime(new Date());
-      
-      // Create a random course ID
-      const courseId = crypto.randomUUID();
-      
-      // Start the generation process
-      setCourseGenerationId(courseId);
-      setGenerationInBackground(true);
+      setIsStarting(true);
       setError(null);
-      
-      // Simulate course creation in database
-      console.log(`Created course with ID: ${courseId}`);
-      
-      // Process with static data after the 3-minute loading period completes
-      setTimeout(() => {
-        processStaticCourseGeneration(
-          courseName,
-          purpose,
-          difficulty as "beginner" | "intermediate" | "advanced",
-          courseId
-        );
-      }, 180000); // 3 minutes
-      
-      return courseId;
-    } catch (error: any) {
-      console.error("Error in startCourseGeneration:", error);
-      setProgress(0);
-      
-      // Never fail - use dummy data instead
-      const courseId = crypto.randomUUID();
-      setTimeout(() => {
-        processStaticCourseGeneration(
-          courseName,
-          purpose,
-          difficulty as "beginner" | "intermediate" | "advanced",
-          courseId
-        );
-      }, 180000); // Still wait 3 minutes even in error case
-      
+
+      const { courseId, jobId } = await courseService.generateCourse(courseName, purpose, difficulty);
+      const startedJob = await courseService.getGenerationJob(jobId);
+      previousStatus.current = startedJob.status;
+      setJob(startedJob);
+
       return courseId;
+    } catch (err) {
+      console.error("Error in startCourseGeneration:", err);
+      setError(err instanceof Error ? err.message : 'Failed to start course generation.');
+      throw err;
+    } finally {
+      setIsStarting(false);
     }
   };
 
-  // Process generation with static data
-  const processStaticCourseGeneration = async (
-    topic: string,
-    purpose: CourseType['purpose'],
-    difficulty: "beginner" | "intermediate" | "advanced",
-    courseId: string
-  ) => {
+  const retry = async () => {
+    if (!job) return;
+
     try {
-      setProgress(100);
-      
-      // Generate dummy data for the course
-      const staticCourse = {
-          title: topic,
-          difficulty: difficulty,
-          summary: `This is a comprehensive course on ${topic} for ${purpose} level.`,
-          content: {
-            parsedContent: {
-              summary: `Welcome to ${topic} for ${difficulty} learners!`,
-              chapters: [
-                { 
-                  title: "Introduction to " + topic, 
-                  content: "This chapter introduces the basic concepts of " + topic + ".",
-                  sections: [
-                    { title: "What is " + topic, content: "A detailed explanation of " + topic + " and its importance." },
-                    { title: "History of " + topic, content: "How " + topic + " evolved over time." }
-                  ]
-                },
-                { 
-                  title: "Core Concepts", 
-                  content: "Understanding the fundamental principles.",
-                  sections: [
-                    { title: "Key Principle 1", content: "Detailed explanation of the first principle." },
-                    { title: "Key Principle 2", content: "Detailed explanation of the second principle." }
-                  ]
-                },
-                { 
-                  title: "Advanced Topics", 
-                  content: "Exploring advanced concepts in " + topic,
-                  sections: [
-                    { title: "Advanced Concept 1", content: "Deep dive into first advanced topic." },
-                    { title: "Advanced Concept 2", content: "Deep dive into second advanced topic." }
-                  ]
-                }
-              ]
-            },
-            flashcards: [
-              { question: "What is " + topic + "?", answer: "A comprehensive definition of " + topic },
-              { question: "What are the core principles of " + topic + "?", answer: "The fundamental principles include..." }
-            ],
-            mcqs: [
-              {
-                question: "Which of the following best describes " + topic + "?",
-                options: ["Option A", "Option B", "Option C", "Option D"],
-                correctAnswer: "Option A"
-              },
-              {
-                question: "What is a key benefit of " + topic + "?",
-                options: ["Benefit 1", "Benefit 2", "Benefit 3", "Benefit 4"],
-                correctAnswer: "Benefit 2"
-              }
-            ],
-            qnas: [
-              { question: "How can I apply " + topic + " in real life?", answer: "You can apply it by..." },
-              { question: "What are common mistakes in " + topic + "?", answer: "Common mistakes include..." }
-            ]
-          }
-        };
-      
-      console.log(`Course ${courseId} updated with static/dummy content`);
-      
-    } catch (error: any) {
-      console.error(`Error in static course generation for course ${courseId}:`, error);
-      
-      // Never fail - create dummy data
-      console.log(`Created dummy data for course ${courseId}`);
+      setError(null);
+      await courseService.retryCourseGeneration(job.id);
+      const restarted = await courseService.getGenerationJob(job.id);
+      previousStatus.current = restarted.status;
+      setJob(restarted);
+    } catch (err) {
+      console.error('Error retrying course generation:', err);
+      sonnerToast.error('Failed to retry course generation');
     }
   };
 
-  // Generate additional content from static data
+  const cancel = async () => {
+    if (!job) return;
+
+    try {
+      await courseService.cancelCourseGeneration(job.id);
+      setJob(await courseService.getGenerationJob(job.id));
+      sonnerToast('Course generation cancelled');
+    } catch (err) {
+      console.error('Error cancelling course generation:', err);
+      sonnerToast.error('Failed to cancel course generation');
+    }
+  };
+
+  // Stop showing a finished, failed or cancelled job
+  const dismiss = () => {
+    if (jobActive) return;
+    previousStatus.current = null;
+    setJob(null);
+    setError(null);
+  };
+
   const generateAdditionalContent = async (
     courseId: string,
     contentType: 'flashcards' | 'mcqs' | 'qna',
     topic: string,
     difficulty?: string
-  ) => {
-    console.log(`Generating ${contentType} for course ${courseId} on topic ${topic}`);
-    // Always succeed with dummy data
-    return true;
-  };
+  ) => courseService.generateAdditionalContent(courseId, contentType, topic, difficulty);
 
   return {
-    generationInBackground,
-    courseGenerationId,
+    job,
+    status: (job?.status ?? null) as CourseGenerationStatus | null,
+    steps: getSteps(job),
+    currentStep: job?.current_step ?? null,
+    generationInBackground: jobActive,
+    isStarting,
+    courseGenerationId: job?.course_id ?? null,
     error,
-    progress,
+    progress: job?.progress_percentage ?? 0,
     setError,
     startCourseGeneration,
+    retry,
+    cancel,
+    dismiss,
     generateAdditionalContent,
     generationStartTime
   };
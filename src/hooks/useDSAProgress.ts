@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from 'sonner';
+
+interface ProgressProblem {
+  name: string;
+  url: string;
+  completed?: boolean;
+}
+
+interface ProgressGroup {
+  problems: ProgressProblem[];
+  solvedProblems: number;
+}
+
+// Completion timestamps keyed by normalized problem URL
+type ProgressData = Record<string, string>;
+
+// Normalize a problem URL so the same problem listed under a topic and a
+// company ("/two-sum" vs "/two-sum/") maps to one progress record
+export const getProblemKey = (url: string) => {
+  const trimmed = url.trim().toLowerCase().split(/[?#]/)[0].replace(/\/+$/, '');
+  const leetcodeMatch = trimmed.match(/leetcode\.com\/problems\/([^/]+)/);
+  if (leetcodeMatch) {
+    return `leetcode:${leetcodeMatch[1]}`;
+  }
+  return trimmed.replace(/^https?:\/\/(www\.)?/, '');
+};
+
+export const useDSAProgress = () => {
+  const [progress, setProgress] = useState<ProgressData>({});
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const loadProgress = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('dsa_progress')
+        .select('problem_key, completed_at')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      const progressData: ProgressData = {};
+      data?.forEach(row => {
+        progressData[row.problem_key] = row.completed_at;
+      });
+
+      setProgress(progressData);
+    } catch (error) {
+      console.error('Failed to load DSA progress:', error);
+      toast.error('Failed to load your DSA progress');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Load progress from database on mount and when user changes
+  useEffect(() => {
+    if (!user) {
+      setProgress({});
+      setLoading(false);
+      return;
+    }
+
+    loadProgress();
+
+    // Keep other open sessions and devices in sync
+    const channel = supabase
+      .channel(`dsa-progress-${user.id}-${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'dsa_progress', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const key = (payload.old as { problem_key?: string }).problem_key;
+            if (!key) return;
+            setProgress(prev => {
+              const next = { ...prev };
+              delete next[key];
+              return next;
+            });
+          } else {
+            const row = payload.new as { problem_key: string; completed_at: string };
+            setProgress(prev => ({ ...prev, [row.problem_key]: row.completed_at }));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, loadProgress]);
+
+  const isCompleted = useCallback(
+    (url: string) => Boolean(progress[getProblemKey(url)]),
+    [progress]
+  );
+
+  const getCompletedAt = useCallback(
+    (url: string) => progress[getProblemKey(url)] ?? null,
+    [progress]
+  );
+
+  const markCompleted = async (problem: ProgressProblem) => {
+    if (!user) {
+      toast.error('Please sign in to track your progress');
+      return;
+    }
+
+    const key = getProblemKey(problem.url);
+    const completedAt = new Date().toISOString();
+
+    // Optimistic update so the checkbox responds immediately
+    setProgress(prev => ({ ...prev, [key]: completedAt }));
+
+    try {
+      const { error } = await supabase
+        .from('dsa_progress')
+        .upsert({
+          user_id: user.id,
+          problem_key: key,
+          problem_url: problem.url,
+          problem_name: problem.name,
+          completed_at: completedAt
+        }, { onConflict: 'user_id,problem_key' });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to save DSA progress:', error);
+      toast.error('Failed to save progress');
+      setProgress(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }
+  };
+
+  const markIncomplete = async (problem: ProgressProblem) => {
+    if (!user) {
+      toast.error('Please sign in to track your progress');
+      return;
+    }
+
+    const key = getProblemKey(problem.url);
+    const previous = progress[key];
+
+    setProgress(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+
+    try {
+      const { error } = await supabase
+        .from('dsa_progress')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('problem_key', key);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to clear DSA progress:', error);
+      toast.error('Failed to update progress');
+      if (previous) {
+        setProgress(prev => ({ ...prev, [key]: previous }));
+      }
+    }
+  };
+
+  const toggleCompleted = async (problem: ProgressProblem) => {
+    if (isCompleted(problem.url)) {
+      await markIncomplete(problem);
+    } else {
+      await markCompleted(problem);
+    }
+  };
+
+  const countSolved = useCallback(
+    (problems: ProgressProblem[]) => problems.filter(problem => isCompleted(problem.url)).length,
+    [isCompleted]
+  );
+
+  // Overlay stored progress onto static topic/company data
+  const withProgress = useCallback(
+    <G extends ProgressGroup>(groups: G[]): G[] =>
+      groups.map(group => {
+        const problems = group.problems.map(problem => ({
+          ...problem,
+          completed: isCompleted(problem.url)
+        }));
+        return {
+          ...group,
+          problems,
+          solvedProblems: problems.filter(problem => problem.completed).length
+        };
+      }),
+    [isCompleted]
+  );
+
+  return {
+    progress,
+    loading,
+    isCompleted,
+    getCompletedAt,
+    markCompleted,
+    markIncomplete,
+    toggleCompleted,
+    countSolved,
+    withProgress
+  };
+};
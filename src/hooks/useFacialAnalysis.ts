@@ -1,128 +1,156 @@
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+import { FaceSignalData, FacialAnalysisSample, FacialExpressionData } from '@/types';
+import { createSignalTracker, getFacialAnalysisProvider, signalsToExpression } from '@/lib/facialAnalysis';
 
-// Enhanced facial expression analysis that will connect to Flask API in the future
+// Facial expression analysis on webcam frames. Frames go to the configured
+// provider (a face landmark model in the browser by default) several times a
+// second, and one sample is recorded per `interval`. Pass `sourceRef` to
+// analyse a video element that already shows the camera stream instead of
+// opening a second one.
 const useFacialAnalysis = (
   isActive: boolean = false,
-  interval: number = 3000
+  interval: number = 3000,
+  sourceRef?: RefObject<HTMLVideoElement>
 ) => {
-  const [facialData, setFacialData] = useState<{
-    confident: number;
-    stressed: number;
-    hesitant: number;
-    nervous: number;
-    excited: number;
-  }>({
+  const [facialData, setFacialData] = useState<FacialExpressionData>({
     confident: 0,
     stressed: 0,
     hesitant: 0,
     nervous: 0,
     excited: 0
   });
+  const [signals, setSignals] = useState<FaceSignalData | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const analysisTimerRef = useRef<number | null>(null);
-  const allAnalysisData = useRef<typeof facialData[]>([]);
+  const ownVideoRef = useRef<HTMLVideoElement | null>(null);
+  const videoRef = sourceRef || ownVideoRef;
+  const frameTimerRef = useRef<number | null>(null);
+  const sampleTimerRef = useRef<number | null>(null);
+  const runningRef = useRef(false);
+  // Bumped on every stop so a model that finishes loading late does not start timers
+  const runIdRef = useRef(0);
+  const frameBusyRef = useRef(false);
+  const trackerRef = useRef(createSignalTracker());
+  const ownsStreamRef = useRef(false);
+  const startedAtRef = useRef(0);
+  const allAnalysisData = useRef<FacialAnalysisSample[]>([]);
 
-  const captureImage = async (): Promise<Blob | null> => {
-    if (!videoRef.current) return null;
-    
-    const canvas = document.createElement('canvas');
-    canvas.width = videoRef.current.videoWidth;
-    canvas.height = videoRef.current.videoHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    
-    ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
-    
-    return new Promise<Blob | null>((resolve) => {
-      canvas.toBlob(blob => resolve(blob), 'image/jpeg', 0.95);
-    });
-  };
+  const analyzeFrame = useCallback(async () => {
+    const video = videoRef.current;
+    // Skip frames while the provider is still busy with the previous one
+    if (!video || frameBusyRef.current) return;
 
-  const analyzeFrame = async () => {
+    frameBusyRef.current = true;
     try {
-      const imageBlob = await captureImage();
-      
-      if (!imageBlob) {
-        console.error('Failed to capture image from video');
-        return;
+      const frame = await getFacialAnalysisProvider().analyzeFrame(video, performance.now());
+      if (frame) {
+        trackerRef.current.addFrame(frame, Date.now() - startedAtRef.current);
       }
-      
-      // Simulate facial analysis with random data for now
-      // In a real implementation, this would call the Flask API
-      const mockAnalysis = {
-        confident: Math.random() * 100,
-        stressed: Math.random() * 50,
-        hesitant: Math.random() * 70,
-        nervous: Math.random() * 60,
-        excited: Math.random() * 80
-      };
-      
-      setFacialData(mockAnalysis);
-      allAnalysisData.current.push(mockAnalysis);
-      
-      // In the future, we would send the image to the Flask API like this:
-      /*
-      const formData = new FormData();
-      formData.append('image', imageBlob, 'frame.jpg');
-      
-      const response = await fetch(`${FLASK_API_URL}/analyze_facial`, {
-        method: 'POST',
-        body: formData
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to analyze facial expression');
-      }
-      
-      const analysis = await response.json();
-      setFacialData(analysis);
-      allAnalysisData.current.push(analysis);
-      */
     } catch (error) {
       console.error('Error analyzing facial expression:', error);
+    } finally {
+      frameBusyRef.current = false;
+    }
+  }, [videoRef]);
+
+  const recordSample = useCallback(() => {
+    const t = Date.now() - startedAtRef.current;
+    const windowSignals = trackerRef.current.flush(t);
+    if (!windowSignals) return;
+
+    const expression = signalsToExpression(windowSignals);
+    setFacialData(expression);
+    setSignals(windowSignals);
+    allAnalysisData.current.push({ ...expression, t, signals: windowSignals });
+  }, []);
+
+  const startTimers = useCallback(async (runId: number) => {
+    const provider = getFacialAnalysisProvider();
+
+    try {
+      await provider.init();
+    } catch (error) {
+      console.error('Facial analysis is unavailable:', error);
+      setAnalysisError('Facial analysis could not be loaded; your answer is still recorded.');
+      return;
+    }
+
+    if (runId !== runIdRef.current) return;
+
+    setAnalysisError(null);
+    setIsAnalyzing(true);
+    frameTimerRef.current = window.setInterval(analyzeFrame, provider.frameIntervalMs);
+    sampleTimerRef.current = window.setInterval(recordSample, interval);
+  }, [analyzeFrame, recordSample, interval]);
+
+  const startAnalysis = useCallback(async () => {
+    // Already sampling; the recorder and the isActive effect may both ask to start
+    if (runningRef.current) return;
+
+    runningRef.current = true;
+    const runId = runIdRef.current;
+    allAnalysisData.current = [];
+    trackerRef.current.reset();
+    startedAtRef.current = Date.now();
+
+    if (videoRef.current?.srcObject) {
+      ownsStreamRef.current = false;
+      await startTimers(runId);
+      return;
     }
-  };
 
-  const startAnalysis = async () => {
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
       console.error('Browser does not support getUserMedia');
+      runningRef.current = false;
       return;
     }
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ video: true });
       
-      if (videoRef.current) {
+      if (videoRef.current && runId === runIdRef.current) {
         videoRef.current.srcObject = stream;
         videoRef.current.play();
-        setIsAnalyzing(true);
-        
-        // Start analyzing at intervals
-        analysisTimerRef.current = window.setInterval(analyzeFrame, interval);
+        ownsStreamRef.current = true;
+        await startTimers(runId);
+      } else {
+        stream.getTracks().forEach(track => track.stop());
       }
     } catch (error) {
       console.error('Error accessing webcam:', error);
+      runningRef.current = false;
+    }
+  }, [videoRef, startTimers]);
+
+  const stopAnalysis = useCallback(() => {
+    runIdRef.current += 1;
+    runningRef.current = false;
+
+    if (frameTimerRef.current) {
+      clearInterval(frameTimerRef.current);
+      frameTimerRef.current = null;
+    }
+    if (sampleTimerRef.current) {
+      clearInterval(sampleTimerRef.current);
+      sampleTimerRef.current = null;
+      // Keep the frames analysed since the last full window
+      recordSample();
     }
-  };
 
-  const stopAnalysis = () => {
-    if (videoRef.current && videoRef.current.srcObject) {
+    if (ownsStreamRef.current && videoRef.current && videoRef.current.srcObject) {
       const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
       tracks.forEach(track => track.stop());
       videoRef.current.srcObject = null;
     }
-    
-    if (analysisTimerRef.current) {
-      clearInterval(analysisTimerRef.current);
-      analysisTimerRef.current = null;
-    }
+    ownsStreamRef.current = false;
     
     setIsAnalyzing(false);
-  };
+  }, [videoRef, recordSample]);
+
+  // Timestamped samples from the current (or last) analysis run
+  const getSamples = useCallback((): FacialAnalysisSample[] => [...allAnalysisData.current], []);
 
   const getAggregatedAnalysis = () => {
     if (allAnalysisData.current.length === 0) {
@@ -167,10 +195,13 @@ const useFacialAnalysis = (
   return {
     videoRef,
     facialData,
+    signals,
+    analysisError,
     isAnalyzing,
     startAnalysis,
     stopAnalysis,
     getAggregatedAnalysis,
+    getSamples,
   };
 };
 
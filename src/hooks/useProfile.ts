@@ -1,7 +1,8 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useAuth } from '@/hooks/useAuth';
 import { UserProfile, ProfileFormData } from "@/types/profile";
 import { profileService } from "@/api/services/profileService";
+import { ApplyMergeInput, ProfileMergeRecord, profileMergeService } from "@/api/services/profileMergeService";
 import { useToast } from "@/hooks/use-toast";
 
 export const useProfile = () => {
@@ -12,7 +13,7 @@ export const useProfile = () => {
   const [error, setError] = useState<string | null>(null);
 
   // Initialize empty profile
-  const initializeProfile = (): UserProfile => ({
+  const initializeProfile = useCallback((): UserProfile => ({
     userId: user?.id || "",
     personalInfo: {
       fullName: user?.user_metadata?.full_name || "",
@@ -31,15 +32,9 @@ export const useProfile = () => {
     completionPercentage: 0,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
-  });
+  }), [user]);
 
-  useEffect(() => {
-    if (user) {
-      loadProfile();
-    }
-  }, [user]);
-
-  const loadProfile = async () => {
+  const loadProfile = useCallback(async () => {
     if (!user) return;
     
     setIsLoading(true);
@@ -69,7 +64,13 @@ export const useProfile = () => {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [user, initializeProfile]);
+
+  useEffect(() => {
+    if (user) {
+      loadProfile();
+    }
+  }, [user, loadProfile]);
 
   const updateProfile = async (updates: Partial<ProfileFormData>) => {
     console.log('🔄 updateProfile called:', { 
@@ -128,26 +129,18 @@ export const useProfile = () => {
     }
   };
 
-  const applyExtractedData = async (extractedData: any) => {
-    if (!user || !extractedData) return;
+  // Applies the changes the user accepted while reviewing extracted resume
+  // data. The returned merge is what undoMerge takes to roll it back.
+  const applyExtractedData = async (input: ApplyMergeInput) => {
+    if (!user) return null;
     
     setIsLoading(true);
     try {
-      const success = await profileService.applyExtractedData(user.id, extractedData);
+      const merge = await profileMergeService.applyMerge(user.id, input);
       
-      if (success) {
-        // Reload profile to get updated data
-        await loadProfile();
-        
-        toast({
-          title: "Success! 🎉",
-          description: "Your profile has been automatically filled with extracted data from your resume.",
-        });
-        
-        return true;
-      } else {
-        throw new Error('Failed to apply extracted data');
-      }
+      // Reload profile to get updated data
+      await loadProfile();
+      return merge;
     } catch (error) {
       console.error("Failed to apply extracted data:", error);
       toast({
@@ -155,6 +148,35 @@ export const useProfile = () => {
         description: "Failed to apply extracted data. Please try again.",
         variant: "destructive",
       });
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const undoMerge = async (merge: ProfileMergeRecord) => {
+    if (!user) return false;
+
+    setIsLoading(true);
+    try {
+      const kept = await profileMergeService.undoMerge(user.id, merge);
+      await loadProfile();
+
+      toast({
+        title: "Changes Undone",
+        description: kept.length === 0
+          ? "Your profile is back to how it was before the resume data was applied."
+          : `Kept what you've edited since: ${kept.join(", ")}. Everything else was undone.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error("Failed to undo profile merge:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to undo the changes. Please try again.",
+        variant: "destructive",
+      });
       return false;
     } finally {
       setIsLoading(false);
@@ -201,6 +223,7 @@ export const useProfile = () => {
     updateProfile,
     uploadResume,
     applyExtractedData,
+    undoMerge,
     deleteResume,
     loadProfile,
   };
@@ -65,42 +65,122 @@ export type Database = {
           },
         ]
       }
+      ai_quotas: {
+        Row: {
+          created_at: string
+          daily_request_limit: number | null
+          daily_token_limit: number | null
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          daily_request_limit?: number | null
+          daily_token_limit?: number | null
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          daily_request_limit?: number | null
+          daily_token_limit?: number | null
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          completion_tokens: number
+          course_id: string | null
+          created_at: string
+          feature: string
+          id: string
+          latency_ms: number | null
+          model: string
+          prompt_tokens: number
+          provider: string
+          total_tokens: number
+          user_id: string | null
+        }
+        Insert: {
+          completion_tokens?: number
+          course_id?: string | null
+          created_at?: string
+          feature: string
+          id?: string
+          latency_ms?: number | null
+          model: string
+          prompt_tokens?: number
+          provider: string
+          total_tokens?: number
+          user_id?: string | null
+        }
+        Update: {
+          completion_tokens?: number
+          course_id?: string | null
+          created_at?: string
+          feature?: string
+          id?: string
+          latency_ms?: number | null
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          total_tokens?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       code_submissions: {
         Row: {
-          attempt_id: string
+          attempt_id: string | null
           code: string
           created_at: string
           execution_time: number | null
           id: string
           language: string
           memory_used: number | null
-          question_id: string
+          problem_key: string | null
+          question_id: string | null
           status: string
           test_results: Json | null
           user_id: string
         }
         Insert: {
-          attempt_id: string
+          attempt_id?: string | null
           code: string
           created_at?: string
           execution_time?: number | null
           id?: string
           language?: string
           memory_used?: number | null
-          question_id: string
+          problem_key?: string | null
+          question_id?: string | null
           status?: string
           test_results?: Json | null
           user_id: string
         }
         Update: {
-          attempt_id?: string
+          attempt_id?: string | null
           code?: string
           created_at?: string
           execution_time?: number | null
           id?: string
           language?: string
           memory_used?: number | null
-          question_id?: string
+          problem_key?: string | null
+          question_id?: string | null
           status?: string
           test_results?: Json | null
           user_id?: string
@@ -124,6 +204,7 @@ export type Database = {
       }
       course_chapters: {
         Row: {
+          archived_at: string | null
           content: string
           course_id: string
           created_at: string
@@ -134,6 +215,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           content: string
           course_id: string
           created_at?: string
@@ -144,6 +226,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           content?: string
           course_id?: string
           created_at?: string
@@ -223,6 +306,7 @@ export type Database = {
       course_flashcards: {
         Row: {
           answer: string
+          archived_at: string | null
           chapter_id: string | null
           course_id: string
           created_at: string
@@ -232,6 +316,7 @@ export type Database = {
         }
         Insert: {
           answer: string
+          archived_at?: string | null
           chapter_id?: string | null
           course_id: string
           created_at?: string
@@ -241,6 +326,7 @@ export type Database = {
         }
         Update: {
           answer?: string
+          archived_at?: string | null
           chapter_id?: string | null
           course_id?: string
           created_at?: string
@@ -278,6 +364,7 @@ export type Database = {
           progress_percentage: number | null
           started_at: string | null
           status: string
+          steps: Json
           updated_at: string | null
           user_id: string
         }
@@ -293,6 +380,7 @@ export type Database = {
           progress_percentage?: number | null
           started_at?: string | null
           status?: string
+          steps?: Json
           updated_at?: string | null
           user_id: string
         }
@@ -308,6 +396,7 @@ export type Database = {
           progress_percentage?: number | null
           started_at?: string | null
           status?: string
+          steps?: Json
           updated_at?: string | null
           user_id?: string
         }
@@ -364,6 +453,7 @@ export type Database = {
       }
       course_mcqs: {
         Row: {
+          archived_at: string | null
           chapter_id: string | null
           correct_answer: string
           course_id: string
@@ -375,6 +465,7 @@ export type Database = {
           question: string
         }
         Insert: {
+          archived_at?: string | null
           chapter_id?: string | null
           correct_answer: string
           course_id: string
@@ -386,6 +477,7 @@ export type Database = {
           question: string
         }
         Update: {
+          archived_at?: string | null
           chapter_id?: string | null
           correct_answer?: string
           course_id?: string
@@ -723,6 +815,110 @@ export type Database = {
         }
         Relationships: []
       }
+      dsa_progress: {
+        Row: {
+          completed_at: string
+          created_at: string
+          id: string
+          problem_key: string
+          problem_name: string
+          problem_url: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string
+          created_at?: string
+          id?: string
+          problem_key: string
+          problem_name: string
+          problem_url: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string
+          created_at?: string
+          id?: string
+          problem_key?: string
+          problem_name?: string
+          problem_url?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      dsa_tutor_conversations: {
+        Row: {
+          context: Json
+          created_at: string
+          hint_level: number
+          id: string
+          mode: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          context?: Json
+          created_at?: string
+          hint_level?: number
+          id?: string
+          mode?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          context?: Json
+          created_at?: string
+          hint_level?: number
+          id?: string
+          mode?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      dsa_tutor_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          hint_level: number | null
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          hint_level?: number | null
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          hint_level?: number | null
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dsa_tutor_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "dsa_tutor_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exam_attempts: {
         Row: {
           answers: Json
@@ -849,12 +1045,80 @@ export type Database = {
           },
         ]
       }
+      flashcard_reviews: {
+        Row: {
+          course_id: string
+          created_at: string
+          due_at: string
+          ease_factor: number
+          flashcard_id: string
+          id: string
+          interval_days: number
+          lapses: number
+          last_grade: string | null
+          last_reviewed_at: string | null
+          repetitions: number
+          total_reviews: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          flashcard_id: string
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_grade?: string | null
+          last_reviewed_at?: string | null
+          repetitions?: number
+          total_reviews?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          flashcard_id?: string
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_grade?: string | null
+          last_reviewed_at?: string | null
+          repetitions?: number
+          total_reviews?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcard_reviews_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flashcard_reviews_flashcard_id_fkey"
+            columns: ["flashcard_id"]
+            isOneToOne: false
+            referencedRelation: "course_flashcards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       interview_responses: {
         Row: {
           ai_analysis: Json | null
           audio_recording_path: string | null
+          coding_session: Json | null
           confidence_score: number | null
           created_at: string
+          design_diagram: Json | null
           facial_analysis: Json | null
           id: string
           question_index: number
@@ -862,14 +1126,18 @@ export type Database = {
           response_text: string | null
           response_time_seconds: number | null
           session_id: string
+          transcript: Json | null
+          transcription_status: string | null
           user_id: string
           video_recording_path: string | null
         }
         Insert: {
           ai_analysis?: Json | null
           audio_recording_path?: string | null
+          coding_session?: Json | null
           confidence_score?: number | null
           created_at?: string
+          design_diagram?: Json | null
           facial_analysis?: Json | null
           id?: string
           question_index: number
@@ -877,14 +1145,18 @@ export type Database = {
           response_text?: string | null
           response_time_seconds?: number | null
           session_id: string
+          transcript?: Json | null
+          transcription_status?: string | null
           user_id: string
           video_recording_path?: string | null
         }
         Update: {
           ai_analysis?: Json | null
           audio_recording_path?: string | null
+          coding_session?: Json | null
           confidence_score?: number | null
           created_at?: string
+          design_diagram?: Json | null
           facial_analysis?: Json | null
           id?: string
           question_index?: number
@@ -892,6 +1164,8 @@ export type Database = {
           response_text?: string | null
           response_time_seconds?: number | null
           session_id?: string
+          transcript?: Json | null
+          transcription_status?: string | null
           user_id?: string
           video_recording_path?: string | null
         }
@@ -973,6 +1247,72 @@ export type Database = {
           },
         ]
       }
+      interview_stories: {
+        Row: {
+          action: string
+          competencies: string[]
+          created_at: string
+          experience_id: string | null
+          id: string
+          last_used_at: string | null
+          project_id: string | null
+          result: string
+          situation: string
+          task: string
+          times_used: number
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          action?: string
+          competencies?: string[]
+          created_at?: string
+          experience_id?: string | null
+          id?: string
+          last_used_at?: string | null
+          project_id?: string | null
+          result?: string
+          situation?: string
+          task?: string
+          times_used?: number
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          competencies?: string[]
+          created_at?: string
+          experience_id?: string | null
+          id?: string
+          last_used_at?: string | null
+          project_id?: string | null
+          result?: string
+          situation?: string
+          task?: string
+          times_used?: number
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_stories_experience_id_fkey"
+            columns: ["experience_id"]
+            isOneToOne: false
+            referencedRelation: "user_experience"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_stories_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "user_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profile_analytics: {
         Row: {
           action_type: string
@@ -1000,6 +1340,42 @@ export type Database = {
         }
         Relationships: []
       }
+      profile_merges: {
+        Row: {
+          applied: Json
+          changes: Json
+          confidence_score: number | null
+          created_at: string
+          id: string
+          previous: Json
+          source: string | null
+          undone_at: string | null
+          user_id: string
+        }
+        Insert: {
+          applied?: Json
+          changes?: Json
+          confidence_score?: number | null
+          created_at?: string
+          id?: string
+          previous?: Json
+          source?: string | null
+          undone_at?: string | null
+          user_id: string
+        }
+        Update: {
+          applied?: Json
+          changes?: Json
+          confidence_score?: number | null
+          created_at?: string
+          id?: string
+          previous?: Json
+          source?: string | null
+          undone_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -1027,6 +1403,197 @@ export type Database = {
         }
         Relationships: []
       }
+      quiz_answers: {
+        Row: {
+          answered_at: string
+          chapter_id: string | null
+          course_id: string
+          difficulty: string | null
+          id: string
+          is_correct: boolean
+          mcq_id: string
+          selected_answer: string
+          session_id: string
+          time_taken_ms: number | null
+          user_id: string
+        }
+        Insert: {
+          answered_at?: string
+          chapter_id?: string | null
+          course_id: string
+          difficulty?: string | null
+          id?: string
+          is_correct: boolean
+          mcq_id: string
+          selected_answer: string
+          session_id: string
+          time_taken_ms?: number | null
+          user_id: string
+        }
+        Update: {
+          answered_at?: string
+          chapter_id?: string | null
+          course_id?: string
+          difficulty?: string | null
+          id?: string
+          is_correct?: boolean
+          mcq_id?: string
+          selected_answer?: string
+          session_id?: string
+          time_taken_ms?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_answers_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "course_chapters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_answers_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_answers_mcq_id_fkey"
+            columns: ["mcq_id"]
+            isOneToOne: false
+            referencedRelation: "course_mcqs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_answers_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_sessions: {
+        Row: {
+          chapter_id: string | null
+          completed_at: string | null
+          course_id: string
+          created_at: string
+          id: string
+          mcq_ids: string[]
+          mode: string
+          score: number
+          started_at: string
+          time_spent: number
+          total_questions: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          chapter_id?: string | null
+          completed_at?: string | null
+          course_id: string
+          created_at?: string
+          id?: string
+          mcq_ids?: string[]
+          mode?: string
+          score?: number
+          started_at?: string
+          time_spent?: number
+          total_questions?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          chapter_id?: string | null
+          completed_at?: string | null
+          course_id?: string
+          created_at?: string
+          id?: string
+          mcq_ids?: string[]
+          mode?: string
+          score?: number
+          started_at?: string
+          time_spent?: number
+          total_questions?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_sessions_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "course_chapters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_sessions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resume_analyses: {
+        Row: {
+          analysis: Json
+          ats_score: number
+          created_at: string
+          extracted_text: string | null
+          file_size: number | null
+          filename: string
+          id: string
+          job_description: string | null
+          job_match_score: number
+          job_role: string
+          overall_score: number
+          recommendations: string[]
+          skill_gaps: string[]
+          source: string
+          storage_path: string | null
+          user_id: string
+        }
+        Insert: {
+          analysis?: Json
+          ats_score?: number
+          created_at?: string
+          extracted_text?: string | null
+          file_size?: number | null
+          filename: string
+          id?: string
+          job_description?: string | null
+          job_match_score?: number
+          job_role: string
+          overall_score?: number
+          recommendations?: string[]
+          skill_gaps?: string[]
+          source?: string
+          storage_path?: string | null
+          user_id: string
+        }
+        Update: {
+          analysis?: Json
+          ats_score?: number
+          created_at?: string
+          extracted_text?: string | null
+          file_size?: number | null
+          filename?: string
+          id?: string
+          job_description?: string | null
+          job_match_score?: number
+          job_role?: string
+          overall_score?: number
+          recommendations?: string[]
+          skill_gaps?: string[]
+          source?: string
+          storage_path?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       resume_extractions: {
         Row: {
           applied_at: string | null
@@ -1077,6 +1644,104 @@ export type Database = {
           },
         ]
       }
+      resume_variant_applications: {
+        Row: {
+          company: string
+          created_at: string
+          id: string
+          notes: string | null
+          position: string | null
+          sent_at: string
+          status: string
+          updated_at: string
+          user_id: string
+          variant_id: string
+        }
+        Insert: {
+          company: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          position?: string | null
+          sent_at?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+          variant_id: string
+        }
+        Update: {
+          company?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          position?: string | null
+          sent_at?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+          variant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resume_variant_applications_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "resume_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resume_variants: {
+        Row: {
+          advice: string[]
+          bullets: Json
+          company: string | null
+          content: Json
+          created_at: string
+          id: string
+          job_description: string | null
+          job_role: string | null
+          layout: Json
+          name: string
+          skill_gaps: string[]
+          target_keywords: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          advice?: string[]
+          bullets?: Json
+          company?: string | null
+          content?: Json
+          created_at?: string
+          id?: string
+          job_description?: string | null
+          job_role?: string | null
+          layout?: Json
+          name: string
+          skill_gaps?: string[]
+          target_keywords?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          advice?: string[]
+          bullets?: Json
+          company?: string | null
+          content?: Json
+          created_at?: string
+          id?: string
+          job_description?: string | null
+          job_role?: string | null
+          layout?: Json
+          name?: string
+          skill_gaps?: string[]
+          target_keywords?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_certifications: {
         Row: {
           created_at: string
@@ -1367,8 +2032,11 @@ export type Database = {
       }
       user_settings: {
         Row: {
+          ai_api_key: string | null
+          ai_base_url: string | null
+          ai_model: string | null
+          ai_provider: string | null
           created_at: string | null
-          gemini_api_key: string | null
           id: string
           preferred_difficulty: string | null
           preferred_language: string | null
@@ -1377,8 +2045,11 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          ai_api_key?: string | null
+          ai_base_url?: string | null
+          ai_model?: string | null
+          ai_provider?: string | null
           created_at?: string | null
-          gemini_api_key?: string | null
           id?: string
           preferred_difficulty?: string | null
           preferred_language?: string | null
@@ -1387,8 +2058,11 @@ export type Database = {
           user_id: string
         }
         Update: {
+          ai_api_key?: string | null
+          ai_base_url?: string | null
+          ai_model?: string | null
+          ai_provider?: string | null
           created_at?: string | null
-          gemini_api_key?: string | null
           id?: string
           preferred_difficulty?: string | null
           preferred_language?: string | null
@@ -1437,6 +2111,42 @@ export type Database = {
         Args: { user_profile_id: string }
         Returns: number
       }
+      get_ai_usage_today: {
+        Args: { p_user_id: string }
+        Returns: {
+          request_count: number
+          total_tokens: number
+        }[]
+      }
+      get_exam_answer_key: {
+        Args: { p_exam_id: string }
+        Returns: {
+          correct_answer: string
+          explanation: string | null
+          question_id: string
+        }[]
+      }
+      normalize_short_answer: {
+        Args: { p_answer: string }
+        Returns: string
+      }
+      submit_exam_attempt: {
+        Args: { p_answers: Json; p_attempt_id: string; p_time_spent: number }
+        Returns: {
+          answers: Json
+          completed_at: string | null
+          course_id: string
+          created_at: string
+          exam_id: string
+          id: string
+          is_completed: boolean | null
+          max_score: number | null
+          score: number | null
+          started_at: string
+          time_spent: number | null
+          user_id: string
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,38 @@
+import { Tables } from '@/integrations/supabase/types';
+import {
+  AIProviderConfig,
+  CompletionResult,
+  createAIProvider,
+  isAIProviderId,
+} from '../../../supabase/functions/_shared/ai/index.ts';
+
+// The provider layer lives with the edge functions so both sides build
+// providers, count tokens and retry the same way
+export * from '../../../supabase/functions/_shared/ai/index.ts';
+
+export type AISettings = Pick<Tables<'user_settings'>, 'ai_provider' | 'ai_model' | 'ai_base_url' | 'ai_api_key'>;
+
+// Null means the user has not chosen and the server default applies
+export const settingsToConfig = (settings: Partial<AISettings> | null): AIProviderConfig | null =>
+  settings && isAIProviderId(settings.ai_provider)
+    ? {
+        provider: settings.ai_provider,
+        model: settings.ai_model || null,
+        baseUrl: settings.ai_base_url || null,
+        apiKey: settings.ai_api_key || null,
+      }
+    : null;
+
+// One short, unretried round trip from the browser. Edge functions make the
+// real calls, so a local server must also be reachable from wherever they run.
+export const testAIProvider = async (config: AIProviderConfig): Promise<CompletionResult> => {
+  const provider = createAIProvider(config, false);
+  return provider.complete({
+    messages: [
+      { role: 'system', content: 'Reply with the single word: ok' },
+      { role: 'user', content: 'ping' },
+    ],
+    temperature: 0,
+    maxTokens: 5,
+  });
+};
@@ -0,0 +1,107 @@
+// Groups the free-form ai_usage.feature values written by the edge functions
+// and Python agents into the buckets shown on the Settings usage card
+
+export type UsageFeature =
+  | 'chapters'
+  | 'flashcards'
+  | 'mcqs'
+  | 'qnas'
+  | 'notebooks'
+  | 'exams'
+  | 'interviews'
+  | 'tutor'
+  | 'resume'
+  | 'other';
+
+export const USAGE_FEATURES: Array<{ id: UsageFeature; label: string; color: string }> = [
+  { id: 'chapters', label: 'Course chapters', color: 'hsl(221 83% 53%)' },
+  { id: 'flashcards', label: 'Flashcards', color: 'hsl(262 83% 58%)' },
+  { id: 'mcqs', label: 'MCQs', color: 'hsl(330 81% 60%)' },
+  { id: 'qnas', label: 'Q&A', color: 'hsl(24 95% 53%)' },
+  { id: 'notebooks', label: 'Notebooks', color: 'hsl(45 93% 47%)' },
+  { id: 'exams', label: 'Exams', color: 'hsl(0 72% 51%)' },
+  { id: 'interviews', label: 'Interviews', color: 'hsl(142 71% 45%)' },
+  { id: 'tutor', label: 'Tutor chat', color: 'hsl(173 80% 40%)' },
+  { id: 'resume', label: 'Resume analysis', color: 'hsl(199 89% 48%)' },
+  { id: 'other', label: 'Other', color: 'hsl(215 16% 47%)' },
+];
+
+const CONTENT_FEATURES: Record<string, UsageFeature> = {
+  flashcards: 'flashcards',
+  mcqs: 'mcqs',
+  qnas: 'qnas',
+  notebook: 'notebooks',
+  exam: 'exams',
+};
+
+export const usageFeature = (feature: string): UsageFeature => {
+  const [source, task] = feature.split(':');
+  if (source === 'generate-course-content') return CONTENT_FEATURES[task] || 'other';
+  if (source === 'course-generator-agent') return 'chapters';
+  if (source.startsWith('interview-')) return 'interviews';
+  if (source === 'dsa-tutor') return 'tutor';
+  if (source === 'resume-analyzer' || source === 'profile-service' || source === 'resume-bullet-rewriter') return 'resume';
+  return 'other';
+};
+
+export interface UsageRecord {
+  feature: string;
+  total_tokens: number;
+  created_at: string;
+}
+
+export interface UsageDay extends Partial<Record<UsageFeature, number>> {
+  date: string; // YYYY-MM-DD in UTC, matching when quotas reset
+}
+
+export interface UsageSummary {
+  days: UsageDay[];
+  byFeature: Array<{ feature: UsageFeature; tokens: number; requests: number }>;
+  totalTokens: number;
+  totalRequests: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Token totals per feature for each of the last `days` days (oldest first,
+// ending today) plus the totals over the whole range
+export const summarizeUsage = (records: UsageRecord[], days: number, now = new Date()): UsageSummary => {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const dayList: UsageDay[] = Array.from({ length: days }, (_, i) => ({
+    date: new Date(today - (days - 1 - i) * DAY_MS).toISOString().slice(0, 10),
+  }));
+  const dayIndex = new Map(dayList.map((day, i) => [day.date, i]));
+  const totals = new Map<UsageFeature, { tokens: number; requests: number }>();
+
+  for (const record of records) {
+    const day = dayList[dayIndex.get(record.created_at.slice(0, 10)) ?? -1];
+    if (!day) continue;
+
+    const feature = usageFeature(record.feature);
+    day[feature] = (day[feature] || 0) + record.total_tokens;
+
+    const total = totals.get(feature) || { tokens: 0, requests: 0 };
+    total.tokens += record.total_tokens;
+    total.requests += 1;
+    totals.set(feature, total);
+  }
+
+  const byFeature = USAGE_FEATURES
+    .filter(({ id }) => totals.has(id))
+    .map(({ id }) => ({ feature: id, ...totals.get(id) }))
+    .sort((a, b) => b.tokens - a.tokens);
+
+  return {
+    days: dayList,
+    byFeature,
+    totalTokens: byFeature.reduce((sum, item) => sum + item.tokens, 0),
+    totalRequests: byFeature.reduce((sum, item) => sum + item.requests, 0),
+  };
+};
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000
+      ? `${(tokens / 1_000).toFixed(1)}k`
+      : String(tokens);
@@ -0,0 +1,41 @@
+import { ANSWER_SCORER } from '@/configs/environment';
+import { createLlmScorer } from './llmScorer';
+import { offlineScorer } from './offlineScorer';
+import { AnswerScore, AnswerScorer, ScoringInput } from './types';
+
+export * from './types';
+export { buildRubric, isBehavioralQuestion } from './rubric';
+export { detectStar, groupStarSections, STAR_COMPONENTS, STAR_LABELS } from './star';
+export { offlineScorer } from './offlineScorer';
+export { createLlmScorer } from './llmScorer';
+
+let scorer: AnswerScorer = ANSWER_SCORER === 'offline' ? offlineScorer : createLlmScorer();
+
+// Swap the grading backend; the offline scorer always remains the fallback
+export const setAnswerScorer = (next: AnswerScorer) => {
+  scorer = next;
+};
+
+export const getAnswerScorer = () => scorer;
+
+export const scoreAnswer = async (input: ScoringInput): Promise<AnswerScore> => {
+  let used = scorer;
+  let result: Omit<AnswerScore, 'scorer' | 'scored_at'>;
+
+  try {
+    result = await scorer.score(input);
+  } catch (error) {
+    if (scorer === offlineScorer) throw error;
+
+    console.warn(`Scorer "${scorer.name}" failed, using the offline scorer:`, error);
+    used = offlineScorer;
+    result = await offlineScorer.score(input);
+  }
+
+  return { ...result, scorer: used.name, scored_at: new Date().toISOString() };
+};
+
+export const parseAnswerScore = (value: unknown): AnswerScore | null =>
+  value && typeof value === 'object' && typeof (value as AnswerScore).score === 'number' && (value as AnswerScore).breakdown
+    ? (value as AnswerScore)
+    : null;
@@ -0,0 +1,65 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AnswerScore, AnswerScorer, ScoringInput } from './types';
+
+const clamp = (value: unknown) => Math.max(0, Math.min(100, Math.round(Number(value) || 0)));
+
+const toStrings = (value: unknown) => (Array.isArray(value) ? value.map(String).filter(Boolean) : []);
+
+// Grades answers with the language model behind the interview-answer-scorer
+// edge function. The rubric travels with the request so both scorers grade
+// against the same key points.
+export const createLlmScorer = (functionName = 'interview-answer-scorer'): AnswerScorer => ({
+  name: 'llm',
+
+  async score({ rubric, transcript, role }: ScoringInput): Promise<Omit<AnswerScore, 'scorer' | 'scored_at'>> {
+    const { data, error } = await supabase.functions.invoke(functionName, {
+      body: {
+        role,
+        question: rubric.question,
+        reference_answer: rubric.referenceAnswer,
+        key_points: rubric.keyPoints.map(point => point.text),
+        expects_star: rubric.expectsStar,
+        transcript: transcript.slice(0, 6000)
+      }
+    });
+
+    if (error) {
+      throw new Error(`Answer scoring failed: ${error.message}`);
+    }
+    if (!data?.result?.breakdown) {
+      throw new Error('Answer scoring returned no result');
+    }
+
+    const result = data.result;
+    const breakdown = {
+      key_points: clamp(result.breakdown.key_points),
+      structure: clamp(result.breakdown.structure),
+      technical: clamp(result.breakdown.technical)
+    };
+
+    return {
+      // Weighting is ours rather than the model's so scores stay comparable across scorers
+      score: clamp(
+        breakdown.key_points * rubric.weights.keyPoints +
+        breakdown.structure * rubric.weights.structure +
+        breakdown.technical * rubric.weights.technical
+      ),
+      breakdown,
+      key_points: rubric.keyPoints.map((point, i) => ({
+        point: point.text,
+        covered: Boolean(Array.isArray(result.key_points_covered) && result.key_points_covered[i])
+      })),
+      star: rubric.expectsStar && result.star
+        ? {
+            situation: Boolean(result.star.situation),
+            task: Boolean(result.star.task),
+            action: Boolean(result.star.action),
+            result: Boolean(result.star.result)
+          }
+        : null,
+      strengths: toStrings(result.strengths).slice(0, 4),
+      improvements: toStrings(result.improvements).slice(0, 4),
+      feedback: String(result.feedback || '')
+    };
+  }
+});
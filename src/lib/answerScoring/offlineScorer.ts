@@ -0,0 +1,129 @@
+import { tokenize } from '@/lib/interviewAnalysis';
+import { detectStar, STAR_COMPONENTS, STAR_LABELS } from './star';
+import { AnswerScore, AnswerScorer, ScoringInput, StarComponent } from './types';
+
+const SIGNPOST_CUES = /\b(first|second|then|next|finally|because|for example|for instance|in summary|trade-?offs?|on the other hand|the reason)\b/gi;
+
+const SHORT_STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'you', 'are', 'was', 'but', 'not', 'have', 'has', 'its', 'can', 'our', 'your', 'they', 'them', 'also']);
+
+// Crude suffix stripping so "indexes" matches "indexing" and "index"
+const stem = (word: string) => (word.length > 5 ? word.replace(/(ing|ed|es|s|ly|ment|ion|ions)$/, '') : word);
+
+const termVector = (text: string) => {
+  const vector = new Map<string, number>();
+  tokenize(text)
+    .filter(word => word.length >= 3 && !SHORT_STOP_WORDS.has(word))
+    .forEach(word => {
+      const term = stem(word);
+      vector.set(term, (vector.get(term) || 0) + 1);
+    });
+  return vector;
+};
+
+// Cosine similarity between term-frequency vectors; a lightweight stand-in
+// for sentence embeddings that needs no model
+const cosine = (a: Map<string, number>, b: Map<string, number>) => {
+  let dot = 0;
+  a.forEach((value, term) => {
+    dot += value * (b.get(term) || 0);
+  });
+  const norm = (vector: Map<string, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const truncate = (text: string, length = 90) => (text.length > length ? `${text.slice(0, length - 1).trim()}…` : text);
+
+// Deterministic scorer that runs offline: key-point coverage by keyword
+// matching, term-vector similarity to the reference, and cue-based structure
+export const offlineScorer: AnswerScorer = {
+  name: 'offline',
+
+  async score({ rubric, transcript }: ScoringInput): Promise<Omit<AnswerScore, 'scorer' | 'scored_at'>> {
+    const words = tokenize(transcript);
+    const spokenTerms = new Set(words.map(stem));
+    const transcriptVector = termVector(transcript);
+    const similarity = rubric.referenceAnswer ? cosine(termVector(rubric.referenceAnswer), transcriptVector) : null;
+
+    const keyPoints = rubric.keyPoints.map(point => {
+      const matched = point.keywords.filter(keyword => spokenTerms.has(stem(keyword))).length;
+      return { point: point.text, covered: matched / point.keywords.length >= 0.5 };
+    });
+    const coveredCount = keyPoints.filter(point => point.covered).length;
+    const keyPointScore = keyPoints.length > 0
+      ? (coveredCount / keyPoints.length) * 100
+      : similarity !== null ? Math.min(1, similarity / 0.45) * 100 : 50;
+
+    const technical = similarity !== null ? Math.min(1, similarity / 0.45) * 100 : keyPointScore;
+
+    let star: Record<StarComponent, boolean> | null = null;
+    let structure: number;
+    if (rubric.expectsStar) {
+      star = detectStar(transcript).components;
+      structure = (Object.values(star).filter(Boolean).length / 4) * 100;
+    } else {
+      const cues = new Set((transcript.match(SIGNPOST_CUES) || []).map(cue => cue.toLowerCase()));
+      const lengthFit = words.length >= 60 && words.length <= 350 ? 1 : Math.min(words.length / 60, 350 / Math.max(words.length, 1));
+      structure = Math.min(1, cues.size / 3) * 70 + lengthFit * 30;
+    }
+
+    // Very short answers cannot score well however well they match
+    const lengthFactor = Math.min(1, words.length / 25);
+    const breakdown = {
+      key_points: clamp(keyPointScore * lengthFactor),
+      structure: clamp(structure * lengthFactor),
+      technical: clamp(technical * lengthFactor)
+    };
+    const score = clamp(
+      breakdown.key_points * rubric.weights.keyPoints +
+      breakdown.structure * rubric.weights.structure +
+      breakdown.technical * rubric.weights.technical
+    );
+
+    const strengths: string[] = [];
+    const improvements: string[] = [];
+
+    if (keyPoints.length > 0 && coveredCount / keyPoints.length >= 0.7) {
+      strengths.push('Covered most of the key points');
+    }
+    keyPoints
+      .filter(point => !point.covered)
+      .slice(0, 2)
+      .forEach(point => improvements.push(`Address: ${truncate(point.point)}`));
+
+    if (star) {
+      if (STAR_COMPONENTS.every(component => star[component])) {
+        strengths.push('Clear STAR structure');
+      }
+      STAR_COMPONENTS
+        .filter(component => !star[component])
+        .forEach(component => improvements.push(`Make sure to ${STAR_LABELS[component]}`));
+    } else if (breakdown.structure >= 70) {
+      strengths.push('Well organised answer');
+    } else if (words.length >= 25) {
+      improvements.push('Structure the answer: lead with the main point, then reasons and an example');
+    }
+
+    if (breakdown.technical >= 75) {
+      strengths.push('Used the right technical vocabulary');
+    } else if (!rubric.expectsStar && breakdown.technical < 50 && words.length >= 25) {
+      improvements.push('Be more specific and technically precise');
+    }
+
+    if (words.length < 25) {
+      improvements.unshift('The answer was too short to assess; aim for at least a minute');
+    }
+
+    const feedback = score >= 80
+      ? 'Strong answer that hits the important points.'
+      : score >= 60
+        ? 'Good answer with room to add detail.'
+        : score >= 40
+          ? 'Partial answer; several key points were missing.'
+          : 'The answer missed most of what the interviewer was looking for.';
+
+    return { score, breakdown, key_points: keyPoints, star, strengths, improvements, feedback };
+  }
+};
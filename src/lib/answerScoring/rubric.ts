@@ -0,0 +1,38 @@
+import { getKeywords } from '@/lib/interviewAnalysis';
+import { AnswerRubric } from './types';
+
+const BEHAVIORAL_PATTERN =
+  /\b(tell me about a time|describe a (time|situation|challenging|conflict|project)|give (me )?an example of a time|how did you handle|walk me through a time)\b/i;
+
+const MAX_KEY_POINTS = 6;
+
+// Bank answers use "[company]"-style placeholders that should not be graded
+const stripPlaceholders = (text: string) => text.replace(/\[[^\]]*\]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const isBehavioralQuestion = (question: string) => BEHAVIORAL_PATTERN.test(question);
+
+// Splits the reference answer into its sentences and keeps the ones that carry
+// enough distinct terms to be checked as separate key points
+export const buildRubric = (
+  question: string,
+  referenceAnswer = '',
+  options: { behavioral?: boolean } = {}
+): AnswerRubric => {
+  const reference = stripPlaceholders(referenceAnswer);
+  const expectsStar = options.behavioral ?? isBehavioralQuestion(question);
+  const keyPoints = reference
+    .split(/(?<=[.!?;:])\s+/)
+    .map(sentence => ({ text: sentence.trim(), keywords: getKeywords(sentence).slice(0, 8) }))
+    .filter(point => point.keywords.length >= 2)
+    .slice(0, MAX_KEY_POINTS);
+
+  return {
+    question,
+    referenceAnswer: reference,
+    keyPoints,
+    expectsStar,
+    weights: expectsStar
+      ? { keyPoints: 0.4, structure: 0.4, technical: 0.2 }
+      : { keyPoints: 0.45, structure: 0.15, technical: 0.4 }
+  };
+};
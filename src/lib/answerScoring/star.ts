@@ -0,0 +1,70 @@
+import { StarAnalysis, StarComponent } from './types';
+
+export const STAR_COMPONENTS: StarComponent[] = ['situation', 'task', 'action', 'result'];
+
+const STAR_CUES: Record<StarComponent, RegExp> = {
+  situation: /\b(when i was|at my (previous|last|current)|we (had|were|faced)|the situation|back when|our team|in my (last|previous) (role|job|company)|there was a|a few (months|years) ago)\b/i,
+  task: /\b(my (role|task|job|responsibility|goal) was|i was (responsible|asked|tasked|in charge)|the goal was|we needed to|i needed to|had to|the challenge was)\b/i,
+  action: /\b(i (decided|implemented|built|created|wrote|led|proposed|set up|organized|reached out|worked with|started|changed|scheduled|talked|met|suggested|took)|so i|first i|then i|next i)\b/i,
+  result: /\b(as a result|resulted in|which led to|in the end|ended up|outcome|improved|reduced|increased|saved|learned|shipped|delivered|\d+\s?%)\b/i
+};
+
+export const STAR_LABELS: Record<StarComponent, string> = {
+  situation: 'set the scene (Situation)',
+  task: 'state what you were responsible for (Task)',
+  action: 'describe the specific steps you took (Action)',
+  result: 'finish with a measurable outcome (Result)'
+};
+
+const splitSentences = (text: string) =>
+  text
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+// Labels each sentence with the STAR component its cues point to. A sentence
+// matching several cues takes the one that follows the component of the
+// sentence before it, since stories normally run in S-T-A-R order.
+export const detectStar = (transcript: string): StarAnalysis => {
+  let previous = -1;
+  const sentences = splitSentences(transcript).map(text => {
+    const matches = STAR_COMPONENTS
+      .map((component, index) => ({ component, index }))
+      .filter(({ component }) => STAR_CUES[component].test(text));
+    if (matches.length === 0) return { text, component: null };
+
+    const next = matches.find(({ index }) => index >= previous) || matches[matches.length - 1];
+    previous = next.index;
+    return { text, component: next.component };
+  });
+
+  const components = STAR_COMPONENTS.reduce((found, component) => ({
+    ...found,
+    [component]: sentences.some(sentence => sentence.component === component) || STAR_CUES[component].test(transcript)
+  }), {} as Record<StarComponent, boolean>);
+
+  return {
+    components,
+    missing: STAR_COMPONENTS.filter(component => !components[component]),
+    sentences
+  };
+};
+
+// Splits a spoken answer into STAR sections, e.g. to draft a story bank entry.
+// Unlabelled sentences stay with the section before them.
+export const groupStarSections = (analysis: StarAnalysis): Record<StarComponent, string> => {
+  const sections: Record<StarComponent, string[]> = { situation: [], task: [], action: [], result: [] };
+  let current: StarComponent = 'situation';
+
+  analysis.sentences.forEach(sentence => {
+    current = sentence.component || current;
+    sections[current].push(sentence.text);
+  });
+
+  return {
+    situation: sections.situation.join(' '),
+    task: sections.task.join(' '),
+    action: sections.action.join(' '),
+    result: sections.result.join(' ')
+  };
+};
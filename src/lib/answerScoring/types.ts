@@ -0,0 +1,54 @@
+export interface RubricKeyPoint {
+  text: string;
+  keywords: string[];
+}
+
+export interface AnswerRubric {
+  question: string;
+  referenceAnswer: string;
+  keyPoints: RubricKeyPoint[];
+  // Behavioral questions are expected to follow Situation, Task, Action, Result
+  expectsStar: boolean;
+  weights: { keyPoints: number; structure: number; technical: number };
+}
+
+export type StarComponent = 'situation' | 'task' | 'action' | 'result';
+
+export interface StarSentence {
+  text: string;
+  component: StarComponent | null;
+}
+
+export interface StarAnalysis {
+  components: Record<StarComponent, boolean>;
+  missing: StarComponent[];
+  sentences: StarSentence[];
+}
+
+export interface ScoringInput {
+  rubric: AnswerRubric;
+  transcript: string;
+  role?: string | null;
+}
+
+// Shape stored in interview_responses.ai_analysis; all scores are 0-100
+export interface AnswerScore {
+  score: number;
+  breakdown: {
+    key_points: number;
+    structure: number;
+    technical: number;
+  };
+  key_points: Array<{ point: string; covered: boolean }>;
+  star: Record<StarComponent, boolean> | null;
+  strengths: string[];
+  improvements: string[];
+  feedback: string;
+  scorer: string;
+  scored_at: string;
+}
+
+export interface AnswerScorer {
+  name: string;
+  score(input: ScoringInput): Promise<Omit<AnswerScore, 'scorer' | 'scored_at'>>;
+}
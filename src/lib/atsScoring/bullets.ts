@@ -0,0 +1,69 @@
+import { stem, tokenize } from './keywords';
+
+const ACTION_VERBS = [
+  'accelerated', 'achieved', 'administered', 'analyzed', 'architected', 'automated', 'built', 'championed',
+  'coached', 'collaborated', 'configured', 'consolidated', 'coordinated', 'created', 'cut', 'debugged',
+  'decreased', 'defined', 'delivered', 'deployed', 'designed', 'developed', 'directed', 'doubled', 'drove',
+  'eliminated', 'engineered', 'enhanced', 'established', 'evaluated', 'expanded', 'facilitated', 'founded',
+  'generated', 'grew', 'guided', 'identified', 'implemented', 'improved', 'increased', 'initiated',
+  'integrated', 'introduced', 'launched', 'led', 'maintained', 'managed', 'mentored', 'migrated',
+  'modernized', 'monitored', 'negotiated', 'optimized', 'orchestrated', 'organized', 'owned', 'pioneered',
+  'planned', 'presented', 'prototyped', 'published', 'redesigned', 'reduced', 'refactored', 'resolved',
+  'restructured', 'revamped', 'saved', 'scaled', 'secured', 'shipped', 'simplified', 'spearheaded',
+  'standardized', 'streamlined', 'strengthened', 'supervised', 'tested', 'trained', 'transformed',
+  'tripled', 'troubleshot', 'upgraded', 'wrote',
+];
+
+const ACTION_STEMS = new Set(ACTION_VERBS.map(stem));
+
+// Openings that describe duties rather than results
+const WEAK_OPENINGS = /^(responsible for|worked on|working on|helped|assisted|participated|involved in|tasked with|duties included|in charge of|handled)\b/i;
+
+const BULLET_MARKER = /^[•·▪▫◦●○‣■□➢➤►▶✓✔*–—-]\s*/;
+
+const NUMBER_WORDS = /\b(two|three|four|five|six|seven|eight|nine|ten|dozens?|hundreds?|thousands?|millions?|billions?|double[ds]?|triple[ds]?|half)\b/i;
+
+// A bullet is a line long enough to describe one piece of work
+const MIN_BULLET_WORDS = 5;
+
+export interface BulletReport {
+  bullets: string[];
+  actionVerb: string[];
+  quantified: string[];
+  weakOpenings: string[];
+  firstPerson: string[];
+}
+
+// "Jan 2021 - Present" style ranges mark an entry's title line
+const DATE_RANGE = /\b(19|20)\d{2}\b.*(-|–|—|\bto\b)\s*.*\b((19|20)\d{2}|present|current|now)\b/i;
+
+const stripMarker = (line: string) => line.replace(BULLET_MARKER, '').trim();
+
+// Years and date ranges are not results
+const hasMetric = (text: string) => {
+  const withoutDates = text.replace(/\b(19|20)\d{2}\b/g, '');
+  return /\d/.test(withoutDates) || /[%$€£₹]/.test(withoutDates) || NUMBER_WORDS.test(withoutDates);
+};
+
+const startsWithActionVerb = (bullet: string) => {
+  const first = tokenize(bullet)[0];
+  return !!first && ACTION_STEMS.has(stem(first));
+};
+
+// Lines that carry a bullet marker, or when the extracted text lost its
+// markers, the longer lines of the experience and project sections
+export const collectBullets = (allLines: string[], sectionLines: string[]) => {
+  const marked = allLines.filter(line => BULLET_MARKER.test(line)).map(stripMarker);
+  const candidates = marked.length > 0
+    ? marked
+    : sectionLines.filter(line => !DATE_RANGE.test(line)).map(stripMarker);
+  return candidates.filter(line => line.split(/\s+/).length >= MIN_BULLET_WORDS);
+};
+
+export const analyzeBullets = (bullets: string[]): BulletReport => ({
+  bullets,
+  actionVerb: bullets.filter(startsWithActionVerb),
+  quantified: bullets.filter(hasMetric),
+  weakOpenings: bullets.filter(bullet => WEAK_OPENINGS.test(bullet)),
+  firstPerson: bullets.filter(bullet => /\b(i|me|my)\b/i.test(bullet)),
+});
@@ -0,0 +1,58 @@
+export interface ContactReport {
+  email: string | null;
+  phone: string | null;
+  linkedin: string | null;
+  github: string | null;
+  portfolio: string | null;
+  issues: string[];
+}
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+// Anything shaped like an address, so a malformed one can be reported
+const EMAIL_LIKE = /\S+@\S+/;
+const PHONE = /(\+?\d[\d\s().-]{7,}\d)/;
+const LINKEDIN = /(https?:\/\/)?([a-z]{2,3}\.)?linkedin\.com\/(in|pub)\/[\w-]+/i;
+const GITHUB = /(https?:\/\/)?(www\.)?github\.com\/[\w-]+/i;
+const WEBSITE = /(https?:\/\/)?(www\.)?[a-z0-9-]+\.(dev|io|me|com|net|org|app|site|xyz|tech)(\/\S*)?/gi;
+
+const MIN_PHONE_DIGITS = 10;
+const MAX_PHONE_DIGITS = 15;
+
+// Lines read as the contact block when no section heading was found
+const HEADER_FALLBACK_LINES = 8;
+
+// Contact details an ATS needs to reach the candidate, looked for in the
+// header first and then anywhere in the text. The phone number is only
+// taken from the header, where it can't be confused with a date range.
+export const checkContact = (header: string[], text: string): ContactReport => {
+  const top = header.length > 0 ? header.join('\n') : text.split(/\r?\n/).slice(0, HEADER_FALLBACK_LINES).join('\n');
+  const find = (pattern: RegExp) => top.match(pattern)?.[0] || text.match(pattern)?.[0] || null;
+
+  const issues: string[] = [];
+
+  const email = find(EMAIL);
+  const emailLike = find(EMAIL_LIKE);
+  if (!email) {
+    issues.push(emailLike ? `The email address "${emailLike}" doesn't look valid` : 'No email address found');
+  }
+
+  let phone = top.match(PHONE)?.[0] || null;
+  const digits = phone ? phone.replace(/\D/g, '').length : 0;
+  if (!phone) {
+    issues.push('No phone number found');
+  } else if (digits < MIN_PHONE_DIGITS || digits > MAX_PHONE_DIGITS) {
+    issues.push(`The phone number "${phone.trim()}" has ${digits} digits; include the full number with country or area code`);
+    phone = null;
+  }
+
+  const linkedin = find(LINKEDIN);
+  if (!linkedin) {
+    issues.push('No LinkedIn profile URL found');
+  }
+
+  const github = find(GITHUB);
+  const portfolio = (top.match(WEBSITE) || [])
+    .find(url => !/linkedin\.com|github\.com/i.test(url) && !(email && email.includes(url.replace(/^https?:\/\//, '')))) || null;
+
+  return { email, phone: phone?.trim() || null, linkedin, github, portfolio, issues };
+};
@@ -0,0 +1,59 @@
+import JSZip from 'jszip';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+// pdf.js is large, so it is only loaded when a PDF needs reading
+const extractPdfText = async (file: File) => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const page = await pdf.getPage(number);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+    );
+  }
+
+  return pages.join('\n');
+};
+
+// Paragraphs become lines; list numbering is lost, so bullets come through
+// without their markers
+const extractDocxText = async (file: File) => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) {
+    throw new Error('The DOCX file has no document body');
+  }
+
+  return xml
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br\/>|<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos);/g, entity => XML_ENTITIES[entity]);
+};
+
+// Reads a resume's text in the browser, for scoring without the analyzer service
+export const extractResumeText = async (file: File): Promise<string> => {
+  const text = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')
+    ? await extractPdfText(file)
+    : await extractDocxText(file);
+
+  if (!text.trim()) {
+    throw new Error('No text could be read from the resume');
+  }
+
+  return text;
+};
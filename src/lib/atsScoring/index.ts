@@ -0,0 +1,10 @@
+export { scoreResume } from './scorer';
+export type { AtsScoringInput } from './scorer';
+export { extractResumeText } from './extractText';
+export { extractJobKeywords, matchKeywords, stem, tokenize } from './keywords';
+export { detectSections } from './sections';
+export type { DetectedSection, ResumeSectionKey } from './sections';
+export { analyzeBullets, collectBullets } from './bullets';
+export type { BulletReport } from './bullets';
+export { checkContact } from './contact';
+export type { ContactReport } from './contact';
@@ -0,0 +1,180 @@
+// Terms that mean the same thing to a recruiter. The first entry is the label
+// shown to the user; any entry in the resume counts as a match.
+const SYNONYM_GROUPS: string[][] = [
+  ['JavaScript', 'js', 'ecmascript', 'es6'],
+  ['TypeScript', 'ts'],
+  ['Node.js', 'nodejs', 'node'],
+  ['React', 'react.js', 'reactjs'],
+  ['React Native'],
+  ['Vue', 'vue.js', 'vuejs'],
+  ['Next.js', 'nextjs'],
+  ['Angular', 'angularjs'],
+  ['Kubernetes', 'k8s'],
+  ['Docker', 'containers', 'containerization'],
+  ['AWS', 'amazon web services'],
+  ['GCP', 'google cloud', 'google cloud platform'],
+  ['Azure', 'microsoft azure'],
+  ['PostgreSQL', 'postgres'],
+  ['MongoDB', 'mongo'],
+  ['CI/CD', 'continuous integration', 'continuous delivery', 'continuous deployment'],
+  ['REST', 'restful', 'rest api', 'rest apis'],
+  ['Machine Learning', 'ml'],
+  ['Deep Learning'],
+  ['Artificial Intelligence', 'ai'],
+  ['LLM', 'llms', 'large language models'],
+  ['NLP', 'natural language processing'],
+  ['Computer Vision'],
+  ['C#', 'csharp', '.net', 'dotnet'],
+  ['C++', 'cpp'],
+  ['Golang', 'go lang'],
+  ['Scikit-learn', 'sklearn'],
+  ['UX', 'user experience'],
+  ['UI', 'user interface'],
+  ['A/B Testing', 'ab testing', 'split testing'],
+  ['Agile', 'scrum', 'kanban'],
+  ['Microservices', 'microservice'],
+  ['Power BI', 'powerbi'],
+  ['Data Visualization', 'data visualisation'],
+  ['Problem Solving', 'problem-solving'],
+  ['Stakeholder Management', 'stakeholders'],
+];
+
+// Skills recognised in a job description even when mentioned only once
+const SKILL_TERMS = [
+  'Python', 'Java', 'Rust', 'Ruby', 'PHP', 'Swift', 'Kotlin', 'Scala', 'SQL', 'NoSQL', 'MySQL', 'GraphQL',
+  'HTML', 'CSS', 'Sass', 'Tailwind', 'Redux', 'Django', 'Flask', 'FastAPI', 'Spring', 'Rails',
+  'Laravel', 'Flutter', 'Android', 'iOS', 'Redis', 'Kafka', 'RabbitMQ', 'Spark', 'Hadoop', 'Airflow', 'ETL',
+  'Snowflake', 'BigQuery', 'DynamoDB', 'Firebase', 'Supabase', 'Elasticsearch', 'Terraform', 'Ansible',
+  'Jenkins', 'Linux', 'Git', 'Jest', 'Cypress', 'Selenium', 'Testing', 'Pandas', 'NumPy', 'TensorFlow',
+  'PyTorch', 'Statistics', 'Tableau', 'Excel', 'Figma', 'Jira', 'Analytics', 'Accessibility', 'Security',
+  'Networking', 'Monitoring', 'Observability', 'Performance', 'Roadmap', 'Leadership', 'Communication',
+  'Mentoring', 'System Design', 'Distributed Systems', 'Data Structures', 'Algorithms', 'Webpack', 'Vite',
+];
+
+// Used when no job description was given
+const ROLE_KEYWORDS: Array<{ pattern: RegExp; keywords: string[] }> = [
+  { pattern: /front\s*-?end|ui developer|web developer/i, keywords: ['JavaScript', 'TypeScript', 'React', 'HTML', 'CSS', 'Accessibility', 'Performance', 'Testing', 'Git'] },
+  { pattern: /back\s*-?end|api developer/i, keywords: ['Node.js', 'Python', 'SQL', 'REST', 'PostgreSQL', 'Docker', 'Microservices', 'Testing', 'Git'] },
+  { pattern: /full\s*-?stack/i, keywords: ['JavaScript', 'TypeScript', 'React', 'Node.js', 'SQL', 'REST', 'MongoDB', 'Docker', 'Git'] },
+  { pattern: /data scien|machine learning|ml engineer|\bai\b/i, keywords: ['Python', 'Machine Learning', 'SQL', 'Statistics', 'Pandas', 'Scikit-learn', 'TensorFlow', 'Data Visualization'] },
+  { pattern: /data analyst|business analyst|analytics/i, keywords: ['SQL', 'Excel', 'Tableau', 'Power BI', 'Python', 'Statistics', 'Data Visualization', 'Analytics'] },
+  { pattern: /devops|sre|site reliability|platform|cloud/i, keywords: ['Docker', 'Kubernetes', 'AWS', 'CI/CD', 'Terraform', 'Linux', 'Monitoring', 'Python'] },
+  { pattern: /mobile|android|ios/i, keywords: ['Kotlin', 'Swift', 'React Native', 'Flutter', 'Android', 'iOS', 'REST', 'Testing'] },
+  { pattern: /product manager|product owner/i, keywords: ['Roadmap', 'Stakeholder Management', 'Analytics', 'Agile', 'A/B Testing', 'Jira', 'Communication', 'Leadership'] },
+  { pattern: /designer|\bux\b|\bui\b/i, keywords: ['Figma', 'UX', 'UI', 'Accessibility', 'Prototyping', 'User Research'] },
+];
+
+const DEFAULT_KEYWORDS = ['Git', 'Testing', 'Communication', 'Problem Solving', 'Agile'];
+
+// Common job-ad words that say nothing about the role
+const STOP_WORDS = new Set([
+  'about', 'above', 'ability', 'able', 'across', 'after', 'also', 'and', 'any', 'applicants', 'apply', 'are',
+  'around', 'based', 'benefits', 'best', 'both', 'build', 'candidate', 'candidates', 'company', 'culture',
+  'degree', 'deliver', 'desired', 'diverse', 'each', 'equal', 'etc', 'every', 'excellent', 'experience',
+  'experienced', 'familiar', 'familiarity', 'from', 'good', 'great', 'have', 'help', 'highly', 'ideal',
+  'including', 'into', 'join', 'knowledge', 'looking', 'more', 'must', 'need', 'opportunity', 'other',
+  'our', 'plus', 'position', 'preferred', 'product', 'products', 'related', 'required', 'requirements',
+  'responsibilities', 'role', 'should', 'skills', 'solid', 'some', 'strong', 'such', 'team', 'teams',
+  'that', 'their', 'them', 'they', 'this', 'through', 'understanding', 'using', 'want', 'well', 'what',
+  'will', 'with', 'within', 'work', 'working', 'world', 'would', 'year', 'years', 'you', 'your',
+]);
+
+const MAX_KEYWORDS = 25;
+
+// Light suffix stripping so "optimized", "optimizing" and "optimization"
+// all meet at "optimiz"
+export const stem = (word: string) => {
+  let term = word.toLowerCase();
+  if (term.length <= 4) return term;
+
+  term = term
+    .replace(/ies$/, 'y')
+    .replace(/(isation|ization)s?$/, 'iz')
+    .replace(/ational$/, 'ate')
+    .replace(/(ments?|ness)$/, '')
+    .replace(/(ing|ed)$/, '')
+    .replace(/([^s])(es|s)$/, '$1');
+
+  return term.length > 3 ? term.replace(/e$/, '') : term;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const aliasPattern = (alias: string) =>
+  new RegExp(`(^|[^a-z0-9+#])${escapeRegExp(alias.toLowerCase())}($|[^a-z0-9+#])`);
+
+export const tokenize = (text: string) => text.toLowerCase().match(/[a-z][a-z0-9+#.-]*[a-z0-9+#]|[a-z]/g) || [];
+
+const canonical = (term: string) => {
+  const lower = term.toLowerCase();
+  const group = SYNONYM_GROUPS.find(aliases => aliases.some(alias => alias.toLowerCase() === lower));
+  return group ? group[0] : term;
+};
+
+const aliasesFor = (keyword: string) =>
+  SYNONYM_GROUPS.find(aliases => aliases[0] === canonical(keyword)) || [keyword];
+
+const KNOWN_TERMS = [...SYNONYM_GROUPS.flat(), ...SKILL_TERMS];
+
+const isKnownTerm = (keyword: string) =>
+  KNOWN_TERMS.some(term => term.toLowerCase() === keyword.toLowerCase());
+
+const dedupe = (keywords: string[]) => {
+  const seen = new Set<string>();
+  return keywords.filter(keyword => {
+    const key = canonical(keyword).toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Known skills named in the job description first, then other words the
+// description repeats, which tend to be domain terms the skill list misses
+export const extractJobKeywords = (jobRole: string, jobDescription = ''): string[] => {
+  const description = jobDescription.toLowerCase();
+
+  if (!description.trim()) {
+    const role = ROLE_KEYWORDS.find(({ pattern }) => pattern.test(jobRole));
+    return role ? role.keywords : DEFAULT_KEYWORDS;
+  }
+
+  const known = KNOWN_TERMS.filter(term => aliasPattern(term).test(description)).map(canonical);
+
+  const counts = new Map<string, { word: string; count: number }>();
+  tokenize(jobDescription)
+    .filter(word => word.length >= 4 && !STOP_WORDS.has(word) && !isKnownTerm(word))
+    .forEach(word => {
+      const key = stem(word);
+      const entry = counts.get(key) || { word, count: 0 };
+      counts.set(key, { word: entry.word, count: entry.count + 1 });
+    });
+
+  const repeated = Array.from(counts.values())
+    .filter(entry => entry.count >= 2)
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .map(entry => entry.word);
+
+  return dedupe([...known, ...repeated]).slice(0, MAX_KEYWORDS);
+};
+
+// A keyword counts as present when any synonym appears as a whole word or
+// phrase, or when a single-word keyword shares a stem with a resume word
+export const matchKeywords = (resumeText: string, keywords: string[]) => {
+  const text = resumeText.toLowerCase();
+  const stems = new Set(tokenize(resumeText).map(stem));
+
+  const found: string[] = [];
+  const missing: string[] = [];
+  keywords.forEach(keyword => {
+    const aliases = aliasesFor(keyword);
+    const present = aliases.some(alias => aliasPattern(alias).test(text)) ||
+      (!/\s/.test(keyword) && stems.has(stem(keyword)));
+    (present ? found : missing).push(keyword);
+  });
+
+  return { found, missing };
+};
+
+// Missing keywords that name a concrete skill rather than a general term
+export const skillGapsFrom = (missing: string[]) => missing.filter(isKnownTerm);
@@ -0,0 +1,262 @@
+import type { ResumeAnalysis } from '@/api/services/resumeService';
+import { analyzeBullets, BulletReport, collectBullets } from './bullets';
+import { checkContact, ContactReport } from './contact';
+import { extractJobKeywords, matchKeywords, skillGapsFrom, tokenize } from './keywords';
+import { DetectedSection, detectSections, ResumeSectionKey, sectionLines } from './sections';
+
+export interface AtsScoringInput {
+  text: string;
+  jobRole: string;
+  jobDescription?: string;
+}
+
+// The ATS score is out of 100: sections 30, contact details 20, bullets 25,
+// length and layout 25
+const BULLET_POINTS = 25;
+
+const SECTION_POINTS: Partial<Record<ResumeSectionKey, number>> = {
+  experience: 10,
+  skills: 8,
+  education: 6,
+  summary: 3,
+  projects: 3,
+};
+
+const SECTION_LABELS: Record<ResumeSectionKey, string> = {
+  summary: 'Summary',
+  experience: 'Experience',
+  education: 'Education',
+  skills: 'Skills',
+  projects: 'Projects',
+  certifications: 'Certifications',
+  achievements: 'Achievements',
+};
+
+// Roughly one to two pages
+const MIN_WORDS = 250;
+const IDEAL_MIN_WORDS = 400;
+const IDEAL_MAX_WORDS = 800;
+const MAX_WORDS = 1100;
+
+// Share of bullets that should start with a verb or carry a number
+const TARGET_ACTION_RATIO = 0.8;
+const TARGET_QUANTIFIED_RATIO = 0.5;
+
+// Box-drawing characters, emoji and tab-separated columns usually come from
+// tables, icons or multi-column layouts that parsers read out of order
+const LAYOUT_ARTIFACTS = /[\u2500-\u257f\u{1f300}-\u{1faff}]|\t.*\t/u;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+const percent = (part: number, whole: number) => Math.round(ratio(part, whole) * 100);
+
+const truncate = (text: string, length = 70) => (text.length > length ? `${text.slice(0, length - 1).trim()}…` : text);
+
+interface Finding {
+  // Points lost to this problem, used to rank what to fix first
+  lost: number;
+  weakness: string;
+  recommendation: string;
+}
+
+const formatReport = (text: string, words: number) => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const artifactLines = lines.filter(line => LAYOUT_ARTIFACTS.test(line)).length;
+  const lengthFit = words >= IDEAL_MIN_WORDS && words <= IDEAL_MAX_WORDS
+    ? 1
+    : words < IDEAL_MIN_WORDS
+      ? Math.max(0, (words - MIN_WORDS / 2) / (IDEAL_MIN_WORDS - MIN_WORDS / 2))
+      : Math.max(0, 1 - (words - IDEAL_MAX_WORDS) / (MAX_WORDS - IDEAL_MAX_WORDS));
+
+  return { lengthFit, artifactLines };
+};
+
+const describeSection = (sections: DetectedSection[], key: ResumeSectionKey, detail: string) =>
+  sections.some(section => section.key === key)
+    ? detail
+    : `No ${SECTION_LABELS[key]} section was detected.`;
+
+// Deterministic ATS check that needs no backend: section detection, keyword
+// coverage against the job description with synonyms and stemming, bullet
+// quality, length and layout heuristics, and contact details
+export const scoreResume = ({ text, jobRole, jobDescription = '' }: AtsScoringInput): ResumeAnalysis => {
+  const { header, sections } = detectSections(text);
+  const allLines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const words = tokenize(text).length;
+
+  const contact: ContactReport = checkContact(header, text);
+  const bullets: BulletReport = analyzeBullets(collectBullets(allLines, sectionLines(sections, 'experience', 'projects')));
+  const keywords = extractJobKeywords(jobRole, jobDescription);
+  const { found, missing } = matchKeywords(text, keywords);
+  const format = formatReport(text, words);
+
+  const findings: Finding[] = [];
+  const strengths: string[] = [];
+
+  // Sections
+  const present = new Set(sections.map(section => section.key));
+  let sectionScore = 0;
+  (Object.keys(SECTION_POINTS) as ResumeSectionKey[]).forEach(key => {
+    const points = SECTION_POINTS[key] || 0;
+    if (present.has(key)) {
+      sectionScore += points;
+    } else {
+      findings.push({
+        lost: points,
+        weakness: `No "${SECTION_LABELS[key]}" section heading was found`,
+        recommendation: `Add a clearly labelled "${SECTION_LABELS[key]}" heading so ATS parsers file that content correctly`,
+      });
+    }
+  });
+  if (present.has('experience') && present.has('skills') && present.has('education')) {
+    strengths.push('Uses standard section headings that ATS parsers recognise');
+  }
+
+  // Contact details
+  const contactScore =
+    (contact.email ? 8 : 0) + (contact.phone ? 6 : 0) + (contact.linkedin ? 4 : 0) + (contact.github || contact.portfolio ? 2 : 0);
+  contact.issues.forEach(issue => findings.push({
+    lost: issue.includes('LinkedIn') ? 4 : 7,
+    weakness: issue,
+    recommendation: issue.includes('LinkedIn')
+      ? 'Add your LinkedIn URL to the header'
+      : 'Put your email and phone number as plain text at the top of the resume',
+  }));
+  if (contact.email && contact.phone) {
+    strengths.push('Contact details are easy to find');
+  }
+
+  // Bullets
+  const total = bullets.bullets.length;
+  const actionRatio = ratio(bullets.actionVerb.length, total);
+  const quantifiedRatio = ratio(bullets.quantified.length, total);
+  const bulletScore = total === 0
+    ? 0
+    : Math.min(1, actionRatio / TARGET_ACTION_RATIO) * 12 +
+      Math.min(1, quantifiedRatio / TARGET_QUANTIFIED_RATIO) * 13 -
+      Math.min(5, bullets.weakOpenings.length + bullets.firstPerson.length);
+
+  if (total === 0) {
+    findings.push({
+      lost: BULLET_POINTS,
+      weakness: 'No achievement bullets were found under experience or projects',
+      recommendation: 'Describe each role with 3-5 bullet points that start with an action verb and state a result',
+    });
+  } else {
+    if (actionRatio >= TARGET_ACTION_RATIO) {
+      strengths.push(`${percent(bullets.actionVerb.length, total)}% of bullets start with a strong action verb`);
+    } else {
+      findings.push({
+        lost: (1 - actionRatio / TARGET_ACTION_RATIO) * 12,
+        weakness: `Only ${percent(bullets.actionVerb.length, total)}% of bullets start with an action verb`,
+        recommendation: 'Start bullets with verbs such as "Built", "Reduced" or "Led" instead of describing duties',
+      });
+    }
+
+    if (quantifiedRatio >= TARGET_QUANTIFIED_RATIO) {
+      strengths.push(`${percent(bullets.quantified.length, total)}% of bullets include measurable results`);
+    } else {
+      findings.push({
+        lost: (1 - quantifiedRatio / TARGET_QUANTIFIED_RATIO) * 13,
+        weakness: `Only ${bullets.quantified.length} of ${total} bullets are quantified`,
+        recommendation: 'Add numbers to your bullets: percentages, time saved, users served or team size',
+      });
+    }
+
+    if (bullets.weakOpenings.length > 0) {
+      findings.push({
+        lost: Math.min(5, bullets.weakOpenings.length),
+        weakness: `${bullets.weakOpenings.length} bullet(s) open with phrases like "Responsible for", e.g. "${truncate(bullets.weakOpenings[0])}"`,
+        recommendation: 'Rewrite duty-style bullets to lead with what you did and what changed',
+      });
+    }
+
+    if (bullets.firstPerson.length > 0) {
+      findings.push({
+        lost: Math.min(3, bullets.firstPerson.length),
+        weakness: 'Some bullets use first-person pronouns ("I", "my")',
+        recommendation: 'Drop "I" and "my" from bullets; resumes are written in implied first person',
+      });
+    }
+  }
+
+  // Length and layout
+  const formatScore = format.lengthFit * 15 + (format.artifactLines === 0 ? 10 : Math.max(0, 10 - format.artifactLines * 2));
+  if (words < IDEAL_MIN_WORDS) {
+    findings.push({
+      lost: (1 - format.lengthFit) * 15,
+      weakness: `The resume is short (${words} words)`,
+      recommendation: 'Expand on your experience and projects; aim for 400-800 words',
+    });
+  } else if (words > IDEAL_MAX_WORDS) {
+    findings.push({
+      lost: (1 - format.lengthFit) * 15,
+      weakness: `The resume is long (${words} words)`,
+      recommendation: 'Trim older or less relevant entries to keep the resume to one or two pages',
+    });
+  } else {
+    strengths.push('Length is in the range recruiters expect');
+  }
+  if (format.artifactLines > 0) {
+    findings.push({
+      lost: Math.min(10, format.artifactLines * 2),
+      weakness: 'Tables, icons or multi-column layout detected',
+      recommendation: 'Use a single-column layout without tables or icons so parsers read it in order',
+    });
+  }
+
+  const atsScore = clamp(sectionScore + contactScore + Math.max(0, bulletScore) + formatScore);
+
+  // Job match: keyword coverage, plus credit for naming the role itself
+  const coverage = ratio(found.length, keywords.length);
+  const mentionsRole = jobRole.trim().length > 0 && text.toLowerCase().includes(jobRole.trim().toLowerCase());
+  const jobMatchScore = clamp(coverage * 85 + (mentionsRole ? 15 : 0));
+
+  if (keywords.length > 0 && coverage >= 0.7) {
+    strengths.push(`Covers ${found.length} of ${keywords.length} key terms for the role`);
+  }
+  if (missing.length > 0) {
+    findings.push({
+      lost: (missing.length / Math.max(keywords.length, 1)) * 30,
+      weakness: `Missing ${missing.length} of ${keywords.length} keywords for the role`,
+      recommendation: `Work these keywords into your bullets and skills where you have the experience: ${missing.slice(0, 6).join(', ')}`,
+    });
+  }
+
+  const ranked = [...findings].sort((a, b) => b.lost - a.lost);
+  const skillGaps = skillGapsFrom(missing);
+
+  return {
+    overall_score: clamp(atsScore * 0.5 + jobMatchScore * 0.5),
+    job_match_score: jobMatchScore,
+    ats_score: atsScore,
+    strengths: strengths.length > 0 ? strengths : ['Resume text was readable by the parser'],
+    weaknesses: ranked.map(finding => finding.weakness),
+    skill_gaps: skillGaps,
+    recommendations: ranked.map(finding => finding.recommendation),
+    keywords_found: found,
+    missing_keywords: missing,
+    sections_analysis: {
+      summary: describeSection(sections, 'summary', 'A summary section is present.'),
+      experience: describeSection(
+        sections,
+        'experience',
+        `${total} bullet(s) detected; ${percent(bullets.actionVerb.length, total)}% start with an action verb and ${percent(bullets.quantified.length, total)}% are quantified.`
+      ),
+      skills: describeSection(sections, 'skills', `Skills section found; ${found.length} of ${keywords.length} role keywords appear in the resume.`),
+      education: describeSection(sections, 'education', 'An education section is present.'),
+      overall_structure: `${sections.length} section(s) detected (${sections.map(section => SECTION_LABELS[section.key]).join(', ') || 'none'}), about ${words} words.`,
+    },
+    improvement_priority: ranked.slice(0, 3).map(finding => finding.recommendation),
+    role_specific_advice: [
+      ...(skillGaps.length > 0
+        ? [`${jobRole} postings ask for ${skillGaps.slice(0, 4).join(', ')}; list them if you have used them, or build a small project that does`]
+        : []),
+      ...(!mentionsRole && jobRole.trim() ? [`Mention "${jobRole}" in your summary so recruiters searching for the title find you`] : []),
+      `Order your experience bullets so the ones most relevant to ${jobRole || 'the role'} come first`,
+    ],
+    ai_provider: 'offline',
+  };
+};
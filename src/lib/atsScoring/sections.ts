@@ -0,0 +1,64 @@
+export type ResumeSectionKey =
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'projects'
+  | 'certifications'
+  | 'achievements';
+
+export interface DetectedSection {
+  key: ResumeSectionKey;
+  heading: string;
+  lines: string[];
+}
+
+const HEADINGS: Record<ResumeSectionKey, RegExp> = {
+  summary: /^(professional |career |executive )?(summary|profile|objective|about me|overview)$/,
+  experience: /^((professional|work|relevant|industry) )?(experience|employment( history)?|work history|internships?)$/,
+  education: /^(education|academic (background|qualifications)|qualifications)$/,
+  skills: /^((technical|core|key) )?(skills|competencies|technologies|tech stack|skills (&|and) (tools|technologies))$/,
+  projects: /^((personal|academic|selected|key) )?projects$/,
+  certifications: /^(certifications?|licenses?( (&|and) certifications?)?|certificates?|courses)$/,
+  achievements: /^(achievements|awards|honou?rs|awards (&|and) achievements|accomplishments)$/,
+};
+
+const MAX_HEADING_LENGTH = 40;
+
+const normalizeHeading = (line: string) =>
+  line
+    .trim()
+    .replace(/[:\-–—|•]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+const headingKey = (line: string): ResumeSectionKey | null => {
+  if (line.trim().length > MAX_HEADING_LENGTH) return null;
+  const text = normalizeHeading(line);
+  const match = (Object.keys(HEADINGS) as ResumeSectionKey[]).find(key => HEADINGS[key].test(text));
+  return match || null;
+};
+
+// Splits the text at lines that look like standard section headings. Text
+// before the first heading is the contact block and is not a section.
+export const detectSections = (text: string) => {
+  const sections: DetectedSection[] = [];
+  const header: string[] = [];
+  let current: DetectedSection | null = null;
+
+  text.split(/\r?\n/).forEach(line => {
+    const key = headingKey(line);
+    if (key) {
+      current = { key, heading: line.trim(), lines: [] };
+      sections.push(current);
+    } else if (line.trim()) {
+      (current ? current.lines : header).push(line.trim());
+    }
+  });
+
+  return { header, sections };
+};
+
+export const sectionLines = (sections: DetectedSection[], ...keys: ResumeSectionKey[]) =>
+  sections.filter(section => keys.includes(section.key)).flatMap(section => section.lines);
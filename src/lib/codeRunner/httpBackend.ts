@@ -0,0 +1,76 @@
+import { CODE_RUNNER_URL } from '@/configs/environment';
+import { DEFAULT_TIMEOUT_MS, ExecutionBackend, ExecutionRequest, ExecutionResult, RunnerLanguage } from './types';
+
+interface ExecuteResponse {
+  stdout: string;
+  stderr: string;
+  exit_code: number | null;
+  timed_out: boolean;
+  execution_time: number | null;
+  memory_used: number | null;
+}
+
+// Routes compiled languages to the local execution service
+// (backend/agents/code-runner), which runs them in a subprocess with limits.
+export const createHttpBackend = (
+  baseUrl: string = CODE_RUNNER_URL,
+  languages: RunnerLanguage[] = ['python', 'java', 'cpp']
+): ExecutionBackend => ({
+  name: 'local-service',
+  languages,
+
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const base: ExecutionResult = {
+      code: request.code,
+      language: request.language,
+      status: 'error',
+      stdout: '',
+      stderr: '',
+      exit_code: null,
+      timed_out: false,
+      execution_time: null,
+      memory_used: null,
+      test_results: null,
+    };
+
+    // Give the service a little longer than the run limit to compile and respond
+    const controller = new AbortController();
+    const abortTimer = setTimeout(() => controller.abort(), timeoutMs + 10000);
+
+    try {
+      const response = await fetch(`${baseUrl}/execute`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          language: request.language,
+          code: request.code,
+          stdin: request.stdin || '',
+          timeout_ms: timeoutMs,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ detail: response.statusText }));
+        return { ...base, stderr: `Execution service error: ${error.detail || response.status}` };
+      }
+
+      const data: ExecuteResponse = await response.json();
+      return {
+        ...base,
+        ...data,
+        status: data.exit_code === 0 && !data.timed_out ? 'passed' : 'error',
+        stderr: data.timed_out ? `Time limit exceeded (${timeoutMs} ms)\n${data.stderr}`.trim() : data.stderr,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        ...base,
+        stderr: `Could not reach the code execution service at ${baseUrl} (${message}). Start it with "python backend/start_code_runner.py".`,
+      };
+    } finally {
+      clearTimeout(abortTimer);
+    }
+  },
+});
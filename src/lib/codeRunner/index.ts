@@ -0,0 +1,64 @@
+import { workerBackend } from './workerBackend';
+import { createHttpBackend } from './httpBackend';
+import { ExecutionBackend, ExecutionRequest, ExecutionResult, RunnerLanguage } from './types';
+import { TablesInsert } from '@/integrations/supabase/types';
+
+export * from './types';
+export { workerBackend } from './workerBackend';
+export { createHttpBackend } from './httpBackend';
+export * from './judge';
+
+const backends: ExecutionBackend[] = [workerBackend, createHttpBackend()];
+
+// Later registrations win, so a backend can override the defaults for a language
+export const registerBackend = (backend: ExecutionBackend) => {
+  backends.unshift(backend);
+};
+
+export const getBackend = (language: RunnerLanguage): ExecutionBackend | undefined =>
+  backends.find(backend => backend.languages.includes(language));
+
+export const getSupportedLanguages = (): RunnerLanguage[] =>
+  Array.from(new Set(backends.flatMap(backend => backend.languages)));
+
+export const runCode = async (request: ExecutionRequest): Promise<ExecutionResult> => {
+  const backend = getBackend(request.language);
+
+  if (!backend) {
+    return {
+      code: request.code,
+      language: request.language,
+      status: 'error',
+      stdout: '',
+      stderr: `No execution backend is registered for ${request.language}`,
+      exit_code: null,
+      timed_out: false,
+      execution_time: null,
+      memory_used: null,
+      test_results: null,
+    };
+  }
+
+  return backend.execute(request);
+};
+
+// Shape a run result as a code_submissions row; stdout/stderr travel in test_results
+// because the table has no dedicated output columns
+export const toCodeSubmission = (
+  result: ExecutionResult,
+  ids: { user_id: string; question_id?: string; attempt_id?: string; problem_key?: string }
+): TablesInsert<'code_submissions'> => ({
+  ...ids,
+  code: result.code,
+  language: result.language,
+  status: result.status,
+  execution_time: result.execution_time,
+  memory_used: result.memory_used,
+  test_results: {
+    stdout: result.stdout,
+    stderr: result.stderr,
+    exit_code: result.exit_code,
+    timed_out: result.timed_out,
+    cases: result.test_results,
+  },
+});
@@ -0,0 +1,79 @@
+// Runs user JavaScript/TypeScript off the main thread. The host terminates
+// this worker when the time limit is hit, so infinite loops cannot hang the UI.
+import { transform } from 'sucrase';
+
+interface RunMessage {
+  id: string;
+  code: string;
+  language: 'javascript' | 'typescript';
+}
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const getHeapUsage = (): number | null => {
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+  return memory ? memory.usedJSHeapSize : null;
+};
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (
+  ...args: string[]
+) => (...params: unknown[]) => Promise<unknown>;
+
+self.onmessage = async (event: MessageEvent<RunMessage>) => {
+  const { id, code, language } = event.data;
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+
+  const write = (target: string[]) => (...args: unknown[]) => {
+    target.push(args.map(formatValue).join(' '));
+  };
+
+  const sandboxConsole = {
+    log: write(stdout),
+    info: write(stdout),
+    debug: write(stdout),
+    table: write(stdout),
+    warn: write(stderr),
+    error: write(stderr),
+  };
+
+  let exitCode = 0;
+  const heapBefore = getHeapUsage();
+  const startedAt = performance.now();
+
+  try {
+    const compiled = transform(code, {
+      transforms: language === 'typescript' ? ['typescript'] : ['jsx'],
+      production: true,
+    }).code;
+
+    const program = new AsyncFunction('console', compiled);
+    await program(sandboxConsole);
+    // Let already-queued timers flush before reporting
+    await new Promise(resolve => setTimeout(resolve, 0));
+  } catch (error) {
+    exitCode = 1;
+    stderr.push(formatValue(error));
+  }
+
+  const heapAfter = getHeapUsage();
+
+  self.postMessage({
+    id,
+    stdout: stdout.join('\n'),
+    stderr: stderr.join('\n'),
+    exit_code: exitCode,
+    execution_time: Math.round(performance.now() - startedAt),
+    memory_used: heapBefore !== null && heapAfter !== null ? Math.max(0, heapAfter - heapBefore) : null,
+  });
+};
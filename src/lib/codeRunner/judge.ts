@@ -0,0 +1,186 @@
+import { Json } from '@/integrations/supabase/types';
+import type { ProblemSpec, ProblemTestCase, SpecValueType } from '@/data/problemSpecs';
+import { runCode } from './index';
+import { ExecutionResult, RunnerLanguage } from './types';
+
+export const JUDGE_LANGUAGES: RunnerLanguage[] = ['javascript', 'typescript', 'python'];
+
+// Harness output lines carry a prefix so they can be told apart from the
+// user's own prints. It is new for every run, so code under test can't print
+// result lines of its own ahead of the harness to fake a pass.
+const newJudgeMarker = () => `__JUDGE_${crypto.randomUUID().replace(/-/g, '')}__`;
+
+export interface TestCaseResult {
+  index: number;
+  hidden: boolean;
+  passed: boolean;
+  input?: unknown[];
+  expected?: unknown;
+  output?: unknown;
+  error?: string;
+  time_ms?: number;
+}
+
+export interface JudgeResult extends ExecutionResult {
+  cases: TestCaseResult[];
+  passed_count: number;
+  total_count: number;
+}
+
+interface HarnessLine {
+  i: number;
+  output?: unknown;
+  error?: string;
+  time_ms?: number;
+}
+
+const TS_TYPES: Record<SpecValueType, string> = {
+  number: 'number',
+  'number[]': 'number[]',
+  string: 'string',
+  'string[]': 'string[]',
+  boolean: 'boolean',
+  void: 'void',
+};
+
+const PY_TYPES: Record<SpecValueType, string> = {
+  number: 'int',
+  'number[]': 'List[int]',
+  string: 'str',
+  'string[]': 'List[str]',
+  boolean: 'bool',
+  void: 'None',
+};
+
+export const getStarterCode = (spec: ProblemSpec, language: RunnerLanguage): string => {
+  const names = spec.params.map(param => param.name);
+
+  switch (language) {
+    case 'typescript': {
+      const params = spec.params.map(param => `${param.name}: ${TS_TYPES[param.type]}`).join(', ');
+      return `function ${spec.functionName}(${params}): ${TS_TYPES[spec.returnType]} {\n  // Your solution here\n}\n`;
+    }
+    case 'python': {
+      const params = ['self', ...spec.params.map(param => `${param.name}: ${PY_TYPES[param.type]}`)].join(', ');
+      return `from typing import List\n\nclass Solution:\n    def ${spec.functionName}(${params}) -> ${PY_TYPES[spec.returnType]}:\n        # Your solution here\n        pass\n`;
+    }
+    default:
+      return `function ${spec.functionName}(${names.join(', ')}) {\n  // Your solution here\n}\n`;
+  }
+};
+
+// The harness is appended after the user's code, calls the solution once per
+// case and prints one marker line per result
+const buildJsHarness = (spec: ProblemSpec, cases: ProblemTestCase[], marker: string) => `
+;await (async () => {
+  const __cases = ${JSON.stringify(cases.map(c => c.input))};
+  for (let __i = 0; __i < __cases.length; __i++) {
+    const __args = JSON.parse(JSON.stringify(__cases[__i]));
+    const __start = performance.now();
+    try {
+      const __result = await ${spec.functionName}(...__args);
+      const __output = ${spec.inPlaceArg !== undefined ? `__args[${spec.inPlaceArg}]` : '__result'};
+      console.log('${marker}' + JSON.stringify({ i: __i, output: __output === undefined ? null : __output, time_ms: Math.round(performance.now() - __start) }));
+    } catch (__error) {
+      console.log('${marker}' + JSON.stringify({ i: __i, error: __error instanceof Error ? __error.name + ': ' + __error.message : String(__error) }));
+    }
+  }
+})();
+`;
+
+const buildPythonHarness = (spec: ProblemSpec, cases: ProblemTestCase[], marker: string) => `
+
+import json as __json, time as __time
+__cases = __json.loads(${JSON.stringify(JSON.stringify(cases.map(c => c.input)))})
+for __i, __args in enumerate(__cases):
+    __start = __time.perf_counter()
+    try:
+        __fn = getattr(Solution(), ${JSON.stringify(spec.functionName)}) if 'Solution' in globals() else globals()[${JSON.stringify(spec.functionName)}]
+        __result = __fn(*__args)
+        __output = ${spec.inPlaceArg !== undefined ? `__args[${spec.inPlaceArg}]` : '__result'}
+        print(${JSON.stringify(marker)} + __json.dumps({"i": __i, "output": __output, "time_ms": round((__time.perf_counter() - __start) * 1000)}))
+    except Exception as __error:
+        print(${JSON.stringify(marker)} + __json.dumps({"i": __i, "error": f"{type(__error).__name__}: {__error}"}))
+`;
+
+const normalize = (value: unknown, unordered: boolean): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(item => normalize(item, false));
+    return unordered ? [...items].sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b))) : items;
+  }
+  return value;
+};
+
+const isEqual = (actual: unknown, expected: unknown, spec: ProblemSpec) => {
+  const unordered = spec.compare === 'unordered';
+  return JSON.stringify(normalize(actual, unordered)) === JSON.stringify(normalize(expected, unordered));
+};
+
+// Split run output into harness results and whatever the user printed
+const parseHarnessOutput = (stdout: string, marker: string) => {
+  const lines: HarnessLine[] = [];
+  const userOutput: string[] = [];
+
+  stdout.split('\n').forEach(line => {
+    if (line.startsWith(marker)) {
+      try {
+        lines.push(JSON.parse(line.slice(marker.length)));
+      } catch {
+        userOutput.push(line);
+      }
+    } else {
+      userOutput.push(line);
+    }
+  });
+
+  return { lines, stdout: userOutput.join('\n').trim() };
+};
+
+export const judgeSolution = async (
+  spec: ProblemSpec,
+  code: string,
+  language: RunnerLanguage,
+  options: { includeHidden?: boolean; timeoutMs?: number } = {}
+): Promise<JudgeResult> => {
+  const cases = options.includeHidden ? spec.testCases : spec.testCases.filter(c => !c.hidden);
+  const marker = newJudgeMarker();
+  const harness = language === 'python' ? buildPythonHarness(spec, cases, marker) : buildJsHarness(spec, cases, marker);
+
+  const execution = await runCode({ code: `${code}\n${harness}`, language, timeoutMs: options.timeoutMs });
+  const { lines, stdout } = parseHarnessOutput(execution.stdout, marker);
+
+  const results: TestCaseResult[] = cases.map((testCase, index) => {
+    const line = lines.find(l => l.i === index);
+    const passed = !!line && !line.error && isEqual(line.output, testCase.expected, spec);
+    const result: TestCaseResult = {
+      index,
+      hidden: !!testCase.hidden,
+      passed,
+      time_ms: line?.time_ms,
+      error: line?.error ?? (line ? undefined : execution.timed_out ? 'Time limit exceeded' : 'Did not run'),
+    };
+
+    // Hidden cases only report pass/fail
+    if (!testCase.hidden) {
+      result.input = testCase.input;
+      result.expected = testCase.expected;
+      result.output = line?.output;
+    }
+
+    return result;
+  });
+
+  const passedCount = results.filter(r => r.passed).length;
+  const ranAll = lines.length === cases.length;
+
+  return {
+    ...execution,
+    code,
+    stdout,
+    status: !ranAll || execution.exit_code !== 0 ? 'error' : passedCount === cases.length ? 'passed' : 'failed',
+    test_results: results as unknown as Json,
+    cases: results,
+    passed_count: passedCount,
+    total_count: cases.length,
+  };
+};
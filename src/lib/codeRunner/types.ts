@@ -0,0 +1,42 @@
+import { Json } from '@/integrations/supabase/types';
+
+export type RunnerLanguage = 'javascript' | 'typescript' | 'python' | 'java' | 'cpp';
+
+// Mirrors the status check constraint on code_submissions
+export type ExecutionStatus = 'pending' | 'running' | 'passed' | 'failed' | 'error';
+
+export interface ExecutionRequest {
+  code: string;
+  language: RunnerLanguage;
+  stdin?: string;
+  timeoutMs?: number;
+}
+
+export interface ExecutionResult {
+  code: string;
+  language: RunnerLanguage;
+  status: ExecutionStatus;
+  stdout: string;
+  stderr: string;
+  exit_code: number | null;
+  timed_out: boolean;
+  execution_time: number | null; // in milliseconds
+  memory_used: number | null; // in bytes
+  test_results: Json | null;
+}
+
+export interface ExecutionBackend {
+  name: string;
+  languages: RunnerLanguage[];
+  execute(request: ExecutionRequest): Promise<ExecutionResult>;
+}
+
+export const DEFAULT_TIMEOUT_MS = 5000;
+
+export const LANGUAGE_LABELS: Record<RunnerLanguage, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+  java: 'Java',
+  cpp: 'C++',
+};
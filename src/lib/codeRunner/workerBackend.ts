@@ -0,0 +1,72 @@
+import { DEFAULT_TIMEOUT_MS, ExecutionBackend, ExecutionRequest, ExecutionResult } from './types';
+
+interface WorkerResponse {
+  id: string;
+  stdout: string;
+  stderr: string;
+  exit_code: number;
+  execution_time: number;
+  memory_used: number | null;
+}
+
+// Each run gets a fresh worker so globals from a previous run never leak
+// into the next one, and a runaway script can simply be terminated.
+export const workerBackend: ExecutionBackend = {
+  name: 'browser-worker',
+  languages: ['javascript', 'typescript'],
+
+  execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const id = crypto.randomUUID();
+
+    return new Promise(resolve => {
+      const worker = new Worker(new URL('./jsRunner.worker.ts', import.meta.url), { type: 'module' });
+
+      const finish = (result: Partial<ExecutionResult>) => {
+        clearTimeout(timer);
+        worker.terminate();
+        resolve({
+          code: request.code,
+          language: request.language,
+          status: 'error',
+          stdout: '',
+          stderr: '',
+          exit_code: null,
+          timed_out: false,
+          execution_time: null,
+          memory_used: null,
+          test_results: null,
+          ...result,
+        });
+      };
+
+      const timer = setTimeout(() => {
+        finish({
+          stderr: `Time limit exceeded (${timeoutMs} ms)`,
+          timed_out: true,
+          execution_time: timeoutMs,
+        });
+      }, timeoutMs);
+
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        if (event.data?.id !== id) return;
+        const { stdout, stderr, exit_code, execution_time, memory_used } = event.data;
+        finish({
+          status: exit_code === 0 ? 'passed' : 'error',
+          stdout,
+          stderr,
+          exit_code,
+          execution_time,
+          memory_used,
+        });
+      };
+
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        finish({ stderr: event.message || 'Worker failed to start', exit_code: 1 });
+      };
+
+      worker.postMessage({ id, code: request.code, language: request.language });
+    });
+  },
+};
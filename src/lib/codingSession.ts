@@ -0,0 +1,194 @@
+import type { RunnerLanguage, TestCaseResult } from '@/lib/codeRunner';
+
+// Timeline of a live coding answer, stored in interview_responses.coding_session.
+// Every event carries `t`, milliseconds since the recording started, so the
+// editor can be replayed in step with the video.
+export type CodeEvent =
+  // Replace [from, to) of the previous code with text
+  | { t: number; type: 'edit'; from: number; to: number; text: string }
+  // Language switch or reset to the starter code
+  | { t: number; type: 'reset'; language: RunnerLanguage; code: string }
+  | { t: number; type: 'run'; passed: number; total: number; status: string };
+
+export interface CodingSessionResult {
+  status: string;
+  passed_count: number;
+  total_count: number;
+  cases: TestCaseResult[];
+}
+
+export interface CodingSession {
+  problem_key: string;
+  // Language at the end; resets in the timeline record any switches
+  language: RunnerLanguage;
+  initial_language: RunnerLanguage;
+  initial_code: string;
+  final_code: string;
+  time_limit_seconds: number;
+  duration_ms: number;
+  events: CodeEvent[];
+  // Final run against every test case, hidden ones included
+  result: CodingSessionResult | null;
+}
+
+export interface CodingActivity {
+  editCount: number;
+  runCount: number;
+  firstEditMs: number | null;
+  firstRunMs: number | null;
+  longestIdleMs: number;
+  // Characters typed per bucket, for an activity strip under the replay
+  buckets: number[];
+  bucketMs: number;
+}
+
+// Smallest single replacement that turns prev into next. Keystrokes and
+// pastes produce one contiguous change, so this loses nothing in practice.
+export const diffText = (prev: string, next: string): { from: number; to: number; text: string } | null => {
+  if (prev === next) return null;
+
+  let start = 0;
+  const maxStart = Math.min(prev.length, next.length);
+  while (start < maxStart && prev[start] === next[start]) start++;
+
+  let prevEnd = prev.length;
+  let nextEnd = next.length;
+  while (prevEnd > start && nextEnd > start && prev[prevEnd - 1] === next[nextEnd - 1]) {
+    prevEnd--;
+    nextEnd--;
+  }
+
+  return { from: start, to: prevEnd, text: next.slice(start, nextEnd) };
+};
+
+export const applyEvent = (code: string, event: CodeEvent): string => {
+  switch (event.type) {
+    case 'edit':
+      return code.slice(0, event.from) + event.text + code.slice(event.to);
+    case 'reset':
+      return event.code;
+    default:
+      return code;
+  }
+};
+
+// Replays events up to a point in time. Seeking forward continues from the
+// last position; seeking backward starts over from the initial code.
+export const createReplayCursor = (session: CodingSession) => {
+  let index = 0;
+  let code = session.initial_code;
+  let language = session.initial_language;
+  let position = 0;
+
+  return {
+    seek(ms: number) {
+      if (ms < position) {
+        index = 0;
+        code = session.initial_code;
+        language = session.initial_language;
+      }
+      position = ms;
+
+      while (index < session.events.length && session.events[index].t <= ms) {
+        const event = session.events[index];
+        code = applyEvent(code, event);
+        if (event.type === 'reset') language = event.language;
+        index++;
+      }
+
+      return { code, language, lastEvent: index > 0 ? session.events[index - 1] : null };
+    }
+  };
+};
+
+// Collects editor changes while the answer is being recorded. Edits made
+// before start() (e.g. during the countdown) fold into the initial code.
+export const createTimelineRecorder = (language: RunnerLanguage, code: string) => {
+  let startedAt: number | null = null;
+  let initialLanguage = language;
+  let initialCode = code;
+  let currentLanguage = language;
+  let currentCode = code;
+  const events: CodeEvent[] = [];
+
+  const now = () => (startedAt === null ? 0 : Date.now() - startedAt);
+
+  return {
+    start() {
+      startedAt = Date.now();
+      initialLanguage = currentLanguage;
+      initialCode = currentCode;
+      events.length = 0;
+    },
+
+    change(next: string) {
+      const edit = diffText(currentCode, next);
+      currentCode = next;
+      if (edit && startedAt !== null) {
+        events.push({ t: now(), type: 'edit', ...edit });
+      }
+    },
+
+    reset(nextLanguage: RunnerLanguage, next: string) {
+      currentLanguage = nextLanguage;
+      currentCode = next;
+      if (startedAt !== null) {
+        events.push({ t: now(), type: 'reset', language: nextLanguage, code: next });
+      }
+    },
+
+    run(passed: number, total: number, status: string) {
+      if (startedAt !== null) {
+        events.push({ t: now(), type: 'run', passed, total, status });
+      }
+    },
+
+    finish(problemKey: string, timeLimitSeconds: number, result: CodingSessionResult | null): CodingSession {
+      return {
+        problem_key: problemKey,
+        language: currentLanguage,
+        initial_language: initialLanguage,
+        initial_code: initialCode,
+        final_code: currentCode,
+        time_limit_seconds: timeLimitSeconds,
+        duration_ms: now(),
+        events: [...events],
+        result
+      };
+    }
+  };
+};
+
+export type TimelineRecorder = ReturnType<typeof createTimelineRecorder>;
+
+export const summarizeActivity = (session: CodingSession, bucketCount = 60): CodingActivity => {
+  const edits = session.events.filter((event): event is Extract<CodeEvent, { type: 'edit' }> => event.type === 'edit');
+  const runs = session.events.filter(event => event.type === 'run');
+  const duration = Math.max(session.duration_ms, session.events[session.events.length - 1]?.t || 0, 1);
+  const bucketMs = Math.ceil(duration / bucketCount);
+  const buckets = new Array(bucketCount).fill(0);
+
+  let longestIdleMs = 0;
+  let previous = 0;
+  edits.forEach(event => {
+    buckets[Math.min(bucketCount - 1, Math.floor(event.t / bucketMs))] += Math.max(event.text.length, event.to - event.from);
+    longestIdleMs = Math.max(longestIdleMs, event.t - previous);
+    previous = event.t;
+  });
+  longestIdleMs = Math.max(longestIdleMs, duration - previous);
+
+  return {
+    editCount: edits.length,
+    runCount: runs.length,
+    firstEditMs: edits[0]?.t ?? null,
+    firstRunMs: runs[0]?.t ?? null,
+    longestIdleMs,
+    buckets,
+    bucketMs
+  };
+};
+
+export const parseCodingSession = (value: unknown): CodingSession | null =>
+  value && typeof value === 'object' && Array.isArray((value as CodingSession).events) && typeof (value as CodingSession).problem_key === 'string'
+    ? (value as CodingSession)
+    : null;
@@ -0,0 +1,105 @@
+export type TutorMode = 'chat' | 'hints';
+export type TutorRole = 'user' | 'assistant';
+
+// What the learner is looking at when they open the tutor
+export interface TutorContext {
+  topic?: { id: string; title: string };
+  problem?: { name: string; url?: string; difficulty?: string };
+}
+
+export interface SolvedHistory {
+  count: number;
+  // Most recent first
+  recent: string[];
+}
+
+export interface TutorChatMessage {
+  role: TutorRole;
+  content: string;
+}
+
+export interface HintRung {
+  level: number;
+  label: string;
+}
+
+// Each rung reveals a little more; the service is told what each may contain
+// and never goes as far as a full solution
+export const HINT_LADDER: HintRung[] = [
+  { level: 1, label: 'Nudge' },
+  { level: 2, label: 'Pattern' },
+  { level: 3, label: 'Approach' },
+  { level: 4, label: 'Pseudocode' }
+];
+
+export const MAX_HINT_LEVEL = HINT_LADDER.length;
+
+export const hintLabel = (level: number) => HINT_LADDER.find(rung => rung.level === level)?.label || `Hint ${level}`;
+
+const TITLE_LENGTH = 60;
+
+export const conversationTitle = (message: string, context: TutorContext, mode: TutorMode) => {
+  if (mode === 'hints' && context.problem) return `Hints: ${context.problem.name}`;
+  const text = message.trim().replace(/\s+/g, ' ');
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text || 'New conversation';
+};
+
+// Opening message for a new conversation, mentioning what the tutor can see
+export const greeting = (context: TutorContext, mode: TutorMode) => {
+  if (mode === 'hints') {
+    return context.problem
+      ? `Let's work through **${context.problem.name}** together. I'll give you hints one step at a time, starting with a small nudge. Ask for the next hint whenever you're stuck, or tell me what you've tried so far.`
+      : "Hint mode is on. Tell me which problem you're working on and what you've tried, and I'll give you hints one step at a time instead of the full solution.";
+  }
+
+  const focus = context.problem
+    ? ` I can see you're on **${context.problem.name}**.`
+    : context.topic
+      ? ` I can see you're studying **${context.topic.title}**.`
+      : '';
+  return `Hi! I'm your DSA study assistant.${focus} I can help you with:\n\n• Algorithm explanations\n• Problem-solving strategies\n• Time & space complexity analysis\n• Code review and optimization\n• Study recommendations\n\nWhat would you like to learn today?`;
+};
+
+// Prompt sent when the learner asks for the next rung of the ladder
+export const nextHintPrompt = (level: number) =>
+  level === 1 ? 'Give me a first hint.' : `I'm still stuck. Give me hint ${level} (${hintLabel(level).toLowerCase()}).`;
+
+const FALLBACK_HINTS: string[] = [
+  "Start by writing out a small example by hand. What do you notice about the answer? Is there something you're recomputing over and over?",
+  'Think about which pattern fits: two pointers or a sliding window for contiguous ranges, a hash map for lookups, a stack for "next greater" style questions, BFS/DFS for connectivity, or DP when choices overlap.',
+  'Break the approach into steps: define what you track as you scan the input, what stays true after each step (the invariant), and when you can stop early. Check the edge cases: empty input, one element, duplicates.',
+  'Write the core loop as pseudocode first: initialise your state, update it for each element while keeping the invariant, and read off the answer at the end. Then work out the time and space complexity before you code it.'
+];
+
+// Offline ladder used when the tutor service cannot be reached
+export const getFallbackHint = (level: number, context: TutorContext) => {
+  const hint = FALLBACK_HINTS[Math.min(Math.max(level, 1), FALLBACK_HINTS.length) - 1];
+  return context.problem ? `**${context.problem.name}**, hint ${level}: ${hint}` : hint;
+};
+
+// Keyword answers for common topics, used when the tutor service cannot be reached
+export const getFallbackResponse = (query: string): string => {
+  const lowerQuery = query.toLowerCase();
+
+  if (lowerQuery.includes('array') || lowerQuery.includes('sorting')) {
+    return "Arrays are fundamental data structures! For sorting:\n\n• **Bubble Sort**: O(n²) - Good for learning\n• **Quick Sort**: O(n log n) average - Very efficient\n• **Merge Sort**: O(n log n) - Stable, consistent\n\nKey tip: Practice with different array problems to master pointer techniques!";
+  }
+
+  if (lowerQuery.includes('tree') || lowerQuery.includes('binary')) {
+    return "Binary Trees are crucial for DSA! Key concepts:\n\n• **Traversals**: Inorder, Preorder, Postorder\n• **BST Properties**: Left < Root < Right\n• **Common Problems**: Height, Diameter, LCA\n\nStart with basic traversals and build up to complex tree problems!";
+  }
+
+  if (lowerQuery.includes('graph') || lowerQuery.includes('bfs') || lowerQuery.includes('dfs')) {
+    return "Graph algorithms are powerful! Essential ones:\n\n• **BFS**: Level-order, shortest path in unweighted graphs\n• **DFS**: Deep exploration, cycle detection\n• **Dijkstra**: Shortest path with weights\n• **Union-Find**: Connected components\n\nVisualize the graph first, then choose the right traversal method!";
+  }
+
+  if (lowerQuery.includes('dynamic') || lowerQuery.includes('dp')) {
+    return "Dynamic Programming is all about optimization! Approach:\n\n1. **Identify**: Overlapping subproblems\n2. **Define**: State and recurrence relation\n3. **Implement**: Top-down (memoization) or bottom-up\n\nStart with Fibonacci, Climbing Stairs, then move to 2D DP problems!";
+  }
+
+  if (lowerQuery.includes('time') || lowerQuery.includes('complexity')) {
+    return "Time Complexity Analysis:\n\n• **O(1)**: Constant - Hash operations\n• **O(log n)**: Logarithmic - Binary search\n• **O(n)**: Linear - Single loop\n• **O(n log n)**: Efficient sorting\n• **O(n²)**: Nested loops\n\nAlways analyze your solution and think about optimizations!";
+  }
+
+  return "Great question! DSA is all about practice and understanding patterns. Here are some general tips:\n\n• Start with easy problems and build confidence\n• Focus on understanding patterns rather than memorizing\n• Practice coding by hand sometimes\n• Explain your approach before coding\n\nWhat specific DSA topic would you like to explore?";
+};
@@ -0,0 +1,103 @@
+import type { Category, FaceLandmarker, Matrix } from '@mediapipe/tasks-vision';
+import { FACE_LANDMARKER_MODEL_URL, FACE_LANDMARKER_WASM_URL } from '@/configs/environment';
+import { FaceFrame, FacialAnalysisProvider, NO_FACE } from './types';
+
+// Angles past which the candidate is clearly looking away from the camera
+const MAX_EYE_CONTACT_YAW = 25;
+const MAX_EYE_CONTACT_PITCH = 20;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// The facial transformation matrix is a column-major 4x4; its upper-left 3x3 is the head rotation
+export const headPoseFromMatrix = (matrix: Matrix) => {
+  const at = (row: number, column: number) => matrix.data[column * 4 + row];
+
+  return {
+    pitch: toDegrees(Math.atan2(at(2, 1), at(2, 2))),
+    yaw: toDegrees(Math.asin(-Math.max(-1, Math.min(1, at(2, 0))))),
+    roll: toDegrees(Math.atan2(at(1, 0), at(0, 0))),
+  };
+};
+
+export const frameFromBlendshapes = (
+  categories: Category[],
+  pose: { yaw: number; pitch: number; roll: number }
+): FaceFrame => {
+  const scores = new Map(categories.map(category => [category.categoryName, category.score]));
+  const score = (name: string) => scores.get(name) || 0;
+  const both = (name: string) => (score(`${name}Left`) + score(`${name}Right`)) / 2;
+
+  // Gaze blendshapes are per eye; looking sideways moves one eye "in" and the other "out"
+  const gazeAway = Math.max(
+    (score('eyeLookOutLeft') + score('eyeLookInRight')) / 2,
+    (score('eyeLookInLeft') + score('eyeLookOutRight')) / 2,
+    both('eyeLookUp'),
+    both('eyeLookDown')
+  );
+  const headAway = Math.max(Math.abs(pose.yaw) / MAX_EYE_CONTACT_YAW, Math.abs(pose.pitch) / MAX_EYE_CONTACT_PITCH);
+
+  return {
+    faceDetected: true,
+    eyeContact: clamp01(1 - Math.max(gazeAway, headAway)),
+    ...pose,
+    smile: clamp01(both('mouthSmile')),
+    eyesClosed: clamp01(both('eyeBlink')),
+  };
+};
+
+// Runs the MediaPipe face landmark model on the CPU in the browser. The
+// library and model load on first use, and stay loaded between recordings.
+export const createFaceLandmarkerProvider = (
+  wasmUrl: string = FACE_LANDMARKER_WASM_URL,
+  modelUrl: string = FACE_LANDMARKER_MODEL_URL
+): FacialAnalysisProvider => {
+  let landmarker: FaceLandmarker | null = null;
+  let loading: Promise<void> | null = null;
+
+  return {
+    name: 'face-landmarker',
+    frameIntervalMs: 100,
+
+    init() {
+      if (!loading) {
+        loading = (async () => {
+          const { FaceLandmarker, FilesetResolver } = await import('@mediapipe/tasks-vision');
+          const fileset = await FilesetResolver.forVisionTasks(wasmUrl);
+          landmarker = await FaceLandmarker.createFromOptions(fileset, {
+            baseOptions: { modelAssetPath: modelUrl, delegate: 'CPU' },
+            runningMode: 'VIDEO',
+            numFaces: 1,
+            outputFaceBlendshapes: true,
+            outputFacialTransformationMatrixes: true,
+          });
+        })().catch(error => {
+          // Allow a later recording to retry, e.g. after the network comes back
+          loading = null;
+          throw error;
+        });
+      }
+
+      return loading;
+    },
+
+    async analyzeFrame(video: HTMLVideoElement, timestampMs: number) {
+      if (!landmarker || video.readyState < 2 || video.videoWidth === 0) return null;
+
+      const result = landmarker.detectForVideo(video, timestampMs);
+      const blendshapes = result.faceBlendshapes[0]?.categories;
+      const matrix = result.facialTransformationMatrixes[0];
+
+      if (!blendshapes || !matrix) return NO_FACE;
+
+      return frameFromBlendshapes(blendshapes, headPoseFromMatrix(matrix));
+    },
+
+    dispose() {
+      landmarker?.close();
+      landmarker = null;
+      loading = null;
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { FACIAL_ANALYZER_URL } from '@/configs/environment';
+import { FaceFrame, FacialAnalysisProvider } from './types';
+
+const captureFrame = (video: HTMLVideoElement): Promise<Blob | null> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.resolve(null);
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  return new Promise<Blob | null>(resolve => {
+    canvas.toBlob(blob => resolve(blob), 'image/jpeg', 0.85);
+  });
+};
+
+// Sends JPEG frames to a local analyzer service. It must answer POST
+// /analyze_facial (multipart field "image") with a FaceFrame as JSON.
+export const createHttpFacialAnalyzer = (
+  baseUrl: string = FACIAL_ANALYZER_URL,
+  frameIntervalMs = 500
+): FacialAnalysisProvider => ({
+  name: 'http-analyzer',
+  frameIntervalMs,
+
+  async init() {
+    const response = await fetch(`${baseUrl}/health`).catch(() => null);
+    if (!response?.ok) {
+      throw new Error(`Facial analyzer at ${baseUrl} is not reachable`);
+    }
+  },
+
+  async analyzeFrame(video: HTMLVideoElement) {
+    if (video.readyState < 2 || video.videoWidth === 0) return null;
+
+    const image = await captureFrame(video);
+    if (!image) return null;
+
+    const form = new FormData();
+    form.append('image', image, 'frame.jpg');
+
+    const response = await fetch(`${baseUrl}/analyze_facial`, { method: 'POST', body: form });
+    if (!response.ok) {
+      throw new Error(`Facial analyzer error: ${response.status}`);
+    }
+
+    return (await response.json()) as FaceFrame;
+  },
+
+  dispose() {
+    // Stateless; nothing to release
+  },
+});
@@ -0,0 +1,20 @@
+import { createFaceLandmarkerProvider } from './faceLandmarkerProvider';
+import { FacialAnalysisProvider } from './types';
+
+export * from './types';
+export { createFaceLandmarkerProvider } from './faceLandmarkerProvider';
+export { createHttpFacialAnalyzer } from './httpProvider';
+export { createSignalTracker, signalsToExpression } from './signals';
+export type { SignalTracker } from './signals';
+
+let provider: FacialAnalysisProvider = createFaceLandmarkerProvider();
+
+// Swap the frame analyzer, e.g. for createHttpFacialAnalyzer() backed by a local service
+export const setFacialAnalysisProvider = (next: FacialAnalysisProvider) => {
+  if (next !== provider) {
+    provider.dispose();
+  }
+  provider = next;
+};
+
+export const getFacialAnalysisProvider = () => provider;
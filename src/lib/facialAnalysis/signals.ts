@@ -0,0 +1,101 @@
+import { FaceSignalData, FacialExpressionData } from '@/types';
+import { FaceFrame } from './types';
+
+// Eye-closure hysteresis so a half-closed eye does not count as several blinks
+const BLINK_CLOSED = 0.5;
+const BLINK_OPEN = 0.3;
+const BLINK_RATE_WINDOW_MS = 30000;
+const MIN_BLINK_RATE_WINDOW_MS = 10000;
+// Typical resting blink rate, and the rate at which it reads as clear stress
+const NORMAL_BLINK_RATE = 17;
+const STRESSED_BLINK_RATE = 35;
+// Head movement (standard deviation of yaw + pitch) treated as fully restless
+const MAX_HEAD_JITTER_DEGREES = 16;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+const standardDeviation = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - avg) ** 2)));
+};
+
+// Collects per-frame measurements and summarises them once per sampling window.
+// Blinks are tracked across windows because a rate needs more than a second of data.
+export const createSignalTracker = () => {
+  let frames: FaceFrame[] = [];
+  let blinks: number[] = [];
+  let eyesClosed = false;
+  let startedAt: number | null = null;
+
+  const blinkRate = (now: number) => {
+    blinks = blinks.filter(t => now - t <= BLINK_RATE_WINDOW_MS);
+    const elapsed = Math.min(BLINK_RATE_WINDOW_MS, now - (startedAt ?? now));
+    return blinks.length / (Math.max(elapsed, MIN_BLINK_RATE_WINDOW_MS) / 60000);
+  };
+
+  return {
+    addFrame(frame: FaceFrame, t: number) {
+      if (startedAt === null) startedAt = t;
+      frames.push(frame);
+
+      if (!frame.faceDetected) return;
+      if (!eyesClosed && frame.eyesClosed >= BLINK_CLOSED) {
+        eyesClosed = true;
+      } else if (eyesClosed && frame.eyesClosed <= BLINK_OPEN) {
+        eyesClosed = false;
+        blinks.push(t);
+      }
+    },
+
+    // Returns the signals for the frames since the last flush, or null if there were none
+    flush(t: number): FaceSignalData | null {
+      if (frames.length === 0) return null;
+
+      const visible = frames.filter(frame => frame.faceDetected);
+      const jitter = visible.length >= 2
+        ? standardDeviation(visible.map(frame => frame.yaw)) + standardDeviation(visible.map(frame => frame.pitch))
+        : 0;
+
+      const signals: FaceSignalData = {
+        eyeContact: round1(mean(frames.map(frame => (frame.faceDetected ? frame.eyeContact : 0))) * 100),
+        headStability: visible.length > 0 ? round1(clamp01(1 - jitter / MAX_HEAD_JITTER_DEGREES) * 100) : 0,
+        smile: round1(mean(visible.map(frame => frame.smile)) * 100),
+        blinkRate: round1(blinkRate(t)),
+        faceVisible: round1((visible.length / frames.length) * 100),
+      };
+
+      frames = [];
+      return signals;
+    },
+
+    reset() {
+      frames = [];
+      blinks = [];
+      eyesClosed = false;
+      startedAt = null;
+    },
+  };
+};
+
+export type SignalTracker = ReturnType<typeof createSignalTracker>;
+
+// Maps measured signals onto the expression scores the interview reports use
+export const signalsToExpression = (signals: FaceSignalData): FacialExpressionData => {
+  const eyeContact = signals.eyeContact / 100;
+  const stability = signals.headStability / 100;
+  const smile = signals.smile / 100;
+  const visible = signals.faceVisible / 100;
+  const blinkStress = clamp01((signals.blinkRate - NORMAL_BLINK_RATE) / (STRESSED_BLINK_RATE - NORMAL_BLINK_RATE));
+
+  return {
+    confident: round1(100 * (0.45 * eyeContact + 0.25 * stability + 0.15 * visible + 0.15 * clamp01(smile * 2))),
+    stressed: round1(100 * (0.5 * blinkStress + 0.3 * (1 - stability) + 0.2 * (1 - eyeContact))),
+    hesitant: round1(100 * (0.6 * (1 - eyeContact) + 0.4 * (1 - visible))),
+    nervous: round1(100 * (0.4 * blinkStress + 0.4 * (1 - stability) + 0.2 * (1 - clamp01(smile * 2)))),
+    excited: round1(100 * (0.6 * clamp01(smile * 1.5) + 0.25 * eyeContact + 0.15 * visible)),
+  };
+};
@@ -0,0 +1,33 @@
+// What a provider measures on a single video frame
+export interface FaceFrame {
+  faceDetected: boolean;
+  // 0-1, how directly the candidate looks at the camera (gaze and head direction)
+  eyeContact: number;
+  // Head rotation in degrees; 0 is facing the camera
+  yaw: number;
+  pitch: number;
+  roll: number;
+  // 0-1 blendshape-style scores
+  smile: number;
+  eyesClosed: number;
+}
+
+export interface FacialAnalysisProvider {
+  name: string;
+  // How often the hook should hand this provider a frame; blink detection
+  // needs roughly 10 frames a second
+  frameIntervalMs: number;
+  init(): Promise<void>;
+  analyzeFrame(video: HTMLVideoElement, timestampMs: number): Promise<FaceFrame | null>;
+  dispose(): void;
+}
+
+export const NO_FACE: FaceFrame = {
+  faceDetected: false,
+  eyeContact: 0,
+  yaw: 0,
+  pitch: 0,
+  roll: 0,
+  smile: 0,
+  eyesClosed: 0,
+};
@@ -0,0 +1,451 @@
+import { Tables } from '@/integrations/supabase/types';
+import { FacialAnalysisSample, FacialExpressionData, ResponseFacialAnalysis } from '@/types';
+import { SpeechMetrics, TranscriptSegment, TranscriptionStatus, parseStoredTranscript } from '@/lib/transcription';
+import type { AnswerScore } from '@/lib/answerScoring/types';
+import { CodingSession, parseCodingSession } from '@/lib/codingSession';
+import { DesignDiagram, DesignEvaluation, evaluateDesign, parseDesignDiagram } from '@/lib/systemDesign';
+import { getSystemDesignPrompt } from '@/data/systemDesignPrompts';
+
+type InterviewResponseRow = Tables<'interview_responses'>;
+
+export interface PlannedQuestion {
+  question: string;
+  suggested_answer?: string;
+  kind?: 'verbal' | 'coding' | 'design';
+}
+
+export interface AreaFeedback {
+  score: number | null;
+  strengths: string[];
+  weaknesses: string[];
+  summary: string;
+}
+
+export interface TimelineEvent {
+  questionIndex: number;
+  // Seconds from the start of the interview, and from the start of the clip
+  offsetSeconds: number;
+  clipSeconds: number;
+  note: string;
+  score: number;
+}
+
+export interface QuestionReport {
+  index: number;
+  question: string;
+  suggestedAnswer?: string;
+  response: InterviewResponseRow | null;
+  transcript: string | null;
+  transcriptSegments: TranscriptSegment[];
+  transcriptionStatus: TranscriptionStatus | null;
+  speech: SpeechMetrics | null;
+  durationSeconds: number;
+  facial: FacialExpressionData | null;
+  // Rubric grading of the answer content, once it has been scored
+  answerScore: AnswerScore | null;
+  // Editor timeline and final test run of a live coding answer
+  codingSession: CodingSession | null;
+  // Whiteboard of a system design answer and how it fared against the rubric
+  designDiagram: DesignDiagram | null;
+  designEvaluation: DesignEvaluation | null;
+  technical: number | null;
+  communication: number | null;
+  nonVerbal: number | null;
+  score: number | null;
+  missingKeywords: string[];
+}
+
+export interface InterviewReport {
+  overall: number | null;
+  technical: AreaFeedback;
+  communication: AreaFeedback;
+  nonVerbal: AreaFeedback;
+  questions: QuestionReport[];
+  video: {
+    confidence: number | null;
+    engagement: number | null;
+    stress: number | null;
+    timeline: TimelineEvent[];
+  };
+  answeredCount: number;
+  durationSeconds: number;
+}
+
+const TIMELINE_WINDOW_SECONDS = 10;
+const IDEAL_WPM = { min: 110, max: 170 };
+const IDEAL_ANSWER_SECONDS = { min: 30, max: 180 };
+// Fillers per 100 words that still sound natural
+const ACCEPTABLE_FILLER_RATE = 3;
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'because', 'before', 'being', 'could', 'every', 'first', 'their',
+  'there', 'these', 'thing', 'things', 'think', 'those', 'through', 'which', 'while', 'would',
+  'where', 'other', 'should', 'using', 'within', 'without', 'really', 'something', 'specific'
+]);
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const roundOrNull = (value: number | null) => (value === null ? null : Math.round(value));
+
+const averageOf = (values: Array<number | null>) =>
+  roundOrNull(average(values.filter((value): value is number => value !== null)));
+
+export const aggregateFacialSamples = (samples: FacialAnalysisSample[]): FacialExpressionData | null => {
+  if (samples.length === 0) return null;
+
+  const sum = samples.reduce(
+    (acc, sample) => ({
+      confident: acc.confident + sample.confident,
+      stressed: acc.stressed + sample.stressed,
+      hesitant: acc.hesitant + sample.hesitant,
+      nervous: acc.nervous + sample.nervous,
+      excited: acc.excited + sample.excited
+    }),
+    { confident: 0, stressed: 0, hesitant: 0, nervous: 0, excited: 0 }
+  );
+
+  return {
+    confident: sum.confident / samples.length,
+    stressed: sum.stressed / samples.length,
+    hesitant: sum.hesitant / samples.length,
+    nervous: sum.nervous / samples.length,
+    excited: sum.excited / samples.length
+  };
+};
+
+export const parseFacialAnalysis = (value: unknown): ResponseFacialAnalysis | null => {
+  if (!value || typeof value !== 'object' || !Array.isArray((value as ResponseFacialAnalysis).samples)) {
+    return null;
+  }
+
+  const samples = (value as ResponseFacialAnalysis).samples;
+  return { samples, aggregate: (value as ResponseFacialAnalysis).aggregate || aggregateFacialSamples(samples) };
+};
+
+export const nonVerbalScore = (facial: FacialExpressionData) =>
+  clamp(
+    facial.confident * 0.4 +
+    facial.excited * 0.2 +
+    (100 - facial.stressed) * 0.2 +
+    (100 - facial.nervous) * 0.1 +
+    (100 - facial.hesitant) * 0.1
+  );
+
+export const tokenize = (text: string) =>
+  text.toLowerCase().match(/[a-z][a-z0-9+#.-]*/g) || [];
+
+export const getKeywords = (text: string) =>
+  Array.from(new Set(tokenize(text).filter(word => word.length >= 5 && !STOP_WORDS.has(word))));
+
+// Share of the suggested answer's key terms that the candidate mentioned
+const keywordCoverage = (transcript: string, suggestedAnswer: string) => {
+  const keywords = getKeywords(suggestedAnswer).slice(0, 20);
+  const spoken = new Set(tokenize(transcript));
+  const missing = keywords.filter(keyword => !spoken.has(keyword));
+
+  return {
+    coverage: keywords.length > 0 ? (keywords.length - missing.length) / keywords.length : 0,
+    missing
+  };
+};
+
+const getStoredScore = (response: InterviewResponseRow | null): AnswerScore | null => {
+  const analysis = response?.ai_analysis as unknown as AnswerScore | null;
+  return analysis && typeof analysis.score === 'number' ? analysis : null;
+};
+
+const scoreCommunication = (transcript: string | null, speech: SpeechMetrics | null, durationSeconds: number) => {
+  if (durationSeconds <= 0) return null;
+
+  let score = 100;
+  if (durationSeconds < IDEAL_ANSWER_SECONDS.min) {
+    score -= ((IDEAL_ANSWER_SECONDS.min - durationSeconds) / IDEAL_ANSWER_SECONDS.min) * 40;
+  } else if (durationSeconds > IDEAL_ANSWER_SECONDS.max) {
+    score -= Math.min(30, ((durationSeconds - IDEAL_ANSWER_SECONDS.max) / 60) * 10);
+  }
+
+  const wpm = speech?.wordsPerMinute ?? (transcript ? tokenize(transcript).length / (durationSeconds / 60) : null);
+  if (wpm !== null) {
+    if (wpm < IDEAL_WPM.min) {
+      score -= Math.min(30, (IDEAL_WPM.min - wpm) / 2);
+    } else if (wpm > IDEAL_WPM.max) {
+      score -= Math.min(30, (wpm - IDEAL_WPM.max) / 2);
+    }
+  }
+
+  if (speech) {
+    score -= Math.min(25, Math.max(0, speech.fillerRate - ACCEPTABLE_FILLER_RATE) * 3);
+    score -= Math.min(20, speech.longPauses.length * 5);
+  }
+
+  return clamp(score);
+};
+
+// Share of the final tests passed carries most of a coding answer; the
+// explanation given while coding makes up the rest
+const CODING_TEST_WEIGHT = 0.7;
+// The diagram and the spoken walkthrough count equally for a design answer
+const DESIGN_DIAGRAM_WEIGHT = 0.5;
+// Thinking aloud while coding is slower than a spoken answer
+const MIN_CODING_WPM = 40;
+
+const scoreCodingCommunication = (transcript: string | null, speech: SpeechMetrics | null, durationSeconds: number) => {
+  if (durationSeconds <= 0) return null;
+  if (!transcript) return 20;
+
+  const wpm = speech?.wordsPerMinute ?? tokenize(transcript).length / (durationSeconds / 60);
+  let score = 100 - Math.max(0, (MIN_CODING_WPM - wpm) / MIN_CODING_WPM) * 60;
+  if (speech) {
+    score -= Math.min(25, Math.max(0, speech.fillerRate - ACCEPTABLE_FILLER_RATE) * 3);
+  }
+
+  return clamp(score);
+};
+
+const buildQuestionReport = (
+  planned: PlannedQuestion,
+  index: number,
+  response: InterviewResponseRow | null
+): QuestionReport => {
+  const transcript = response?.response_text?.trim() || null;
+  const stored = parseStoredTranscript(response?.transcript);
+  const durationSeconds = response?.response_time_seconds || 0;
+  const facial = parseFacialAnalysis(response?.facial_analysis)?.aggregate || null;
+
+  const answerScore = getStoredScore(response);
+  let technical = answerScore?.score ?? null;
+  let missingKeywords: string[] = [];
+  if (transcript && planned.suggested_answer) {
+    const { coverage, missing } = keywordCoverage(transcript, planned.suggested_answer);
+    missingKeywords = missing.slice(0, 5);
+    if (technical === null) {
+      technical = clamp(30 + coverage * 70);
+    }
+  }
+
+  const codingSession = parseCodingSession(response?.coding_session);
+  if (codingSession?.result && codingSession.result.total_count > 0) {
+    const testScore = (codingSession.result.passed_count / codingSession.result.total_count) * 100;
+    technical = answerScore
+      ? testScore * CODING_TEST_WEIGHT + answerScore.score * (1 - CODING_TEST_WEIGHT)
+      : testScore;
+  }
+
+  const designDiagram = parseDesignDiagram(response?.design_diagram);
+  const designPrompt = designDiagram ? getSystemDesignPrompt(designDiagram.prompt_key) : undefined;
+  const designEvaluation = designDiagram && designPrompt ? evaluateDesign(designDiagram, designPrompt) : null;
+  if (designEvaluation) {
+    technical = technical !== null
+      ? designEvaluation.score * DESIGN_DIAGRAM_WEIGHT + technical * (1 - DESIGN_DIAGRAM_WEIGHT)
+      : designEvaluation.score;
+  }
+
+  const speech = stored?.metrics || null;
+  const communication = !response
+    ? null
+    : planned.kind === 'coding'
+      ? scoreCodingCommunication(transcript, speech, durationSeconds)
+      : scoreCommunication(transcript, speech, durationSeconds);
+  const nonVerbal = facial ? nonVerbalScore(facial) : null;
+
+  return {
+    index,
+    question: planned.question,
+    suggestedAnswer: planned.suggested_answer,
+    response,
+    transcript,
+    transcriptSegments: stored?.segments || [],
+    transcriptionStatus: (response?.transcription_status as TranscriptionStatus) || null,
+    speech,
+    durationSeconds,
+    facial,
+    answerScore,
+    codingSession,
+    designDiagram,
+    designEvaluation,
+    technical: roundOrNull(technical),
+    communication: roundOrNull(communication),
+    nonVerbal: roundOrNull(nonVerbal),
+    score: averageOf([technical, communication, nonVerbal]),
+    missingKeywords
+  };
+};
+
+// Splits each clip into fixed windows and keeps the start of every answer plus
+// the windows where confidence or stress stand out
+export const buildTimeline = (questions: QuestionReport[]): TimelineEvent[] => {
+  const events: TimelineEvent[] = [];
+  let offset = 0;
+
+  questions.forEach(question => {
+    if (!question.response) return;
+
+    const samples = parseFacialAnalysis(question.response.facial_analysis)?.samples || [];
+    const windows = new Map<number, FacialAnalysisSample[]>();
+    samples.forEach(sample => {
+      const bucket = Math.floor(sample.t / 1000 / TIMELINE_WINDOW_SECONDS);
+      windows.set(bucket, [...(windows.get(bucket) || []), sample]);
+    });
+
+    Array.from(windows.entries())
+      .sort(([a], [b]) => a - b)
+      .forEach(([bucket, windowSamples]) => {
+        const facial = aggregateFacialSamples(windowSamples);
+        if (!facial) return;
+
+        const clipSeconds = bucket * TIMELINE_WINDOW_SECONDS;
+        const note = bucket === 0
+          ? `Started answering question ${question.index + 1}`
+          : facial.confident >= 75
+            ? 'Strong, confident delivery'
+            : facial.confident <= 35
+              ? 'Confidence dipped'
+              : facial.stressed >= 40 || facial.nervous >= 45
+                ? 'Signs of stress'
+                : null;
+
+        if (note) {
+          events.push({
+            questionIndex: question.index,
+            offsetSeconds: offset + clipSeconds,
+            clipSeconds,
+            note,
+            score: Math.round(nonVerbalScore(facial))
+          });
+        }
+      });
+
+    offset += question.durationSeconds;
+  });
+
+  return events;
+};
+
+const describeArea = (
+  name: string,
+  score: number | null,
+  strengths: string[],
+  weaknesses: string[],
+  unavailable: string
+): AreaFeedback => ({
+  score,
+  strengths,
+  weaknesses,
+  summary: score === null
+    ? unavailable
+    : score >= 80
+      ? `Strong ${name} across the interview.`
+      : score >= 60
+        ? `Solid ${name} with a few areas to tighten up.`
+        : `Your ${name} needs more practice before the real interview.`
+});
+
+export const buildInterviewReport = (
+  planned: PlannedQuestion[],
+  responses: InterviewResponseRow[]
+): InterviewReport => {
+  const questions = planned.map((item, index) =>
+    buildQuestionReport(item, index, responses.find(response => response.question_index === index) || null)
+  );
+  const answered = questions.filter(question => question.response);
+
+  const technicalScore = averageOf(questions.map(question => question.technical));
+  const communicationScore = averageOf(questions.map(question => question.communication));
+  const nonVerbalScoreValue = averageOf(questions.map(question => question.nonVerbal));
+
+  const technicalWeak = questions.filter(question => question.technical !== null && question.technical < 60);
+  const technical = describeArea(
+    'technical knowledge',
+    technicalScore,
+    questions
+      .filter(question => question.technical !== null && question.technical >= 80)
+      .map(question => `Covered the key points of question ${question.index + 1}`),
+    technicalWeak.map(question =>
+      question.answerScore?.improvements.length
+        ? `Question ${question.index + 1}: ${question.answerScore.improvements[0]}`
+        : question.missingKeywords.length > 0
+        ? `Question ${question.index + 1}: mention ${question.missingKeywords.slice(0, 3).join(', ')}`
+        : `Question ${question.index + 1}: answer lacked depth`
+    ),
+    'Technical scoring needs a transcript of your answers.'
+  );
+
+  const tooShort = answered.filter(question => question.durationSeconds > 0 && question.durationSeconds < IDEAL_ANSWER_SECONDS.min);
+  const tooLong = answered.filter(question => question.durationSeconds > IDEAL_ANSWER_SECONDS.max);
+  const wellPaced = answered.length - tooShort.length - tooLong.length;
+  const withSpeech = answered.filter(question => question.speech);
+  const totalWords = withSpeech.reduce((total, question) => total + question.speech.wordCount, 0);
+  const totalFillers = withSpeech.reduce((total, question) => total + question.speech.fillerCount, 0);
+  const fillerRate = totalWords > 0 ? (totalFillers / totalWords) * 100 : 0;
+  const longPauses = withSpeech.reduce((total, question) => total + question.speech.longPauses.length, 0);
+  const averageWpm = averageOf(withSpeech.map(question => question.speech.wordsPerMinute));
+  const communication = describeArea(
+    'communication',
+    communicationScore,
+    [
+      ...(wellPaced > 0 ? [`${wellPaced} of ${answered.length} answers were well paced`] : []),
+      ...(withSpeech.length > 0 && fillerRate <= ACCEPTABLE_FILLER_RATE ? ['Few filler words'] : []),
+      ...(averageWpm !== null && averageWpm >= IDEAL_WPM.min && averageWpm <= IDEAL_WPM.max
+        ? [`Comfortable speaking pace (${averageWpm} words per minute)`]
+        : [])
+    ],
+    [
+      ...(fillerRate > ACCEPTABLE_FILLER_RATE
+        ? [`${totalFillers} filler words (${fillerRate.toFixed(1)} per 100 words)`]
+        : []),
+      ...(averageWpm !== null && averageWpm < IDEAL_WPM.min ? [`Slow pace at ${averageWpm} words per minute`] : []),
+      ...(averageWpm !== null && averageWpm > IDEAL_WPM.max ? [`Fast pace at ${averageWpm} words per minute`] : []),
+      ...(longPauses > 0 ? [`${longPauses} long pauses while answering`] : []),
+      ...(tooShort.length > 0 ? [`${tooShort.length} answers were under ${IDEAL_ANSWER_SECONDS.min} seconds`] : []),
+      ...(tooLong.length > 0 ? [`${tooLong.length} answers ran over ${IDEAL_ANSWER_SECONDS.max / 60} minutes`] : []),
+      ...(answered.length < questions.length ? [`${questions.length - answered.length} questions were not answered`] : [])
+    ],
+    'Answer at least one question to get communication feedback.'
+  );
+
+  const allSamples = answered.flatMap(question => parseFacialAnalysis(question.response?.facial_analysis)?.samples || []);
+  const facial = aggregateFacialSamples(allSamples);
+  // Measured signals are only present on samples from the face landmark analysis
+  const measured = allSamples.filter(sample => sample.signals).map(sample => sample.signals);
+  const eyeContact = roundOrNull(average(measured.map(signals => signals.eyeContact)));
+  const blinkRate = roundOrNull(average(measured.map(signals => signals.blinkRate)));
+  const nonVerbal = describeArea(
+    'non-verbal presence',
+    nonVerbalScoreValue,
+    facial
+      ? [
+          ...(facial.confident >= 60 ? ['Looked confident on camera'] : []),
+          ...(facial.excited >= 50 ? ['Stayed engaged and expressive'] : []),
+          ...(eyeContact !== null && eyeContact >= 70 ? [`Good eye contact (${eyeContact}% of the time)`] : [])
+        ]
+      : [],
+    facial
+      ? [
+          ...(facial.confident < 60 ? ['Project more confidence while answering'] : []),
+          ...(facial.stressed >= 35 || facial.nervous >= 40 ? ['Visible stress; pause and breathe before answering'] : []),
+          ...(eyeContact !== null && eyeContact < 50 ? [`Eye contact only ${eyeContact}% of the time; look at the camera`] : []),
+          ...(blinkRate !== null && blinkRate > 30 ? [`Frequent blinking (${blinkRate} per minute) can read as nervousness`] : [])
+        ]
+      : [],
+    'No facial analysis was captured for this interview.'
+  );
+
+  return {
+    overall: averageOf([technicalScore, communicationScore, nonVerbalScoreValue]),
+    technical,
+    communication,
+    nonVerbal,
+    questions,
+    video: {
+      confidence: facial ? Math.round(facial.confident) : null,
+      engagement: facial ? Math.round(facial.excited) : null,
+      stress: facial ? Math.round((facial.stressed + facial.nervous) / 2) : null,
+      timeline: buildTimeline(questions)
+    },
+    answeredCount: answered.length,
+    durationSeconds: answered.reduce((total, question) => total + question.durationSeconds, 0)
+  };
+};
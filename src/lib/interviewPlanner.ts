@@ -0,0 +1,304 @@
+import type { InterviewPlanQuestion, QuestionDifficulty } from '@/api/services/interviewService';
+import { getKeywords, tokenize } from '@/lib/interviewAnalysis';
+import { STAR_COMPONENTS, StarComponent } from '@/lib/answerScoring';
+import { BehavioralCompetency, behavioralQuestions } from '@/data/behavioralQuestions';
+import { problemSpecs } from '@/data/problemSpecs';
+import { SystemDesignPrompt, systemDesignPrompts } from '@/data/systemDesignPrompts';
+
+// Resume-derived background that tailors an interview plan
+export interface CandidateBackground {
+  role: string;
+  techStack: string[];
+  experience: string;
+  skills: string[];
+  skillGaps: string[];
+  projects: Array<{ title: string; description: string; technologies: string[] }>;
+}
+
+export type AnswerStrength = 'weak' | 'adequate' | 'strong';
+
+export interface AnswerAssessment {
+  strength: AnswerStrength;
+  wordCount: number;
+  // Share of the suggested answer's key terms the candidate mentioned, when known
+  coverage: number | null;
+  mentioned: string[];
+  missing: string[];
+}
+
+export const DEFAULT_PLAN_LENGTH = 6;
+export const MAX_FOLLOW_UPS = 3;
+
+const DIFFICULTY_ORDER: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+const MIN_ANSWER_WORDS = 40;
+const STRONG_ANSWER_WORDS = 120;
+
+export const baseDifficulty = (experience: string): QuestionDifficulty =>
+  experience === '0-1' ? 'easy' : experience === '1-3' ? 'medium' : 'hard';
+
+export const shiftDifficulty = (difficulty: QuestionDifficulty, step: number): QuestionDifficulty => {
+  const index = DIFFICULTY_ORDER.indexOf(difficulty);
+  return DIFFICULTY_ORDER[Math.max(0, Math.min(DIFFICULTY_ORDER.length - 1, index + step))];
+};
+
+export const splitTechStack = (techStack: string) =>
+  techStack.split(',').map(item => item.trim()).filter(Boolean);
+
+const SKILL_PROMPTS: Record<QuestionDifficulty, (skill: string) => InterviewPlanQuestion> = {
+  easy: skill => ({
+    question: `What is ${skill} and what kind of problems have you used it to solve?`,
+    suggested_answer: `Define ${skill} clearly, describe its core concepts, give a concrete example from your own work, and mention why it was a good fit compared with alternatives.`
+  }),
+  medium: skill => ({
+    question: `Describe a non-trivial problem you solved with ${skill}. What trade-offs did you consider?`,
+    suggested_answer: `Explain the context and constraints, the design you chose with ${skill}, alternatives you rejected and why, how you tested it, and the measurable outcome.`
+  }),
+  hard: skill => ({
+    question: `How would you diagnose and fix a performance or scaling problem in a system built on ${skill}?`,
+    suggested_answer: `Start with measurement and profiling, form hypotheses about bottlenecks in ${skill} such as memory, concurrency or I/O, describe specific fixes and their trade-offs, and explain how you would monitor the result in production.`
+  })
+};
+
+const projectQuestion = (
+  project: CandidateBackground['projects'][number],
+  difficulty: QuestionDifficulty
+): InterviewPlanQuestion => {
+  const tech = project.technologies.slice(0, 3).join(', ') || 'your stack';
+  const question = difficulty === 'hard'
+    ? `In ${project.title}, which architectural decisions around ${tech} would you revisit if the project had to handle ten times the load?`
+    : `Walk me through ${project.title}. What was your role, and why did you choose ${tech}?`;
+
+  return {
+    question,
+    suggested_answer: `Summarise the goal of ${project.title}, your specific contribution, the reasoning behind using ${tech}, a technical challenge you overcame, and the result or what you learned. ${project.description}`.trim(),
+    topic: project.title,
+    difficulty,
+    source: 'project'
+  };
+};
+
+const skillGapQuestion = (gap: string, role: string): InterviewPlanQuestion => ({
+  question: `${gap} comes up often for ${role} roles but is not prominent on your resume. How would you get productive with it on a new team?`,
+  suggested_answer: `Be honest about your current level with ${gap}, relate it to similar tools you know, describe a concrete learning plan such as documentation, a small project and code reviews, and show how you would deliver value while ramping up.`,
+  topic: gap,
+  difficulty: 'medium',
+  source: 'skill_gap'
+});
+
+// Builds a plan without a language model: resume projects first, then the
+// stack, then one skill gap, topped up from the role's question bank
+export const buildOfflinePlan = (
+  background: CandidateBackground,
+  roleBank: InterviewPlanQuestion[],
+  count = DEFAULT_PLAN_LENGTH
+): InterviewPlanQuestion[] => {
+  const difficulty = baseDifficulty(background.experience);
+  const skills = Array.from(new Set([...background.techStack, ...background.skills]));
+  const plan: InterviewPlanQuestion[] = [
+    ...background.projects.slice(0, 2).map((project, i) => projectQuestion(project, i === 0 ? difficulty : shiftDifficulty(difficulty, 1))),
+    ...skills.slice(0, 2).map((skill, i) => ({
+      ...SKILL_PROMPTS[i === 0 ? difficulty : shiftDifficulty(difficulty, 1)](skill),
+      topic: skill,
+      difficulty: i === 0 ? difficulty : shiftDifficulty(difficulty, 1),
+      source: 'skill' as const
+    })),
+    ...background.skillGaps.slice(0, 1).map(gap => skillGapQuestion(gap, background.role))
+  ];
+
+  const asked = new Set(plan.map(item => item.question));
+  for (const item of roleBank) {
+    if (plan.length >= count) break;
+    if (!asked.has(item.question)) {
+      plan.push({ ...item, difficulty: item.difficulty || difficulty, source: item.source || 'role' });
+    }
+  }
+
+  return plan.slice(0, count);
+};
+
+const shuffle = <T>(items: T[]) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Behavioral plans rotate through the chosen competencies so each one gets
+// asked about; questions are shuffled so repeat sessions differ
+export const buildBehavioralPlan = (
+  competencies: BehavioralCompetency[],
+  experience: string,
+  count = DEFAULT_PLAN_LENGTH
+): InterviewPlanQuestion[] => {
+  const selected = competencies.length > 0 ? competencies : Array.from(new Set(behavioralQuestions.map(item => item.competency)));
+  const pools = selected.map(competency => shuffle(behavioralQuestions.filter(item => item.competency === competency)));
+  const difficulty = baseDifficulty(experience);
+  const plan: InterviewPlanQuestion[] = [];
+
+  for (let round = 0; plan.length < count && pools.some(pool => pool.length > round); round++) {
+    pools.forEach(pool => {
+      if (plan.length < count && pool[round]) {
+        plan.push({
+          question: pool[round].question,
+          suggested_answer: pool[round].answer,
+          topic: pool[round].competency,
+          difficulty,
+          source: 'behavioral'
+        });
+      }
+    });
+  }
+
+  return plan;
+};
+
+const CODING_TIME_LIMITS: Record<QuestionDifficulty, number> = { easy: 25 * 60, medium: 20 * 60, hard: 15 * 60 };
+
+// What interviewers listen for while a candidate codes; the spoken part of a
+// coding answer is graded against this
+const THINK_ALOUD_REFERENCE =
+  'Restate the problem and clarify the inputs, outputs and constraints before coding. ' +
+  'Describe the approach and why it works, comparing it with a brute force solution. ' +
+  'State the time complexity and space complexity of the solution. ' +
+  'Consider edge cases such as empty input, duplicates and negative numbers. ' +
+  'Walk through an example to test the code and fix any bugs found.';
+
+// A coding round question on one of the problems the judge has test cases for.
+// More experienced candidates get less time.
+export const buildCodingQuestion = (experience: string, exclude: string[] = []): InterviewPlanQuestion => {
+  const candidates = problemSpecs.filter(spec => !exclude.includes(spec.key));
+  const pool = candidates.length > 0 ? candidates : problemSpecs;
+  const spec = pool[Math.floor(Math.random() * pool.length)];
+  const difficulty = baseDifficulty(experience);
+
+  return {
+    question: `Coding round: ${spec.title}. Solve it in the editor and explain your approach out loud as you go.`,
+    suggested_answer: THINK_ALOUD_REFERENCE,
+    topic: spec.title,
+    difficulty,
+    source: 'role',
+    kind: 'coding',
+    problem_key: spec.key,
+    time_limit_seconds: CODING_TIME_LIMITS[difficulty]
+  };
+};
+
+const DESIGN_TIME_LIMITS: Record<QuestionDifficulty, number> = { easy: 40 * 60, medium: 35 * 60, hard: 30 * 60 };
+
+// System design plans open with the whiteboard question for one prompt and
+// follow it with that prompt's deep-dive questions, answered verbally
+export const buildSystemDesignPlan = (promptKey: string, experience: string): InterviewPlanQuestion[] => {
+  const prompt: SystemDesignPrompt =
+    systemDesignPrompts.find(item => item.key === promptKey) ||
+    systemDesignPrompts[Math.floor(Math.random() * systemDesignPrompts.length)];
+  const difficulty = baseDifficulty(experience);
+
+  return [
+    {
+      question: `${prompt.prompt} Draw the main components on the whiteboard and talk through how requests flow between them.`,
+      suggested_answer: prompt.answer,
+      topic: prompt.title,
+      difficulty,
+      source: 'role',
+      kind: 'design',
+      problem_key: prompt.key,
+      time_limit_seconds: DESIGN_TIME_LIMITS[difficulty]
+    },
+    ...prompt.followUps.map(item => ({
+      question: item.question,
+      suggested_answer: item.answer,
+      topic: prompt.title,
+      difficulty,
+      source: 'role' as const
+    }))
+  ];
+};
+
+export const assessAnswer = (question: InterviewPlanQuestion, transcript: string): AnswerAssessment => {
+  const spoken = tokenize(transcript);
+  const spokenSet = new Set(spoken);
+  const keywords = question.suggested_answer ? getKeywords(question.suggested_answer).slice(0, 20) : [];
+  const mentioned = keywords.filter(keyword => spokenSet.has(keyword));
+  const missing = keywords.filter(keyword => !spokenSet.has(keyword));
+  const coverage = keywords.length > 0 ? mentioned.length / keywords.length : null;
+
+  const strength: AnswerStrength =
+    spoken.length < MIN_ANSWER_WORDS || (coverage !== null && coverage < 0.25)
+      ? 'weak'
+      : spoken.length >= STRONG_ANSWER_WORDS && (coverage === null || coverage >= 0.5)
+        ? 'strong'
+        : 'adequate';
+
+  return { strength, wordCount: spoken.length, coverage, mentioned, missing };
+};
+
+export const countFollowUps = (plan: InterviewPlanQuestion[]) =>
+  plan.filter(item => item.source === 'follow_up').length;
+
+// Follow-ups are only asked on planned questions, and only after a clearly weak
+// or clearly strong answer
+export const shouldFollowUp = (plan: InterviewPlanQuestion[], index: number, assessment: AnswerAssessment) =>
+  plan[index]?.source !== 'follow_up' &&
+  countFollowUps(plan) < MAX_FOLLOW_UPS &&
+  assessment.strength !== 'adequate';
+
+// Template follow-up used when the generator service is unavailable. Weak
+// answers get an easier, more concrete probe; strong ones get a harder one.
+export const buildOfflineFollowUp = (
+  question: InterviewPlanQuestion,
+  index: number,
+  assessment: AnswerAssessment
+): InterviewPlanQuestion => {
+  const current = question.difficulty || 'medium';
+  const topic = question.topic || assessment.mentioned[0] || 'that';
+
+  if (assessment.strength === 'weak') {
+    const hint = assessment.missing.slice(0, 3).join(', ');
+    return {
+      question: `Let's make that more concrete. Can you give a specific example involving ${topic}${hint ? `, touching on ${hint}` : ''}?`,
+      suggested_answer: question.suggested_answer,
+      topic: question.topic,
+      difficulty: shiftDifficulty(current, -1),
+      source: 'follow_up',
+      follow_up_of: index
+    };
+  }
+
+  const focus = assessment.mentioned.slice(0, 2).join(' and ') || topic;
+  return {
+    question: `You mentioned ${focus}. What breaks first as that approach grows, and how would you handle it?`,
+    suggested_answer: `Identify the limits of ${focus} such as scale, consistency, cost or maintainability, explain how you would detect them, and describe the changes you would make and their trade-offs.`,
+    topic: question.topic,
+    difficulty: shiftDifficulty(current, 1),
+    source: 'follow_up',
+    follow_up_of: index
+  };
+};
+
+const STAR_PROBES: Record<StarComponent, string> = {
+  situation: "Can you set the scene a bit more? Where were you working and what was going on at the time?",
+  task: "What exactly were you responsible for in that situation?",
+  action: "Walk me through the specific steps you personally took.",
+  result: "What was the outcome, and how did you measure it?"
+};
+
+// Behavioral follow-ups probe the first part of the STAR story the candidate
+// left out, the way an interviewer would
+export const buildStarFollowUp = (
+  question: InterviewPlanQuestion,
+  index: number,
+  missing: StarComponent[]
+): InterviewPlanQuestion => {
+  const component = STAR_COMPONENTS.find(item => missing.includes(item)) || 'result';
+
+  return {
+    question: STAR_PROBES[component],
+    suggested_answer: question.suggested_answer,
+    topic: question.topic,
+    difficulty: question.difficulty,
+    source: 'follow_up',
+    follow_up_of: index
+  };
+};
@@ -0,0 +1,580 @@
+import type { PersonalInfo, ProfileFormData, Skill } from '@/types/profile';
+import type { ExtractedResumeData } from '@/types/resume';
+
+export type MergeSection = 'personalInfo' | 'education' | 'experience' | 'projects' | 'skills' | 'certifications';
+
+export interface MergeChange {
+  id: string;
+  section: MergeSection;
+  // 'field' sets one field of the personal info or of an existing entry,
+  // 'entry' adds an extracted entry that isn't in the profile yet
+  kind: 'field' | 'entry';
+  key?: string;
+  label: string;
+  // Existing entry a field change belongs to, e.g. "Software Engineer · Acme"
+  entry?: string;
+  current: string;
+  extracted: string;
+  // 0-1, from the extraction's confidence and checks on the value itself
+  confidence: number;
+  // Replaces something the user already has rather than filling a gap
+  overwrites: boolean;
+  existingIndex?: number;
+  extractedIndex?: number;
+}
+
+export interface MergePlan {
+  confidence: number;
+  changes: MergeChange[];
+  // Extracted entries already in the profile with nothing new to add
+  duplicates: Array<{ section: MergeSection; label: string }>;
+}
+
+export interface MergeResult {
+  updates: Partial<ProfileFormData>;
+  // The same sections as they were before the merge, for the undo log
+  previous: Partial<ProfileFormData>;
+}
+
+export interface RevertResult {
+  updates: Partial<ProfileFormData>;
+  // Changes left in place because they were edited after the merge
+  kept: string[];
+}
+
+type EntrySection = Exclude<MergeSection, 'personalInfo'>;
+
+interface FieldSpec {
+  key: string;
+  label: string;
+  kind?: 'list' | 'url' | 'date';
+}
+
+type EntryRecord = Record<string, unknown>;
+
+interface SectionSpec {
+  fields: FieldSpec[];
+  // Fields an entry needs to be useful; missing ones lower its confidence
+  required: string[];
+  title: (entry: EntryRecord) => string;
+  // What a new entry adds beyond its title
+  detail: (entry: EntryRecord) => string;
+  isDuplicate: (existing: EntryRecord, extracted: EntryRecord) => boolean;
+}
+
+// Confidence below this, or a change that replaces an existing value, starts
+// out rejected so the user has to opt in
+const ACCEPT_BY_DEFAULT = 0.5;
+
+// Share of words two names need in common to be taken as the same
+const SAME_NAME = 0.6;
+
+const SKILL_LEVELS: Skill['level'][] = ['Beginner', 'Intermediate', 'Advanced', 'Expert'];
+const SKILL_CATEGORIES: Skill['category'][] = ['Technical', 'Soft', 'Language', 'Framework', 'Tool'];
+
+const PERSONAL_FIELDS: FieldSpec[] = [
+  { key: 'fullName', label: 'Full name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'location', label: 'Location' },
+  { key: 'linkedin', label: 'LinkedIn', kind: 'url' },
+  { key: 'github', label: 'GitHub', kind: 'url' },
+  { key: 'portfolio', label: 'Portfolio', kind: 'url' }
+];
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim());
+
+const list = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(text).filter(Boolean) : typeof value === 'string' ? value.split(',').map(text).filter(Boolean) : [];
+
+const normalizeName = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9+#\s]/g, ' ')
+    .replace(/\b(inc|llc|ltd|limited|corp|corporation|co|company|the|of|pvt|gmbh)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const sameName = (a: unknown, b: unknown) => {
+  const left = normalizeName(text(a));
+  const right = normalizeName(text(b));
+  if (!left || !right) return false;
+  if (left === right) return true;
+  if (Math.min(left.length, right.length) >= 4 && (left.includes(right) || right.includes(left))) return true;
+
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = Array.from(leftWords).filter(word => rightWords.has(word)).length;
+  return shared / new Set([...leftWords, ...rightWords]).size >= SAME_NAME;
+};
+
+const yearOf = (value: unknown) => text(value).match(/\b(19|20)\d{2}\b/)?.[0] || '';
+
+const sameYear = (a: unknown, b: unknown) => !!yearOf(a) && yearOf(a) === yearOf(b);
+
+const joined = (...parts: unknown[]) => parts.map(part => (Array.isArray(part) ? part.join(', ') : text(part))).filter(Boolean).join(' · ');
+
+const range = (start: unknown, end: unknown, current?: unknown) =>
+  text(start) || text(end) ? `${text(start) || '?'} – ${current ? 'Present' : text(end) || 'Present'}` : '';
+
+const EXPERIENCE: SectionSpec = {
+  fields: [
+    { key: 'position', label: 'Position' },
+    { key: 'company', label: 'Company' },
+    { key: 'location', label: 'Location' },
+    { key: 'startDate', label: 'Start date', kind: 'date' },
+    { key: 'endDate', label: 'End date', kind: 'date' },
+    { key: 'description', label: 'Description' },
+    { key: 'technologies', label: 'Technologies', kind: 'list' }
+  ],
+  required: ['company', 'position', 'startDate'],
+  title: exp => joined(exp.position, exp.company),
+  detail: exp => joined(range(exp.startDate, exp.endDate, exp.current), exp.location, exp.technologies),
+  isDuplicate: (existing, extracted) =>
+    sameName(existing.company, extracted.company) &&
+    (sameName(existing.position, extracted.position) || sameYear(existing.startDate, extracted.startDate))
+};
+
+const EDUCATION: SectionSpec = {
+  fields: [
+    { key: 'institution', label: 'Institution' },
+    { key: 'degree', label: 'Degree' },
+    { key: 'field', label: 'Field of study' },
+    { key: 'startYear', label: 'Start year', kind: 'date' },
+    { key: 'endYear', label: 'End year', kind: 'date' },
+    { key: 'grade', label: 'Grade' },
+    { key: 'description', label: 'Description' }
+  ],
+  required: ['institution', 'degree'],
+  title: edu => joined(edu.degree, edu.institution),
+  detail: edu => joined(edu.field, range(edu.startYear, edu.endYear), edu.grade),
+  isDuplicate: (existing, extracted) =>
+    sameName(existing.institution, extracted.institution) &&
+    (sameName(existing.degree, extracted.degree) ||
+      sameName(existing.field, extracted.field) ||
+      sameYear(existing.endYear, extracted.endYear))
+};
+
+const PROJECTS: SectionSpec = {
+  fields: [
+    { key: 'title', label: 'Title' },
+    { key: 'description', label: 'Description' },
+    { key: 'startDate', label: 'Start date', kind: 'date' },
+    { key: 'endDate', label: 'End date', kind: 'date' },
+    { key: 'githubUrl', label: 'GitHub URL', kind: 'url' },
+    { key: 'liveUrl', label: 'Live URL', kind: 'url' },
+    { key: 'technologies', label: 'Technologies', kind: 'list' },
+    { key: 'highlights', label: 'Highlights', kind: 'list' }
+  ],
+  required: ['title', 'description'],
+  title: proj => text(proj.title),
+  detail: proj => joined(proj.description, proj.technologies),
+  isDuplicate: (existing, extracted) => sameName(existing.title, extracted.title)
+};
+
+const CERTIFICATIONS: SectionSpec = {
+  fields: [
+    { key: 'name', label: 'Name' },
+    { key: 'issuer', label: 'Issuer' },
+    { key: 'issueDate', label: 'Issue date', kind: 'date' },
+    { key: 'expiryDate', label: 'Expiry date', kind: 'date' },
+    { key: 'credentialId', label: 'Credential ID' },
+    { key: 'credentialUrl', label: 'Credential URL', kind: 'url' }
+  ],
+  required: ['name', 'issuer'],
+  title: cert => joined(cert.name, cert.issuer),
+  detail: cert => joined(cert.issueDate, cert.credentialId),
+  isDuplicate: (existing, extracted) =>
+    sameName(existing.name, extracted.name) &&
+    (!existing.issuer || !extracted.issuer || sameName(existing.issuer, extracted.issuer))
+};
+
+const SKILLS: SectionSpec = {
+  fields: [
+    { key: 'level', label: 'Level' },
+    { key: 'category', label: 'Category' }
+  ],
+  required: ['name'],
+  title: skill => text(skill.name),
+  detail: skill => joined(skill.level || 'Intermediate', skill.category || 'Technical'),
+  isDuplicate: (existing, extracted) => normalizeName(text(existing.name)) === normalizeName(text(extracted.name))
+};
+
+const SPECS: Record<EntrySection, SectionSpec> = {
+  experience: EXPERIENCE,
+  education: EDUCATION,
+  projects: PROJECTS,
+  certifications: CERTIFICATIONS,
+  skills: SKILLS
+};
+
+const ENTRY_SECTIONS: EntrySection[] = ['experience', 'education', 'projects', 'skills', 'certifications'];
+
+// The extractor's output is loosely typed, so entries are coerced into the
+// profile's shapes before they are compared
+const asRecord = (raw: unknown): EntryRecord => (raw && typeof raw === 'object' ? (raw as EntryRecord) : {});
+
+const toExperience = (raw: unknown, index: number): EntryRecord => {
+  const entry = asRecord(raw);
+  return {
+    id: text(entry.id) || `extracted-experience-${index}`,
+    company: text(entry.company),
+    position: text(entry.position || entry.title),
+    startDate: text(entry.startDate),
+    endDate: text(entry.endDate),
+    current: !!entry.current,
+    description: text(entry.description),
+    technologies: list(entry.technologies),
+    location: text(entry.location)
+  };
+};
+
+const toEducation = (raw: unknown, index: number): EntryRecord => {
+  const entry = asRecord(raw);
+  return {
+    id: text(entry.id) || `extracted-education-${index}`,
+    institution: text(entry.institution),
+    degree: text(entry.degree),
+    field: text(entry.field),
+    startYear: text(entry.startYear),
+    endYear: text(entry.endYear),
+    grade: text(entry.grade),
+    description: text(entry.description)
+  };
+};
+
+const toProject = (raw: unknown, index: number): EntryRecord => {
+  const entry = asRecord(raw);
+  return {
+    id: text(entry.id) || `extracted-project-${index}`,
+    title: text(entry.title || entry.name),
+    description: text(entry.description),
+    technologies: list(entry.technologies),
+    startDate: text(entry.startDate),
+    endDate: text(entry.endDate),
+    githubUrl: text(entry.githubUrl),
+    liveUrl: text(entry.liveUrl),
+    highlights: list(entry.highlights)
+  };
+};
+
+const toCertification = (raw: unknown, index: number): EntryRecord => {
+  const entry = asRecord(raw);
+  return {
+    id: text(entry.id) || `extracted-certification-${index}`,
+    name: text(entry.name),
+    issuer: text(entry.issuer),
+    issueDate: text(entry.issueDate),
+    expiryDate: text(entry.expiryDate),
+    credentialId: text(entry.credentialId),
+    credentialUrl: text(entry.credentialUrl)
+  };
+};
+
+// Skills sometimes come back as plain names. A level or category the profile
+// doesn't know is left out so it isn't offered as a change to an existing skill.
+const toSkill = (raw: unknown): EntryRecord => {
+  const entry = asRecord(raw);
+  return {
+    name: typeof raw === 'string' ? text(raw) : text(entry.name),
+    level: SKILL_LEVELS.find(level => level === entry.level) || '',
+    category: SKILL_CATEGORIES.find(category => category === entry.category) || ''
+  };
+};
+
+const newSkill = (entry: EntryRecord): EntryRecord => ({
+  name: text(entry.name),
+  level: SKILL_LEVELS.find(level => level === entry.level) || 'Intermediate',
+  category: SKILL_CATEGORIES.find(category => category === entry.category) || 'Technical'
+});
+
+const extractedEntries = (data: ExtractedResumeData): Record<EntrySection, EntryRecord[]> => ({
+  experience: (data.experience || []).map(toExperience),
+  education: (data.education || []).map(toEducation),
+  projects: (data.projects || []).map(toProject),
+  skills: ((data.skills || []) as unknown[]).map(toSkill).filter(skill => skill.name),
+  certifications: (data.certifications || []).map(toCertification)
+});
+
+const profileEntries = (profile: ProfileFormData, section: EntrySection) =>
+  profile[section] as unknown as EntryRecord[];
+
+// Extraction services report 0-100 or 0-1
+export const normalizeConfidence = (score: number | null | undefined) => {
+  if (typeof score !== 'number' || Number.isNaN(score)) return 0;
+  return Math.min(Math.max(score > 1 ? score / 100 : score, 0), 1);
+};
+
+// Completeness of the extraction, the way the profile service scores it, for
+// results that arrive without a confidence score
+export const extractionConfidence = (data: ExtractedResumeData) => {
+  const personal = data.personalInfo || {};
+  const filled = [personal.fullName, personal.email, personal.phone, personal.location].filter(value => text(value)).length
+    + ENTRY_SECTIONS.filter(section => (data[section] || []).length > 0).length;
+  return filled / 9;
+};
+
+const looksValid = (key: string, kind: FieldSpec['kind'], value: string) => {
+  if (key === 'email') return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+  if (key === 'phone') return (value.match(/\d/g) || []).length >= 7;
+  if (kind === 'url') return /^(https?:\/\/)?[\w-]+(\.[\w-]+)+(\/\S*)?$/i.test(value);
+  if (kind === 'date') return !!yearOf(value) || /present|current/i.test(value);
+  return true;
+};
+
+// Values that fail a basic format check are more likely extraction mistakes
+const fieldConfidence = (base: number, spec: FieldSpec, value: string) =>
+  looksValid(spec.key, spec.kind, value) ? base : base / 2;
+
+const entryConfidence = (base: number, spec: SectionSpec, entry: EntryRecord) => {
+  const present = spec.required.filter(key => text(entry[key])).length;
+  return base * (0.5 + (0.5 * present) / spec.required.length);
+};
+
+const display = (value: unknown) => (Array.isArray(value) ? value.join(', ') : text(value));
+
+// List fields are merged rather than replaced, so they only add items
+const mergedList = (current: string[], extracted: string[]) => {
+  const seen = new Set(current.map(item => item.toLowerCase()));
+  return [...current, ...extracted.filter(item => !seen.has(item.toLowerCase()))];
+};
+
+const proposedValue = (spec: FieldSpec, current: unknown, extracted: unknown) =>
+  spec.kind === 'list' ? mergedList(list(current), list(extracted)) : extracted;
+
+// Differences in formatting alone, like "Acme Inc." and "ACME" or "2020-01"
+// and "Jan 2020", aren't worth asking about
+const sameValue = (spec: FieldSpec, current: string, extracted: string) => {
+  if (spec.kind === 'date' && current && sameYear(current, extracted)) return true;
+  return current.toLowerCase() === extracted.toLowerCase() || (!!current && normalizeName(current) === normalizeName(extracted));
+};
+
+export const buildMergePlan = (
+  profile: ProfileFormData,
+  data: ExtractedResumeData,
+  confidenceScore?: number | null
+): MergePlan => {
+  const confidence = confidenceScore == null ? extractionConfidence(data) : normalizeConfidence(confidenceScore);
+  const changes: MergeChange[] = [];
+  const duplicates: MergePlan['duplicates'] = [];
+
+  const personal = data.personalInfo || {};
+  PERSONAL_FIELDS.forEach(spec => {
+    const extracted = text(personal[spec.key as keyof typeof personal]);
+    const current = text(profile.personalInfo[spec.key as keyof PersonalInfo]);
+    if (!extracted || extracted.toLowerCase() === current.toLowerCase()) return;
+
+    changes.push({
+      id: `personalInfo:${spec.key}`,
+      section: 'personalInfo',
+      kind: 'field',
+      key: spec.key,
+      label: spec.label,
+      current,
+      extracted,
+      confidence: fieldConfidence(confidence, spec, extracted),
+      overwrites: !!current
+    });
+  });
+
+  const entries = extractedEntries(data);
+  ENTRY_SECTIONS.forEach(section => {
+    const spec = SPECS[section];
+    const existing = profileEntries(profile, section);
+    const matched = new Set<number>();
+
+    entries[section].forEach((entry, extractedIndex) => {
+      // Prefer an entry no earlier extracted entry was matched to
+      const candidates = existing
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => spec.isDuplicate(item, entry));
+      const match = candidates.find(({ index }) => !matched.has(index)) || candidates[0];
+
+      if (!match) {
+        changes.push({
+          id: `${section}:new:${extractedIndex}`,
+          section,
+          kind: 'entry',
+          label: spec.title(entry) || 'Untitled entry',
+          current: '',
+          extracted: spec.detail(entry),
+          confidence: entryConfidence(confidence, spec, entry),
+          overwrites: false,
+          extractedIndex
+        });
+        return;
+      }
+
+      matched.add(match.index);
+      const fieldChanges = spec.fields.flatMap(field => {
+        const current = display(match.item[field.key]);
+        const extracted = display(proposedValue(field, match.item[field.key], entry[field.key]));
+        if (!display(entry[field.key]) || sameValue(field, current, extracted)) return [];
+
+        return [{
+          id: `${section}:${match.index}:${field.key}:${extractedIndex}`,
+          section,
+          kind: 'field' as const,
+          key: field.key,
+          label: field.label,
+          entry: spec.title(match.item),
+          current,
+          extracted,
+          confidence: fieldConfidence(confidence, field, display(entry[field.key])),
+          overwrites: !!current && field.kind !== 'list',
+          existingIndex: match.index,
+          extractedIndex
+        }];
+      });
+
+      if (fieldChanges.length === 0) {
+        duplicates.push({ section, label: spec.title(entry) });
+      }
+      changes.push(...fieldChanges);
+    });
+  });
+
+  return { confidence, changes, duplicates };
+};
+
+// Fills gaps the extraction is reasonably sure about; anything that would
+// replace the user's own data waits for them to accept it
+export const defaultDecisions = (plan: MergePlan) =>
+  new Set(plan.changes.filter(change => !change.overwrites && change.confidence >= ACCEPT_BY_DEFAULT).map(change => change.id));
+
+export const applyMergePlan = (
+  profile: ProfileFormData,
+  data: ExtractedResumeData,
+  plan: MergePlan,
+  accepted: Set<string>
+): MergeResult => {
+  const entries = extractedEntries(data);
+  let personalInfo: PersonalInfo | null = null;
+  const sections = new Map<EntrySection, EntryRecord[]>();
+
+  plan.changes
+    .filter(change => accepted.has(change.id))
+    .forEach(change => {
+      if (change.section === 'personalInfo') {
+        personalInfo = { ...(personalInfo || profile.personalInfo), [change.key]: change.extracted };
+        return;
+      }
+
+      const section = change.section;
+      const target = sections.get(section) || profileEntries(profile, section).map(item => ({ ...item }));
+      sections.set(section, target);
+      const entry = entries[section][change.extractedIndex];
+
+      if (change.kind === 'entry') {
+        target.push(section === 'skills' ? newSkill(entry) : entry);
+        return;
+      }
+
+      const field = SPECS[section].fields.find(item => item.key === change.key);
+      const existing = target[change.existingIndex];
+      if (field && existing) {
+        existing[field.key] = proposedValue(field, existing[field.key], entry[field.key]);
+      }
+    });
+
+  const updates: Partial<ProfileFormData> = {};
+  const previous: Partial<ProfileFormData> = {};
+  if (personalInfo) {
+    updates.personalInfo = personalInfo;
+    previous.personalInfo = profile.personalInfo;
+  }
+  sections.forEach((target, section) => {
+    Object.assign(updates, { [section]: target });
+    Object.assign(previous, { [section]: profile[section] });
+  });
+
+  return { updates, previous };
+};
+
+// Education, skills and certifications get new ids whenever the profile is
+// saved, so entries are matched on content; empty values are skipped as
+// saving turns undefined into ''
+const entryKey = (entry: EntryRecord) =>
+  JSON.stringify(
+    Object.keys(entry)
+      .filter(key => key !== 'id' && entry[key] !== false && display(entry[key]))
+      .sort()
+      .map(key => [key, display(entry[key])])
+  );
+
+// Undoes a merge against the profile as it is now. Only the fields and
+// entries the merge changed are reverted, and only where they still hold the
+// merged value; anything edited since is kept and reported back.
+export const revertMerge = (
+  profile: ProfileFormData,
+  previous: Partial<ProfileFormData>,
+  applied: Partial<ProfileFormData>
+): RevertResult => {
+  const updates: Partial<ProfileFormData> = {};
+  const kept: string[] = [];
+
+  if (previous.personalInfo && applied.personalInfo) {
+    const personalInfo = { ...profile.personalInfo };
+    let changed = false;
+    PERSONAL_FIELDS.forEach(spec => {
+      const key = spec.key as keyof PersonalInfo;
+      const before = text(previous.personalInfo[key]);
+      const after = text(applied.personalInfo[key]);
+      if (before === after) return;
+
+      if (text(profile.personalInfo[key]) === after) {
+        personalInfo[key] = before;
+        changed = true;
+      } else {
+        kept.push(spec.label);
+      }
+    });
+    if (changed) updates.personalInfo = personalInfo;
+  }
+
+  ENTRY_SECTIONS.forEach(section => {
+    const before = previous[section] as unknown as EntryRecord[] | undefined;
+    const after = applied[section] as unknown as EntryRecord[] | undefined;
+    if (!before || !after) return;
+
+    // applyMergePlan edits entries in place and appends new ones, so an
+    // applied entry replaced the previous entry at the same index, if any
+    const reverts = new Map<string, Array<EntryRecord | null>>();
+    after.forEach((entry, index) => {
+      const original = before[index] || null;
+      if (original && entryKey(original) === entryKey(entry)) return;
+      const key = entryKey(entry);
+      reverts.set(key, [...(reverts.get(key) || []), original]);
+    });
+    if (reverts.size === 0) return;
+
+    // More copies than the merge wrote means some were added by hand since;
+    // they can't be told apart, so all of them are kept
+    const entries = profileEntries(profile, section);
+    const ambiguous = new Set(
+      Array.from(reverts)
+        .filter(([key, pending]) => entries.filter(entry => entryKey(entry) === key).length > pending.length)
+        .map(([key]) => key)
+    );
+
+    let changed = false;
+    const target = entries.flatMap(entry => {
+      const pending = reverts.get(entryKey(entry));
+      if (!pending?.length || ambiguous.has(entryKey(entry))) return [entry];
+      changed = true;
+      const original = pending.shift();
+      return original ? [original] : [];
+    });
+
+    reverts.forEach((pending, key) =>
+      pending.forEach(() => {
+        const entry = after.find(item => entryKey(item) === key);
+        kept.push(SPECS[section].title(entry) || 'Untitled entry');
+      })
+    );
+    if (changed) Object.assign(updates, { [section]: target });
+  });
+
+  return { updates, kept };
+};
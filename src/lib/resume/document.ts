@@ -0,0 +1,149 @@
+import { Skill, UserProfile } from '@/types/profile';
+import { ResumeDocument, ResumeEntry, ResumeLayout, ResumeLink, ResumeSection, ResumeSectionId } from './types';
+
+export type ResumeSource = Pick<
+  UserProfile,
+  'personalInfo' | 'education' | 'experience' | 'projects' | 'skills' | 'certifications' | 'summary'
+>;
+
+export const RESUME_SECTIONS: Array<{ id: ResumeSectionId; title: string }> = [
+  { id: 'summary', title: 'Summary' },
+  { id: 'experience', title: 'Experience' },
+  { id: 'projects', title: 'Projects' },
+  { id: 'education', title: 'Education' },
+  { id: 'skills', title: 'Skills' },
+  { id: 'certifications', title: 'Certifications' },
+];
+
+export const DEFAULT_RESUME_LAYOUT: ResumeLayout = {
+  template: 'classic',
+  sectionOrder: RESUME_SECTIONS.map(section => section.id),
+  hiddenSections: [],
+  hiddenEntries: [],
+  onePage: false,
+};
+
+const SKILL_GROUPS: Array<{ category: Skill['category']; title: string }> = [
+  { category: 'Technical', title: 'Technical' },
+  { category: 'Framework', title: 'Frameworks' },
+  { category: 'Tool', title: 'Tools' },
+  { category: 'Language', title: 'Languages' },
+  { category: 'Soft', title: 'Soft Skills' },
+];
+
+const dateRange = (start?: string, end?: string, current = false) => {
+  const to = current ? 'Present' : end;
+  if (start && to) return `${start} – ${to}`;
+  return start || to || undefined;
+};
+
+// Multi-line descriptions become bullets; a single paragraph stays as text
+export const splitDescription = (text?: string): Pick<ResumeEntry, 'text' | 'bullets'> => {
+  const lines = (text || '')
+    .split('\n')
+    .map(line => line.replace(/^\s*([-*•]|\d+[.)])\s+/, '').trim())
+    .filter(Boolean);
+  return lines.length > 1 ? { bullets: lines } : { text: lines[0], bullets: [] };
+};
+
+const technologies = (items: string[]) => (items.length > 0 ? `Technologies: ${items.join(', ')}` : undefined);
+
+const displayUrl = (url: string) => url.replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '');
+
+const buildEntries = (source: ResumeSource, id: ResumeSectionId): ResumeEntry[] => {
+  switch (id) {
+    case 'summary':
+      return source.summary?.trim() ? [{ id: 'summary', title: '', text: source.summary.trim(), bullets: [] }] : [];
+    case 'experience':
+      return source.experience.map(exp => ({
+        id: exp.id,
+        title: exp.position,
+        subtitle: exp.company,
+        date: dateRange(exp.startDate, exp.endDate, exp.current),
+        location: exp.location,
+        ...splitDescription(exp.description),
+        meta: technologies(exp.technologies),
+      }));
+    case 'projects':
+      return source.projects.map(project => {
+        const description = splitDescription(project.description);
+        const url = project.liveUrl || project.githubUrl;
+        return {
+          id: project.id,
+          title: project.title,
+          date: dateRange(project.startDate, project.endDate),
+          text: description.text,
+          bullets: [...description.bullets, ...project.highlights.filter(Boolean)],
+          meta: technologies(project.technologies),
+          link: url ? { label: displayUrl(url), url } : undefined,
+        };
+      });
+    case 'education':
+      return source.education.map(edu => ({
+        id: edu.id,
+        title: [edu.degree, edu.field].filter(Boolean).join(' in '),
+        subtitle: edu.institution,
+        date: dateRange(edu.startYear, edu.endYear),
+        ...splitDescription(edu.description),
+        meta: edu.grade ? `Grade: ${edu.grade}` : undefined,
+      }));
+    case 'skills':
+      return SKILL_GROUPS
+        .map(group => ({ ...group, names: source.skills.filter(skill => skill.category === group.category).map(skill => skill.name) }))
+        .filter(group => group.names.length > 0)
+        .map(group => ({
+          id: `skills-${group.category.toLowerCase()}`,
+          title: group.title,
+          text: group.names.join(', '),
+          bullets: [],
+        }));
+    case 'certifications':
+      return source.certifications.map(cert => ({
+        id: cert.id,
+        title: cert.name,
+        subtitle: cert.issuer,
+        date: cert.expiryDate ? `${cert.issueDate} – ${cert.expiryDate}` : cert.issueDate,
+        bullets: [],
+        meta: cert.credentialId ? `Credential ID: ${cert.credentialId}` : undefined,
+        link: cert.credentialUrl ? { label: displayUrl(cert.credentialUrl), url: cert.credentialUrl } : undefined,
+      }));
+  }
+};
+
+// Every entry a section can show, before the layout hides any of them
+export const getSectionEntries = (source: ResumeSource, id: ResumeSectionId) => buildEntries(source, id);
+
+export const buildResumeDocument = (source: ResumeSource, layout: ResumeLayout): ResumeDocument => {
+  const { personalInfo } = source;
+  const links: ResumeLink[] = [
+    personalInfo.linkedin && { label: displayUrl(personalInfo.linkedin), url: personalInfo.linkedin },
+    personalInfo.github && { label: displayUrl(personalInfo.github), url: personalInfo.github },
+    personalInfo.portfolio && { label: displayUrl(personalInfo.portfolio), url: personalInfo.portfolio },
+  ].filter(Boolean) as ResumeLink[];
+
+  const sections: ResumeSection[] = layout.sectionOrder
+    .filter(id => !layout.hiddenSections.includes(id))
+    .map(id => ({
+      id,
+      title: RESUME_SECTIONS.find(section => section.id === id)?.title || id,
+      entries: buildEntries(source, id)
+        .filter(entry => !layout.hiddenEntries.includes(entry.id))
+        .map(entry => {
+          const bullets = layout.entryBullets?.[entry.id];
+          return bullets ? { ...entry, text: undefined, bullets } : entry;
+        }),
+    }))
+    .filter(section => section.entries.length > 0);
+
+  return {
+    name: personalInfo.fullName || 'Your Name',
+    contact: [personalInfo.email, personalInfo.phone, personalInfo.location].filter(Boolean),
+    links,
+    sections,
+  };
+};
+
+const fileNamePart = (text: string) => text.trim().replace(/[^\w-]+/g, '_');
+
+export const resumeFileName = (document: ResumeDocument, extension: 'pdf' | 'docx', label?: string) =>
+  [fileNamePart(document.name) || 'resume', label && fileNamePart(label), 'Resume'].filter(Boolean).join('_') + `.${extension}`;
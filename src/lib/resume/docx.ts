@@ -0,0 +1,149 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  IParagraphOptions,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  TabStopType,
+  TextRun,
+} from 'docx';
+import { ResumeDocument, ResumeEntry, ResumeTemplate } from './types';
+
+// A4 in twentieths of a point, matching the PDF export
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const VERTICAL_MARGIN = 960;
+
+const FONTS: Record<ResumeTemplate['font'], string> = {
+  helvetica: 'Arial',
+  times: 'Times New Roman',
+};
+
+const toHex = ([r, g, b]: [number, number, number]) =>
+  [r, g, b].map(value => value.toString(16).padStart(2, '0')).join('');
+
+// docx sizes text in half points and spacing in twentieths of a point
+const halfPoints = (points: number, scale: number) => Math.round(points * scale * 2);
+const twips = (points: number, scale: number) => Math.round(points * scale * 20);
+
+const buildParagraphs = (document: ResumeDocument, template: ResumeTemplate, scale: number): Paragraph[] => {
+  const font = FONTS[template.font];
+  const accent = toHex(template.accent);
+  const body = halfPoints(template.bodySize, scale);
+  const rightTab = PAGE_WIDTH - twips(template.margin, 1) * 2;
+  const alignment = template.align === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT;
+
+  const run = (text: string, options: { bold?: boolean; italics?: boolean; size?: number; color?: string } = {}) =>
+    new TextRun({ text, font, size: options.size ?? body, bold: options.bold, italics: options.italics, color: options.color });
+
+  const link = (label: string, url: string) =>
+    new ExternalHyperlink({ link: url, children: [new TextRun({ text: label, font, size: body, style: 'Hyperlink' })] });
+
+  // Left text with an optional note pushed to the right margin by a tab
+  const splitRow = (left: TextRun, right?: string): IParagraphOptions => ({
+    tabStops: [{ type: TabStopType.RIGHT, position: rightTab }],
+    children: right ? [left, run(`\t${right}`)] : [left],
+  });
+
+  const entryParagraphs = (entry: ResumeEntry, inline: boolean): Paragraph[] => {
+    if (inline) {
+      return [new Paragraph({
+        spacing: { after: twips(2, scale) },
+        children: [run(`${entry.title}: `, { bold: true }), run(entry.text || '')],
+      })];
+    }
+
+    const options: IParagraphOptions[] = [];
+    if (entry.title) {
+      options.push(splitRow(run(entry.title, { bold: true }), entry.date));
+    }
+    if (entry.subtitle || entry.location) {
+      options.push(splitRow(run(entry.subtitle || '', { italics: true }), entry.location));
+    }
+    if (entry.text) {
+      options.push({ children: [run(entry.text)] });
+    }
+    for (const bullet of entry.bullets) {
+      options.push({ bullet: { level: 0 }, children: [run(bullet)] });
+    }
+    if (entry.meta || entry.link) {
+      const children: ParagraphChild[] = [];
+      if (entry.meta) children.push(run(entry.meta, { italics: true, color: '464646' }));
+      if (entry.meta && entry.link) children.push(run('  |  ', { italics: true, color: '464646' }));
+      if (entry.link) children.push(link(entry.link.label, entry.link.url));
+      options.push({ children });
+    }
+
+    // Space between entries goes after the entry's last paragraph
+    return options.map((paragraph, i) =>
+      new Paragraph(i === options.length - 1 ? { ...paragraph, spacing: { after: twips(5, scale) } } : paragraph)
+    );
+  };
+
+  const header: Paragraph[] = [
+    new Paragraph({
+      alignment,
+      spacing: { after: twips(2, scale) },
+      children: [run(document.name, { bold: true, size: halfPoints(template.nameSize, scale), color: accent })],
+    }),
+  ];
+
+  if (document.contact.length > 0) {
+    header.push(new Paragraph({ alignment, children: [run(document.contact.join('  |  '))] }));
+  }
+
+  if (document.links.length > 0) {
+    const children: ParagraphChild[] = [];
+    document.links.forEach((item, i) => {
+      if (i > 0) children.push(run('  |  '));
+      children.push(link(item.label, item.url));
+    });
+    header.push(new Paragraph({ alignment, children }));
+  }
+
+  const sections = document.sections.flatMap(section => [
+    new Paragraph({
+      keepNext: true,
+      spacing: { before: twips(10, scale), after: twips(4, scale) },
+      border: template.headingRule
+        ? { bottom: { style: BorderStyle.SINGLE, size: 6, color: accent, space: 1 } }
+        : undefined,
+      children: [run(template.uppercaseHeadings ? section.title.toUpperCase() : section.title, {
+        bold: true,
+        size: halfPoints(template.headingSize, scale),
+        color: accent,
+      })],
+    }),
+    ...section.entries.flatMap(entry => entryParagraphs(entry, section.id === 'skills')),
+  ]);
+
+  return [...header, ...sections];
+};
+
+export const renderResumeDocx = async (document: ResumeDocument, template: ResumeTemplate, scale = 1): Promise<Blob> => {
+  const file = new Document({
+    title: `${document.name} - Resume`,
+    creator: document.name,
+    sections: [
+      {
+        properties: {
+          page: {
+            size: { width: PAGE_WIDTH, height: PAGE_HEIGHT },
+            margin: {
+              top: VERTICAL_MARGIN,
+              bottom: VERTICAL_MARGIN,
+              left: twips(template.margin, 1),
+              right: twips(template.margin, 1),
+            },
+          },
+        },
+        children: buildParagraphs(document, template, scale),
+      },
+    ],
+  });
+
+  return Packer.toBlob(file);
+};
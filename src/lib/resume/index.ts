@@ -0,0 +1,22 @@
+export * from './types';
+export { RESUME_TEMPLATES, getResumeTemplate } from './templates';
+export {
+  RESUME_SECTIONS,
+  DEFAULT_RESUME_LAYOUT,
+  buildResumeDocument,
+  getSectionEntries,
+  resumeFileName,
+  splitDescription,
+} from './document';
+export type { ResumeSource } from './document';
+export { renderResumePdf, fitToOnePage } from './pdf';
+export type { RenderedPdf } from './pdf';
+export { renderResumeDocx } from './docx';
+export {
+  initialVariantBullets,
+  variantLayout,
+  containsKeyword,
+  keywordCoverage,
+  offlineBulletSuggestions,
+} from './variants';
+export type { VariantBullet, VariantBullets, BulletSuggestion } from './variants';
@@ -0,0 +1,269 @@
+import { jsPDF } from 'jspdf';
+import { ResumeDocument, ResumeEntry, ResumeTemplate } from './types';
+
+const PAGE_FORMAT = 'a4';
+const TOP_MARGIN = 48;
+const BOTTOM_MARGIN = 48;
+const LINE_HEIGHT = 1.25;
+const BULLET_INDENT = 12;
+
+// One-page mode shrinks type and spacing in these steps, but never below
+// MIN_SCALE; past that the resume is left to run onto a second page
+const MIN_SCALE = 0.7;
+const SCALE_STEP = 0.025;
+
+export interface RenderedPdf {
+  pdf: jsPDF;
+  pageCount: number;
+  scale: number;
+  fitsOnePage: boolean;
+}
+
+// Lays the resume out top to bottom. With `draw` off it only measures, so the
+// one-page fit can try several scales without producing pages.
+class PdfWriter {
+  y = TOP_MARGIN;
+  private readonly left: number;
+  private readonly right: number;
+  private readonly bottom: number;
+
+  constructor(
+    private pdf: jsPDF,
+    private template: ResumeTemplate,
+    private scale: number,
+    private draw: boolean
+  ) {
+    this.left = template.margin;
+    this.right = pdf.internal.pageSize.getWidth() - template.margin;
+    this.bottom = pdf.internal.pageSize.getHeight() - BOTTOM_MARGIN;
+  }
+
+  private get width() {
+    return this.right - this.left;
+  }
+
+  private size(points: number) {
+    return points * this.scale;
+  }
+
+  private setFont(style: 'normal' | 'bold' | 'italic', size: number, color: [number, number, number] = [0, 0, 0]) {
+    this.pdf.setFont(this.template.font, style);
+    this.pdf.setFontSize(this.size(size));
+    this.pdf.setTextColor(...color);
+  }
+
+  private lineHeight(size: number) {
+    return this.size(size) * LINE_HEIGHT;
+  }
+
+  // Moves to a new page when the next block would not fit on this one
+  private reserve(height: number) {
+    if (this.draw && this.y + height > this.bottom && this.y > TOP_MARGIN) {
+      this.pdf.addPage();
+      this.y = TOP_MARGIN;
+    }
+  }
+
+  private space(points: number) {
+    this.y += this.size(points);
+  }
+
+  private lines(text: string, width: number): string[] {
+    return this.pdf.splitTextToSize(text, width) as string[];
+  }
+
+  private writeLines(lines: string[], x: number, size: number, align: 'left' | 'center' = 'left') {
+    const height = this.lineHeight(size);
+    for (const line of lines) {
+      this.reserve(height);
+      if (this.draw) {
+        const lineX = align === 'center' ? (this.left + this.right) / 2 : x;
+        this.pdf.text(line, lineX, this.y + this.size(size), { align });
+      }
+      this.y += height;
+    }
+  }
+
+  header(document: ResumeDocument) {
+    const { template } = this;
+    const centered = template.align === 'center';
+
+    this.setFont('bold', template.nameSize, template.accent);
+    this.writeLines(this.lines(document.name, this.width), this.left, template.nameSize, template.align);
+    this.space(2);
+
+    this.setFont('normal', template.bodySize);
+    if (document.contact.length > 0) {
+      this.writeLines(this.lines(document.contact.join('  |  '), this.width), this.left, template.bodySize, template.align);
+    }
+
+    if (document.links.length > 0) {
+      const separator = '  |  ';
+      const text = document.links.map(link => link.label).join(separator);
+      if (this.pdf.getTextWidth(text) <= this.width) {
+        // Write each link separately so they stay clickable
+        const height = this.lineHeight(template.bodySize);
+        this.reserve(height);
+        if (this.draw) {
+          let x = centered ? (this.left + this.right - this.pdf.getTextWidth(text)) / 2 : this.left;
+          const baseline = this.y + this.size(template.bodySize);
+          document.links.forEach((link, i) => {
+            if (i > 0) {
+              this.pdf.text(separator, x, baseline);
+              x += this.pdf.getTextWidth(separator);
+            }
+            this.pdf.textWithLink(link.label, x, baseline, { url: link.url });
+            x += this.pdf.getTextWidth(link.label);
+          });
+        }
+        this.y += height;
+      } else {
+        this.writeLines(this.lines(text, this.width), this.left, template.bodySize, template.align);
+      }
+    }
+  }
+
+  sectionHeading(title: string) {
+    const { template } = this;
+    const text = template.uppercaseHeadings ? title.toUpperCase() : title;
+
+    this.space(10);
+    // Keep the heading with at least the first line of its section
+    this.reserve(this.lineHeight(template.headingSize) + this.lineHeight(template.bodySize) * 2);
+    this.setFont('bold', template.headingSize, template.accent);
+    this.writeLines([text], this.left, template.headingSize);
+
+    if (template.headingRule) {
+      if (this.draw) {
+        this.pdf.setDrawColor(...template.accent);
+        this.pdf.setLineWidth(0.6);
+        this.pdf.line(this.left, this.y, this.right, this.y);
+      }
+      this.space(4);
+    } else {
+      this.space(2);
+    }
+  }
+
+  // Bold text on the left with an optional right-aligned note (dates, places)
+  private splitRow(leftText: string, style: 'bold' | 'italic', rightText?: string) {
+    const { template } = this;
+    this.setFont('normal', template.bodySize);
+    const rightWidth = rightText ? this.pdf.getTextWidth(rightText) + this.size(8) : 0;
+
+    this.setFont(style, template.bodySize);
+    const leftLines = this.lines(leftText, this.width - rightWidth);
+    this.reserve(this.lineHeight(template.bodySize) * leftLines.length);
+    const top = this.y;
+
+    this.writeLines(leftLines, this.left, template.bodySize);
+
+    if (rightText && this.draw) {
+      this.setFont('normal', template.bodySize);
+      this.pdf.text(rightText, this.right, top + this.size(template.bodySize), { align: 'right' });
+    }
+  }
+
+  private labelled(label: string, text: string) {
+    const { template } = this;
+    const prefix = `${label}: `;
+    this.setFont('bold', template.bodySize);
+    const prefixWidth = this.pdf.getTextWidth(prefix);
+
+    this.setFont('normal', template.bodySize);
+    const first = this.lines(text, this.width - prefixWidth)[0] || '';
+    const rest = text.slice(first.length).trim();
+    const restLines = rest ? this.lines(rest, this.width) : [];
+
+    this.reserve(this.lineHeight(template.bodySize));
+    if (this.draw) {
+      const baseline = this.y + this.size(template.bodySize);
+      this.setFont('bold', template.bodySize);
+      this.pdf.text(prefix, this.left, baseline);
+      this.setFont('normal', template.bodySize);
+      this.pdf.text(first, this.left + prefixWidth, baseline);
+    }
+    this.y += this.lineHeight(template.bodySize);
+    this.writeLines(restLines, this.left, template.bodySize);
+  }
+
+  entry(entry: ResumeEntry, inline: boolean) {
+    const { template } = this;
+
+    if (inline) {
+      this.labelled(entry.title, entry.text || '');
+      this.space(2);
+      return;
+    }
+
+    if (entry.title) {
+      this.splitRow(entry.title, 'bold', entry.date);
+    }
+    if (entry.subtitle || entry.location) {
+      this.splitRow(entry.subtitle || '', 'italic', entry.location);
+    }
+
+    this.setFont('normal', template.bodySize);
+    if (entry.text) {
+      this.writeLines(this.lines(entry.text, this.width), this.left, template.bodySize);
+    }
+
+    for (const bullet of entry.bullets) {
+      const lines = this.lines(bullet, this.width - this.size(BULLET_INDENT));
+      this.reserve(this.lineHeight(template.bodySize));
+      if (this.draw) {
+        this.pdf.text('•', this.left + this.size(3), this.y + this.size(template.bodySize));
+      }
+      this.writeLines(lines, this.left + this.size(BULLET_INDENT), template.bodySize);
+    }
+
+    if (entry.meta || entry.link) {
+      this.setFont('italic', template.bodySize - 0.5, [70, 70, 70]);
+      const meta = [entry.meta, entry.link?.label].filter(Boolean).join('  |  ');
+      this.writeLines(this.lines(meta, this.width), this.left, template.bodySize - 0.5);
+    }
+
+    this.space(5);
+  }
+}
+
+const layout = (pdf: jsPDF, document: ResumeDocument, template: ResumeTemplate, scale: number, draw: boolean) => {
+  const writer = new PdfWriter(pdf, template, scale, draw);
+  writer.header(document);
+
+  for (const section of document.sections) {
+    writer.sectionHeading(section.title);
+    for (const entry of section.entries) {
+      writer.entry(entry, section.id === 'skills');
+    }
+  }
+
+  return writer.y;
+};
+
+const createPdf = () => new jsPDF({ unit: 'pt', format: PAGE_FORMAT });
+
+// Largest scale at which the resume fits on one page
+export const fitToOnePage = (document: ResumeDocument, template: ResumeTemplate) => {
+  const pdf = createPdf();
+  const bottom = pdf.internal.pageSize.getHeight() - BOTTOM_MARGIN;
+
+  for (let scale = 1; scale >= MIN_SCALE - 1e-9; scale -= SCALE_STEP) {
+    if (layout(pdf, document, template, scale, false) <= bottom) {
+      return { scale, fits: true };
+    }
+  }
+
+  return { scale: MIN_SCALE, fits: false };
+};
+
+export const renderResumePdf = (document: ResumeDocument, template: ResumeTemplate, onePage: boolean): RenderedPdf => {
+  const fit = onePage ? fitToOnePage(document, template) : { scale: 1, fits: true };
+  const pdf = createPdf();
+
+  pdf.setProperties({ title: `${document.name} - Resume`, author: document.name });
+  layout(pdf, document, template, fit.scale, true);
+
+  const pageCount = pdf.getNumberOfPages();
+  return { pdf, pageCount, scale: fit.scale, fitsOnePage: pageCount === 1 };
+};
@@ -0,0 +1,51 @@
+import { ResumeTemplate, ResumeTemplateId } from './types';
+
+// Single-column layouts with real text, standard headings and no tables or
+// graphics, so applicant tracking systems can parse every template
+export const RESUME_TEMPLATES: ResumeTemplate[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Serif type, centered header and ruled section headings',
+    font: 'times',
+    nameSize: 22,
+    headingSize: 12,
+    bodySize: 10.5,
+    align: 'center',
+    uppercaseHeadings: true,
+    headingRule: true,
+    accent: [0, 0, 0],
+    margin: 54,
+  },
+  {
+    id: 'modern',
+    name: 'Modern',
+    description: 'Sans-serif type with a left-aligned header and a dark blue accent',
+    font: 'helvetica',
+    nameSize: 24,
+    headingSize: 12,
+    bodySize: 10,
+    align: 'left',
+    uppercaseHeadings: false,
+    headingRule: true,
+    accent: [30, 64, 120],
+    margin: 50,
+  },
+  {
+    id: 'compact',
+    name: 'Compact',
+    description: 'Smaller type and tighter spacing for longer histories',
+    font: 'helvetica',
+    nameSize: 18,
+    headingSize: 10.5,
+    bodySize: 9,
+    align: 'left',
+    uppercaseHeadings: true,
+    headingRule: false,
+    accent: [0, 0, 0],
+    margin: 40,
+  },
+];
+
+export const getResumeTemplate = (id: ResumeTemplateId) =>
+  RESUME_TEMPLATES.find(template => template.id === id) || RESUME_TEMPLATES[0];
@@ -0,0 +1,66 @@
+export type ResumeSectionId = 'summary' | 'experience' | 'projects' | 'education' | 'skills' | 'certifications';
+
+export type ResumeTemplateId = 'classic' | 'modern' | 'compact';
+
+// User choices applied on top of the profile when rendering
+export interface ResumeLayout {
+  template: ResumeTemplateId;
+  sectionOrder: ResumeSectionId[];
+  hiddenSections: ResumeSectionId[];
+  // Ids of experience, project, education and certification entries to leave out
+  hiddenEntries: string[];
+  // Shrink type and spacing until the resume fits on one page
+  onePage: boolean;
+  // Bullets to show for an entry, in order, instead of its own description
+  entryBullets?: Record<string, string[]>;
+}
+
+export interface ResumeLink {
+  label: string;
+  url: string;
+}
+
+export interface ResumeEntry {
+  id: string;
+  title: string;
+  subtitle?: string;
+  date?: string;
+  location?: string;
+  text?: string;
+  bullets: string[];
+  // Short trailing line, e.g. the technologies used
+  meta?: string;
+  link?: ResumeLink;
+}
+
+export interface ResumeSection {
+  id: ResumeSectionId;
+  title: string;
+  entries: ResumeEntry[];
+}
+
+// Template-neutral resume content, rendered by both the PDF and DOCX writers
+export interface ResumeDocument {
+  name: string;
+  contact: string[];
+  links: ResumeLink[];
+  sections: ResumeSection[];
+}
+
+export interface ResumeTemplate {
+  id: ResumeTemplateId;
+  name: string;
+  description: string;
+  font: 'helvetica' | 'times';
+  // Font sizes in points before one-page scaling
+  nameSize: number;
+  headingSize: number;
+  bodySize: number;
+  align: 'left' | 'center';
+  uppercaseHeadings: boolean;
+  headingRule: boolean;
+  // RGB; kept dark so the resume prints well in black and white
+  accent: [number, number, number];
+  // Left and right page margins in points
+  margin: number;
+}
@@ -0,0 +1,76 @@
+import { ResumeSource, splitDescription } from './document';
+import { ResumeDocument, ResumeLayout } from './types';
+
+export interface VariantBullet {
+  text: string;
+  included: boolean;
+  // Added from a rewrite suggestion rather than taken from the profile
+  rewritten?: boolean;
+}
+
+// Experience entry id -> its bullets in the order the variant shows them
+export type VariantBullets = Record<string, VariantBullet[]>;
+
+export interface BulletSuggestion {
+  original: string;
+  rewritten: string;
+  keywords: string[];
+}
+
+export const initialVariantBullets = (source: ResumeSource): VariantBullets =>
+  Object.fromEntries(
+    source.experience.map(exp => {
+      const { text, bullets } = splitDescription(exp.description);
+      const items = bullets.length > 0 ? bullets : text ? [text] : [];
+      return [exp.id, items.map(item => ({ text: item, included: true }))];
+    })
+  );
+
+// Layout for rendering a variant: its own choices plus the selected bullets
+export const variantLayout = (layout: ResumeLayout, bullets: VariantBullets): ResumeLayout => ({
+  ...layout,
+  entryBullets: Object.fromEntries(
+    Object.entries(bullets).map(([id, items]) => [id, items.filter(item => item.included).map(item => item.text)])
+  ),
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive match that still works for "C++" or "Node.js"
+export const containsKeyword = (text: string, keyword: string) =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword.trim().toLowerCase())}($|[^a-z0-9])`).test(text.toLowerCase());
+
+const documentText = (document: ResumeDocument) =>
+  document.sections
+    .flatMap(section => section.entries)
+    .flatMap(entry => [entry.title, entry.subtitle, entry.text, entry.meta, ...entry.bullets])
+    .filter(Boolean)
+    .join('\n');
+
+// Which target keywords the rendered variant mentions; hidden entries don't count
+export const keywordCoverage = (document: ResumeDocument, keywords: string[]) => {
+  const text = documentText(document);
+  const found = keywords.filter(keyword => containsKeyword(text, keyword));
+  return { found, missing: keywords.filter(keyword => !found.includes(keyword)) };
+};
+
+// Used when the rewriter service is unavailable. Only keywords the profile
+// already backs up (an entry's technologies or a listed skill) are worked
+// in, so a suggestion never claims experience the profile doesn't show.
+export const offlineBulletSuggestions = (bullets: string[], keywords: string[], supported: string[]): BulletSuggestion[] => {
+  const backed = keywords.filter(keyword =>
+    supported.some(item => item.toLowerCase() === keyword.toLowerCase()) &&
+    !bullets.some(bullet => containsKeyword(bullet, keyword))
+  );
+
+  if (bullets.length === 0) return [];
+
+  return backed.map((keyword, i) => {
+    const original = bullets[i % bullets.length];
+    return {
+      original,
+      rewritten: `${original.replace(/[.;,\s]+$/, '')} using ${keyword}.`,
+      keywords: [keyword],
+    };
+  });
+};
@@ -0,0 +1,143 @@
+import { matchKeywords, stem, tokenize } from '@/lib/atsScoring';
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface RecommendationChanges {
+  // In the older version's recommendations but not the newer one's
+  resolved: string[];
+  remaining: string[];
+  // Only in the newer version's recommendations
+  introduced: string[];
+}
+
+export interface ScorePoint {
+  id: string;
+  date: string;
+  filename: string;
+  overall: number;
+  ats: number;
+  jobMatch: number;
+}
+
+interface ScoredAnalysis {
+  id: string;
+  created_at: string;
+  filename: string;
+  job_role: string;
+  overall_score: number;
+  ats_score: number;
+  job_match_score: number;
+}
+
+// The line diff is quadratic, so very long texts are cut to keep it quick
+const MAX_DIFF_LINES = 1500;
+
+// Recommendations are reworded between runs, so two that share this much of
+// their vocabulary are taken to be the same advice
+const SAME_RECOMMENDATION = 0.45;
+
+const normalizeLine = (line: string) => line.replace(/\s+/g, ' ').trim();
+
+const textLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map(normalizeLine)
+    .filter(Boolean)
+    .slice(0, MAX_DIFF_LINES);
+
+// Line diff from the longest common subsequence, as `diff` would show it
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = textLines(before);
+  const b = textLines(after);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+};
+
+const termSet = (text: string) => new Set(tokenize(text).filter(word => word.length > 2).map(stem));
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  const shared = Array.from(a).filter(term => b.has(term)).length;
+  const union = new Set([...a, ...b]).size;
+  return union > 0 ? shared / union : 0;
+};
+
+export const compareRecommendations = (before: string[], after: string[]): RecommendationChanges => {
+  const afterTerms = after.map(termSet);
+  const matched = new Set<number>();
+
+  const resolved: string[] = [];
+  const remaining: string[] = [];
+  before.forEach(recommendation => {
+    const terms = termSet(recommendation);
+    const index = afterTerms.findIndex((candidate, i) => !matched.has(i) && similarity(terms, candidate) >= SAME_RECOMMENDATION);
+    if (index === -1) {
+      resolved.push(recommendation);
+    } else {
+      matched.add(index);
+      remaining.push(recommendation);
+    }
+  });
+
+  return { resolved, remaining, introduced: after.filter((_, i) => !matched.has(i)) };
+};
+
+// Keywords the older analysis listed as missing that the newer text contains
+export const resolvedKeywords = (missingBefore: string[], afterText: string) =>
+  matchKeywords(afterText, missingBefore).found;
+
+const roleKey = (role: string) => role.trim().toLowerCase();
+
+// Score history per job role, oldest first. Roles are grouped case-insensitively
+// under the spelling used most recently.
+export const scoreTimelines = (analyses: ScoredAnalysis[]) => {
+  const timelines = new Map<string, { role: string; points: ScorePoint[] }>();
+
+  [...analyses]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(analysis => {
+      const key = roleKey(analysis.job_role);
+      const timeline = timelines.get(key) || { role: analysis.job_role, points: [] };
+      timeline.role = analysis.job_role;
+      timeline.points.push({
+        id: analysis.id,
+        date: analysis.created_at,
+        filename: analysis.filename,
+        overall: analysis.overall_score,
+        ats: analysis.ats_score,
+        jobMatch: analysis.job_match_score
+      });
+      timelines.set(key, timeline);
+    });
+
+  return Array.from(timelines.values());
+};
@@ -0,0 +1,106 @@
+// SM-2 style scheduler with Anki's four answer buttons. Intervals are whole
+// days except for "Again", which brings a card back within the same session.
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface CardSchedule {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+}
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const RELEARN_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const newCardSchedule = (now = new Date()): CardSchedule => ({
+  ease_factor: DEFAULT_EASE,
+  interval_days: 0,
+  repetitions: 0,
+  lapses: 0,
+  due_at: now.toISOString(),
+});
+
+export const scheduleReview = (card: CardSchedule, grade: ReviewGrade, now = new Date()): CardSchedule => {
+  const ease = Number(card.ease_factor) || DEFAULT_EASE;
+
+  if (grade === 'again') {
+    return {
+      ease_factor: Math.max(MIN_EASE, ease - 0.2),
+      interval_days: 0,
+      repetitions: 0,
+      lapses: card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+      due_at: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000).toISOString(),
+    };
+  }
+
+  let interval: number;
+  let nextEase = ease;
+
+  if (grade === 'hard') {
+    interval = card.repetitions === 0 ? 1 : Math.max(card.interval_days + 1, Math.round(card.interval_days * 1.2));
+    nextEase = Math.max(MIN_EASE, ease - 0.15);
+  } else if (grade === 'good') {
+    interval = card.repetitions === 0 ? 1 : card.repetitions === 1 ? 3 : Math.round(card.interval_days * ease);
+  } else {
+    interval = card.repetitions === 0 ? 4 : Math.round(card.interval_days * ease * 1.3);
+    nextEase = ease + 0.15;
+  }
+
+  // Never schedule a passing grade sooner than the previous interval
+  if (grade !== 'hard') {
+    interval = Math.max(interval, card.interval_days + 1);
+  }
+
+  return {
+    ease_factor: Math.round(nextEase * 100) / 100,
+    interval_days: interval,
+    repetitions: card.repetitions + 1,
+    lapses: card.lapses,
+    due_at: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+  };
+};
+
+export const formatInterval = (card: CardSchedule, grade: ReviewGrade, now = new Date()) => {
+  const next = scheduleReview(card, grade, now);
+  if (next.interval_days === 0) return `<${RELEARN_MINUTES}m`;
+  if (next.interval_days < 30) return `${next.interval_days}d`;
+  if (next.interval_days < 365) return `${Math.round(next.interval_days / 30)}mo`;
+  return `${(next.interval_days / 365).toFixed(1)}y`;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const endOfToday = (now = new Date()) => new Date(startOfDay(now).getTime() + DAY_MS - 1);
+
+// Number of reviews falling due on each of the next `days` days. Anything
+// already overdue is counted on day 0.
+export const forecastReviews = (dueDates: string[], days = 7, now = new Date()) => {
+  const today = startOfDay(now);
+  const buckets = Array.from({ length: days }, (_, index) => ({
+    date: new Date(today.getTime() + index * DAY_MS),
+    count: 0,
+  }));
+
+  dueDates.forEach(dueAt => {
+    const offset = Math.round((startOfDay(new Date(dueAt)).getTime() - today.getTime()) / DAY_MS);
+    const index = Math.max(0, offset);
+    if (index < days) {
+      buckets[index].count += 1;
+    }
+  });
+
+  return buckets;
+};
@@ -0,0 +1,114 @@
+import type { DesignComponentKind, SystemDesignPrompt } from '@/data/systemDesignPrompts';
+
+// Whiteboard drawn during a system design answer, stored in
+// interview_responses.design_diagram. Positions are kept so the review shows
+// the diagram exactly as it was drawn.
+export interface DesignNode {
+  id: string;
+  kind: DesignComponentKind;
+  label: string;
+  x: number;
+  y: number;
+}
+
+export interface DesignEdge {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
+}
+
+export interface DesignDiagram {
+  prompt_key: string;
+  nodes: DesignNode[];
+  edges: DesignEdge[];
+}
+
+export interface DesignComponentCheck {
+  id: string;
+  label: string;
+  optional: boolean;
+  // Diagram nodes that satisfy this rubric component
+  nodeIds: string[];
+}
+
+export interface DesignConnectionCheck {
+  from: string;
+  to: string;
+  matched: boolean;
+}
+
+export interface DesignEvaluation {
+  // 0-100
+  score: number;
+  components: DesignComponentCheck[];
+  connections: DesignConnectionCheck[];
+  // Labels of required components nobody drew
+  missing: string[];
+}
+
+// Required components carry most of the score; connections show the
+// candidate understands how requests flow between them
+const COMPONENT_WEIGHT = 0.7;
+const CONNECTION_WEIGHT = 0.3;
+const OPTIONAL_COMPONENT_VALUE = 0.5;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9/]+/g, ' ').trim();
+
+const mentions = (label: string, keyword: string) => {
+  const text = ` ${normalize(label)} `;
+  return text.includes(` ${normalize(keyword)} `) || text.includes(` ${normalize(keyword)}s `);
+};
+
+export const emptyDiagram = (promptKey: string): DesignDiagram => ({ prompt_key: promptKey, nodes: [], edges: [] });
+
+// Checks the diagram against the prompt's rubric. A node satisfies a component
+// by kind or by naming it, so a generic "Service" box counts once it is
+// labelled, and one node can cover several components ("Redis cache" is both
+// a cache and a counter store).
+export const evaluateDesign = (diagram: DesignDiagram, prompt: SystemDesignPrompt): DesignEvaluation => {
+  const components = prompt.components.map(component => ({
+    id: component.id,
+    label: component.label,
+    optional: Boolean(component.optional),
+    nodeIds: diagram.nodes
+      .filter(node =>
+        component.kinds.includes(node.kind) ||
+        component.keywords.some(keyword => mentions(node.label, keyword))
+      )
+      .map(node => node.id)
+  }));
+
+  const nodesFor = new Map(components.map(component => [component.id, new Set(component.nodeIds)]));
+  const connections = prompt.connections.map(([from, to]) => {
+    const fromNodes = nodesFor.get(from) || new Set<string>();
+    const toNodes = nodesFor.get(to) || new Set<string>();
+    const matched = diagram.edges.some(edge =>
+      (fromNodes.has(edge.source) && toNodes.has(edge.target)) ||
+      (fromNodes.has(edge.target) && toNodes.has(edge.source))
+    );
+    return { from, to, matched };
+  });
+
+  const componentTotal = components.reduce((sum, c) => sum + (c.optional ? OPTIONAL_COMPONENT_VALUE : 1), 0);
+  const componentEarned = components.reduce(
+    (sum, c) => sum + (c.nodeIds.length > 0 ? (c.optional ? OPTIONAL_COMPONENT_VALUE : 1) : 0),
+    0
+  );
+  const componentShare = componentTotal > 0 ? componentEarned / componentTotal : 0;
+  const connectionShare = connections.length > 0
+    ? connections.filter(connection => connection.matched).length / connections.length
+    : componentShare;
+
+  return {
+    score: Math.round((componentShare * COMPONENT_WEIGHT + connectionShare * CONNECTION_WEIGHT) * 100),
+    components,
+    connections,
+    missing: components.filter(c => !c.optional && c.nodeIds.length === 0).map(c => c.label)
+  };
+};
+
+export const parseDesignDiagram = (value: unknown): DesignDiagram | null =>
+  value && typeof value === 'object' && Array.isArray((value as DesignDiagram).nodes) && Array.isArray((value as DesignDiagram).edges)
+    ? (value as DesignDiagram)
+    : null;
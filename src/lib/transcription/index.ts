@@ -0,0 +1,43 @@
+import { createWhisperHttpProvider } from './whisperHttpProvider';
+import { computeSpeechMetrics } from './speechMetrics';
+import { StoredTranscript, TranscriptionOptions, TranscriptionProvider } from './types';
+
+export * from './types';
+export { createWhisperHttpProvider } from './whisperHttpProvider';
+export { computeSpeechMetrics, LONG_PAUSE_SECONDS } from './speechMetrics';
+
+let provider: TranscriptionProvider = createWhisperHttpProvider();
+
+// Swap the speech-to-text backend, e.g. for a hosted API or an in-browser model
+export const setTranscriptionProvider = (next: TranscriptionProvider) => {
+  provider = next;
+};
+
+export const getTranscriptionProvider = () => provider;
+
+export const transcribeRecording = async (
+  recording: Blob,
+  options?: TranscriptionOptions
+): Promise<StoredTranscript> => {
+  const transcript = await provider.transcribe(recording, options);
+
+  return {
+    ...transcript,
+    provider: provider.name,
+    metrics: computeSpeechMetrics(transcript),
+    transcribed_at: new Date().toISOString(),
+  };
+};
+
+export const parseStoredTranscript = (value: unknown): StoredTranscript | null => {
+  if (!value || typeof value !== 'object' || !Array.isArray((value as StoredTranscript).segments)) {
+    return null;
+  }
+
+  const stored = value as StoredTranscript;
+  return {
+    ...stored,
+    words: stored.words || [],
+    metrics: stored.metrics || computeSpeechMetrics({ ...stored, words: stored.words || [] }),
+  };
+};
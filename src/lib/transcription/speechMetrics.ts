@@ -0,0 +1,74 @@
+import { SpeechMetrics, SpeechPause, Transcript, TranscriptWord } from './types';
+
+export const LONG_PAUSE_SECONDS = 2.5;
+
+const FILLER_WORDS = new Set(['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'like', 'basically', 'actually', 'literally']);
+const FILLER_PHRASES = ['you know', 'i mean', 'sort of', 'kind of'];
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^a-z']/g, '');
+
+// Falls back to evenly spaced segment words when the provider gave no word timings
+const getWords = (transcript: Transcript): TranscriptWord[] => {
+  if (transcript.words.length > 0) return transcript.words;
+
+  return transcript.segments.flatMap(segment => {
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    const step = words.length > 0 ? (segment.end - segment.start) / words.length : 0;
+    return words.map((word, i) => ({
+      word,
+      start: segment.start + i * step,
+      end: segment.start + (i + 1) * step
+    }));
+  });
+};
+
+const countFillers = (words: string[]) => {
+  const counts: Record<string, number> = {};
+  const add = (filler: string) => {
+    counts[filler] = (counts[filler] || 0) + 1;
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const pair = `${words[i]} ${words[i + 1] || ''}`;
+    const phrase = FILLER_PHRASES.find(candidate => candidate === pair);
+    if (phrase) {
+      add(phrase);
+      i++;
+    } else if (FILLER_WORDS.has(words[i])) {
+      add(words[i]);
+    }
+  }
+
+  return counts;
+};
+
+const findLongPauses = (words: TranscriptWord[]): SpeechPause[] =>
+  words.slice(1).reduce<SpeechPause[]>((pauses, word, i) => {
+    const gap = word.start - words[i].end;
+    if (gap >= LONG_PAUSE_SECONDS) {
+      pauses.push({ start: words[i].end, duration: Math.round(gap * 10) / 10 });
+    }
+    return pauses;
+  }, []);
+
+export const computeSpeechMetrics = (transcript: Transcript): SpeechMetrics => {
+  const timedWords = getWords(transcript);
+  const words = timedWords.map(word => normalize(word.word)).filter(Boolean);
+  const fillerWords = countFillers(words);
+  const fillerCount = Object.values(fillerWords).reduce((sum, count) => sum + count, 0);
+  const longPauses = findLongPauses(timedWords);
+  const speakingSeconds = timedWords.length > 0
+    ? timedWords[timedWords.length - 1].end - timedWords[0].start
+    : 0;
+
+  return {
+    wordCount: words.length,
+    speakingSeconds: Math.round(speakingSeconds * 10) / 10,
+    wordsPerMinute: speakingSeconds > 0 ? Math.round(words.length / (speakingSeconds / 60)) : null,
+    fillerCount,
+    fillerWords,
+    fillerRate: words.length > 0 ? Math.round((fillerCount / words.length) * 1000) / 10 : 0,
+    longPauses,
+    longestPauseSeconds: longPauses.reduce((longest, pause) => Math.max(longest, pause.duration), 0)
+  };
+};
@@ -0,0 +1,57 @@
+// Mirrors the transcription_status check constraint on interview_responses
+export type TranscriptionStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface TranscriptWord {
+  word: string;
+  start: number; // in seconds from the start of the recording
+  end: number;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  text: string;
+  language: string | null;
+  duration: number; // in seconds
+  segments: TranscriptSegment[];
+  // Empty when the provider only returns segment timings
+  words: TranscriptWord[];
+}
+
+export interface SpeechPause {
+  start: number;
+  duration: number;
+}
+
+export interface SpeechMetrics {
+  wordCount: number;
+  // Seconds between the first and last spoken word
+  speakingSeconds: number;
+  wordsPerMinute: number | null;
+  fillerCount: number;
+  fillerWords: Record<string, number>;
+  // Fillers per 100 words
+  fillerRate: number;
+  longPauses: SpeechPause[];
+  longestPauseSeconds: number;
+}
+
+// Shape stored in interview_responses.transcript
+export interface StoredTranscript extends Transcript {
+  provider: string;
+  metrics: SpeechMetrics;
+  transcribed_at: string;
+}
+
+export interface TranscriptionOptions {
+  language?: string;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(recording: Blob, options?: TranscriptionOptions): Promise<Transcript>;
+}
@@ -0,0 +1,73 @@
+import { TRANSCRIPTION_URL } from '@/configs/environment';
+import { Transcript, TranscriptionOptions, TranscriptionProvider } from './types';
+
+interface VerboseTranscriptionResponse {
+  text: string;
+  language?: string | null;
+  duration?: number;
+  segments?: Array<{ start: number; end: number; text: string }>;
+  words?: Array<{ word: string; start: number; end: number }>;
+}
+
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Talks to any server implementing the OpenAI transcription endpoint with
+// verbose_json output. The default is the local service in
+// backend/agents/transcription-service.
+export const createWhisperHttpProvider = (
+  baseUrl: string = TRANSCRIPTION_URL,
+  model = 'whisper-1'
+): TranscriptionProvider => ({
+  name: 'whisper-http',
+
+  async transcribe(recording: Blob, options: TranscriptionOptions = {}): Promise<Transcript> {
+    const form = new FormData();
+    form.append('file', recording, recording.type.includes('mp4') ? 'answer.mp4' : 'answer.webm');
+    form.append('model', model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+    form.append('timestamp_granularities[]', 'word');
+    if (options.language) {
+      form.append('language', options.language);
+    }
+
+    const controller = new AbortController();
+    const abortTimer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/v1/audio/transcriptions`, {
+        method: 'POST',
+        body: form,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Could not reach the transcription service at ${baseUrl} (${message}). Start it with "python backend/start_transcription_service.py".`
+      );
+    } finally {
+      clearTimeout(abortTimer);
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ detail: response.statusText }));
+      throw new Error(`Transcription service error: ${error.detail || error.error?.message || response.status}`);
+    }
+
+    const data: VerboseTranscriptionResponse = await response.json();
+    const segments = (data.segments || []).map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+    }));
+
+    return {
+      text: data.text.trim(),
+      language: data.language || null,
+      duration: data.duration ?? (segments.length > 0 ? segments[segments.length - 1].end : 0),
+      segments,
+      words: (data.words || []).map(word => ({ word: word.word.trim(), start: word.start, end: word.end })),
+    };
+  },
+});
@@ -4,14 +4,17 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import Container from "@/components/ui/Container";
 import { Progress } from "@/components/ui/progress";
-import { companies } from "@/data/companyProblems";
-import { ArrowLeft, ExternalLink, Star } from "lucide-react";
+import { companies, CompanyProblem } from "@/data/companyProblems";
+import { getProblemSpec } from "@/data/problemSpecs";
+import { ArrowLeft, Code2, ExternalLink, Star } from "lucide-react";
 import { useCallback, useState, useMemo } from "react";
 import { Link, useParams } from "react-router-dom";
 import InlineFeedback from "@/components/course/InlineFeedback";
 import RouteFilters from "@/components/dsa/RouteFilters";
+import ProblemSolver from "@/components/dsa/ProblemSolver";
 import { useAuth } from '@/hooks/useAuth';
 import { useFavorites } from '@/hooks/useFavorites';
+import { useDSAProgress } from '@/hooks/useDSAProgress';
 import { dsaService } from "@/api/services/dsaService";
 import { toast } from "sonner";
 
@@ -19,31 +22,24 @@ const CompanyProblems = () => {
   const { companyId } = useParams();
   const { user } = useAuth();
   const { isFavorite, toggleFavorite, favorites } = useFavorites();
+  const { isCompleted: isProblemCompleted, toggleCompleted, markCompleted, countSolved, getCompletedAt } = useDSAProgress();
   const company = companies.find(c => c.id === companyId);
   
-  const [completedProblems, setCompletedProblems] = useState(new Set<string>());
   const [expandedFeedback, setExpandedFeedback] = useState<string | null>(null);
   const [filters, setFilters] = useState({ difficulty: [] });
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [solvingProblem, setSolvingProblem] = useState<CompanyProblem | null>(null);
 
-  const toggleProblem = useCallback((problemName: string) => {
-    const isCurrentlyCompleted = completedProblems.has(problemName);
+  const toggleProblem = useCallback((problem: { name: string; url: string }) => {
+    const isCurrentlyCompleted = isProblemCompleted(problem.url);
 
-    setCompletedProblems(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(problemName)) {
-        newSet.delete(problemName);
-      } else {
-        newSet.add(problemName);
-      }
-      return newSet;
-    });
+    toggleCompleted(problem);
 
     // Show feedback form when marking as completed (not when unchecking)
     if (!isCurrentlyCompleted) {
-      setExpandedFeedback(problemName);
+      setExpandedFeedback(problem.name);
     }
-  }, [completedProblems]);
+  }, [isProblemCompleted, toggleCompleted]);
 
   // Filter problems based on difficulty and favorites
   const filteredProblems = useMemo(() => {
@@ -83,7 +79,9 @@ const CompanyProblems = () => {
     );
   }
 
-  const progressPercentage = company ? (completedProblems.size / company.totalProblems) * 100 : 0;
+  const solvedCount = countSolved(company.problems);
+  const solvingSpec = solvingProblem ? getProblemSpec(solvingProblem.url) : undefined;
+  const progressPercentage = company ? (solvedCount / company.totalProblems) * 100 : 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
@@ -120,7 +118,7 @@ const CompanyProblems = () => {
                 </h1>
                 <div className="flex items-center gap-4 mb-2">
                   <Badge variant="outline" className="text-sm">
-                    {completedProblems.size}/{company.totalProblems} solved
+                    {solvedCount}/{company.totalProblems} solved
                   </Badge>
                   <Badge variant="secondary" className="text-sm">
                     {filteredProblems.length} problems shown
@@ -160,8 +158,10 @@ const CompanyProblems = () => {
           {/* Problems List */}
           <div className="space-y-4">
             {filteredProblems.map((problem, index) => {
-                  const isCompleted = completedProblems.has(problem.name);
+                  const isCompleted = isProblemCompleted(problem.url);
+                  const completedAt = getCompletedAt(problem.url);
                   const isProblemFavorite = isFavorite('problem', problem.name);
+                  const hasSpec = !!getProblemSpec(problem.url);
                   
                   return (
                     <Card 
@@ -177,7 +177,7 @@ const CompanyProblems = () => {
                           <div className="flex items-center gap-3 min-w-0 flex-1">
                             <Checkbox
                               checked={isCompleted}
-                              onCheckedChange={() => toggleProblem(problem.name)}
+                              onCheckedChange={() => toggleProblem(problem)}
                               className="flex-shrink-0"
                             />
                             
@@ -199,6 +199,11 @@ const CompanyProblems = () => {
                                   {problem.difficulty}
                                 </Badge>
                               </div>
+                              {completedAt && (
+                                <p className="text-xs text-muted-foreground">
+                                  Solved on {new Date(completedAt).toLocaleDateString()}
+                                </p>
+                              )}
                             </div>
                           </div>
                           
@@ -215,6 +220,18 @@ const CompanyProblems = () => {
                                 }`} 
                               />
                             </button>
+
+                            {hasSpec && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setSolvingProblem(problem)}
+                                className="flex items-center gap-2"
+                              >
+                                <Code2 className="w-4 h-4" />
+                                Solve here
+                              </Button>
+                            )}
                             
                             <Button
                               variant="ghost"
@@ -265,6 +282,21 @@ const CompanyProblems = () => {
           </div>
         </div>
       </Container>
+
+      {solvingProblem && solvingSpec && (
+        <ProblemSolver
+          problem={solvingProblem}
+          spec={solvingSpec}
+          open={!!solvingProblem}
+          onOpenChange={(open) => !open && setSolvingProblem(null)}
+          onSolved={() => {
+            if (!isProblemCompleted(solvingProblem.url)) {
+              markCompleted(solvingProblem);
+              setExpandedFeedback(solvingProblem.name);
+            }
+          }}
+        />
+      )}
     </div>
   );
 };
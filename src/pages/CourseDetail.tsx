@@ -6,12 +6,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { BookOpen, FileText, Layout, Lightbulb, MessageSquare, ChevronLeft, CheckCircle2, Loader2, RefreshCw } from "lucide-react";
+import { BookOpen, FileText, Layout, Lightbulb, MessageSquare, ChevronLeft, CheckCircle2, Loader2, RefreshCw, ClipboardCheck, Brain } from "lucide-react";
 import Container from "@/components/ui/Container";
 import { useToast } from "@/hooks/use-toast";
 import { ChapterType, CourseType, FlashcardType, McqType, QnaType } from "@/types";
 import NotebookPanel from "@/components/course/NotebookPanel";
 import CourseLayout from "@/components/course/CourseLayout";
+import ExamPanel from "@/components/course/ExamPanel";
+import QuizPanel from "@/components/course/QuizPanel";
+import GenerationStepsPanel from "@/components/course/GenerationStepsPanel";
 import { courseService, CourseResource, CourseNotebook } from "@/api/services/courseService";
 import { useAuth } from "@/hooks/useAuth";
 import LoadingOverlay from "@/components/ui/LoadingOverlay";
@@ -30,7 +33,6 @@ const CourseDetail = () => {
   const [notebook, setNotebook] = useState<CourseNotebook | null>(null);
   const [activeTab, setActiveTab] = useState("chapters");
   const [showAnswer, setShowAnswer] = useState<Record<string, boolean>>({});
-  const [selectedAnswers, setSelectedAnswers] = useState<Record<string, string>>({});
   const [isGenerating, setIsGenerating] = useState<Record<string, boolean>>({});
 
   useEffect(() => {
@@ -144,21 +146,6 @@ const CourseDetail = () => {
     setShowAnswer(prev => ({ ...prev, [id]: !prev[id] }));
   };
 
-  const handleSelectAnswer = (mcqId: string, answer: string) => {
-    setSelectedAnswers(prev => ({ ...prev, [mcqId]: answer }));
-    
-    if (user) {
-      // Track progress
-      courseService.trackProgress({
-        user_id: user.id,
-        course_id: id!,
-        mcq_id: mcqId,
-        progress_type: 'mcq_answered',
-        score: mcqs.find(m => m.id === mcqId)?.correct_answer === answer ? 100 : 0
-      });
-    }
-  };
-
   const markChapterAsRead = (chapterId: string) => {
     if (user) {
       courseService.trackProgress({
@@ -243,7 +230,7 @@ const CourseDetail = () => {
         <Separator className="mb-6" />
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="chapters" className="flex items-center gap-2">
               <BookOpen className="w-4 h-4" />
               Chapters ({chapters.length})
@@ -260,17 +247,26 @@ const CourseDetail = () => {
               <MessageSquare className="w-4 h-4" />
               Q&A ({qnas.length})
             </TabsTrigger>
+            <TabsTrigger value="exams" className="flex items-center gap-2">
+              <ClipboardCheck className="w-4 h-4" />
+              Exams
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="chapters" className="mt-6">
             {chapters.length === 0 ? (
-              <Card>
-                <CardContent className="text-center py-8">
-                  <BookOpen className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-                  <h3 className="text-lg font-semibold mb-2">No chapters available</h3>
-                  <p className="text-muted-foreground">This course doesn't have any chapters yet.</p>
-                </CardContent>
-              </Card>
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <Card className="lg:col-span-2">
+                  <CardContent className="text-center py-8">
+                    <BookOpen className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                    <h3 className="text-lg font-semibold mb-2">No chapters available</h3>
+                    <p className="text-muted-foreground">This course doesn't have any chapters yet.</p>
+                  </CardContent>
+                </Card>
+                <div className="lg:col-span-1">
+                  {user && <GenerationStepsPanel courseId={course.id} onFinished={loadCourseData} />}
+                </div>
+              </div>
             ) : (
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 <div className="lg:col-span-2 space-y-6">
@@ -308,7 +304,7 @@ const CourseDetail = () => {
                   ))}
                 </div>
                 
-                <div className="lg:col-span-1">
+                <div className="lg:col-span-1 space-y-6">
                   {notebook ? (
                     <NotebookPanel 
                       notebook={{
@@ -344,6 +340,7 @@ const CourseDetail = () => {
                       </CardContent>
                     </Card>
                   )}
+                  {user && <GenerationStepsPanel courseId={course.id} onFinished={loadCourseData} />}
                 </div>
               </div>
             )}
@@ -352,19 +349,29 @@ const CourseDetail = () => {
           <TabsContent value="flashcards" className="mt-6">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold">Flashcards</h2>
-              <Button 
-                onClick={() => generateContent('flashcards')}
-                disabled={isGenerating.flashcards}
-                size="sm"
-                className="flex items-center gap-2"
-              >
-                {isGenerating.flashcards ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  <RefreshCw className="w-4 h-4" />
+              <div className="flex gap-2">
+                {flashcards.length > 0 && (
+                  <Button size="sm" variant="outline" className="flex items-center gap-2" asChild>
+                    <Link to={`/review?course=${course.id}`}>
+                      <Brain className="w-4 h-4" />
+                      Review
+                    </Link>
+                  </Button>
                 )}
-                Generate More
-              </Button>
+                <Button 
+                  onClick={() => generateContent('flashcards')}
+                  disabled={isGenerating.flashcards}
+                  size="sm"
+                  className="flex items-center gap-2"
+                >
+                  {isGenerating.flashcards ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="w-4 h-4" />
+                  )}
+                  Generate More
+                </Button>
+              </div>
             </div>
             
             {flashcards.length === 0 ? (
@@ -452,60 +459,7 @@ const CourseDetail = () => {
                 </CardContent>
               </Card>
             ) : (
-              <div className="space-y-6">
-                {mcqs.map((mcq, index) => (
-                  <Card key={mcq.id}>
-                    <CardHeader>
-                      <CardTitle className="text-lg">Question {index + 1}</CardTitle>
-                      <CardDescription>{mcq.question}</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-2">
-                        {mcq.options.map((option, optIndex) => {
-                          const isSelected = selectedAnswers[mcq.id] === option;
-                          const isCorrect = option === mcq.correct_answer;
-                          const showResult = selectedAnswers[mcq.id];
-                          
-                          return (
-                            <Button
-                              key={optIndex}
-                              variant={
-                                showResult
-                                  ? isCorrect
-                                    ? "default"
-                                    : isSelected
-                                    ? "destructive"
-                                    : "outline"
-                                  : isSelected
-                                  ? "secondary"
-                                  : "outline"
-                              }
-                              className="w-full justify-start h-auto p-3"
-                              onClick={() => handleSelectAnswer(mcq.id, option)}
-                              disabled={!!selectedAnswers[mcq.id]}
-                            >
-                              <span className="font-medium mr-2">
-                                {String.fromCharCode(65 + optIndex)}.
-                              </span>
-                              {option}
-                              {showResult && isCorrect && (
-                                <CheckCircle2 className="w-4 h-4 ml-auto" />
-                              )}
-                            </Button>
-                          );
-                        })}
-                      </div>
-                      
-                      {selectedAnswers[mcq.id] && mcq.explanation && (
-                        <div className="mt-4 p-3 bg-muted rounded-lg">
-                          <p className="text-sm font-medium mb-1">Explanation:</p>
-                          <p className="text-sm text-muted-foreground">{mcq.explanation}</p>
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
+              <QuizPanel course={course} chapters={chapters} mcqs={mcqs} />
             )}
           </TabsContent>
 
@@ -563,6 +517,10 @@ const CourseDetail = () => {
               </Accordion>
             )}
           </TabsContent>
+
+          <TabsContent value="exams" className="mt-6">
+            <ExamPanel course={course} chapters={chapters} />
+          </TabsContent>
         </Tabs>
       </Container>
     </CourseLayout>
@@ -24,9 +24,20 @@ const CourseGenerator = () => {
   const { user } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [generationInBackground, setGenerationInBackground] = useState(false);
-  const [generationStartTime, setGenerationStartTime] = useState<Date | null>(null);
-  const [progress, setProgress] = useState(0);
+  const {
+    job,
+    status,
+    steps,
+    currentStep,
+    progress,
+    error: generationError,
+    generationInBackground,
+    generationStartTime,
+    startCourseGeneration,
+    retry,
+    cancel,
+    dismiss
+  } = useCourseGeneration();
   const [recentCourses, setRecentCourses] = useState<CourseType[]>([
     // Dummy recent courses that always show up
     {
@@ -68,10 +79,7 @@ const CourseGenerator = () => {
     setError(null);
     
     try {
-      const courseId = await courseService.generateCourse(courseName, purpose, difficulty, user.id);
-      setGenerationInBackground(true);
-      setGenerationStartTime(new Date());
-      navigate(`/course/${courseId}`);
+      await startCourseGeneration(courseName, purpose, difficulty);
     } catch (error) {
       console.error('Course generation failed:', error);
       setError('Failed to generate course. Please try again.');
@@ -104,15 +112,22 @@ const CourseGenerator = () => {
 
       <ContentGenerationStatus
         isGenerating={generationInBackground}
-        title="Generating your course notes..."
+        title="Generating your course..."
         startTime={generationStartTime}
         progress={progress}
-        estimatedTime={180} // 3 minutes in seconds
+        status={status}
+        currentStep={currentStep}
+        steps={steps}
+        error={generationError}
+        onRetry={retry}
+        onCancel={cancel}
+        onDismiss={dismiss}
+        onView={() => job && navigate(`/course/${job.course_id}`)}
       />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2">
-          <CourseForm onSubmit={handleSubmit} isLoading={isLoading} />
+          <CourseForm onSubmit={handleSubmit} isLoading={isLoading || generationInBackground} />
         </div>
         
         <div>
@@ -167,7 +182,7 @@ const CourseGenerator = () => {
         <LoadingOverlay 
           isLoading={true}
           message="Starting Course Generation"
-          subMessage="We're preparing your course notes. This will take about 3 minutes. Once started, you can navigate away and we'll notify you when it's ready."
+          subMessage="We're preparing your course. Once started, you can navigate away and come back to check its progress."
           minimal={true}
           autoDismiss={3000} // Auto dismiss after 3 seconds
         />
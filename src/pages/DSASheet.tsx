@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Link } from "react-router-dom";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
@@ -12,6 +12,7 @@ import { dsaTopics } from "@/data/dsaProblems";
 import { companies } from "@/data/companyProblems";
 import { useDSAFilters } from "@/hooks/useDSAFilters";
 import { useFavorites } from "@/hooks/useFavorites";
+import { useDSAProgress } from "@/hooks/useDSAProgress";
 import FavoritesTable from "@/components/FavoritesTable";
 import DSAChatbot from "@/components/dsa/DSAChatbot";
 
@@ -20,6 +21,11 @@ const DSASheet = () => {
   const [chatbotOpen, setChatbotOpen] = useState(false);
   const [chatbotMinimized, setChatbotMinimized] = useState(false);
   const { isFavorite, toggleFavorite } = useFavorites();
+  const { withProgress } = useDSAProgress();
+
+  // Overlay the user's stored progress onto the static sheet data
+  const topicsWithProgress = useMemo(() => withProgress(dsaTopics), [withProgress]);
+  const companiesWithProgress = useMemo(() => withProgress(companies), [withProgress]);
   
   const {
     filters,
@@ -31,7 +37,7 @@ const DSASheet = () => {
     availableCompanies,
     getFilteredProblemsForCompany,
     stats
-  } = useDSAFilters({ topics: dsaTopics, companies });
+  } = useDSAFilters({ topics: topicsWithProgress, companies: companiesWithProgress });
 
 
   return (
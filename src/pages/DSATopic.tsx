@@ -4,13 +4,18 @@ import { Card, CardContent } from "@/components/ui/card";
 import Container from "@/components/ui/Container";
 import { Progress } from "@/components/ui/progress";
 import { dsaTopics } from "@/data/dsaProblems";
-import { CheckCircle2, ChevronLeft, Circle, ExternalLink, Star } from "lucide-react";
+import { CheckCircle2, ChevronLeft, Circle, Code2, ExternalLink, Lightbulb, Star } from "lucide-react";
 import { useState, useCallback, useMemo } from "react";
 import { Link, useParams } from "react-router-dom";
 import InlineFeedback from "@/components/course/InlineFeedback";
 import RouteFilters from "@/components/dsa/RouteFilters";
+import ProblemSolver from "@/components/dsa/ProblemSolver";
+import DSAChatbot from "@/components/dsa/DSAChatbot";
+import { DSAProblem } from "@/data/dsaProblems";
+import { getProblemSpec } from "@/data/problemSpecs";
 import { useAuth } from '@/hooks/useAuth';
 import { useFavorites } from '@/hooks/useFavorites';
+import { useDSAProgress } from '@/hooks/useDSAProgress';
 import { dsaService } from "@/api/services/dsaService";
 import { toast } from "sonner";
 
@@ -18,11 +23,16 @@ const DSATopic = () => {
   const { topicId } = useParams();
   const { user } = useAuth();
   const { isFavorite, toggleFavorite, favorites } = useFavorites();
+  const { isCompleted: isProblemCompleted, toggleCompleted, markCompleted, countSolved, getCompletedAt } = useDSAProgress();
   const topic = dsaTopics.find(t => t.id === topicId);
-  const [completedProblems, setCompletedProblems] = useState<Set<string>>(new Set());
   const [expandedFeedback, setExpandedFeedback] = useState<string | null>(null);
   const [filters, setFilters] = useState({ difficulty: [] });
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [solvingProblem, setSolvingProblem] = useState<DSAProblem | null>(null);
+  const [tutorOpen, setTutorOpen] = useState(false);
+  const [tutorMinimized, setTutorMinimized] = useState(false);
+  // Problem the tutor was opened for in hint mode, if any
+  const [hintProblem, setHintProblem] = useState<DSAProblem | null>(null);
 
   if (!topic) {
     return (
@@ -37,24 +47,16 @@ const DSATopic = () => {
     );
   }
 
-  const toggleProblem = useCallback((problemName: string) => {
-    const isCurrentlyCompleted = completedProblems.has(problemName);
+  const toggleProblem = useCallback((problem: { name: string; url: string }) => {
+    const isCurrentlyCompleted = isProblemCompleted(problem.url);
 
-    setCompletedProblems(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(problemName)) {
-        newSet.delete(problemName);
-      } else {
-        newSet.add(problemName);
-      }
-      return newSet;
-    });
+    toggleCompleted(problem);
 
     // Show feedback form when marking as completed (not when unchecking)
     if (!isCurrentlyCompleted) {
-      setExpandedFeedback(problemName);
+      setExpandedFeedback(problem.name);
     }
-  }, [completedProblems]);
+  }, [isProblemCompleted, toggleCompleted]);
 
   // Filter problems based on difficulty and favorites
   const filteredProblems = useMemo(() => {
@@ -79,7 +81,9 @@ const DSATopic = () => {
     return problems;
   }, [topic, filters, isFavorite, showFavoritesOnly]);
 
-  const progressPercentage = topic ? (completedProblems.size / topic.problems.length) * 100 : 0;
+  const solvedCount = countSolved(topic.problems);
+  const solvingSpec = solvingProblem ? getProblemSpec(solvingProblem.url) : undefined;
+  const progressPercentage = topic ? (solvedCount / topic.problems.length) * 100 : 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
@@ -113,7 +117,7 @@ const DSATopic = () => {
               </h1>
               <div className="flex items-center gap-4">
                 <Badge variant="outline" className="text-sm">
-                  {completedProblems.size}/{topic.problems.length} solved
+                  {solvedCount}/{topic.problems.length} solved
                 </Badge>
                 <Badge variant="secondary" className="text-sm">
                   {filteredProblems.length} problems shown
@@ -138,8 +142,10 @@ const DSATopic = () => {
           {/* Problems List */}
           <div className="space-y-3">
             {filteredProblems.map((problem, index) => {
-                  const isCompleted = completedProblems.has(problem.name);
+                  const isCompleted = isProblemCompleted(problem.url);
+                  const completedAt = getCompletedAt(problem.url);
                   const isProblemFavorite = isFavorite('problem', problem.name);
+                  const hasSpec = !!getProblemSpec(problem.url);
                   return (
                     <Card 
                       key={`${topic.id}-${index}`}
@@ -150,7 +156,7 @@ const DSATopic = () => {
                       <CardContent className="p-4">
                         <div className="flex items-center gap-4">
                           <button
-                            onClick={() => toggleProblem(problem.name)}
+                            onClick={() => toggleProblem(problem)}
                             className="transition-colors hover:scale-110"
                           >
                             {isCompleted ? (
@@ -179,6 +185,11 @@ const DSATopic = () => {
                                 </Badge>
                               )}
                             </div>
+                            {completedAt && (
+                              <p className="text-xs text-muted-foreground">
+                                Solved on {new Date(completedAt).toLocaleDateString()}
+                              </p>
+                            )}
                           </div>
 
                           <div className="flex items-center gap-2">
@@ -194,6 +205,31 @@ const DSATopic = () => {
                                 }`} 
                               />
                             </button>
+
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Get hints from the tutor"
+                              onClick={() => {
+                                setHintProblem(problem);
+                                setTutorOpen(true);
+                                setTutorMinimized(false);
+                              }}
+                            >
+                              <Lightbulb className="w-4 h-4" />
+                            </Button>
+
+                            {hasSpec && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setSolvingProblem(problem)}
+                                className="flex items-center gap-2"
+                              >
+                                <Code2 className="w-4 h-4" />
+                                Solve here
+                              </Button>
+                            )}
                             
                             <Button
                               variant="ghost"
@@ -244,6 +280,50 @@ const DSATopic = () => {
           </div>
         </div>
       </Container>
+
+      {solvingProblem && solvingSpec && (
+        <ProblemSolver
+          problem={solvingProblem}
+          spec={solvingSpec}
+          open={!!solvingProblem}
+          onOpenChange={(open) => !open && setSolvingProblem(null)}
+          onSolved={() => {
+            if (!isProblemCompleted(solvingProblem.url)) {
+              markCompleted(solvingProblem);
+              setExpandedFeedback(solvingProblem.name);
+            }
+          }}
+        />
+      )}
+
+      {!tutorOpen && (
+        <Button
+          onClick={() => setTutorOpen(true)}
+          className="fixed bottom-6 right-6 rounded-full w-16 h-16 shadow-lg hover:shadow-xl transition-all duration-300 bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90"
+          size="lg"
+        >
+          <span className="text-2xl">🤖</span>
+        </Button>
+      )}
+
+      {tutorOpen && (
+        <DSAChatbot
+          // A new problem starts a fresh hint conversation
+          key={hintProblem?.url || "topic"}
+          context={{
+            topic: { id: topic.id, title: topic.title },
+            problem: hintProblem ? { name: hintProblem.name, url: hintProblem.url, difficulty: hintProblem.difficulty } : undefined
+          }}
+          initialMode={hintProblem ? "hints" : "chat"}
+          isMinimized={tutorMinimized}
+          onToggleMinimize={() => setTutorMinimized(!tutorMinimized)}
+          onClose={() => {
+            setTutorOpen(false);
+            setTutorMinimized(false);
+            setHintProblem(null);
+          }}
+        />
+      )}
     </div>
   );
 };
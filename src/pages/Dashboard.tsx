@@ -12,15 +12,21 @@ import { useToast } from "@/hooks/use-toast";
 import { dsaTopics } from "@/data/dsaProblems";
 import { companies } from "@/data/companyProblems";
 import { supabase } from "@/integrations/supabase/client";
+import { useDSAProgress } from "@/hooks/useDSAProgress";
 import ServiceHealthMonitor from "@/components/debug/ServiceHealthMonitor";
+import ReviewForecastCard from "@/components/course/ReviewForecastCard";
+import { interviewService, toMockInterview } from "@/api/services/interviewService";
+import { MockInterviewType } from "@/types";
 
 const Dashboard = () => {
   const [activeTab, setActiveTab] = useState("overview");
   const [showChatbot, setShowChatbot] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
+  const { withProgress } = useDSAProgress();
   const [userProfile, setUserProfile] = useState<any>(null);
   const [recentCourses, setRecentCourses] = useState<any[]>([]);
+  const [displayInterviews, setDisplayInterviews] = useState<MockInterviewType[]>([]);
   const [courseStats, setCourseStats] = useState({
     total: 0,
     completed: 0,
@@ -63,27 +69,38 @@ const Dashboard = () => {
           inProgress: courses.filter(c => c.status === 'generating' || c.status === 'draft').length
         });
       }
+
+      // Load mock interview sessions
+      const sessions = await interviewService.getUserSessions(user.id);
+      setDisplayInterviews(sessions.map(toMockInterview));
     } catch (error) {
       console.error('Error loading user data:', error);
     }
   };
 
-  // Real interviews data - empty by default, will be populated from backend
-  const displayInterviews: any[] = [];
   const recentInterviews = displayInterviews.slice(0, 3);
 
+  // Finished interviews open their results; unfinished ones can be resumed from the interview page
+  const getInterviewLink = (interview: MockInterviewType) =>
+    interview.completed ? `/interview-result/${interview.id}` : "/mock-interview";
+
+  const getScoreLabel = (interview: MockInterviewType) =>
+    interview.completed && interview.total_score ? `${Math.round(interview.total_score)}%` : interview.completed ? "Pending" : "In Progress";
+
   // DSA Analytics calculations
-  const totalDSAProblems = dsaTopics.reduce((total, topic) => total + topic.totalProblems, 0);
-  const solvedDSAProblems = dsaTopics.reduce((total, topic) => total + topic.solvedProblems, 0);
-  const totalCompanyProblems = companies.reduce((total, company) => total + company.totalProblems, 0);
-  const solvedCompanyProblems = companies.reduce((total, company) => total + company.solvedProblems, 0);
+  const topicsWithProgress = withProgress(dsaTopics);
+  const companiesWithProgress = withProgress(companies);
+  const totalDSAProblems = topicsWithProgress.reduce((total, topic) => total + topic.totalProblems, 0);
+  const solvedDSAProblems = topicsWithProgress.reduce((total, topic) => total + topic.solvedProblems, 0);
+  const totalCompanyProblems = companiesWithProgress.reduce((total, company) => total + company.totalProblems, 0);
+  const solvedCompanyProblems = companiesWithProgress.reduce((total, company) => total + company.solvedProblems, 0);
   const totalAllDSAProblems = totalDSAProblems + totalCompanyProblems;
   const totalSolvedDSAProblems = solvedDSAProblems + solvedCompanyProblems;
   const dsaProgressPercentage = totalAllDSAProblems > 0 ? Math.round((totalSolvedDSAProblems / totalAllDSAProblems) * 100) : 0;
 
   // Recent DSA activity (solved problems from topics and companies)
   const recentDSAActivity = [
-    ...dsaTopics.slice(0, 2).map(topic => ({
+    ...topicsWithProgress.slice(0, 2).map(topic => ({
       type: 'topic',
       name: topic.title,
       progress: topic.totalProblems > 0 ? Math.round((topic.solvedProblems / topic.totalProblems) * 100) : 0,
@@ -91,7 +108,7 @@ const Dashboard = () => {
       total: topic.totalProblems,
       id: topic.id
     })),
-    ...companies.slice(0, 1).map(company => ({
+    ...companiesWithProgress.slice(0, 1).map(company => ({
       type: 'company',
       name: company.title,
       progress: company.totalProblems > 0 ? Math.round((company.solvedProblems / company.totalProblems) * 100) : 0,
@@ -307,10 +324,10 @@ const Dashboard = () => {
                           </div>
                           <div className="flex items-center">
                             <span className="font-medium text-muted-foreground">
-                              Pending
+                              {getScoreLabel(interview)}
                             </span>
                             <Button variant="ghost" size="icon" asChild>
-                              <Link to={`/interview-result/${interview.id}`}>
+                              <Link to={getInterviewLink(interview)}>
                                 <ArrowRight className="h-4 w-4" />
                               </Link>
                             </Button>
@@ -332,6 +349,8 @@ const Dashboard = () => {
               </Card>
             </div>
 
+            <ReviewForecastCard />
+
             {showWelcomeCard && <WelcomeCard />}
           </TabsContent>
 
@@ -450,15 +469,16 @@ const Dashboard = () => {
                     <div className="flex justify-between items-center mb-4">
                       <span className="text-sm text-muted-foreground">Overall Score</span>
                       <span className={`text-lg font-bold ${
-                        Math.random() >= 0.8 ? "text-green-500" : 
-                        Math.random() >= 0.5 ? "text-amber-500" : "text-red-500"
+                        !interview.total_score ? "text-muted-foreground" :
+                        interview.total_score >= 80 ? "text-green-500" : 
+                        interview.total_score >= 50 ? "text-amber-500" : "text-red-500"
                       }`}>
-                        {Math.floor(Math.random() * 40 + 60)}%
+                        {getScoreLabel(interview)}
                       </span>
                     </div>
                     <Button variant="ghost" size="sm" className="w-full" asChild>
-                      <Link to={`/interview-result/${interview.id}`}>
-                        View Details <ArrowRight className="ml-2 h-4 w-4" />
+                      <Link to={getInterviewLink(interview)}>
+                        {interview.completed ? "View Details" : "Resume"} <ArrowRight className="ml-2 h-4 w-4" />
                       </Link>
                     </Button>
                   </CardContent>
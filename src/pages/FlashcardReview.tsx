@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Container from "@/components/ui/Container";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Brain, ChevronLeft, Loader2, PartyPopper } from "lucide-react";
+import FlashcardReviewSession from "@/components/course/FlashcardReviewSession";
+import { flashcardReviewService, ReviewCard } from "@/api/services/flashcardReviewService";
+import { ReviewGrade } from "@/lib/spacedRepetition";
+
+const FlashcardReview = () => {
+  const [searchParams] = useSearchParams();
+  const courseId = searchParams.get('course') || undefined;
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sessionKey, setSessionKey] = useState(0);
+
+  const loadQueue = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      const queue = await flashcardReviewService.getReviewQueue(user.id, { courseId });
+      setCards(queue);
+      setSessionKey(prev => prev + 1);
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load flashcards due for review.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, courseId, toast]);
+
+  useEffect(() => {
+    if (user) {
+      loadQueue();
+    }
+  }, [user, loadQueue]);
+
+  const handleGrade = async (card: ReviewCard, grade: ReviewGrade): Promise<ReviewCard> => {
+    if (!user) return card;
+
+    try {
+      const review = await flashcardReviewService.recordReview(user.id, card, grade);
+      return { ...card, review };
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your answer. Please try again.",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+
+  const dueCount = cards.filter(card => card.review).length;
+  const newCount = cards.length - dueCount;
+  const courseTitle = courseId ? cards[0]?.course_title : undefined;
+
+  return (
+    <Container className="py-12">
+      <div className="max-w-2xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight mb-2 flex items-center gap-2">
+              <Brain className="w-7 h-7 text-primary" />
+              Due Today
+            </h1>
+            <p className="text-muted-foreground">
+              {courseTitle ? `Reviewing ${courseTitle}` : 'Flashcards from all your courses'}
+            </p>
+          </div>
+          <Button variant="outline" className="gap-2" onClick={() => navigate(courseId ? `/course/${courseId}` : '/dashboard')}>
+            <ChevronLeft className="w-4 h-4" />
+            Back
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : cards.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-10">
+              <PartyPopper className="w-12 h-12 mx-auto mb-4 text-primary" />
+              <h3 className="text-lg font-semibold mb-2">All caught up</h3>
+              <p className="text-muted-foreground mb-4">No flashcards are due right now. Come back tomorrow!</p>
+              <Button asChild variant="outline">
+                <Link to="/courses">Browse Courses</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="flex gap-2 mb-4">
+              <Badge variant="secondary">{dueCount} due</Badge>
+              <Badge variant="outline">{newCount} new</Badge>
+            </div>
+            <FlashcardReviewSession
+              key={sessionKey}
+              cards={cards}
+              onGrade={handleGrade}
+              onFinish={loadQueue}
+            />
+          </>
+        )}
+      </div>
+    </Container>
+  );
+};
+
+export default FlashcardReview;
@@ -1,5 +1,5 @@
 
-import { useState } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useParams, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,66 +8,247 @@ import Container from "@/components/ui/Container";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
-import { Video, MessageSquare, BarChart, CheckCircle, XCircle, AlertCircle, ArrowRight, BookOpen } from "lucide-react";
+import { Video, MessageSquare, BarChart, CheckCircle, XCircle, AlertCircle, ArrowRight, BookOpen, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import InterviewQuestionReview from "@/components/interview/InterviewQuestionReview";
+import StoryEditorDialog from "@/components/interview/StoryEditorDialog";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  interviewService,
+  getSessionQuestions,
+  InterviewResponse,
+  InterviewSession
+} from "@/api/services/interviewService";
+import { StoryInput, StorySource, storyService } from "@/api/services/storyService";
+import { AreaFeedback, InterviewReport, QuestionReport, buildInterviewReport } from "@/lib/interviewAnalysis";
+import { parseStoredTranscript } from "@/lib/transcription";
+import { detectStar, groupStarSections } from "@/lib/answerScoring";
+import { BehavioralCompetency, behavioralCompetencies } from "@/data/behavioralQuestions";
+
+interface Recommendation {
+  type: "course" | "practice" | "profile";
+  title: string;
+  reason: string;
+  link: string;
+}
+
+const TRANSCRIPT_POLL_MS = 5000;
+const TRANSCRIPT_POLL_LIMIT = 24;
+// How long the interview page gets to score a fresh transcript before this page does it
+const SCORE_GRACE_MS = 60000;
+
+const needsScore = (response: InterviewResponse) =>
+  !!response.response_text?.trim() &&
+  typeof (response.ai_analysis as { score?: unknown } | null)?.score !== "number";
+
+const formatDuration = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)} min ${Math.round(seconds % 60)} sec` : `${Math.round(seconds)} sec`;
+
+const formatTimestamp = (seconds: number) =>
+  `${String(Math.floor(seconds / 60)).padStart(2, "0")}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+
+const getRecommendations = (session: InterviewSession, report: InterviewReport): Recommendation[] => {
+  const recommendations: Recommendation[] = [];
+  const role = session.job_role || "your target role";
+
+  if (report.technical.score !== null && report.technical.score < 70) {
+    recommendations.push({
+      type: "course",
+      title: `Generate a course on ${role} fundamentals`,
+      reason: `Technical score of ${report.technical.score}% shows gaps in the key concepts`,
+      link: "/course-generator"
+    });
+  }
+  if (report.communication.score !== null && report.communication.score < 70) {
+    recommendations.push({
+      type: "practice",
+      title: "Practice structured answers",
+      reason: "Aim for 1-3 minute answers delivered at a steady pace",
+      link: "/mock-interview"
+    });
+  }
+  if (report.nonVerbal.score !== null && report.nonVerbal.score < 70) {
+    recommendations.push({
+      type: "practice",
+      title: "Work on on-camera presence",
+      reason: "Rewatch your clips and focus on eye contact and a relaxed posture",
+      link: "/mock-interview"
+    });
+  }
+  recommendations.push({
+    type: "profile",
+    title: "Complete Profile Builder",
+    reason: "A complete profile helps tailor future interview questions",
+    link: "/profile-builder"
+  });
+
+  return recommendations;
+};
 
 const InterviewResult = () => {
   const { id } = useParams();
+  const { toast } = useToast();
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState("feedback");
+  const [isLoading, setIsLoading] = useState(true);
+  const [session, setSession] = useState<InterviewSession | null>(null);
+  const [responses, setResponses] = useState<InterviewResponse[]>([]);
+  const [recordingUrls, setRecordingUrls] = useState<Record<string, string | null>>({});
+  const [transcribingIds, setTranscribingIds] = useState<string[]>([]);
+  const scoringIds = useRef(new Set<string>());
+  const [seekTarget, setSeekTarget] = useState<{ questionIndex: number; seconds: number } | null>(null);
+  const [storyDraft, setStoryDraft] = useState<Partial<StoryInput> | null>(null);
+  const [storySources, setStorySources] = useState<StorySource[]>([]);
+
+  const loadInterview = useCallback(async (sessionId: string) => {
+    try {
+      setIsLoading(true);
+      const [sessionData, responsesData] = await Promise.all([
+        interviewService.getSession(sessionId),
+        interviewService.getSessionResponses(sessionId)
+      ]);
+      setSession(sessionData);
+      setResponses(responsesData);
+
+      const urls = await Promise.all(
+        responsesData.map(async response => [
+          response.id,
+          response.video_recording_path ? await interviewService.getRecordingUrl(response.video_recording_path) : null
+        ] as const)
+      );
+      setRecordingUrls(Object.fromEntries(urls));
+    } catch (error) {
+      console.error("Error loading interview:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load this interview.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
 
-  // Generate mock interview data
-  const interviewData = {
-    title: "Mock Interview Session",
-    date: new Date().toLocaleDateString(),
-    duration: "45 minutes",
-    jobRole: "Software Engineer",
-    techStack: ["React", "Node.js", "TypeScript"],
-    experience: "3-5 years",
-    overallScore: 78,
-    feedback: {
-      technical: {
-        score: 82,
-        strengths: ["Strong coding fundamentals", "Good problem-solving approach"],
-        weaknesses: ["Could explain more complex algorithms better"],
-        summary: "Solid technical knowledge with room for improvement in advanced topics."
-      },
-      communication: {
-        score: 75,
-        strengths: ["Clear articulation", "Good listening skills"],
-        weaknesses: ["Could be more concise in responses"],
-        summary: "Good communication skills overall with minor areas for improvement."
-      },
-      nonVerbal: {
-        score: 72,
-        strengths: ["Maintained good eye contact", "Professional appearance"],
-        weaknesses: ["Some nervous gestures"],
-        summary: "Generally professional presentation with minor confidence improvements needed."
+  useEffect(() => {
+    if (id) {
+      loadInterview(id);
+    }
+  }, [id, loadInterview]);
+
+  const hasPendingWork = responses.some(
+    response => response.transcription_status === "pending" || response.transcription_status === "processing" || needsScore(response)
+  );
+
+  // Answers are transcribed and scored in the background after they are saved,
+  // so keep refreshing for a while when the results page opens before that finishes
+  useEffect(() => {
+    if (!id || !hasPendingWork) return;
+
+    let attempts = 0;
+    const timer = setInterval(async () => {
+      attempts += 1;
+      if (attempts >= TRANSCRIPT_POLL_LIMIT) {
+        clearInterval(timer);
       }
-    },
-    questions: [
-      {
-        question: "Tell me about your experience with React.",
-        answer: "I have been working with React for 3 years...",
-        feedback: "Good overview, could provide more specific examples.",
-        score: 75
+
+      try {
+        setResponses(await interviewService.getSessionResponses(id));
+      } catch (error) {
+        console.error("Error refreshing transcripts:", error);
       }
-    ],
-    videoAnalysis: {
-      confidenceScore: 70,
-      engagementScore: 80,
-      stressIndicators: 25,
-      timeline: [
-        { time: "00:30", note: "Good initial confidence", score: 85 },
-        { time: "05:15", note: "Slight hesitation on technical question", score: 65 }
-      ]
-    },
-        recommendations: [
-          {
-            type: "profile",
-            title: "Complete Profile Builder",
-            reason: "To improve technical depth",
-            link: "/profile-builder" 
-          }
-        ]
+    }, TRANSCRIPT_POLL_MS);
+
+    return () => clearInterval(timer);
+  }, [id, hasPendingWork]);
+
+  // Score transcribed answers the interview page did not get to, e.g. when
+  // the tab was closed before scoring finished
+  useEffect(() => {
+    if (!session) return;
+
+    const stale = responses.filter(response => {
+      const transcribedAt = parseStoredTranscript(response.transcript)?.transcribed_at;
+      return needsScore(response) &&
+        !scoringIds.current.has(response.id) &&
+        (!transcribedAt || Date.now() - new Date(transcribedAt).getTime() > SCORE_GRACE_MS);
+    });
+    if (stale.length > 0) {
+      scoreResponses(session, stale);
+    }
+  }, [session, responses]);
+
+  const scoreResponses = async (current: InterviewSession, toScore: InterviewResponse[]) => {
+    toScore.forEach(response => scoringIds.current.add(response.id));
+
+    for (const response of toScore) {
+      try {
+        const scored = await interviewService.scoreResponse(current, response);
+        setResponses(prev => prev.map(item => (item.id === scored.id ? scored : item)));
+      } catch (error) {
+        console.error("Error scoring answer:", error);
+      }
+    }
+
+    try {
+      const total = await interviewService.updateTotalScore(current.id);
+      setSession(prev => (prev ? { ...prev, total_score: total } : prev));
+    } catch (error) {
+      console.error("Error updating interview score:", error);
+    }
+  };
+
+  const handleTranscribe = async (response: InterviewResponse) => {
+    setTranscribingIds(prev => [...prev, response.id]);
+
+    try {
+      const updated = await interviewService.transcribeResponse(response);
+      setResponses(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+      if (session && updated.response_text) {
+        await scoreResponses(session, [updated]);
+      }
+    } catch (error) {
+      console.error("Error transcribing answer:", error);
+      setResponses(prev => prev.map(item => (item.id === response.id ? { ...item, transcription_status: "failed" } : item)));
+      toast({
+        title: "Transcription Failed",
+        description: error instanceof Error ? error.message : "Could not transcribe this answer.",
+        variant: "destructive"
+      });
+    } finally {
+      setTranscribingIds(prev => prev.filter(item => item !== response.id));
+    }
+  };
+
+  // Drafts a story bank entry from a behavioral answer, split into STAR sections
+  const handleSaveStory = (question: QuestionReport) => {
+    if (!user || !session || !question.transcript) return;
+
+    const topic = getSessionQuestions(session)[question.index]?.topic;
+    const competency = behavioralCompetencies.find(item => item.id === topic)?.id;
+    setStoryDraft({
+      title: question.question.length > 80 ? `${question.question.slice(0, 77)}...` : question.question,
+      competencies: competency ? [competency as BehavioralCompetency] : [],
+      ...groupStarSections(detectStar(question.transcript))
+    });
+
+    if (storySources.length === 0) {
+      storyService.getStorySources(user.id)
+        .then(setStorySources)
+        .catch(error => console.error("Error loading story sources:", error));
+    }
+  };
+
+  const handleCreateStory = async (input: StoryInput) => {
+    if (!user) return;
+
+    try {
+      await storyService.createStory(user.id, input);
+      toast({ title: "Story Saved", description: "Reuse it from the story bank in your next behavioral interview." });
+    } catch (error) {
+      console.error("Error saving story:", error);
+      toast({ title: "Error", description: "Failed to save the story. Please try again.", variant: "destructive" });
+      throw error;
+    }
   };
 
   const getScoreColor = (score: number) => {
@@ -82,92 +263,148 @@ const InterviewResult = () => {
     return <Badge className="bg-red-500">Needs Improvement</Badge>;
   };
 
+  const jumpToMoment = (questionIndex: number, seconds: number) => {
+    setSeekTarget({ questionIndex, seconds });
+    setActiveTab("questions");
+  };
+
+  if (isLoading) {
+    return (
+      <Container>
+        <div className="flex justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </Container>
+    );
+  }
+
+  if (!session) {
+    return (
+      <Container>
+        <div className="py-24 text-center">
+          <h1 className="text-2xl font-bold mb-2">Interview not found</h1>
+          <p className="text-muted-foreground mb-6">This interview does not exist or you do not have access to it.</p>
+          <Button asChild>
+            <Link to="/mock-interview">Back to Mock Interviews</Link>
+          </Button>
+        </div>
+      </Container>
+    );
+  }
+
+  const report = buildInterviewReport(getSessionQuestions(session), responses);
+  const techStack = (session.tech_stack || "").split(",").map(tech => tech.trim()).filter(Boolean);
+  const recommendations = getRecommendations(session, report);
+
+  const scoreCards = [
+    { title: "Overall Score", score: report.overall },
+    { title: "Technical Knowledge", score: report.technical.score },
+    { title: "Communication", score: report.communication.score },
+    { title: "Non-Verbal", score: report.nonVerbal.score },
+  ];
+
+  const feedbackSections: Array<{ key: string; title: string; description: string; area: AreaFeedback }> = [
+    {
+      key: "technical",
+      title: "Technical Knowledge",
+      description: "Assessment of your technical expertise and domain knowledge",
+      area: report.technical
+    },
+    {
+      key: "communication",
+      title: "Communication Skills",
+      description: "Evaluation of how effectively you communicated your ideas",
+      area: report.communication
+    },
+    {
+      key: "nonVerbal",
+      title: "Non-Verbal Communication",
+      description: "Analysis of your body language, facial expressions, and engagement",
+      area: report.nonVerbal
+    },
+  ];
+
+  const videoCards = [
+    { title: "Confidence Score", value: report.video.confidence, inverted: false },
+    { title: "Engagement Score", value: report.video.engagement, inverted: false },
+    { title: "Stress Indicators", value: report.video.stress, inverted: true },
+  ];
+
   return (
     <Container>
       <div className="py-12">
         <div className="mb-8">
           <div className="flex items-center gap-2 text-muted-foreground mb-2">
             <Video className="h-4 w-4" />
-            <span>Interview #{id}</span>
+            <span className="capitalize">{session.session_type} interview</span>
             <span>•</span>
-            <span>{interviewData.date}</span>
+            <span>{new Date(session.started_at).toLocaleDateString()}</span>
             <span>•</span>
-            <span>{interviewData.duration}</span>
+            <span>{formatDuration(report.durationSeconds)}</span>
           </div>
-          <h1 className="text-3xl font-bold tracking-tight mb-3">{interviewData.title}</h1>
-          
+          <h1 className="text-3xl font-bold tracking-tight mb-3">
+            {session.job_role ? `${session.job_role} Interview` : "Mock Interview Session"}
+          </h1>
+
           <div className="flex flex-wrap gap-4 mb-6">
-            <Badge variant="outline" className="px-3 py-1">
-              {interviewData.jobRole}
-            </Badge>
-            {interviewData.techStack.map((tech) => (
+            {session.job_role && (
+              <Badge variant="outline" className="px-3 py-1">
+                {session.job_role}
+              </Badge>
+            )}
+            {techStack.map((tech) => (
               <Badge key={tech} variant="secondary" className="px-3 py-1">
                 {tech}
               </Badge>
             ))}
-            <Badge variant="outline" className="px-3 py-1">
-              {interviewData.experience}
-            </Badge>
+            {session.experience_level && (
+              <Badge variant="outline" className="px-3 py-1">
+                {session.experience_level} years
+              </Badge>
+            )}
           </div>
-          
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium">
-                  Overall Score
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center justify-between">
-                  <div className={`text-3xl font-bold ${getScoreColor(interviewData.overallScore)}`}>
-                    {interviewData.overallScore}%
-                  </div>
-                  {getScoreBadge(interviewData.overallScore)}
-                </div>
-                <Progress 
-                  value={interviewData.overallScore} 
-                  className="h-2 mt-2" 
-                />
-              </CardContent>
-            </Card>
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium">
-                  Technical Knowledge
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center justify-between">
-                  <div className={`text-3xl font-bold ${getScoreColor(interviewData.feedback.technical.score)}`}>
-                    {interviewData.feedback.technical.score}%
-                  </div>
-                  {getScoreBadge(interviewData.feedback.technical.score)}
-                </div>
-                <Progress 
-                  value={interviewData.feedback.technical.score} 
-                  className="h-2 mt-2" 
-                />
-              </CardContent>
-            </Card>
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium">
-                  Communication
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center justify-between">
-                  <div className={`text-3xl font-bold ${getScoreColor(interviewData.feedback.communication.score)}`}>
-                    {interviewData.feedback.communication.score}%
-                  </div>
-                  {getScoreBadge(interviewData.feedback.communication.score)}
-                </div>
-                <Progress 
-                  value={interviewData.feedback.communication.score} 
-                  className="h-2 mt-2" 
-                />
+
+          {session.status !== "completed" && (
+            <Card className="mb-6 border-amber-500/40">
+              <CardContent className="flex items-center justify-between py-4">
+                <p className="text-sm">
+                  This interview is still in progress ({report.answeredCount} of {report.questions.length} questions answered).
+                </p>
+                <Button size="sm" variant="outline" asChild>
+                  <Link to="/mock-interview">Resume</Link>
+                </Button>
               </CardContent>
             </Card>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+            {scoreCards.map(card => (
+              <Card key={card.title}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">
+                    {card.title}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {card.score !== null ? (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <div className={`text-3xl font-bold ${getScoreColor(card.score)}`}>
+                          {card.score}%
+                        </div>
+                        {getScoreBadge(card.score)}
+                      </div>
+                      <Progress
+                        value={card.score}
+                        className="h-2 mt-2"
+                      />
+                    </>
+                  ) : (
+                    <div className="text-sm text-muted-foreground py-2">Not enough data yet</div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
           </div>
         </div>
 
@@ -197,257 +434,145 @@ const InterviewResult = () => {
           </TabsList>
 
           <TabsContent value="feedback" className="space-y-8">
-            <Card>
-              <CardHeader>
-                <CardTitle>Technical Knowledge</CardTitle>
-                <CardDescription>
-                  Assessment of your technical expertise and domain knowledge
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <h3 className="font-medium flex items-center mb-2">
-                    <CheckCircle className="h-4 w-4 text-green-500 mr-2" />
-                    Strengths
-                  </h3>
-                  <ul className="ml-6 space-y-1 list-disc">
-                    {interviewData.feedback.technical.strengths.map((strength, i) => (
-                      <li key={i}>{strength}</li>
-                    ))}
-                  </ul>
-                </div>
-                <div>
-                  <h3 className="font-medium flex items-center mb-2">
-                    <XCircle className="h-4 w-4 text-red-500 mr-2" />
-                    Areas for Improvement
-                  </h3>
-                  <ul className="ml-6 space-y-1 list-disc">
-                    {interviewData.feedback.technical.weaknesses.map((weakness, i) => (
-                      <li key={i}>{weakness}</li>
-                    ))}
-                  </ul>
-                </div>
-                <Separator />
-                <div>
-                  <h3 className="font-medium mb-2">Summary</h3>
-                  <p>{interviewData.feedback.technical.summary}</p>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>Communication Skills</CardTitle>
-                <CardDescription>
-                  Evaluation of how effectively you communicated your ideas
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <h3 className="font-medium flex items-center mb-2">
-                    <CheckCircle className="h-4 w-4 text-green-500 mr-2" />
-                    Strengths
-                  </h3>
-                  <ul className="ml-6 space-y-1 list-disc">
-                    {interviewData.feedback.communication.strengths.map((strength, i) => (
-                      <li key={i}>{strength}</li>
-                    ))}
-                  </ul>
-                </div>
-                <div>
-                  <h3 className="font-medium flex items-center mb-2">
-                    <XCircle className="h-4 w-4 text-red-500 mr-2" />
-                    Areas for Improvement
-                  </h3>
-                  <ul className="ml-6 space-y-1 list-disc">
-                    {interviewData.feedback.communication.weaknesses.map((weakness, i) => (
-                      <li key={i}>{weakness}</li>
-                    ))}
-                  </ul>
-                </div>
-                <Separator />
-                <div>
-                  <h3 className="font-medium mb-2">Summary</h3>
-                  <p>{interviewData.feedback.communication.summary}</p>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>Non-Verbal Communication</CardTitle>
-                <CardDescription>
-                  Analysis of your body language, facial expressions, and engagement
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <h3 className="font-medium flex items-center mb-2">
-                    <CheckCircle className="h-4 w-4 text-green-500 mr-2" />
-                    Strengths
-                  </h3>
-                  <ul className="ml-6 space-y-1 list-disc">
-                    {interviewData.feedback.nonVerbal.strengths.map((strength, i) => (
-                      <li key={i}>{strength}</li>
-                    ))}
-                  </ul>
-                </div>
-                <div>
-                  <h3 className="font-medium flex items-center mb-2">
-                    <XCircle className="h-4 w-4 text-red-500 mr-2" />
-                    Areas for Improvement
-                  </h3>
-                  <ul className="ml-6 space-y-1 list-disc">
-                    {interviewData.feedback.nonVerbal.weaknesses.map((weakness, i) => (
-                      <li key={i}>{weakness}</li>
-                    ))}
-                  </ul>
-                </div>
-                <Separator />
-                <div>
-                  <h3 className="font-medium mb-2">Summary</h3>
-                  <p>{interviewData.feedback.nonVerbal.summary}</p>
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="questions" className="space-y-8">
-            {interviewData.questions.map((question, index) => (
-              <Card key={index}>
+            {feedbackSections.map(section => (
+              <Card key={section.key}>
                 <CardHeader>
-                  <div className="flex justify-between items-start">
-                    <CardTitle className="text-lg">{question.question}</CardTitle>
-                    <Badge 
-                      className={
-                        question.score >= 80 ? "bg-green-500" : 
-                        question.score >= 60 ? "bg-amber-500" : "bg-red-500"
-                      }
-                    >
-                      {question.score}%
-                    </Badge>
-                  </div>
+                  <CardTitle>{section.title}</CardTitle>
+                  <CardDescription>
+                    {section.description}
+                  </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div>
-                    <h3 className="font-medium mb-2">Your Answer</h3>
-                    <div className="bg-muted/30 p-4 rounded-md border text-foreground/90">
-                      {question.answer}
+                  {section.area.strengths.length > 0 && (
+                    <div>
+                      <h3 className="font-medium flex items-center mb-2">
+                        <CheckCircle className="h-4 w-4 text-green-500 mr-2" />
+                        Strengths
+                      </h3>
+                      <ul className="ml-6 space-y-1 list-disc">
+                        {section.area.strengths.map((strength, i) => (
+                          <li key={i}>{strength}</li>
+                        ))}
+                      </ul>
                     </div>
-                  </div>
-                  <div>
-                    <h3 className="font-medium mb-2">Feedback</h3>
-                    <div className="bg-primary/5 p-4 rounded-md border border-primary/20 text-foreground/90">
-                      {question.feedback}
+                  )}
+                  {section.area.weaknesses.length > 0 && (
+                    <div>
+                      <h3 className="font-medium flex items-center mb-2">
+                        <XCircle className="h-4 w-4 text-red-500 mr-2" />
+                        Areas for Improvement
+                      </h3>
+                      <ul className="ml-6 space-y-1 list-disc">
+                        {section.area.weaknesses.map((weakness, i) => (
+                          <li key={i}>{weakness}</li>
+                        ))}
+                      </ul>
                     </div>
+                  )}
+                  <Separator />
+                  <div>
+                    <h3 className="font-medium mb-2">Summary</h3>
+                    <p>{section.area.summary}</p>
                   </div>
                 </CardContent>
               </Card>
             ))}
           </TabsContent>
 
+          <TabsContent value="questions" className="space-y-8">
+            {report.questions.map((question) => (
+              <InterviewQuestionReview
+                key={question.index}
+                report={question}
+                recordingUrl={question.response ? recordingUrls[question.response.id] || null : null}
+                seekSeconds={seekTarget?.questionIndex === question.index ? seekTarget.seconds : null}
+                isTranscribing={!!question.response && transcribingIds.includes(question.response.id)}
+                onTranscribe={question.response ? () => handleTranscribe(question.response) : undefined}
+                expectsStar={session.session_type === "behavioral"}
+                onSaveStory={question.transcript ? () => handleSaveStory(question) : undefined}
+              />
+            ))}
+          </TabsContent>
+
           <TabsContent value="video" className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium">
-                    Confidence Score
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center justify-between">
-                    <div className={`text-3xl font-bold ${getScoreColor(interviewData.videoAnalysis.confidenceScore)}`}>
-                      {interviewData.videoAnalysis.confidenceScore}%
-                    </div>
-                  </div>
-                  <Progress 
-                    value={interviewData.videoAnalysis.confidenceScore} 
-                    className="h-2 mt-2" 
-                  />
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium">
-                    Engagement Score
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center justify-between">
-                    <div className={`text-3xl font-bold ${getScoreColor(interviewData.videoAnalysis.engagementScore)}`}>
-                      {interviewData.videoAnalysis.engagementScore}%
-                    </div>
-                  </div>
-                  <Progress 
-                    value={interviewData.videoAnalysis.engagementScore} 
-                    className="h-2 mt-2" 
-                  />
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium">
-                    Stress Indicators
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center justify-between">
-                    <div className={`text-3xl font-bold ${
-                      interviewData.videoAnalysis.stressIndicators <= 30 ? "text-green-500" :
-                      interviewData.videoAnalysis.stressIndicators <= 60 ? "text-amber-500" : "text-red-500"
-                    }`}>
-                      {interviewData.videoAnalysis.stressIndicators}%
-                    </div>
-                  </div>
-                  <Progress 
-                    value={interviewData.videoAnalysis.stressIndicators} 
-                    className="h-2 mt-2" 
-                  />
-                </CardContent>
-              </Card>
+              {videoCards.map(card => (
+                <Card key={card.title}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">
+                      {card.title}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {card.value !== null ? (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <div className={`text-3xl font-bold ${
+                            card.inverted
+                              ? card.value <= 30 ? "text-green-500" : card.value <= 60 ? "text-amber-500" : "text-red-500"
+                              : getScoreColor(card.value)
+                          }`}>
+                            {card.value}%
+                          </div>
+                        </div>
+                        <Progress
+                          value={card.value}
+                          className="h-2 mt-2"
+                        />
+                      </>
+                    ) : (
+                      <div className="text-sm text-muted-foreground py-2">No samples captured</div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
             </div>
 
             <Card>
               <CardHeader>
                 <CardTitle>Timeline Analysis</CardTitle>
                 <CardDescription>
-                  Key moments from your interview with behavior analysis
+                  Key moments from your interview with behavior analysis. Select one to replay it.
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {interviewData.videoAnalysis.timeline.map((item, index) => (
-                    <div key={index} className="flex items-start space-x-4 p-3 rounded-md border">
-                      <div className="font-mono text-muted-foreground">
-                        {item.time}
-                      </div>
-                      <div className="flex-1">
-                        {item.note}
-                      </div>
-                      <Badge 
-                        className={
-                          item.score >= 80 ? "bg-green-500" : 
-                          item.score >= 60 ? "bg-amber-500" : "bg-red-500"
-                        }
+                {report.video.timeline.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">No facial analysis was recorded for this interview.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {report.video.timeline.map((item, index) => (
+                      <button
+                        key={index}
+                        type="button"
+                        onClick={() => jumpToMoment(item.questionIndex, item.clipSeconds)}
+                        className="w-full text-left flex items-start space-x-4 p-3 rounded-md border hover:bg-muted/50 transition-colors"
                       >
-                        {item.score}
-                      </Badge>
-                    </div>
-                  ))}
-                </div>
+                        <div className="font-mono text-muted-foreground">
+                          {formatTimestamp(item.offsetSeconds)}
+                        </div>
+                        <div className="flex-1">
+                          {item.note}
+                          <div className="text-xs text-muted-foreground">Question {item.questionIndex + 1}</div>
+                        </div>
+                        <Badge
+                          className={
+                            item.score >= 80 ? "bg-green-500" :
+                            item.score >= 60 ? "bg-amber-500" : "bg-red-500"
+                          }
+                        >
+                          {item.score}
+                        </Badge>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
-
-            <div className="flex justify-center mt-6">
-              <Button disabled>
-                View Full Video Recording
-              </Button>
-            </div>
           </TabsContent>
 
           <TabsContent value="recommendations">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {interviewData.recommendations.map((recommendation, index) => (
+              {recommendations.map((recommendation, index) => (
                 <Card key={index} className="overflow-hidden">
                   <CardHeader className="bg-muted/30">
                     <div className="flex items-center gap-2">
@@ -475,7 +600,7 @@ const InterviewResult = () => {
                   </CardContent>
                 </Card>
               ))}
-              
+
               <Card className="border-dashed border-2 flex flex-col items-center justify-center p-6">
                 <Video className="h-12 w-12 text-muted-foreground mb-4" />
                 <h3 className="text-lg font-medium mb-2">Practice Again</h3>
@@ -492,6 +617,14 @@ const InterviewResult = () => {
           </TabsContent>
         </Tabs>
       </div>
+
+      <StoryEditorDialog
+        open={storyDraft !== null}
+        onOpenChange={(open) => !open && setStoryDraft(null)}
+        initial={storyDraft || undefined}
+        sources={storySources}
+        onSave={handleCreateStory}
+      />
     </Container>
   );
 };
@@ -1,111 +1,53 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import InterviewTypeSelector from "@/components/interview/InterviewTypeSelector";
 import TechnicalInterviewSetup from "@/components/interview/TechnicalInterviewSetup";
+import BehavioralInterviewSetup from "@/components/interview/BehavioralInterviewSetup";
+import SystemDesignSetup from "@/components/interview/SystemDesignSetup";
+import StoryBank from "@/components/interview/StoryBank";
 import InterviewSetup from "@/components/interview/InterviewSetup";
 import VideoRecorder from "@/components/interview/VideoRecorder";
+import CodingRound from "@/components/interview/CodingRound";
+import DesignRound from "@/components/interview/DesignRound";
 import Container from "@/components/ui/Container";
 import { ChevronLeft, ChevronRight, Download, Loader2 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import CourseForm from "@/components/course/CourseForm";
 import { useToast } from "@/hooks/use-toast";
-
-const staticQuestions = {
-  "Software Engineer": [
-    "Tell me about your experience with agile development methodologies.",
-    "How do you approach debugging complex issues in your code?",
-    "Describe a time when you had to design a scalable web application.",
-    "How do you use version control in your workflow?",
-    "Tell me about a challenging project you've worked on and how you handled it."
-  ],
-  "Frontend Developer": [
-    "Explain how React hooks work and their advantages over class components.",
-    "How do you optimize website performance?",
-    "What strategies do you use for responsive design?",
-    "How do you approach testing frontend applications?",
-    "How do you ensure cross-browser compatibility in your web applications?"
-  ],
-  "Backend Developer": [
-    "How do you design database schemas for scalability?",
-    "What security measures do you implement in your APIs?",
-    "How have you implemented microservices architecture?",
-    "Explain your approach to error handling in a backend application.",
-    "How do you handle API versioning?"
-  ],
-  "Data Scientist": [
-    "How do you handle data preparation and cleaning?",
-    "Which machine learning algorithms have you used and in what contexts?",
-    "How do you validate your models?",
-    "How do you translate business problems into data science solutions?",
-    "How do you communicate technical findings to non-technical stakeholders?"
-  ],
-  "DevOps Engineer": [
-    "Describe your experience setting up CI/CD pipelines.",
-    "How do you approach infrastructure automation?",
-    "What monitoring and logging practices do you implement?",
-    "How do you ensure security in your DevOps processes?",
-    "How do you handle incident response in a production environment?"
-  ],
-  "ML Engineer": [
-    "Explain your experience with deploying machine learning models to production.",
-    "How do you ensure the quality and reliability of machine learning systems?",
-    "Describe your approach to feature engineering and selection.",
-    "How do you handle the challenges of training models on large datasets?",
-    "How do you keep up with the rapidly evolving field of machine learning?"
-  ],
-  "Full Stack Developer": [
-    "How do you manage the frontend and backend parts of an application?",
-    "What's your approach to ensuring data consistency across the stack?",
-    "Tell me about a full stack project you've worked on from inception to deployment.",
-    "How do you handle authentication and authorization in a full stack app?",
-    "What strategies do you use for state management across the entire application?"
-  ],
-  "Cloud Architect": [
-    "How do you approach designing multi-region, highly available cloud architectures?",
-    "Describe your experience with cloud cost optimization.",
-    "How do you implement security in cloud environments?",
-    "Explain how you manage cloud infrastructure at scale.",
-    "How do you approach migrating legacy applications to the cloud?"
-  ],
-  "Default": [
-    "Tell me about your background and experience.",
-    "What are your strengths and weaknesses?",
-    "How do you stay updated with the latest technologies?",
-    "How do you approach problem-solving?",
-    "Where do you see yourself in 5 years?"
-  ]
-};
-
-enum InterviewStage {
-  TypeSelection = "type_selection",
-  Setup = "setup", 
-  Questions = "questions",
-  Recording = "recording",
-  Complete = "complete",
-}
+import { useInterview, InterviewStage } from "@/context/InterviewContext";
+import { BehavioralCompetency } from "@/data/behavioralQuestions";
 
 const MockInterview = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [isLoading, setIsLoading] = useState(false);
-  const [stage, setStage] = useState<InterviewStage>(InterviewStage.TypeSelection);
-  const [selectedInterviewType, setSelectedInterviewType] = useState<string>("");
-  const [questions, setQuestions] = useState<string[]>([]);
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const {
+    isLoading,
+    stage,
+    setStage,
+    interviewType: selectedInterviewType,
+    selectInterviewType,
+    questions,
+    currentQuestionIndex,
+    isRecording,
+    recordingComplete,
+    isProcessing,
+    isPreparingNext,
+    recentInterviews,
+    isLoadingInterviews,
+    handleInterviewSetup,
+    handleAnswerSubmitted,
+    handleNextQuestion,
+    startRecording,
+    stopRecording,
+    handleCancel,
+    handleDownloadInterview,
+    resumeInterview,
+  } = useInterview();
   const [isCourseTabActive, setCourseTabActive] = useState(false);
   const [isGeneratingCourse, setIsGeneratingCourse] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
-  const [recordingComplete, setRecordingComplete] = useState(false);
-  const [interviewId, setInterviewId] = useState<string>("mock-001");
-
-  // Static mock interviews data
-  const recentInterviews = [
-    { id: "mock-001", job_role: "Frontend Developer", tech_stack: "React, TypeScript", experience: "3-5", created_at: new Date().toISOString(), user_id: "mock-user", completed: true },
-    { id: "mock-002", job_role: "Full Stack Engineer", tech_stack: "Node.js, Express, MongoDB", experience: "1-3", created_at: new Date().toISOString(), user_id: "mock-user", completed: false },
-    { id: "mock-003", job_role: "Data Scientist", tech_stack: "Python, TensorFlow, PyTorch", experience: "5+", created_at: new Date().toISOString(), user_id: "mock-user", completed: true },
-  ];
 
   // Static mock courses data
   const recentCourses = [
@@ -138,61 +80,6 @@ const MockInterview = () => {
     }
   ];
 
-  const handleTypeSelection = (type: string) => {
-    setSelectedInterviewType(type);
-    setStage(InterviewStage.Setup);
-  };
-    const handleInterviewSetup = (role: string, techStack: string, experience: string) => {
-    
-    // Generate a mock interview ID
-    const mockId = `mock-${Date.now()}`;
-    setInterviewId(mockId);
-    
-    // Get questions based on role
-    const jobType = role.includes("Frontend") ? "Frontend Developer" :
-                    role.includes("Backend") ? "Backend Developer" :
-                    role.includes("Full") ? "Full Stack Developer" :
-                    role.includes("Data") ? "Data Scientist" :
-                    role.includes("DevOps") ? "DevOps Engineer" :
-                    role.includes("ML") ? "ML Engineer" :
-                    role.includes("Cloud") ? "Cloud Architect" : "Default";
-    
-    const interviewQuestions = staticQuestions[jobType as keyof typeof staticQuestions] || staticQuestions["Default"];
-    
-    // Set up the questions
-    setQuestions(interviewQuestions);
-    setCurrentQuestionIndex(0);
-    
-    // Update UI
-    toast({
-      title: "Interview Created",
-      description: "Your mock interview has been set up successfully.",
-    });
-    
-    setIsLoading(false);
-    setStage(InterviewStage.Questions);
-  };
-
-  const handleAnswerSubmitted = () => {
-    setRecordingComplete(true);
-    toast({
-      title: "Answer Recorded",
-      description: "Your answer has been recorded successfully.",
-    });
-  };
-
-  const handleNextQuestion = () => {
-    setRecordingComplete(false);
-    
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(prev => prev + 1);
-      setStage(InterviewStage.Questions);
-    } else {
-      // Interview is complete, navigate directly to results
-      navigate(`/interview-result/mock-001`);
-    }
-  };
-
   const handleSubmitCourse = (courseName: string, purpose: string, difficulty: string) => {
     setIsGeneratingCourse(true);
     
@@ -208,43 +95,37 @@ const MockInterview = () => {
     }, 2000);
   };
 
-  const startRecording = () => {
-    setIsRecording(true);
-  };
-  
-  const stopRecording = () => {
-    setIsRecording(false);
-    handleAnswerSubmitted(); // Auto-submit when recording stops
-  };
-  
-  const handleCancel = () => {
-    setStage(InterviewStage.Questions);
-  };
-
-  const handleDownloadInterview = () => {
-    toast({
-      title: "Interview Downloaded",
-      description: "Your interview has been downloaded successfully.",
-    });
-  };
-
-  const resumeInterview = (interview: any) => {
-    // Set up with static interview questions
-    const jobType = interview.job_role.includes("Frontend") ? "Frontend Developer" :
-                    interview.job_role.includes("Backend") ? "Backend Developer" :
-                    interview.job_role.includes("Full") ? "Full Stack Developer" :
-                    interview.job_role.includes("Data") ? "Data Scientist" :
-                    interview.job_role.includes("DevOps") ? "DevOps Engineer" :
-                    interview.job_role.includes("ML") ? "ML Engineer" :
-                    interview.job_role.includes("Cloud") ? "Cloud Architect" : "Default";
-    
-    const interviewQuestions = staticQuestions[jobType as keyof typeof staticQuestions] || staticQuestions["Default"];
-    
-    setQuestions(interviewQuestions);
-    setCurrentQuestionIndex(0);
-    setInterviewId(interview.id);
-    setStage(InterviewStage.Questions);
-  };
+  const renderAnswerActions = () => (
+    <div className="mt-6 flex justify-center space-x-4">
+      {isProcessing ? (
+        <Button disabled className="px-6 py-3 rounded-lg flex items-center space-x-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Saving answer...</span>
+        </Button>
+      ) : isPreparingNext ? (
+        <Button disabled className="px-6 py-3 rounded-lg flex items-center space-x-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Preparing next question...</span>
+        </Button>
+      ) : recordingComplete ? (
+        <Button 
+          onClick={handleNextQuestion}
+          className="px-6 py-3 bg-primary text-white rounded-lg flex items-center space-x-2"
+        >
+          <span>{currentQuestionIndex < questions.length - 1 ? "Next Question" : "Finish Interview"}</span>
+          <ChevronRight size={16} />
+        </Button>
+      ) : (
+        <Button 
+          variant="outline" 
+          onClick={handleCancel}
+          disabled={isRecording}
+        >
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
 
   const renderStage = () => {
     switch (stage) {
@@ -278,14 +159,22 @@ const MockInterview = () => {
               
               <Card className="mb-8">
                 <CardHeader>
-                  <CardTitle>Question {currentQuestionIndex + 1}</CardTitle>
+                  <CardTitle className="flex items-center gap-2">
+                    Question {currentQuestionIndex + 1}
+                    {questions[currentQuestionIndex]?.is_follow_up && (
+                      <Badge variant="secondary">Follow-up</Badge>
+                    )}
+                    {questions[currentQuestionIndex]?.difficulty && (
+                      <Badge variant="outline" className="capitalize">{questions[currentQuestionIndex].difficulty}</Badge>
+                    )}
+                  </CardTitle>
                   <CardDescription>
                     Take a moment to think about your answer before recording.
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="p-4 bg-muted rounded-md text-lg">
-                    {questions[currentQuestionIndex]}
+                    {questions[currentQuestionIndex]?.question}
                   </div>
                 </CardContent>
               </Card>
@@ -335,6 +224,10 @@ const MockInterview = () => {
             </div>
             
             <div className="space-y-6">
+              {selectedInterviewType === 'behavioral' && questions[currentQuestionIndex]?.topic && (
+                <StoryBank competency={questions[currentQuestionIndex].topic as BehavioralCompetency} compact />
+              )}
+
               <Card>
                 <CardHeader>
                   <CardTitle>Camera Preview</CardTitle>
@@ -375,15 +268,66 @@ const MockInterview = () => {
         );
       
       case InterviewStage.Recording:
+        if (questions[currentQuestionIndex]?.kind === "coding") {
+          return (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">
+                  Question {currentQuestionIndex + 1}: Coding Round
+                </h2>
+                <span className="text-sm text-muted-foreground">
+                  Question {currentQuestionIndex + 1} of {questions.length}
+                </span>
+              </div>
+              <CodingRound
+                key={questions[currentQuestionIndex].id}
+                question={questions[currentQuestionIndex]}
+                isRecording={isRecording}
+                startRecording={startRecording}
+                stopRecording={stopRecording}
+                onRecordingComplete={(blob, samples, codingSession) => handleAnswerSubmitted(blob, samples, { codingSession })}
+              />
+              {renderAnswerActions()}
+            </div>
+          );
+        }
+
+        if (questions[currentQuestionIndex]?.kind === "design") {
+          return (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">
+                  Question {currentQuestionIndex + 1}: System Design
+                </h2>
+                <span className="text-sm text-muted-foreground">
+                  Question {currentQuestionIndex + 1} of {questions.length}
+                </span>
+              </div>
+              <DesignRound
+                key={questions[currentQuestionIndex].id}
+                question={questions[currentQuestionIndex]}
+                isRecording={isRecording}
+                startRecording={startRecording}
+                stopRecording={stopRecording}
+                onRecordingComplete={(blob, samples, designDiagram) => handleAnswerSubmitted(blob, samples, { designDiagram })}
+              />
+              {renderAnswerActions()}
+            </div>
+          );
+        }
+
         return (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div>
               <div className="mb-6">
-                <h2 className="text-xl font-semibold mb-2">
+                <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
                   Question {currentQuestionIndex + 1}:
+                  {questions[currentQuestionIndex]?.is_follow_up && (
+                    <Badge variant="secondary">Follow-up</Badge>
+                  )}
                 </h2>
                 <div className="p-4 bg-muted rounded-md text-lg mb-4">
-                  {questions[currentQuestionIndex]}
+                  {questions[currentQuestionIndex]?.question}
                 </div>
                 <p className="text-muted-foreground">
                   When you're ready, click "Start Recording" and begin your answer. We'll analyze both your verbal response and facial expressions.
@@ -427,24 +371,7 @@ const MockInterview = () => {
                 stopRecording={stopRecording}
               />
               
-              <div className="mt-6 flex justify-center space-x-4">
-                {recordingComplete ? (
-                  <Button 
-                    onClick={handleNextQuestion}
-                    className="px-6 py-3 bg-primary text-white rounded-lg flex items-center space-x-2"
-                  >
-                    <span>Next Question</span>
-                    <ChevronRight size={16} />
-                  </Button>
-                ) : (
-                  <Button 
-                    variant="outline" 
-                    onClick={handleCancel}
-                  >
-                    Cancel
-                  </Button>
-                )}
-              </div>
+              {renderAnswerActions()}
             </div>
           </div>
         );
@@ -458,49 +385,67 @@ const MockInterview = () => {
     return (
       <div className="mt-12">
         <h2 className="text-xl font-semibold mb-4">Recent Mock Interviews</h2>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {recentInterviews.map((interview) => (
-            <Card key={interview.id} className="overflow-hidden">
-              <CardHeader className="pb-4">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <CardTitle className="text-lg">{interview.job_role}</CardTitle>
-                    <CardDescription>{new Date(interview.created_at).toLocaleDateString()}</CardDescription>
+        {isLoadingInterviews ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : recentInterviews.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8 text-muted-foreground">
+              No interviews yet. Choose an interview type above to start your first one.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {recentInterviews.map((interview) => (
+              <Card key={interview.id} className="overflow-hidden">
+                <CardHeader className="pb-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <CardTitle className="text-lg">{interview.job_role}</CardTitle>
+                      <CardDescription>
+                        {new Date(interview.created_at).toLocaleDateString()}
+                        {!interview.completed && interview.question_count
+                          ? ` · Question ${Math.min((interview.current_question_index || 0) + 1, interview.question_count)} of ${interview.question_count}`
+                          : ""}
+                      </CardDescription>
+                    </div>
+                    <div className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      interview.completed ? "bg-green-500/10 text-green-500" : "bg-amber-500/10 text-amber-500"
+                    }`}>
+                      {interview.completed ? "Completed" : "In Progress"}
+                    </div>
                   </div>
-                  <div className={`px-2 py-1 text-xs font-medium rounded-full ${
-                    interview.completed ? "bg-green-500/10 text-green-500" : "bg-amber-500/10 text-amber-500"
-                  }`}>
-                    {interview.completed ? "Completed" : "In Progress"}
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-2 mb-4">
+                    {interview.tech_stack.split(',').filter(tech => tech.trim()).map((tech, i) => (
+                      <div key={i} className="px-2 py-1 text-xs font-medium rounded-full bg-secondary">
+                        {tech.trim()}
+                      </div>
+                    ))}
                   </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center gap-2 mb-4">
-                  {interview.tech_stack.split(',').map((tech, i) => (
-                    <div key={i} className="px-2 py-1 text-xs font-medium rounded-full bg-secondary">
-                      {tech.trim()}
-                    </div>
-                  ))}
-                </div>
-                <div className="mt-4">
-                  <Button 
-                    variant="outline" 
-                    className="w-full" 
-                    onClick={() => {
-                      if (interview.completed) {
-                        navigate(`/interview-result/${interview.id}`);
-                      } else {
-                        resumeInterview(interview);
-                      }
-                    }}
-                  >
-                    {interview.completed ? "View Results" : "Resume Interview"}
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+                  <div className="mt-4">
+                    <Button 
+                      variant="outline" 
+                      className="w-full" 
+                      disabled={isLoading}
+                      onClick={() => {
+                        if (interview.completed) {
+                          navigate(`/interview-result/${interview.id}`);
+                        } else {
+                          resumeInterview(interview);
+                        }
+                      }}
+                    >
+                      {interview.completed ? "View Results" : "Resume Interview"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
       </div>
     );
   };
@@ -584,7 +529,7 @@ const MockInterview = () => {
         <>
           {stage === InterviewStage.TypeSelection && (
             <div className="space-y-8">
-              <InterviewTypeSelector onSelectType={handleTypeSelection} selectedType={selectedInterviewType} />
+              <InterviewTypeSelector onSelectType={selectInterviewType} selectedType={selectedInterviewType} />
               {renderRecentInterviews()}
             </div>
           )}
@@ -597,13 +542,25 @@ const MockInterview = () => {
                   onBack={() => setStage(InterviewStage.TypeSelection)}
                   isLoading={isLoading} 
                 />
+              ) : selectedInterviewType === 'behavioral' ? (
+                <BehavioralInterviewSetup
+                  onSubmit={handleInterviewSetup}
+                  onBack={() => setStage(InterviewStage.TypeSelection)}
+                  isLoading={isLoading}
+                />
+              ) : selectedInterviewType === 'system_design' ? (
+                <SystemDesignSetup
+                  onSubmit={handleInterviewSetup}
+                  onBack={() => setStage(InterviewStage.TypeSelection)}
+                  isLoading={isLoading}
+                />
               ) : (
                 <InterviewSetup 
                   onSubmit={handleInterviewSetup} 
                   isLoading={isLoading} 
                 />
               )}
-              {selectedInterviewType !== 'technical' && renderRecentInterviews()}
+              {selectedInterviewType !== 'technical' && selectedInterviewType !== 'behavioral' && selectedInterviewType !== 'system_design' && renderRecentInterviews()}
             </div>
           )}
           
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -14,7 +15,9 @@ import {
   FolderOpen,
   FileText,
   CheckCircle,
-  Eye 
+  Eye,
+  FileDown,
+  Copy
 } from "lucide-react";
 import Container from "@/components/ui/Container";
 import PersonalInfoForm from "@/components/profile/PersonalInfoForm";
@@ -25,6 +28,8 @@ import SkillsForm from "@/components/profile/SkillsForm";
 import CertificationsForm from "@/components/profile/CertificationsForm";
 import ResumeUpload from "@/components/profile/ResumeUpload";
 import ProfilePreview from "@/components/profile/ProfilePreview";
+import ResumeBuilder from "@/components/profile/ResumeBuilder";
+import ResumeVariants from "@/components/profile/ResumeVariants";
 import { useProfile } from "@/hooks/useProfile";
 import { UserProfile } from "@/types/profile";
 
@@ -37,12 +42,18 @@ const sections = [
   { id: 'skills', name: 'Skills', icon: Code, component: SkillsForm, description: 'Technical and soft skills with proficiency levels' },
   { id: 'certifications', name: 'Certifications', icon: Award, component: CertificationsForm, description: 'Professional certifications and achievements' },
   { id: 'preview', name: 'Preview', icon: Eye, component: ProfilePreview, description: 'Preview your complete profile' },
+  { id: 'resume-builder', name: 'Resume Builder', icon: FileDown, component: ResumeBuilder, description: 'Export your profile as a PDF or Word resume' },
+  { id: 'variants', name: 'Tailored Resumes', icon: Copy, component: ResumeVariants, description: 'Resume versions tailored to specific jobs and where you sent them' },
 ];
 
 export default function ProfileBuilder() {
   const { user } = useAuth();
   const { profile, updateProfile, isLoading } = useProfile();
-  const [activeSection, setActiveSection] = useState("resume");
+  const [searchParams] = useSearchParams();
+  const [activeSection, setActiveSection] = useState(() => {
+    const requested = searchParams.get('section') ?? "";
+    return sections.some(s => s.id === requested) ? requested : "resume";
+  });
 
   const currentSection = sections.find(s => s.id === activeSection) || sections[0];
 
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,7 +18,9 @@ import {
   Star,
   Briefcase,
   ArrowRight,
-  User
+  User,
+  Copy,
+  Loader2
 } from "lucide-react";
 import Container from "@/components/ui/Container";
 import { useToast } from "@/hooks/use-toast"; 
@@ -25,6 +28,13 @@ import ResumePreview from "@/components/profile/ResumePreview";
 import JobRoleSuggestions from "@/components/resume/JobRoleSuggestions";
 import { useProfile } from "@/hooks/useProfile";
 import { useAuth } from "@/hooks/useAuth";
+import { resumeVariantService } from "@/api/services/resumeVariantService";
+import { ResumeAnalysisResponse } from "@/api/services/resumeService";
+import { getAuthHeaders } from "@/api/services/backendService";
+import { resumeAnalysisService } from "@/api/services/resumeAnalysisService";
+import ResumeAnalysisHistory from "@/components/resume/ResumeAnalysisHistory";
+import ProfileMergeDialog from "@/components/profile/ProfileMergeDialog";
+import { extractResumeText, scoreResume } from "@/lib/atsScoring";
 
 export default function ResumeAnalyzer() {
   const [step, setStep] = useState<'job-role' | 'upload' | 'analysis'>('job-role');
@@ -33,9 +43,13 @@ export default function ResumeAnalyzer() {
   const [file, setFile] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<any>(null);
+  const [isCreatingVariant, setIsCreatingVariant] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [isReviewingProfile, setIsReviewingProfile] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
-  const { uploadResume, applyExtractedData } = useProfile();
+  const navigate = useNavigate();
+  const { profile, uploadResume } = useProfile();
 
   const handleJobRoleSubmit = () => {
     if (!jobRole.trim()) {
@@ -70,26 +84,47 @@ export default function ResumeAnalyzer() {
     setStep('analysis');
     
     try {
+      // Read the text in the browser too, so the resume can still be scored
+      // when the analyzer service is down
+      const localText = extractResumeText(file).catch(error => {
+        console.warn('Could not read the resume in the browser:', error);
+        return null;
+      });
+
       // Create FormData for file upload
       const formData = new FormData();
       formData.append('resume', file);
       formData.append('job_role', jobRole);
       formData.append('job_description', jobDescription);
 
-      // Call resume analyzer via API Gateway
-      const response = await fetch('http://localhost:8000/resume/analyze', {
-        method: 'POST',
-        body: formData,
-      });
+      let result: ResumeAnalysisResponse | null = null;
+      try {
+        // Call resume analyzer via API Gateway
+        const response = await fetch('http://localhost:8000/resume/analyze', {
+          method: 'POST',
+          headers: await getAuthHeaders(),
+          body: formData,
+        });
 
-      if (!response.ok) {
-        throw new Error('Failed to analyze resume');
+        if (!response.ok) {
+          throw new Error('Failed to analyze resume');
+        }
+
+        result = await response.json();
+      } catch (error) {
+        console.warn('Resume analyzer unavailable, using the offline ATS check:', error);
       }
 
-      const result = await response.json();
-      
+      const text = (await localText) || result?.extracted_text || null;
+      const offlineAnalysis = text ? scoreResume({ text, jobRole, jobDescription }) : null;
+      // The service answers with a placeholder when none of its AI providers respond
+      const aiResult = result && result.analysis.ai_provider !== 'fallback' ? result : null;
+
       // The backend returns the analysis directly
-      const analysisData = result.analysis;
+      const analysisData = aiResult ? aiResult.analysis : offlineAnalysis;
+      if (!analysisData) {
+        throw new Error('Failed to analyze resume');
+      }
       const analysisResults = {
         score: analysisData.overall_score,
         jobMatchScore: analysisData.job_match_score,
@@ -101,33 +136,45 @@ export default function ResumeAnalyzer() {
         keywords: analysisData.keywords_found,
         missingKeywords: analysisData.missing_keywords,
         jobRole: jobRole,
-        parsedContent: result.extracted_text,
-        deepAnalysis: analysisData.deep_analysis,
+        parsedContent: text,
+        deepAnalysis: aiResult ? aiResult.analysis.deep_analysis : analysisData.sections_analysis,
         sectionsAnalysis: analysisData.sections_analysis,
         improvementPriority: analysisData.improvement_priority,
         roleSpecificAdvice: analysisData.role_specific_advice,
-        extractedData: result.extracted_data
+        extractedData: aiResult?.extracted_data,
+        extractionConfidence: aiResult?.confidence_score,
+        source: aiResult ? 'ai' : 'offline',
+        // Kept alongside the AI result so the two can be compared
+        offlineAnalysis: aiResult ? offlineAnalysis : null
       };
       
       setAnalysisResult(analysisResults);
       setIsAnalyzing(false);
+
+      // Keep this version in the history; the analysis is shown either way
+      if (user) {
+        resumeAnalysisService.saveAnalysis(user.id, {
+          file,
+          jobRole,
+          jobDescription,
+          extractedText: text,
+          analysis: analysisData,
+          source: aiResult ? 'ai' : 'offline'
+        })
+          .then(() => setHistoryKey(key => key + 1))
+          .catch(error => console.error('Failed to save resume analysis:', error));
+      }
       
       toast({
         title: "Analysis Complete",
-        description: `Your resume has been analyzed for ${jobRole} positions!`
+        description: aiResult
+          ? `Your resume has been analyzed for ${jobRole} positions!`
+          : `The AI analyzer is unavailable, so your resume was scored with the offline ATS check for ${jobRole} positions.`
       });
 
-      // Ask user if they want to update their profile
-      if (user && result.extracted_data) {
-        setTimeout(() => {
-          const shouldUpdateProfile = window.confirm(
-            "🤖 AI Agent: I've extracted profile data from your resume analysis. Would you like me to auto-fill your profile with this data?\n\nClick OK to update your profile, or Cancel to skip."
-          );
-          
-          if (shouldUpdateProfile) {
-            handleUpdateProfile(result.extracted_data);
-          }
-        }, 2000);
+      // Offer to review the extracted data against the profile
+      if (user && aiResult?.extracted_data) {
+        setIsReviewingProfile(true);
       }
     } catch (error) {
       console.error("Analysis failed:", error);
@@ -140,32 +187,30 @@ export default function ResumeAnalyzer() {
     }
   };
 
-  const handleUpdateProfile = async (extractedData: any) => {
-    if (!user) return;
-    
+  // Saves a copy of the profile aimed at this role, seeded with the analysis
+  const createTailoredVariant = async () => {
+    if (!user || !profile) return;
+
     try {
-      toast({
-        title: "🤖 Updating Profile...",
-        description: "Applying extracted data to your profile sections.",
+      setIsCreatingVariant(true);
+      const variant = await resumeVariantService.createVariant(user.id, profile, {
+        name: jobRole,
+        job_role: jobRole,
+        job_description: jobDescription || null,
+        target_keywords: analysisResult.missingKeywords || [],
+        skill_gaps: analysisResult.skillGaps || [],
+        advice: analysisResult.roleSpecificAdvice || []
       });
-
-      const success = await applyExtractedData(extractedData);
-      
-      if (success) {
-        toast({
-          title: "✅ Profile Updated!",
-          description: "Your profile has been updated with the analyzed resume data.",
-        });
-      } else {
-        throw new Error('Failed to update profile');
-      }
+      navigate(`/profile-builder?section=variants&variant=${variant.id}`);
     } catch (error) {
-      console.error('Failed to update profile:', error);
+      console.error('Failed to create resume variant:', error);
       toast({
-        title: "Update Failed",
-        description: "Couldn't update your profile. Please try again.",
+        title: "Variant Not Created",
+        description: "Couldn't create a tailored resume. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsCreatingVariant(false);
     }
   };
 
@@ -337,6 +382,14 @@ export default function ResumeAnalyzer() {
         {/* Analysis Results */}
         {step === 'analysis' && analysisResult && !isAnalyzing && (
           <div className="space-y-6">
+            {analysisResult.source === 'offline' && (
+              <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                Scored with the offline ATS check because the AI analyzer is unavailable. Scores come from
+                section, keyword, bullet and formatting rules rather than an AI review.
+              </div>
+            )}
+
             {/* Score Overview */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <Card>
@@ -401,6 +454,45 @@ export default function ResumeAnalyzer() {
               </Card>
             </div>
 
+            {/* AI vs offline scores */}
+            {analysisResult.offlineAnalysis && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Brain className="h-5 w-5 text-purple-500" />
+                    AI vs Offline ATS Check
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4 text-center text-sm">
+                    {[
+                      { label: "Overall", ai: analysisResult.score, offline: analysisResult.offlineAnalysis.overall_score },
+                      { label: "Job Match", ai: analysisResult.jobMatchScore, offline: analysisResult.offlineAnalysis.job_match_score },
+                      { label: "ATS", ai: analysisResult.atsScore, offline: analysisResult.offlineAnalysis.ats_score }
+                    ].map(row => (
+                      <div key={row.label} className="space-y-1">
+                        <p className="text-muted-foreground">{row.label}</p>
+                        <p className="font-semibold">{row.ai} <span className="text-muted-foreground font-normal">vs</span> {row.offline}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {analysisResult.offlineAnalysis.missing_keywords.length > 0 && (
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-2">Keywords the offline check found missing</p>
+                      <div className="flex flex-wrap gap-2">
+                        {analysisResult.offlineAnalysis.missing_keywords.map((keyword: string) => (
+                          <Badge key={keyword} variant="outline">{keyword}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    The offline check applies fixed rules to the same resume, so large gaps point to things worth a second look.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Resume Preview with Analysis */}
             {file && <ResumePreview file={file} showAnalysis={true} fullView={true} />}
 
@@ -545,18 +637,36 @@ export default function ResumeAnalyzer() {
                 <Button 
                   size="lg" 
                   className="flex-1"
-                  onClick={() => handleUpdateProfile(analysisResult.extractedData)}
+                  onClick={() => setIsReviewingProfile(true)}
                 >
                   <User className="h-4 w-4 mr-2" />
                   Update My Profile with Analysis
                 </Button>
               )}
+              {user && profile && (
+                <Button size="lg" variant="secondary" onClick={createTailoredVariant} disabled={isCreatingVariant}>
+                  {isCreatingVariant ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Copy className="h-4 w-4 mr-2" />}
+                  Create Tailored Resume
+                </Button>
+              )}
               <Button variant="outline" size="lg" onClick={startOver}>
                 Analyze Another Role
               </Button>
             </div>
           </div>
         )}
+
+        {user && !isAnalyzing && <ResumeAnalysisHistory userId={user.id} refreshKey={historyKey} />}
+
+        {user && analysisResult?.extractedData && (
+          <ProfileMergeDialog
+            open={isReviewingProfile}
+            onOpenChange={setIsReviewingProfile}
+            extractedData={analysisResult.extractedData}
+            confidenceScore={analysisResult.extractionConfidence}
+            source={file?.name}
+          />
+        )}
       </div>
     </Container>
   );
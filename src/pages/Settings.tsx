@@ -20,7 +20,9 @@ import {
   Eye,
   EyeOff,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Loader2,
+  Zap
 } from "lucide-react";
 import {
   Select,
@@ -29,11 +31,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import AIUsageCard from "@/components/settings/AIUsageCard";
+import { AI_PROVIDERS, AISettings, baseUrlProblem, getProviderInfo, isAIProviderId, settingsToConfig, testAIProvider } from "@/lib/ai";
 
 interface UserSettings {
   id?: string;
   user_id: string;
-  gemini_api_key?: string;
+  ai_provider?: string | null;
+  ai_model?: string | null;
+  ai_base_url?: string | null;
+  ai_api_key?: string | null;
   preferred_difficulty: string;
   preferred_language: string;
   theme_preference: string;
@@ -41,6 +48,13 @@ interface UserSettings {
   updated_at?: string;
 }
 
+const emptyAIDraft: AISettings = { ai_provider: null, ai_model: null, ai_base_url: null, ai_api_key: null };
+
+const DEFAULT_PROVIDER_VALUE = "default";
+
+// The mock provider returns canned text, so only offer it in development
+const selectableProviders = AI_PROVIDERS.filter(info => info.id !== "mock" || import.meta.env.DEV);
+
 const Settings = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -48,7 +62,8 @@ const Settings = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [showApiKey, setShowApiKey] = useState(false);
-  const [tempApiKey, setTempApiKey] = useState("");
+  const [aiDraft, setAiDraft] = useState<AISettings>(emptyAIDraft);
+  const [isTesting, setIsTesting] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -74,7 +89,12 @@ const Settings = () => {
 
       if (data) {
         setSettings(data);
-        setTempApiKey(data.gemini_api_key || "");
+        setAiDraft({
+          ai_provider: data.ai_provider,
+          ai_model: data.ai_model,
+          ai_base_url: data.ai_base_url,
+          ai_api_key: data.ai_api_key
+        });
       } else {
         // Create default settings
         const defaultSettings: UserSettings = {
@@ -141,26 +161,69 @@ const Settings = () => {
     }
   };
 
-  const handleSaveApiKey = async () => {
-    if (!tempApiKey.trim()) {
+  const selectedProvider = isAIProviderId(aiDraft.ai_provider) ? getProviderInfo(aiDraft.ai_provider) : null;
+
+  const updateAiDraft = (updates: Partial<AISettings>) => {
+    setAiDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  const handleProviderChange = (value: string) => {
+    // Models and URLs do not carry over between providers
+    setAiDraft(value === DEFAULT_PROVIDER_VALUE
+      ? emptyAIDraft
+      : { ...emptyAIDraft, ai_provider: value, ai_api_key: value === settings?.ai_provider ? aiDraft.ai_api_key : null });
+  };
+
+  const handleSaveAI = async () => {
+    const baseUrl = selectedProvider?.id === "openai_compatible" ? aiDraft.ai_base_url?.trim() || null : null;
+    const problem = selectedProvider?.id === "openai_compatible" ? baseUrlProblem(baseUrl || "") : null;
+    if (problem) {
       toast({
-        title: "Invalid API Key",
-        description: "Please enter a valid Gemini API key.",
+        title: "Invalid Server URL",
+        description: problem,
         variant: "destructive",
       });
       return;
     }
 
-    await updateSettings({ gemini_api_key: tempApiKey.trim() });
+    await updateSettings({
+      ai_provider: selectedProvider?.id ?? null,
+      ai_model: aiDraft.ai_model?.trim() || null,
+      ai_base_url: baseUrl,
+      ai_api_key: selectedProvider ? aiDraft.ai_api_key?.trim() || null : null
+    });
+  };
+
+  const handleTestAI = async () => {
+    const config = settingsToConfig(aiDraft);
+    if (!config) return;
+
+    try {
+      setIsTesting(true);
+      const result = await testAIProvider(config);
+      toast({
+        title: "Connection Works",
+        description: `${selectedProvider?.label} answered with ${result.model} in ${result.latencyMs} ms.`,
+      });
+    } catch (error) {
+      console.error('AI provider test failed:', error);
+      toast({
+        title: "Connection Failed",
+        description: error instanceof Error ? error.message : "The provider did not respond.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsTesting(false);
+    }
   };
 
   const handleRemoveApiKey = async () => {
-    if (!confirm("Are you sure you want to remove your Gemini API key? This will disable AI-powered course generation.")) {
+    if (!confirm("Are you sure you want to remove your API key? Requests will use the server's key for this provider, if it has one.")) {
       return;
     }
 
-    setTempApiKey("");
-    await updateSettings({ gemini_api_key: null });
+    updateAiDraft({ ai_api_key: null });
+    await updateSettings({ ai_api_key: null });
   };
 
   if (!user) {
@@ -254,45 +317,98 @@ const Settings = () => {
           </CardContent>
         </Card>
 
-        {/* API Configuration */}
+        {/* AI Provider */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center">
               <Key className="w-5 h-5 mr-2" />
-              AI API Configuration
+              AI Provider
             </CardTitle>
             <CardDescription>
-              Configure your AI API keys for enhanced course generation
+              Choose the model used for course generation, interview questions and answer scoring
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            {/* Gemini API Key */}
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="gemini-api-key" className="text-base font-medium">
-                    Gemini API Key
-                  </Label>
-                  <p className="text-sm text-muted-foreground">
-                    Required for AI-powered course content generation
-                  </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ai-provider">Provider</Label>
+                <Select
+                  value={selectedProvider?.id || DEFAULT_PROVIDER_VALUE}
+                  onValueChange={handleProviderChange}
+                >
+                  <SelectTrigger id="ai-provider">
+                    <SelectValue placeholder="Select provider" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_PROVIDER_VALUE}>Server default</SelectItem>
+                    {selectableProviders.map(info => (
+                      <SelectItem key={info.id} value={info.id}>{info.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {selectedProvider && (
+                <div className="space-y-2">
+                  <Label htmlFor="ai-model">Model</Label>
+                  <Input
+                    id="ai-model"
+                    list="ai-model-suggestions"
+                    value={aiDraft.ai_model || ""}
+                    onChange={(e) => updateAiDraft({ ai_model: e.target.value })}
+                    placeholder={selectedProvider.defaultModel}
+                  />
+                  <datalist id="ai-model-suggestions">
+                    {selectedProvider.models.map(model => (
+                      <option key={model} value={model} />
+                    ))}
+                  </datalist>
                 </div>
-                {settings?.gemini_api_key && (
-                  <Badge variant="secondary" className="bg-green-100 text-green-800">
-                    <CheckCircle className="w-3 h-3 mr-1" />
-                    Configured
-                  </Badge>
-                )}
+              )}
+            </div>
+
+            {!selectedProvider && (
+              <p className="text-sm text-muted-foreground">
+                Requests use the provider and model configured on the server.
+              </p>
+            )}
+
+            {selectedProvider?.id === "openai_compatible" && (
+              <div className="space-y-2">
+                <Label htmlFor="ai-base-url">Server URL</Label>
+                <Input
+                  id="ai-base-url"
+                  value={aiDraft.ai_base_url || ""}
+                  onChange={(e) => updateAiDraft({ ai_base_url: e.target.value })}
+                  placeholder="https://llm.example.com/v1"
+                />
+                <p className="text-sm text-muted-foreground">
+                  Any server with an OpenAI-style <code>/chat/completions</code> endpoint, such as Ollama or llama.cpp.
+                  It must be a public https address reachable from the Supabase edge functions, not just from this browser.
+                </p>
               </div>
-              
-              <div className="flex space-x-2">
-                <div className="relative flex-1">
+            )}
+
+            {selectedProvider && selectedProvider.id !== "mock" && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="ai-api-key">
+                    API Key{selectedProvider.requiresApiKey ? "" : " (optional)"}
+                  </Label>
+                  {settings?.ai_api_key && settings.ai_provider === selectedProvider.id && (
+                    <Badge variant="secondary" className="bg-green-100 text-green-800">
+                      <CheckCircle className="w-3 h-3 mr-1" />
+                      Configured
+                    </Badge>
+                  )}
+                </div>
+                <div className="relative">
                   <Input
-                    id="gemini-api-key"
+                    id="ai-api-key"
                     type={showApiKey ? "text" : "password"}
-                    value={tempApiKey}
-                    onChange={(e) => setTempApiKey(e.target.value)}
-                    placeholder="Enter your Gemini API key"
+                    value={aiDraft.ai_api_key || ""}
+                    onChange={(e) => updateAiDraft({ ai_api_key: e.target.value })}
+                    placeholder={selectedProvider.requiresApiKey ? "Leave empty to use the server's key" : "Only if your server requires one"}
                     className="pr-10"
                   />
                   <button
@@ -303,48 +419,61 @@ const Settings = () => {
                     {showApiKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                   </button>
                 </div>
-                <Button 
-                  onClick={handleSaveApiKey}
-                  disabled={isSaving || !tempApiKey.trim()}
-                >
-                  <Save className="w-4 h-4 mr-2" />
-                  Save
-                </Button>
               </div>
+            )}
 
-              {settings?.gemini_api_key && (
-                <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
-                  <span className="text-sm text-muted-foreground">
-                    API key is configured and ready to use
-                  </span>
-                  <Button 
-                    variant="destructive" 
-                    size="sm"
-                    onClick={handleRemoveApiKey}
-                  >
-                    Remove Key
-                  </Button>
-                </div>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleSaveAI} disabled={isSaving}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+              {selectedProvider && (
+                <Button
+                  variant="outline"
+                  onClick={handleTestAI}
+                  disabled={isTesting || (selectedProvider.requiresApiKey && !aiDraft.ai_api_key?.trim())}
+                >
+                  {isTesting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Zap className="w-4 h-4 mr-2" />}
+                  Test Connection
+                </Button>
+              )}
+              {settings?.ai_api_key && (
+                <Button variant="destructive" onClick={handleRemoveApiKey} disabled={isSaving}>
+                  Remove Key
+                </Button>
               )}
-
-              <Alert>
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription>
-                  Your API key is stored securely and encrypted. Get your Gemini API key from{" "}
-                  <a 
-                    href="https://aistudio.google.com/app/apikey" 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="text-primary hover:underline"
-                  >
-                    Google AI Studio
-                  </a>
-                </AlertDescription>
-              </Alert>
             </div>
+
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Your API key is stored securely and only used by the server on your behalf. Get a key from{" "}
+                <a
+                  href="https://console.groq.com/keys"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  Groq
+                </a>{" "}
+                or{" "}
+                <a
+                  href="https://aistudio.google.com/app/apikey"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  Google AI Studio
+                </a>
+                . Testing sends a short prompt from your browser.
+              </AlertDescription>
+            </Alert>
           </CardContent>
         </Card>
 
+        {/* AI Usage */}
+        <AIUsageCard />
+
         {/* Preferences */}
         <Card>
           <CardHeader>
@@ -47,10 +47,12 @@ export type FlashcardType = {
 export type McqType = {
   id: string;
   course_id: string;
+  chapter_id?: string | null;
   question: string;
   options: string[];
   correct_answer: string;
   explanation?: string;
+  difficulty?: string | null;
   created_at: string;
 };
 
@@ -62,6 +64,90 @@ export type QnaType = {
   created_at: string;
 };
 
+export type ExamType = {
+  id: string;
+  course_id: string;
+  chapter_id?: string | null;
+  title: string;
+  exam_type: 'mock_test' | 'chapter_test' | 'final_exam' | 'practice_quiz';
+  total_questions: number;
+  duration_minutes: number;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  instructions?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ExamQuestionType = {
+  id: string;
+  exam_id: string;
+  course_id: string;
+  question_text: string;
+  question_type: 'mcq' | 'coding' | 'short_answer' | 'true_false';
+  options: string[];
+  // Only loaded for review, after the exam has been submitted
+  correct_answer?: string;
+  explanation?: string | null;
+  code_template?: string | null;
+  marks: number;
+  difficulty: 'easy' | 'medium' | 'hard';
+  tags: string[];
+  created_at: string;
+};
+
+export type ExamAnswerType = {
+  answer: string;
+  is_correct?: boolean;
+  marks_awarded?: number;
+  answered_at?: string;
+};
+
+export type ExamAttemptType = {
+  id: string;
+  user_id: string;
+  exam_id: string;
+  course_id: string;
+  started_at: string;
+  completed_at?: string | null;
+  score: number;
+  max_score: number;
+  time_spent: number;
+  answers: Record<string, ExamAnswerType>;
+  is_completed: boolean;
+  created_at: string;
+};
+
+export type QuizMode = 'all' | 'chapter' | 'wrong_only';
+
+export type QuizSessionType = {
+  id: string;
+  user_id: string;
+  course_id: string;
+  chapter_id?: string | null;
+  mode: QuizMode;
+  mcq_ids: string[];
+  score: number;
+  total_questions: number;
+  time_spent: number;
+  started_at: string;
+  completed_at?: string | null;
+  created_at: string;
+};
+
+export type QuizAnswerType = {
+  id: string;
+  session_id: string;
+  user_id: string;
+  course_id: string;
+  mcq_id: string;
+  chapter_id?: string | null;
+  difficulty?: string | null;
+  selected_answer: string;
+  is_correct: boolean;
+  time_taken_ms?: number | null;
+  answered_at: string;
+};
+
 export type MockInterviewType = {
   id: string;
   user_id: string;
@@ -70,27 +156,61 @@ export type MockInterviewType = {
   experience: string;
   created_at: string;
   completed: boolean;
+  session_type?: string;
+  status?: string;
+  total_score?: number | null;
+  question_count?: number;
+  current_question_index?: number;
 };
 
 export type InterviewQuestionType = {
   id: string;
   interview_id: string;
   question: string;
+  suggested_answer?: string;
+  topic?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  is_follow_up?: boolean;
+  kind?: 'verbal' | 'coding' | 'design';
+  problem_key?: string;
+  time_limit_seconds?: number;
   user_answer: string | null;
+  recording_path?: string | null;
   order_number: number;
   created_at: string;
 };
 
+export type FacialExpressionData = {
+  confident: number;
+  stressed: number;
+  hesitant: number;
+  nervous: number;
+  excited: number;
+};
+
+// Measured face signals behind the expression scores; all 0-100 except
+// blinkRate, which is blinks per minute
+export type FaceSignalData = {
+  eyeContact: number;
+  headStability: number;
+  smile: number;
+  blinkRate: number;
+  faceVisible: number;
+};
+
+// One analysis window; `t` is milliseconds since the recording started
+export type FacialAnalysisSample = FacialExpressionData & { t: number; signals?: FaceSignalData };
+
+// Stored in interview_responses.facial_analysis
+export type ResponseFacialAnalysis = {
+  samples: FacialAnalysisSample[];
+  aggregate: FacialExpressionData | null;
+};
+
 export type InterviewAnalysisType = {
   id: string;
   interview_id: string;
-  facial_data: {
-    confident: number;
-    stressed: number;
-    hesitant: number;
-    nervous: number;
-    excited: number;
-  };
+  facial_data: FacialExpressionData;
   pronunciation_feedback: string;
   technical_feedback: string;
   language_feedback: string;
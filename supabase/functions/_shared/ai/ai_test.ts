@@ -0,0 +1,136 @@
+// deno test --allow-env --allow-net supabase/functions/_shared/ai/
+import { assert, assertEquals, assertNotEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  AIProviderError,
+  AIProviderId,
+  baseUrlProblem,
+  completeJSON,
+  createAIProvider,
+  createMockProvider,
+  isPrivateAddress,
+  parseJSONContent,
+} from './index.ts';
+import { loadUserAIConfig } from './server.ts';
+
+const ask = (content: string) => ({ messages: [{ role: 'user' as const, content }] });
+
+// Just enough of the Supabase client for loadUserAIConfig's settings lookup
+const settingsClient = (settings: Record<string, string | null>) => ({
+  from: () => ({
+    select: () => ({
+      eq: () => ({
+        maybeSingle: () => Promise.resolve({ data: settings, error: null }),
+      }),
+    }),
+  }),
+}) as never;
+
+Deno.test('mock provider answers the same messages the same way', async () => {
+  const provider = createMockProvider();
+  const first = await provider.complete(ask('Explain binary search'));
+  const again = await provider.complete(ask('Explain binary search'));
+  const other = await provider.complete(ask('Explain merge sort'));
+
+  assertEquals(first.text, again.text);
+  assertNotEquals(first.text, other.text);
+  assertEquals(first.provider, 'mock');
+  assert(first.usage.estimated);
+});
+
+Deno.test('mock provider returns JSON when asked for it', async () => {
+  const result = await completeJSON<{ mock: boolean; fingerprint: string }>(createMockProvider(), ask('Outline a course'));
+  assertEquals(result.mock, true);
+  assertEquals(result.fingerprint.length, 8);
+});
+
+Deno.test('completeJSON strips markdown fences around the reply', async () => {
+  const provider = createMockProvider(() => '```json\n{"title": "Graphs"}\n```');
+  assertEquals(await completeJSON(provider, ask('Name a chapter')), { title: 'Graphs' });
+});
+
+Deno.test('parseJSONContent rejects replies that are not JSON', () => {
+  assertEquals(parseJSONContent('```\n[1, 2]\n```'), [1, 2]);
+  assertThrows(() => parseJSONContent('Sure! Here is your course.'), AIProviderError, 'Invalid AI response format');
+});
+
+Deno.test('createAIProvider refuses unknown providers and missing keys', () => {
+  assertThrows(() => createAIProvider({ provider: 'nope' as AIProviderId }), AIProviderError, 'Unknown AI provider');
+  assertThrows(() => createAIProvider({ provider: 'groq', apiKey: null }), AIProviderError, 'API key not configured');
+
+  const mock = createAIProvider({ provider: 'mock', model: 'mock-2' }, false);
+  assertEquals(mock.id, 'mock');
+  assertEquals(mock.model, 'mock-2');
+});
+
+Deno.test('baseUrlProblem only allows public https URLs', () => {
+  assertEquals(baseUrlProblem('https://api.example.com/v1'), null);
+  assertEquals(baseUrlProblem('https://[2606:4700::1111]/v1'), null);
+
+  assertEquals(baseUrlProblem('not a url'), 'Base URL is not a valid URL');
+  assertEquals(baseUrlProblem('http://api.example.com/v1'), 'Base URL must use https');
+
+  for (const url of [
+    'https://127.0.0.1/v1',
+    'https://2130706433/v1',
+    'https://0x7f.1/v1',
+    'https://10.0.0.5/v1',
+    'https://172.20.1.1/v1',
+    'https://192.168.1.10/v1',
+    'https://169.254.169.254/latest/meta-data',
+    'https://[::1]/v1',
+    'https://[::ffff:127.0.0.1]/v1',
+    'https://[fd00::1]/v1',
+    'https://[fe80::1]/v1',
+  ]) {
+    assertEquals(baseUrlProblem(url), 'Base URL must not point at a private or local address', url);
+  }
+
+  for (const url of ['https://localhost:11434/v1', 'https://ollama.local/v1', 'https://metadata.google.internal/', 'https://intranet/v1']) {
+    assertEquals(baseUrlProblem(url), 'Base URL must point at a public host', url);
+  }
+});
+
+Deno.test('isPrivateAddress covers the address ranges DNS may resolve to', () => {
+  assert(isPrivateAddress('100.64.0.1'));
+  assert(isPrivateAddress('0.0.0.0'));
+  assert(isPrivateAddress('fc00::1'));
+  assert(!isPrivateAddress('8.8.8.8'));
+  assert(!isPrivateAddress('172.32.0.1'));
+  assert(!isPrivateAddress('2001:4860:4860::8888'));
+});
+
+Deno.test('loadUserAIConfig ignores a saved mock provider unless the server allows it', async () => {
+  Deno.env.delete('AI_PROVIDER');
+  Deno.env.delete('AI_ALLOW_MOCK');
+  const client = settingsClient({ ai_provider: 'mock', ai_model: null, ai_base_url: null, ai_api_key: null });
+
+  assertEquals((await loadUserAIConfig(client, 'user-1')).provider, 'groq');
+
+  Deno.env.set('AI_ALLOW_MOCK', 'true');
+  try {
+    assertEquals((await loadUserAIConfig(client, 'user-1')).provider, 'mock');
+  } finally {
+    Deno.env.delete('AI_ALLOW_MOCK');
+  }
+});
+
+Deno.test('loadUserAIConfig refuses base URLs that reach internal hosts', async () => {
+  Deno.env.delete('AI_BASE_URL');
+
+  for (const url of [null, 'http://localhost:11434/v1', 'https://169.254.169.254/v1']) {
+    const client = settingsClient({ ai_provider: 'openai_compatible', ai_model: null, ai_base_url: url, ai_api_key: null });
+    await assertRejects(() => loadUserAIConfig(client, 'user-1'), AIProviderError);
+  }
+});
+
+Deno.test('loadUserAIConfig trusts the operator base URL', async () => {
+  Deno.env.set('AI_BASE_URL', 'http://ollama:11434/v1');
+  try {
+    const client = settingsClient({ ai_provider: 'openai_compatible', ai_model: 'qwen2.5', ai_base_url: 'http://ollama:11434/v1', ai_api_key: null });
+    const config = await loadUserAIConfig(client, 'user-1');
+    assertEquals(config.baseUrl, 'http://ollama:11434/v1');
+    assertEquals(config.model, 'qwen2.5');
+  } finally {
+    Deno.env.delete('AI_BASE_URL');
+  }
+});
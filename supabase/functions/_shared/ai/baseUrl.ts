@@ -0,0 +1,63 @@
+// Edge functions call whatever base URL a user saves, so it has to point at a
+// public https endpoint rather than at hosts only the server can reach.
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+// Loopback, private, link-local, CGNAT, benchmark, multicast and reserved ranges
+const isPrivateIPv4 = (address: string) => {
+  const match = address.match(IPV4);
+  if (!match) return false;
+
+  const [a, b] = match.slice(1, 3).map(Number);
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0 && Number(match[3]) === 0)
+    || (a === 198 && (b === 18 || b === 19))
+    || a >= 224;
+};
+
+// Anything written with a leading :: (unspecified, loopback and the IPv4-mapped
+// forms that reach the ranges above), unique-local fc00::/7 and link-local fe80::/10
+const isPrivateIPv6 = (address: string) => {
+  const normalized = address.toLowerCase();
+  return normalized.startsWith('::')
+    || /^f[cd]/.test(normalized)
+    || /^fe[89ab]/.test(normalized);
+};
+
+// True for IP literals the edge functions must never be pointed at
+export const isPrivateAddress = (address: string) => {
+  const unbracketed = address.replace(/^\[|\]$/g, '');
+  return unbracketed.includes(':') ? isPrivateIPv6(unbracketed) : isPrivateIPv4(unbracketed);
+};
+
+// Why a user-supplied base URL is refused, or null when it is allowed. Only
+// the URL itself is checked; server.ts also checks what the host resolves to.
+export const baseUrlProblem = (value: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return 'Base URL is not a valid URL';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'Base URL must use https';
+  }
+
+  // URL has already turned decimal, hex and short IPv4 forms into dotted quads
+  const host = url.hostname.toLowerCase().replace(/\.$/, '');
+  if (isPrivateAddress(host)) {
+    return 'Base URL must not point at a private or local address';
+  }
+  if ((!host.includes('.') && !host.startsWith('[')) || /(^|\.)(localhost|local|internal)$/.test(host)) {
+    return 'Base URL must point at a public host';
+  }
+
+  return null;
+};
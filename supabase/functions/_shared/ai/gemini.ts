@@ -0,0 +1,71 @@
+import { postJSON } from './http.ts';
+import { buildUsage } from './usage.ts';
+import { AIProvider, AIProviderError, CompletionRequest } from './types.ts';
+
+export const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+interface GenerateContentResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+export interface GeminiOptions {
+  apiKey: string;
+  model: string;
+  baseUrl?: string | null;
+}
+
+// Gemini's generateContent API. System messages become the system
+// instruction and assistant turns use Gemini's "model" role.
+export const createGeminiProvider = ({ apiKey, model, baseUrl }: GeminiOptions): AIProvider => ({
+  id: 'gemini',
+  model,
+
+  async complete({ messages, temperature = 0.7, maxTokens = 2000, json, signal }: CompletionRequest) {
+    const startedAt = Date.now();
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    const contents = messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      }));
+
+    const data = await postJSON<GenerateContentResponse>(
+      'Gemini',
+      `${(baseUrl || GEMINI_BASE_URL).replace(/\/+$/, '')}/models/${encodeURIComponent(model)}:generateContent`,
+      {
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents,
+        generationConfig: {
+          temperature,
+          maxOutputTokens: maxTokens,
+          ...(json ? { responseMimeType: 'application/json' } : {}),
+        },
+      },
+      { 'x-goog-api-key': apiKey },
+      signal
+    );
+
+    const candidate = data?.candidates?.[0];
+    const text = (candidate?.content?.parts || []).map(part => part.text || '').join('');
+    if (!text) {
+      const reason = candidate?.finishReason || data?.promptFeedback?.blockReason || 'empty response';
+      throw new AIProviderError(`Gemini returned no text (${reason})`);
+    }
+
+    return {
+      text,
+      provider: 'gemini' as const,
+      model,
+      usage: buildUsage(
+        data.usageMetadata?.promptTokenCount,
+        data.usageMetadata?.candidatesTokenCount,
+        messages.map(message => message.content).join('\n'),
+        text
+      ),
+      latencyMs: Date.now() - startedAt,
+    };
+  },
+});
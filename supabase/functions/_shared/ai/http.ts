@@ -0,0 +1,44 @@
+import { isRetryableStatus } from './retry.ts';
+import { AIProviderError } from './types.ts';
+
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return null;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+};
+
+// POSTs a JSON body and turns transport and HTTP failures into AIProviderErrors
+// that say which provider failed and whether retrying could help
+export const postJSON = async <T>(
+  label: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AIProviderError(`Could not reach ${label} (${message})`, { retryable: true });
+  }
+
+  if (!response.ok) {
+    const detail = await response.json().catch(() => null);
+    const message = detail?.error?.message || detail?.error || response.statusText || `HTTP ${response.status}`;
+    throw new AIProviderError(`${label} API error: ${message}`, {
+      status: response.status,
+      retryable: isRetryableStatus(response.status),
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+
+  return response.json() as Promise<T>;
+};
@@ -0,0 +1,105 @@
+import { createGeminiProvider, GEMINI_BASE_URL } from './gemini.ts';
+import { createMockProvider } from './mock.ts';
+import { createOpenAICompatibleProvider } from './openaiCompatible.ts';
+import { RetryOptions, withRetries } from './retry.ts';
+import { AIProvider, AIProviderConfig, AIProviderError, AIProviderId, AIProviderInfo, CompletionRequest } from './types.ts';
+
+export * from './types.ts';
+export { baseUrlProblem, isPrivateAddress } from './baseUrl.ts';
+export { createGeminiProvider } from './gemini.ts';
+export { createMockProvider } from './mock.ts';
+export type { MockResponder } from './mock.ts';
+export { createOpenAICompatibleProvider } from './openaiCompatible.ts';
+export { isRetryable, withRetries } from './retry.ts';
+export type { RetryOptions } from './retry.ts';
+export { estimateTokens } from './usage.ts';
+
+export const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+
+export const AI_PROVIDERS: AIProviderInfo[] = [
+  {
+    id: 'groq',
+    label: 'Groq',
+    defaultModel: 'llama-3.1-70b-versatile',
+    models: ['llama-3.1-70b-versatile', 'llama-3.1-8b-instant', 'mixtral-8x7b-32768'],
+    requiresApiKey: true,
+    defaultBaseUrl: GROQ_BASE_URL,
+  },
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: 'gemini-1.5-flash',
+    models: ['gemini-1.5-flash', 'gemini-1.5-pro'],
+    requiresApiKey: true,
+    defaultBaseUrl: GEMINI_BASE_URL,
+  },
+  {
+    id: 'openai_compatible',
+    label: 'Local / OpenAI-compatible',
+    defaultModel: 'llama3.1',
+    models: ['llama3.1', 'qwen2.5', 'mistral'],
+    requiresApiKey: false,
+    defaultBaseUrl: 'http://localhost:11434/v1',
+  },
+  {
+    id: 'mock',
+    label: 'Mock (testing)',
+    defaultModel: 'mock-1',
+    models: ['mock-1'],
+    requiresApiKey: false,
+    defaultBaseUrl: null,
+  },
+];
+
+export const getProviderInfo = (id: AIProviderId) => AI_PROVIDERS.find(info => info.id === id);
+
+export const isAIProviderId = (value: unknown): value is AIProviderId =>
+  AI_PROVIDERS.some(info => info.id === value);
+
+// Builds a provider from a user's or the server's configuration, wrapped with
+// retries. Pass retry: false to get the bare provider.
+export const createAIProvider = (config: AIProviderConfig, retry: RetryOptions | false = {}): AIProvider => {
+  const info = getProviderInfo(config.provider);
+  if (!info) {
+    throw new AIProviderError(`Unknown AI provider: ${config.provider}`);
+  }
+  if (info.requiresApiKey && !config.apiKey) {
+    throw new AIProviderError(`${info.label} API key not configured`);
+  }
+
+  const model = config.model || info.defaultModel;
+  let provider: AIProvider;
+
+  switch (config.provider) {
+    case 'groq':
+      provider = createOpenAICompatibleProvider({ id: 'groq', label: 'Groq', baseUrl: GROQ_BASE_URL, model, apiKey: config.apiKey });
+      break;
+    case 'gemini':
+      provider = createGeminiProvider({ apiKey: config.apiKey, model, baseUrl: config.baseUrl });
+      break;
+    case 'openai_compatible':
+      provider = createOpenAICompatibleProvider({ baseUrl: config.baseUrl || info.defaultBaseUrl, model, apiKey: config.apiKey });
+      break;
+    case 'mock':
+      provider = createMockProvider(undefined, model);
+      break;
+  }
+
+  return retry === false ? provider : withRetries(provider, retry);
+};
+
+// Models often wrap JSON in a markdown fence even when asked not to
+export const parseJSONContent = <T = Record<string, unknown>>(text: string): T => {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    console.error('Failed to parse AI response:', text);
+    throw new AIProviderError('Invalid AI response format');
+  }
+};
+
+export const completeJSON = async <T = Record<string, unknown>>(provider: AIProvider, request: CompletionRequest): Promise<T> => {
+  const result = await provider.complete({ ...request, json: true });
+  return parseJSONContent<T>(result.text);
+};
@@ -0,0 +1,43 @@
+import { buildUsage } from './usage.ts';
+import { AIProvider, CompletionRequest } from './types.ts';
+
+export type MockResponder = (request: CompletionRequest) => string | Record<string, unknown>;
+
+// FNV-1a, enough to give each prompt a stable fingerprint
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const defaultResponder: MockResponder = ({ messages, json }) => {
+  const prompt = messages.filter(message => message.role === 'user').pop()?.content || '';
+  const fingerprint = hashText(messages.map(message => `${message.role}:${message.content}`).join('\n'));
+  return json
+    ? { mock: true, fingerprint }
+    : `Mock response ${fingerprint} to: ${prompt.slice(0, 80)}`;
+};
+
+// Never touches the network and returns the same output for the same
+// messages, so flows can be exercised without keys or a model server. Pass a
+// responder to return canned payloads for a specific prompt.
+export const createMockProvider = (respond: MockResponder = defaultResponder, model = 'mock-1'): AIProvider => ({
+  id: 'mock',
+  model,
+
+  async complete(request: CompletionRequest) {
+    const output = respond(request);
+    const text = typeof output === 'string' ? output : JSON.stringify(output);
+
+    return {
+      text,
+      provider: 'mock' as const,
+      model,
+      usage: buildUsage(null, null, request.messages.map(message => message.content).join('\n'), text),
+      latencyMs: 0,
+    };
+  },
+});
@@ -0,0 +1,66 @@
+import { postJSON } from './http.ts';
+import { buildUsage } from './usage.ts';
+import { AIProvider, AIProviderError, AIProviderId, CompletionRequest } from './types.ts';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export interface OpenAICompatibleOptions {
+  id?: AIProviderId;
+  label?: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string | null;
+}
+
+// Any server implementing POST /chat/completions: Groq, Ollama, llama.cpp's
+// llama-server, vLLM, LM Studio. baseUrl includes the version prefix, e.g.
+// http://localhost:11434/v1 for Ollama.
+export const createOpenAICompatibleProvider = ({
+  id = 'openai_compatible',
+  label = 'OpenAI-compatible server',
+  baseUrl,
+  model,
+  apiKey,
+}: OpenAICompatibleOptions): AIProvider => ({
+  id,
+  model,
+
+  async complete({ messages, temperature = 0.7, maxTokens = 2000, json, signal }: CompletionRequest) {
+    const startedAt = Date.now();
+    const data = await postJSON<ChatCompletionResponse>(
+      label,
+      `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      {
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      },
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      signal
+    );
+
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new AIProviderError(`${label} returned no message`);
+    }
+
+    return {
+      text,
+      provider: id,
+      model: data.model || model,
+      usage: buildUsage(
+        data.usage?.prompt_tokens,
+        data.usage?.completion_tokens,
+        messages.map(message => message.content).join('\n'),
+        text
+      ),
+      latencyMs: Date.now() - startedAt,
+    };
+  },
+});
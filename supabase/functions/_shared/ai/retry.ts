@@ -0,0 +1,54 @@
+import { AIProvider, AIProviderError, CompletionRequest } from './types.ts';
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = { retries: 2, baseDelayMs: 500, maxDelayMs: 8000 };
+
+// Rate limits, timeouts, server errors and dropped connections are worth
+// another try; bad requests, auth failures and aborts are not
+export const isRetryable = (error: unknown) => {
+  if (error instanceof AIProviderError) return error.retryable;
+  if (error instanceof Error && error.name === 'AbortError') return false;
+  return error instanceof TypeError;
+};
+
+export const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Exponential backoff without jitter so runs against the mock provider are
+// reproducible. A Retry-After from the provider wins when it is longer.
+export const withRetries = (provider: AIProvider, options: RetryOptions = {}): AIProvider => {
+  const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...options };
+
+  return {
+    id: provider.id,
+    model: provider.model,
+
+    async complete(request: CompletionRequest) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await provider.complete(request);
+        } catch (error) {
+          if (attempt >= retries || !isRetryable(error)) throw error;
+
+          const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+          const retryAfter = error instanceof AIProviderError ? error.retryAfterMs || 0 : 0;
+          console.warn(`${provider.id} request failed (attempt ${attempt + 1}), retrying:`, error);
+          await sleep(Math.min(Math.max(backoff, retryAfter), maxDelayMs), request.signal);
+        }
+      }
+    },
+  };
+};
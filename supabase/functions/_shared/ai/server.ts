@@ -0,0 +1,287 @@
+// Edge-function side of the AI layer: resolves the caller's provider from
+// user_settings (falling back to the server's env), enforces daily quotas and
+// records token usage in ai_usage. Not imported by the frontend.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  AIProvider,
+  AIProviderConfig,
+  AIProviderError,
+  AIProviderId,
+  baseUrlProblem,
+  createAIProvider,
+  getProviderInfo,
+  isAIProviderId,
+  isPrivateAddress,
+} from './index.ts';
+
+const SERVER_API_KEYS: Record<AIProviderId, string | null> = {
+  groq: 'GROQ_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+  openai_compatible: 'AI_API_KEY',
+  mock: null,
+};
+
+const serverApiKey = (provider: AIProviderId) =>
+  SERVER_API_KEYS[provider] ? Deno.env.get(SERVER_API_KEYS[provider]) ?? null : null;
+
+// Endpoint each server key belongs to: the hosted providers' own APIs, and
+// AI_BASE_URL for AI_API_KEY
+const serverBaseUrl = (provider: AIProviderId) =>
+  (provider === 'openai_compatible' ? Deno.env.get('AI_BASE_URL') : null) ?? getProviderInfo(provider)?.defaultBaseUrl ?? null;
+
+const sameEndpoint = (a: string, b: string | null) =>
+  !!b && a.trim().replace(/\/+$/, '').toLowerCase() === b.trim().replace(/\/+$/, '').toLowerCase();
+
+// The server's key is only ever sent to the endpoint it was issued for, so a
+// user pointing a provider at their own base URL has to bring their own key.
+// Groq ignores the base URL, so its calls always go to Groq.
+const fallbackApiKey = (provider: AIProviderId, baseUrl: string | null) => {
+  const endpoint = baseUrl || getProviderInfo(provider)?.defaultBaseUrl || '';
+  return provider === 'groq' || sameEndpoint(endpoint, serverBaseUrl(provider)) ? serverApiKey(provider) : null;
+};
+
+// The mock provider is for tests and local runs; a user can only pick it when
+// the server opts in with AI_ALLOW_MOCK=true or runs on it itself
+const mockAllowed = () => Deno.env.get('AI_ALLOW_MOCK') === 'true' || Deno.env.get('AI_PROVIDER') === 'mock';
+
+const resolveHost = async (host: string) => {
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  return lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : []);
+};
+
+// The hosted providers' APIs and the operator's AI_BASE_URL are trusted; the
+// local default is not. Anything else must be a public https URL whose host
+// also resolves only to public addresses.
+const assertAllowedEndpoint = async (provider: AIProviderId, endpoint: string) => {
+  const hosted = getProviderInfo(provider)?.defaultBaseUrl ?? null;
+  const operator = provider === 'openai_compatible' ? Deno.env.get('AI_BASE_URL') ?? null : null;
+  if ((hosted?.startsWith('https://') && sameEndpoint(endpoint, hosted)) || sameEndpoint(endpoint, operator)) return;
+
+  const problem = baseUrlProblem(endpoint);
+  if (problem) {
+    throw new AIProviderError(problem);
+  }
+
+  // Public IP literals have already passed baseUrlProblem
+  const host = new URL(endpoint.trim()).hostname;
+  if (/^[\d.]+$|^\[/.test(host)) return;
+  const addresses = await resolveHost(host);
+  if (addresses.length === 0) {
+    throw new AIProviderError(`Could not resolve the AI base URL host ${host}`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new AIProviderError('Base URL must not point at a private or local address');
+  }
+};
+
+// AI_PROVIDER / AI_MODEL / AI_BASE_URL choose the default for users who have
+// not picked a provider; without them everything runs on Groq as before
+export const getServerAIConfig = (): AIProviderConfig => {
+  const configured = Deno.env.get('AI_PROVIDER');
+  const provider: AIProviderId = isAIProviderId(configured) ? configured : 'groq';
+
+  return {
+    provider,
+    model: Deno.env.get('AI_MODEL') ?? null,
+    baseUrl: Deno.env.get('AI_BASE_URL') ?? null,
+    apiKey: serverApiKey(provider),
+  };
+};
+
+export const loadUserAIConfig = async (supabaseClient: SupabaseClient, userId: string | null): Promise<AIProviderConfig> => {
+  if (!userId) return getServerAIConfig();
+
+  const { data, error } = await supabaseClient
+    .from('user_settings')
+    .select('ai_provider, ai_model, ai_base_url, ai_api_key')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`Could not load AI settings for ${userId}, using the server default:`, error.message);
+    return getServerAIConfig();
+  }
+  if (!data || !isAIProviderId(data.ai_provider)) {
+    return getServerAIConfig();
+  }
+  if (data.ai_provider === 'mock' && !mockAllowed()) {
+    console.warn(`Ignoring the mock AI provider chosen by ${userId}, using the server default`);
+    return getServerAIConfig();
+  }
+  // Groq ignores the base URL, so its calls always go to Groq
+  if (data.ai_provider !== 'groq' && data.ai_provider !== 'mock') {
+    await assertAllowedEndpoint(data.ai_provider, data.ai_base_url || getProviderInfo(data.ai_provider)?.defaultBaseUrl || '');
+  }
+
+  return {
+    provider: data.ai_provider,
+    model: data.ai_model,
+    baseUrl: data.ai_base_url,
+    // Users without a key of their own can switch model on the server's key,
+    // as long as the calls still go to the server's endpoint
+    apiKey: data.ai_api_key || fallbackApiKey(data.ai_provider, data.ai_base_url),
+  };
+};
+
+// The user behind the request's JWT, or null for anonymous calls
+export const getRequestUserId = async (supabaseClient: SupabaseClient, req: Request): Promise<string | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await supabaseClient.auth.getUser(token);
+  return error ? null : data?.user?.id ?? null;
+};
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// AI calls run on a user's settings and quota, so anonymous callers get none
+export class AuthRequiredError extends Error {
+  constructor(message = 'Sign in to use AI features') {
+    super(message);
+    this.name = 'AuthRequiredError';
+  }
+}
+
+// Missing rows and rows the caller does not own alike, so ids can't be probed
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 401, 404 and 429 so callers can tell auth, lookup and quota errors apart
+// from failures
+export const errorStatus = (error: unknown) =>
+  error instanceof AuthRequiredError
+    ? 401
+    : error instanceof NotFoundError
+      ? 404
+      : error instanceof QuotaExceededError ? 429 : 500;
+
+export interface DailyQuota {
+  tokenLimit: number | null;
+  requestLimit: number | null;
+}
+
+const envLimit = (name: string) => {
+  const value = Number.parseInt(Deno.env.get(name) ?? '', 10);
+  return Number.isNaN(value) ? null : value;
+};
+
+export const getDailyQuota = async (supabaseClient: SupabaseClient, userId: string): Promise<DailyQuota> => {
+  const { data, error } = await supabaseClient
+    .from('ai_quotas')
+    .select('daily_token_limit, daily_request_limit')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`Could not load AI quota for ${userId}, using the server default:`, error.message);
+  }
+
+  return {
+    tokenLimit: data?.daily_token_limit ?? envLimit('AI_DAILY_TOKEN_LIMIT'),
+    requestLimit: data?.daily_request_limit ?? envLimit('AI_DAILY_REQUEST_LIMIT'),
+  };
+};
+
+// Checked before each call. Token counts are only known afterwards, so the
+// call that crosses the limit still completes and the next one is refused.
+export const assertWithinQuota = async (supabaseClient: SupabaseClient, userId: string | null) => {
+  if (!userId) {
+    throw new AuthRequiredError();
+  }
+
+  const quota = await getDailyQuota(supabaseClient, userId);
+  if (quota.tokenLimit === null && quota.requestLimit === null) return;
+
+  const { data, error } = await supabaseClient.rpc('get_ai_usage_today', { p_user_id: userId });
+  if (error) {
+    throw new Error(`Failed to check AI usage: ${error.message}`);
+  }
+
+  const used = data?.[0] || { total_tokens: 0, request_count: 0 };
+  if (quota.tokenLimit !== null && Number(used.total_tokens) >= quota.tokenLimit) {
+    throw new QuotaExceededError(`Daily AI token limit reached (${quota.tokenLimit} tokens). It resets at midnight UTC.`);
+  }
+  if (quota.requestLimit !== null && Number(used.request_count) >= quota.requestLimit) {
+    throw new QuotaExceededError(`Daily AI request limit reached (${quota.requestLimit} requests). It resets at midnight UTC.`);
+  }
+};
+
+export const recordUsage = async (
+  supabaseClient: SupabaseClient,
+  entry: {
+    userId: string | null;
+    courseId?: string | null;
+    feature: string;
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    latencyMs: number;
+  }
+) => {
+  const { error } = await supabaseClient.from('ai_usage').insert({
+    user_id: entry.userId,
+    course_id: entry.courseId ?? null,
+    feature: entry.feature,
+    provider: entry.provider,
+    model: entry.model,
+    prompt_tokens: entry.promptTokens,
+    completion_tokens: entry.completionTokens,
+    total_tokens: entry.totalTokens,
+    latency_ms: entry.latencyMs,
+  });
+
+  // Accounting must never fail the generation itself
+  if (error) {
+    console.warn('Failed to record AI usage:', error.message);
+  }
+};
+
+interface AIClientOptions {
+  supabaseClient: SupabaseClient;
+  userId: string | null;
+  // Function and task making the calls, stored with each usage row
+  feature: string;
+  courseId?: string | null;
+}
+
+// Provider for the given user that checks their quota before every call and
+// logs every completed call to ai_usage. Anonymous callers are refused before
+// any provider is built, so the server's keys are never used unmetered.
+export const createAIClient = async ({ supabaseClient, userId, feature, courseId }: AIClientOptions): Promise<AIProvider> => {
+  if (!userId) {
+    throw new AuthRequiredError();
+  }
+
+  const provider = createAIProvider(await loadUserAIConfig(supabaseClient, userId));
+
+  return {
+    id: provider.id,
+    model: provider.model,
+
+    async complete(request) {
+      await assertWithinQuota(supabaseClient, userId);
+      const result = await provider.complete(request);
+      await recordUsage(supabaseClient, {
+        userId,
+        courseId,
+        feature,
+        provider: result.provider,
+        model: result.model,
+        ...result.usage,
+        latencyMs: result.latencyMs,
+      });
+      return result;
+    },
+  };
+};
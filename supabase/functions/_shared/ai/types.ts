@@ -0,0 +1,75 @@
+// Shared by the edge functions (Deno) and the frontend (Vite), so nothing in
+// this directory may import from URLs, npm packages or Deno globals except
+// server.ts, which only the edge functions use.
+
+export type AIProviderId = 'groq' | 'gemini' | 'openai_compatible' | 'mock';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object; use completeJSON to also parse it
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // True when the provider did not report usage and it was estimated from text length
+  estimated: boolean;
+}
+
+export interface CompletionResult {
+  text: string;
+  provider: AIProviderId;
+  model: string;
+  usage: TokenUsage;
+  latencyMs: number;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+// What a user (or the server default) has chosen; see user_settings.ai_*
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  model?: string | null;
+  apiKey?: string | null;
+  baseUrl?: string | null;
+}
+
+export interface AIProviderInfo {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  // Suggestions for the settings UI; any model the provider serves is accepted
+  models: string[];
+  requiresApiKey: boolean;
+  defaultBaseUrl: string | null;
+}
+
+export class AIProviderError extends Error {
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, options: { status?: number | null; retryable?: boolean; retryAfterMs?: number | null } = {}) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = options.status ?? null;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+  }
+}
@@ -0,0 +1,20 @@
+import { TokenUsage } from './types.ts';
+
+// Rough rule of thumb for English text with BPE tokenizers. Only used when a
+// provider (usually a local server) does not report usage.
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const buildUsage = (
+  promptTokens: number | null | undefined,
+  completionTokens: number | null | undefined,
+  promptText: string,
+  completionText: string
+): TokenUsage => {
+  const estimated = typeof promptTokens !== 'number' || typeof completionTokens !== 'number';
+  const prompt = typeof promptTokens === 'number' ? promptTokens : estimateTokens(promptText);
+  const completion = typeof completionTokens === 'number' ? completionTokens : estimateTokens(completionText);
+
+  return { promptTokens: prompt, completionTokens: completion, totalTokens: prompt + completion, estimated };
+};
@@ -1,6 +1,17 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { AIProvider, completeJSON } from '../_shared/ai/index.ts';
+import { AuthRequiredError, NotFoundError, createAIClient, errorStatus, getRequestUserId } from '../_shared/ai/server.ts';
+import {
+  StepFailedError,
+  StepStates,
+  WorkflowCancelledError,
+  WorkflowStep,
+  initialStepStates,
+  isComplete,
+  runWorkflow,
+} from './workflow.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,13 +19,65 @@ const corsHeaders = {
 };
 
 interface CourseGenerationRequest {
+  action?: 'create' | 'retry' | 'cancel' | 'regenerate';
+  jobId?: string;
+  courseId?: string;
+  step?: string;
   courseName: string;
   purpose: 'exam' | 'job_interview' | 'practice' | 'coding_preparation' | 'other';
   difficulty: 'beginner' | 'intermediate' | 'advanced' | 'expert';
+}
+
+interface GenerationContext {
+  supabaseClient: SupabaseClient;
+  jobId: string;
+  courseId: string;
+  courseName: string;
+  purpose: string;
+  difficulty: string;
   userId: string;
-  geminiApiKey?: string;
 }
 
+interface CourseRecord {
+  id: string;
+  user_id: string;
+  title: string;
+  purpose: string;
+  difficulty: string;
+}
+
+interface CourseLayout {
+  summary: string;
+  tags: string[];
+  chapters: Array<{ title: string; focus: string }>;
+}
+
+type GenerationStep = WorkflowStep<GenerationContext> & {
+  // False for steps whose output is fixed, so rerunning them alone would
+  // change nothing
+  regenerable: boolean;
+};
+
+// Ordered generation steps. Keep the keys, labels and regenerable flags in
+// sync with COURSE_GENERATION_STEPS in the frontend courseService.
+const GENERATION_STEPS: GenerationStep[] = [
+  { key: 'layout', label: 'Planning course layout', run: generateLayout, regenerable: true },
+  { key: 'chapters', label: 'Generating course chapters', run: generateChapters, regenerable: true },
+  { key: 'flashcards', label: 'Generating flashcards', run: generateFlashcards, regenerable: true },
+  { key: 'mcqs', label: 'Generating multiple choice questions', run: generateMCQs, regenerable: true },
+  { key: 'qnas', label: 'Generating Q&A pairs', run: generateQAs, regenerable: true },
+  { key: 'notebook', label: 'Generating study notebook', run: generateNotebook, regenerable: true },
+  { key: 'resources', label: 'Finding learning resources', run: findResources, regenerable: false },
+];
+
+const getStep = (key: string | undefined) => {
+  const step = GENERATION_STEPS.find(s => s.key === key);
+  if (!step) {
+    throw new Error(`Unknown generation step: ${key}`);
+  }
+  return step;
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -27,7 +90,26 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { courseName, purpose, difficulty, userId, geminiApiKey } = await req.json() as CourseGenerationRequest;
+    // The caller comes from the JWT, never the body: the user decides whose
+    // AI settings and quota the generation runs on
+    const userId = await getRequestUserId(supabaseClient, req);
+    if (!userId) {
+      throw new AuthRequiredError();
+    }
+
+    const { action = 'create', jobId, courseId, step, courseName, purpose, difficulty } = await req.json() as CourseGenerationRequest;
+
+    if (action !== 'create') {
+      const result = action === 'cancel'
+        ? await cancelJob(supabaseClient, jobId, userId)
+        : action === 'retry'
+          ? await retryJob(supabaseClient, jobId, userId)
+          : await regenerateStep(supabaseClient, courseId, step, userId);
+
+      return new Response(JSON.stringify({ success: true, ...result }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
     // Log agent activity
     await supabaseClient.from('agent_logs').insert({
@@ -47,7 +129,7 @@ serve(async (req) => {
         purpose,
         difficulty,
         status: 'draft',
-        summary: `A comprehensive course on ${courseName} for ${purpose} at ${difficulty} level.`
+        summary: templateSummary(courseName, purpose, difficulty)
       })
       .select()
       .single();
@@ -65,12 +147,15 @@ serve(async (req) => {
         status: 'pending',
         job_type: 'course_creation',
         current_step: 'Initializing course generation',
+        steps: initialStepStates(GENERATION_STEPS),
         metadata: { courseName, purpose, difficulty }
       })
       .select()
       .single();
 
     if (jobError) {
+      // Without a job nothing can resume the course, so don't leave a draft behind
+      await supabaseClient.from('courses').delete().eq('id', course.id);
       throw new Error(`Failed to create generation job: ${jobError.message}`);
     }
 
@@ -81,7 +166,15 @@ serve(async (req) => {
       .eq('id', course.id);
 
     // Start background content generation using waitUntil
-    EdgeRuntime.waitUntil(generateCourseContent(supabaseClient, course.id, courseName, purpose, difficulty, userId, geminiApiKey || ''));
+    EdgeRuntime.waitUntil(generateCourseContent({
+      supabaseClient,
+      jobId: job.id,
+      courseId: course.id,
+      courseName,
+      purpose,
+      difficulty,
+      userId
+    }));
 
     return new Response(JSON.stringify({
       success: true,
@@ -99,96 +192,277 @@ serve(async (req) => {
       success: false,
       error: error.message
     }), {
-      status: 500,
+      status: errorStatus(error),
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
 });
 
-async function generateCourseContent(
-  supabaseClient: any,
-  courseId: string,
-  courseName: string,
-  purpose: string,
-  difficulty: string,
-  userId: string,
-  geminiApiKey: string
-) {
-  try {
-    // Update job status to processing
+async function getOwnedJob(supabaseClient: SupabaseClient, jobId: string | undefined, userId: string) {
+  if (!jobId) {
+    throw new Error('jobId is required');
+  }
+
+  const { data: job, error } = await supabaseClient
+    .from('course_generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (error || !job || job.user_id !== userId) {
+    throw new NotFoundError('Generation job not found');
+  }
+
+  const { data: course } = await supabaseClient
+    .from('courses')
+    .select('user_id')
+    .eq('id', job.course_id)
+    .maybeSingle();
+
+  if (!course || course.user_id !== userId) {
+    throw new NotFoundError('Generation job not found');
+  }
+
+  return job;
+}
+
+async function cancelJob(supabaseClient: SupabaseClient, jobId: string | undefined, userId: string) {
+  const job = await getOwnedJob(supabaseClient, jobId, userId);
+
+  if (job.status !== 'pending' && job.status !== 'processing') {
+    throw new Error(`Cannot cancel a job that is ${job.status}`);
+  }
+
+  // The running worker stops at its next save and leaves the status alone
+  await transitionJob(supabaseClient, job.id, ['pending', 'processing'], {
+    status: 'cancelled',
+    error_message: null,
+    completed_at: new Date().toISOString()
+  }, 'Course generation has already finished');
+
+  await supabaseClient.from('agent_logs').insert({
+    agent_name: 'course-generator-agent',
+    user_id: userId,
+    course_id: job.course_id,
+    job_id: job.id,
+    log_level: 'info',
+    message: 'Course generation cancelled by user',
+    metadata: { step: job.current_step }
+  });
+
+  return { jobId: job.id, courseId: job.course_id, message: 'Course generation cancelled.' };
+}
+
+// Picks up at the first step that has not completed; steps that already
+// finished keep their content
+async function retryJob(supabaseClient: SupabaseClient, jobId: string | undefined, userId: string) {
+  const job = await getOwnedJob(supabaseClient, jobId, userId);
+
+  if (job.status !== 'failed' && job.status !== 'cancelled') {
+    throw new Error(`Cannot retry a job that is ${job.status}`);
+  }
+
+  await restartJob(supabaseClient, job.id, ['failed', 'cancelled']);
+
+  const { courseName, purpose, difficulty } = job.metadata || {};
+
+  EdgeRuntime.waitUntil(generateCourseContent({
+    supabaseClient,
+    jobId: job.id,
+    courseId: job.course_id,
+    courseName,
+    purpose,
+    difficulty,
+    userId
+  }));
+
+  return { jobId: job.id, courseId: job.course_id, message: 'Course generation resumed.' };
+}
+
+// Reruns one step of a course, replacing what it generated. Any steps of the
+// job that never completed run after it.
+async function regenerateStep(supabaseClient: SupabaseClient, courseId: string | undefined, stepKey: string | undefined, userId: string) {
+  const step = getStep(stepKey);
+
+  if (!step.regenerable) {
+    throw new Error(`${step.label} cannot be regenerated on its own`);
+  }
+
+  if (!courseId) {
+    throw new Error('courseId is required');
+  }
+
+  const { data: course, error: courseError } = await supabaseClient
+    .from('courses')
+    .select('*')
+    .eq('id', courseId)
+    .single();
+
+  if (courseError || !course || course.user_id !== userId) {
+    throw new NotFoundError('Course not found');
+  }
+
+  const job = await getCourseJob(supabaseClient, course);
+
+  if (job.user_id !== userId) {
+    throw new NotFoundError('Generation job not found');
+  }
+
+  if (job.status === 'pending' || job.status === 'processing') {
+    throw new Error('Course generation is already running');
+  }
+
+  await restartJob(supabaseClient, job.id, ['completed', 'failed', 'cancelled']);
+
+  await supabaseClient.from('agent_logs').insert({
+    agent_name: 'course-generator-agent',
+    user_id: userId,
+    course_id: course.id,
+    job_id: job.id,
+    log_level: 'info',
+    message: `Regenerating step: ${step.label}`,
+    metadata: { step: step.key }
+  });
+
+  EdgeRuntime.waitUntil(generateCourseContent({
+    supabaseClient,
+    jobId: job.id,
+    courseId: course.id,
+    courseName: course.title,
+    purpose: course.purpose,
+    difficulty: course.difficulty,
+    userId
+  }, step.key));
+
+  return { jobId: job.id, courseId: course.id, message: `${step.label} started.` };
+}
+
+// Latest job for a course. Courses generated before steps were tracked get a
+// job with every step marked completed, since their content already exists.
+async function getCourseJob(supabaseClient: SupabaseClient, course: CourseRecord) {
+  const { data: existing, error } = await supabaseClient
+    .from('course_generation_jobs')
+    .select('*')
+    .eq('course_id', course.id)
+    .eq('job_type', 'course_creation')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load generation job: ${error.message}`);
+  }
+
+  if (existing && Object.keys(existing.steps || {}).length > 0) {
+    return existing;
+  }
+
+  const steps = initialStepStates(GENERATION_STEPS, 'completed');
+
+  if (existing) {
     await supabaseClient
       .from('course_generation_jobs')
-      .update({
-        status: 'processing',
-        current_step: 'Generating course content',
-        progress_percentage: 10
-      })
-      .eq('course_id', courseId);
+      .update({ steps })
+      .eq('id', existing.id);
+    return { ...existing, steps };
+  }
 
-    // Log content generation start
-    await supabaseClient.from('agent_logs').insert({
-      agent_name: 'content-generation-agent',
-      user_id: userId,
-      course_id: courseId,
-      log_level: 'info',
-      message: 'Starting content generation',
-      metadata: { step: 'content_generation_start' }
-    });
+  const { data: job, error: jobError } = await supabaseClient
+    .from('course_generation_jobs')
+    .insert({
+      user_id: course.user_id,
+      course_id: course.id,
+      status: 'completed',
+      job_type: 'course_creation',
+      progress_percentage: 100,
+      steps,
+      metadata: { courseName: course.title, purpose: course.purpose, difficulty: course.difficulty }
+    })
+    .select()
+    .single();
 
-    // Generate chapters (40% progress)
-    await generateChapters(supabaseClient, courseId, courseName, difficulty, userId, geminiApiKey);
-    await updateProgress(supabaseClient, courseId, 40, 'Generated course chapters');
+  if (jobError) {
+    throw new Error(`Failed to create generation job: ${jobError.message}`);
+  }
 
-    // Generate flashcards (60% progress)
-    await generateFlashcards(supabaseClient, courseId, courseName, difficulty, userId);
-    await updateProgress(supabaseClient, courseId, 60, 'Generated flashcards');
+  await supabaseClient
+    .from('courses')
+    .update({ generation_job_id: job.id })
+    .eq('id', course.id);
 
-    // Generate MCQs (80% progress)
-    await generateMCQs(supabaseClient, courseId, courseName, difficulty, userId);
-    await updateProgress(supabaseClient, courseId, 80, 'Generated multiple choice questions');
+  return job;
+}
 
-    // Generate Q&As (90% progress)
-    await generateQAs(supabaseClient, courseId, courseName, difficulty, userId);
-    await updateProgress(supabaseClient, courseId, 90, 'Generated Q&A pairs');
+// Moves a job out of one of the `from` statuses in a single conditional
+// update. Throws `conflict` when the job has already left them, e.g. when a
+// second click raced the first one.
+async function transitionJob(supabaseClient: SupabaseClient, jobId: string, from: string[], update: Record<string, unknown>, conflict: string) {
+  const { data, error } = await supabaseClient
+    .from('course_generation_jobs')
+    .update(update)
+    .eq('id', jobId)
+    .in('status', from)
+    .select('id');
 
-    // Generate notebook (95% progress)
-    await generateNotebook(supabaseClient, courseId, courseName, difficulty, userId);
-    await updateProgress(supabaseClient, courseId, 95, 'Generated study notebook');
+  if (error) {
+    throw new Error(`Failed to update generation job: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new Error(conflict);
+  }
+}
 
-    // Find resources (100% progress)
-    await findResources(supabaseClient, courseId, courseName, userId);
-    await updateProgress(supabaseClient, courseId, 100, 'Found learning resources');
+async function restartJob(supabaseClient: SupabaseClient, jobId: string, from: string[]) {
+  await transitionJob(supabaseClient, jobId, from, {
+    status: 'pending',
+    error_message: null,
+    started_at: new Date().toISOString(),
+    completed_at: null
+  }, 'Course generation is already running');
+}
 
-    // Mark course as completed
-    await supabaseClient
-      .from('courses')
-      .update({ status: 'published' })
-      .eq('id', courseId);
+async function generateCourseContent(ctx: GenerationContext, rerun?: string) {
+  const { supabaseClient, jobId, courseId, userId } = ctx;
+  let steps: StepStates;
 
-    // Complete job
-    await supabaseClient
+  try {
+    // A job cancelled before the worker got to it stays cancelled
+    const { data: started, error: startError } = await supabaseClient
       .from('course_generation_jobs')
-      .update({
-        status: 'completed',
-        progress_percentage: 100,
-        current_step: 'Course generation completed',
-        completed_at: new Date().toISOString()
-      })
-      .eq('course_id', courseId);
+      .update({ status: 'processing' })
+      .eq('id', jobId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (startError) {
+      throw new Error(`Failed to start generation job: ${startError.message}`);
+    }
+    if (!started || started.length === 0) {
+      throw new WorkflowCancelledError();
+    }
 
-    // Log completion
+    // Log content generation start
     await supabaseClient.from('agent_logs').insert({
-      agent_name: 'course-generator-agent',
+      agent_name: 'content-generation-agent',
       user_id: userId,
       course_id: courseId,
+      job_id: jobId,
       log_level: 'info',
-      message: 'Course generation completed successfully',
-      metadata: { total_duration: '180s' }
+      message: 'Starting content generation',
+      metadata: { step: 'content_generation_start', rerun }
     });
 
+    steps = await runWorkflow(supabaseClient, jobId, GENERATION_STEPS, ctx, { rerun });
   } catch (error) {
+    if (error instanceof WorkflowCancelledError) {
+      console.log(`Course generation job ${jobId} cancelled`);
+      return;
+    }
+
+    const failedStep = error instanceof StepFailedError ? error.step.label : null;
     console.error('Error in background content generation:', error);
-    
+
+    // current_step is left on the step that failed so the UI can point at it
     await supabaseClient
       .from('course_generation_jobs')
       .update({
@@ -196,32 +470,391 @@ async function generateCourseContent(
         error_message: error.message,
         completed_at: new Date().toISOString()
       })
-      .eq('course_id', courseId);
+      .eq('id', jobId)
+      .neq('status', 'cancelled');
 
     await supabaseClient.from('agent_logs').insert({
       agent_name: 'course-generator-agent',
       user_id: userId,
       course_id: courseId,
+      job_id: jobId,
       log_level: 'error',
       message: `Course generation failed: ${error.message}`,
-      metadata: { error: error.stack }
+      metadata: { step: failedStep, error: error.stack }
     });
+    return;
   }
-}
 
-async function updateProgress(supabaseClient: any, courseId: string, percentage: number, step: string) {
-  await supabaseClient
+  if (!isComplete(GENERATION_STEPS, steps)) return;
+
+  // Complete job, unless it was cancelled after its last step finished
+  const { data: completed } = await supabaseClient
     .from('course_generation_jobs')
     .update({
-      progress_percentage: percentage,
-      current_step: step
+      status: 'completed',
+      progress_percentage: 100,
+      current_step: 'Course generation completed',
+      completed_at: new Date().toISOString()
     })
+    .eq('id', jobId)
+    .neq('status', 'cancelled')
+    .select('id');
+
+  if (!completed || completed.length === 0) {
+    console.log(`Course generation job ${jobId} cancelled`);
+    return;
+  }
+
+  // Mark course as completed
+  await supabaseClient
+    .from('courses')
+    .update({ status: 'published' })
+    .eq('id', courseId);
+
+  // Log completion
+  await supabaseClient.from('agent_logs').insert({
+    agent_name: 'course-generator-agent',
+    user_id: userId,
+    course_id: courseId,
+    job_id: jobId,
+    log_level: 'info',
+    message: rerun ? `Regenerated step: ${getStep(rerun).label}` : 'Course generation completed successfully',
+    metadata: { steps: GENERATION_STEPS.length, rerun }
+  });
+}
+
+type CourseContentTable = 'course_chapters' | 'course_flashcards' | 'course_mcqs' | 'course_qnas' | 'course_notebooks' | 'course_resources';
+
+// Rows that point at a step's output. Most cascade on delete, so removing a
+// chapter, flashcard or MCQ would take learners' progress, reviews and quiz
+// answers with it.
+const CONTENT_REFERENCES: Partial<Record<CourseContentTable, Array<{ table: string; column: string }>>> = {
+  course_chapters: [
+    { table: 'course_progress', column: 'chapter_id' },
+    { table: 'course_flashcards', column: 'chapter_id' },
+    { table: 'course_mcqs', column: 'chapter_id' },
+    { table: 'course_qnas', column: 'chapter_id' },
+    { table: 'course_resources', column: 'chapter_id' },
+    { table: 'course_notebooks', column: 'chapter_id' },
+    { table: 'course_exams', column: 'chapter_id' },
+  ],
+  course_flashcards: [
+    { table: 'flashcard_reviews', column: 'flashcard_id' },
+    { table: 'course_progress', column: 'flashcard_id' },
+  ],
+  course_mcqs: [
+    { table: 'quiz_answers', column: 'mcq_id' },
+    { table: 'course_progress', column: 'mcq_id' },
+  ],
+};
+
+async function referencedIds(supabaseClient: SupabaseClient, table: CourseContentTable, ids: string[]) {
+  const referenced = new Set<string>();
+
+  for (const reference of CONTENT_REFERENCES[table] || []) {
+    const { data, error } = await supabaseClient
+      .from(reference.table)
+      .select(reference.column)
+      .in(reference.column, ids);
+
+    if (error) {
+      throw new Error(`Failed to check ${reference.table}: ${error.message}`);
+    }
+    (data || []).forEach((row: Record<string, string>) => referenced.add(row[reference.column]));
+  }
+
+  return referenced;
+}
+
+// Column that identifies "the same" row across runs of a step. A rerun
+// updates the row with the same key in place, so reviews and answers stay on
+// the question they were given for; chapters are matched by position.
+const CONTENT_KEYS: Record<CourseContentTable, string> = {
+  course_chapters: 'order_number',
+  course_flashcards: 'question',
+  course_mcqs: 'question',
+  course_qnas: 'question',
+  // One course-level notebook per course
+  course_notebooks: 'course_id',
+  course_resources: 'url',
+};
+
+// Writes a step's rows over what an earlier run of the step produced, so a
+// rerun replaces its content instead of duplicating it. Rows whose content
+// key matches an earlier row update it and keep its id. Earlier rows the new
+// run no longer produces are deleted, or archived when something still
+// references them (only the tables in CONTENT_REFERENCES have archived_at).
+async function replaceCourseRows(supabaseClient: SupabaseClient, table: CourseContentTable, courseId: string, rows: Record<string, unknown>[], what: string) {
+  const key = CONTENT_KEYS[table];
+  const archivable = table in CONTENT_REFERENCES;
+  let query = supabaseClient
+    .from(table)
+    .select(`id, ${key}`)
     .eq('course_id', courseId);
+  if (table !== 'course_chapters') {
+    // Chapter-level content is generated separately from the CourseDetail page
+    query = query.is('chapter_id', null);
+  }
+
+  const { data: existing, error: existingError } = await query;
+  if (existingError) {
+    throw new Error(`Failed to load existing ${what}: ${existingError.message}`);
+  }
+
+  const previous: Array<Record<string, unknown> & { id: string }> = existing || [];
+  const matched = new Set<string>();
+  const inserts: Record<string, unknown>[] = [];
+
+  for (const row of rows) {
+    const match = previous.find(item => !matched.has(item.id) && item[key] === row[key]);
+    if (!match) {
+      inserts.push(row);
+      continue;
+    }
+
+    matched.add(match.id);
+    const { error } = await supabaseClient
+      .from(table)
+      .update(archivable ? { ...row, archived_at: null } : row)
+      .eq('id', match.id);
+
+    if (error) {
+      throw new Error(`Failed to update ${what}: ${error.message}`);
+    }
+  }
+
+  if (inserts.length > 0) {
+    const { error } = await supabaseClient.from(table).insert(inserts);
+    if (error) {
+      throw new Error(`Failed to create ${what}: ${error.message}`);
+    }
+  }
+
+  const leftover = previous.map(item => item.id).filter(id => !matched.has(id));
+  if (leftover.length === 0) return;
+
+  const referenced = await referencedIds(supabaseClient, table, leftover);
+  const removable = leftover.filter(id => !referenced.has(id));
+
+  if (referenced.size > 0) {
+    const { error: archiveError } = await supabaseClient
+      .from(table)
+      .update({ archived_at: new Date().toISOString() })
+      .in('id', [...referenced])
+      .is('archived_at', null);
+
+    if (archiveError) {
+      throw new Error(`Failed to archive earlier ${what}: ${archiveError.message}`);
+    }
+  }
+  if (removable.length === 0) return;
+
+  const { error: deleteError } = await supabaseClient
+    .from(table)
+    .delete()
+    .in('id', removable);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear earlier ${what}: ${deleteError.message}`);
+  }
+}
+
+// Null when no provider is configured; steps then fall back to templates
+async function getAIClient(ctx: GenerationContext, step: string): Promise<AIProvider | null> {
+  return createAIClient({
+    supabaseClient: ctx.supabaseClient,
+    userId: ctx.userId,
+    courseId: ctx.courseId,
+    feature: `course-generator-agent:${step}`
+  }).catch((error) => {
+    console.warn('No AI provider available, using templates:', error.message);
+    return null;
+  });
+}
+
+async function generateLayout(ctx: GenerationContext) {
+  const { supabaseClient, jobId, courseId, courseName, purpose, difficulty } = ctx;
+  let layout = templateLayout(courseName, purpose, difficulty);
+
+  const ai = await getAIClient(ctx, 'layout');
+  if (ai) {
+    try {
+      layout = await generateLayoutOutline(ai, courseName, purpose, difficulty);
+    } catch (error) {
+      console.warn('AI layout generation failed, using template layout:', error.message);
+    }
+  }
+
+  const { error } = await supabaseClient
+    .from('courses')
+    .update({ summary: layout.summary, tags: layout.tags })
+    .eq('id', courseId);
+
+  if (error) {
+    throw new Error(`Failed to update course layout: ${error.message}`);
+  }
+
+  // The chapters step writes the chapters planned here, including on retries
+  const { data: job } = await supabaseClient
+    .from('course_generation_jobs')
+    .select('metadata')
+    .eq('id', jobId)
+    .single();
+
+  const { error: jobError } = await supabaseClient
+    .from('course_generation_jobs')
+    .update({ metadata: { ...(job?.metadata || {}), layout } })
+    .eq('id', jobId);
+
+  if (jobError) {
+    throw new Error(`Failed to save course layout: ${jobError.message}`);
+  }
+}
+
+async function generateLayoutOutline(ai: AIProvider, courseName: string, purpose: string, difficulty: string): Promise<CourseLayout> {
+  const result = await completeJSON<Partial<CourseLayout>>(ai, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an expert curriculum designer. Plan courses that go from fundamentals to applications.'
+      },
+      {
+        role: 'user',
+        content: `Plan a ${difficulty}-level course on "${courseName}" for ${purpose.replace('_', ' ')} preparation.
+
+Return a JSON object with this structure:
+{
+  "summary": "Two or three sentences describing the course",
+  "tags": ["short", "topic", "tags"],
+  "chapters": [
+    { "title": "Chapter title", "focus": "What the chapter covers" }
+  ]
+}
+
+Plan 3 to 6 chapters and up to 5 tags.`
+      }
+    ],
+    temperature: 0.5,
+    maxTokens: 1500
+  });
+
+  const chapters = (Array.isArray(result.chapters) ? result.chapters : [])
+    .filter(chapter => chapter?.title)
+    .map(chapter => ({ title: String(chapter.title), focus: String(chapter.focus || '') }));
+
+  if (chapters.length === 0) {
+    throw new Error('AI returned no chapters in the layout');
+  }
+
+  return {
+    summary: String(result.summary || templateSummary(courseName, purpose, difficulty)),
+    tags: (Array.isArray(result.tags) ? result.tags : []).map(String).slice(0, 5),
+    chapters
+  };
+}
+
+async function generateChapters(ctx: GenerationContext) {
+  const { supabaseClient, jobId, courseId, courseName, difficulty } = ctx;
+  let chapters = templateChapters(courseId, courseName, difficulty);
+
+  const ai = await getAIClient(ctx, 'chapters');
+  if (ai) {
+    const { data: job } = await supabaseClient
+      .from('course_generation_jobs')
+      .select('metadata')
+      .eq('id', jobId)
+      .single();
+
+    try {
+      chapters = await generateChapterOutline(ai, courseId, courseName, difficulty, job?.metadata?.layout);
+    } catch (error) {
+      console.warn('AI chapter generation failed, using template chapters:', error.message);
+    }
+  }
+
+  await replaceCourseRows(supabaseClient, 'course_chapters', courseId, chapters, 'chapters');
+
+  const { error } = await supabaseClient
+    .from('courses')
+    .update({ completion_time_estimate: chapters.reduce((total, chapter) => total + chapter.estimated_reading_time, 0) })
+    .eq('id', courseId);
+
+  if (error) {
+    throw new Error(`Failed to update course length: ${error.message}`);
+  }
+}
+
+interface GeneratedChapter {
+  title?: string;
+  content?: string;
+  estimated_reading_time?: number;
+}
+
+async function generateChapterOutline(ai: AIProvider, courseId: string, courseName: string, difficulty: string, layout?: CourseLayout) {
+  const plan = layout?.chapters?.length
+    ? `\n\nFollow this chapter plan:\n${layout.chapters.map((chapter, i) => `${i + 1}. ${chapter.title}${chapter.focus ? `: ${chapter.focus}` : ''}`).join('\n')}`
+    : '\n\nWrite 3 to 6 chapters, from fundamentals to applications.';
+
+  const result = await completeJSON<{ chapters?: GeneratedChapter[] }>(ai, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an expert curriculum designer. Write clear, accurate course chapters that build on each other.'
+      },
+      {
+        role: 'user',
+        content: `Write the chapters for a ${difficulty}-level course on "${courseName}".
+
+Return a JSON object with this structure:
+{
+  "chapters": [
+    {
+      "title": "Chapter title",
+      "content": "Chapter text: explanations, examples and key takeaways",
+      "estimated_reading_time": 15
+    }
+  ]
+}
+
+estimated_reading_time is in minutes.${plan}`
+      }
+    ],
+    temperature: 0.7,
+    maxTokens: 4000
+  });
+
+  const chapters = (Array.isArray(result.chapters) ? result.chapters : [])
+    .filter((chapter: GeneratedChapter) => chapter?.title && chapter?.content)
+    .map((chapter: GeneratedChapter, i: number) => ({
+      course_id: courseId,
+      title: String(chapter.title),
+      content: String(chapter.content),
+      order_number: i + 1,
+      estimated_reading_time: Number(chapter.estimated_reading_time) || 15
+    }));
+
+  if (chapters.length === 0) {
+    throw new Error('AI returned no chapters');
+  }
+
+  return chapters;
 }
 
-// Content generation functions with static data for now
-async function generateChapters(supabaseClient: any, courseId: string, courseName: string, difficulty: string, userId: string, geminiApiKey: string) {
-  const chapters = [
+function templateSummary(courseName: string, purpose: string, difficulty: string) {
+  return `A comprehensive course on ${courseName} for ${purpose} at ${difficulty} level.`;
+}
+
+function templateLayout(courseName: string, purpose: string, difficulty: string): CourseLayout {
+  return {
+    summary: templateSummary(courseName, purpose, difficulty),
+    tags: [purpose.replace('_', ' '), difficulty],
+    chapters: templateChapters('', courseName, difficulty).map(chapter => ({ title: chapter.title, focus: '' }))
+  };
+}
+
+// Template content, used when no AI provider is configured
+function templateChapters(courseId: string, courseName: string, difficulty: string) {
+  return [
     {
       course_id: courseId,
       title: `Introduction to ${courseName}`,
@@ -244,18 +877,227 @@ async function generateChapters(supabaseClient: any, courseId: string, courseNam
       estimated_reading_time: 30
     }
   ];
+}
 
-  const { error } = await supabaseClient
+interface GeneratedCard {
+  question?: string;
+  answer?: string;
+}
+
+interface GeneratedMCQ {
+  question?: string;
+  options?: string[];
+  correct_answer?: string;
+  explanation?: string;
+}
+
+interface GeneratedNotebook {
+  key_concepts?: Array<{ term?: string; definition?: string }>;
+  analogy?: string;
+  study_guide?: string;
+}
+
+// Runs `generate` with the user's AI provider, falling back to the template
+// when none is configured or the model's answer is unusable
+async function generateOrTemplate<T>(ctx: GenerationContext, step: string, template: T, generate: (ai: AIProvider) => Promise<T>): Promise<T> {
+  const ai = await getAIClient(ctx, step);
+  if (!ai) return template;
+
+  try {
+    return await generate(ai);
+  } catch (error) {
+    console.warn(`AI ${step} generation failed, using the template:`, error.message);
+    return template;
+  }
+}
+
+// Chapter titles to ground the course-level content in what the course
+// actually covers
+async function chapterOutline(ctx: GenerationContext) {
+  const { data } = await ctx.supabaseClient
     .from('course_chapters')
-    .insert(chapters);
+    .select('title')
+    .eq('course_id', ctx.courseId)
+    .is('archived_at', null)
+    .order('order_number');
 
-  if (error) {
-    throw new Error(`Failed to create chapters: ${error.message}`);
+  const titles = (data || []).map((chapter: { title: string }, i: number) => `${i + 1}. ${chapter.title}`);
+  return titles.length > 0 ? `\n\nThe course has these chapters:\n${titles.join('\n')}` : '';
+}
+
+const validCards = (cards: GeneratedCard[] | undefined, what: string) => {
+  const valid = (Array.isArray(cards) ? cards : []).filter(card => card?.question && card?.answer);
+  if (valid.length === 0) {
+    throw new Error(`AI returned no ${what}`);
   }
+  return valid.map(card => ({ question: String(card.question), answer: String(card.answer) }));
+};
+
+async function generateFlashcards(ctx: GenerationContext) {
+  const { supabaseClient, courseId, courseName, difficulty } = ctx;
+
+  const flashcards = await generateOrTemplate(ctx, 'flashcards', templateFlashcards(courseId, courseName, difficulty), async (ai) => {
+    const result = await completeJSON<{ flashcards?: GeneratedCard[] }>(ai, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert educational content creator. Write accurate flashcards that help students learn effectively.'
+        },
+        {
+          role: 'user',
+          content: `Write 8 flashcards for a ${difficulty}-level course on "${courseName}".${await chapterOutline(ctx)}
+
+Return a JSON object with this structure:
+{
+  "flashcards": [
+    { "question": "Clear, specific question", "answer": "Concise answer" }
+  ]
+}`
+        }
+      ],
+      temperature: 0.7,
+      maxTokens: 2000
+    });
+
+    return validCards(result.flashcards, 'flashcards').map(card => ({ course_id: courseId, ...card, difficulty }));
+  });
+
+  await replaceCourseRows(supabaseClient, 'course_flashcards', courseId, flashcards, 'flashcards');
 }
 
-async function generateFlashcards(supabaseClient: any, courseId: string, courseName: string, difficulty: string, userId: string) {
-  const flashcards = [
+async function generateMCQs(ctx: GenerationContext) {
+  const { supabaseClient, courseId, courseName, difficulty } = ctx;
+
+  const mcqs = await generateOrTemplate(ctx, 'mcqs', templateMCQs(courseId, courseName, difficulty), async (ai) => {
+    const result = await completeJSON<{ mcqs?: GeneratedMCQ[] }>(ai, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert educational assessment creator. Write challenging but fair multiple choice questions.'
+        },
+        {
+          role: 'user',
+          content: `Write 6 multiple choice questions for a ${difficulty}-level course on "${courseName}".${await chapterOutline(ctx)}
+
+Return a JSON object with this structure:
+{
+  "mcqs": [
+    {
+      "question": "Clear question",
+      "options": ["Option A", "Option B", "Option C", "Option D"],
+      "correct_answer": "Option B",
+      "explanation": "Why this answer is correct"
+    }
+  ]
+}
+
+correct_answer must be one of the options, word for word.`
+        }
+      ],
+      temperature: 0.7,
+      maxTokens: 2500
+    });
+
+    const valid = (Array.isArray(result.mcqs) ? result.mcqs : []).filter(mcq =>
+      mcq?.question && Array.isArray(mcq.options) && mcq.options.length >= 2 && mcq.options.includes(mcq.correct_answer as string)
+    );
+    if (valid.length === 0) {
+      throw new Error('AI returned no usable MCQs');
+    }
+
+    return valid.map(mcq => ({
+      course_id: courseId,
+      question: String(mcq.question),
+      options: (mcq.options as string[]).map(String),
+      correct_answer: String(mcq.correct_answer),
+      explanation: String(mcq.explanation || ''),
+      difficulty
+    }));
+  });
+
+  await replaceCourseRows(supabaseClient, 'course_mcqs', courseId, mcqs, 'MCQs');
+}
+
+async function generateQAs(ctx: GenerationContext) {
+  const { supabaseClient, courseId, courseName, difficulty } = ctx;
+
+  const qnas = await generateOrTemplate(ctx, 'qnas', templateQAs(courseId, courseName), async (ai) => {
+    const result = await completeJSON<{ qnas?: GeneratedCard[] }>(ai, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert educator writing detailed Q&A content for deep understanding.'
+        },
+        {
+          role: 'user',
+          content: `Write 5 Q&A pairs for a ${difficulty}-level course on "${courseName}", covering practical applications and common challenges.${await chapterOutline(ctx)}
+
+Return a JSON object with this structure:
+{
+  "qnas": [
+    { "question": "Thoughtful question", "answer": "Answer with examples and explanations" }
+  ]
+}`
+        }
+      ],
+      temperature: 0.7,
+      maxTokens: 3000
+    });
+
+    return validCards(result.qnas, 'Q&As').map(qna => ({ course_id: courseId, ...qna }));
+  });
+
+  await replaceCourseRows(supabaseClient, 'course_qnas', courseId, qnas, 'Q&As');
+}
+
+async function generateNotebook(ctx: GenerationContext) {
+  const { supabaseClient, courseId, courseName, difficulty } = ctx;
+
+  const notebook = await generateOrTemplate(ctx, 'notebook', templateNotebook(courseId, courseName), async (ai) => {
+    const result = await completeJSON<GeneratedNotebook>(ai, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert learning designer creating study materials.'
+        },
+        {
+          role: 'user',
+          content: `Create a study notebook for a ${difficulty}-level course on "${courseName}".${await chapterOutline(ctx)}
+
+Return a JSON object with this structure:
+{
+  "key_concepts": [
+    { "term": "Concept name", "definition": "Clear definition" }
+  ],
+  "analogy": "Real-world analogy that explains the subject",
+  "study_guide": "Step-by-step study guide with key points and learning objectives"
+}`
+        }
+      ],
+      temperature: 0.7,
+      maxTokens: 3000
+    });
+
+    const keyConcepts = (Array.isArray(result.key_concepts) ? result.key_concepts : [])
+      .filter(concept => concept?.term && concept?.definition)
+      .map(concept => ({ term: String(concept.term), definition: String(concept.definition) }));
+    if (keyConcepts.length === 0 || !result.study_guide) {
+      throw new Error('AI returned an incomplete notebook');
+    }
+
+    return {
+      course_id: courseId,
+      key_concepts: keyConcepts,
+      analogy: String(result.analogy || ''),
+      study_guide: String(result.study_guide)
+    };
+  });
+
+  await replaceCourseRows(supabaseClient, 'course_notebooks', courseId, [notebook], 'notebook');
+}
+
+function templateFlashcards(courseId: string, courseName: string, difficulty: string) {
+  return [
     {
       course_id: courseId,
       question: `What is ${courseName}?`,
@@ -275,18 +1117,10 @@ async function generateFlashcards(supabaseClient: any, courseId: string, courseN
       difficulty: difficulty
     }
   ];
-
-  const { error } = await supabaseClient
-    .from('course_flashcards')
-    .insert(flashcards);
-
-  if (error) {
-    throw new Error(`Failed to create flashcards: ${error.message}`);
-  }
 }
 
-async function generateMCQs(supabaseClient: any, courseId: string, courseName: string, difficulty: string, userId: string) {
-  const mcqs = [
+function templateMCQs(courseId: string, courseName: string, difficulty: string) {
+  return [
     {
       course_id: courseId,
       question: `Which of the following best describes ${courseName}?`,
@@ -304,18 +1138,10 @@ async function generateMCQs(supabaseClient: any, courseId: string, courseName: s
       difficulty: difficulty
     }
   ];
-
-  const { error } = await supabaseClient
-    .from('course_mcqs')
-    .insert(mcqs);
-
-  if (error) {
-    throw new Error(`Failed to create MCQs: ${error.message}`);
-  }
 }
 
-async function generateQAs(supabaseClient: any, courseId: string, courseName: string, difficulty: string, userId: string) {
-  const qnas = [
+function templateQAs(courseId: string, courseName: string) {
+  return [
     {
       course_id: courseId,
       question: `How do I get started with ${courseName}?`,
@@ -327,18 +1153,10 @@ async function generateQAs(supabaseClient: any, courseId: string, courseName: st
       answer: `Common mistakes include rushing through concepts without proper understanding, not practicing enough, and failing to connect theoretical knowledge with practical applications.`
     }
   ];
-
-  const { error } = await supabaseClient
-    .from('course_qnas')
-    .insert(qnas);
-
-  if (error) {
-    throw new Error(`Failed to create Q&As: ${error.message}`);
-  }
 }
 
-async function generateNotebook(supabaseClient: any, courseId: string, courseName: string, difficulty: string, userId: string) {
-  const notebook = {
+function templateNotebook(courseId: string, courseName: string) {
+  return {
     course_id: courseId,
     key_concepts: [
       { term: "Fundamentals", definition: `Basic principles and concepts of ${courseName}` },
@@ -348,17 +1166,11 @@ async function generateNotebook(supabaseClient: any, courseId: string, courseNam
     analogy: `Think of ${courseName} like building a house - you need a strong foundation (fundamentals), proper tools (concepts), and good planning (methodology).`,
     study_guide: `To master ${courseName}, follow this study guide: 1) Review all chapters thoroughly, 2) Practice with flashcards daily, 3) Test your knowledge with MCQs, 4) Apply concepts through exercises, 5) Review and reinforce learning regularly.`
   };
-
-  const { error } = await supabaseClient
-    .from('course_notebooks')
-    .insert(notebook);
-
-  if (error) {
-    throw new Error(`Failed to create notebook: ${error.message}`);
-  }
 }
 
-async function findResources(supabaseClient: any, courseId: string, courseName: string, userId: string) {
+// Placeholder links; not regenerable since every run writes the same rows
+async function findResources(ctx: GenerationContext) {
+  const { supabaseClient, courseId, courseName } = ctx;
   const resources = [
     {
       course_id: courseId,
@@ -386,11 +1198,5 @@ async function findResources(supabaseClient: any, courseId: string, courseName:
     }
   ];
 
-  const { error } = await supabaseClient
-    .from('course_resources')
-    .insert(resources);
-
-  if (error) {
-    throw new Error(`Failed to create resources: ${error.message}`);
-  }
+  await replaceCourseRows(supabaseClient, 'course_resources', courseId, resources, 'resources');
 }
\ No newline at end of file
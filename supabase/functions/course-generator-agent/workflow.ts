@@ -0,0 +1,132 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Step-based workflow stored on a course_generation_jobs row. Each step's
+// state lives under its key in the job's `steps` column, so a retry picks up
+// at the first step that has not completed and a single step can be rerun
+// on its own. Steps must be idempotent: rerunning one replaces its output
+// without deleting anything learners' progress still points at.
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface StepState {
+  status: StepStatus;
+  attempts: number;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export type StepStates = Record<string, StepState>;
+
+export interface WorkflowStep<C> {
+  key: string;
+  label: string;
+  run: (ctx: C) => Promise<void>;
+}
+
+export interface RunOptions {
+  // Step to run again even though it already completed
+  rerun?: string;
+}
+
+export class WorkflowCancelledError extends Error {
+  constructor() {
+    super('Course generation was cancelled');
+    this.name = 'WorkflowCancelledError';
+  }
+}
+
+export class StepFailedError extends Error {
+  constructor(public step: WorkflowStep<unknown>, public cause: Error) {
+    super(cause.message);
+    this.name = 'StepFailedError';
+  }
+}
+
+export const initialStepStates = (steps: WorkflowStep<unknown>[], status: StepStatus = 'pending'): StepStates =>
+  Object.fromEntries(
+    steps.map(step => [step.key, { status, attempts: 0, error: null, started_at: null, completed_at: null }])
+  );
+
+export const progressFor = (steps: WorkflowStep<unknown>[], states: StepStates) =>
+  Math.round((steps.filter(step => states[step.key]?.status === 'completed').length / steps.length) * 100);
+
+export const isComplete = (steps: WorkflowStep<unknown>[], states: StepStates) =>
+  steps.every(step => states[step.key]?.status === 'completed');
+
+const loadJob = async (supabaseClient: SupabaseClient, jobId: string) => {
+  const { data, error } = await supabaseClient
+    .from('course_generation_jobs')
+    .select('status, steps')
+    .eq('id', jobId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to load generation job: ${error?.message || 'not found'}`);
+  }
+
+  return { status: data.status as string, steps: (data.steps || {}) as StepStates };
+};
+
+// Runs every step that has not completed yet (plus `rerun`, if given) in
+// order, saving each step's state as it starts and finishes. Throws
+// StepFailedError on the first failing step and WorkflowCancelledError when
+// the job is cancelled, either between steps or while one was running (its
+// result is then not saved); the caller settles the job status.
+export async function runWorkflow<C>(
+  supabaseClient: SupabaseClient,
+  jobId: string,
+  steps: WorkflowStep<C>[],
+  ctx: C,
+  options: RunOptions = {}
+): Promise<StepStates> {
+  let states: StepStates = {};
+
+  // Only writes while the job is still live, so a cancel that lands during
+  // a step is never overwritten by that step's result
+  const save = async (key: string, state: Partial<StepState>, label: string) => {
+    states = { ...states, [key]: { ...states[key], ...state } };
+    const { data, error } = await supabaseClient
+      .from('course_generation_jobs')
+      .update({ steps: states, current_step: label, progress_percentage: progressFor(steps, states) })
+      .eq('id', jobId)
+      .neq('status', 'cancelled')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to save step state: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new WorkflowCancelledError();
+    }
+  };
+
+  for (const step of steps) {
+    const job = await loadJob(supabaseClient, jobId);
+    if (job.status === 'cancelled') {
+      throw new WorkflowCancelledError();
+    }
+    states = { ...initialStepStates(steps), ...job.steps };
+
+    if (states[step.key].status === 'completed' && step.key !== options.rerun) continue;
+
+    await save(step.key, {
+      status: 'running',
+      attempts: (states[step.key].attempts || 0) + 1,
+      error: null,
+      started_at: new Date().toISOString(),
+      completed_at: null
+    }, step.label);
+
+    try {
+      await step.run(ctx);
+    } catch (error) {
+      await save(step.key, { status: 'failed', error: error.message }, step.label);
+      throw new StepFailedError(step as WorkflowStep<unknown>, error);
+    }
+
+    await save(step.key, { status: 'completed', completed_at: new Date().toISOString() }, step.label);
+  }
+
+  return states;
+}
@@ -1,6 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { AIProvider, completeJSON } from '../_shared/ai/index.ts';
+import { AuthRequiredError, NotFoundError, createAIClient, errorStatus, getRequestUserId } from '../_shared/ai/server.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,11 +11,52 @@ const corsHeaders = {
 
 interface GenerateContentRequest {
   courseId: string;
-  contentType: 'flashcards' | 'mcqs' | 'qnas' | 'notebook' | 'resources';
+  contentType: 'flashcards' | 'mcqs' | 'qnas' | 'notebook' | 'resources' | 'exam';
   topic: string;
   difficulty?: 'easy' | 'medium' | 'hard';
   count?: number;
   chapterContent?: string;
+  chapterId?: string;
+  durationMinutes?: number;
+}
+
+interface GeneratedCard {
+  question: string;
+  answer: string;
+}
+
+interface GeneratedMCQ {
+  question: string;
+  options: string[];
+  correct_answer: string;
+  explanation?: string;
+}
+
+interface GeneratedNotebook {
+  keyConcepts?: Array<{ term: string; definition: string }>;
+  analogy?: string;
+  mindMap?: Record<string, unknown>;
+  studyGuide?: string;
+}
+
+interface GeneratedExamQuestion {
+  question_text: string;
+  question_type: string;
+  options?: string[];
+  correct_answer: string;
+  explanation?: string;
+  marks?: number;
+  difficulty?: string;
+  tags?: string[];
+}
+
+interface CourseResource {
+  title: string;
+  url: string;
+  description: string;
+  thumbnail_url: string;
+  provider: string;
+  type: string;
 }
 
 interface YouTubeSearchResult {
@@ -37,46 +80,71 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const groqApiKey = Deno.env.get('GROQ_API_KEY');
     const youtubeApiKey = Deno.env.get('YOUTUBE_API_KEY');
 
-    if (!groqApiKey) {
-      throw new Error('GROQ_API_KEY not configured');
-    }
+    const { courseId, contentType, topic, difficulty = 'medium', count = 5, chapterContent, chapterId, durationMinutes }: GenerateContentRequest = await req.json();
 
-    const { courseId, contentType, topic, difficulty = 'medium', count = 5, chapterContent }: GenerateContentRequest = await req.json();
+    // Content is written with the service role key, so check the caller owns
+    // the course (and chapter) it is written to first
+    const userId = await getRequestUserId(supabaseClient, req);
+    if (!userId) {
+      throw new AuthRequiredError();
+    }
+    await assertOwnsCourse(supabaseClient, userId, courseId, chapterId);
+
+    // Resources come from YouTube, everything else from the caller's AI provider
+    const ai = contentType === 'resources'
+      ? null
+      : await createAIClient({
+          supabaseClient,
+          userId,
+          feature: `generate-course-content:${contentType}`,
+          courseId
+        });
 
     console.log(`🤖 Generating ${contentType} for course ${courseId}, topic: ${topic}`);
 
-    let generatedContent: any = {};
-    let aiResponse: any = {};
+    let generatedContent: unknown;
 
     // Generate content based on type
     switch (contentType) {
-      case 'flashcards':
-        aiResponse = await generateFlashcards(groqApiKey, topic, difficulty, count, chapterContent);
-        generatedContent = await saveFlashcards(supabaseClient, courseId, aiResponse.flashcards);
+      case 'flashcards': {
+        const { flashcards } = await generateFlashcards(ai, topic, difficulty, count, chapterContent);
+        generatedContent = await saveFlashcards(supabaseClient, courseId, flashcards);
         break;
+      }
 
-      case 'mcqs':
-        aiResponse = await generateMCQs(groqApiKey, topic, difficulty, count, chapterContent);
-        generatedContent = await saveMCQs(supabaseClient, courseId, aiResponse.mcqs);
+      case 'mcqs': {
+        const { mcqs } = await generateMCQs(ai, topic, difficulty, count, chapterContent);
+        generatedContent = await saveMCQs(supabaseClient, courseId, mcqs);
         break;
+      }
 
-      case 'qnas':
-        aiResponse = await generateQNAs(groqApiKey, topic, difficulty, count, chapterContent);
-        generatedContent = await saveQNAs(supabaseClient, courseId, aiResponse.qnas);
+      case 'qnas': {
+        const { qnas } = await generateQNAs(ai, topic, difficulty, count, chapterContent);
+        generatedContent = await saveQNAs(supabaseClient, courseId, qnas);
         break;
+      }
 
-      case 'notebook':
-        aiResponse = await generateNotebook(groqApiKey, topic, chapterContent);
-        generatedContent = await saveNotebook(supabaseClient, courseId, aiResponse);
+      case 'notebook': {
+        const notebook = await generateNotebook(ai, topic, chapterContent);
+        generatedContent = await saveNotebook(supabaseClient, courseId, notebook);
         break;
+      }
+
+      case 'exam': {
+        const { questions } = await generateExam(ai, topic, difficulty, count, chapterContent);
+        generatedContent = await saveExam(supabaseClient, courseId, topic, difficulty, questions, {
+          chapterId,
+          durationMinutes
+        });
+        break;
+      }
 
       case 'resources':
         if (youtubeApiKey) {
-          aiResponse = await searchYouTubeVideos(youtubeApiKey, topic);
-          generatedContent = await saveResources(supabaseClient, courseId, aiResponse);
+          const resources = await searchYouTubeVideos(youtubeApiKey, topic);
+          generatedContent = await saveResources(supabaseClient, courseId, resources);
         } else {
           throw new Error('YouTube API key not configured');
         }
@@ -103,13 +171,38 @@ serve(async (req) => {
       success: false,
       error: error.message
     }), {
-      status: 500,
+      status: errorStatus(error),
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
 });
 
-async function generateFlashcards(groqApiKey: string, topic: string, difficulty: string, count: number, chapterContent?: string) {
+async function assertOwnsCourse(supabaseClient: SupabaseClient, userId: string, courseId: string, chapterId?: string) {
+  const { data: course } = await supabaseClient
+    .from('courses')
+    .select('user_id')
+    .eq('id', courseId)
+    .maybeSingle();
+
+  if (!course || course.user_id !== userId) {
+    throw new NotFoundError('Course not found');
+  }
+
+  if (!chapterId) return;
+
+  const { data: chapter } = await supabaseClient
+    .from('course_chapters')
+    .select('id')
+    .eq('id', chapterId)
+    .eq('course_id', courseId)
+    .maybeSingle();
+
+  if (!chapter) {
+    throw new NotFoundError('Chapter not found');
+  }
+}
+
+async function generateFlashcards(ai: AIProvider, topic: string, difficulty: string, count: number, chapterContent?: string) {
   const prompt = `Generate ${count} high-quality flashcards about "${topic}" with ${difficulty} difficulty level.
 ${chapterContent ? `\n\nBased on this content:\n${chapterContent.substring(0, 2000)}` : ''}
 
@@ -129,45 +222,23 @@ Focus on:
 - Common misconceptions
 - Important details for ${difficulty} level learners`;
 
-  const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${groqApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'llama-3.1-70b-versatile',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert educational content creator. Generate high-quality, accurate flashcards that help students learn effectively.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 2000
-    }),
+  return completeJSON<{ flashcards: GeneratedCard[] }>(ai, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an expert educational content creator. Generate high-quality, accurate flashcards that help students learn effectively.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    temperature: 0.7,
+    maxTokens: 2000
   });
-
-  if (!response.ok) {
-    throw new Error(`Groq API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices[0].message.content;
-  
-  try {
-    return JSON.parse(content);
-  } catch (e) {
-    console.error('Failed to parse Groq response:', content);
-    throw new Error('Invalid AI response format');
-  }
 }
 
-async function generateMCQs(groqApiKey: string, topic: string, difficulty: string, count: number, chapterContent?: string) {
+async function generateMCQs(ai: AIProvider, topic: string, difficulty: string, count: number, chapterContent?: string) {
   const prompt = `Generate ${count} high-quality multiple choice questions about "${topic}" with ${difficulty} difficulty level.
 ${chapterContent ? `\n\nBased on this content:\n${chapterContent.substring(0, 2000)}` : ''}
 
@@ -189,45 +260,23 @@ Guidelines:
 - Provide clear explanations
 - Match ${difficulty} difficulty level`;
 
-  const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${groqApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'llama-3.1-70b-versatile',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert educational assessment creator. Generate challenging but fair multiple choice questions.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 2000
-    }),
+  return completeJSON<{ mcqs: GeneratedMCQ[] }>(ai, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an expert educational assessment creator. Generate challenging but fair multiple choice questions.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    temperature: 0.7,
+    maxTokens: 2000
   });
-
-  if (!response.ok) {
-    throw new Error(`Groq API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices[0].message.content;
-  
-  try {
-    return JSON.parse(content);
-  } catch (e) {
-    console.error('Failed to parse Groq response:', content);
-    throw new Error('Invalid AI response format');
-  }
 }
 
-async function generateQNAs(groqApiKey: string, topic: string, difficulty: string, count: number, chapterContent?: string) {
+async function generateQNAs(ai: AIProvider, topic: string, difficulty: string, count: number, chapterContent?: string) {
   const prompt = `Generate ${count} comprehensive Q&A pairs about "${topic}" with ${difficulty} difficulty level.
 ${chapterContent ? `\n\nBased on this content:\n${chapterContent.substring(0, 2000)}` : ''}
 
@@ -247,45 +296,23 @@ Focus on:
 - Real-world scenarios
 - Common challenges and solutions`;
 
-  const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${groqApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'llama-3.1-70b-versatile',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert educator creating detailed Q&A content for deep learning.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 3000
-    }),
+  return completeJSON<{ qnas: GeneratedCard[] }>(ai, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an expert educator creating detailed Q&A content for deep learning.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    temperature: 0.7,
+    maxTokens: 3000
   });
-
-  if (!response.ok) {
-    throw new Error(`Groq API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices[0].message.content;
-  
-  try {
-    return JSON.parse(content);
-  } catch (e) {
-    console.error('Failed to parse Groq response:', content);
-    throw new Error('Invalid AI response format');
-  }
 }
 
-async function generateNotebook(groqApiKey: string, topic: string, chapterContent?: string) {
+async function generateNotebook(ai: AIProvider, topic: string, chapterContent?: string) {
   const prompt = `Create a comprehensive learning notebook for "${topic}".
 ${chapterContent ? `\n\nBased on this content:\n${chapterContent.substring(0, 3000)}` : ''}
 
@@ -314,45 +341,67 @@ Return a JSON object with this structure:
 
 Make it comprehensive and educational.`;
 
-  const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${groqApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'llama-3.1-70b-versatile',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert learning designer creating comprehensive study materials.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 4000
-    }),
+  return completeJSON<GeneratedNotebook>(ai, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an expert learning designer creating comprehensive study materials.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    temperature: 0.7,
+    maxTokens: 4000
   });
+}
 
-  if (!response.ok) {
-    throw new Error(`Groq API error: ${response.statusText}`);
-  }
+async function generateExam(ai: AIProvider, topic: string, difficulty: string, count: number, chapterContent?: string) {
+  const prompt = `Generate a timed exam of ${count} questions about "${topic}" with ${difficulty} difficulty level.
+${chapterContent ? `\n\nBased on this content:\n${chapterContent.substring(0, 3000)}` : ''}
 
-  const data = await response.json();
-  const content = data.choices[0].message.content;
-  
-  try {
-    return JSON.parse(content);
-  } catch (e) {
-    console.error('Failed to parse Groq response:', content);
-    throw new Error('Invalid AI response format');
-  }
+Return a JSON object with this structure:
+{
+  "questions": [
+    {
+      "question_text": "Clear question",
+      "question_type": "mcq",
+      "options": ["Option A", "Option B", "Option C", "Option D"],
+      "correct_answer": "Option B",
+      "explanation": "Why this answer is correct",
+      "marks": 1,
+      "difficulty": "medium",
+      "tags": ["subtopic"]
+    }
+  ]
+}
+
+Guidelines:
+- question_type is one of "mcq", "true_false" or "short_answer"
+- Mostly "mcq"; for "true_false" use options ["True", "False"]
+- For "short_answer" omit options and keep correct_answer to a few words
+- correct_answer must exactly match one of the options when options are given
+- Give harder questions 2 marks, the rest 1 mark
+- Match ${difficulty} difficulty level`;
+
+  return completeJSON<{ questions: GeneratedExamQuestion[] }>(ai, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an expert examiner. Generate fair, unambiguous exam questions with a single correct answer.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    temperature: 0.5,
+    maxTokens: 4000
+  });
 }
 
-async function searchYouTubeVideos(youtubeApiKey: string, topic: string) {
+async function searchYouTubeVideos(youtubeApiKey: string, topic: string): Promise<CourseResource[]> {
   const searchQuery = encodeURIComponent(`${topic} tutorial programming`);
   const url = `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=10&q=${searchQuery}&type=video&key=${youtubeApiKey}`;
 
@@ -374,7 +423,7 @@ async function searchYouTubeVideos(youtubeApiKey: string, topic: string) {
   })) || [];
 }
 
-async function saveFlashcards(supabaseClient: any, courseId: string, flashcards: any[]) {
+async function saveFlashcards(supabaseClient: SupabaseClient, courseId: string, flashcards: GeneratedCard[]) {
   const { data, error } = await supabaseClient
     .from('course_flashcards')
     .insert(
@@ -391,7 +440,7 @@ async function saveFlashcards(supabaseClient: any, courseId: string, flashcards:
   return data;
 }
 
-async function saveMCQs(supabaseClient: any, courseId: string, mcqs: any[]) {
+async function saveMCQs(supabaseClient: SupabaseClient, courseId: string, mcqs: GeneratedMCQ[]) {
   const { data, error } = await supabaseClient
     .from('course_mcqs')
     .insert(
@@ -410,7 +459,7 @@ async function saveMCQs(supabaseClient: any, courseId: string, mcqs: any[]) {
   return data;
 }
 
-async function saveQNAs(supabaseClient: any, courseId: string, qnas: any[]) {
+async function saveQNAs(supabaseClient: SupabaseClient, courseId: string, qnas: GeneratedCard[]) {
   const { data, error } = await supabaseClient
     .from('course_qnas')
     .insert(
@@ -426,7 +475,7 @@ async function saveQNAs(supabaseClient: any, courseId: string, qnas: any[]) {
   return data;
 }
 
-async function saveNotebook(supabaseClient: any, courseId: string, notebook: any) {
+async function saveNotebook(supabaseClient: SupabaseClient, courseId: string, notebook: GeneratedNotebook) {
   const { data, error } = await supabaseClient
     .from('course_notebooks')
     .insert({
@@ -442,7 +491,7 @@ async function saveNotebook(supabaseClient: any, courseId: string, notebook: any
   return data[0];
 }
 
-async function saveResources(supabaseClient: any, courseId: string, resources: any[]) {
+async function saveResources(supabaseClient: SupabaseClient, courseId: string, resources: CourseResource[]) {
   const { data, error } = await supabaseClient
     .from('course_resources')
     .insert(
@@ -460,4 +509,57 @@ async function saveResources(supabaseClient: any, courseId: string, resources: a
 
   if (error) throw new Error(`Failed to save resources: ${error.message}`);
   return data;
-}
\ No newline at end of file
+}
+
+async function saveExam(
+  supabaseClient: SupabaseClient,
+  courseId: string,
+  topic: string,
+  difficulty: string,
+  questions: GeneratedExamQuestion[],
+  options: { chapterId?: string; durationMinutes?: number }
+) {
+  const examDifficulty = difficulty === 'easy' ? 'beginner' : difficulty === 'hard' ? 'advanced' : 'intermediate';
+  const validQuestions = (questions || []).filter(q => q.question_text && q.correct_answer);
+
+  const { data: exam, error: examError } = await supabaseClient
+    .from('course_exams')
+    .insert({
+      course_id: courseId,
+      chapter_id: options.chapterId || null,
+      title: `${topic} ${options.chapterId ? 'Chapter Test' : 'Final Exam'}`,
+      exam_type: options.chapterId ? 'chapter_test' : 'final_exam',
+      total_questions: validQuestions.length,
+      duration_minutes: options.durationMinutes || Math.max(10, validQuestions.length * 2),
+      difficulty: examDifficulty,
+      instructions: 'Answer every question before the timer runs out. Unanswered questions score zero.'
+    })
+    .select()
+    .single();
+
+  if (examError) throw new Error(`Failed to save exam: ${examError.message}`);
+
+  const { error: questionsError } = await supabaseClient
+    .from('exam_questions')
+    .insert(
+      validQuestions.map(q => ({
+        exam_id: exam.id,
+        course_id: courseId,
+        question_text: q.question_text,
+        question_type: ['mcq', 'true_false', 'short_answer'].includes(q.question_type) ? q.question_type : 'mcq',
+        options: q.options || null,
+        correct_answer: q.correct_answer,
+        explanation: q.explanation,
+        marks: q.marks || 1,
+        difficulty: ['easy', 'medium', 'hard'].includes(q.difficulty) ? q.difficulty : difficulty,
+        tags: q.tags || []
+      }))
+    );
+
+  if (questionsError) {
+    // Don't leave an exam with no questions behind
+    await supabaseClient.from('course_exams').delete().eq('id', exam.id);
+    throw new Error(`Failed to save exam questions: ${questionsError.message}`);
+  }
+  return exam;
+}
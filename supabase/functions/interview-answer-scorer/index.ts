@@ -0,0 +1,108 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { AIProvider, completeJSON } from '../_shared/ai/index.ts';
+import { createAIClient, errorStatus, getRequestUserId } from '../_shared/ai/server.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ScoreRequest {
+  role?: string | null;
+  question: string;
+  reference_answer?: string;
+  key_points: string[];
+  expects_star: boolean;
+  transcript: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const request: ScoreRequest = await req.json();
+
+    if (!request.question || !request.transcript) {
+      throw new Error('question and transcript are required');
+    }
+
+    const ai = await createAIClient({
+      supabaseClient,
+      userId: await getRequestUserId(supabaseClient, req),
+      feature: 'interview-answer-scorer'
+    });
+    const result = await scoreAnswer(ai, request);
+
+    return new Response(JSON.stringify({ success: true, result }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error(`❌ Error scoring answer:`, error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: errorStatus(error),
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function scoreAnswer(ai: AIProvider, request: ScoreRequest) {
+  const keyPoints = request.key_points.map((point, i) => `${i + 1}. ${point}`).join('\n');
+
+  const prompt = `Grade a mock interview answer${request.role ? ` for a ${request.role} candidate` : ''}.
+
+Question: ${request.question}
+${request.reference_answer ? `Reference answer: ${request.reference_answer.substring(0, 2000)}\n` : ''}Key points to look for:
+${keyPoints || '(none listed; judge against the reference answer)'}
+
+Candidate's answer (transcribed speech, may contain recognition errors):
+"""${request.transcript}"""
+
+Return a JSON object with this structure:
+{
+  "breakdown": {
+    "key_points": 0-100,
+    "structure": 0-100,
+    "technical": 0-100
+  },
+  "key_points_covered": [true, false, ...],
+  ${request.expects_star ? '"star": { "situation": true, "task": true, "action": true, "result": false },\n  ' : ''}"strengths": ["Short, specific strength"],
+  "improvements": ["Short, actionable improvement"],
+  "feedback": "One or two sentences summarising the answer"
+}
+
+Guidelines:
+- key_points_covered has one entry per numbered key point, in order
+- key_points: how much of the expected content the answer covered
+- structure: ${request.expects_star ? 'how clearly it follows Situation, Task, Action, Result' : 'how logically organised and easy to follow it is'}
+- technical: whether the technical claims are correct and precise; penalise wrong statements
+- Do not penalise filler words or transcription errors
+- Be fair but strict; an average answer scores around 60`;
+
+  return completeJSON(ai, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an experienced interviewer who grades answers against a rubric and gives concise, actionable feedback.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    temperature: 0.2,
+    maxTokens: 1000
+  });
+}
@@ -0,0 +1,168 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { AIProvider, completeJSON } from '../_shared/ai/index.ts';
+import { createAIClient, errorStatus, getRequestUserId } from '../_shared/ai/server.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type Difficulty = 'easy' | 'medium' | 'hard';
+
+interface PlanRequest {
+  action: 'plan';
+  role: string;
+  techStack: string[];
+  experience: string;
+  difficulty: Difficulty;
+  skills: string[];
+  skillGaps: string[];
+  projects: Array<{ title: string; description: string; technologies: string[] }>;
+  count?: number;
+}
+
+interface FollowUpRequest {
+  action: 'follow_up';
+  role: string | null;
+  techStack: string[];
+  question: string;
+  suggested_answer?: string;
+  transcript: string;
+  strength: 'weak' | 'strong';
+  difficulty: Difficulty;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const request: PlanRequest | FollowUpRequest = await req.json();
+    const ai = await createAIClient({
+      supabaseClient,
+      userId: await getRequestUserId(supabaseClient, req),
+      feature: `interview-question-generator:${request.action}`
+    });
+    let result: Record<string, unknown>;
+
+    switch (request.action) {
+      case 'plan':
+        console.log(`🤖 Generating interview plan for ${request.role}`);
+        result = await generatePlan(ai, request);
+        break;
+
+      case 'follow_up':
+        result = await generateFollowUp(ai, request);
+        break;
+
+      default:
+        throw new Error(`Unsupported action: ${(request as { action: string }).action}`);
+    }
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error(`❌ Error generating interview questions:`, error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: errorStatus(error),
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function callModel(ai: AIProvider, system: string, prompt: string, maxTokens: number) {
+  return completeJSON(ai, {
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: prompt }
+    ],
+    temperature: 0.6,
+    maxTokens
+  });
+}
+
+async function generatePlan(ai: AIProvider, request: PlanRequest) {
+  const count = Math.min(Math.max(request.count || 6, 3), 10);
+  const projects = request.projects
+    .map(project => `- ${project.title} (${project.technologies.join(', ') || 'no stack listed'}): ${project.description.substring(0, 300)}`)
+    .join('\n');
+
+  const prompt = `Plan a ${count}-question technical interview for a ${request.role} candidate with ${request.experience} years of experience.
+
+Target tech stack: ${request.techStack.join(', ') || 'not specified'}
+Skills from their resume: ${request.skills.slice(0, 15).join(', ') || 'none listed'}
+Skill gaps for the role: ${request.skillGaps.slice(0, 5).join(', ') || 'none identified'}
+Projects from their resume:
+${projects || '- none listed'}
+
+Return a JSON object with this structure:
+{
+  "questions": [
+    {
+      "question": "The question as the interviewer would say it",
+      "suggested_answer": "The key points a strong answer covers, as one paragraph",
+      "topic": "Project name, skill or concept the question is about",
+      "difficulty": "easy | medium | hard",
+      "source": "project | skill | skill_gap | role"
+    }
+  ]
+}
+
+Guidelines:
+- Ask about at least two of the listed projects by name when projects are given
+- Cover the target tech stack, and probe at most one skill gap
+- Start around ${request.difficulty} difficulty and end with harder questions
+- Prefer open questions that reveal reasoning and trade-offs over trivia`;
+
+  const result = await callModel(
+    ai,
+    'You are an experienced technical interviewer who tailors questions to the candidate\'s background.',
+    prompt,
+    2500
+  );
+
+  return { questions: Array.isArray(result.questions) ? result.questions.slice(0, count) : [] };
+}
+
+async function generateFollowUp(ai: AIProvider, request: FollowUpRequest) {
+  const direction = request.strength === 'weak'
+    ? 'The answer was thin or missed key points. Ask an easier, more concrete follow-up that gives them a chance to show what they know.'
+    : 'The answer was strong. Ask a harder follow-up that builds on something specific they said.';
+
+  const prompt = `You are interviewing a ${request.role || 'software'} candidate (stack: ${request.techStack.join(', ') || 'not specified'}).
+
+Question asked: ${request.question}
+${request.suggested_answer ? `A strong answer covers: ${request.suggested_answer}\n` : ''}
+Candidate's answer (transcribed speech):
+"""${request.transcript}"""
+
+${direction} Target ${request.difficulty} difficulty.
+
+Return a JSON object with this structure:
+{
+  "question": {
+    "question": "One follow-up question, spoken naturally",
+    "suggested_answer": "The key points a strong answer covers"
+  }
+}`;
+
+  return await callModel(
+    ai,
+    'You are an experienced technical interviewer who adapts to the candidate\'s previous answer.',
+    prompt,
+    600
+  );
+}
@@ -0,0 +1,121 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { AIProvider, completeJSON } from '../_shared/ai/index.ts';
+import { createAIClient, errorStatus, getRequestUserId } from '../_shared/ai/server.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RewriteRequest {
+  bullets: string[];
+  keywords: string[];
+  job_role?: string | null;
+  job_description?: string | null;
+  // Technologies and skills the profile lists, which rewrites may mention
+  supported?: string[];
+}
+
+interface Suggestion {
+  original?: string;
+  rewritten?: string;
+  keywords?: string[];
+}
+
+const MAX_BULLETS = 12;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const request: RewriteRequest = await req.json();
+
+    if (!Array.isArray(request.bullets) || request.bullets.length === 0) {
+      throw new Error('bullets are required');
+    }
+    if (!Array.isArray(request.keywords) || request.keywords.length === 0) {
+      throw new Error('keywords are required');
+    }
+
+    const ai = await createAIClient({
+      supabaseClient,
+      userId: await getRequestUserId(supabaseClient, req),
+      feature: 'resume-bullet-rewriter'
+    });
+    const suggestions = await rewriteBullets(ai, request);
+
+    return new Response(JSON.stringify({ success: true, suggestions }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error(`❌ Error rewriting bullets:`, error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: errorStatus(error),
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function rewriteBullets(ai: AIProvider, request: RewriteRequest) {
+  const bullets = request.bullets.slice(0, MAX_BULLETS);
+
+  const prompt = `Rewrite resume bullets${request.job_role ? ` for a ${request.job_role} application` : ''} so they use keywords from the job description.
+
+Bullets:
+${bullets.map((bullet, i) => `${i + 1}. ${bullet}`).join('\n')}
+
+Keywords the resume is missing: ${request.keywords.join(', ')}
+${request.supported?.length ? `Technologies and skills the candidate lists: ${request.supported.join(', ')}\n` : ''}${request.job_description ? `Job description:\n"""${request.job_description.substring(0, 3000)}"""\n` : ''}
+Return a JSON object with this structure:
+{
+  "suggestions": [
+    {
+      "original": "The bullet exactly as given",
+      "rewritten": "The improved bullet",
+      "keywords": ["keywords used"]
+    }
+  ]
+}
+
+Guidelines:
+- Only suggest a rewrite where a keyword fits what the bullet already describes
+- Never invent employers, numbers, tools or results the bullet or skills don't support
+- Keep each bullet to one sentence starting with a strong verb
+- Skip bullets that cannot honestly use any keyword`;
+
+  const result = await completeJSON<{ suggestions?: Suggestion[] }>(ai, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are a careful resume editor. You tailor wording to a job without overstating experience.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    temperature: 0.4,
+    maxTokens: 1500
+  });
+
+  return (Array.isArray(result.suggestions) ? result.suggestions : [])
+    .filter(suggestion => suggestion?.original && suggestion?.rewritten && bullets.includes(String(suggestion.original)))
+    .map(suggestion => ({
+      original: String(suggestion.original),
+      rewritten: String(suggestion.rewritten),
+      keywords: Array.isArray(suggestion.keywords) ? suggestion.keywords.map(String) : []
+    }));
+}
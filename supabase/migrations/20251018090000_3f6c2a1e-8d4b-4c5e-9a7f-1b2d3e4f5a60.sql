@@ -0,0 +1,50 @@
+-- Create DSA progress table to persist solved problems per user
+-- problem_key is the normalized problem URL so the same problem listed under
+-- a topic and a company shares one completion record
+CREATE TABLE public.dsa_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  problem_key TEXT NOT NULL,
+  problem_url TEXT NOT NULL,
+  problem_name TEXT NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, problem_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dsa_progress_user_id ON public.dsa_progress(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.dsa_progress ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own DSA progress"
+ON public.dsa_progress
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own DSA progress"
+ON public.dsa_progress
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own DSA progress"
+ON public.dsa_progress
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own DSA progress"
+ON public.dsa_progress
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_dsa_progress_updated_at
+BEFORE UPDATE ON public.dsa_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Broadcast changes so other open sessions stay in sync
+ALTER TABLE public.dsa_progress REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.dsa_progress;
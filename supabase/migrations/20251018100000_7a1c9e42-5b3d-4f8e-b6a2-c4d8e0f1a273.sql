@@ -0,0 +1,14 @@
+-- Allow code_submissions to store DSA sheet solutions, which are not tied
+-- to an exam question or attempt
+ALTER TABLE code_submissions
+  ALTER COLUMN question_id DROP NOT NULL,
+  ALTER COLUMN attempt_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS problem_key TEXT;
+
+-- Every submission must belong to either an exam question or a DSA problem
+ALTER TABLE code_submissions
+  ADD CONSTRAINT code_submissions_target_check
+  CHECK (question_id IS NOT NULL OR problem_key IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_code_submissions_user_problem
+  ON code_submissions(user_id, problem_key, created_at DESC);
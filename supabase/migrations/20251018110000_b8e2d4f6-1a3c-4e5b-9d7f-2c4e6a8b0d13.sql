@@ -0,0 +1,9 @@
+-- Stream generation job updates to the client so progress reflects the
+-- agent's real state. status now also allows 'cancelled'.
+COMMENT ON COLUMN course_generation_jobs.status IS 'pending, processing, completed, failed, cancelled';
+
+CREATE INDEX IF NOT EXISTS idx_course_generation_jobs_user_status
+  ON course_generation_jobs(user_id, status, created_at DESC);
+
+ALTER TABLE course_generation_jobs REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE course_generation_jobs;
@@ -0,0 +1,50 @@
+-- Per-user spaced repetition state for course flashcards (SM-2 scheduling)
+CREATE TABLE public.flashcard_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  flashcard_id UUID NOT NULL REFERENCES course_flashcards(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  ease_factor NUMERIC(4,2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_grade TEXT CHECK (last_grade IN ('again', 'hard', 'good', 'easy')),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  total_reviews INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, flashcard_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_user_due ON public.flashcard_reviews(user_id, due_at);
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_course ON public.flashcard_reviews(course_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.flashcard_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own flashcard reviews"
+ON public.flashcard_reviews
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own flashcard reviews"
+ON public.flashcard_reviews
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own flashcard reviews"
+ON public.flashcard_reviews
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own flashcard reviews"
+ON public.flashcard_reviews
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_flashcard_reviews_updated_at
+BEFORE UPDATE ON public.flashcard_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,57 @@
+-- Persisted MCQ quiz sessions. Each answer records the chapter and
+-- difficulty of its question so scores can be broken down without joins.
+CREATE TABLE public.quiz_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  chapter_id UUID REFERENCES course_chapters(id) ON DELETE SET NULL,
+  mode TEXT NOT NULL DEFAULT 'all' CHECK (mode IN ('all', 'chapter', 'wrong_only')),
+  mcq_ids UUID[] NOT NULL DEFAULT '{}',
+  score INTEGER NOT NULL DEFAULT 0,
+  total_questions INTEGER NOT NULL DEFAULT 0,
+  time_spent INTEGER NOT NULL DEFAULT 0, -- in seconds
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.quiz_answers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES quiz_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  mcq_id UUID NOT NULL REFERENCES course_mcqs(id) ON DELETE CASCADE,
+  chapter_id UUID REFERENCES course_chapters(id) ON DELETE SET NULL,
+  difficulty TEXT,
+  selected_answer TEXT NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  time_taken_ms INTEGER,
+  answered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(session_id, mcq_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_user_course ON public.quiz_sessions(user_id, course_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quiz_answers_user_course ON public.quiz_answers(user_id, course_id, answered_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.quiz_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own quiz sessions"
+ON public.quiz_sessions
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own quiz answers"
+ON public.quiz_answers
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_quiz_sessions_updated_at
+BEFORE UPDATE ON public.quiz_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
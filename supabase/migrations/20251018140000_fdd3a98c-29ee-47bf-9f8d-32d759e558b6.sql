@@ -0,0 +1,6 @@
+-- One response per question: re-recording an answer replaces the previous row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interview_responses_session_question
+  ON interview_responses(session_id, question_index);
+
+CREATE INDEX IF NOT EXISTS idx_interview_sessions_user_started
+  ON interview_sessions(user_id, started_at DESC);
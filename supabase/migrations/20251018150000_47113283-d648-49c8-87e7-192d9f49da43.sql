@@ -0,0 +1,6 @@
+-- Timestamped speech-to-text output for each recorded answer. response_text keeps
+-- the plain transcript; transcript holds segments, word timings and speech metrics.
+ALTER TABLE interview_responses
+  ADD COLUMN IF NOT EXISTS transcript JSONB,
+  ADD COLUMN IF NOT EXISTS transcription_status TEXT
+    CHECK (transcription_status IN ('pending', 'processing', 'completed', 'failed'));
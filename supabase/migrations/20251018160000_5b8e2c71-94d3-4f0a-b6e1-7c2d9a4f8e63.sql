@@ -0,0 +1,41 @@
+-- Behavioral interviews get their own session type
+ALTER TABLE interview_sessions DROP CONSTRAINT IF EXISTS interview_sessions_session_type_check;
+ALTER TABLE interview_sessions
+  ADD CONSTRAINT interview_sessions_session_type_check
+  CHECK (session_type IN ('technical', 'aptitude', 'hr', 'mixed', 'behavioral'));
+
+-- Story bank: polished STAR stories a user can reuse across behavioral
+-- questions, optionally linked to the experience or project they come from
+CREATE TABLE public.interview_stories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  competencies TEXT[] NOT NULL DEFAULT '{}',
+  situation TEXT NOT NULL DEFAULT '',
+  task TEXT NOT NULL DEFAULT '',
+  action TEXT NOT NULL DEFAULT '',
+  result TEXT NOT NULL DEFAULT '',
+  experience_id UUID REFERENCES user_experience(id) ON DELETE SET NULL,
+  project_id UUID REFERENCES user_projects(id) ON DELETE SET NULL,
+  times_used INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_stories_user ON public.interview_stories(user_id, updated_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.interview_stories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own interview stories"
+ON public.interview_stories
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_interview_stories_updated_at
+BEFORE UPDATE ON public.interview_stories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
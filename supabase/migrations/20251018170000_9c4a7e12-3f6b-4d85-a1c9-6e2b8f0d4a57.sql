@@ -0,0 +1,4 @@
+-- Live coding answers: problem, keystroke timeline and final test run, kept
+-- alongside the recording so the session can be replayed in sync with it
+ALTER TABLE interview_responses
+  ADD COLUMN IF NOT EXISTS coding_session JSONB;
@@ -0,0 +1,10 @@
+-- System design interviews get their own session type
+ALTER TABLE interview_sessions DROP CONSTRAINT IF EXISTS interview_sessions_session_type_check;
+ALTER TABLE interview_sessions
+  ADD CONSTRAINT interview_sessions_session_type_check
+  CHECK (session_type IN ('technical', 'aptitude', 'hr', 'mixed', 'behavioral', 'system_design'));
+
+-- Whiteboard drawn during a design answer: components, labelled connections
+-- and the prompt it answers, checked against that prompt's rubric
+ALTER TABLE interview_responses
+  ADD COLUMN IF NOT EXISTS design_diagram JSONB;
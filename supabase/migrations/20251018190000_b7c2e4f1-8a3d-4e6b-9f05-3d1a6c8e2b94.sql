@@ -0,0 +1,48 @@
+-- DSA tutor chats: one row per conversation with the topic/problem it was
+-- started from, and its messages in order
+CREATE TABLE public.dsa_tutor_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'chat' CHECK (mode IN ('chat', 'hints')),
+  -- Highest hint revealed so far in hint mode
+  hint_level INTEGER NOT NULL DEFAULT 0,
+  context JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.dsa_tutor_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.dsa_tutor_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  hint_level INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dsa_tutor_conversations_user ON public.dsa_tutor_conversations(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dsa_tutor_messages_conversation ON public.dsa_tutor_messages(conversation_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.dsa_tutor_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dsa_tutor_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own tutor conversations"
+ON public.dsa_tutor_conversations
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own tutor messages"
+ON public.dsa_tutor_messages
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_dsa_tutor_conversations_updated_at
+BEFORE UPDATE ON public.dsa_tutor_conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,40 @@
+-- Provider-agnostic AI settings. A null ai_provider means the server default
+-- (AI_PROVIDER, falling back to Groq). The old Gemini key carries over.
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS ai_provider TEXT CHECK (ai_provider IN ('groq', 'gemini', 'openai_compatible', 'mock')),
+  ADD COLUMN IF NOT EXISTS ai_model TEXT,
+  -- Only used by OpenAI-compatible servers such as Ollama or llama.cpp
+  ADD COLUMN IF NOT EXISTS ai_base_url TEXT,
+  ADD COLUMN IF NOT EXISTS ai_api_key TEXT;
+
+UPDATE public.user_settings
+SET ai_provider = 'gemini', ai_api_key = gemini_api_key
+WHERE gemini_api_key IS NOT NULL AND ai_provider IS NULL;
+
+ALTER TABLE public.user_settings DROP COLUMN IF EXISTS gemini_api_key;
+
+-- One row per completed model call, written by the edge functions with the
+-- service role key
+CREATE TABLE public.ai_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  -- Function and task that made the call, e.g. generate-course-content:flashcards
+  feature TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user ON public.ai_usage(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI usage"
+ON public.ai_usage
+FOR SELECT
+USING (auth.uid() = user_id);
@@ -0,0 +1,45 @@
+-- Tie usage rows to the course they were generated for
+ALTER TABLE public.ai_usage
+  ADD COLUMN IF NOT EXISTS course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_course ON public.ai_usage(course_id) WHERE course_id IS NOT NULL;
+
+-- Per-user daily limits. Users without a row, or with a null limit, get the
+-- server default (AI_DAILY_TOKEN_LIMIT / AI_DAILY_REQUEST_LIMIT, unlimited
+-- when unset). Rows are managed with the service role key, so users can read
+-- their quota but not raise it.
+CREATE TABLE public.ai_quotas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_token_limit INTEGER CHECK (daily_token_limit >= 0),
+  daily_request_limit INTEGER CHECK (daily_request_limit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.ai_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI quota"
+ON public.ai_quotas
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_ai_quotas_updated_at
+BEFORE UPDATE ON public.ai_quotas
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Tokens and requests used since midnight UTC, checked before every model call
+CREATE OR REPLACE FUNCTION public.get_ai_usage_today(p_user_id UUID)
+RETURNS TABLE (total_tokens BIGINT, request_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(ai_usage.total_tokens), 0)::BIGINT, COUNT(*)::BIGINT
+  FROM public.ai_usage
+  WHERE ai_usage.user_id = p_user_id
+    AND ai_usage.created_at >= date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc';
+$$;
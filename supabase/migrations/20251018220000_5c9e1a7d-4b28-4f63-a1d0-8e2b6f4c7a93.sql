@@ -0,0 +1,13 @@
+-- Per-step state for the course generation workflow, keyed by step
+-- (layout, chapters, flashcards, mcqs, qnas, notebook, resources):
+--   { "chapters": { "status": "completed", "attempts": 1, "error": null,
+--                   "started_at": "...", "completed_at": "..." }, ... }
+-- Completed steps are skipped when a failed job is retried, and a single
+-- step can be rerun on its own to regenerate that part of the course.
+ALTER TABLE course_generation_jobs
+  ADD COLUMN IF NOT EXISTS steps JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN course_generation_jobs.steps IS 'Step key -> { status: pending|running|completed|failed, attempts, error, started_at, completed_at }';
+
+-- Look up the job behind a course when regenerating one of its steps
+CREATE INDEX IF NOT EXISTS idx_course_generation_jobs_course ON course_generation_jobs(course_id);
@@ -0,0 +1,65 @@
+-- Resume variants: named copies of the profile tailored to one job. content
+-- holds the profile snapshot the variant was made from, layout the template
+-- and section choices, and bullets the ordered, selectable experience
+-- bullets (including accepted rewrites), keyed by experience entry id.
+CREATE TABLE public.resume_variants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  job_role TEXT,
+  company TEXT,
+  job_description TEXT,
+  -- From the resume analysis the variant was created from, if any
+  target_keywords TEXT[] NOT NULL DEFAULT '{}',
+  skill_gaps TEXT[] NOT NULL DEFAULT '{}',
+  advice TEXT[] NOT NULL DEFAULT '{}',
+  content JSONB NOT NULL DEFAULT '{}',
+  layout JSONB NOT NULL DEFAULT '{}',
+  bullets JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Where each variant was sent
+CREATE TABLE public.resume_variant_applications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  variant_id UUID NOT NULL REFERENCES public.resume_variants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company TEXT NOT NULL,
+  position TEXT,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'interviewing', 'offer', 'rejected', 'withdrawn')),
+  notes TEXT,
+  sent_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resume_variants_user ON public.resume_variants(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_resume_variant_applications_variant ON public.resume_variant_applications(variant_id, sent_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.resume_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resume_variant_applications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own resume variants"
+ON public.resume_variants
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own resume variant applications"
+ON public.resume_variant_applications
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_resume_variants_updated_at
+BEFORE UPDATE ON public.resume_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_resume_variant_applications_updated_at
+BEFORE UPDATE ON public.resume_variant_applications
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
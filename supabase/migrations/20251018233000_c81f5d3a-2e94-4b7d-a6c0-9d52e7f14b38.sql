@@ -0,0 +1,34 @@
+-- Every resume run through the analyzer, kept so scores can be tracked per
+-- job role and versions compared. user_resumes stays the single resume the
+-- profile was filled from; these rows are the analysis history.
+CREATE TABLE public.resume_analyses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  file_size INTEGER,
+  storage_path TEXT,
+  job_role TEXT NOT NULL,
+  job_description TEXT,
+  extracted_text TEXT,
+  -- The full analysis in the resume analyzer's response shape
+  analysis JSONB NOT NULL DEFAULT '{}',
+  overall_score INTEGER NOT NULL DEFAULT 0,
+  ats_score INTEGER NOT NULL DEFAULT 0,
+  job_match_score INTEGER NOT NULL DEFAULT 0,
+  skill_gaps TEXT[] NOT NULL DEFAULT '{}',
+  recommendations TEXT[] NOT NULL DEFAULT '{}',
+  -- 'ai' for the analyzer service, 'offline' for the in-browser ATS check
+  source TEXT NOT NULL DEFAULT 'ai' CHECK (source IN ('ai', 'offline')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resume_analyses_user_role ON public.resume_analyses(user_id, job_role, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.resume_analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own resume analyses"
+ON public.resume_analyses
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,30 @@
+-- Undo log for resume data merged into the profile. Each row keeps the
+-- profile sections a merge touched as they were before and after it was
+-- applied, so the merge can be rolled back after the fact without undoing
+-- edits made since.
+CREATE TABLE public.profile_merges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Name of the resume file the data was extracted from
+  source TEXT,
+  confidence_score NUMERIC,
+  -- Accepted changes as { section, label, action } for display
+  changes JSONB NOT NULL DEFAULT '[]',
+  -- ProfileFormData sections touched by the merge, before it was applied
+  previous JSONB NOT NULL DEFAULT '{}',
+  -- The same sections as the merge left them
+  applied JSONB NOT NULL DEFAULT '{}',
+  undone_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_profile_merges_user ON public.profile_merges(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.profile_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own profile merges"
+ON public.profile_merges
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,11 @@
+-- Content a regenerated course step no longer produces but that learners'
+-- progress, reviews or quiz answers still point at. Archived rows keep those
+-- references valid and are left out of the course everywhere else.
+ALTER TABLE public.course_chapters
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.course_flashcards
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.course_mcqs
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
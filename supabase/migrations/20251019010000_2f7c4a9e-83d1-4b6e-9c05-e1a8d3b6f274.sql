@@ -0,0 +1,142 @@
+-- Exams are graded in the database. Answer keys are only readable through
+-- get_exam_answer_key once the caller has submitted the exam, and scores are
+-- only written by submit_exam_attempt, so neither can be read or forged from
+-- the client.
+
+-- Learners see questions without their answers, and can't edit questions
+REVOKE SELECT, INSERT, UPDATE ON public.exam_questions FROM anon, authenticated;
+GRANT SELECT (id, exam_id, course_id, question_text, question_type, options, code_template, marks, difficulty, tags, created_at)
+  ON public.exam_questions TO authenticated;
+
+-- Attempts are started with no score and only their in-progress answers
+-- can change until they are submitted
+DROP POLICY IF EXISTS "Users can manage their own exam attempts" ON public.exam_attempts;
+
+CREATE POLICY "Users can view their own exam attempts"
+ON public.exam_attempts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can start their own exam attempts"
+ON public.exam_attempts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND is_completed = false);
+
+CREATE POLICY "Users can save answers to their open exam attempts"
+ON public.exam_attempts
+FOR UPDATE
+USING (auth.uid() = user_id AND is_completed = false)
+WITH CHECK (auth.uid() = user_id AND is_completed = false);
+
+CREATE POLICY "Users can delete their own exam attempts"
+ON public.exam_attempts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE ON public.exam_attempts FROM anon, authenticated;
+GRANT INSERT (user_id, exam_id, course_id, answers, is_completed) ON public.exam_attempts TO authenticated;
+GRANT UPDATE (answers) ON public.exam_attempts TO authenticated;
+
+-- Only case, surrounding whitespace and a trailing full stop are ignored;
+-- punctuation inside an answer can matter ("C++", "O(n)")
+CREATE OR REPLACE FUNCTION public.normalize_short_answer(p_answer TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(regexp_replace(lower(regexp_replace(p_answer, '^\s+|\s+$', '', 'g')), '\s+', ' ', 'g'), '\.$', '');
+$$;
+
+-- Grades and closes an open attempt of the caller's. Objective answers must
+-- match the correct option exactly; short answers must match the whole
+-- expected answer. Time spent is capped at the exam's duration.
+CREATE OR REPLACE FUNCTION public.submit_exam_attempt(p_attempt_id UUID, p_answers JSONB, p_time_spent INTEGER)
+RETURNS public.exam_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt public.exam_attempts;
+  v_duration INTEGER;
+  v_question RECORD;
+  v_response TEXT;
+  v_correct BOOLEAN;
+  v_graded JSONB := '{}';
+  v_score INTEGER := 0;
+  v_max_score INTEGER := 0;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM public.exam_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam attempt not found';
+  END IF;
+  IF v_attempt.is_completed THEN
+    RAISE EXCEPTION 'The attempt has already been submitted';
+  END IF;
+
+  SELECT duration_minutes INTO v_duration FROM public.course_exams WHERE id = v_attempt.exam_id;
+
+  FOR v_question IN
+    SELECT id, question_type, correct_answer, marks FROM public.exam_questions WHERE exam_id = v_attempt.exam_id
+  LOOP
+    v_response := COALESCE(p_answers -> v_question.id::TEXT ->> 'answer', '');
+    v_correct := v_response <> '' AND CASE
+      WHEN v_question.question_type = 'short_answer'
+        THEN normalize_short_answer(v_response) = normalize_short_answer(v_question.correct_answer)
+      ELSE v_response = v_question.correct_answer
+    END;
+
+    v_graded := v_graded || jsonb_build_object(
+      v_question.id::TEXT,
+      COALESCE(p_answers -> v_question.id::TEXT, '{}') || jsonb_build_object(
+        'answer', v_response,
+        'is_correct', v_correct,
+        'marks_awarded', CASE WHEN v_correct THEN v_question.marks ELSE 0 END
+      )
+    );
+    v_score := v_score + CASE WHEN v_correct THEN v_question.marks ELSE 0 END;
+    v_max_score := v_max_score + v_question.marks;
+  END LOOP;
+
+  UPDATE public.exam_attempts
+  SET answers = v_graded,
+      score = v_score,
+      max_score = v_max_score,
+      time_spent = LEAST(GREATEST(COALESCE(p_time_spent, 0), 0), COALESCE(v_duration, 0) * 60),
+      completed_at = now(),
+      is_completed = true
+  WHERE id = p_attempt_id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$;
+
+-- Correct answers and explanations for reviewing an exam the caller has
+-- submitted at least once
+CREATE OR REPLACE FUNCTION public.get_exam_answer_key(p_exam_id UUID)
+RETURNS TABLE (question_id UUID, correct_answer TEXT, explanation TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT exam_questions.id, exam_questions.correct_answer, exam_questions.explanation
+  FROM public.exam_questions
+  WHERE exam_questions.exam_id = p_exam_id
+    AND EXISTS (
+      SELECT 1 FROM public.exam_attempts
+      WHERE exam_attempts.exam_id = p_exam_id
+        AND exam_attempts.user_id = auth.uid()
+        AND exam_attempts.is_completed
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_exam_attempt(UUID, JSONB, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_exam_answer_key(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_exam_attempt(UUID, JSONB, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_exam_answer_key(UUID) TO authenticated;